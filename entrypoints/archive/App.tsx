@@ -0,0 +1,402 @@
+import type { JSX } from 'preact';
+import { useEffect, useState } from 'preact/hooks';
+import { browser } from 'wxt/browser';
+import {
+    type ArchiveFilterInputs,
+    buildArchiveQuery,
+    clearArchive,
+    deleteArchivedConversation,
+    describeArchiveResults,
+    EMPTY_ARCHIVE_FILTERS,
+    formatArchiveTimestamp,
+    getArchivedConversation,
+    hasArchiveFilters,
+    searchArchive,
+    splitSnippetText,
+} from '@/entrypoints/archive/archive-view';
+import type {
+    ConversationArchiveEntry,
+    ConversationArchiveModelCount,
+    ConversationArchivePlatformCount,
+    ConversationArchiveSearchHit,
+    ConversationArchiveSnippet,
+} from '@/utils/archive/conversation-archive-contract';
+import { downloadBlobAsFile } from '@/utils/dom-download';
+import { downloadAsFile } from '@/utils/download';
+import {
+    createExportEncryptor,
+    decryptExportEnvelope,
+    encryptExportForDownload,
+    parseExportEnvelope,
+} from '@/utils/encryption/export-envelope';
+import { MISSING_EXPORT_PASSPHRASE_ERROR, readSessionExportPassphrase } from '@/utils/encryption/export-passphrase';
+import { EXPORT_FORMAT_REGISTRY, serializeConversationExport } from '@/utils/export/formats';
+import { buildTranscriptEntries } from '@/utils/export/transcript';
+import {
+    DEFAULT_EXPORT_FORMAT,
+    EXPORT_FORMATS,
+    type ExportFormat,
+    type ExportFormatSettingsMap,
+    loadArchiveEnabledSetting,
+    loadEncryptionEnabledSetting,
+    loadExportFormatSetting,
+    loadExportFormatSettingsMap,
+    STORAGE_KEYS,
+} from '@/utils/settings';
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+type ConversationViewProps = {
+    entry: ConversationArchiveEntry;
+    exportFormat: ExportFormat;
+    onExportFormatChange: (format: ExportFormat) => void;
+    onExport: () => void;
+    onDelete: () => void;
+};
+
+const ConversationView = ({ entry, exportFormat, onExportFormatChange, onExport, onDelete }: ConversationViewProps) => {
+    const transcript = buildTranscriptEntries(entry.conversation);
+    return (
+        <article className="conversation">
+            <header className="conversation-header">
+                <h2>{entry.title}</h2>
+                <p className="meta">
+                    {entry.platform} · {formatArchiveTimestamp(entry)} · {entry.messageCount} messages
+                    {entry.models.length > 0 ? ` · ${entry.models.join(', ')}` : ''}
+                    {entry.exportMeta.fidelity === 'degraded' ? ' · degraded capture' : ''}
+                </p>
+                <div className="toolbar">
+                    <select
+                        aria-label="Export format"
+                        value={exportFormat}
+                        onChange={(event) => onExportFormatChange(event.currentTarget.value as ExportFormat)}
+                    >
+                        {EXPORT_FORMATS.map((format) => (
+                            <option key={format} value={format}>
+                                {EXPORT_FORMAT_REGISTRY[format].label}
+                            </option>
+                        ))}
+                    </select>
+                    <button type="button" className="primary" onClick={onExport}>
+                        Export
+                    </button>
+                    <button type="button" className="secondary" onClick={onDelete}>
+                        Delete
+                    </button>
+                </div>
+            </header>
+            {transcript.map((message) => (
+                <section key={message.id} className={`message message-${message.role}`}>
+                    <div className="message-heading">
+                        <strong>{message.roleLabel}</strong>
+                        {message.timestamp ? <span className="meta">{message.timestamp}</span> : null}
+                    </div>
+                    {message.thoughts.map((thought, index) => (
+                        <details key={`${message.id}-thought-${index}`} className="thought">
+                            <summary>{thought.summary || 'Thoughts'}</summary>
+                            <p>{thought.content}</p>
+                        </details>
+                    ))}
+                    {message.text ? <p className="message-text">{message.text}</p> : null}
+                </section>
+            ))}
+        </article>
+    );
+};
+
+const SnippetText = ({ snippet }: { snippet: ConversationArchiveSnippet }) => (
+    <span className="snippet">
+        {snippet.role ? <strong>{snippet.role}: </strong> : null}
+        {splitSnippetText(snippet).map((part, index) =>
+            part.highlighted ? <mark key={index}>{part.text}</mark> : <span key={index}>{part.text}</span>,
+        )}
+    </span>
+);
+
+type ArchiveListProps = {
+    results: ConversationArchiveSearchHit[];
+    selectedId: string | null;
+    onSelect: (id: string) => void;
+};
+
+const ArchiveList = ({ results, selectedId, onSelect }: ArchiveListProps) => (
+    <ul className="result-list">
+        {results.map((result) => (
+            <li key={result.id}>
+                <button
+                    type="button"
+                    className={result.id === selectedId ? 'result selected' : 'result'}
+                    onClick={() => onSelect(result.id)}
+                >
+                    <span className="result-title">{result.title}</span>
+                    <span className="meta">
+                        {result.platform} · {formatArchiveTimestamp(result)}
+                    </span>
+                    {result.snippet?.field === 'message' ? <SnippetText snippet={result.snippet} /> : null}
+                </button>
+            </li>
+        ))}
+    </ul>
+);
+
+type ArchiveFiltersProps = {
+    filters: ArchiveFilterInputs;
+    platforms: ConversationArchivePlatformCount[];
+    models: ConversationArchiveModelCount[];
+    onChange: (filters: ArchiveFilterInputs) => void;
+};
+
+const DATE_FILTERS: Array<{ key: keyof ArchiveFilterInputs; label: string }> = [
+    { key: 'createdFrom', label: 'Created from' },
+    { key: 'createdTo', label: 'Created to' },
+    { key: 'updatedFrom', label: 'Updated from' },
+    { key: 'updatedTo', label: 'Updated to' },
+];
+
+const ArchiveFilters = ({ filters, platforms, models, onChange }: ArchiveFiltersProps) => (
+    <>
+        <select
+            aria-label="Platform"
+            value={filters.platform}
+            onChange={(event) => onChange({ ...filters, platform: event.currentTarget.value })}
+        >
+            <option value="">All platforms</option>
+            {platforms.map((entry) => (
+                <option key={entry.platform} value={entry.platform}>
+                    {entry.platform} ({entry.count})
+                </option>
+            ))}
+        </select>
+        <select
+            aria-label="Model"
+            value={filters.model}
+            onChange={(event) => onChange({ ...filters, model: event.currentTarget.value })}
+        >
+            <option value="">All models</option>
+            {models.map((entry) => (
+                <option key={entry.model} value={entry.model}>
+                    {entry.model} ({entry.count})
+                </option>
+            ))}
+        </select>
+        <details className="date-filters">
+            <summary>Dates</summary>
+            {DATE_FILTERS.map(({ key, label }) => (
+                <label key={key} className="date-row">
+                    {label}
+                    <input
+                        type="date"
+                        value={filters[key]}
+                        onInput={(event) => onChange({ ...filters, [key]: event.currentTarget.value })}
+                    />
+                </label>
+            ))}
+        </details>
+    </>
+);
+
+const App = () => {
+    const [archiveEnabled, setArchiveEnabled] = useState<boolean>(false);
+    const [filters, setFilters] = useState<ArchiveFilterInputs>(EMPTY_ARCHIVE_FILTERS);
+    const [searchText, setSearchText] = useState<string>('');
+    const [results, setResults] = useState<ConversationArchiveSearchHit[]>([]);
+    const [total, setTotal] = useState<number>(0);
+    const [platforms, setPlatforms] = useState<ConversationArchivePlatformCount[]>([]);
+    const [models, setModels] = useState<ConversationArchiveModelCount[]>([]);
+    const [selected, setSelected] = useState<ConversationArchiveEntry | null>(null);
+    const [exportFormat, setExportFormat] = useState<ExportFormat>(DEFAULT_EXPORT_FORMAT);
+    const [exportFormatSettings, setExportFormatSettings] = useState<ExportFormatSettingsMap>({});
+    const [status, setStatus] = useState<string>('');
+    const [encryptionEnabled, setEncryptionEnabled] = useState<boolean>(false);
+    const [decryptPassphrase, setDecryptPassphrase] = useState<string>('');
+
+    const runSearch = async (offset: number) => {
+        try {
+            const response = await searchArchive(buildArchiveQuery(searchText, filters, offset));
+            if (!response.ok) {
+                setStatus(`Search failed: ${response.error}`);
+                return;
+            }
+            setResults((previous) => (offset === 0 ? response.results : [...previous, ...response.results]));
+            setTotal(response.total);
+            setPlatforms(response.platforms);
+            setModels(response.models);
+            setStatus('');
+        } catch (error) {
+            setStatus(`Search failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    useEffect(() => {
+        void Promise.all([
+            loadArchiveEnabledSetting(),
+            loadExportFormatSetting(),
+            loadExportFormatSettingsMap(),
+            loadEncryptionEnabledSetting(),
+        ]).then(([enabled, format, settings, encrypt]) => {
+            setArchiveEnabled(enabled);
+            setExportFormat(format);
+            setExportFormatSettings(settings);
+            setEncryptionEnabled(encrypt);
+        });
+    }, []);
+
+    useEffect(() => {
+        const timer = setTimeout(() => void runSearch(0), SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [filters, searchText]);
+
+    const handleArchiveEnabledChange = (event: JSX.TargetedEvent<HTMLInputElement, Event>) => {
+        const enabled = event.currentTarget.checked;
+        setArchiveEnabled(enabled);
+        void browser.storage.local.set({ [STORAGE_KEYS.ARCHIVE_ENABLED]: enabled });
+    };
+
+    const handleSelect = async (id: string) => {
+        const response = await getArchivedConversation(id);
+        if (!response.ok) {
+            setStatus(`Could not open the conversation: ${response.error}`);
+            return;
+        }
+        setSelected(response.entry);
+    };
+
+    const handleExport = async () => {
+        if (!selected) {
+            return;
+        }
+        const serialized = serializeConversationExport(exportFormat, {
+            data: selected.conversation,
+            exportMeta: selected.exportMeta,
+            platform: selected.platform,
+            settingsMap: exportFormatSettings,
+        });
+        if (!encryptionEnabled) {
+            downloadAsFile(serialized.content, selected.filename, serialized.extension, serialized.mimeType);
+            return;
+        }
+        const passphrase = await readSessionExportPassphrase();
+        if (!passphrase) {
+            setStatus(MISSING_EXPORT_PASSPHRASE_ERROR);
+            return;
+        }
+        const encrypted = await encryptExportForDownload(createExportEncryptor(passphrase), {
+            filename: `${selected.filename}.${serialized.extension}`,
+            mimeType: serialized.mimeType,
+            content: serialized.content,
+        });
+        downloadAsFile(encrypted.content, encrypted.filename, encrypted.extension, encrypted.mimeType);
+    };
+
+    /** Decrypts an `.enc.json` export with the typed passphrase, or the session one when none is typed. */
+    const handleDecryptFile = async (event: JSX.TargetedEvent<HTMLInputElement, Event>) => {
+        const input = event.currentTarget;
+        const file = input.files?.[0];
+        if (!file) {
+            return;
+        }
+        try {
+            const passphrase = decryptPassphrase || (await readSessionExportPassphrase());
+            if (!passphrase) {
+                setStatus('Enter the passphrase the file was encrypted with.');
+                return;
+            }
+            const decrypted = await decryptExportEnvelope(parseExportEnvelope(await file.text()), passphrase);
+            downloadBlobAsFile(new Blob([decrypted.content], { type: decrypted.mimeType }), decrypted.filename);
+            setStatus(`Decrypted ${decrypted.filename}`);
+        } catch (error) {
+            setStatus(`Decryption failed: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            // Lets the same file be picked again, e.g. after fixing a mistyped passphrase.
+            input.value = '';
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!selected || !window.confirm(`Delete "${selected.title}" from the archive?`)) {
+            return;
+        }
+        const response = await deleteArchivedConversation(selected.id);
+        if (!response.ok) {
+            setStatus(`Delete failed: ${response.error}`);
+            return;
+        }
+        setSelected(null);
+        await runSearch(0);
+    };
+
+    const handleClear = async () => {
+        if (!window.confirm('Delete every archived conversation?')) {
+            return;
+        }
+        const response = await clearArchive();
+        if (!response.ok) {
+            setStatus(`Clear failed: ${response.error}`);
+            return;
+        }
+        setSelected(null);
+        await runSearch(0);
+    };
+
+    return (
+        <div className="layout">
+            <aside className="sidebar">
+                <h1 className="title">Blackiya Archive</h1>
+                <label className="checkbox-row">
+                    <input type="checkbox" checked={archiveEnabled} onChange={handleArchiveEnabledChange} />
+                    Archive captured chats
+                </label>
+                <input
+                    type="search"
+                    placeholder='Search, e.g. kenobi "star wars"'
+                    value={searchText}
+                    onInput={(event) => setSearchText(event.currentTarget.value)}
+                />
+                <ArchiveFilters filters={filters} platforms={platforms} models={models} onChange={setFilters} />
+                <p className="meta">
+                    {status || describeArchiveResults(results.length, total, searchText, hasArchiveFilters(filters))}
+                </p>
+                <ArchiveList results={results} selectedId={selected?.id ?? null} onSelect={handleSelect} />
+                {results.length < total ? (
+                    <button type="button" className="secondary" onClick={() => runSearch(results.length)}>
+                        Show more
+                    </button>
+                ) : null}
+                <details className="date-filters">
+                    <summary>Decrypt a file</summary>
+                    <input
+                        type="password"
+                        aria-label="Passphrase"
+                        placeholder="Passphrase (default: this session's)"
+                        value={decryptPassphrase}
+                        onInput={(event) => setDecryptPassphrase(event.currentTarget.value)}
+                    />
+                    <input
+                        type="file"
+                        aria-label="Encrypted export"
+                        accept=".json,application/json"
+                        onChange={handleDecryptFile}
+                    />
+                </details>
+                <button type="button" className="secondary" onClick={handleClear} disabled={platforms.length === 0}>
+                    Clear archive
+                </button>
+            </aside>
+            <main className="content">
+                {selected ? (
+                    <ConversationView
+                        entry={selected}
+                        exportFormat={exportFormat}
+                        onExportFormatChange={setExportFormat}
+                        onExport={() => void handleExport()}
+                        onDelete={handleDelete}
+                    />
+                ) : (
+                    <p className="empty">Select a conversation to read it or export it again.</p>
+                )}
+            </main>
+        </div>
+    );
+};
+
+export default App;
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    buildArchiveQuery,
+    describeArchiveResults,
+    EMPTY_ARCHIVE_FILTERS,
+    formatArchiveTimestamp,
+    splitSnippetText,
+} from '@/entrypoints/archive/archive-view';
+
+describe('archive-view', () => {
+    it('should format the source update time and fall back to the archive time', () => {
+        expect(formatArchiveTimestamp({ updateTime: 1_700_000_000, archivedAt: 0 })).toBe('2023-11-14 22:13');
+        expect(formatArchiveTimestamp({ updateTime: null, archivedAt: Date.UTC(2024, 4, 1, 9, 30) })).toBe(
+            '2024-05-01 09:30',
+        );
+    });
+
+    it('should describe empty, partial and complete result lists', () => {
+        expect(describeArchiveResults(0, 0, '')).toBe('No archived conversations yet.');
+        expect(describeArchiveResults(0, 0, ' kenobi ')).toBe('No conversations match "kenobi".');
+        expect(describeArchiveResults(50, 120, '')).toBe('Showing 50 of 120 conversations.');
+        expect(describeArchiveResults(1, 1, '')).toBe('1 conversation.');
+        expect(describeArchiveResults(0, 0, '', true)).toBe('No conversations match the filters.');
+    });
+
+    it('should build search queries from the sidebar filters', () => {
+        const query = buildArchiveQuery(
+            '"star wars"',
+            { ...EMPTY_ARCHIVE_FILTERS, model: 'o3', createdTo: '2024-05-01' },
+            50,
+        );
+        expect(query).toMatchObject({ text: '"star wars"', model: 'o3', offset: 50, limit: 50 });
+        expect(query.platform).toBeUndefined();
+        expect(query.createdFrom).toBeUndefined();
+        expect(query.createdTo).toBe(new Date(2024, 4, 2).getTime() - 1);
+    });
+
+    it('should split snippets into plain and highlighted runs', () => {
+        expect(splitSnippetText({ text: '…say hello there', highlights: [[5, 10]] })).toEqual([
+            { text: '…say ', highlighted: false },
+            { text: 'hello', highlighted: true },
+            { text: ' there', highlighted: false },
+        ]);
+    });
+});
@@ -0,0 +1,115 @@
+import { browser } from 'wxt/browser';
+import { parseBulkExportDateInput } from '@/entrypoints/popup/bulk-export-input';
+import type {
+    ConversationArchiveGetResponse,
+    ConversationArchiveMutationResponse,
+    ConversationArchiveQuery,
+    ConversationArchiveSearchResponse,
+    ConversationArchiveSnippet,
+    ConversationArchiveSummary,
+} from '@/utils/archive/conversation-archive-contract';
+import { ARCHIVE_REQUEST_MESSAGE } from '@/utils/archive/conversation-archive-contract';
+
+export const ARCHIVE_PAGE_SIZE = 50;
+
+/** Raw sidebar filter values; dates are `YYYY-MM-DD` strings from date inputs, empty when unset. */
+export type ArchiveFilterInputs = {
+    platform: string;
+    model: string;
+    createdFrom: string;
+    createdTo: string;
+    updatedFrom: string;
+    updatedTo: string;
+};
+
+export const EMPTY_ARCHIVE_FILTERS: ArchiveFilterInputs = {
+    platform: '',
+    model: '',
+    createdFrom: '',
+    createdTo: '',
+    updatedFrom: '',
+    updatedTo: '',
+};
+
+export const hasArchiveFilters = (filters: ArchiveFilterInputs) =>
+    Object.values(filters).some((value) => value.trim().length > 0);
+
+/** Date bounds cover whole local days, matching the bulk export filters. */
+export const buildArchiveQuery = (
+    text: string,
+    filters: ArchiveFilterInputs,
+    offset: number,
+): ConversationArchiveQuery => ({
+    text,
+    platform: filters.platform || undefined,
+    model: filters.model || undefined,
+    createdFrom: parseBulkExportDateInput(filters.createdFrom, 'start'),
+    createdTo: parseBulkExportDateInput(filters.createdTo, 'end'),
+    updatedFrom: parseBulkExportDateInput(filters.updatedFrom, 'start'),
+    updatedTo: parseBulkExportDateInput(filters.updatedTo, 'end'),
+    offset,
+    limit: ARCHIVE_PAGE_SIZE,
+});
+
+const toResponse = <T extends { ok: boolean }>(response: unknown): T | { ok: false; error: string } =>
+    response && typeof response === 'object' && 'ok' in response
+        ? (response as T)
+        : { ok: false, error: 'No response from the background worker' };
+
+export const searchArchive = async (query: ConversationArchiveQuery) =>
+    toResponse<ConversationArchiveSearchResponse>(
+        await browser.runtime.sendMessage({ type: ARCHIVE_REQUEST_MESSAGE, action: 'search', query }),
+    );
+
+export const getArchivedConversation = async (id: string) =>
+    toResponse<ConversationArchiveGetResponse>(
+        await browser.runtime.sendMessage({ type: ARCHIVE_REQUEST_MESSAGE, action: 'get', id }),
+    );
+
+export const deleteArchivedConversation = async (id: string) =>
+    toResponse<ConversationArchiveMutationResponse>(
+        await browser.runtime.sendMessage({ type: ARCHIVE_REQUEST_MESSAGE, action: 'delete', id }),
+    );
+
+export const clearArchive = async () =>
+    toResponse<ConversationArchiveMutationResponse>(
+        await browser.runtime.sendMessage({ type: ARCHIVE_REQUEST_MESSAGE, action: 'clear' }),
+    );
+
+/** `YYYY-MM-DD HH:MM` (UTC) of the last source update, or of the archive write when the source has none. */
+export const formatArchiveTimestamp = (summary: Pick<ConversationArchiveSummary, 'updateTime' | 'archivedAt'>) => {
+    const ms = summary.updateTime !== null ? summary.updateTime * 1000 : summary.archivedAt;
+    return new Date(ms).toISOString().slice(0, 16).replace('T', ' ');
+};
+
+/** Splits a snippet into plain and highlighted runs for rendering. */
+export const splitSnippetText = (snippet: Pick<ConversationArchiveSnippet, 'text' | 'highlights'>) => {
+    const parts: Array<{ text: string; highlighted: boolean }> = [];
+    let cursor = 0;
+    for (const [start, end] of snippet.highlights) {
+        if (start < cursor) {
+            continue;
+        }
+        if (start > cursor) {
+            parts.push({ text: snippet.text.slice(cursor, start), highlighted: false });
+        }
+        parts.push({ text: snippet.text.slice(start, end), highlighted: true });
+        cursor = end;
+    }
+    if (cursor < snippet.text.length) {
+        parts.push({ text: snippet.text.slice(cursor), highlighted: false });
+    }
+    return parts;
+};
+
+export const describeArchiveResults = (shown: number, total: number, text: string, filtered = false) => {
+    const trimmed = text.trim();
+    if (total === 0) {
+        if (trimmed) {
+            return `No conversations match "${trimmed}".`;
+        }
+        return filtered ? 'No conversations match the filters.' : 'No archived conversations yet.';
+    }
+    const noun = total === 1 ? 'conversation' : 'conversations';
+    return shown < total ? `Showing ${shown} of ${total} ${noun}.` : `${total} ${noun}.`;
+};
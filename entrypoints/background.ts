@@ -1,15 +1,39 @@
 /**
  * Background Service Worker
  *
- * Handles extension lifecycle events and message passing.
+ * Handles extension lifecycle events and message passing, including the
+ * versioned external API for allowlisted extensions, the webhook outbox and
+ * the native messaging host that writes exports to a local folder.
  *
  * @module entrypoints/background
  */
 
+import { type ConversationArchive, createConversationArchive } from '@/utils/archive/conversation-archive';
+import {
+    type ConversationArchiveRequest,
+    isConversationArchivePutMessage,
+    isConversationArchiveRequest,
+} from '@/utils/archive/conversation-archive-contract';
+import { createIndexedDbArchiveStore } from '@/utils/archive/conversation-archive-store';
 import { getBuildFingerprint } from '@/utils/build-fingerprint';
+import {
+    type ExportPassphraseResponse,
+    isExportPassphraseRequestMessage,
+    readSessionExportPassphrase,
+} from '@/utils/encryption/export-passphrase';
+import { createExternalApiServer, type ExternalApiServer } from '@/utils/external-api/external-api-server';
 import { logger } from '@/utils/logger';
 import { type LogEntry, logsStorage } from '@/utils/logs-storage';
-import { isBulkExportProgressMessage } from '@/utils/runner/bulk-chat-export-contract';
+import { createNativeHostBridge, type NativeHostBridge } from '@/utils/native-host/native-host-bridge';
+import { isNativeHostRequestMessage } from '@/utils/native-host/native-host-contract';
+import { isExternalTabEventMessage } from '@/utils/protocol/external-api';
+import { type BulkExportProgressMessage, isBulkExportProgressMessage } from '@/utils/runner/bulk-chat-export-contract';
+import {
+    loadExternalApiAllowedIds,
+    loadWebhookSinks,
+    normalizeExternalApiAllowedIds,
+    STORAGE_KEYS,
+} from '@/utils/settings';
 import { ProbeLeaseCoordinator } from '@/utils/sfe/probe-lease-coordinator';
 import {
     isProbeLeaseClaimRequest,
@@ -18,6 +42,13 @@ import {
     type ProbeLeaseReleaseResponse,
 } from '@/utils/sfe/probe-lease-protocol';
 import { createProbeLeaseStore } from '@/utils/sfe/probe-lease-store';
+import {
+    createStorageWebhookOutboxStore,
+    createWebhookOutbox,
+    WEBHOOK_OUTBOX_ALARM,
+    type WebhookOutbox,
+} from '@/utils/sinks/webhook-outbox';
+import { isSinkDeliverMessage } from '@/utils/sinks/webhook-sink-contract';
 
 type BackgroundLogger = Pick<typeof logger, 'debug' | 'info' | 'warn' | 'error'>;
 type BackgroundSender = { tab?: { url?: string; id?: number } };
@@ -50,6 +81,16 @@ type BackgroundMessageHandlerDeps = {
     leaseCoordinator: ProbeLeaseCoordinator;
     logger: BackgroundLogger;
     actionApi: ActionApi | null;
+    /** Local conversation archive; archive messages are answered with an error when absent. */
+    archive?: ConversationArchive;
+    /** External API server; tab events are dropped when absent. */
+    externalApi?: ExternalApiServer;
+    /** Webhook outbox; exports handed to it are dropped when absent. */
+    webhookOutbox?: WebhookOutbox;
+    /** Native messaging relay; host requests are answered with an error when absent. */
+    nativeHost?: NativeHostBridge;
+    /** Session export passphrase for content scripts, which can't read session storage themselves. */
+    readExportPassphrase?: () => Promise<string | null>;
 };
 
 const toBadgeCounterText = (value: number | undefined): string => {
@@ -63,6 +104,45 @@ const toBadgeCounterText = (value: number | undefined): string => {
     return String(normalized);
 };
 
+type BulkExportBadge = {
+    text: string;
+    color?: string;
+    title: string;
+};
+
+const resolveBulkExportBadge = (message: BulkExportProgressMessage): BulkExportBadge => {
+    switch (message.stage) {
+        case 'completed':
+            return {
+                text: '',
+                title: `Blackiya: Export completed (${message.exported ?? 0}/${message.attempted ?? 0})`,
+            };
+        case 'canceled':
+            return {
+                text: '',
+                title: `Blackiya: Export canceled (${message.exported ?? 0}/${message.attempted ?? 0})`,
+            };
+        case 'failed':
+            return {
+                text: '!',
+                color: '#b91c1c',
+                title: `Blackiya: Export failed${message.message ? ` - ${message.message}` : ''}`,
+            };
+        case 'paused':
+            return {
+                text: '||',
+                color: '#b45309',
+                title: `Blackiya: Export paused (${message.attempted ?? 0}/${message.discovered ?? 0})`,
+            };
+        default:
+            return {
+                text: toBadgeCounterText(message.remaining),
+                color: '#1d4ed8',
+                title: `Blackiya: Exporting ${message.platform ?? 'chats'} (${message.attempted ?? 0}/${message.discovered ?? 0})`,
+            };
+    }
+};
+
 const handleBulkExportProgressMessage = (
     message: unknown,
     sender: BackgroundSender,
@@ -77,35 +157,124 @@ const handleBulkExportProgressMessage = (
         return true;
     }
 
-    if (message.stage === 'completed') {
-        void actionApi.setBadgeText({ text: '', tabId });
-        void actionApi.setTitle?.({
-            title: `Blackiya: Export completed (${message.exported ?? 0}/${message.attempted ?? 0})`,
-            tabId,
-        });
-        return true;
+    const badge = resolveBulkExportBadge(message);
+    void actionApi.setBadgeText({ text: badge.text, tabId });
+    if (badge.color) {
+        void actionApi.setBadgeBackgroundColor?.({ color: badge.color, tabId });
+    }
+    void actionApi.setTitle?.({ title: badge.title, tabId });
+    return true;
+};
+
+const runArchiveRequest = async (archive: ConversationArchive, request: ConversationArchiveRequest) => {
+    switch (request.action) {
+        case 'search':
+            return { ok: true, ...(await archive.search(request.query)) };
+        case 'get':
+            return { ok: true, entry: await archive.get(request.id) };
+        case 'delete':
+            await archive.delete(request.id);
+            return { ok: true };
+        case 'clear':
+            await archive.clear();
+            return { ok: true };
     }
+};
 
-    if (message.stage === 'failed') {
-        void actionApi.setBadgeText({ text: '!', tabId });
-        void actionApi.setBadgeBackgroundColor?.({ color: '#b91c1c', tabId });
-        void actionApi.setTitle?.({
-            title: `Blackiya: Export failed${message.message ? ` - ${message.message}` : ''}`,
-            tabId,
-        });
+const handleArchiveMessage = (
+    message: unknown,
+    sendResponse: (response: unknown) => void,
+    deps: BackgroundMessageHandlerDeps,
+): boolean => {
+    if (!isConversationArchivePutMessage(message) && !isConversationArchiveRequest(message)) {
+        return false;
+    }
+    const archive = deps.archive;
+    if (!archive) {
+        sendResponse({ ok: false, error: 'Conversation archive is unavailable' });
         return true;
     }
+    const task = isConversationArchivePutMessage(message)
+        ? archive.put(message).then(({ stored }) => ({ ok: true, stored }))
+        : runArchiveRequest(archive, message);
+    void task.then(sendResponse).catch((error) => {
+        deps.logger.error('Conversation archive request failed', error);
+        sendResponse({ ok: false, error: error instanceof Error ? error.message : String(error) });
+    });
+    return true;
+};
+
+const handleExternalTabEventMessage = (
+    message: unknown,
+    sender: BackgroundSender,
+    deps: BackgroundMessageHandlerDeps,
+): boolean => {
+    if (!isExternalTabEventMessage(message)) {
+        return false;
+    }
+    const tabId = sender.tab?.id;
+    if (typeof tabId === 'number') {
+        deps.externalApi?.publish(tabId, message.event);
+    }
+    return true;
+};
 
-    const remainingText = toBadgeCounterText(message.remaining);
-    void actionApi.setBadgeText({ text: remainingText, tabId });
-    void actionApi.setBadgeBackgroundColor?.({ color: '#1d4ed8', tabId });
-    void actionApi.setTitle?.({
-        title: `Blackiya: Exporting ${message.platform ?? 'chats'} (${message.attempted ?? 0}/${message.discovered ?? 0})`,
-        tabId,
+const handleSinkDeliverMessage = (message: unknown, deps: BackgroundMessageHandlerDeps): boolean => {
+    if (!isSinkDeliverMessage(message)) {
+        return false;
+    }
+    void deps.webhookOutbox?.enqueue(message.payload).catch((error) => {
+        deps.logger.error('Failed to queue webhook delivery', error);
     });
     return true;
 };
 
+const handleNativeHostMessage = (
+    message: unknown,
+    sendResponse: (response: unknown) => void,
+    deps: BackgroundMessageHandlerDeps,
+): boolean => {
+    if (!isNativeHostRequestMessage(message)) {
+        return false;
+    }
+    const nativeHost = deps.nativeHost;
+    if (!nativeHost) {
+        sendResponse({ ok: false, error: 'Native host bridge is unavailable' });
+        return true;
+    }
+    void (message.action === 'ping' ? nativeHost.ping() : nativeHost.write(message.request)).then(sendResponse);
+    return true;
+};
+
+const handleExportPassphraseMessage = (
+    message: unknown,
+    sendResponse: (response: unknown) => void,
+    deps: BackgroundMessageHandlerDeps,
+): boolean => {
+    if (!isExportPassphraseRequestMessage(message)) {
+        return false;
+    }
+    void (deps.readExportPassphrase?.() ?? Promise.resolve(null)).then((passphrase) =>
+        sendResponse({ passphrase } satisfies ExportPassphraseResponse),
+    );
+    return true;
+};
+
+const handleLogEntryMessage = (message: unknown, deps: BackgroundMessageHandlerDeps): boolean => {
+    if (typeof message !== 'object' || message === null || (message as { type?: unknown }).type !== 'LOG_ENTRY') {
+        return false;
+    }
+    const payload = (message as { payload?: unknown }).payload;
+    if (isLogEntryPayload(payload)) {
+        deps.saveLog(payload).catch((error) => {
+            deps.logger.error('Failed to save log from content script', error);
+        });
+    } else {
+        deps.logger.warn('Discarding malformed LOG_ENTRY payload');
+    }
+    return true;
+};
+
 const handleGenericBackgroundMessage = (
     message: unknown,
     sender: BackgroundSender,
@@ -129,60 +298,82 @@ const handleGenericBackgroundMessage = (
     return true;
 };
 
+const handleProbeLeaseMessage = (
+    message: unknown,
+    sendResponse: (response: unknown) => void,
+    deps: BackgroundMessageHandlerDeps,
+): boolean => {
+    if (isProbeLeaseClaimRequest(message)) {
+        void deps.leaseCoordinator
+            .claim(message.conversationId, message.attemptId, message.ttlMs)
+            .then((result) => {
+                const response: ProbeLeaseClaimResponse = result;
+                sendResponse(response);
+            })
+            .catch((error) => {
+                deps.logger.error('Probe lease claim failed in background coordinator', error);
+                sendResponse({
+                    type: 'BLACKIYA_PROBE_LEASE_CLAIM_RESULT',
+                    acquired: false,
+                    ownerAttemptId: null,
+                    expiresAtMs: null,
+                } satisfies ProbeLeaseClaimResponse);
+            });
+        return true;
+    }
+
+    if (isProbeLeaseReleaseRequest(message)) {
+        void deps.leaseCoordinator
+            .release(message.conversationId, message.attemptId)
+            .then((released) => {
+                const response: ProbeLeaseReleaseResponse = {
+                    type: 'BLACKIYA_PROBE_LEASE_RELEASE_RESULT',
+                    released,
+                };
+                sendResponse(response);
+            })
+            .catch((error) => {
+                deps.logger.error('Probe lease release failed in background coordinator', error);
+                sendResponse({
+                    type: 'BLACKIYA_PROBE_LEASE_RELEASE_RESULT',
+                    released: false,
+                } satisfies ProbeLeaseReleaseResponse);
+            });
+        return true;
+    }
+    return false;
+};
+
 export const createBackgroundMessageHandler = (deps: BackgroundMessageHandlerDeps) => {
     return (message: unknown, sender: BackgroundSender, sendResponse: (response: unknown) => void) => {
         if (handleBulkExportProgressMessage(message, sender, deps)) {
             return;
         }
 
-        if (isProbeLeaseClaimRequest(message)) {
-            void deps.leaseCoordinator
-                .claim(message.conversationId, message.attemptId, message.ttlMs)
-                .then((result) => {
-                    const response: ProbeLeaseClaimResponse = result;
-                    sendResponse(response);
-                })
-                .catch((error) => {
-                    deps.logger.error('Probe lease claim failed in background coordinator', error);
-                    sendResponse({
-                        type: 'BLACKIYA_PROBE_LEASE_CLAIM_RESULT',
-                        acquired: false,
-                        ownerAttemptId: null,
-                        expiresAtMs: null,
-                    } satisfies ProbeLeaseClaimResponse);
-                });
+        if (handleArchiveMessage(message, sendResponse, deps)) {
+            return true;
+        }
+
+        if (handleExternalTabEventMessage(message, sender, deps)) {
+            return;
+        }
+
+        if (handleSinkDeliverMessage(message, deps)) {
+            return;
+        }
+
+        if (
+            handleNativeHostMessage(message, sendResponse, deps) ||
+            handleExportPassphraseMessage(message, sendResponse, deps)
+        ) {
             return true;
         }
 
-        if (isProbeLeaseReleaseRequest(message)) {
-            void deps.leaseCoordinator
-                .release(message.conversationId, message.attemptId)
-                .then((released) => {
-                    const response: ProbeLeaseReleaseResponse = {
-                        type: 'BLACKIYA_PROBE_LEASE_RELEASE_RESULT',
-                        released,
-                    };
-                    sendResponse(response);
-                })
-                .catch((error) => {
-                    deps.logger.error('Probe lease release failed in background coordinator', error);
-                    sendResponse({
-                        type: 'BLACKIYA_PROBE_LEASE_RELEASE_RESULT',
-                        released: false,
-                    } satisfies ProbeLeaseReleaseResponse);
-                });
+        if (handleProbeLeaseMessage(message, sendResponse, deps)) {
             return true;
         }
 
-        if (typeof message === 'object' && message !== null && (message as { type?: unknown }).type === 'LOG_ENTRY') {
-            const payload = (message as { payload?: unknown }).payload;
-            if (isLogEntryPayload(payload)) {
-                deps.saveLog(payload).catch((error) => {
-                    deps.logger.error('Failed to save log from content script', error);
-                });
-            } else {
-                deps.logger.warn('Discarding malformed LOG_ENTRY payload');
-            }
+        if (handleLogEntryMessage(message, deps)) {
             // LOG_ENTRY is fire-and-forget and does not use sendResponse.
             return;
         }
@@ -210,12 +401,61 @@ export default defineBackground(() => {
         }
     });
 
+    const externalApi = createExternalApiServer({
+        getAllowedExtensionIds: loadExternalApiAllowedIds,
+        resolveActiveTabId: async () => {
+            const [tab] = await browser.tabs.query({ active: true, lastFocusedWindow: true });
+            return typeof tab?.id === 'number' ? tab.id : null;
+        },
+        sendTabMessage: (tabId, message) => browser.tabs.sendMessage(tabId, message),
+        onSubscribedChange: (subscribed) => {
+            void browser.storage.local.set({ [STORAGE_KEYS.EXTERNAL_API_SUBSCRIBED]: subscribed }).catch((error) => {
+                logger.warn('Failed to record external API subscriptions', error);
+            });
+        },
+        logger,
+    });
+    // Ports do not survive a service worker restart, so nothing is subscribed yet.
+    void browser.storage.local.set({ [STORAGE_KEYS.EXTERNAL_API_SUBSCRIBED]: false }).catch(() => {});
+
+    const webhookOutbox = createWebhookOutbox({
+        loadSinks: loadWebhookSinks,
+        store: createStorageWebhookOutboxStore(),
+        logger,
+    });
+    // Resume deliveries left pending when the service worker last stopped.
+    void webhookOutbox.flush();
+    browser.alarms.onAlarm.addListener((alarm) => {
+        if (alarm.name === WEBHOOK_OUTBOX_ALARM) {
+            void webhookOutbox.flush();
+        }
+    });
+
     browser.runtime.onMessage.addListener(
         createBackgroundMessageHandler({
             saveLog: (payload) => logsStorage.saveLog(payload),
             leaseCoordinator,
             logger,
             actionApi: browser.action ?? null,
+            archive: createConversationArchive({ store: createIndexedDbArchiveStore() }),
+            externalApi,
+            webhookOutbox,
+            nativeHost: createNativeHostBridge({
+                // Resolved per request: the API only appears once the optional permission is granted.
+                getSendNativeMessage: () => browser.runtime.sendNativeMessage,
+                logger,
+            }),
+            readExportPassphrase: readSessionExportPassphrase,
         }),
     );
+
+    browser.runtime.onMessageExternal?.addListener(externalApi.handleMessage);
+    browser.runtime.onConnectExternal?.addListener(externalApi.handleConnect);
+    browser.storage.onChanged.addListener((changes, areaName) => {
+        if (areaName === 'local' && changes[STORAGE_KEYS.EXTERNAL_API_ALLOWED_IDS]) {
+            externalApi.applyAllowlist(
+                normalizeExternalApiAllowedIds(changes[STORAGE_KEYS.EXTERNAL_API_ALLOWED_IDS]?.newValue),
+            );
+        }
+    });
 });
@@ -1,10 +1,12 @@
 import { describe, expect, it, mock } from 'bun:test';
 import {
     cachePromptHintFromGrokRequest,
+    createSocketStreamMonitor,
     emitFetchPromptLifecycle,
     extractGrokPromptHintFromFetchArgs,
     resolveGrokPromptHintFromFetchArgs,
 } from '@/entrypoints/interceptor/bootstrap-lifecycle';
+import { claudeAdapter } from '@/platforms/claude';
 
 describe('bootstrap lifecycle prompt hints', () => {
     it('should extract Grok prompt hint from add_response fetch body', () => {
@@ -84,6 +86,54 @@ describe('bootstrap lifecycle prompt hints', () => {
         expect(emitLifecycle).toHaveBeenCalledWith('grok:attempt-1', 'streaming', undefined, 'Grok');
     });
 
+    it('should cache prompt hint for Claude completion requests', () => {
+        const emitLifecycle = mock(() => {});
+        const cachePromptHintForAttempt = mock(() => {});
+        const url =
+            'https://claude.ai/api/organizations/9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d/chat_conversations/4f1c2a9e-7b3d-4e8a-9c61-2d5f8e0a1b37/completion';
+
+        emitFetchPromptLifecycle(
+            {
+                args: [
+                    url,
+                    { method: 'POST', body: JSON.stringify({ prompt: 'Define a neap tide', attachments: [] }) },
+                ],
+                outgoingUrl: url,
+                outgoingMethod: 'POST',
+                outgoingPath: new URL(url).pathname,
+                fetchApiAdapter: claudeAdapter,
+                isNonChatGptApiRequest: true,
+                shouldEmitNonChatLifecycle: true,
+                nonChatConversationId: '4f1c2a9e-7b3d-4e8a-9c61-2d5f8e0a1b37',
+                nonChatAttemptId: 'claude:attempt-1',
+                isChatGptPromptRequest: false,
+                lifecycleConversationId: undefined,
+                lifecycleAttemptId: undefined,
+            } as any,
+            {
+                emitter: {
+                    emitLifecycle,
+                    cachePromptHintForAttempt,
+                    shouldLogTransient: () => false,
+                    log: () => {},
+                } as any,
+                resolveAttemptIdForConversation: () => 'claude:attempt-fallback',
+                bindAttemptToConversation: () => {},
+                latestAttemptIdByPlatform: new Map<string, string>(),
+                disposedAttemptIds: new Set<string>(),
+                maxAttemptBindings: 10,
+            },
+        );
+
+        expect(cachePromptHintForAttempt).toHaveBeenCalledWith('claude:attempt-1', 'Define a neap tide');
+        expect(emitLifecycle).toHaveBeenCalledWith(
+            'claude:attempt-1',
+            'streaming',
+            '4f1c2a9e-7b3d-4e8a-9c61-2d5f8e0a1b37',
+            'Claude',
+        );
+    });
+
     it('should ignore CreateGrokConversation prompt-hint caching after x-grok removal', async () => {
         const cachePromptHintForAttempt = mock(() => {});
         const resolveAttemptIdForConversation = mock(() => 'grok:attempt-unmatched');
@@ -173,3 +223,31 @@ describe('bootstrap lifecycle prompt hints', () => {
         await expect(resolveGrokPromptHintFromFetchArgs(args)).resolves.toBe('What is a hadith');
     });
 });
+
+describe('bootstrap socket stream monitors', () => {
+    const deps = { resolveAttemptIdForConversation: () => 'copilot:attempt-1' };
+
+    it('should use the Copilot socket monitor for Copilot WebSockets', () => {
+        const monitor = createSocketStreamMonitor(
+            {
+                transport: 'WebSocket',
+                url: 'wss://copilot.microsoft.com/c/api/chat',
+                socketAdapter: { name: 'Copilot' } as any,
+            },
+            {} as any,
+            () => {},
+            deps,
+        );
+        expect(typeof monitor?.onSend).toBe('function');
+    });
+
+    it('should leave other streams to buffered transcript capture', () => {
+        const monitor = createSocketStreamMonitor(
+            { transport: 'EventSource', url: 'https://example.com/events', socketAdapter: { name: 'Copilot' } as any },
+            {} as any,
+            () => {},
+            deps,
+        );
+        expect(monitor).toBeNull();
+    });
+});
@@ -1,8 +1,16 @@
-import { shouldEmitLifecycleForRequest } from '@/entrypoints/interceptor/completion-policy';
+import {
+    emitsStreamingOnRequest,
+    isGenerationRequestUrl,
+    shouldEmitLifecycleForRequest,
+} from '@/entrypoints/interceptor/completion-policy';
 import type { FetchInterceptorContext } from '@/entrypoints/interceptor/fetch-pipeline';
 import type { InterceptorEmitter } from '@/entrypoints/interceptor/interceptor-emitter';
 import { shouldEmitXhrRequestLifecycle } from '@/entrypoints/interceptor/signal-emitter';
+import type { SocketInterceptorContext } from '@/entrypoints/interceptor/socket-pipeline';
 import { monitorChatGptSseLifecycle } from '@/entrypoints/interceptor/stream-monitors/chatgpt-sse-lifecycle';
+import { monitorClaudeSseLifecycle } from '@/entrypoints/interceptor/stream-monitors/claude-sse-lifecycle';
+import { createCopilotSocketMonitor } from '@/entrypoints/interceptor/stream-monitors/copilot-socket-lifecycle';
+import { monitorDeepSeekSseLifecycle } from '@/entrypoints/interceptor/stream-monitors/deepseek-sse-lifecycle';
 import {
     monitorGeminiResponseStream,
     wireGeminiXhrProgressMonitor,
@@ -11,7 +19,10 @@ import {
     monitorGrokResponseStream,
     wireGrokXhrProgressMonitor,
 } from '@/entrypoints/interceptor/stream-monitors/grok-lifecycle';
+import { monitorMistralStreamLifecycle } from '@/entrypoints/interceptor/stream-monitors/mistral-stream-lifecycle';
+import { monitorPerplexitySseLifecycle } from '@/entrypoints/interceptor/stream-monitors/perplexity-sse-lifecycle';
 import type { StreamMonitorEmitter } from '@/entrypoints/interceptor/stream-monitors/stream-emitter';
+import type { WebSocketFrameObserver } from '@/entrypoints/interceptor/websocket-wrapper';
 import {
     handleXhrLoad as handleXhrInterceptionLoad,
     maybeRunXhrPostLoadSideEffects,
@@ -19,6 +30,7 @@ import {
 } from '@/entrypoints/interceptor/xhr-interception';
 import type { XhrLifecycleContext } from '@/entrypoints/interceptor/xhr-pipeline';
 import { chatGPTAdapter } from '@/platforms/chatgpt';
+import { getPlatformDescriptor } from '@/platforms/descriptors';
 import { extractGeminiPromptFromXhrBody } from '@/platforms/gemini/prompt-extractor';
 import type { LLMPlatform } from '@/platforms/types';
 import { setBoundedMapValue } from '@/utils/bounded-collections';
@@ -174,6 +186,23 @@ const cachePromptHintForGrokLifecycleRequest = (
     emitter.cachePromptHintForAttempt(attemptId, promptHint);
 };
 
+/** Caches the prompt of a generation request whose adapter reads it from the request body. */
+const cachePromptHintFromRequestBody = (
+    context: FetchInterceptorContext,
+    adapter: LLMPlatform,
+    attemptId: string,
+    emitter: BootstrapRequestLifecycleDeps['emitter'],
+) => {
+    if (!adapter.extractPromptFromRequestBody || !isGenerationRequestUrl(adapter, context.outgoingUrl)) {
+        return;
+    }
+    const promptHint = adapter.extractPromptFromRequestBody(context.args[1]?.body);
+    if (!promptHint) {
+        return;
+    }
+    emitter.cachePromptHintForAttempt(attemptId, promptHint);
+};
+
 export const cachePromptHintFromGrokRequest = async (
     context: Pick<FetchInterceptorContext, 'args' | 'outgoingMethod' | 'outgoingUrl' | 'nonChatAttemptId'>,
     deps: Pick<BootstrapRequestLifecycleDeps, 'emitter' | 'resolveAttemptIdForConversation'>,
@@ -195,14 +224,8 @@ export const shouldEmitNonChatLifecycleForRequest = (
     deps: Pick<BootstrapRequestLifecycleDeps, 'emitter'>,
 ) =>
     shouldEmitLifecycleForRequest(adapter, url, (path) => {
-        if (adapter.name === 'Gemini') {
-            if (deps.emitter.shouldLogTransient(`gemini:lifecycle-suppressed:${path}`, 8000)) {
-                deps.emitter.log('info', 'Gemini lifecycle suppressed for non-generation endpoint', { path });
-            }
-            return;
-        }
-        if (adapter.name === 'Grok' && deps.emitter.shouldLogTransient(`grok:lifecycle-suppressed:${path}`, 8000)) {
-            deps.emitter.log('info', 'Grok lifecycle suppressed for non-generation endpoint', { path });
+        if (deps.emitter.shouldLogTransient(`${adapter.name.toLowerCase()}:lifecycle-suppressed:${path}`, 8000)) {
+            deps.emitter.log('info', `${adapter.name} lifecycle suppressed for non-generation endpoint`, { path });
         }
     });
 
@@ -244,8 +267,9 @@ export const emitFetchPromptLifecycle = (
         return;
     }
     cachePromptHintForGrokLifecycleRequest(context, adapter, attemptId, deps.emitter);
+    cachePromptHintFromRequestBody(context, adapter, attemptId, deps.emitter);
     deps.emitter.emitLifecycle(attemptId, 'prompt-sent', context.nonChatConversationId, adapter.name);
-    if (adapter.name !== 'Gemini') {
+    if (emitsStreamingOnRequest(adapter)) {
         deps.emitter.emitLifecycle(attemptId, 'streaming', context.nonChatConversationId, adapter.name);
     }
     if (adapter.name === 'Grok' && deps.emitter.shouldLogTransient(`grok:fetch:request:${attemptId}`, 3000)) {
@@ -258,6 +282,67 @@ export const emitFetchPromptLifecycle = (
     }
 };
 
+/** Lifecycle monitors for generation streams, keyed by the descriptor's `parserId`. */
+const FETCH_STREAM_MONITORS: Record<
+    string,
+    (response: Response, attemptId: string, emit: StreamMonitorEmitter, conversationId?: string) => Promise<void>
+> = {
+    claude: monitorClaudeSseLifecycle,
+    perplexity: monitorPerplexitySseLifecycle,
+    deepseek: monitorDeepSeekSseLifecycle,
+    mistral: monitorMistralStreamLifecycle,
+};
+
+/**
+ * Attaches the adapter's stream monitor to the response of one of its generation
+ * requests. SSE platforms are only monitored when the response is actually an
+ * event stream; Le Chat streams numbered JSON lines, so its monitor is not gated
+ * on the content type.
+ */
+const maybeMonitorGenerationStream = (
+    context: FetchInterceptorContext,
+    response: Response,
+    contentType: string,
+    emit: StreamMonitorEmitter,
+) => {
+    const attemptId = context.nonChatAttemptId;
+    const adapter = context.fetchApiAdapter;
+    if (
+        !context.isNonChatGptApiRequest ||
+        !attemptId ||
+        !adapter ||
+        !isGenerationRequestUrl(adapter, context.outgoingUrl)
+    ) {
+        return;
+    }
+    const descriptor = getPlatformDescriptor(adapter.name);
+    const monitor = descriptor ? FETCH_STREAM_MONITORS[descriptor.parserId] : undefined;
+    if (!monitor || (descriptor?.streamProtocol === 'sse' && !contentType.includes('text/event-stream'))) {
+        return;
+    }
+    void monitor(response.clone(), attemptId, emit, context.nonChatConversationId);
+};
+
+/**
+ * Socket counterpart of `maybeMonitorFetchStreams`: picks the lifecycle monitor
+ * for a WebSocket/EventSource stream an adapter declared. Returns `null` for
+ * platforms without one, which fall back to buffered transcript capture.
+ */
+export const createSocketStreamMonitor = (
+    context: SocketInterceptorContext,
+    emit: StreamMonitorEmitter,
+    onTurnComplete: (transcript: string) => void,
+    deps: Pick<BootstrapRequestLifecycleDeps, 'resolveAttemptIdForConversation'>,
+): WebSocketFrameObserver | null => {
+    if (context.transport === 'WebSocket' && context.socketAdapter?.name === 'Copilot') {
+        return createCopilotSocketMonitor(emit, {
+            resolveAttemptIdForConversation: deps.resolveAttemptIdForConversation,
+            onTurnComplete,
+        });
+    }
+    return null;
+};
+
 export const maybeMonitorFetchStreams = (
     context: FetchInterceptorContext,
     response: Response,
@@ -309,6 +394,8 @@ export const maybeMonitorFetchStreams = (
             context.shouldEmitNonChatLifecycle,
         );
     }
+
+    maybeMonitorGenerationStream(context, response, contentType, emit);
 };
 
 const wireGeminiOrGrokXhrLifecycleMonitor = (
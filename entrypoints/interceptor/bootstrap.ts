@@ -4,6 +4,7 @@ import {
     type BootstrapRequestLifecycleDeps,
     cacheGeminiPromptHintFromXhrBody as cacheGeminiPromptHintFromXhrBodyCore,
     cachePromptHintFromGrokRequest as cachePromptHintFromGrokRequestCore,
+    createSocketStreamMonitor as createSocketStreamMonitorCore,
     emitFetchPromptLifecycle as emitFetchPromptLifecycleCore,
     emitXhrRequestLifecycle as emitXhrRequestLifecycleCore,
     maybeMonitorFetchStreams as maybeMonitorFetchStreamsCore,
@@ -20,21 +21,39 @@ import {
     resolveRequestConversationId,
 } from '@/entrypoints/interceptor/conversation-utils';
 import { safePathname } from '@/entrypoints/interceptor/discovery';
-import { type FetchInterceptionDeps, handleFetchInterception } from '@/entrypoints/interceptor/fetch-interception';
+import { createEventSourceInterceptor } from '@/entrypoints/interceptor/event-source-wrapper';
+import {
+    type FetchInterceptionDeps,
+    handleFetchInterception,
+    tryParseAndEmitConversation,
+} from '@/entrypoints/interceptor/fetch-interception';
 import { createFetchInterceptorContext, type FetchInterceptorContext } from '@/entrypoints/interceptor/fetch-pipeline';
 import { createFetchInterceptor } from '@/entrypoints/interceptor/fetch-wrapper';
 import { maybeCaptureGeminiBatchexecuteContext } from '@/entrypoints/interceptor/gemini-batchexecute-context-store';
 import { resolveHeaderCaptureAdapter } from '@/entrypoints/interceptor/header-capture';
 import { createInterceptorEmitter, type InterceptorEmitterState } from '@/entrypoints/interceptor/interceptor-emitter';
 import { ProactiveFetchRunner } from '@/entrypoints/interceptor/proactive-fetch-runner';
+import {
+    createSocketInterceptorContext,
+    createSocketStreamObserver,
+    type SocketInterceptorContext,
+    type SocketTransport,
+    toEventSourceObserver,
+} from '@/entrypoints/interceptor/socket-pipeline';
 import { cleanupDisposedAttemptState } from '@/entrypoints/interceptor/state';
 import type { StreamMonitorEmitter } from '@/entrypoints/interceptor/stream-monitors/stream-emitter';
+import { createWebSocketInterceptor } from '@/entrypoints/interceptor/websocket-wrapper';
 import type { XhrInterceptionDeps } from '@/entrypoints/interceptor/xhr-interception';
 import { buildXhrLifecycleContext, type XhrLifecycleContext } from '@/entrypoints/interceptor/xhr-pipeline';
 import { notifyXhrOpen } from '@/entrypoints/interceptor/xhr-wrapper';
 import { chatGPTAdapter } from '@/platforms/chatgpt';
 import { SUPPORTED_PLATFORM_URLS } from '@/platforms/constants';
-import { getPlatformAdapterByApiUrl, getPlatformAdapterByCompletionUrl } from '@/platforms/factory';
+import {
+    getPlatformAdapterByApiUrl,
+    getPlatformAdapterByCompletionUrl,
+    getPlatformAdapterByEventStreamUrl,
+    getPlatformAdapterBySocketUrl,
+} from '@/platforms/factory';
 import type { LLMPlatform } from '@/platforms/types';
 import { setBoundedMapValue } from '@/utils/bounded-collections';
 import { platformHeaderStore } from '@/utils/platform-header-store';
@@ -139,6 +158,12 @@ const cacheGeminiPromptHintFromXhrBody = (context: XhrLifecycleContext, body: un
 const emitXhrRequestLifecycle = (xhr: XMLHttpRequest, context: XhrLifecycleContext, emit: StreamMonitorEmitter) =>
     emitXhrRequestLifecycleCore(xhr, context, emit, buildRequestLifecycleDeps());
 
+const createSocketStreamMonitor = (
+    context: SocketInterceptorContext,
+    emit: StreamMonitorEmitter,
+    onTurnComplete: (transcript: string) => void,
+) => createSocketStreamMonitorCore(context, emit, onTurnComplete, buildRequestLifecycleDeps());
+
 const registerXhrLoadHandler = (xhr: XMLHttpRequest, methodUpper: string, deps: XhrInterceptionDeps) =>
     registerXhrLoadHandlerCore(xhr, methodUpper, deps);
 
@@ -189,6 +214,8 @@ export default defineContentScript({
                 XMLHttpRequestOpen: XMLHttpRequest.prototype.open,
                 XMLHttpRequestSend: XMLHttpRequest.prototype.send,
                 XMLHttpRequestSetRequestHeader: XMLHttpRequest.prototype.setRequestHeader,
+                WebSocket: window.WebSocket,
+                EventSource: window.EventSource,
             };
         }
 
@@ -331,6 +358,34 @@ export default defineContentScript({
             return originalSend.call(this, body);
         };
 
+        const observeSocketStream = (transport: SocketTransport, socketUrl: string) =>
+            createSocketStreamObserver(
+                createSocketInterceptorContext(transport, socketUrl, {
+                    getPlatformAdapterBySocketUrl,
+                    getPlatformAdapterByEventStreamUrl,
+                }),
+                {
+                    isExtensionEnabled: () => extensionEnabled,
+                    createStreamMonitor: (context, onTurnComplete) =>
+                        createSocketStreamMonitor(context, streamMonitorEmitter, onTurnComplete),
+                    emitTranscript: (adapter, url, transcript, source) => {
+                        tryParseAndEmitConversation(adapter, url, transcript, source, fetchInterceptionDeps);
+                    },
+                },
+            );
+
+        if (typeof window.WebSocket === 'function') {
+            window.WebSocket = createWebSocketInterceptor(window.WebSocket, (socketUrl) =>
+                observeSocketStream('WebSocket', socketUrl),
+            );
+        }
+        if (typeof window.EventSource === 'function') {
+            window.EventSource = createEventSourceInterceptor(window.EventSource, (streamUrl) => {
+                const observer = observeSocketStream('EventSource', streamUrl);
+                return observer ? toEventSourceObserver(observer) : null;
+            });
+        }
+
         emitter.log('info', 'init', { host: window.location.hostname, runtimeTag: INTERCEPTOR_RUNTIME_TAG });
         setupMainWorldBridgeCore(buildMainWorldBridgeDeps());
     },
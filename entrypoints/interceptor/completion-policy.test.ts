@@ -1,65 +1,154 @@
-import { afterEach, beforeEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import { afterEach, describe, expect, it, mock } from 'bun:test';
 import {
+    emitsStreamingOnRequest,
+    isGenerationRequestUrl,
     shouldEmitCompletionForParsedData,
     shouldEmitCompletionForUrl,
     shouldEmitLifecycleForRequest,
     shouldSuppressCompletion,
 } from '@/entrypoints/interceptor/completion-policy';
-import * as geminiClassifier from '@/utils/gemini-request-classifier';
-import * as grokClassifier from '@/utils/grok-request-classifier';
+import { getPlatformDescriptor, registerPlatformDescriptor, resetPlatformDescriptors } from '@/platforms/descriptors';
 
-describe('completion-policy', () => {
-    let geminiCompletionSpy: ReturnType<typeof spyOn>;
-    let geminiLifecycleSpy: ReturnType<typeof spyOn>;
-    let grokCompletionSpy: ReturnType<typeof spyOn>;
-    let grokLifecycleSpy: ReturnType<typeof spyOn>;
-
-    beforeEach(() => {
-        geminiCompletionSpy = spyOn(geminiClassifier, 'shouldEmitGeminiCompletion').mockImplementation((url: string) =>
-            url.includes('gemini-complete'),
-        );
-        geminiLifecycleSpy = spyOn(geminiClassifier, 'shouldEmitGeminiLifecycle').mockImplementation((url: string) =>
-            url.includes('gemini-lifecycle'),
-        );
-        grokCompletionSpy = spyOn(grokClassifier, 'shouldEmitGrokCompletion').mockImplementation((url: string) =>
-            url.includes('grok-complete'),
-        );
-        grokLifecycleSpy = spyOn(grokClassifier, 'shouldEmitGrokLifecycle').mockImplementation((url: string) =>
-            url.includes('grok-lifecycle'),
-        );
-    });
+const CLAUDE_BASE =
+    'https://claude.ai/api/organizations/9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d/chat_conversations/4f1c2a9e-7b3d-4e8a-9c61-2d5f8e0a1b37';
+const COPILOT_SOCKET = 'wss://copilot.microsoft.com/c/api/chat?api-version=2';
+
+/** Real endpoint URLs per platform, classified by the descriptor's signal policy. */
+const SIGNAL_CASES: Array<{
+    name: string;
+    lifecycle: string[];
+    notLifecycle: string[];
+    completion: string[];
+    notCompletion: string[];
+}> = [
+    {
+        name: 'Gemini',
+        lifecycle: [
+            'https://gemini.google.com/_/BardChatUi/data/assistant.lamda.BardFrontendService/StreamGenerate?rt=c',
+        ],
+        notLifecycle: ['https://gemini.google.com/_/BardChatUi/data/batchexecute?rpcids=ESY5D&rt=c'],
+        completion: [
+            'https://gemini.google.com/_/BardChatUi/data/assistant.lamda.BardFrontendService/StreamGenerate?rt=c',
+        ],
+        notCompletion: [
+            'https://gemini.google.com/_/BardChatUi/data/batchexecute?rpcids=ESY5D&rt=c',
+            // Titles endpoint
+            '/_/BardChatUi/data/batchexecute?rpcids=MaZiqc',
+        ],
+    },
+    {
+        name: 'Grok',
+        lifecycle: ['https://grok.com/rest/app-chat/conversations/new', 'https://grok.x.com/2/grok/add_response.json'],
+        notLifecycle: [
+            'https://grok.com/rest/app-chat/conversations/reconnect-response-v2/uuid',
+            'https://grok.com/rest/app-chat/conversations/abc123/response-node?includeThreads=true',
+        ],
+        completion: [
+            'https://grok.com/rest/app-chat/conversations/abc123/response-node?includeThreads=true',
+            'https://grok.com/rest/app-chat/conversations/abc123/load-responses',
+        ],
+        notCompletion: [
+            'https://grok.com/rest/app-chat/conversations/new',
+            'https://grok.com/rest/app-chat/conversations/reconnect-response-v2/uuid',
+        ],
+    },
+    {
+        name: 'Claude',
+        lifecycle: [`${CLAUDE_BASE}/completion`, `${CLAUDE_BASE}/retry_completion`],
+        notLifecycle: [`${CLAUDE_BASE}?tree=True`],
+        completion: [`${CLAUDE_BASE}?tree=True&rendering_mode=messages`, `${CLAUDE_BASE}/completion`],
+        notCompletion: [`${CLAUDE_BASE}/title`],
+    },
+    {
+        name: 'Perplexity',
+        lifecycle: [
+            'https://www.perplexity.ai/rest/sse/perplexity_ask',
+            'https://www.perplexity.ai/rest/sse/perplexity_ask/reconnect/abc',
+        ],
+        notLifecycle: ['https://www.perplexity.ai/rest/thread/mars-sky-AbCdEf'],
+        completion: [
+            'https://www.perplexity.ai/rest/thread/mars-sky-AbCdEf?limit=100',
+            'https://www.perplexity.ai/rest/sse/perplexity_ask',
+        ],
+        notCompletion: ['https://www.perplexity.ai/rest/thread/list_ask_threads'],
+    },
+    {
+        name: 'DeepSeek',
+        lifecycle: [
+            'https://chat.deepseek.com/api/v0/chat/completion',
+            'https://chat.deepseek.com/api/v0/chat/regenerate',
+        ],
+        notLifecycle: ['https://chat.deepseek.com/api/v0/chat/history_messages?chat_session_id=abc'],
+        completion: [
+            'https://chat.deepseek.com/api/v0/chat/history_messages?chat_session_id=abc',
+            'https://chat.deepseek.com/api/v0/chat/completion',
+        ],
+        notCompletion: ['https://chat.deepseek.com/api/v0/chat_session/fetch_page?count=50'],
+    },
+    {
+        name: 'Mistral',
+        lifecycle: ['https://chat.mistral.ai/api/chat'],
+        notLifecycle: ['https://chat.mistral.ai/api/trpc/message.all?batch=1'],
+        completion: [
+            'https://chat.mistral.ai/api/trpc/chat.byId,message.all?batch=1',
+            'https://chat.mistral.ai/api/chat',
+        ],
+        notCompletion: ['https://chat.mistral.ai/api/trpc/chat.list?batch=1'],
+    },
+    {
+        name: 'Copilot',
+        lifecycle: [COPILOT_SOCKET],
+        notLifecycle: ['https://copilot.microsoft.com/c/api/conversations/kR3bXq7Z2mVtLp9sHd4wN/history'],
+        completion: [COPILOT_SOCKET, 'https://copilot.microsoft.com/c/api/conversations/kR3bXq7Z2mVtLp9sHd4wN/history'],
+        notCompletion: ['https://copilot.microsoft.com/c/api/user'],
+    },
+];
 
+/** Platforms whose descriptors also require the parsed conversation to be ready before completing. */
+const READINESS_GATED = SIGNAL_CASES.filter(
+    ({ name }) => getPlatformDescriptor(name)?.signals?.completionRequiresReadiness,
+);
+
+describe('completion-policy', () => {
     afterEach(() => {
-        geminiCompletionSpy.mockRestore();
-        geminiLifecycleSpy.mockRestore();
-        grokCompletionSpy.mockRestore();
-        grokLifecycleSpy.mockRestore();
+        resetPlatformDescriptors();
     });
 
     describe('shouldEmitCompletionForUrl', () => {
-        it('should check gemini specific urls', () => {
-            const adapter = { name: 'Gemini' } as any;
-            expect(shouldEmitCompletionForUrl(adapter, 'gemini-complete')).toBeTrue();
-            expect(shouldEmitCompletionForUrl(adapter, 'gemini-other')).toBeFalse();
-            expect(shouldEmitCompletionForUrl(adapter, '/_/BardChatUi/data/batchexecute?rpcids=MaZiqc')).toBeFalse(); // Titles endpoint
-        });
+        for (const { name, completion, notCompletion } of SIGNAL_CASES) {
+            it(`should follow the ${name} descriptor's completion endpoints`, () => {
+                const adapter = { name } as any;
+                for (const url of completion) {
+                    expect(shouldEmitCompletionForUrl(adapter, url)).toBeTrue();
+                }
+                for (const url of notCompletion) {
+                    expect(shouldEmitCompletionForUrl(adapter, url)).toBeFalse();
+                }
+            });
+        }
 
-        it('should check grok specific urls', () => {
-            const adapter = { name: 'Grok' } as any;
-            expect(shouldEmitCompletionForUrl(adapter, 'grok-complete')).toBeTrue();
-            expect(shouldEmitCompletionForUrl(adapter, 'grok-other')).toBeFalse();
+        it('should return true for adapters without a signal policy', () => {
+            expect(shouldEmitCompletionForUrl({ name: 'ChatGPT' } as any, 'any-url')).toBeTrue();
+            expect(shouldEmitCompletionForUrl({ name: 'Unregistered' } as any, 'any-url')).toBeTrue();
         });
 
-        it('should return true for other adapters', () => {
-            const adapter = { name: 'ChatGPT' } as any;
-            expect(shouldEmitCompletionForUrl(adapter, 'any-url')).toBeTrue();
+        it('should pick up descriptor overrides registered at runtime', () => {
+            const claude = getPlatformDescriptor('Claude')!;
+            const detailUrl = SIGNAL_CASES.find(({ name }) => name === 'Claude')!.completion[0];
+            registerPlatformDescriptor({
+                ...claude,
+                signals: { ...claude.signals!, completionEndpoints: ['completionTriggerPattern'] },
+            });
+            expect(shouldEmitCompletionForUrl({ name: 'Claude' } as any, detailUrl)).toBeFalse();
+            expect(shouldEmitCompletionForUrl({ name: 'Claude' } as any, `${CLAUDE_BASE}/completion`)).toBeTrue();
         });
     });
 
     describe('shouldSuppressCompletion', () => {
         it('should negate emit completion rule', () => {
             const adapter = { name: 'Gemini' } as any;
-            expect(shouldSuppressCompletion(adapter, 'gemini-complete')).toBeFalse();
+            const [generation] = SIGNAL_CASES[0].completion;
+            expect(shouldSuppressCompletion(adapter, generation)).toBeFalse();
             expect(shouldSuppressCompletion(adapter, 'gemini-other')).toBeTrue();
         });
     });
@@ -70,23 +159,25 @@ describe('completion-policy', () => {
             expect(shouldEmitCompletionForParsedData(adapter, 'gemini-other', null)).toBeFalse();
         });
 
-        it('should check readiness for Grok', () => {
-            const adapter = { name: 'Grok', evaluateReadiness: (c: any) => ({ ready: c.isReady }) } as any;
-            expect(shouldEmitCompletionForParsedData(adapter, 'grok-complete', null)).toBeFalse();
-            expect(
-                shouldEmitCompletionForParsedData(adapter, 'grok-complete', {
-                    conversation_id: '1',
-                    isReady: false,
-                } as any),
-            ).toBeFalse();
-            expect(
-                shouldEmitCompletionForParsedData(adapter, 'grok-complete', {
-                    conversation_id: '1',
-                    isReady: true,
-                } as any),
-            ).toBeTrue();
+        it('should not gate Gemini completion on readiness', () => {
+            const adapter = { name: 'Gemini', evaluateReadiness: () => ({ ready: false }) } as any;
+            expect(shouldEmitCompletionForParsedData(adapter, SIGNAL_CASES[0].completion[0], null)).toBeTrue();
         });
 
+        for (const { name, completion, notCompletion } of READINESS_GATED) {
+            it(`should check the url rule and readiness for ${name}`, () => {
+                const adapter = { name, evaluateReadiness: (c: any) => ({ ready: c.isReady }) } as any;
+                const conversation = (isReady: boolean) => ({ conversation_id: '1', isReady }) as any;
+                const [allowed] = completion;
+                const [rejected] = notCompletion;
+
+                expect(shouldEmitCompletionForParsedData(adapter, allowed, null)).toBeFalse();
+                expect(shouldEmitCompletionForParsedData(adapter, rejected, conversation(true))).toBeFalse();
+                expect(shouldEmitCompletionForParsedData(adapter, allowed, conversation(false))).toBeFalse();
+                expect(shouldEmitCompletionForParsedData(adapter, allowed, conversation(true))).toBeTrue();
+            });
+        }
+
         it('should return true for others if url is allowed', () => {
             const adapter = { name: 'ChatGPT' } as any;
             expect(shouldEmitCompletionForParsedData(adapter, 'any', null)).toBeTrue();
@@ -94,25 +185,35 @@ describe('completion-policy', () => {
     });
 
     describe('shouldEmitLifecycleForRequest', () => {
-        it('should evaluate gemini constraints', () => {
-            const onSupressed = mock(() => {});
-            const adapter = { name: 'Gemini' } as any;
-            expect(shouldEmitLifecycleForRequest(adapter, 'gemini-lifecycle', onSupressed)).toBeTrue();
-            expect(shouldEmitLifecycleForRequest(adapter, 'other', onSupressed)).toBeFalse();
-            expect(onSupressed).toHaveBeenCalledWith('/other');
-        });
-
-        it('should evaluate grok constraints', () => {
-            const onSupressed = mock(() => {});
-            const adapter = { name: 'Grok' } as any;
-            expect(shouldEmitLifecycleForRequest(adapter, 'grok-lifecycle', onSupressed)).toBeTrue();
-            expect(shouldEmitLifecycleForRequest(adapter, 'other', onSupressed)).toBeFalse();
-            expect(onSupressed).toHaveBeenCalledWith('/other');
-        });
+        for (const { name, lifecycle, notLifecycle } of SIGNAL_CASES) {
+            it(`should follow the ${name} descriptor's lifecycle endpoints`, () => {
+                const onSuppressed = mock(() => {});
+                const adapter = { name } as any;
+                for (const url of lifecycle) {
+                    expect(shouldEmitLifecycleForRequest(adapter, url, onSuppressed)).toBeTrue();
+                    expect(isGenerationRequestUrl(adapter, url)).toBeTrue();
+                }
+                for (const url of notLifecycle) {
+                    expect(isGenerationRequestUrl(adapter, url)).toBeFalse();
+                }
+                expect(onSuppressed).not.toHaveBeenCalled();
+                expect(shouldEmitLifecycleForRequest(adapter, 'other', onSuppressed)).toBeFalse();
+                expect(onSuppressed).toHaveBeenCalledWith('/other');
+            });
+        }
 
         it('should allow all for other adapters', () => {
             const adapter = { name: 'ChatGPT' } as any;
             expect(shouldEmitLifecycleForRequest(adapter, 'any')).toBeTrue();
+            expect(isGenerationRequestUrl(adapter, 'any')).toBeFalse();
+        });
+    });
+
+    describe('emitsStreamingOnRequest', () => {
+        it('should leave streaming to the Gemini stream monitor only', () => {
+            expect(emitsStreamingOnRequest({ name: 'Gemini' } as any)).toBeFalse();
+            expect(emitsStreamingOnRequest({ name: 'Claude' } as any)).toBeTrue();
+            expect(emitsStreamingOnRequest({ name: 'ChatGPT' } as any)).toBeTrue();
         });
     });
 });
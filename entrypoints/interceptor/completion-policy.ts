@@ -1,21 +1,39 @@
 import { isCapturedConversationReady } from '@/entrypoints/interceptor/conversation-utils';
 import { safePathname } from '@/entrypoints/interceptor/discovery';
-import { isGeminiTitlesEndpointUrl } from '@/platforms/gemini/registry';
-import type { LLMPlatform } from '@/platforms/types';
-import { shouldEmitGeminiCompletion, shouldEmitGeminiLifecycle } from '@/utils/gemini-request-classifier';
-import { shouldEmitGrokCompletion, shouldEmitGrokLifecycle } from '@/utils/grok-request-classifier';
+import { getPlatformDescriptor } from '@/platforms/descriptors';
+import type { LLMPlatform, PlatformDescriptor } from '@/platforms/types';
 import type { ConversationData } from '@/utils/types';
 
-export const shouldEmitCompletionForUrl = (adapter: LLMPlatform, url: string) => {
-    if (adapter.name === 'Gemini') {
-        return !isGeminiTitlesEndpointUrl(url) && shouldEmitGeminiCompletion(url);
-    }
-    if (adapter.name === 'Grok') {
-        return shouldEmitGrokCompletion(url);
+/**
+ * Lifecycle and completion policy of an adapter, read from its platform
+ * descriptor. `null` (ChatGPT, or an adapter without a descriptor) means no
+ * platform rule applies.
+ */
+const resolveSignalPolicy = (adapter: LLMPlatform) => getPlatformDescriptor(adapter.name)?.signals ?? null;
+
+const matchesAnyEndpoint = (descriptor: PlatformDescriptor, keys: readonly string[], url: string) =>
+    keys.some((key) => descriptor.endpoints[key]?.test(url) ?? false);
+
+const matchesSignalEndpoints = (adapter: LLMPlatform, url: string, kind: 'lifecycle' | 'completion') => {
+    const descriptor = getPlatformDescriptor(adapter.name);
+    if (!descriptor?.signals) {
+        return true;
     }
-    return true;
+    const keys = kind === 'lifecycle' ? descriptor.signals.lifecycleEndpoints : descriptor.signals.completionEndpoints;
+    return matchesAnyEndpoint(descriptor, keys, url);
 };
 
+/** Whether `url` is one of the adapter's generation requests (its descriptor's lifecycle endpoints). */
+export const isGenerationRequestUrl = (adapter: LLMPlatform, url: string) =>
+    resolveSignalPolicy(adapter) !== null && matchesSignalEndpoints(adapter, url, 'lifecycle');
+
+/** Whether `streaming` is emitted together with `prompt-sent` for the adapter's generation requests. */
+export const emitsStreamingOnRequest = (adapter: LLMPlatform) =>
+    resolveSignalPolicy(adapter)?.streamingOnRequest ?? true;
+
+export const shouldEmitCompletionForUrl = (adapter: LLMPlatform, url: string) =>
+    matchesSignalEndpoints(adapter, url, 'completion');
+
 export const shouldSuppressCompletion = (adapter: LLMPlatform, url: string) =>
     !shouldEmitCompletionForUrl(adapter, url);
 
@@ -27,7 +45,7 @@ export const shouldEmitCompletionForParsedData = (
     if (!shouldEmitCompletionForUrl(adapter, url)) {
         return false;
     }
-    if (adapter.name === 'Grok') {
+    if (resolveSignalPolicy(adapter)?.completionRequiresReadiness) {
         return isCapturedConversationReady(adapter, parsed);
     }
     return true;
@@ -35,22 +53,15 @@ export const shouldEmitCompletionForParsedData = (
 
 /**
  * Returns whether lifecycle signals should be emitted for a non-ChatGPT adapter request.
- * `onSuppressed` is called with the path when a platform-specific rule blocks emission,
- * giving callers a chance to log throttled suppression notices.
+ * `onSuppressed` is called with the path when the descriptor's lifecycle endpoints don't
+ * match, giving callers a chance to log throttled suppression notices.
  */
 export const shouldEmitLifecycleForRequest = (
     adapter: LLMPlatform,
     url: string,
     onSuppressed?: (path: string) => void,
 ) => {
-    let allowed: boolean;
-    if (adapter.name === 'Gemini') {
-        allowed = shouldEmitGeminiLifecycle(url);
-    } else if (adapter.name === 'Grok') {
-        allowed = shouldEmitGrokLifecycle(url);
-    } else {
-        return true;
-    }
+    const allowed = matchesSignalEndpoints(adapter, url, 'lifecycle');
     if (!allowed) {
         onSuppressed?.(safePathname(url));
     }
@@ -94,6 +94,17 @@ describe('conversation-utils', () => {
             adapter.extractConversationId = () => undefined;
             expect(resolveRequestConversationId(adapter, 'req-url')).toBeUndefined();
         });
+
+        it('should prefer the conversation named by the request body', () => {
+            const adapter = {
+                extractConversationIdFromRequestBody: (body: unknown) => (body === 'new-chat' ? 'from-body' : null),
+                extractConversationIdFromUrl: () => null,
+                extractConversationId: () => 'from-href',
+            } as any;
+            expect(resolveRequestConversationId(adapter, 'req-url', 'new-chat')).toBe('from-body');
+            expect(resolveRequestConversationId(adapter, 'req-url', 'other')).toBe('from-href');
+            expect(resolveRequestConversationId(adapter, 'req-url')).toBe('from-href');
+        });
     });
 
     describe('parseConversationData', () => {
@@ -33,17 +33,23 @@ export const extractConversationIdFromRequestBody = (args: Parameters<typeof fet
 export const resolveLifecycleConversationId = (args: Parameters<typeof fetch>) =>
     extractConversationIdFromRequestBody(args) ?? extractConversationIdFromChatGptUrl(window.location.href);
 
-/** Resolves the conversation ID for a given adapter from the request URL or current page URL. */
-export const resolveRequestConversationId = (adapter: LLMPlatform, requestUrl: string) =>
+/** Resolves the conversation ID for a given adapter from the request body, request URL or current page URL. */
+export const resolveRequestConversationId = (adapter: LLMPlatform, requestUrl: string, requestBody?: unknown) =>
+    (requestBody === undefined ? null : adapter.extractConversationIdFromRequestBody?.(requestBody)) ??
     adapter.extractConversationIdFromUrl?.(requestUrl) ??
     adapter.extractConversationId(window.location.href) ??
     undefined;
 
 // Conversation data parsing
 
-export const parseConversationData = (adapter: LLMPlatform, payload: string, url: string) => {
+export const parseConversationData = (
+    adapter: LLMPlatform,
+    payload: string,
+    url: string,
+    requestConversationId?: string,
+) => {
     try {
-        return adapter.parseInterceptedData(payload, url);
+        return adapter.parseInterceptedData(payload, url, requestConversationId);
     } catch {
         return null;
     }
@@ -3,9 +3,7 @@ import {
     isDiscoveryDiagnosticsEnabled,
     safePathname,
 } from '@/entrypoints/interceptor/discovery';
-import { isLikelyChatGptApiPath } from '@/platforms/chatgpt/registry';
-import { isLikelyGeminiApiPath } from '@/platforms/gemini/registry';
-import { isLikelyGrokApiPath } from '@/platforms/grok/registry';
+import { findPlatformDescriptorByHostname, isLikelyPlatformApiPath } from '@/platforms/descriptors';
 
 type LogFn = (level: 'info' | 'warn' | 'error', message: string, data?: unknown) => void;
 type ShouldLogTransientFn = (key: string, intervalMs?: number) => boolean;
@@ -110,17 +108,10 @@ export const logDiscoveryXhr = (url: string, responseText: string, log: LogFn, s
     emitDiscoveryDumpFrame('XHR DISCOVERY', pathname, responseText, streamDump);
 };
 
-const resolveEndpointMissPlatform = (hostname: string, url: string): 'ChatGPT' | 'Gemini' | 'Grok' | null => {
-    if ((hostname.includes('chatgpt.com') || hostname.includes('chat.openai.com')) && isLikelyChatGptApiPath(url)) {
-        return 'ChatGPT';
-    }
-    if (hostname.includes('gemini.google.com') && isLikelyGeminiApiPath(url)) {
-        return 'Gemini';
-    }
-    if (hostname.includes('grok.com') && isLikelyGrokApiPath(url)) {
-        return 'Grok';
-    }
-    return null;
+/** The page's platform, when the request path looks like one of its API calls. */
+const resolveEndpointMissPlatform = (hostname: string, url: string): string | null => {
+    const descriptor = findPlatformDescriptorByHostname(hostname);
+    return descriptor && isLikelyPlatformApiPath(descriptor, url) ? descriptor.name : null;
 };
 
 export const logAdapterEndpointMiss = (
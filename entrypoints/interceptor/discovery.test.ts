@@ -22,6 +22,11 @@ describe('interceptor discovery helpers', () => {
     it('detects known platforms from hostname', () => {
         expect(detectPlatformFromHostname('chatgpt.com')).toBe('ChatGPT');
         expect(detectPlatformFromHostname('gemini.google.com')).toBe('Gemini');
+        expect(detectPlatformFromHostname('claude.ai')).toBe('Claude');
+        expect(detectPlatformFromHostname('www.perplexity.ai')).toBe('Perplexity');
+        expect(detectPlatformFromHostname('chat.deepseek.com')).toBe('DeepSeek');
+        expect(detectPlatformFromHostname('chat.mistral.ai')).toBe('Mistral');
+        expect(detectPlatformFromHostname('copilot.microsoft.com')).toBe('Copilot');
         expect(detectPlatformFromHostname('grok.com')).toBe('Grok');
         expect(detectPlatformFromHostname('example.com')).toBe('Discovery');
     });
@@ -1,3 +1,5 @@
+import { findPlatformDescriptorByHostname } from '@/platforms/descriptors';
+
 const fallbackPathname = (url: string) => {
     const trimmed = (url ?? '').trim();
     if (!trimmed) {
@@ -22,20 +24,8 @@ export const safePathname = (url: string) => {
     }
 };
 
-export const detectPlatformFromHostname = (
-    hostname = typeof window !== 'undefined' ? window.location.hostname : '',
-) => {
-    if (hostname.includes('gemini')) {
-        return 'Gemini';
-    }
-    if (hostname.includes('grok')) {
-        return 'Grok';
-    }
-    if (hostname.includes('chatgpt')) {
-        return 'ChatGPT';
-    }
-    return 'Discovery';
-};
+export const detectPlatformFromHostname = (hostname = typeof window !== 'undefined' ? window.location.hostname : '') =>
+    findPlatformDescriptorByHostname(hostname)?.name ?? 'Discovery';
 
 export const isDiscoveryDiagnosticsEnabled = (
     storage: Pick<Storage, 'getItem'> | null = (() => {
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import {
+    createEventSourceInterceptor,
+    type EventSourceObserver,
+    type EventSourceStreamEvent,
+} from '@/entrypoints/interceptor/event-source-wrapper';
+
+type FakeStreamEvent = { type: string; data: string; lastEventId: string };
+type FakeListener = (event: FakeStreamEvent) => void;
+
+/**
+ * Minimal EventSource with its own listener registry, so these tests don't rely
+ * on the DOM event classes other suites register and tear down with `window`.
+ */
+class FakeEventSource {
+    static readonly CONNECTING = 0;
+    static readonly OPEN = 1;
+    static readonly CLOSED = 2;
+    readonly url: string;
+    readyState = FakeEventSource.OPEN;
+    private readonly listeners = new Map<string, FakeListener[]>();
+
+    constructor(url: string | URL, _init?: EventSourceInit) {
+        this.url = String(url);
+    }
+
+    addEventListener(type: string, listener: FakeListener) {
+        this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+    }
+
+    close() {
+        this.readyState = FakeEventSource.CLOSED;
+    }
+
+    receive(type: string, data: string, lastEventId = '') {
+        this.dispatch({ type, data, lastEventId });
+    }
+
+    drop(readyState: number) {
+        this.readyState = readyState;
+        this.dispatch({ type: 'error', data: '', lastEventId: '' });
+    }
+
+    private dispatch(event: FakeStreamEvent) {
+        for (const listener of this.listeners.get(event.type) ?? []) {
+            listener(event);
+        }
+    }
+}
+
+const createStream = (observe: (url: string) => EventSourceObserver | null, url: string) => {
+    const Wrapped = createEventSourceInterceptor(FakeEventSource as unknown as typeof EventSource, observe);
+    return new Wrapped(url) as unknown as FakeEventSource;
+};
+
+describe('event-source-wrapper', () => {
+    let originalConsoleDebug: typeof console.debug;
+    const logged: unknown[] = [];
+
+    beforeEach(() => {
+        logged.length = 0;
+        originalConsoleDebug = console.debug;
+        console.debug = (...args: unknown[]) => {
+            logged.push(args);
+        };
+    });
+
+    afterEach(() => {
+        console.debug = originalConsoleDebug;
+    });
+
+    it('observes message events and named events the page subscribes to', () => {
+        const events: EventSourceStreamEvent[] = [];
+        const pageEvents: string[] = [];
+        const stream = createStream(() => ({ onEvent: (event) => events.push(event) }), 'https://example.com/stream');
+
+        stream.addEventListener('delta', (event) => pageEvents.push(event.data));
+        stream.receive('message', '{"a":1}', '7');
+        stream.receive('delta', 'hello');
+        stream.receive('unsubscribed', 'ignored');
+
+        expect(events).toEqual([
+            { type: 'message', data: '{"a":1}', lastEventId: '7' },
+            { type: 'delta', data: 'hello', lastEventId: '' },
+        ]);
+        expect(pageEvents).toEqual(['hello']);
+    });
+
+    it('reports the end of the stream once on close or a dropped connection', () => {
+        let closes = 0;
+        const stream = createStream(
+            () => ({
+                onClose: () => {
+                    closes += 1;
+                },
+            }),
+            'https://example.com/stream',
+        );
+
+        stream.drop(FakeEventSource.CONNECTING);
+        expect(closes).toBe(1);
+
+        stream.close();
+        expect(closes).toBe(2);
+        stream.close();
+        expect(closes).toBe(2);
+    });
+
+    it('leaves declined streams untouched and survives throwing observers', () => {
+        const declined = createStream(() => null, 'https://example.com/other');
+        const pageEvents: string[] = [];
+        declined.addEventListener('message', (event) => pageEvents.push(event.data));
+        declined.receive('message', 'still delivered');
+        expect(pageEvents).toEqual(['still delivered']);
+
+        const throwing = createStream(
+            () => ({
+                onEvent: () => {
+                    throw new Error('boom');
+                },
+            }),
+            'https://example.com/stream',
+        );
+        throwing.addEventListener('message', (event) => pageEvents.push(event.data));
+        throwing.receive('message', 'also delivered');
+
+        expect(pageEvents).toEqual(['still delivered', 'also delivered']);
+        expect(logged.length).toBe(1);
+    });
+});
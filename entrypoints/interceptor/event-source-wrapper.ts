@@ -0,0 +1,114 @@
+/** One dispatched server-sent event, as the page's listeners see it. */
+export type EventSourceStreamEvent = {
+    type: string;
+    data: string;
+    lastEventId: string;
+};
+
+/** Callbacks for the events of one observed EventSource. */
+export type EventSourceObserver = {
+    onEvent?: (event: EventSourceStreamEvent) => void;
+    /** The stream ended: closed by the page, failed, or dropped by the server before a reconnect. */
+    onClose?: () => void;
+};
+
+/** Returns an observer for streams worth watching, or `null` to leave the EventSource untouched. */
+export type EventSourceObserverFactory = (url: string) => EventSourceObserver | null;
+
+const EVENT_SOURCE_INTERCEPTOR_LOG_TTL_MS = 10_000;
+const eventSourceInterceptorErrorLogTimestamps = new Map<string, number>();
+
+const logObserverError = (url: string, stage: string, error: unknown) => {
+    const key = `${stage}:${url}`;
+    const now = Date.now();
+    const previous = eventSourceInterceptorErrorLogTimestamps.get(key) ?? 0;
+    if (now - previous < EVENT_SOURCE_INTERCEPTOR_LOG_TTL_MS) {
+        return;
+    }
+    eventSourceInterceptorErrorLogTimestamps.set(key, now);
+    console.debug('event source interceptor observer error', {
+        url,
+        stage,
+        error: error instanceof Error ? error.message : String(error),
+    });
+};
+
+/** Runs an observer callback without ever letting it break the page's stream. */
+const notify = (url: string, stage: string, callback: () => void) => {
+    try {
+        callback();
+    } catch (error) {
+        logObserverError(url, stage, error);
+    }
+};
+
+const resolveObserver = (observe: EventSourceObserverFactory, url: string) => {
+    try {
+        return observe(url);
+    } catch (error) {
+        logObserverError(url, 'open', error);
+        return null;
+    }
+};
+
+/**
+ * Subclasses the page's EventSource so events of matching streams can be
+ * observed. `message` is always observed; named events are observed as soon as
+ * the page subscribes to them, since an EventSource only dispatches the event
+ * types someone listens for. Streams the factory declines behave exactly like
+ * the original constructor's.
+ */
+export const createEventSourceInterceptor = (
+    OriginalEventSource: typeof EventSource,
+    observe: EventSourceObserverFactory,
+): typeof EventSource => {
+    class InterceptedEventSource extends OriginalEventSource {
+        private readonly blackiyaObserver: EventSourceObserver | null;
+        private readonly blackiyaObservedTypes = new Set<string>();
+
+        constructor(url: string | URL, eventSourceInitDict?: EventSourceInit) {
+            super(url, eventSourceInitDict);
+            const streamUrl = this.url;
+            const observer = resolveObserver(observe, streamUrl);
+            this.blackiyaObserver = observer;
+            if (!observer) {
+                return;
+            }
+            this.observeEventType('message');
+            super.addEventListener('error', () => {
+                if (this.readyState !== OriginalEventSource.OPEN) {
+                    notify(streamUrl, 'close', () => observer.onClose?.());
+                }
+            });
+        }
+
+        addEventListener(type: string, listener: any, options?: boolean | AddEventListenerOptions) {
+            this.observeEventType(type);
+            super.addEventListener(type, listener, options);
+        }
+
+        close() {
+            const wasClosed = this.readyState === OriginalEventSource.CLOSED;
+            super.close();
+            const observer = this.blackiyaObserver;
+            if (observer && !wasClosed) {
+                notify(this.url, 'close', () => observer.onClose?.());
+            }
+        }
+
+        private observeEventType(type: string) {
+            const observer = this.blackiyaObserver;
+            if (!observer || type === 'open' || type === 'error' || this.blackiyaObservedTypes.has(type)) {
+                return;
+            }
+            this.blackiyaObservedTypes.add(type);
+            super.addEventListener(type, (event) => {
+                const { data, lastEventId } = event as MessageEvent;
+                if (typeof data === 'string') {
+                    notify(this.url, 'event', () => observer.onEvent?.({ type, data, lastEventId }));
+                }
+            });
+        }
+    }
+    return InterceptedEventSource;
+};
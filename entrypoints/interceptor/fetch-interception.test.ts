@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test';
+import { join } from 'node:path';
+
+import { deepseekAdapter, resetDeepSeekAdapterState } from '@/platforms/deepseek';
+import { mistralAdapter, resetMistralAdapterState } from '@/platforms/mistral';
+import type { LLMPlatform } from '@/platforms/types';
+
+mock.module('@/utils/logger', () => ({
+    logger: { info: () => {}, warn: () => {}, error: () => {}, debug: () => {} },
+}));
+// Other suites replace the registry module, so route URLs to the adapters under test explicitly.
+mock.module('@/platforms/factory', () => ({
+    getPlatformAdapterByApiUrl: (url: string) =>
+        [deepseekAdapter, mistralAdapter].find((adapter) => adapter.apiEndpointPattern?.test(url)) ?? null,
+    getPlatformAdapterByCompletionUrl: () => null,
+}));
+
+import { handleFetchInterception } from '@/entrypoints/interceptor/fetch-interception';
+
+const VIEWED_ID = '8e1f2a3b-4c5d-4e6f-9a0b-1c2d3e4f5a6b';
+const NEW_ID = '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d';
+
+type NewChatCase = {
+    adapter: LLMPlatform;
+    pageUrl: string;
+    historyUrl: string;
+    historyFixture: string;
+    streamUrl: string;
+    streamFixture: string;
+    requestBody: Record<string, unknown>;
+    answer: string;
+};
+
+const CASES: NewChatCase[] = [
+    {
+        adapter: deepseekAdapter,
+        pageUrl: 'https://chat.deepseek.com/',
+        historyUrl: `https://chat.deepseek.com/api/v0/chat/history_messages?chat_session_id=${VIEWED_ID}`,
+        historyFixture: 'deepseek/sample_deepseek_history.json',
+        streamUrl: 'https://chat.deepseek.com/api/v0/chat/completion',
+        streamFixture: 'deepseek/sample_deepseek_completion_stream.txt',
+        requestBody: { chat_session_id: NEW_ID, prompt: 'hi' },
+        answer: '17 × 48 = **816**.',
+    },
+    {
+        adapter: mistralAdapter,
+        pageUrl: 'https://chat.mistral.ai/chat',
+        historyUrl: `https://chat.mistral.ai/api/trpc/chat.byId,message.all?batch=1&input=${encodeURIComponent(
+            JSON.stringify({ 0: { json: { id: VIEWED_ID } }, 1: { json: { chatId: VIEWED_ID } } }),
+        )}`,
+        historyFixture: 'mistral/sample_mistral_history.json',
+        streamUrl: 'https://chat.mistral.ai/api/chat',
+        streamFixture: 'mistral/sample_mistral_chat_stream.txt',
+        requestBody: { chatId: NEW_ID, messageInput: 'hi' },
+        answer: 'About 470,000 people live in Canberra.',
+    },
+];
+
+const readFixture = (path: string) => Bun.file(join(import.meta.dir, '..', '..', 'data', path)).text();
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('handleFetchInterception', () => {
+    const originalWindow = (globalThis as { window?: unknown }).window;
+    let emitter: any;
+    let resolveAttemptIdForConversation: ReturnType<typeof mock>;
+
+    const intercept = (args: unknown[], body: string) =>
+        handleFetchInterception(args as Parameters<typeof fetch>, new Response(body, { status: 200 }), {
+            emitter,
+            resolveAttemptIdForConversation,
+            isExtensionEnabled: () => true,
+        });
+
+    beforeEach(() => {
+        resetDeepSeekAdapterState();
+        resetMistralAdapterState();
+        emitter = {
+            log: mock(() => {}),
+            shouldLogTransient: mock(() => false),
+            shouldEmitCapturedPayload: mock(() => true),
+            emitApiResponseDumpFrame: mock(() => {}),
+            emitCapturePayload: mock(() => {}),
+            emitStreamDelta: mock(() => {}),
+            emitStreamDumpFrame: mock(() => {}),
+            emitResponseFinished: mock(() => {}),
+        };
+        resolveAttemptIdForConversation = mock(() => 'attempt-1');
+    });
+
+    afterEach(() => {
+        (globalThis as { window?: unknown }).window = originalWindow;
+    });
+
+    for (const testCase of CASES) {
+        const { adapter } = testCase;
+
+        it(`should attribute a ${adapter.name} stream of a new chat to the conversation named by the request body`, async () => {
+            (globalThis as { window?: unknown }).window = { location: new URL(testCase.pageUrl) };
+            // The user viewed another conversation before starting a new chat.
+            intercept([testCase.historyUrl], await readFixture(testCase.historyFixture));
+            await flush();
+            emitter.emitCapturePayload.mockClear();
+            resolveAttemptIdForConversation.mockClear();
+
+            const stream = await readFixture(testCase.streamFixture);
+            intercept([testCase.streamUrl, { method: 'POST', body: JSON.stringify(testCase.requestBody) }], stream);
+            await flush();
+
+            expect(resolveAttemptIdForConversation).toHaveBeenCalledWith(NEW_ID, adapter.name);
+            expect(emitter.emitCapturePayload).toHaveBeenCalledWith(
+                testCase.streamUrl,
+                stream,
+                adapter.name,
+                'attempt-1',
+                NEW_ID,
+            );
+            expect(emitter.emitStreamDelta).toHaveBeenLastCalledWith(
+                'attempt-1',
+                NEW_ID,
+                testCase.answer,
+                adapter.name,
+            );
+        });
+    }
+});
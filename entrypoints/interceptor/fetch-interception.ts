@@ -93,6 +93,7 @@ export const handleApiMatchFromFetch = (
     response: Response,
     deps: FetchInterceptionDeps,
     deferredCompletionAdapter?: LLMPlatform,
+    requestConversationId?: string,
 ) => {
     if (!deps.isExtensionEnabled()) {
         return;
@@ -113,13 +114,13 @@ export const handleApiMatchFromFetch = (
                 emitter.log('info', `API ${text.length}b ${adapter.name}`);
             }
 
-            const parsed = parseConversationData(adapter, text, url);
-            const conversationId = resolveParsedConversationId(adapter, parsed, url);
+            const parsed = parseConversationData(adapter, text, url, requestConversationId);
+            const conversationId = resolveParsedConversationId(adapter, parsed, url) ?? requestConversationId;
             const attemptId = resolveAttemptIdForConversation(conversationId, adapter.name);
 
             if (shouldCapture) {
                 emitter.emitApiResponseDumpFrame(adapter.name, url, text, attemptId, conversationId);
-                emitter.emitCapturePayload(url, text, adapter.name, attemptId);
+                emitter.emitCapturePayload(url, text, adapter.name, attemptId, requestConversationId);
                 emitNonChatGptStreamSnapshot(adapter, attemptId, conversationId, parsed, emitter);
             }
 
@@ -216,7 +217,8 @@ export const handleFetchInterception = (
     const completionAdapter = getPlatformAdapterByCompletionUrl(url);
 
     if (apiAdapter) {
-        handleApiMatchFromFetch(url, apiAdapter, response, deps, completionAdapter ?? undefined);
+        const requestConversationId = apiAdapter.extractConversationIdFromRequestBody?.(args[1]?.body) ?? undefined;
+        handleApiMatchFromFetch(url, apiAdapter, response, deps, completionAdapter ?? undefined, requestConversationId);
         return;
     }
     if (completionAdapter) {
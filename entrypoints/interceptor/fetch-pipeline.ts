@@ -24,7 +24,11 @@ export type CreateFetchInterceptorContextDeps = {
     getPlatformAdapterByApiUrl: (url: string) => LLMPlatform | null;
     chatGptPlatformName: string;
     shouldEmitNonChatLifecycleForRequest: (adapter: LLMPlatform, url: string) => boolean;
-    resolveRequestConversationId: (adapter: LLMPlatform, requestUrl: string) => string | undefined;
+    resolveRequestConversationId: (
+        adapter: LLMPlatform,
+        requestUrl: string,
+        requestBody?: unknown,
+    ) => string | undefined;
     peekAttemptIdForConversation: (conversationId?: string, platformName?: string) => string | undefined;
     resolveAttemptIdForConversation: (conversationId?: string, platformName?: string) => string;
     resolveLifecycleConversationId: (args: Parameters<typeof fetch>) => string | undefined;
@@ -65,7 +69,7 @@ export const createFetchInterceptorContext = (
             : false;
     const nonChatConversationId =
         isNonChatGptApiRequest && fetchApiAdapter
-            ? deps.resolveRequestConversationId(fetchApiAdapter, outgoingUrl)
+            ? deps.resolveRequestConversationId(fetchApiAdapter, outgoingUrl, args[1]?.body)
             : undefined;
     const nonChatAttemptId =
         isNonChatGptApiRequest && fetchApiAdapter
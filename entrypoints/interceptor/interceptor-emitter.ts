@@ -121,7 +121,13 @@ export const createInterceptorEmitter = (deps: InterceptorEmitterDeps) => {
         return true;
     };
 
-    const emitCapturePayload = (url: string, data: string, platform: string, attemptId?: string) => {
+    const emitCapturePayload = (
+        url: string,
+        data: string,
+        platform: string,
+        attemptId?: string,
+        conversationId?: string,
+    ) => {
         if (isAttemptDisposed(attemptId)) {
             return;
         }
@@ -132,6 +138,7 @@ export const createInterceptorEmitter = (deps: InterceptorEmitterDeps) => {
             data,
             platform,
             ...(attemptId ? { attemptId } : {}),
+            ...(conversationId ? { conversationId } : {}),
             ...(promptHint ? { promptHint } : {}),
         };
         const stamped = stampToken(payload);
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    createSocketInterceptorContext,
+    createSocketStreamObserver,
+    type SocketStreamObserverDeps,
+    toEventSourceObserver,
+    toEventStreamFrame,
+} from '@/entrypoints/interceptor/socket-pipeline';
+import type { LLMPlatform } from '@/platforms/types';
+
+const socketAdapter = { name: 'SocketPlatform' } as LLMPlatform;
+const streamAdapter = { name: 'StreamPlatform' } as LLMPlatform;
+
+const contextDeps = {
+    getPlatformAdapterBySocketUrl: (url: string) => (url.startsWith('wss://') ? socketAdapter : null),
+    getPlatformAdapterByEventStreamUrl: (url: string) => (url.endsWith('/events') ? streamAdapter : null),
+};
+
+const createDeps = (overrides: Partial<SocketStreamObserverDeps> = {}) => {
+    const emitted: Array<{ adapter: string; url: string; transcript: string; source: string }> = [];
+    const deps: SocketStreamObserverDeps = {
+        isExtensionEnabled: () => true,
+        createStreamMonitor: () => null,
+        emitTranscript: (adapter, url, transcript, source) => {
+            emitted.push({ adapter: adapter.name, url, transcript, source });
+        },
+        ...overrides,
+    };
+    return { deps, emitted };
+};
+
+describe('socket pipeline', () => {
+    it('resolves the adapter by transport', () => {
+        expect(createSocketInterceptorContext('WebSocket', 'wss://example.com/chat', contextDeps).socketAdapter).toBe(
+            socketAdapter,
+        );
+        expect(
+            createSocketInterceptorContext('EventSource', 'https://example.com/events', contextDeps).socketAdapter,
+        ).toBe(streamAdapter);
+        expect(
+            createSocketInterceptorContext('EventSource', 'wss://example.com/chat', contextDeps).socketAdapter,
+        ).toBeNull();
+    });
+
+    it('skips undeclared streams and streams opened while disabled', () => {
+        const { deps } = createDeps();
+        const undeclared = createSocketInterceptorContext('WebSocket', 'https://example.com/chat', contextDeps);
+        expect(createSocketStreamObserver(undeclared, deps)).toBeNull();
+
+        const declared = createSocketInterceptorContext('WebSocket', 'wss://example.com/chat', contextDeps);
+        expect(createSocketStreamObserver(declared, { ...deps, isExtensionEnabled: () => false })).toBeNull();
+    });
+
+    it('buffers frames without a platform monitor and emits the transcript when the socket closes', () => {
+        const { deps, emitted } = createDeps();
+        const context = createSocketInterceptorContext('WebSocket', 'wss://example.com/chat', contextDeps);
+        const observer = createSocketStreamObserver(context, deps);
+
+        observer?.onMessage?.('{"n":1}');
+        observer?.onMessage?.('{"n":2}');
+        observer?.onClose?.();
+        observer?.onClose?.();
+
+        expect(emitted).toEqual([
+            {
+                adapter: 'SocketPlatform',
+                url: 'wss://example.com/chat',
+                transcript: '{"n":1}\n{"n":2}',
+                source: 'WebSocket',
+            },
+        ]);
+    });
+
+    it('hands monitor transcripts to the capture path only while enabled', () => {
+        let enabled = true;
+        const completions: Array<(transcript: string) => void> = [];
+        const { deps, emitted } = createDeps({
+            isExtensionEnabled: () => enabled,
+            createStreamMonitor: (context, onTurnComplete) => {
+                expect(context.socketAdapter).toBe(socketAdapter);
+                completions.push(onTurnComplete);
+                return {};
+            },
+        });
+        const context = createSocketInterceptorContext('WebSocket', 'wss://example.com/chat', contextDeps);
+        expect(createSocketStreamObserver(context, deps)).toEqual({});
+
+        completions[0]?.('turn-1');
+        enabled = false;
+        completions[0]?.('turn-2');
+
+        expect(emitted.map((entry) => entry.transcript)).toEqual(['turn-1']);
+    });
+
+    it('re-serializes EventSource events as SSE wire frames', () => {
+        expect(toEventStreamFrame({ type: 'message', data: '{"a":1}', lastEventId: '' })).toBe('data: {"a":1}\n\n');
+        expect(toEventStreamFrame({ type: 'delta', data: 'a\nb', lastEventId: '4' })).toBe(
+            'event: delta\nid: 4\ndata: a\ndata: b\n\n',
+        );
+
+        const { deps, emitted } = createDeps();
+        const context = createSocketInterceptorContext('EventSource', 'https://example.com/events', contextDeps);
+        const observer = createSocketStreamObserver(context, deps);
+        const eventSourceObserver = toEventSourceObserver(observer!);
+        eventSourceObserver.onEvent?.({ type: 'delta', data: 'hi', lastEventId: '' });
+        eventSourceObserver.onEvent?.({ type: 'done', data: '{}', lastEventId: '' });
+        eventSourceObserver.onClose?.();
+
+        expect(emitted[0]?.transcript).toBe('event: delta\ndata: hi\n\nevent: done\ndata: {}\n\n');
+        expect(emitted[0]?.source).toBe('EventSource');
+    });
+});
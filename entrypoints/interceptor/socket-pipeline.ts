@@ -0,0 +1,119 @@
+import type { EventSourceObserver, EventSourceStreamEvent } from '@/entrypoints/interceptor/event-source-wrapper';
+import type { WebSocketFrameObserver } from '@/entrypoints/interceptor/websocket-wrapper';
+import type { LLMPlatform } from '@/platforms/types';
+
+export type SocketTransport = 'WebSocket' | 'EventSource';
+
+export type SocketInterceptorContext = {
+    transport: SocketTransport;
+    url: string;
+    socketAdapter: LLMPlatform | null;
+};
+
+export type CreateSocketInterceptorContextDeps = {
+    getPlatformAdapterBySocketUrl: (url: string) => LLMPlatform | null;
+    getPlatformAdapterByEventStreamUrl: (url: string) => LLMPlatform | null;
+};
+
+/**
+ * Builds a platform socket monitor (lifecycle + live previews) for a matched
+ * stream, or returns `null` when the platform has none. Monitors hand each
+ * finished turn to `onTurnComplete` as one transcript.
+ */
+export type SocketStreamMonitorFactory = (
+    context: SocketInterceptorContext & { socketAdapter: LLMPlatform },
+    onTurnComplete: (transcript: string) => void,
+) => WebSocketFrameObserver | null;
+
+export type SocketStreamObserverDeps = {
+    isExtensionEnabled: () => boolean;
+    createStreamMonitor: SocketStreamMonitorFactory;
+    emitTranscript: (adapter: LLMPlatform, url: string, transcript: string, source: SocketTransport) => void;
+};
+
+const MAX_BUFFERED_SOCKET_FRAMES = 2_000;
+
+/** WebSocket frames are newline-joined; EventSource frames already end in a blank line. */
+const TRANSCRIPT_SEPARATORS: Record<SocketTransport, string> = {
+    WebSocket: '\n',
+    EventSource: '',
+};
+
+/** Re-serializes a dispatched event as an SSE wire frame so fetch-stream SSE parsers can read it. */
+export const toEventStreamFrame = (event: EventSourceStreamEvent) => {
+    const lines = event.type === 'message' ? [] : [`event: ${event.type}`];
+    if (event.lastEventId) {
+        lines.push(`id: ${event.lastEventId}`);
+    }
+    for (const line of event.data.split('\n')) {
+        lines.push(`data: ${line}`);
+    }
+    return `${lines.join('\n')}\n\n`;
+};
+
+/**
+ * Fallback for platforms without a socket monitor: buffers received frames and
+ * emits them as one transcript when the stream ends.
+ */
+const createBufferingObserver = (separator: string, flush: (transcript: string) => void): WebSocketFrameObserver => {
+    let frames: string[] = [];
+    return {
+        onMessage(data) {
+            frames.push(data);
+            if (frames.length > MAX_BUFFERED_SOCKET_FRAMES) {
+                frames.splice(0, frames.length - MAX_BUFFERED_SOCKET_FRAMES);
+            }
+        },
+        onClose() {
+            if (frames.length === 0) {
+                return;
+            }
+            const transcript = frames.join(separator);
+            frames = [];
+            flush(transcript);
+        },
+    };
+};
+
+export const createSocketInterceptorContext = (
+    transport: SocketTransport,
+    url: string,
+    deps: CreateSocketInterceptorContextDeps,
+): SocketInterceptorContext => ({
+    transport,
+    url,
+    socketAdapter:
+        transport === 'WebSocket'
+            ? deps.getPlatformAdapterBySocketUrl(url)
+            : deps.getPlatformAdapterByEventStreamUrl(url),
+});
+
+/**
+ * Resolves the frame observer for a newly opened WebSocket or EventSource.
+ * Streams no adapter declares (or opened while the extension is disabled) are
+ * left alone. Transcripts are only emitted while the extension is enabled.
+ */
+export const createSocketStreamObserver = (
+    context: SocketInterceptorContext,
+    deps: SocketStreamObserverDeps,
+): WebSocketFrameObserver | null => {
+    const { socketAdapter } = context;
+    if (!socketAdapter || !deps.isExtensionEnabled()) {
+        return null;
+    }
+    const emitTranscript = (transcript: string) => {
+        if (deps.isExtensionEnabled()) {
+            deps.emitTranscript(socketAdapter, context.url, transcript, context.transport);
+        }
+    };
+    return (
+        deps.createStreamMonitor({ ...context, socketAdapter }, emitTranscript) ??
+        createBufferingObserver(TRANSCRIPT_SEPARATORS[context.transport], emitTranscript)
+    );
+};
+
+/** Adapts a frame observer to EventSource events, feeding it SSE wire frames. */
+export const toEventSourceObserver = (observer: WebSocketFrameObserver): EventSourceObserver => ({
+    onEvent: (event) => observer.onMessage?.(toEventStreamFrame(event)),
+    onClose: () => observer.onClose?.(),
+});
@@ -0,0 +1,84 @@
+import {
+    createClaudeCompletionAccumulator,
+    parseClaudeSseFrameData,
+    splitClaudeSseFrames,
+} from '@/platforms/claude/sse-parser';
+import { consumeReadableStreamChunks, type StreamMonitorEmitter } from './stream-emitter';
+
+type ClaudeSseState = {
+    streamBuffer: string;
+    lastText: string;
+    finished: boolean;
+};
+
+const processClaudeSseChunk = (
+    chunk: string,
+    chunkBytes: number,
+    state: ClaudeSseState,
+    accumulator: ReturnType<typeof createClaudeCompletionAccumulator>,
+    attemptId: string,
+    emit: StreamMonitorEmitter,
+    conversationId: string | undefined,
+) => {
+    const { frames, remainingBuffer } = splitClaudeSseFrames(state.streamBuffer + chunk);
+    state.streamBuffer = remainingBuffer;
+    for (const frame of frames) {
+        const payload = parseClaudeSseFrameData(frame);
+        if (payload !== null) {
+            accumulator.push(payload);
+        }
+    }
+
+    const snapshot = accumulator.snapshot();
+    if (snapshot.text && snapshot.text !== state.lastText) {
+        state.lastText = snapshot.text;
+        emit.streamDelta(attemptId, conversationId, snapshot.text, 'Claude');
+        emit.streamDump(attemptId, conversationId, 'snapshot', snapshot.text, chunkBytes, 'Claude');
+    }
+    if (snapshot.done && !state.finished) {
+        state.finished = true;
+        if (snapshot.error) {
+            emit.log('warn', 'Claude completion stream ended with an error', { conversationId, error: snapshot.error });
+        }
+        emit.lifecycle(attemptId, snapshot.error ? 'terminated' : 'completed', conversationId, 'Claude');
+    }
+};
+
+// Public API
+
+/**
+ * Attaches to a cloned Claude completion SSE stream and emits stream-delta
+ * snapshots plus the terminal lifecycle once `message_stop` (or `error`) arrives.
+ */
+export const monitorClaudeSseLifecycle = async (
+    response: Response,
+    attemptId: string,
+    emit: StreamMonitorEmitter,
+    conversationId?: string,
+) => {
+    if (!response.body) {
+        return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const accumulator = createClaudeCompletionAccumulator();
+    const state: ClaudeSseState = { streamBuffer: '', lastText: '', finished: false };
+
+    if (conversationId) {
+        emit.conversationIdResolved(attemptId, conversationId, 'Claude');
+    }
+
+    try {
+        await consumeReadableStreamChunks(reader, decoder, attemptId, emit.isAttemptDisposed, (chunk, chunkBytes) => {
+            processClaudeSseChunk(chunk, chunkBytes, state, accumulator, attemptId, emit, conversationId);
+        });
+        if (state.streamBuffer) {
+            processClaudeSseChunk('\n\n', 0, state, accumulator, attemptId, emit, conversationId);
+        }
+    } catch {
+        // Ignore stream read errors; the intercepted response body still drives completion.
+    } finally {
+        reader.releaseLock();
+    }
+};
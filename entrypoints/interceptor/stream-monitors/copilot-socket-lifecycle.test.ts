@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { createCopilotSocketMonitor } from './copilot-socket-lifecycle';
+
+const CONVERSATION_ID = 'kR3bXq7Z2mVtLp9sHd4wN';
+const frame = (payload: unknown) => JSON.stringify(payload);
+
+describe('copilot-socket-lifecycle', () => {
+    const calls = {
+        deltas: [] as string[],
+        phases: [] as string[],
+        resolved: [] as string[],
+        titles: [] as string[],
+        transcripts: [] as string[],
+    };
+    const emit = {
+        conversationIdResolved: (_attemptId: string, conversationId: string) => calls.resolved.push(conversationId),
+        lifecycle: (_attemptId: string, phase: string) => calls.phases.push(phase),
+        streamDelta: (_attemptId: string, _conversationId: string | undefined, text: string) => calls.deltas.push(text),
+        streamDump: () => {},
+        titleResolved: (_attemptId: string, _conversationId: string, title: string) => calls.titles.push(title),
+        isAttemptDisposed: () => false,
+        shouldLogTransient: () => false,
+        log: () => {},
+    };
+    const createMonitor = () =>
+        createCopilotSocketMonitor(emit as any, {
+            resolveAttemptIdForConversation: () => 'attempt-1',
+            onTurnComplete: (transcript) => calls.transcripts.push(transcript),
+        });
+
+    beforeEach(() => {
+        calls.deltas = [];
+        calls.phases = [];
+        calls.resolved = [];
+        calls.titles = [];
+        calls.transcripts = [];
+    });
+
+    it('should emit lifecycle, previews and title for a turn and hand over its transcript', () => {
+        const monitor = createMonitor();
+        const send = frame({ event: 'send', conversationId: CONVERSATION_ID, content: [{ type: 'text', text: 'Hi' }] });
+
+        monitor.onMessage?.(frame({ event: 'appendText', text: 'ignored before a turn' }));
+        monitor.onSend?.(frame({ event: 'setOptions' }));
+        monitor.onSend?.(send);
+        monitor.onMessage?.(frame({ event: 'startMessage', messageId: 'a1' }));
+        monitor.onMessage?.(frame({ event: 'appendReasoning', messageId: 'a1', text: 'Greet.' }));
+        monitor.onMessage?.(frame({ event: 'appendText', messageId: 'a1', text: 'Hello' }));
+        monitor.onMessage?.('not json');
+        monitor.onMessage?.(frame({ event: 'titleUpdate', conversationId: CONVERSATION_ID, title: 'Greeting' }));
+        monitor.onMessage?.(frame({ event: 'done', messageId: 'a1' }));
+        monitor.onClose?.();
+
+        expect(calls.resolved).toEqual([CONVERSATION_ID]);
+        expect(calls.phases).toEqual(['prompt-sent', 'streaming', 'completed']);
+        expect(calls.deltas).toEqual(['[Thinking] Greet.', '[Thinking] Greet.\n\nHello']);
+        expect(calls.titles).toEqual(['Greeting']);
+        expect(calls.transcripts).toHaveLength(1);
+        expect(calls.transcripts[0]?.split('\n')).toEqual([
+            send,
+            frame({ event: 'startMessage', messageId: 'a1' }),
+            frame({ event: 'appendReasoning', messageId: 'a1', text: 'Greet.' }),
+            frame({ event: 'appendText', messageId: 'a1', text: 'Hello' }),
+            frame({ event: 'titleUpdate', conversationId: CONVERSATION_ID, title: 'Greeting' }),
+            frame({ event: 'done', messageId: 'a1' }),
+        ]);
+    });
+
+    it('should terminate turns that error or lose their socket', () => {
+        const monitor = createMonitor();
+        monitor.onSend?.(frame({ event: 'send', conversationId: CONVERSATION_ID, content: [] }));
+        monitor.onMessage?.(frame({ event: 'error', message: 'Throttled' }));
+        monitor.onSend?.(frame({ event: 'send', conversationId: CONVERSATION_ID, content: [] }));
+        monitor.onClose?.();
+
+        expect(calls.phases).toEqual([
+            'prompt-sent',
+            'streaming',
+            'terminated',
+            'prompt-sent',
+            'streaming',
+            'terminated',
+        ]);
+        expect(calls.transcripts).toHaveLength(1);
+    });
+});
@@ -0,0 +1,135 @@
+import type { WebSocketFrameObserver } from '@/entrypoints/interceptor/websocket-wrapper';
+import { COPILOT_DEFAULT_TITLES } from '@/platforms/copilot/registry';
+import {
+    type CopilotSocketTurn,
+    createCopilotSocketAccumulator,
+    parseCopilotSocketFrame,
+} from '@/platforms/copilot/socket-parser';
+import type { StreamMonitorEmitter } from './stream-emitter';
+
+export type CopilotSocketMonitorDeps = {
+    resolveAttemptIdForConversation: (conversationId?: string, platformName?: string) => string;
+    /** Receives the newline-joined frames of a finished turn, ready for `parseInterceptedData`. */
+    onTurnComplete: (transcript: string) => void;
+};
+
+type CopilotTurnState = {
+    frames: string[];
+    accumulator: ReturnType<typeof createCopilotSocketAccumulator>;
+    attemptId: string;
+    conversationId: string | undefined;
+    title: string | null;
+    lastPreview: string;
+};
+
+/** Snapshot-style preview text; Think Deeper reasoning is prefixed with `[Thinking]` ahead of the answer. */
+const buildCopilotPreview = (turn: CopilotSocketTurn) => {
+    const { text, reasoning } = turn.parts;
+    if (!reasoning.trim()) {
+        return text;
+    }
+    return text ? `[Thinking] ${reasoning}\n\n${text}` : `[Thinking] ${reasoning}`;
+};
+
+const maybeEmitTitle = (snapshot: CopilotSocketTurn, state: CopilotTurnState, emit: StreamMonitorEmitter) => {
+    const title = snapshot.title;
+    if (
+        !state.conversationId ||
+        !title ||
+        title === state.title ||
+        (COPILOT_DEFAULT_TITLES as readonly string[]).includes(title)
+    ) {
+        return;
+    }
+    state.title = title;
+    emit.titleResolved(state.attemptId, state.conversationId, title, 'Copilot');
+};
+
+const startTurn = (
+    data: string,
+    emit: StreamMonitorEmitter,
+    deps: CopilotSocketMonitorDeps,
+): CopilotTurnState | null => {
+    const frame = parseCopilotSocketFrame(data);
+    if (frame?.event !== 'send') {
+        return null;
+    }
+    const accumulator = createCopilotSocketAccumulator();
+    accumulator.push(frame);
+    const conversationId = accumulator.snapshot().conversationId ?? undefined;
+    const attemptId = deps.resolveAttemptIdForConversation(conversationId, 'Copilot');
+    if (conversationId) {
+        emit.conversationIdResolved(attemptId, conversationId, 'Copilot');
+    }
+    emit.lifecycle(attemptId, 'prompt-sent', conversationId, 'Copilot');
+    emit.lifecycle(attemptId, 'streaming', conversationId, 'Copilot');
+    return { frames: [data], accumulator, attemptId, conversationId, title: null, lastPreview: '' };
+};
+
+/** Records one server frame; returns `true` once the turn has ended. */
+const processServerFrame = (data: string, state: CopilotTurnState, emit: StreamMonitorEmitter) => {
+    const frame = parseCopilotSocketFrame(data);
+    if (!frame) {
+        return false;
+    }
+    state.frames.push(data);
+    state.accumulator.push(frame);
+    const snapshot = state.accumulator.snapshot();
+    maybeEmitTitle(snapshot, state, emit);
+
+    const preview = buildCopilotPreview(snapshot);
+    if (preview && preview !== state.lastPreview) {
+        state.lastPreview = preview;
+        emit.streamDelta(state.attemptId, state.conversationId, preview, 'Copilot');
+        emit.streamDump(state.attemptId, state.conversationId, 'snapshot', preview, data.length, 'Copilot');
+    }
+    if (!snapshot.done) {
+        return false;
+    }
+    if (snapshot.error) {
+        emit.log('warn', 'Copilot chat socket turn ended with an error', {
+            conversationId: state.conversationId ?? null,
+            error: snapshot.error,
+        });
+    }
+    emit.lifecycle(state.attemptId, snapshot.error ? 'terminated' : 'completed', state.conversationId, 'Copilot');
+    return true;
+};
+
+// Public API
+
+/**
+ * Observes Copilot's chat WebSocket. Each client `send` frame opens a turn
+ * (prompt-sent + streaming lifecycle); server frames drive stream-delta
+ * snapshots and the title, and `done`/`error` ends the turn — at which point
+ * the turn's frames are handed to `onTurnComplete` as one transcript. A socket
+ * that closes mid-turn terminates it.
+ */
+export const createCopilotSocketMonitor = (
+    emit: StreamMonitorEmitter,
+    deps: CopilotSocketMonitorDeps,
+): WebSocketFrameObserver => {
+    let turn: CopilotTurnState | null = null;
+
+    return {
+        onSend(data) {
+            turn = startTurn(data, emit, deps) ?? turn;
+        },
+        onMessage(data) {
+            if (!turn || emit.isAttemptDisposed(turn.attemptId)) {
+                return;
+            }
+            if (processServerFrame(data, turn, emit)) {
+                const transcript = turn.frames.join('\n');
+                turn = null;
+                deps.onTurnComplete(transcript);
+            }
+        },
+        onClose() {
+            if (turn) {
+                emit.lifecycle(turn.attemptId, 'terminated', turn.conversationId, 'Copilot');
+                turn = null;
+            }
+        },
+    };
+};
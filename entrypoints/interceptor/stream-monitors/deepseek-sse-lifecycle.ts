@@ -0,0 +1,126 @@
+import { DEEPSEEK_DEFAULT_TITLES } from '@/platforms/deepseek/registry';
+import {
+    createDeepSeekCompletionAccumulator,
+    type DeepSeekCompletionSnapshot,
+    parseDeepSeekSseFrame,
+    splitDeepSeekSseFrames,
+} from '@/platforms/deepseek/sse-parser';
+import { consumeReadableStreamChunks, type StreamMonitorEmitter } from './stream-emitter';
+
+type DeepSeekSseState = {
+    streamBuffer: string;
+    title: string | null;
+    lastPreview: string;
+    finished: boolean;
+};
+
+/**
+ * Snapshot-style preview text. R1 reasoning streams before the answer, so it is
+ * prefixed with `[Thinking]` (as Grok reasoning is) and the answer follows it.
+ */
+const buildDeepSeekPreview = (snapshot: DeepSeekCompletionSnapshot) => {
+    const { text, thinking } = snapshot.parts;
+    if (!thinking.trim()) {
+        return text;
+    }
+    return text ? `[Thinking] ${thinking}\n\n${text}` : `[Thinking] ${thinking}`;
+};
+
+const maybeEmitTitle = (
+    snapshot: DeepSeekCompletionSnapshot,
+    state: DeepSeekSseState,
+    attemptId: string,
+    emit: StreamMonitorEmitter,
+    conversationId: string | undefined,
+) => {
+    const title = snapshot.title;
+    if (
+        !conversationId ||
+        !title ||
+        title === state.title ||
+        (DEEPSEEK_DEFAULT_TITLES as readonly string[]).includes(title)
+    ) {
+        return;
+    }
+    state.title = title;
+    emit.titleResolved(attemptId, conversationId, title, 'DeepSeek');
+};
+
+const processDeepSeekSseChunk = (
+    chunk: string,
+    chunkBytes: number,
+    state: DeepSeekSseState,
+    accumulator: ReturnType<typeof createDeepSeekCompletionAccumulator>,
+    attemptId: string,
+    emit: StreamMonitorEmitter,
+    conversationId: string | undefined,
+) => {
+    const { frames, remainingBuffer } = splitDeepSeekSseFrames(state.streamBuffer + chunk);
+    state.streamBuffer = remainingBuffer;
+    for (const frame of frames) {
+        const parsed = parseDeepSeekSseFrame(frame);
+        if (parsed) {
+            accumulator.push(parsed);
+        }
+    }
+
+    const snapshot = accumulator.snapshot();
+    maybeEmitTitle(snapshot, state, attemptId, emit, conversationId);
+    const preview = buildDeepSeekPreview(snapshot);
+    if (preview && preview !== state.lastPreview) {
+        state.lastPreview = preview;
+        emit.streamDelta(attemptId, conversationId, preview, 'DeepSeek');
+        emit.streamDump(attemptId, conversationId, 'snapshot', preview, chunkBytes, 'DeepSeek');
+    }
+    if (snapshot.done && !state.finished) {
+        state.finished = true;
+        if (snapshot.error) {
+            emit.log('warn', 'DeepSeek completion stream ended with an error', {
+                conversationId,
+                error: snapshot.error,
+            });
+        }
+        emit.lifecycle(attemptId, snapshot.error ? 'terminated' : 'completed', conversationId, 'DeepSeek');
+    }
+};
+
+// Public API
+
+/**
+ * Attaches to a cloned DeepSeek completion SSE stream and emits stream-delta
+ * snapshots (reasoning first, then the answer) plus the terminal lifecycle once
+ * the stream finishes or errors. The stream does not name its session, so the
+ * caller passes the session ID from the request body.
+ */
+export const monitorDeepSeekSseLifecycle = async (
+    response: Response,
+    attemptId: string,
+    emit: StreamMonitorEmitter,
+    conversationId?: string,
+) => {
+    if (!response.body) {
+        return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const accumulator = createDeepSeekCompletionAccumulator();
+    const state: DeepSeekSseState = { streamBuffer: '', title: null, lastPreview: '', finished: false };
+
+    if (conversationId) {
+        emit.conversationIdResolved(attemptId, conversationId, 'DeepSeek');
+    }
+
+    try {
+        await consumeReadableStreamChunks(reader, decoder, attemptId, emit.isAttemptDisposed, (chunk, chunkBytes) => {
+            processDeepSeekSseChunk(chunk, chunkBytes, state, accumulator, attemptId, emit, conversationId);
+        });
+        if (state.streamBuffer) {
+            processDeepSeekSseChunk('\n\n', 0, state, accumulator, attemptId, emit, conversationId);
+        }
+    } catch {
+        // Ignore stream read errors; the intercepted response body still drives completion.
+    } finally {
+        reader.releaseLock();
+    }
+};
@@ -0,0 +1,120 @@
+import { MISTRAL_DEFAULT_TITLES } from '@/platforms/mistral/registry';
+import {
+    createMistralStreamAccumulator,
+    type MistralStreamSnapshot,
+    parseMistralStreamLine,
+    splitMistralStreamLines,
+} from '@/platforms/mistral/stream-parser';
+import { consumeReadableStreamChunks, type StreamMonitorEmitter } from './stream-emitter';
+
+type MistralStreamState = {
+    streamBuffer: string;
+    title: string | null;
+    lastPreview: string;
+    finished: boolean;
+};
+
+/** Snapshot-style preview text; Magistral reasoning is prefixed with `[Thinking]` ahead of the answer. */
+const buildMistralPreview = (snapshot: MistralStreamSnapshot) => {
+    const { text, thinking } = snapshot.parts;
+    if (!thinking.trim()) {
+        return text;
+    }
+    return text ? `[Thinking] ${thinking}\n\n${text}` : `[Thinking] ${thinking}`;
+};
+
+const maybeEmitTitle = (
+    snapshot: MistralStreamSnapshot,
+    state: MistralStreamState,
+    attemptId: string,
+    emit: StreamMonitorEmitter,
+    conversationId: string | undefined,
+) => {
+    const title = snapshot.title;
+    if (
+        !conversationId ||
+        !title ||
+        title === state.title ||
+        (MISTRAL_DEFAULT_TITLES as readonly string[]).includes(title)
+    ) {
+        return;
+    }
+    state.title = title;
+    emit.titleResolved(attemptId, conversationId, title, 'Mistral');
+};
+
+const processMistralStreamChunk = (
+    chunk: string,
+    chunkBytes: number,
+    state: MistralStreamState,
+    accumulator: ReturnType<typeof createMistralStreamAccumulator>,
+    attemptId: string,
+    emit: StreamMonitorEmitter,
+    conversationId: string | undefined,
+) => {
+    const { lines, remainingBuffer } = splitMistralStreamLines(state.streamBuffer + chunk);
+    state.streamBuffer = remainingBuffer;
+    for (const line of lines) {
+        const event = parseMistralStreamLine(line);
+        if (event) {
+            accumulator.push(event);
+        }
+    }
+
+    const snapshot = accumulator.snapshot();
+    maybeEmitTitle(snapshot, state, attemptId, emit, conversationId);
+    const preview = buildMistralPreview(snapshot);
+    if (preview && preview !== state.lastPreview) {
+        state.lastPreview = preview;
+        emit.streamDelta(attemptId, conversationId, preview, 'Mistral');
+        emit.streamDump(attemptId, conversationId, 'snapshot', preview, chunkBytes, 'Mistral');
+    }
+    if (snapshot.done && !state.finished) {
+        state.finished = true;
+        if (snapshot.error) {
+            emit.log('warn', 'Mistral chat stream ended with an error', { conversationId, error: snapshot.error });
+        }
+        emit.lifecycle(attemptId, snapshot.error ? 'terminated' : 'completed', conversationId, 'Mistral');
+    }
+};
+
+// Public API
+
+/**
+ * Attaches to a cloned Le Chat `/api/chat` stream and emits stream-delta
+ * snapshots plus the terminal lifecycle once the message's generation status
+ * settles. The stream does not name its chat, so the caller passes the chat ID
+ * from the request body.
+ */
+export const monitorMistralStreamLifecycle = async (
+    response: Response,
+    attemptId: string,
+    emit: StreamMonitorEmitter,
+    conversationId?: string,
+) => {
+    if (!response.body) {
+        return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const accumulator = createMistralStreamAccumulator();
+    const state: MistralStreamState = { streamBuffer: '', title: null, lastPreview: '', finished: false };
+
+    if (conversationId) {
+        emit.conversationIdResolved(attemptId, conversationId, 'Mistral');
+    }
+
+    try {
+        await consumeReadableStreamChunks(reader, decoder, attemptId, emit.isAttemptDisposed, (chunk, chunkBytes) => {
+            processMistralStreamChunk(chunk, chunkBytes, state, accumulator, attemptId, emit, conversationId);
+        });
+        if (state.streamBuffer) {
+            processMistralStreamChunk('\n', 0, state, accumulator, attemptId, emit, conversationId);
+        }
+    } catch {
+        // Ignore stream read errors; the intercepted response body still drives completion.
+    } finally {
+        reader.releaseLock();
+    }
+};
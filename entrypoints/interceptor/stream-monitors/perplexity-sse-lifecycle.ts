@@ -0,0 +1,116 @@
+import { PERPLEXITY_DEFAULT_TITLES } from '@/platforms/perplexity/registry';
+import {
+    createPerplexityAskAccumulator,
+    parsePerplexitySseFrame,
+    splitPerplexitySseFrames,
+} from '@/platforms/perplexity/sse-parser';
+import { consumeReadableStreamChunks, type StreamMonitorEmitter } from './stream-emitter';
+
+type PerplexitySseState = {
+    streamBuffer: string;
+    conversationId: string | undefined;
+    title: string | null;
+    lastText: string;
+    finished: boolean;
+};
+
+const resolveStreamIdentity = (
+    snapshot: ReturnType<ReturnType<typeof createPerplexityAskAccumulator>['snapshot']>,
+    state: PerplexitySseState,
+    attemptId: string,
+    emit: StreamMonitorEmitter,
+) => {
+    const threadSlug = snapshot.entry?.threadSlug;
+    if (threadSlug && threadSlug !== state.conversationId) {
+        state.conversationId = threadSlug;
+        emit.conversationIdResolved(attemptId, threadSlug, 'Perplexity');
+    }
+    const title = snapshot.entry?.title;
+    if (
+        state.conversationId &&
+        title &&
+        title !== state.title &&
+        !(PERPLEXITY_DEFAULT_TITLES as readonly string[]).includes(title)
+    ) {
+        state.title = title;
+        emit.titleResolved(attemptId, state.conversationId, title, 'Perplexity');
+    }
+};
+
+const processPerplexitySseChunk = (
+    chunk: string,
+    chunkBytes: number,
+    state: PerplexitySseState,
+    accumulator: ReturnType<typeof createPerplexityAskAccumulator>,
+    attemptId: string,
+    emit: StreamMonitorEmitter,
+) => {
+    const { frames, remainingBuffer } = splitPerplexitySseFrames(state.streamBuffer + chunk);
+    state.streamBuffer = remainingBuffer;
+    for (const frame of frames) {
+        const parsed = parsePerplexitySseFrame(frame);
+        if (parsed) {
+            accumulator.push(parsed);
+        }
+    }
+
+    const snapshot = accumulator.snapshot();
+    resolveStreamIdentity(snapshot, state, attemptId, emit);
+    const text = snapshot.entry?.text ?? '';
+    if (text && text !== state.lastText) {
+        state.lastText = text;
+        emit.streamDelta(attemptId, state.conversationId, text, 'Perplexity');
+        emit.streamDump(attemptId, state.conversationId, 'snapshot', text, chunkBytes, 'Perplexity');
+    }
+    if (snapshot.done && !state.finished) {
+        state.finished = true;
+        if (snapshot.error) {
+            emit.log('warn', 'Perplexity ask stream ended with an error', {
+                conversationId: state.conversationId,
+                error: snapshot.error,
+            });
+        }
+        emit.lifecycle(attemptId, snapshot.error ? 'terminated' : 'completed', state.conversationId, 'Perplexity');
+    }
+};
+
+// Public API
+
+/**
+ * Attaches to a cloned `perplexity_ask` SSE stream and emits stream-delta
+ * snapshots plus the terminal lifecycle once the final entry (or an error)
+ * arrives. New threads only learn their slug from the stream, so the
+ * conversation id is resolved as soon as `thread_url_slug` appears.
+ */
+export const monitorPerplexitySseLifecycle = async (
+    response: Response,
+    attemptId: string,
+    emit: StreamMonitorEmitter,
+    conversationId?: string,
+) => {
+    if (!response.body) {
+        return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const accumulator = createPerplexityAskAccumulator();
+    const state: PerplexitySseState = { streamBuffer: '', conversationId, title: null, lastText: '', finished: false };
+
+    if (conversationId) {
+        emit.conversationIdResolved(attemptId, conversationId, 'Perplexity');
+    }
+
+    try {
+        await consumeReadableStreamChunks(reader, decoder, attemptId, emit.isAttemptDisposed, (chunk, chunkBytes) => {
+            processPerplexitySseChunk(chunk, chunkBytes, state, accumulator, attemptId, emit);
+        });
+        if (state.streamBuffer) {
+            processPerplexitySseChunk('\n\n', 0, state, accumulator, attemptId, emit);
+        }
+    } catch {
+        // Ignore stream read errors; the intercepted response body still drives completion.
+    } finally {
+        reader.releaseLock();
+    }
+};
@@ -0,0 +1,212 @@
+import { beforeEach, describe, expect, it, mock } from 'bun:test';
+
+let streamedChunks: string[] = [];
+
+mock.module('@/entrypoints/interceptor/stream-monitors/stream-emitter', () => ({
+    consumeReadableStreamChunks: async (
+        _reader: ReadableStreamDefaultReader<Uint8Array>,
+        _decoder: TextDecoder,
+        _attemptId: string,
+        _isAttemptDisposed: (id: string) => boolean,
+        onChunk: (chunkText: string, chunkBytes: number) => void | Promise<void>,
+    ) => {
+        for (const chunk of streamedChunks) {
+            await onChunk(chunk, chunk.length);
+        }
+    },
+}));
+
+import { monitorClaudeSseLifecycle } from './claude-sse-lifecycle';
+import { monitorDeepSeekSseLifecycle } from './deepseek-sse-lifecycle';
+import { monitorMistralStreamLifecycle } from './mistral-stream-lifecycle';
+import { monitorPerplexitySseLifecycle } from './perplexity-sse-lifecycle';
+
+type StreamLifecycleMonitor = (
+    response: Response,
+    attemptId: string,
+    emit: any,
+    conversationId?: string,
+) => Promise<void>;
+
+type StreamCase = {
+    chunks: () => string[];
+    conversationId?: string;
+    expected: { resolved: string[]; deltas: string[]; titles: string[]; phases: string[] };
+};
+
+type StreamLifecycleCase = {
+    name: string;
+    monitor: StreamLifecycleMonitor;
+    /** Frames split mid-payload, ending in the platform's completion signal. */
+    completed: StreamCase;
+    /** A single unterminated error frame. */
+    errored: StreamCase;
+};
+
+const sseFrame = (payload: unknown, event?: string, newline = '\n') =>
+    `${event ? `event: ${event}${newline}` : ''}data: ${JSON.stringify(payload)}${newline}${newline}`;
+
+const mistralLine = (index: number, event: unknown) => `${index}:${JSON.stringify({ json: event })}\n`;
+const mistralPatch = (index: number, ...patches: unknown[]) =>
+    mistralLine(index, { type: 'message', messageId: 'm1', patches });
+
+const perplexityAnswer = (chunks: string[], offset: number, extra: Record<string, unknown> = {}) => ({
+    backend_uuid: 'entry-1',
+    thread_url_slug: 'mars-sky-AbCdEf',
+    thread_title: 'Mars sky',
+    blocks: [{ intended_usage: 'ask_text', markdown_block: { chunks, chunk_starting_offset: offset } }],
+    ...extra,
+});
+const perplexityFrame = (payload: unknown, event = 'message') => sseFrame(payload, event, '\r\n');
+
+const split = (frame: string, at: number) => [frame.slice(0, at), frame.slice(at)];
+
+const CASES: StreamLifecycleCase[] = [
+    {
+        name: 'Claude',
+        monitor: monitorClaudeSseLifecycle,
+        completed: {
+            chunks: () => [
+                sseFrame({ type: 'message_start', message: { uuid: 'a1' } }, 'x'),
+                ...split(
+                    sseFrame(
+                        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hello' } },
+                        'x',
+                    ),
+                    20,
+                ),
+                sseFrame({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: ' there' } }, 'x'),
+                sseFrame({ type: 'message_stop' }, 'x'),
+            ],
+            conversationId: 'conv-1',
+            expected: { resolved: ['conv-1'], deltas: ['Hello', 'Hello there'], titles: [], phases: ['completed'] },
+        },
+        errored: {
+            chunks: () => [`data: ${JSON.stringify({ type: 'error', error: { message: 'Overloaded' } })}`],
+            expected: { resolved: [], deltas: [], titles: [], phases: ['terminated'] },
+        },
+    },
+    {
+        name: 'Perplexity',
+        monitor: monitorPerplexitySseLifecycle,
+        completed: {
+            chunks: () => [
+                perplexityFrame(perplexityAnswer(['Red'], 0)),
+                ...split(perplexityFrame(perplexityAnswer([' dust'], 1)), 25),
+                perplexityFrame(perplexityAnswer([], 2, { final: true, status: 'COMPLETED' })),
+                perplexityFrame({}, 'end_of_stream'),
+            ],
+            // The thread slug is resolved from the stream itself.
+            expected: {
+                resolved: ['mars-sky-AbCdEf'],
+                deltas: ['Red', 'Red dust'],
+                titles: ['Mars sky'],
+                phases: ['completed'],
+            },
+        },
+        errored: {
+            chunks: () => [`event: error\ndata: ${JSON.stringify({ message: 'rate limited' })}`],
+            conversationId: 'mars-sky-AbCdEf',
+            expected: { resolved: ['mars-sky-AbCdEf'], deltas: [], titles: [], phases: ['terminated'] },
+        },
+    },
+    {
+        name: 'DeepSeek',
+        monitor: monitorDeepSeekSseLifecycle,
+        completed: {
+            chunks: () => [
+                sseFrame({ request_message_id: 1, response_message_id: 2 }, 'ready'),
+                sseFrame({ v: { response: { message_id: 2, thinking_enabled: true, status: 'WIP', content: '' } } }),
+                ...split(sseFrame({ p: 'response/thinking_content', o: 'APPEND', v: 'Double it.' }), 25),
+                sseFrame({ p: 'response/content', o: 'APPEND', v: '816' }),
+                sseFrame({ v: '.' }),
+                sseFrame({ content: 'Doubling' }, 'title'),
+                sseFrame({}, 'finish'),
+            ],
+            conversationId: 'session-1',
+            expected: {
+                resolved: ['session-1'],
+                deltas: ['[Thinking] Double it.', '[Thinking] Double it.\n\n816', '[Thinking] Double it.\n\n816.'],
+                titles: ['Doubling'],
+                phases: ['completed'],
+            },
+        },
+        errored: {
+            chunks: () => [`event: error\ndata: ${JSON.stringify({ msg: 'Server busy' })}`],
+            expected: { resolved: [], deltas: [], titles: [], phases: ['terminated'] },
+        },
+    },
+    {
+        name: 'Mistral',
+        monitor: monitorMistralStreamLifecycle,
+        completed: {
+            chunks: () => [
+                mistralPatch(0, {
+                    op: 'replace',
+                    path: '',
+                    value: { id: 'm1', contentChunks: [], generationStatus: 'pending' },
+                }),
+                ...split(
+                    mistralPatch(1, {
+                        op: 'add',
+                        path: '/contentChunks/-',
+                        value: { type: 'thinking', thinking: [{ type: 'text', text: 'Count.' }] },
+                    }),
+                    30,
+                ),
+                mistralPatch(2, { op: 'add', path: '/contentChunks/-', value: { type: 'text', text: '4' } }),
+                mistralPatch(3, { op: 'append', path: '/contentChunks/1/text', value: '2.' }),
+                mistralLine(4, { type: 'title', title: 'Counting' }),
+                mistralPatch(5, { op: 'replace', path: '/generationStatus', value: 'success' }),
+            ],
+            conversationId: 'chat-1',
+            expected: {
+                resolved: ['chat-1'],
+                deltas: ['[Thinking] Count.', '[Thinking] Count.\n\n4', '[Thinking] Count.\n\n42.'],
+                titles: ['Counting'],
+                phases: ['completed'],
+            },
+        },
+        errored: {
+            chunks: () => [`0:${JSON.stringify({ json: { type: 'error', message: 'Rate limited' } })}`],
+            expected: { resolved: [], deltas: [], titles: [], phases: ['terminated'] },
+        },
+    },
+];
+
+describe('stream lifecycle monitors', () => {
+    const calls = { deltas: [] as string[], phases: [] as string[], resolved: [] as string[], titles: [] as string[] };
+    const emit = {
+        conversationIdResolved: (_attemptId: string, conversationId: string) => calls.resolved.push(conversationId),
+        lifecycle: (_attemptId: string, phase: string) => calls.phases.push(phase),
+        streamDelta: (_attemptId: string, _conversationId: string | undefined, text: string) => calls.deltas.push(text),
+        streamDump: () => {},
+        titleResolved: (_attemptId: string, _conversationId: string, title: string) => calls.titles.push(title),
+        isAttemptDisposed: () => false,
+        shouldLogTransient: () => false,
+        log: () => {},
+    };
+
+    beforeEach(() => {
+        calls.deltas = [];
+        calls.phases = [];
+        calls.resolved = [];
+        calls.titles = [];
+    });
+
+    const run = async (monitor: StreamLifecycleMonitor, { chunks, conversationId, expected }: StreamCase) => {
+        streamedChunks = chunks();
+        await monitor(new Response('seed'), 'attempt-1', emit, conversationId);
+        expect(calls).toEqual(expected);
+    };
+
+    for (const { name, monitor, completed, errored } of CASES) {
+        it(`should emit ${name} snapshots across split frames and complete`, async () => {
+            await run(monitor, completed);
+        });
+
+        it(`should terminate ${name} streams on an unterminated error frame`, async () => {
+            await run(monitor, errored);
+        });
+    }
+});
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createWebSocketInterceptor, type WebSocketFrameObserver } from '@/entrypoints/interceptor/websocket-wrapper';
+
+class FakeWebSocket extends EventTarget {
+    static readonly OPEN = 1;
+    readonly url: string;
+    readonly sent: unknown[] = [];
+
+    constructor(url: string | URL, _protocols?: string | string[]) {
+        super();
+        this.url = String(url);
+    }
+
+    send(data: unknown) {
+        this.sent.push(data);
+    }
+
+    receive(data: unknown) {
+        this.dispatchEvent(new MessageEvent('message', { data }));
+    }
+}
+
+const createSocket = (observe: (url: string) => WebSocketFrameObserver | null, url: string) => {
+    const Wrapped = createWebSocketInterceptor(FakeWebSocket as unknown as typeof WebSocket, observe);
+    return new Wrapped(url) as unknown as FakeWebSocket;
+};
+
+describe('websocket-wrapper', () => {
+    let originalConsoleDebug: typeof console.debug;
+    const logged: unknown[] = [];
+
+    beforeEach(() => {
+        logged.length = 0;
+        originalConsoleDebug = console.debug;
+        console.debug = (...args: unknown[]) => {
+            logged.push(args);
+        };
+    });
+
+    afterEach(() => {
+        console.debug = originalConsoleDebug;
+    });
+
+    it('observes sent and received text frames of matching sockets', () => {
+        const frames: string[] = [];
+        let closed = false;
+        const socket = createSocket(
+            (url) =>
+                url.includes('/chat')
+                    ? {
+                          onSend: (data) => frames.push(`send:${data}`),
+                          onMessage: (data) => frames.push(`recv:${data}`),
+                          onClose: () => {
+                              closed = true;
+                          },
+                      }
+                    : null,
+            'wss://example.com/chat',
+        );
+
+        socket.send('{"event":"send"}');
+        socket.receive('{"event":"appendText"}');
+        socket.receive(new TextEncoder().encode('{"event":"done"}').buffer);
+        socket.receive(new Blob(['ignored']));
+        socket.dispatchEvent(new Event('close'));
+
+        expect(frames).toEqual(['send:{"event":"send"}', 'recv:{"event":"appendText"}', 'recv:{"event":"done"}']);
+        expect(socket.sent).toEqual(['{"event":"send"}']);
+        expect(closed).toBeTrue();
+    });
+
+    it('leaves declined sockets untouched', () => {
+        const frames: string[] = [];
+        const socket = createSocket(() => null, 'wss://example.com/other');
+
+        socket.send('hello');
+        socket.receive('world');
+
+        expect(frames).toEqual([]);
+        expect(socket.sent).toEqual(['hello']);
+    });
+
+    it('keeps the socket working when the observer throws', () => {
+        const socket = createSocket(
+            () => ({
+                onSend: () => {
+                    throw new Error('boom');
+                },
+            }),
+            'wss://example.com/chat',
+        );
+
+        socket.send('hello');
+
+        expect(socket.sent).toEqual(['hello']);
+        expect(logged.length).toBe(1);
+
+        const declined = createSocket(() => {
+            throw new Error('factory');
+        }, 'wss://example.com/chat');
+        declined.send('still works');
+        expect(declined.sent).toEqual(['still works']);
+    });
+});
@@ -0,0 +1,103 @@
+/** Callbacks for the text frames of one observed WebSocket. Binary frames are decoded as UTF-8. */
+export type WebSocketFrameObserver = {
+    onSend?: (data: string) => void;
+    onMessage?: (data: string) => void;
+    onClose?: () => void;
+};
+
+/** Returns an observer for sockets worth watching, or `null` to leave the socket untouched. */
+export type WebSocketObserverFactory = (url: string) => WebSocketFrameObserver | null;
+
+const WEBSOCKET_INTERCEPTOR_LOG_TTL_MS = 10_000;
+const websocketInterceptorErrorLogTimestamps = new Map<string, number>();
+const frameDecoder = new TextDecoder();
+
+const toFrameText = (data: unknown): string | null => {
+    if (typeof data === 'string') {
+        return data;
+    }
+    if (data instanceof ArrayBuffer) {
+        return frameDecoder.decode(data);
+    }
+    if (ArrayBuffer.isView(data)) {
+        return frameDecoder.decode(data);
+    }
+    return null;
+};
+
+const logObserverError = (url: string, stage: string, error: unknown) => {
+    const key = `${stage}:${url}`;
+    const now = Date.now();
+    const previous = websocketInterceptorErrorLogTimestamps.get(key) ?? 0;
+    if (now - previous < WEBSOCKET_INTERCEPTOR_LOG_TTL_MS) {
+        return;
+    }
+    websocketInterceptorErrorLogTimestamps.set(key, now);
+    console.debug('websocket interceptor observer error', {
+        url,
+        stage,
+        error: error instanceof Error ? error.message : String(error),
+    });
+};
+
+/** Runs an observer callback without ever letting it break the page's socket. */
+const notify = (url: string, stage: string, callback: ((data: string) => void) | undefined, data: unknown) => {
+    const text = callback ? toFrameText(data) : null;
+    if (!callback || text === null) {
+        return;
+    }
+    try {
+        callback(text);
+    } catch (error) {
+        logObserverError(url, stage, error);
+    }
+};
+
+const resolveObserver = (observe: WebSocketObserverFactory, url: string) => {
+    try {
+        return observe(url);
+    } catch (error) {
+        logObserverError(url, 'open', error);
+        return null;
+    }
+};
+
+/**
+ * Subclasses the page's WebSocket so outgoing `send` frames and incoming
+ * `message` frames of matching sockets can be observed. Sockets the factory
+ * declines behave exactly like the original constructor's.
+ */
+export const createWebSocketInterceptor = (
+    OriginalWebSocket: typeof WebSocket,
+    observe: WebSocketObserverFactory,
+): typeof WebSocket => {
+    class InterceptedWebSocket extends OriginalWebSocket {
+        private readonly blackiyaObserver: WebSocketFrameObserver | null;
+
+        constructor(url: string | URL, protocols?: string | string[]) {
+            super(url, protocols);
+            const socketUrl = this.url;
+            const observer = resolveObserver(observe, socketUrl);
+            this.blackiyaObserver = observer;
+            if (!observer) {
+                return;
+            }
+            this.addEventListener('message', (event) => {
+                notify(socketUrl, 'message', observer.onMessage, (event as MessageEvent).data);
+            });
+            this.addEventListener('close', () => {
+                try {
+                    observer.onClose?.();
+                } catch (error) {
+                    logObserverError(socketUrl, 'close', error);
+                }
+            });
+        }
+
+        send(data: Parameters<WebSocket['send']>[0]) {
+            notify(this.url, 'send', this.blackiyaObserver?.onSend, data);
+            super.send(data);
+        }
+    }
+    return InterceptedWebSocket;
+};
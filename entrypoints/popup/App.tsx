@@ -1,20 +1,126 @@
 import type { JSX } from 'preact';
 import { useEffect, useState } from 'preact/hooks';
 import { browser } from 'wxt/browser';
-import { normalizeBulkExportLimitInput } from '@/entrypoints/popup/bulk-export-input';
+import {
+    type BulkExportFilterInputs,
+    buildBulkExportFilters,
+    EMPTY_BULK_EXPORT_FILTER_INPUTS,
+    normalizeBulkExportFilterInputs,
+    normalizeBulkExportLimitInput,
+} from '@/entrypoints/popup/bulk-export-input';
+import { describeExportEncryptionStatus, validateExportPassphrase } from '@/entrypoints/popup/encryption-view';
+import { formatNativeHostStatus } from '@/entrypoints/popup/native-host-view';
+import { formatRedactionPreview, REDACTION_CATEGORY_LABELS } from '@/entrypoints/popup/redaction-view';
+import { formatWebhookDeliveryLogEntry, toWebhookSinkOriginPattern } from '@/entrypoints/popup/webhook-sink-view';
+import { BUILT_IN_PLATFORM_DESCRIPTORS } from '@/platforms/descriptors';
 import { getBuildFilenameTag } from '@/utils/build-fingerprint';
 import { downloadAsJSON } from '@/utils/download';
+import { readSessionExportPassphrase, writeSessionExportPassphrase } from '@/utils/encryption/export-passphrase';
+import { EXPORT_FORMAT_REGISTRY, EXPORT_FORMAT_SETTING_LABELS } from '@/utils/export/formats';
 import { type LogLevel, logger } from '@/utils/logger';
 import { logsStorage } from '@/utils/logs-storage';
 import { downloadMinimalDebugReport } from '@/utils/minimal-logs';
-import { BULK_EXPORT_CHATS_MESSAGE, type BulkExportChatsResponse } from '@/utils/runner/bulk-chat-export-contract';
+import { NATIVE_HOST_REQUEST_MESSAGE, type NativeHostRequestMessage } from '@/utils/native-host/native-host-contract';
+import {
+    REDACTION_PREVIEW_MESSAGE,
+    type RedactionPreviewMessage,
+    type RedactionPreviewResponse,
+} from '@/utils/redaction/redaction-preview-contract';
+import {
+    BULK_EXPORT_CHATS_MESSAGE,
+    BULK_EXPORT_CONTROL_MESSAGE,
+    BULK_EXPORT_MODES,
+    type BulkExportChatsResponse,
+    type BulkExportControlAction,
+    type BulkExportControlResponse,
+    type BulkExportFilters,
+    type BulkExportMode,
+    type BulkExportPackaging,
+    type BulkExportProgressMessage,
+    type BulkExportRunStatus,
+    isBulkExportMode,
+    isBulkExportPackaging,
+    isBulkExportProgressMessage,
+} from '@/utils/runner/bulk-chat-export-contract';
+import { describeBulkExportFilters } from '@/utils/runner/bulk-export-filters';
+import {
+    type BulkExportLedgerStats,
+    browserBulkExportLedgerStore,
+    getBulkExportLedgerStats,
+    resetBulkExportLedger,
+} from '@/utils/runner/bulk-export-ledger';
 import {
+    AUTO_EXPORT_FILENAME_MODES,
+    type AutoExportFilenameMode,
+    type AutoExportRule,
+    type AutoExportSettings,
+    DEFAULT_ARCHIVE_ENABLED,
+    DEFAULT_AUTO_EXPORT_SETTINGS,
     DEFAULT_BULK_EXPORT_DELAY_MS,
     DEFAULT_BULK_EXPORT_LIMIT,
+    DEFAULT_BULK_EXPORT_MODE,
+    DEFAULT_BULK_EXPORT_PACKAGING,
     DEFAULT_BULK_EXPORT_TIMEOUT_MS,
+    DEFAULT_ENCRYPTION_ENABLED,
+    DEFAULT_EXPORT_FORMAT,
     DEFAULT_EXTENSION_ENABLED,
+    DEFAULT_NATIVE_HOST_ENABLED,
+    DEFAULT_REDACTION_SETTINGS,
+    EXPORT_FORMATS,
+    type ExportFormat,
+    type ExportFormatSettingKey,
+    type ExportFormatSettingsMap,
+    formatWebhookHeaderLines,
+    isAutoExportFilenameMode,
+    normalizeAutoExportSettings,
+    normalizeExportFormatSettingsMap,
+    normalizeExportFormatValue,
+    normalizeExternalApiAllowedIds,
+    normalizePageEventsSettings,
+    normalizeRedactionSettings,
+    normalizeWebhookSinks,
+    type PageEventsRule,
+    type PageEventsSettings,
+    parseWebhookHeaderLines,
+    REDACTION_DETECTORS,
+    type RedactionSettings,
+    resolveExportFormatSettings,
+    resolvePageEventsRule,
     STORAGE_KEYS,
+    type WebhookSink,
 } from '@/utils/settings';
+import { WEBHOOK_DELIVERY_LOG_KEY } from '@/utils/sinks/webhook-outbox';
+import type { WebhookDeliveryLog } from '@/utils/sinks/webhook-sink-contract';
+
+const BULK_EXPORT_MODE_LABELS: Record<BulkExportMode, string> = {
+    full: 'Full (all discovered chats)',
+    resume: 'Resume interrupted run',
+    incremental: 'Incremental (new or changed chats)',
+};
+
+const AUTO_EXPORT_FILENAME_MODE_LABELS: Record<AutoExportFilenameMode, string> = {
+    'same-name': 'Same filename (browser may add " (1)")',
+    versioned: 'Versioned (-v2, -v3, ...)',
+};
+
+const formatLedgerStats = (stats: BulkExportLedgerStats) => {
+    const run = stats.lastRun;
+    const runText = run ? `last ${run.mode} run ${run.completedAt === null ? 'interrupted' : 'completed'}` : 'no runs';
+    return `${stats.platform}: ${stats.conversations} chats recorded, ${runText}`;
+};
+
+const formatBulkExportProgress = (progress: BulkExportProgressMessage) => {
+    const counts = `${progress.exported ?? 0} exported, ${progress.remaining ?? 0} remaining`;
+    return progress.stage === 'paused' ? `Export paused (${counts}).` : `Export in progress (${counts})...`;
+};
+
+/** Run state implied by a progress stage; terminal stages leave the tab idle. */
+const toBulkExportRunState = (stage: BulkExportProgressMessage['stage']): BulkExportRunStatus['state'] => {
+    if (stage === 'paused') {
+        return 'paused';
+    }
+    return stage === 'started' || stage === 'progress' ? 'running' : 'idle';
+};
 
 const ABOUT_AUTHOR_NAME = 'Ragaeeb Haq';
 const ABOUT_REPOSITORY_URL = 'https://github.com/ragaeeb/blackiya';
@@ -24,10 +130,34 @@ const App = () => {
     const buildFilenameTag = getBuildFilenameTag();
     const [extensionEnabled, setExtensionEnabled] = useState<boolean>(DEFAULT_EXTENSION_ENABLED);
     const [logLevel, setLogLevel] = useState<LogLevel>('info');
+    const [exportFormat, setExportFormat] = useState<ExportFormat>(DEFAULT_EXPORT_FORMAT);
+    const [exportFormatSettings, setExportFormatSettings] = useState<ExportFormatSettingsMap>({});
     const [logCount, setLogCount] = useState<number>(0);
     const [bulkExportLimitInput, setBulkExportLimitInput] = useState<string>('');
+    const [bulkExportPackaging, setBulkExportPackaging] = useState<BulkExportPackaging>(DEFAULT_BULK_EXPORT_PACKAGING);
+    const [bulkExportMode, setBulkExportMode] = useState<BulkExportMode>(DEFAULT_BULK_EXPORT_MODE);
+    const [bulkExportFilterInputs, setBulkExportFilterInputs] = useState<BulkExportFilterInputs>(
+        EMPTY_BULK_EXPORT_FILTER_INPUTS,
+    );
+    const [bulkExportLedgerStats, setBulkExportLedgerStats] = useState<BulkExportLedgerStats[]>([]);
     const [bulkExportInProgress, setBulkExportInProgress] = useState<boolean>(false);
     const [bulkExportStatus, setBulkExportStatus] = useState<string>('');
+    const [bulkExportRunState, setBulkExportRunState] = useState<BulkExportRunStatus['state']>('idle');
+    const [archiveEnabled, setArchiveEnabled] = useState<boolean>(DEFAULT_ARCHIVE_ENABLED);
+    const [autoExportSettings, setAutoExportSettings] = useState<AutoExportSettings>(DEFAULT_AUTO_EXPORT_SETTINGS);
+    const [externalApiIdsInput, setExternalApiIdsInput] = useState<string>('');
+    const [pageEventsSettings, setPageEventsSettings] = useState<PageEventsSettings>({});
+    const [webhookSinks, setWebhookSinks] = useState<WebhookSink[]>([]);
+    const [webhookDeliveryLog, setWebhookDeliveryLog] = useState<WebhookDeliveryLog>({});
+    const [webhookSinkStatus, setWebhookSinkStatus] = useState<string>('');
+    const [nativeHostEnabled, setNativeHostEnabled] = useState<boolean>(DEFAULT_NATIVE_HOST_ENABLED);
+    const [nativeHostStatus, setNativeHostStatus] = useState<string>('');
+    const [redactionSettings, setRedactionSettings] = useState<RedactionSettings>(DEFAULT_REDACTION_SETTINGS);
+    const [encryptionEnabled, setEncryptionEnabled] = useState<boolean>(DEFAULT_ENCRYPTION_ENABLED);
+    const [exportPassphraseSet, setExportPassphraseSet] = useState<boolean>(false);
+    const [passphraseInputs, setPassphraseInputs] = useState({ passphrase: '', confirmation: '' });
+    const [encryptionStatus, setEncryptionStatus] = useState<string>('');
+    const [redactionPreview, setRedactionPreview] = useState<{ status: string; samples: string[] } | null>(null);
 
     const getActiveTabId = async (): Promise<number | null> => {
         try {
@@ -44,16 +174,114 @@ const App = () => {
             limit: normalizedLimit,
             delayMs: DEFAULT_BULK_EXPORT_DELAY_MS,
             timeoutMs: DEFAULT_BULK_EXPORT_TIMEOUT_MS,
+            packaging: bulkExportPackaging,
+            mode: bulkExportMode,
+            filters: buildBulkExportFilters(bulkExportFilterInputs),
         };
     };
 
+    const applyStoredBulkExportSettings = (result: Record<string, unknown>) => {
+        const normalizedLimit = normalizeBulkExportLimitInput(result[STORAGE_KEYS.BULK_EXPORT_LIMIT]);
+        setBulkExportLimitInput(normalizedLimit === DEFAULT_BULK_EXPORT_LIMIT ? '' : String(normalizedLimit));
+        const packaging = result[STORAGE_KEYS.BULK_EXPORT_PACKAGING];
+        setBulkExportPackaging(isBulkExportPackaging(packaging) ? packaging : DEFAULT_BULK_EXPORT_PACKAGING);
+        const mode = result[STORAGE_KEYS.BULK_EXPORT_MODE];
+        setBulkExportMode(isBulkExportMode(mode) ? mode : DEFAULT_BULK_EXPORT_MODE);
+        setBulkExportFilterInputs(normalizeBulkExportFilterInputs(result[STORAGE_KEYS.BULK_EXPORT_FILTERS]));
+    };
+
+    const refreshBulkExportLedgerStats = async () => {
+        setBulkExportLedgerStats(getBulkExportLedgerStats(await browserBulkExportLedgerStore.read()));
+    };
+
+    const sendBulkExportControl = async (action: BulkExportControlAction) => {
+        const tabId = await getActiveTabId();
+        if (tabId === null) {
+            return null;
+        }
+        try {
+            const response = (await browser.tabs.sendMessage(tabId, {
+                type: BULK_EXPORT_CONTROL_MESSAGE,
+                action,
+            })) as BulkExportControlResponse | undefined;
+            return response?.ok ? response.status : null;
+        } catch {
+            // No content script on this tab (or it is not a supported platform).
+            return null;
+        }
+    };
+
+    const applyBulkExportRunStatus = (status: BulkExportRunStatus | null) => {
+        if (!status) {
+            return;
+        }
+        setBulkExportRunState(status.state);
+        if (status.state === 'running' || status.state === 'paused') {
+            setBulkExportInProgress(true);
+            if (status.progress) {
+                setBulkExportStatus(formatBulkExportProgress(status.progress));
+            }
+        }
+    };
+
+    const handleBulkExportControl = async (action: Exclude<BulkExportControlAction, 'status'>) => {
+        applyBulkExportRunStatus(await sendBulkExportControl(action));
+    };
+
+    useEffect(() => {
+        // Reattach to an export that is still running after the popup was closed and reopened.
+        void sendBulkExportControl('status').then(applyBulkExportRunStatus);
+
+        const progressListener = (message: unknown) => {
+            if (!isBulkExportProgressMessage(message)) {
+                return;
+            }
+            const runState = toBulkExportRunState(message.stage);
+            setBulkExportRunState(runState);
+            if (runState === 'idle') {
+                setBulkExportInProgress(false);
+                void refreshBulkExportLedgerStats();
+                return;
+            }
+            setBulkExportInProgress(true);
+            setBulkExportStatus(formatBulkExportProgress(message));
+        };
+        browser.runtime.onMessage.addListener(progressListener);
+        return () => browser.runtime.onMessage.removeListener(progressListener);
+    }, []);
+
+    useEffect(() => {
+        // The background outbox keeps writing the delivery log while the popup is open.
+        const deliveryLogListener = (changes: Record<string, { newValue?: unknown }>, areaName: string) => {
+            if (areaName === 'local' && changes[WEBHOOK_DELIVERY_LOG_KEY]) {
+                setWebhookDeliveryLog((changes[WEBHOOK_DELIVERY_LOG_KEY].newValue as WebhookDeliveryLog) ?? {});
+            }
+        };
+        browser.storage.onChanged.addListener(deliveryLogListener);
+        return () => browser.storage.onChanged.removeListener(deliveryLogListener);
+    }, []);
+
     useEffect(() => {
         const loadSettings = async () => {
             try {
                 const result = await browser.storage.local.get([
                     STORAGE_KEYS.LOG_LEVEL,
                     STORAGE_KEYS.BULK_EXPORT_LIMIT,
+                    STORAGE_KEYS.BULK_EXPORT_PACKAGING,
+                    STORAGE_KEYS.BULK_EXPORT_MODE,
+                    STORAGE_KEYS.BULK_EXPORT_FILTERS,
                     STORAGE_KEYS.EXTENSION_ENABLED,
+                    STORAGE_KEYS.EXPORT_FORMAT,
+                    STORAGE_KEYS.EXPORT_FORMAT_SETTINGS,
+                    STORAGE_KEYS.ARCHIVE_ENABLED,
+                    STORAGE_KEYS.AUTO_EXPORT,
+                    STORAGE_KEYS.EXTERNAL_API_ALLOWED_IDS,
+                    STORAGE_KEYS.PAGE_EVENTS,
+                    STORAGE_KEYS.WEBHOOK_SINKS,
+                    WEBHOOK_DELIVERY_LOG_KEY,
+                    STORAGE_KEYS.NATIVE_HOST_ENABLED,
+                    STORAGE_KEYS.REDACTION,
+                    STORAGE_KEYS.ENCRYPTION_ENABLED,
                 ]);
                 const level = result[STORAGE_KEYS.LOG_LEVEL] as LogLevel | undefined;
                 if (level) {
@@ -61,8 +289,20 @@ const App = () => {
                     logger.setLevel(level);
                 }
                 setExtensionEnabled(result[STORAGE_KEYS.EXTENSION_ENABLED] !== false);
-                const normalizedLimit = normalizeBulkExportLimitInput(result[STORAGE_KEYS.BULK_EXPORT_LIMIT]);
-                setBulkExportLimitInput(normalizedLimit === DEFAULT_BULK_EXPORT_LIMIT ? '' : String(normalizedLimit));
+                setExportFormat(normalizeExportFormatValue(result[STORAGE_KEYS.EXPORT_FORMAT]));
+                setExportFormatSettings(normalizeExportFormatSettingsMap(result[STORAGE_KEYS.EXPORT_FORMAT_SETTINGS]));
+                setArchiveEnabled(result[STORAGE_KEYS.ARCHIVE_ENABLED] === true);
+                setAutoExportSettings(normalizeAutoExportSettings(result[STORAGE_KEYS.AUTO_EXPORT]));
+                setExternalApiIdsInput(
+                    normalizeExternalApiAllowedIds(result[STORAGE_KEYS.EXTERNAL_API_ALLOWED_IDS]).join('\n'),
+                );
+                setPageEventsSettings(normalizePageEventsSettings(result[STORAGE_KEYS.PAGE_EVENTS]));
+                setWebhookSinks(normalizeWebhookSinks(result[STORAGE_KEYS.WEBHOOK_SINKS]));
+                setWebhookDeliveryLog((result[WEBHOOK_DELIVERY_LOG_KEY] as WebhookDeliveryLog | undefined) ?? {});
+                setNativeHostEnabled(result[STORAGE_KEYS.NATIVE_HOST_ENABLED] === true);
+                setRedactionSettings(normalizeRedactionSettings(result[STORAGE_KEYS.REDACTION]));
+                setEncryptionEnabled(result[STORAGE_KEYS.ENCRYPTION_ENABLED] === true);
+                applyStoredBulkExportSettings(result);
             } catch (error) {
                 logger.warn('Failed to load popup settings from local storage', error);
             }
@@ -74,6 +314,8 @@ const App = () => {
             }
         };
         void loadSettings();
+        void readSessionExportPassphrase().then((passphrase) => setExportPassphraseSet(passphrase !== null));
+        void refreshBulkExportLedgerStats();
 
         // Load log stats
         logsStorage.getLogs().then((logs) => {
@@ -97,6 +339,183 @@ const App = () => {
         void browser.storage.local.set({ [STORAGE_KEYS.EXTENSION_ENABLED]: enabled });
     };
 
+    const handleExportFormatChange: JSX.GenericEventHandler<HTMLSelectElement> = (e) => {
+        const target = e.currentTarget as HTMLSelectElement | null;
+        const nextFormat = normalizeExportFormatValue(target?.value);
+        setExportFormat(nextFormat);
+        void browser.storage.local.set({ [STORAGE_KEYS.EXPORT_FORMAT]: nextFormat });
+    };
+
+    const handleExportFormatSettingChange = (key: ExportFormatSettingKey, checked: boolean) => {
+        const nextSettings: ExportFormatSettingsMap = {
+            ...exportFormatSettings,
+            [exportFormat]: { ...exportFormatSettings[exportFormat], [key]: checked },
+        };
+        setExportFormatSettings(nextSettings);
+        void browser.storage.local.set({ [STORAGE_KEYS.EXPORT_FORMAT_SETTINGS]: nextSettings });
+    };
+
+    const handleArchiveEnabledChange: JSX.GenericEventHandler<HTMLInputElement> = (e) => {
+        const enabled = e.currentTarget.checked;
+        setArchiveEnabled(enabled);
+        void browser.storage.local.set({ [STORAGE_KEYS.ARCHIVE_ENABLED]: enabled });
+    };
+
+    const updateAutoExportSettings = (nextSettings: AutoExportSettings) => {
+        setAutoExportSettings(nextSettings);
+        void browser.storage.local.set({ [STORAGE_KEYS.AUTO_EXPORT]: nextSettings });
+    };
+
+    const handleAutoExportFilenameModeChange: JSX.GenericEventHandler<HTMLSelectElement> = (e) => {
+        const mode = e.currentTarget.value;
+        if (isAutoExportFilenameMode(mode)) {
+            updateAutoExportSettings({ ...autoExportSettings, filenameMode: mode });
+        }
+    };
+
+    /** A platform's filename mode of `default` drops its override so it follows the global mode. */
+    const handleAutoExportPlatformChange = (platform: string, patch: Partial<AutoExportRule> | 'default') => {
+        const { filenameMode: _dropped, ...withoutMode } = autoExportSettings.platforms[platform] ?? {};
+        const rule = patch === 'default' ? withoutMode : { ...autoExportSettings.platforms[platform], ...patch };
+        updateAutoExportSettings({
+            ...autoExportSettings,
+            platforms: { ...autoExportSettings.platforms, [platform]: rule },
+        });
+    };
+
+    const handleExternalApiIdsChange: JSX.GenericEventHandler<HTMLTextAreaElement> = (e) => {
+        const value = e.currentTarget.value;
+        setExternalApiIdsInput(value);
+        void browser.storage.local.set({
+            [STORAGE_KEYS.EXTERNAL_API_ALLOWED_IDS]: normalizeExternalApiAllowedIds(value.split(/[\s,]+/)),
+        });
+    };
+
+    const handlePageEventsChange = (platform: string, patch: Partial<PageEventsRule>) => {
+        const nextSettings = {
+            ...pageEventsSettings,
+            [platform]: { ...resolvePageEventsRule(pageEventsSettings, platform), ...patch },
+        };
+        setPageEventsSettings(nextSettings);
+        void browser.storage.local.set({ [STORAGE_KEYS.PAGE_EVENTS]: nextSettings });
+    };
+
+    const updateWebhookSinks = (nextSinks: WebhookSink[]) => {
+        setWebhookSinks(nextSinks);
+        void browser.storage.local.set({ [STORAGE_KEYS.WEBHOOK_SINKS]: nextSinks });
+    };
+
+    const handleWebhookSinkChange = (id: string, patch: Partial<WebhookSink>) => {
+        updateWebhookSinks(webhookSinks.map((sink) => (sink.id === id ? { ...sink, ...patch } : sink)));
+    };
+
+    const handleAddWebhookSink = () => {
+        updateWebhookSinks([...webhookSinks, { id: crypto.randomUUID(), url: '', enabled: false, headers: {} }]);
+    };
+
+    /** Enabling asks for access to the sink's origin; the background can't POST to it otherwise. */
+    const handleWebhookSinkEnabledChange = async (sink: WebhookSink, enabled: boolean) => {
+        if (!enabled) {
+            handleWebhookSinkChange(sink.id, { enabled });
+            return;
+        }
+        const originPattern = toWebhookSinkOriginPattern(sink.url);
+        if (!originPattern) {
+            setWebhookSinkStatus('Enter an http:// or https:// URL first.');
+            return;
+        }
+        const granted = await browser.permissions.request({ origins: [originPattern] }).catch(() => false);
+        setWebhookSinkStatus(granted ? '' : `Blackiya needs access to ${originPattern} to send exports there.`);
+        if (granted) {
+            handleWebhookSinkChange(sink.id, { enabled });
+        }
+    };
+
+    const handleWebhookSinkUrlChange = (sink: WebhookSink, url: string) => {
+        const trimmed = url.trim();
+        const sameOrigin = toWebhookSinkOriginPattern(trimmed) === toWebhookSinkOriginPattern(sink.url);
+        // Access was granted for the old origin only.
+        handleWebhookSinkChange(sink.id, { url: trimmed, enabled: sink.enabled && sameOrigin });
+    };
+
+    const handleTestNativeHost = async () => {
+        setNativeHostStatus('Checking the local folder host...');
+        const result = await browser.runtime
+            .sendMessage({ type: NATIVE_HOST_REQUEST_MESSAGE, action: 'ping' } satisfies NativeHostRequestMessage)
+            .catch((error: unknown) => ({ ok: false, error: error instanceof Error ? error.message : String(error) }));
+        setNativeHostStatus(formatNativeHostStatus(result, browser.runtime.id));
+    };
+
+    /** Enabling asks for the `nativeMessaging` permission, then checks that the host answers. */
+    const handleNativeHostEnabledChange = async (enabled: boolean) => {
+        if (enabled) {
+            const granted = await browser.permissions.request({ permissions: ['nativeMessaging'] }).catch(() => false);
+            if (!granted) {
+                setNativeHostStatus('Blackiya needs the native messaging permission to write to a folder.');
+                return;
+            }
+        }
+        setNativeHostEnabled(enabled);
+        void browser.storage.local.set({ [STORAGE_KEYS.NATIVE_HOST_ENABLED]: enabled });
+        if (enabled) {
+            await handleTestNativeHost();
+        } else {
+            setNativeHostStatus('');
+        }
+    };
+
+    const updateRedactionSettings = (patch: Partial<RedactionSettings>) => {
+        const nextSettings = normalizeRedactionSettings({ ...redactionSettings, ...patch });
+        setRedactionSettings(nextSettings);
+        void browser.storage.local.set({ [STORAGE_KEYS.REDACTION]: nextSettings });
+    };
+
+    /** Runs the current (possibly disabled) settings against the chat open in the active tab. */
+    const handlePreviewRedaction = async () => {
+        const tabId = await getActiveTabId();
+        const response =
+            tabId === null
+                ? undefined
+                : ((await browser.tabs
+                      .sendMessage(tabId, {
+                          type: REDACTION_PREVIEW_MESSAGE,
+                          settings: redactionSettings,
+                      } satisfies RedactionPreviewMessage)
+                      .catch(() => undefined)) as RedactionPreviewResponse | undefined);
+        setRedactionPreview(formatRedactionPreview(response));
+    };
+
+    const handleEncryptionEnabledChange = (enabled: boolean) => {
+        setEncryptionEnabled(enabled);
+        setEncryptionStatus('');
+        void browser.storage.local.set({ [STORAGE_KEYS.ENCRYPTION_ENABLED]: enabled });
+    };
+
+    /** The passphrase goes to session storage only, so it is forgotten when the browser closes. */
+    const handleSetExportPassphrase = async (passphrase: string | null) => {
+        const error = passphrase === null ? null : validateExportPassphrase(passphrase, passphraseInputs.confirmation);
+        if (error) {
+            setEncryptionStatus(error);
+            return;
+        }
+        try {
+            await writeSessionExportPassphrase(passphrase);
+            setExportPassphraseSet(passphrase !== null);
+            setPassphraseInputs({ passphrase: '', confirmation: '' });
+            setEncryptionStatus('');
+        } catch (writeError) {
+            setEncryptionStatus(
+                `Could not store the passphrase: ${writeError instanceof Error ? writeError.message : String(writeError)}`,
+            );
+        }
+    };
+
+    const handleOpenArchive = () => {
+        void browser.tabs.create({ url: browser.runtime.getURL('/archive.html') });
+    };
+
+    const activeFormatSettings = resolveExportFormatSettings(exportFormatSettings, exportFormat);
+
     const handleBulkExportLimitChange: JSX.GenericEventHandler<HTMLInputElement> = (e) => {
         const target = e.currentTarget as HTMLInputElement | null;
         const nextValue = target?.value ?? '';
@@ -105,6 +524,36 @@ const App = () => {
         void browser.storage.local.set({ [STORAGE_KEYS.BULK_EXPORT_LIMIT]: normalized });
     };
 
+    const handleBulkExportPackagingChange: JSX.GenericEventHandler<HTMLInputElement> = (e) => {
+        const packaging: BulkExportPackaging = e.currentTarget.checked ? 'zip' : 'files';
+        setBulkExportPackaging(packaging);
+        void browser.storage.local.set({ [STORAGE_KEYS.BULK_EXPORT_PACKAGING]: packaging });
+    };
+
+    const handleBulkExportModeChange: JSX.GenericEventHandler<HTMLSelectElement> = (e) => {
+        const value = e.currentTarget.value;
+        const mode = isBulkExportMode(value) ? value : DEFAULT_BULK_EXPORT_MODE;
+        setBulkExportMode(mode);
+        void browser.storage.local.set({ [STORAGE_KEYS.BULK_EXPORT_MODE]: mode });
+    };
+
+    const updateBulkExportFilterInput = <K extends keyof BulkExportFilterInputs>(
+        key: K,
+        value: BulkExportFilterInputs[K],
+    ) => {
+        const next = { ...bulkExportFilterInputs, [key]: value };
+        setBulkExportFilterInputs(next);
+        void browser.storage.local.set({ [STORAGE_KEYS.BULK_EXPORT_FILTERS]: next });
+    };
+
+    const handleResetBulkExportLedger = async () => {
+        if (confirm('Reset the bulk export ledger? The next incremental or resumed run will export everything.')) {
+            await resetBulkExportLedger();
+            await refreshBulkExportLedgerStats();
+            logger.info('Bulk export ledger reset by user');
+        }
+    };
+
     const persistBulkExportSettings = async (options: { limit: number }) => {
         await browser.storage.local.set({
             [STORAGE_KEYS.BULK_EXPORT_LIMIT]: options.limit,
@@ -113,13 +562,23 @@ const App = () => {
 
     const requestBulkExportFromActiveTab = async (
         tabId: number,
-        options: { limit: number; delayMs: number; timeoutMs: number },
+        options: {
+            limit: number;
+            delayMs: number;
+            timeoutMs: number;
+            packaging: BulkExportPackaging;
+            mode: BulkExportMode;
+            filters: BulkExportFilters | undefined;
+        },
     ) => {
         const response = (await browser.tabs.sendMessage(tabId, {
             type: BULK_EXPORT_CHATS_MESSAGE,
             limit: options.limit,
             delayMs: options.delayMs,
             timeoutMs: options.timeoutMs,
+            packaging: options.packaging,
+            mode: options.mode,
+            filters: options.filters,
         })) as BulkExportChatsResponse | undefined;
 
         if (!response) {
@@ -134,11 +593,22 @@ const App = () => {
     const formatBulkExportStatus = (result: {
         exported: number;
         attempted: number;
+        skipped: number;
+        filteredOut: number;
+        canceled: boolean;
+        filters?: BulkExportFilters;
         platform: string;
         warnings: string[];
+        archiveFilename?: string;
     }) => {
+        const skippedText = result.skipped > 0 ? ` Skipped ${result.skipped} already exported.` : '';
+        const filterText = result.filters
+            ? ` Filters: ${describeBulkExportFilters(result.filters)} (${result.filteredOut} left out).`
+            : '';
+        const archiveText = result.archiveFilename ? ` Saved to ${result.archiveFilename}.` : '';
         const warningText = result.warnings.length > 0 ? ` Warnings: ${result.warnings.join(' | ')}` : '';
-        return `Exported ${result.exported}/${result.attempted} chats on ${result.platform}.${warningText}`;
+        const canceledText = result.canceled ? 'Canceled. ' : '';
+        return `${canceledText}Exported ${result.exported}/${result.attempted} chats on ${result.platform}.${filterText}${skippedText}${archiveText}${warningText}`;
     };
 
     const handleBulkExportChats = async () => {
@@ -169,6 +639,8 @@ const App = () => {
             alert(`Bulk export failed: ${message}`);
         } finally {
             setBulkExportInProgress(false);
+            setBulkExportRunState('idle');
+            void refreshBulkExportLedgerStats();
         }
     };
 
@@ -236,6 +708,29 @@ const App = () => {
                 </label>
             </div>
 
+            <div className="section">
+                <div className="section-heading">Export Format</div>
+                <label htmlFor="exportFormat">Used by the in-page 💾 button and Export Chats</label>
+                <select id="exportFormat" value={exportFormat} onChange={handleExportFormatChange}>
+                    {EXPORT_FORMATS.map((format) => (
+                        <option key={format} value={format}>
+                            {EXPORT_FORMAT_REGISTRY[format].label}
+                        </option>
+                    ))}
+                </select>
+                {EXPORT_FORMAT_REGISTRY[exportFormat].settings.map((key) => (
+                    <label key={key} className="checkbox-row" htmlFor={`exportFormatSetting-${key}`}>
+                        <input
+                            id={`exportFormatSetting-${key}`}
+                            type="checkbox"
+                            checked={activeFormatSettings[key]}
+                            onChange={(e) => handleExportFormatSettingChange(key, e.currentTarget.checked)}
+                        />
+                        {EXPORT_FORMAT_SETTING_LABELS[key]}
+                    </label>
+                ))}
+            </div>
+
             <div className="section">
                 <div className="section-heading">Export Chats</div>
                 <div className="split-row">
@@ -256,9 +751,470 @@ const App = () => {
                         placeholder="Max chats (0 = all)"
                     />
                 </div>
+                {bulkExportRunState === 'running' || bulkExportRunState === 'paused' ? (
+                    <div className="button-row compact-button-row">
+                        <button
+                            type="button"
+                            className="secondary compact-button"
+                            onClick={() =>
+                                handleBulkExportControl(bulkExportRunState === 'paused' ? 'resume' : 'pause')
+                            }
+                        >
+                            {bulkExportRunState === 'paused' ? 'Resume' : 'Pause'}
+                        </button>
+                        <button
+                            type="button"
+                            className="secondary compact-button"
+                            onClick={() => handleBulkExportControl('cancel')}
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                ) : null}
+                <label className="checkbox-row" htmlFor="bulkExportPackaging">
+                    <input
+                        id="bulkExportPackaging"
+                        type="checkbox"
+                        checked={bulkExportPackaging === 'zip'}
+                        onChange={handleBulkExportPackagingChange}
+                    />
+                    Bundle into one ZIP with manifest.json
+                </label>
+                <details className="filter-group">
+                    <summary>Filters</summary>
+                    <label htmlFor="bulkExportCreatedFrom">Created between</label>
+                    <div className="split-row">
+                        <input
+                            id="bulkExportCreatedFrom"
+                            type="date"
+                            value={bulkExportFilterInputs.createdFrom}
+                            onChange={(e) => updateBulkExportFilterInput('createdFrom', e.currentTarget.value)}
+                        />
+                        <input
+                            id="bulkExportCreatedTo"
+                            type="date"
+                            aria-label="Created until"
+                            value={bulkExportFilterInputs.createdTo}
+                            onChange={(e) => updateBulkExportFilterInput('createdTo', e.currentTarget.value)}
+                        />
+                    </div>
+                    <label htmlFor="bulkExportUpdatedFrom">Updated between</label>
+                    <div className="split-row">
+                        <input
+                            id="bulkExportUpdatedFrom"
+                            type="date"
+                            value={bulkExportFilterInputs.updatedFrom}
+                            onChange={(e) => updateBulkExportFilterInput('updatedFrom', e.currentTarget.value)}
+                        />
+                        <input
+                            id="bulkExportUpdatedTo"
+                            type="date"
+                            aria-label="Updated until"
+                            value={bulkExportFilterInputs.updatedTo}
+                            onChange={(e) => updateBulkExportFilterInput('updatedTo', e.currentTarget.value)}
+                        />
+                    </div>
+                    <label htmlFor="bulkExportTitle">Title contains</label>
+                    <input
+                        id="bulkExportTitle"
+                        type="text"
+                        value={bulkExportFilterInputs.title}
+                        onChange={(e) => updateBulkExportFilterInput('title', e.currentTarget.value)}
+                        placeholder="Text, or a regex when ticked below"
+                    />
+                    <label className="checkbox-row" htmlFor="bulkExportTitleIsRegex">
+                        <input
+                            id="bulkExportTitleIsRegex"
+                            type="checkbox"
+                            checked={bulkExportFilterInputs.titleIsRegex}
+                            onChange={(e) => updateBulkExportFilterInput('titleIsRegex', e.currentTarget.checked)}
+                        />
+                        Treat title as a regular expression
+                    </label>
+                    <label htmlFor="bulkExportGizmoId">ChatGPT GPT / project ID</label>
+                    <input
+                        id="bulkExportGizmoId"
+                        type="text"
+                        value={bulkExportFilterInputs.gizmoId}
+                        onChange={(e) => updateBulkExportFilterInput('gizmoId', e.currentTarget.value)}
+                        placeholder="g-… or g-p-…"
+                    />
+                    <label className="checkbox-row" htmlFor="bulkExportArchived">
+                        <input
+                            id="bulkExportArchived"
+                            type="checkbox"
+                            checked={bulkExportFilterInputs.archived}
+                            onChange={(e) => updateBulkExportFilterInput('archived', e.currentTarget.checked)}
+                        />
+                        Archived chats only
+                    </label>
+                </details>
+                <label htmlFor="bulkExportMode">Run Mode</label>
+                <select id="bulkExportMode" value={bulkExportMode} onChange={handleBulkExportModeChange}>
+                    {BULK_EXPORT_MODES.map((mode) => (
+                        <option key={mode} value={mode}>
+                            {BULK_EXPORT_MODE_LABELS[mode]}
+                        </option>
+                    ))}
+                </select>
+                {bulkExportLedgerStats.map((stats) => (
+                    <div key={stats.platform} className="section-meta">
+                        {formatLedgerStats(stats)}
+                    </div>
+                ))}
+                <div className="button-row compact-button-row">
+                    <button
+                        type="button"
+                        className="secondary compact-button"
+                        onClick={handleResetBulkExportLedger}
+                        disabled={bulkExportInProgress}
+                    >
+                        Reset Ledger
+                    </button>
+                </div>
                 {bulkExportStatus ? <div className="status-text">{bulkExportStatus}</div> : null}
             </div>
 
+            <div className="section">
+                <div className="section-heading">Auto Export</div>
+                <label className="checkbox-row" htmlFor="autoExportEnabled">
+                    <input
+                        id="autoExportEnabled"
+                        type="checkbox"
+                        checked={autoExportSettings.enabled}
+                        onChange={(e) =>
+                            updateAutoExportSettings({ ...autoExportSettings, enabled: e.currentTarget.checked })
+                        }
+                    />
+                    Save chats automatically when a response completes
+                </label>
+                <label htmlFor="autoExportFilenameMode">On later turns</label>
+                <select
+                    id="autoExportFilenameMode"
+                    value={autoExportSettings.filenameMode}
+                    onChange={handleAutoExportFilenameModeChange}
+                >
+                    {AUTO_EXPORT_FILENAME_MODES.map((mode) => (
+                        <option key={mode} value={mode}>
+                            {AUTO_EXPORT_FILENAME_MODE_LABELS[mode]}
+                        </option>
+                    ))}
+                </select>
+                <details className="filter-group">
+                    <summary>Platforms</summary>
+                    {BUILT_IN_PLATFORM_DESCRIPTORS.map(({ name }) => {
+                        const override = autoExportSettings.platforms[name];
+                        return (
+                            <div key={name} className="split-row">
+                                <label className="checkbox-row" htmlFor={`autoExportPlatform-${name}`}>
+                                    <input
+                                        id={`autoExportPlatform-${name}`}
+                                        type="checkbox"
+                                        checked={override?.enabled !== false}
+                                        onChange={(e) =>
+                                            handleAutoExportPlatformChange(name, { enabled: e.currentTarget.checked })
+                                        }
+                                    />
+                                    {name}
+                                </label>
+                                <select
+                                    aria-label={`${name} filename on later turns`}
+                                    value={override?.filenameMode ?? 'default'}
+                                    onChange={(e) => {
+                                        const mode = e.currentTarget.value;
+                                        handleAutoExportPlatformChange(
+                                            name,
+                                            isAutoExportFilenameMode(mode) ? { filenameMode: mode } : 'default',
+                                        );
+                                    }}
+                                >
+                                    <option value="default">Default</option>
+                                    {AUTO_EXPORT_FILENAME_MODES.map((mode) => (
+                                        <option key={mode} value={mode}>
+                                            {AUTO_EXPORT_FILENAME_MODE_LABELS[mode]}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        );
+                    })}
+                </details>
+            </div>
+
+            <div className="section">
+                <div className="section-heading">Redaction</div>
+                <label className="checkbox-row" htmlFor="redactionEnabled">
+                    <input
+                        id="redactionEnabled"
+                        type="checkbox"
+                        checked={redactionSettings.enabled}
+                        onChange={(e) => updateRedactionSettings({ enabled: e.currentTarget.checked })}
+                    />
+                    Redact exports before saving
+                </label>
+                <details className="filter-group">
+                    <summary>Detectors and custom rules</summary>
+                    {REDACTION_DETECTORS.map((detector) => (
+                        <label key={detector} className="checkbox-row" htmlFor={`redactionDetector-${detector}`}>
+                            <input
+                                id={`redactionDetector-${detector}`}
+                                type="checkbox"
+                                checked={redactionSettings.detectors[detector]}
+                                onChange={(e) =>
+                                    updateRedactionSettings({
+                                        detectors: {
+                                            ...redactionSettings.detectors,
+                                            [detector]: e.currentTarget.checked,
+                                        },
+                                    })
+                                }
+                            />
+                            {REDACTION_CATEGORY_LABELS[detector]}
+                        </label>
+                    ))}
+                    <label htmlFor="redactionPatterns">Patterns</label>
+                    <textarea
+                        id="redactionPatterns"
+                        rows={2}
+                        defaultValue={redactionSettings.patterns.join('\n')}
+                        placeholder="One regex per line, e.g. /\+?\d[\d ()-]{8,}\d/"
+                        onChange={(e) => updateRedactionSettings({ patterns: e.currentTarget.value.split('\n') })}
+                    />
+                    <label htmlFor="redactionLiterals">Terms</label>
+                    <textarea
+                        id="redactionLiterals"
+                        rows={2}
+                        defaultValue={redactionSettings.literals.join('\n')}
+                        placeholder="One per line, e.g. a client name or build.corp.internal"
+                        onChange={(e) => updateRedactionSettings({ literals: e.currentTarget.value.split('\n') })}
+                    />
+                </details>
+                <button type="button" className="secondary" onClick={() => void handlePreviewRedaction()}>
+                    Preview on This Chat
+                </button>
+                {redactionPreview ? (
+                    <>
+                        <div className="status-text">{redactionPreview.status}</div>
+                        {redactionPreview.samples.map((sample, index) => (
+                            <div key={`${index}-${sample}`} className="section-meta">
+                                {sample}
+                            </div>
+                        ))}
+                    </>
+                ) : null}
+            </div>
+
+            <div className="section">
+                <div className="section-heading">Encryption</div>
+                <label className="checkbox-row" htmlFor="encryptionEnabled">
+                    <input
+                        id="encryptionEnabled"
+                        type="checkbox"
+                        checked={encryptionEnabled}
+                        onChange={(e) => handleEncryptionEnabledChange(e.currentTarget.checked)}
+                    />
+                    Encrypt exports with a passphrase
+                </label>
+                <div className="section-meta">
+                    {describeExportEncryptionStatus(encryptionEnabled, exportPassphraseSet)}
+                </div>
+                <details className="filter-group">
+                    <summary>{exportPassphraseSet ? 'Change passphrase' : 'Set passphrase'}</summary>
+                    <input
+                        type="password"
+                        aria-label="Passphrase"
+                        autoComplete="new-password"
+                        placeholder="Passphrase"
+                        value={passphraseInputs.passphrase}
+                        onInput={(e) => setPassphraseInputs({ ...passphraseInputs, passphrase: e.currentTarget.value })}
+                    />
+                    <input
+                        type="password"
+                        aria-label="Confirm passphrase"
+                        autoComplete="new-password"
+                        placeholder="Confirm passphrase"
+                        value={passphraseInputs.confirmation}
+                        onInput={(e) =>
+                            setPassphraseInputs({ ...passphraseInputs, confirmation: e.currentTarget.value })
+                        }
+                    />
+                    <div className="split-row">
+                        <button
+                            type="button"
+                            className="secondary split-row-button"
+                            onClick={() => void handleSetExportPassphrase(passphraseInputs.passphrase)}
+                        >
+                            Set for This Session
+                        </button>
+                        <button
+                            type="button"
+                            className="secondary split-row-button"
+                            disabled={!exportPassphraseSet}
+                            onClick={() => void handleSetExportPassphrase(null)}
+                        >
+                            Forget
+                        </button>
+                    </div>
+                </details>
+                {encryptionStatus ? <div className="status-text">{encryptionStatus}</div> : null}
+            </div>
+
+            <div className="section">
+                <div className="section-heading">Archive</div>
+                <label className="checkbox-row" htmlFor="archiveEnabled">
+                    <input
+                        id="archiveEnabled"
+                        type="checkbox"
+                        checked={archiveEnabled}
+                        onChange={handleArchiveEnabledChange}
+                    />
+                    Keep a local archive of captured chats
+                </label>
+                <button type="button" className="secondary" onClick={handleOpenArchive}>
+                    Open Archive
+                </button>
+            </div>
+
+            <div className="section">
+                <div className="section-heading">External API</div>
+                <label htmlFor="externalApiAllowedIds">Allowed extension IDs</label>
+                <textarea
+                    id="externalApiAllowedIds"
+                    rows={2}
+                    value={externalApiIdsInput}
+                    onInput={handleExternalApiIdsChange}
+                    placeholder="One per line; empty keeps the API closed"
+                />
+            </div>
+
+            <div className="section">
+                <div className="section-heading">Local Folder</div>
+                <div className="split-row">
+                    <label className="checkbox-row" htmlFor="nativeHostEnabled">
+                        <input
+                            id="nativeHostEnabled"
+                            type="checkbox"
+                            checked={nativeHostEnabled}
+                            onChange={(e) => void handleNativeHostEnabledChange(e.currentTarget.checked)}
+                        />
+                        Write saves through the native host
+                    </label>
+                    <button
+                        type="button"
+                        className="secondary split-row-button"
+                        disabled={!nativeHostEnabled}
+                        onClick={() => void handleTestNativeHost()}
+                    >
+                        Test
+                    </button>
+                </div>
+                {nativeHostStatus ? <div className="status-text">{nativeHostStatus}</div> : null}
+            </div>
+
+            <div className="section">
+                <div className="section-heading">Webhook Sinks</div>
+                {webhookSinks.map((sink) => (
+                    <div key={sink.id} className="filter-group">
+                        <label htmlFor={`webhookSinkUrl-${sink.id}`}>Endpoint URL</label>
+                        <input
+                            id={`webhookSinkUrl-${sink.id}`}
+                            type="url"
+                            value={sink.url}
+                            placeholder="http://localhost:8765/ingest"
+                            onChange={(e) => handleWebhookSinkUrlChange(sink, e.currentTarget.value)}
+                        />
+                        <label htmlFor={`webhookSinkHeaders-${sink.id}`}>Headers</label>
+                        <textarea
+                            id={`webhookSinkHeaders-${sink.id}`}
+                            rows={2}
+                            defaultValue={formatWebhookHeaderLines(sink.headers)}
+                            placeholder="Authorization: Bearer ..."
+                            onChange={(e) =>
+                                handleWebhookSinkChange(sink.id, {
+                                    headers: parseWebhookHeaderLines(e.currentTarget.value),
+                                })
+                            }
+                        />
+                        <div className="split-row">
+                            <label className="checkbox-row" htmlFor={`webhookSinkEnabled-${sink.id}`}>
+                                <input
+                                    id={`webhookSinkEnabled-${sink.id}`}
+                                    type="checkbox"
+                                    checked={sink.enabled}
+                                    onChange={(e) => void handleWebhookSinkEnabledChange(sink, e.currentTarget.checked)}
+                                />
+                                Send every export
+                            </label>
+                            <button
+                                type="button"
+                                className="secondary split-row-button"
+                                onClick={() => updateWebhookSinks(webhookSinks.filter(({ id }) => id !== sink.id))}
+                            >
+                                Remove
+                            </button>
+                        </div>
+                        <details>
+                            <summary>Delivery log</summary>
+                            {(webhookDeliveryLog[sink.id] ?? []).length === 0 ? (
+                                <div className="section-meta">No deliveries yet</div>
+                            ) : (
+                                (webhookDeliveryLog[sink.id] ?? []).map((entry) => (
+                                    <div
+                                        key={`${entry.deliveryId}-${entry.attempt}-${entry.status}`}
+                                        className="section-meta"
+                                    >
+                                        {formatWebhookDeliveryLogEntry(entry)}
+                                    </div>
+                                ))
+                            )}
+                        </details>
+                    </div>
+                ))}
+                <button type="button" className="secondary" onClick={handleAddWebhookSink}>
+                    Add Sink
+                </button>
+                {webhookSinkStatus ? <div className="status-text">{webhookSinkStatus}</div> : null}
+            </div>
+
+            <div className="section">
+                <div className="section-heading">Page Events</div>
+                <details className="filter-group">
+                    <summary>Let userscripts on these sites see finished chats</summary>
+                    {BUILT_IN_PLATFORM_DESCRIPTORS.map(({ name }) => {
+                        const rule = resolvePageEventsRule(pageEventsSettings, name);
+                        return (
+                            <div key={name} className="split-row">
+                                <label className="checkbox-row" htmlFor={`pageEvents-${name}`}>
+                                    <input
+                                        id={`pageEvents-${name}`}
+                                        type="checkbox"
+                                        checked={rule.enabled}
+                                        onChange={(e) =>
+                                            handlePageEventsChange(name, { enabled: e.currentTarget.checked })
+                                        }
+                                    />
+                                    {name}
+                                </label>
+                                <label className="checkbox-row" htmlFor={`pageEventsConversation-${name}`}>
+                                    <input
+                                        id={`pageEventsConversation-${name}`}
+                                        type="checkbox"
+                                        checked={rule.includeConversation}
+                                        disabled={!rule.enabled}
+                                        onChange={(e) =>
+                                            handlePageEventsChange(name, {
+                                                includeConversation: e.currentTarget.checked,
+                                            })
+                                        }
+                                    />
+                                    With chat data
+                                </label>
+                            </div>
+                        );
+                    })}
+                </details>
+            </div>
+
             <div className="section">
                 <div className="section-heading">Logs</div>
                 <label htmlFor="logLevel">Log Level</label>
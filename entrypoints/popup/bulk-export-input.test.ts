@@ -1,5 +1,12 @@
 import { describe, expect, it } from 'bun:test';
-import { normalizeBulkExportLimitInput, normalizeBulkExportNumberInput } from '@/entrypoints/popup/bulk-export-input';
+import {
+    buildBulkExportFilters,
+    EMPTY_BULK_EXPORT_FILTER_INPUTS,
+    normalizeBulkExportFilterInputs,
+    normalizeBulkExportLimitInput,
+    normalizeBulkExportNumberInput,
+    parseBulkExportDateInput,
+} from '@/entrypoints/popup/bulk-export-input';
 
 describe('popup bulk export input normalization', () => {
     it('should normalize limit from numeric strings with separators', () => {
@@ -19,4 +26,37 @@ describe('popup bulk export input normalization', () => {
         expect(normalizeBulkExportNumberInput('10', 1200, 250, 20_000)).toBe(250);
         expect(normalizeBulkExportNumberInput('999999', 1200, 250, 20_000)).toBe(20_000);
     });
+
+    it('should convert date inputs into local day bounds', () => {
+        expect(parseBulkExportDateInput('2024-05-01', 'start')).toBe(new Date(2024, 4, 1).getTime());
+        expect(parseBulkExportDateInput('2024-05-31', 'end')).toBe(new Date(2024, 5, 1).getTime() - 1);
+        expect(parseBulkExportDateInput('', 'start')).toBeUndefined();
+        expect(parseBulkExportDateInput('05/01/2024', 'start')).toBeUndefined();
+    });
+
+    it('should build filters only from filled-in fields', () => {
+        expect(buildBulkExportFilters(EMPTY_BULK_EXPORT_FILTER_INPUTS)).toBeUndefined();
+        expect(
+            buildBulkExportFilters({
+                ...EMPTY_BULK_EXPORT_FILTER_INPUTS,
+                updatedFrom: '2024-05-01',
+                title: ' notes ',
+                gizmoId: 'g-p-123',
+                archived: true,
+            }),
+        ).toEqual({
+            updatedFrom: new Date(2024, 4, 1).getTime(),
+            title: 'notes',
+            gizmoId: 'g-p-123',
+            archived: true,
+        });
+    });
+
+    it('should restore persisted filter inputs defensively', () => {
+        expect(normalizeBulkExportFilterInputs(null)).toEqual(EMPTY_BULK_EXPORT_FILTER_INPUTS);
+        expect(normalizeBulkExportFilterInputs({ title: 'x', titleIsRegex: 'yes', createdFrom: 5 })).toEqual({
+            ...EMPTY_BULK_EXPORT_FILTER_INPUTS,
+            title: 'x',
+        });
+    });
 });
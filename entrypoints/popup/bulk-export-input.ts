@@ -1,5 +1,30 @@
+import type { BulkExportFilters } from '@/utils/runner/bulk-chat-export-contract';
+import { normalizeBulkExportFilters } from '@/utils/runner/bulk-export-filters';
 import { DEFAULT_BULK_EXPORT_LIMIT } from '@/utils/settings';
 
+/** Raw popup filter fields; dates are `YYYY-MM-DD` values from `<input type="date">`. */
+export type BulkExportFilterInputs = {
+    createdFrom: string;
+    createdTo: string;
+    updatedFrom: string;
+    updatedTo: string;
+    title: string;
+    titleIsRegex: boolean;
+    gizmoId: string;
+    archived: boolean;
+};
+
+export const EMPTY_BULK_EXPORT_FILTER_INPUTS: BulkExportFilterInputs = {
+    createdFrom: '',
+    createdTo: '',
+    updatedFrom: '',
+    updatedTo: '',
+    title: '',
+    titleIsRegex: false,
+    gizmoId: '',
+    archived: false,
+};
+
 const toFiniteNumber = (value: unknown): number | null => {
     if (typeof value === 'number') {
         return Number.isFinite(value) ? value : null;
@@ -37,3 +62,45 @@ export const normalizeBulkExportLimitInput = (value: unknown): number => {
     }
     return Math.floor(parsed);
 };
+
+/**
+ * Converts a `YYYY-MM-DD` date input into an epoch-millisecond bound in local
+ * time: the start of the day for `start`, its last millisecond for `end`.
+ */
+export const parseBulkExportDateInput = (value: string, bound: 'start' | 'end'): number | undefined => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+    if (!match) {
+        return undefined;
+    }
+    const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+    const ms = bound === 'start' ? new Date(year, month, day).getTime() : new Date(year, month, day + 1).getTime() - 1;
+    return Number.isFinite(ms) ? ms : undefined;
+};
+
+export const buildBulkExportFilters = (inputs: BulkExportFilterInputs): BulkExportFilters | undefined =>
+    normalizeBulkExportFilters({
+        createdFrom: parseBulkExportDateInput(inputs.createdFrom, 'start'),
+        createdTo: parseBulkExportDateInput(inputs.createdTo, 'end'),
+        updatedFrom: parseBulkExportDateInput(inputs.updatedFrom, 'start'),
+        updatedTo: parseBulkExportDateInput(inputs.updatedTo, 'end'),
+        title: inputs.title,
+        titleIsRegex: inputs.titleIsRegex,
+        gizmoId: inputs.gizmoId,
+        archived: inputs.archived,
+    }) ?? undefined;
+
+/** Restores persisted filter inputs, falling back to empty fields for anything malformed. */
+export const normalizeBulkExportFilterInputs = (value: unknown): BulkExportFilterInputs => {
+    const record = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+    const readText = (key: keyof BulkExportFilterInputs) => (typeof record[key] === 'string' ? record[key] : '');
+    return {
+        createdFrom: readText('createdFrom'),
+        createdTo: readText('createdTo'),
+        updatedFrom: readText('updatedFrom'),
+        updatedTo: readText('updatedTo'),
+        title: readText('title'),
+        titleIsRegex: record.titleIsRegex === true,
+        gizmoId: readText('gizmoId'),
+        archived: record.archived === true,
+    };
+};
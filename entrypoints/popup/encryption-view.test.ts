@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'bun:test';
+import { describeExportEncryptionStatus, validateExportPassphrase } from '@/entrypoints/popup/encryption-view';
+
+describe('popup encryption view', () => {
+    it('should require a long enough, confirmed passphrase', () => {
+        expect(validateExportPassphrase('short', 'short')).toBe('Use at least 12 characters.');
+        expect(validateExportPassphrase('client vault 2026', 'client vault 2025')).toBe(
+            'The passphrases do not match.',
+        );
+        expect(validateExportPassphrase('client vault 2026', 'client vault 2026')).toBeNull();
+    });
+
+    it('should warn when encryption is on without a session passphrase', () => {
+        expect(describeExportEncryptionStatus(true, false)).toBe(
+            'No passphrase set for this browser session: exports fail until you set one.',
+        );
+        expect(describeExportEncryptionStatus(true, true)).toBe(
+            'Downloads, local folder writes and webhook deliveries are encrypted with the session passphrase.',
+        );
+    });
+});
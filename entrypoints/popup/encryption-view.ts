@@ -0,0 +1,20 @@
+export const MIN_EXPORT_PASSPHRASE_LENGTH = 12;
+
+/** Why the passphrase can't be used, or `null` when it can. A typo would lock the exports for good, hence the confirmation. */
+export const validateExportPassphrase = (passphrase: string, confirmation: string): string | null => {
+    if (passphrase.length < MIN_EXPORT_PASSPHRASE_LENGTH) {
+        return `Use at least ${MIN_EXPORT_PASSPHRASE_LENGTH} characters.`;
+    }
+    return passphrase === confirmation ? null : 'The passphrases do not match.';
+};
+
+export const describeExportEncryptionStatus = (enabled: boolean, passphraseSet: boolean): string => {
+    if (!passphraseSet) {
+        return enabled
+            ? 'No passphrase set for this browser session: exports fail until you set one.'
+            : 'No passphrase set for this browser session.';
+    }
+    return enabled
+        ? 'Downloads, local folder writes and webhook deliveries are encrypted with the session passphrase.'
+        : 'Passphrase set for this browser session; exports stay unencrypted until you turn encryption on.';
+};
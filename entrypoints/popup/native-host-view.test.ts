@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'bun:test';
+import { formatNativeHostStatus } from '@/entrypoints/popup/native-host-view';
+
+describe('popup native host view', () => {
+    it('should show the folder the host writes to', () => {
+        expect(formatNativeHostStatus({ ok: true, path: '/Users/me/Vault' }, 'abc')).toBe('Writing to /Users/me/Vault');
+    });
+
+    it('should explain failures with the install command for this extension', () => {
+        expect(formatNativeHostStatus({ ok: false, error: 'Specified native messaging host not found.' }, 'abc')).toBe(
+            'Host unavailable (Specified native messaging host not found.). Install it with: bun run native-host:install --root <folder> --extension-id abc',
+        );
+        expect(formatNativeHostStatus(undefined, 'abc')).toStartWith(
+            'Host unavailable (No reply from the background worker)',
+        );
+    });
+});
@@ -0,0 +1,12 @@
+import { isNativeHostResult } from '@/utils/native-host/native-host-contract';
+
+const formatUnavailable = (error: string, extensionId: string) =>
+    `Host unavailable (${error}). Install it with: bun run native-host:install --root <folder> --extension-id ${extensionId}`;
+
+/** Status line for a host ping: the folder it writes to, or the failure with the install command. */
+export const formatNativeHostStatus = (result: unknown, extensionId: string): string => {
+    if (!isNativeHostResult(result)) {
+        return formatUnavailable('No reply from the background worker', extensionId);
+    }
+    return result.ok ? `Writing to ${result.path}` : formatUnavailable(result.error, extensionId);
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'bun:test';
+import { formatRedactionPreview } from '@/entrypoints/popup/redaction-view';
+
+describe('popup redaction view', () => {
+    it('should summarize counts, skipped patterns and samples', () => {
+        const view = formatRedactionPreview({
+            ok: true,
+            title: 'Vendor call',
+            preview: {
+                summary: { version: 1, total: 3, counts: { email: 2, ipAddress: 1 } },
+                samples: [{ category: 'email', match: 'a@b.io', context: 'mail a@b.io today' }],
+                invalidPatterns: ['(oops'],
+            },
+        });
+
+        expect(view).toEqual({
+            status: '3 redactions in "Vendor call": Emails 2, IP addresses 1. Skipped invalid patterns: (oops.',
+            samples: ['Emails: mail a@b.io today'],
+        });
+    });
+
+    it('should report clean conversations and failures', () => {
+        expect(
+            formatRedactionPreview({
+                ok: true,
+                title: 'Notes',
+                preview: { summary: { version: 1, total: 0, counts: {} }, samples: [], invalidPatterns: [] },
+            }).status,
+        ).toBe('Nothing to redact in "Notes".');
+        expect(formatRedactionPreview({ ok: false, error: 'No conversation' }).status).toBe('No conversation');
+        expect(formatRedactionPreview(undefined).status).toBe('Open a supported chat tab to preview redaction.');
+    });
+});
@@ -0,0 +1,39 @@
+import type { RedactionCategory } from '@/utils/redaction/redaction';
+import type { RedactionPreviewResponse } from '@/utils/redaction/redaction-preview-contract';
+
+export const REDACTION_CATEGORY_LABELS: Record<RedactionCategory, string> = {
+    email: 'Emails',
+    creditCard: 'Card numbers',
+    secret: 'Secrets and tokens',
+    ipAddress: 'IP addresses',
+    pattern: 'Custom patterns',
+    literal: 'Custom terms',
+};
+
+/**
+ * Summary line and sample lines for a dry run, e.g.
+ * `3 redactions in "Vendor call": Emails 2, IP addresses 1.`
+ */
+export const formatRedactionPreview = (
+    response: RedactionPreviewResponse | undefined,
+): { status: string; samples: string[] } => {
+    if (!response) {
+        return { status: 'Open a supported chat tab to preview redaction.', samples: [] };
+    }
+    if (!response.ok) {
+        return { status: response.error, samples: [] };
+    }
+    const { summary, samples, invalidPatterns } = response.preview;
+    const counts = Object.entries(summary.counts)
+        .map(([category, count]) => `${REDACTION_CATEGORY_LABELS[category as RedactionCategory]} ${count}`)
+        .join(', ');
+    const headline =
+        summary.total === 0
+            ? `Nothing to redact in "${response.title}".`
+            : `${summary.total} redaction${summary.total === 1 ? '' : 's'} in "${response.title}": ${counts}.`;
+    const skipped = invalidPatterns.length > 0 ? ` Skipped invalid patterns: ${invalidPatterns.join(', ')}.` : '';
+    return {
+        status: `${headline}${skipped}`,
+        samples: samples.map(({ category, context }) => `${REDACTION_CATEGORY_LABELS[category]}: ${context}`),
+    };
+};
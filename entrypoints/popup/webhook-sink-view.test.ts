@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'bun:test';
+import { formatWebhookDeliveryLogEntry, toWebhookSinkOriginPattern } from '@/entrypoints/popup/webhook-sink-view';
+
+describe('popup webhook sink view', () => {
+    it('should derive the host permission pattern from http(s) sink URLs only', () => {
+        expect(toWebhookSinkOriginPattern('http://localhost:8765/ingest?x=1')).toBe('http://localhost:8765/*');
+        expect(toWebhookSinkOriginPattern('https://kb.example.com/hooks/blackiya')).toBe('https://kb.example.com/*');
+        expect(toWebhookSinkOriginPattern('ftp://example.com/drop')).toBeNull();
+        expect(toWebhookSinkOriginPattern('localhost:8765')).toBeNull();
+    });
+
+    it('should summarize delivery outcomes with the HTTP status or the error', () => {
+        const at = new Date(2026, 0, 2, 14, 2, 11).getTime();
+        const base = { at, deliveryId: 'd-1', conversationId: 'c-1', filename: 'chat.md' };
+
+        expect(formatWebhookDeliveryLogEntry({ ...base, status: 'delivered', attempt: 1, httpStatus: 200 })).toBe(
+            '14:02:11 delivered (#1, HTTP 200) chat.md',
+        );
+        expect(
+            formatWebhookDeliveryLogEntry({ ...base, status: 'retrying', attempt: 2, error: 'Failed to fetch' }),
+        ).toBe('14:02:11 retrying (#2, Failed to fetch) chat.md');
+        expect(
+            formatWebhookDeliveryLogEntry({
+                ...base,
+                status: 'failed',
+                attempt: 0,
+                error: 'Not queued: quota exceeded',
+            }),
+        ).toBe('14:02:11 failed (Not queued: quota exceeded) chat.md');
+    });
+});
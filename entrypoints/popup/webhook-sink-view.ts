@@ -0,0 +1,23 @@
+import type { WebhookDeliveryLogEntry } from '@/utils/sinks/webhook-sink-contract';
+
+/** Host permission pattern the popup requests before a sink can be enabled, e.g. `http://localhost:8765/*`. */
+export const toWebhookSinkOriginPattern = (url: string): string | null => {
+    try {
+        const { origin, protocol } = new URL(url);
+        return protocol === 'http:' || protocol === 'https:' ? `${origin}/*` : null;
+    } catch {
+        return null;
+    }
+};
+
+/** One delivery log line: `14:02:11 delivered (#1, HTTP 200) chat.md`. */
+export const formatWebhookDeliveryLogEntry = (entry: WebhookDeliveryLogEntry): string => {
+    const time = new Date(entry.at).toLocaleTimeString([], { hour12: false });
+    const details = [
+        entry.attempt > 0 ? `#${entry.attempt}` : null,
+        entry.httpStatus ? `HTTP ${entry.httpStatus}` : entry.error,
+    ]
+        .filter(Boolean)
+        .join(', ');
+    return `${time} ${entry.status} (${details}) ${entry.filename}`;
+};
@@ -1,7 +1,11 @@
 import { describe, expect, it } from 'bun:test';
 
 import type { MessageNode } from '@/utils/types';
-import { deriveTitleFromFirstUserMessage, extractMappingModelSlug } from './conversation-normalizer';
+import {
+    deriveTitleFromFirstUserMessage,
+    extractMappingModelSlug,
+    typeMappingMetadata,
+} from './conversation-normalizer';
 
 const createMessageNode = (
     id: string,
@@ -55,4 +59,41 @@ describe('chatgpt conversation normalizer helpers', () => {
 
         expect(deriveTitleFromFirstUserMessage(mapping)).toBe('Earlier question');
     });
+
+    it('should type uploaded files and generated image asset pointers as attachments', () => {
+        const upload = createMessageNode('upload', 'user', 'See attached', 100, {
+            attachments: [{ id: 'file-abc', name: 'notes.pdf', size: 512, mime_type: 'application/pdf' }],
+        });
+        const generated = createMessageNode('generated', 'assistant', '', 200);
+        (generated.message!.content as { parts: unknown[] }).parts = [
+            { content_type: 'image_asset_pointer', asset_pointer: 'sediment://file_xyz', size_bytes: 1024 },
+        ];
+        const plain = createMessageNode('plain', 'assistant', 'No files', 300);
+
+        const mapping = typeMappingMetadata({ upload, generated, plain });
+
+        expect(mapping.upload.message?.metadata.attachments).toEqual([
+            {
+                id: 'file-abc',
+                kind: 'file',
+                origin: 'upload',
+                name: 'notes.pdf',
+                mime_type: 'application/pdf',
+                size: 512,
+                url: '/backend-api/files/download/file-abc',
+            },
+        ]);
+        expect(mapping.generated.message?.metadata.attachments).toEqual([
+            {
+                id: 'file_xyz',
+                kind: 'image',
+                origin: 'generated',
+                name: null,
+                mime_type: null,
+                size: 1024,
+                url: '/backend-api/files/download/file_xyz',
+            },
+        ]);
+        expect(mapping.plain).toBe(plain);
+    });
 });
@@ -8,6 +8,7 @@
  */
 
 import type { ConversationData, Message, MessageNode } from '@/utils/types';
+import { withTypedMessageMetadata } from './message-metadata';
 import {
     CONVERSATION_ID_PATTERN,
     isPlaceholderTitle,
@@ -115,6 +116,26 @@ export const deriveConversationTimes = (mapping: Record<string, MessageNode>): {
     return { create: normalizedCreate, update: normalizedUpdate };
 };
 
+const typeNodeMetadata = (node: MessageNode): MessageNode => {
+    const message = node?.message;
+    if (!message || !isRecord(message.metadata)) {
+        return node;
+    }
+    const metadata = withTypedMessageMetadata(message.metadata, {
+        content: message.content,
+        role: message.author?.role,
+        recipient: message.recipient,
+    });
+    return metadata === message.metadata ? node : { ...node, message: { ...message, metadata } };
+};
+
+/**
+ * Types the attachments, citations and canvas writes of every message in the
+ * mapping (see `withTypedMessageMetadata`); other nodes are kept as-is.
+ */
+export const typeMappingMetadata = (mapping: Record<string, MessageNode>): Record<string, MessageNode> =>
+    Object.fromEntries(Object.entries(mapping).map(([id, node]) => [id, typeNodeMetadata(node)]));
+
 // Title helpers
 
 /**
@@ -182,7 +203,7 @@ export const normalizeConversationCandidate = (candidate: unknown): Conversation
         return null;
     }
 
-    const mapping = { ...(mappingValue as Record<string, MessageNode>) };
+    const mapping = typeMappingMetadata(mappingValue as Record<string, MessageNode>);
     if (!mapping.root) {
         mapping.root = { id: 'root', message: null, parent: null, children: [] };
     }
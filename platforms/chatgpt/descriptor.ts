@@ -0,0 +1,42 @@
+import type { PlatformDescriptor } from '@/platforms/types';
+
+/**
+ * ChatGPT platform descriptor: hosts, endpoints, selectors and capture
+ * settings consumed through `platforms/descriptors.ts`.
+ */
+export const chatGptDescriptor = {
+    name: 'ChatGPT',
+    parserId: 'chatgpt',
+    hosts: ['chatgpt.com', 'chat.openai.com'],
+    urlMatchPatterns: ['https://chatgpt.com/*', 'https://chat.openai.com/*'],
+    streamProtocol: 'sse',
+    endpoints: {
+        promptRequestPathPattern: /\/backend-api\/(?:f\/)?conversation(?:\?.*)?$/i,
+        apiEndpointPattern:
+            /(?:backend-api\/conversations(?:\?.*)?$|backend-api\/conversation\/[a-f0-9-]+(?:\/)?(?:\?.*)?$|backend-api\/f\/conversation(?:\/[a-f0-9-]+)?(?:\/)?(?:\?.*)?$)/i,
+        completionTriggerPattern: /backend-api\/(?:f\/)?conversation\/[a-f0-9-]+\/stream_status(?:\?.*)?$/i,
+    },
+    signals: null,
+    apiHintMarkers: ['/backend-api/'],
+    selectors: {
+        buttonInjectionTargets: [
+            '[data-testid="model-switcher-dropdown-button"]',
+            'header nav',
+            '.flex.items-center.justify-between',
+            'header .flex',
+        ],
+        generationIndicators: [
+            'button[data-testid="stop-button"]',
+            'button[aria-label*="Stop generating"]',
+            'button[aria-label*="Stop response"]',
+            '[data-is-streaming="true"]',
+        ],
+    },
+    capturesPromptHints: false,
+    passiveCaptureWaitMs: 1200,
+    bulkExport: {
+        strategy: 'chatgpt',
+        listEndpoint: 'https://{host}/backend-api/conversations?offset={offset}&limit={limit}&order=updated',
+        detailEndpoints: ['https://{host}/backend-api/conversation/{conversationId}'],
+    },
+} as const satisfies PlatformDescriptor;
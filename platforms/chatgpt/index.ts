@@ -16,6 +16,7 @@ import {
     getConversationCandidate,
     normalizeConversationCandidate,
 } from './conversation-normalizer';
+import { chatGptDescriptor } from './descriptor';
 import { evaluateChatGPTReadiness } from './readiness';
 import { CHATGPT_ENDPOINT_REGISTRY, isChatGptGeneratingFromDom, resolveChatGptButtonInjectionTarget } from './registry';
 import { buildConversationFromSsePayloads, extractSsePayloads } from './sse-parser';
@@ -36,9 +37,9 @@ const MAX_TITLE_LENGTH = 80;
  * Handles standard /c/{id} format and gizmo /g/{gizmo}/c/{id} format.
  */
 export const createChatGPTAdapter = (): LLMPlatform => ({
-    name: 'ChatGPT',
+    name: chatGptDescriptor.name,
 
-    urlMatchPattern: 'https://chatgpt.com/*',
+    urlMatchPattern: chatGptDescriptor.urlMatchPatterns[0],
 
     /**
      * Matches the GET endpoint for fetching full conversation JSON.
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'bun:test';
+
+import { withTypedMessageMetadata } from './message-metadata';
+
+const textContent = (text: string) => ({ content_type: 'text', parts: [text] });
+
+describe('chatgpt message metadata typing', () => {
+    it('should turn content references into sources carrying their inline markers', () => {
+        const marker = '\ue200cite\ue202turn0search0\ue202turn0search1\ue201';
+        const metadata = withTypedMessageMetadata(
+            {
+                content_references: [
+                    {
+                        matched_text: marker,
+                        type: 'grouped_webpages',
+                        items: [
+                            {
+                                title: 'Rayleigh scattering',
+                                url: 'https://en.wikipedia.org/wiki/Rayleigh',
+                                snippet: 'Light',
+                            },
+                            { title: 'NASA', url: 'https://science.nasa.gov/sky' },
+                        ],
+                    },
+                    {
+                        matched_text: ' ',
+                        type: 'sources_footnote',
+                        sources: [{ title: 'NASA', url: 'https://science.nasa.gov/sky' }],
+                    },
+                ],
+            },
+            { content: textContent(`Blue light scatters more ${marker}`), role: 'assistant', recipient: 'all' },
+        );
+
+        expect(metadata.sources).toEqual([
+            {
+                title: 'Rayleigh scattering',
+                url: 'https://en.wikipedia.org/wiki/Rayleigh',
+                snippet: 'Light',
+                markers: [marker],
+            },
+            { title: 'NASA', url: 'https://science.nasa.gov/sky', snippet: '', markers: [marker] },
+        ]);
+    });
+
+    it('should read legacy citations with the cited span of the text as marker', () => {
+        const metadata = withTypedMessageMetadata(
+            {
+                citations: [
+                    {
+                        start_ix: 14,
+                        end_ix: 25,
+                        metadata: { title: 'Example', url: 'https://example.com', text: 'Quoted evidence' },
+                    },
+                ],
+            },
+            { content: textContent('It is so, see 【11†source】.'), role: 'assistant', recipient: 'all' },
+        );
+
+        expect(metadata.sources).toEqual([
+            { title: 'Example', url: 'https://example.com', snippet: 'Quoted evidence', markers: ['【11†source】'] },
+        ]);
+    });
+
+    it('should keep the quoted page of a tether_quote as its source', () => {
+        const metadata = withTypedMessageMetadata(
+            {},
+            {
+                content: { content_type: 'tether_quote', url: 'https://example.com/a', title: 'A', text: 'quote' },
+                role: 'tool',
+                recipient: 'all',
+            },
+        );
+
+        expect(metadata.sources).toEqual([{ title: 'A', url: 'https://example.com/a', snippet: '' }]);
+    });
+
+    it('should capture canvas documents from create calls and whole-document rewrites only', () => {
+        const codeContent = (payload: unknown) => ({ content_type: 'code', text: JSON.stringify(payload) });
+
+        const created = withTypedMessageMetadata(
+            {},
+            {
+                content: codeContent({ name: 'fib', type: 'code/python', content: 'def fib(n): ...' }),
+                role: 'assistant',
+                recipient: 'canmore.create_textdoc',
+            },
+        );
+        const rewritten = withTypedMessageMetadata(
+            { canvas: { textdoc_id: 'doc-1', title: 'fib' } },
+            {
+                content: codeContent({ updates: [{ pattern: '.*', multiple: false, replacement: 'def fib(n): 1' }] }),
+                role: 'assistant',
+                recipient: 'canmore.update_textdoc',
+            },
+        );
+        const edited = withTypedMessageMetadata(
+            {},
+            {
+                content: codeContent({ updates: [{ pattern: 'fib', replacement: 'fibonacci' }] }),
+                role: 'assistant',
+                recipient: 'canmore.update_textdoc',
+            },
+        );
+
+        expect(created.canvas_document).toEqual({
+            id: null,
+            title: 'fib',
+            type: 'code/python',
+            content: 'def fib(n): ...',
+        });
+        expect(rewritten.canvas_document).toEqual({
+            id: 'doc-1',
+            title: 'fib',
+            type: 'document',
+            content: 'def fib(n): 1',
+        });
+        expect(edited).not.toHaveProperty('canvas_document');
+    });
+
+    it('should return metadata without anything to type unchanged', () => {
+        const metadata = { model_slug: 'gpt-4o' };
+
+        expect(
+            withTypedMessageMetadata(metadata, { content: textContent('Hi'), role: 'assistant', recipient: 'all' }),
+        ).toBe(metadata);
+    });
+});
@@ -0,0 +1,248 @@
+/**
+ * ChatGPT message metadata typing.
+ *
+ * Rewrites platform-specific message details into the shared metadata shapes
+ * the exporters read: uploads and generated images as `attachments`, web
+ * citations (`content_references`, legacy `citations`, `tether_quote`) as
+ * `sources` with their inline markers, and canvas (`canmore`) writes as
+ * `canvas_document`.
+ *
+ * @module platforms/chatgpt/message-metadata
+ */
+
+import type { Message, MessageAttachment, MessageCanvasDocument, MessageSource } from '@/utils/types';
+import { isRecord, normalizeNumber, normalizeText } from './utils';
+
+type RawMessageFields = {
+    content: unknown;
+    role: Message['author']['role'];
+    recipient: string;
+};
+
+const FILE_DOWNLOAD_PATH = '/backend-api/files/download/';
+const ASSET_POINTER_PATTERN = /^(?:file-service|sediment):\/\/(.+)$/;
+
+const toFileDownloadUrl = (fileId: string) => `${FILE_DOWNLOAD_PATH}${encodeURIComponent(fileId)}`;
+
+/** Files listed in the native `metadata.attachments` (uploads). */
+const extractUploadedFileAttachments = (metadata: Record<string, unknown>): MessageAttachment[] =>
+    (Array.isArray(metadata.attachments) ? metadata.attachments : []).filter(isRecord).flatMap((file) => {
+        const id = normalizeText(file.id);
+        if (!id) {
+            return [];
+        }
+        const mimeType = normalizeText(file.mime_type);
+        return [
+            {
+                id,
+                kind: mimeType?.startsWith('image/') ? 'image' : 'file',
+                origin: 'upload',
+                name: normalizeText(file.name),
+                mime_type: mimeType,
+                size: normalizeNumber(file.size),
+                url: toFileDownloadUrl(id),
+            },
+        ];
+    });
+
+/** `image_asset_pointer` parts: user uploads, or DALL·E / image-generation outputs. */
+const extractAssetPointerAttachments = (content: unknown, role: Message['author']['role']): MessageAttachment[] =>
+    (isRecord(content) && Array.isArray(content.parts) ? content.parts : []).filter(isRecord).flatMap((part) => {
+        const fileId =
+            part.content_type === 'image_asset_pointer'
+                ? normalizeText(part.asset_pointer)?.match(ASSET_POINTER_PATTERN)?.[1]
+                : null;
+        if (!fileId) {
+            return [];
+        }
+        return [
+            {
+                id: fileId,
+                kind: 'image',
+                origin: role === 'user' ? 'upload' : 'generated',
+                name: null,
+                mime_type: null,
+                size: normalizeNumber(part.size_bytes),
+                url: toFileDownloadUrl(fileId),
+            },
+        ];
+    });
+
+/**
+ * Rewrites `attachments` as typed `MessageAttachment` entries: uploaded files
+ * first, then image parts not already listed.
+ */
+const withMessageAttachments = (
+    metadata: Record<string, unknown>,
+    { content, role }: RawMessageFields,
+): Record<string, unknown> => {
+    const attachments = extractUploadedFileAttachments(metadata);
+    const seen = new Set(attachments.map((attachment) => attachment.id));
+    for (const attachment of extractAssetPointerAttachments(content, role)) {
+        if (!seen.has(attachment.id)) {
+            seen.add(attachment.id);
+            attachments.push(attachment);
+        }
+    }
+    return attachments.length > 0 ? { ...metadata, attachments } : metadata;
+};
+
+type CitedSource = MessageSource & { markers: string[] };
+
+const toCitedSource = (value: unknown, marker: string | null): CitedSource | null => {
+    const url = isRecord(value) ? normalizeText(value.url) : null;
+    if (!isRecord(value) || !url) {
+        return null;
+    }
+    return {
+        title: normalizeText(value.title) ?? url,
+        url,
+        snippet: normalizeText(value.snippet) ?? normalizeText(value.text) ?? '',
+        markers: marker ? [marker] : [],
+    };
+};
+
+const readReferenceMarker = (reference: Record<string, unknown>) =>
+    reference.type !== 'sources_footnote' && normalizeText(reference.matched_text)
+        ? (reference.matched_text as string)
+        : null;
+
+const readReferenceCandidates = (reference: Record<string, unknown>): unknown[] => {
+    if (Array.isArray(reference.items)) {
+        return reference.items;
+    }
+    return Array.isArray(reference.sources) ? reference.sources : [reference];
+};
+
+/** `content_references`: grouped web results, single pages and the trailing sources footnote. */
+const readContentReferenceSources = (metadata: Record<string, unknown>): CitedSource[] =>
+    (Array.isArray(metadata.content_references) ? metadata.content_references : [])
+        .filter(isRecord)
+        .flatMap((reference) => {
+            const marker = readReferenceMarker(reference);
+            return readReferenceCandidates(reference).flatMap((candidate) => toCitedSource(candidate, marker) ?? []);
+        });
+
+const joinTextParts = (content: unknown) =>
+    isRecord(content) && Array.isArray(content.parts)
+        ? content.parts.filter((part): part is string => typeof part === 'string').join('')
+        : '';
+
+/** Legacy `citations`: the marker is the `start_ix`–`end_ix` span of the message text. */
+const readLegacyCitationSources = (metadata: Record<string, unknown>, content: unknown): CitedSource[] => {
+    const citations = Array.isArray(metadata.citations) ? metadata.citations.filter(isRecord) : [];
+    const text = citations.length > 0 ? joinTextParts(content) : '';
+    return citations.flatMap((citation) => {
+        const start = normalizeNumber(citation.start_ix);
+        const end = normalizeNumber(citation.end_ix);
+        const marker = start !== null && end !== null && end > start ? text.slice(start, end) : '';
+        return toCitedSource(citation.metadata, marker || null) ?? [];
+    });
+};
+
+/** A `tether_quote` message quotes one page; it becomes that message's only source. */
+const readTetherQuoteSource = (content: unknown): CitedSource[] => {
+    const source = isRecord(content) && content.content_type === 'tether_quote' ? toCitedSource(content, null) : null;
+    return source ? [{ ...source, snippet: '' }] : [];
+};
+
+/** Merges sources citing the same URL, keeping first-citation order and every marker. */
+const mergeCitedSources = (sources: CitedSource[]): MessageSource[] => {
+    const byUrl = new Map<string, CitedSource>();
+    for (const source of sources) {
+        const existing = byUrl.get(source.url);
+        if (!existing) {
+            byUrl.set(source.url, { ...source, markers: [...source.markers] });
+            continue;
+        }
+        for (const marker of source.markers) {
+            if (!existing.markers.includes(marker)) {
+                existing.markers.push(marker);
+            }
+        }
+    }
+    return [...byUrl.values()].map(({ markers, ...source }) => (markers.length > 0 ? { ...source, markers } : source));
+};
+
+const withMessageCitations = (
+    metadata: Record<string, unknown>,
+    { content }: RawMessageFields,
+): Record<string, unknown> => {
+    const sources = mergeCitedSources([
+        ...readContentReferenceSources(metadata),
+        ...readLegacyCitationSources(metadata, content),
+        ...readTetherQuoteSource(content),
+    ]);
+    return sources.length > 0 ? { ...metadata, sources } : metadata;
+};
+
+const CANVAS_CREATE_RECIPIENT = 'canmore.create_textdoc';
+const CANVAS_UPDATE_RECIPIENT = 'canmore.update_textdoc';
+/** `update_textdoc` patterns that replace the whole document. */
+const CANVAS_REWRITE_PATTERNS = new Set(['.*', '^.*$', '(?s).*', '[\\s\\S]*', '^[\\s\\S]*$']);
+
+const parseCanvasCall = (content: unknown): Record<string, unknown> | null => {
+    const text = isRecord(content) ? normalizeText(content.text) : null;
+    if (!text) {
+        return null;
+    }
+    try {
+        const parsed: unknown = JSON.parse(text);
+        return isRecord(parsed) ? parsed : null;
+    } catch {
+        return null;
+    }
+};
+
+/** A full rewrite's replacement text; targeted edits carry no complete document. */
+const readCanvasRewrite = (call: Record<string, unknown>): string | null => {
+    const updates = Array.isArray(call.updates) ? call.updates.filter(isRecord) : [];
+    const [update] = updates;
+    const pattern = update ? normalizeText(update.pattern) : null;
+    return updates.length === 1 &&
+        pattern &&
+        CANVAS_REWRITE_PATTERNS.has(pattern) &&
+        typeof update.replacement === 'string'
+        ? update.replacement
+        : null;
+};
+
+const readCanvasDocument = (
+    metadata: Record<string, unknown>,
+    { content, recipient }: RawMessageFields,
+): MessageCanvasDocument | null => {
+    const call =
+        recipient === CANVAS_CREATE_RECIPIENT || recipient === CANVAS_UPDATE_RECIPIENT
+            ? parseCanvasCall(content)
+            : null;
+    if (!call) {
+        return null;
+    }
+    const canvas = isRecord(metadata.canvas) ? metadata.canvas : {};
+    const documentContent = recipient === CANVAS_CREATE_RECIPIENT ? call.content : readCanvasRewrite(call);
+    if (typeof documentContent !== 'string') {
+        return null;
+    }
+    return {
+        id: normalizeText(canvas.textdoc_id),
+        title: normalizeText(call.name) ?? normalizeText(canvas.title) ?? 'Canvas',
+        type: normalizeText(call.type) ?? normalizeText(canvas.textdoc_type) ?? 'document',
+        content: documentContent,
+    };
+};
+
+const withCanvasDocument = (metadata: Record<string, unknown>, fields: RawMessageFields): Record<string, unknown> => {
+    const canvasDocument = readCanvasDocument(metadata, fields);
+    return canvasDocument ? { ...metadata, canvas_document: canvasDocument } : metadata;
+};
+
+/**
+ * Returns the message metadata with attachments, citations and canvas writes
+ * typed for export. Metadata with none of them is returned unchanged (same
+ * object), so callers can tell whether anything was added.
+ */
+export const withTypedMessageMetadata = (
+    metadata: Record<string, unknown>,
+    fields: RawMessageFields,
+): Record<string, unknown> =>
+    withCanvasDocument(withMessageCitations(withMessageAttachments(metadata, fields), fields), fields);
@@ -7,14 +7,19 @@
  */
 
 import type { Message, MessageContent } from '@/utils/types';
+import { withTypedMessageMetadata } from './message-metadata';
 import { isRecord, normalizeNumber, normalizeText } from './utils';
 
 export const normalizeContentType = (value: unknown): MessageContent['content_type'] => {
     switch (value) {
+        case 'multimodal_text':
         case 'thoughts':
         case 'reasoning_recap':
         case 'code':
         case 'execution_output':
+        case 'tether_quote':
+        case 'tether_browsing_display':
+        case 'system_error':
             return value;
         default:
             return 'text';
@@ -51,11 +56,22 @@ export const normalizeMessageContent = (value: unknown): MessageContent => {
               }))
         : undefined;
 
+    const optionalString = (field: string) => {
+        const fieldValue = value[field];
+        return typeof fieldValue === 'string' ? fieldValue : undefined;
+    };
+
     return {
         content_type: contentType,
         parts: parts.length > 0 ? parts : undefined,
         thoughts,
         content: normalizeText(value.content) ?? undefined,
+        text: optionalString('text'),
+        language: optionalString('language'),
+        title: optionalString('title'),
+        url: optionalString('url'),
+        domain: optionalString('domain'),
+        result: optionalString('result'),
     };
 };
 
@@ -81,11 +97,13 @@ export const normalizeMessage = (rawMessage: unknown): Message | null => {
 
     const endTurn = typeof rawMessage.end_turn === 'boolean' ? rawMessage.end_turn : null;
     const weight = normalizeNumber(rawMessage.weight) ?? 1;
+    const role = normalizeAuthorRole(authorValue.role);
+    const recipient = normalizeText(rawMessage.recipient) ?? 'all';
 
     return {
         id: messageId,
         author: {
-            role: normalizeAuthorRole(authorValue.role),
+            role,
             name: normalizeText(authorValue.name),
             metadata: isRecord(authorValue.metadata) ? authorValue.metadata : {},
         },
@@ -95,8 +113,12 @@ export const normalizeMessage = (rawMessage: unknown): Message | null => {
         status,
         end_turn: endTurn,
         weight,
-        metadata: isRecord(rawMessage.metadata) ? rawMessage.metadata : {},
-        recipient: normalizeText(rawMessage.recipient) ?? 'all',
+        metadata: withTypedMessageMetadata(isRecord(rawMessage.metadata) ? rawMessage.metadata : {}, {
+            content: rawMessage.content,
+            role,
+            recipient,
+        }),
+        recipient,
         channel: normalizeText(rawMessage.channel),
     };
 };
@@ -1,4 +1,5 @@
 import { logger } from '@/utils/logger';
+import { chatGptDescriptor } from './descriptor';
 
 const BUTTON_TARGET_MISS_LOG_INTERVAL_MS = 8_000;
 let lastButtonTargetMissAt = 0;
@@ -11,27 +12,9 @@ const getNormalizedPath = (url: string) => {
     }
 };
 
-export const CHATGPT_ENDPOINT_REGISTRY = {
-    promptRequestPathPattern: /\/backend-api\/(?:f\/)?conversation(?:\?.*)?$/i,
-    apiEndpointPattern:
-        /(?:backend-api\/conversations(?:\?.*)?$|backend-api\/conversation\/[a-f0-9-]+(?:\/)?(?:\?.*)?$|backend-api\/f\/conversation(?:\/[a-f0-9-]+)?(?:\/)?(?:\?.*)?$)/i,
-    completionTriggerPattern: /backend-api\/(?:f\/)?conversation\/[a-f0-9-]+\/stream_status(?:\?.*)?$/i,
-} as const;
+export const CHATGPT_ENDPOINT_REGISTRY = chatGptDescriptor.endpoints;
 
-export const CHATGPT_SELECTOR_REGISTRY = {
-    buttonInjectionTargets: [
-        '[data-testid="model-switcher-dropdown-button"]',
-        'header nav',
-        '.flex.items-center.justify-between',
-        'header .flex',
-    ],
-    generationIndicators: [
-        'button[data-testid="stop-button"]',
-        'button[aria-label*="Stop generating"]',
-        'button[aria-label*="Stop response"]',
-        '[data-is-streaming="true"]',
-    ],
-} as const;
+export const CHATGPT_SELECTOR_REGISTRY = chatGptDescriptor.selectors;
 
 const maybeLogButtonTargetMiss = () => {
     const now = Date.now();
@@ -0,0 +1 @@
+export const DEFAULT_CLAUDE_MODEL_SLUG = 'claude';
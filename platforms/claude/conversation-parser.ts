@@ -0,0 +1,262 @@
+import type { ConversationData, Message, MessageContent, MessageNode } from '@/utils/types';
+import { DEFAULT_CLAUDE_MODEL_SLUG } from './constants';
+import { CLAUDE_DEFAULT_TITLES } from './registry';
+import { claudeState } from './state';
+import { CLAUDE_ROOT_PARENT_UUID, CLAUDE_UUID_PATTERN } from './url-utils';
+
+type ClaudeThought = NonNullable<MessageContent['thoughts']>[number];
+
+export type ClaudeMessageInput = {
+    id: string;
+    role: 'user' | 'assistant';
+    text: string;
+    thoughts: ClaudeThought[];
+    createTime: number | null;
+    updateTime: number | null;
+    status: Message['status'];
+    endTurn: boolean | null;
+    metadata: Record<string, unknown>;
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+    value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+
+const readString = (record: Record<string, unknown> | null, key: string): string | null => {
+    const value = record?.[key];
+    return typeof value === 'string' ? value : null;
+};
+
+export const tryParseClaudeJson = (data: unknown): unknown => {
+    if (typeof data !== 'string') {
+        return data;
+    }
+    try {
+        return JSON.parse(data);
+    } catch {
+        return null;
+    }
+};
+
+/** ISO-8601 timestamp to epoch seconds. */
+export const parseClaudeTimestamp = (value: unknown): number | null => {
+    if (typeof value !== 'string') {
+        return null;
+    }
+    const ms = Date.parse(value);
+    return Number.isFinite(ms) ? ms / 1000 : null;
+};
+
+export const getClaudeRootNodeId = (conversationId: string) => `claude-root-${conversationId}`;
+
+/** Latest non-empty summary of a thinking block, empty when Claude produced none. */
+export const resolveClaudeThinkingSummary = (summaries: unknown): string => {
+    if (!Array.isArray(summaries)) {
+        return '';
+    }
+    for (let index = summaries.length - 1; index >= 0; index -= 1) {
+        const summary = readString(asRecord(summaries[index]), 'summary')?.trim();
+        if (summary) {
+            return summary;
+        }
+    }
+    return '';
+};
+
+const collectContentBlock = (item: unknown, texts: string[], thoughts: ClaudeThought[]) => {
+    const block = asRecord(item);
+    const type = readString(block, 'type');
+    if (type === 'text') {
+        const text = readString(block, 'text') ?? '';
+        if (text.trim()) {
+            texts.push(text);
+        }
+        return;
+    }
+    if (type !== 'thinking') {
+        return;
+    }
+    const thinking = readString(block, 'thinking') ?? '';
+    if (thinking.trim()) {
+        thoughts.push({
+            summary: resolveClaudeThinkingSummary(block?.summaries),
+            content: thinking,
+            chunks: [],
+            finished: true,
+        });
+    }
+};
+
+/**
+ * Splits Claude content blocks into visible text and reasoning. Text blocks separated
+ * by tool calls are joined with blank lines; tool blocks themselves are dropped.
+ */
+export const extractClaudeContentParts = (content: unknown, fallbackText = '') => {
+    const texts: string[] = [];
+    const thoughts: ClaudeThought[] = [];
+    if (Array.isArray(content)) {
+        for (const item of content) {
+            collectContentBlock(item, texts, thoughts);
+        }
+    }
+    return { text: texts.length > 0 ? texts.join('\n\n') : fallbackText, thoughts };
+};
+
+export const buildClaudeMessage = (input: ClaudeMessageInput): Message => ({
+    id: input.id,
+    author: { role: input.role, name: null, metadata: {} },
+    create_time: input.createTime,
+    update_time: input.updateTime,
+    content:
+        input.thoughts.length > 0
+            ? { content_type: 'thoughts', parts: [input.text], thoughts: input.thoughts }
+            : { content_type: 'text', parts: [input.text] },
+    status: input.status,
+    end_turn: input.endTurn,
+    weight: 1,
+    metadata: input.metadata,
+    recipient: 'all',
+    channel: null,
+});
+
+export const createClaudeConversationShell = (
+    conversationId: string,
+    overrides: Partial<Pick<ConversationData, 'title' | 'create_time' | 'update_time' | 'default_model_slug'>> = {},
+): ConversationData => {
+    const rootId = getClaudeRootNodeId(conversationId);
+    const nowSeconds = Date.now() / 1000;
+    return {
+        title: claudeState.conversationTitles.get(conversationId) ?? CLAUDE_DEFAULT_TITLES[0],
+        create_time: nowSeconds,
+        update_time: nowSeconds,
+        mapping: {
+            [rootId]: { id: rootId, message: null, parent: null, children: [] },
+        },
+        conversation_id: conversationId,
+        current_node: rootId,
+        moderation_results: [],
+        plugin_ids: null,
+        gizmo_id: null,
+        gizmo_type: null,
+        is_archived: false,
+        default_model_slug: DEFAULT_CLAUDE_MODEL_SLUG,
+        safe_urls: [],
+        blocked_urls: [],
+        ...overrides,
+    };
+};
+
+export const attachClaudeNode = (conversation: ConversationData, node: MessageNode) => {
+    conversation.mapping[node.id] = node;
+    const parent = node.parent ? conversation.mapping[node.parent] : undefined;
+    if (parent && !parent.children.includes(node.id)) {
+        parent.children.push(node.id);
+    }
+};
+
+const sortChatMessages = (messages: Record<string, unknown>[]) =>
+    messages.every((message) => typeof message.index === 'number')
+        ? [...messages].sort((left, right) => (left.index as number) - (right.index as number))
+        : messages;
+
+/**
+ * Resolves a message's parent. Tree-rendered payloads carry `parent_message_uuid`;
+ * older linear payloads do not, so those chain each message to the previous one.
+ */
+const resolveParentId = (
+    message: Record<string, unknown>,
+    previousId: string | null,
+    knownIds: Set<string>,
+    rootId: string,
+) => {
+    if (!('parent_message_uuid' in message)) {
+        return previousId ?? rootId;
+    }
+    const parentUuid = readString(message, 'parent_message_uuid');
+    if (!parentUuid || parentUuid === CLAUDE_ROOT_PARENT_UUID || !knownIds.has(parentUuid)) {
+        return rootId;
+    }
+    return parentUuid;
+};
+
+const toClaudeMessage = (message: Record<string, unknown>, model: string): Message | null => {
+    const id = readString(message, 'uuid');
+    if (!id) {
+        return null;
+    }
+    const role = readString(message, 'sender') === 'human' ? 'user' : 'assistant';
+    const { text, thoughts } = extractClaudeContentParts(message.content, readString(message, 'text') ?? '');
+    const stopReason = readString(message, 'stop_reason');
+    return buildClaudeMessage({
+        id,
+        role,
+        text,
+        thoughts,
+        createTime: parseClaudeTimestamp(message.created_at),
+        updateTime: parseClaudeTimestamp(message.updated_at),
+        status: 'finished_successfully',
+        endTurn: role === 'assistant' ? true : null,
+        metadata: role === 'assistant' ? { model_slug: model, ...(stopReason ? { stop_reason: stopReason } : {}) } : {},
+    });
+};
+
+const rememberTitle = (conversationId: string, title: string) => {
+    if (!(CLAUDE_DEFAULT_TITLES as readonly string[]).includes(title)) {
+        claudeState.conversationTitles.set(conversationId, title);
+    }
+};
+
+/**
+ * Parses a `chat_conversations/{uuid}` payload into ConversationData. Returns `null`
+ * for conversations without messages yet (the title is still cached).
+ */
+export const parseClaudeConversationPayload = (data: unknown): ConversationData | null => {
+    const record = asRecord(tryParseClaudeJson(data));
+    const conversationId = readString(record, 'uuid');
+    if (!record || !conversationId || !CLAUDE_UUID_PATTERN.test(conversationId)) {
+        return null;
+    }
+
+    const name = readString(record, 'name')?.trim();
+    if (name) {
+        rememberTitle(conversationId, name);
+    }
+    const rawMessages = Array.isArray(record.chat_messages)
+        ? record.chat_messages.map(asRecord).filter((message): message is Record<string, unknown> => !!message)
+        : [];
+    if (rawMessages.length === 0) {
+        return null;
+    }
+
+    const model = readString(record, 'model') || DEFAULT_CLAUDE_MODEL_SLUG;
+    const createTime = parseClaudeTimestamp(record.created_at);
+    const updateTime = parseClaudeTimestamp(record.updated_at);
+    const conversation = createClaudeConversationShell(conversationId, {
+        ...(name ? { title: name } : {}),
+        ...(createTime !== null ? { create_time: createTime } : {}),
+        ...(updateTime !== null ? { update_time: updateTime } : {}),
+        default_model_slug: model,
+    });
+    const rootId = getClaudeRootNodeId(conversationId);
+    const knownIds = new Set<string>();
+    let previousId: string | null = null;
+
+    for (const rawMessage of sortChatMessages(rawMessages)) {
+        const message = toClaudeMessage(rawMessage, model);
+        if (!message) {
+            continue;
+        }
+        attachClaudeNode(conversation, {
+            id: message.id,
+            message,
+            parent: resolveParentId(rawMessage, previousId, knownIds, rootId),
+            children: [],
+        });
+        knownIds.add(message.id);
+        previousId = message.id;
+    }
+
+    const leafId = readString(record, 'current_leaf_message_uuid');
+    conversation.current_node = leafId && knownIds.has(leafId) ? leafId : (previousId ?? rootId);
+    claudeState.activeConversations.set(conversationId, conversation);
+    return conversation;
+};
@@ -0,0 +1,46 @@
+import type { PlatformDescriptor } from '@/platforms/types';
+
+/**
+ * Claude platform descriptor: hosts, endpoints, selectors and capture
+ * settings consumed through `platforms/descriptors.ts`.
+ */
+export const claudeDescriptor = {
+    name: 'Claude',
+    parserId: 'claude',
+    hosts: ['claude.ai'],
+    urlMatchPatterns: ['https://claude.ai/*'],
+    streamProtocol: 'sse',
+    endpoints: {
+        apiEndpointPattern:
+            /\/api\/organizations\/[^/?#]+\/chat_conversations\/[a-f0-9-]{36}(?:\/(?:completion|retry_completion))?(?:[?#]|$)/i,
+        completionTriggerPattern:
+            /\/api\/organizations\/[^/?#]+\/chat_conversations\/[a-f0-9-]{36}\/(?:completion|retry_completion)(?:[?#]|$)/i,
+    },
+    signals: {
+        lifecycleEndpoints: ['completionTriggerPattern'],
+        completionEndpoints: ['apiEndpointPattern'],
+        completionRequiresReadiness: true,
+        streamingOnRequest: true,
+    },
+    apiHintMarkers: ['/api/organizations/'],
+    selectors: {
+        buttonInjectionTargets: [
+            '[data-testid="chat-actions"]',
+            'header [data-testid="chat-menu-trigger"]',
+            'header',
+            'body',
+        ],
+        domTitleCandidates: ['[data-testid="chat-menu-trigger"]', 'header h1'],
+        generatingIndicators: ['[data-is-streaming="true"]', 'button[aria-label="Stop response"]'],
+    },
+    defaultTitles: ['New chat', 'Untitled'],
+    capturesPromptHints: true,
+    passiveCaptureWaitMs: 2500,
+    bulkExport: {
+        strategy: 'claude',
+        listEndpoint:
+            'https://{host}/api/organizations/{organizationId}/chat_conversations?limit={limit}&offset={offset}',
+        accountEndpoint: 'https://{host}/api/organizations',
+        detailEndpoints: [],
+    },
+} as const satisfies PlatformDescriptor;
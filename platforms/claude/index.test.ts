@@ -0,0 +1,192 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, mock } from 'bun:test';
+import { join } from 'node:path';
+import { extractActiveMessageChain } from '@/utils/conversation-inspection';
+import type { ConversationData } from '@/utils/types';
+
+mock.module('@/utils/logger', () => ({
+    logger: { info: () => {}, warn: () => {}, error: () => {}, debug: () => {} },
+}));
+
+const ORG_ID = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d';
+const CONV_ID = '4f1c2a9e-7b3d-4e8a-9c61-2d5f8e0a1b37';
+const DETAIL_URL = `https://claude.ai/api/organizations/${ORG_ID}/chat_conversations/${CONV_ID}?tree=True&rendering_mode=messages&render_all_tools=true`;
+const COMPLETION_URL = `https://claude.ai/api/organizations/${ORG_ID}/chat_conversations/${CONV_ID}/completion`;
+
+const messageText = (data: ConversationData | null, id: string) => data?.mapping[id]?.message?.content.parts?.[0];
+
+describe('Claude Adapter — integration', () => {
+    let conversationRaw: string;
+    let completionRaw: string;
+    let claudeAdapter: any;
+    let resetClaudeAdapterState: () => void;
+
+    beforeAll(async () => {
+        const module = await import('@/platforms/claude');
+        claudeAdapter = module.claudeAdapter;
+        resetClaudeAdapterState = module.resetClaudeAdapterState;
+
+        conversationRaw = await Bun.file(
+            join(import.meta.dir, '..', '..', 'data', 'claude', 'sample_claude_conversation.json'),
+        ).text();
+        completionRaw = await Bun.file(
+            join(import.meta.dir, '..', '..', 'data', 'claude', 'sample_claude_completion_stream.txt'),
+        ).text();
+    });
+
+    const originalDocument = (globalThis as { document?: unknown }).document;
+
+    const installDocument = (fields: { title?: string; cookie?: string; elements?: Record<string, string> } = {}) => {
+        (globalThis as { document?: unknown }).document = {
+            title: fields.title ?? '',
+            cookie: fields.cookie ?? '',
+            querySelector: (selector: string) =>
+                fields.elements?.[selector] === undefined ? null : { textContent: fields.elements[selector] },
+        };
+    };
+
+    beforeEach(() => {
+        resetClaudeAdapterState();
+        installDocument();
+    });
+
+    afterEach(() => {
+        (globalThis as { document?: unknown }).document = originalDocument;
+    });
+
+    it('should identify claude.ai pages and extract chat IDs', () => {
+        expect(claudeAdapter.isPlatformUrl(`https://claude.ai/chat/${CONV_ID}`)).toBeTrue();
+        expect(claudeAdapter.isPlatformUrl('https://anthropic.com')).toBeFalse();
+        expect(claudeAdapter.extractConversationId(`https://claude.ai/chat/${CONV_ID}?q=1`)).toBe(CONV_ID);
+        expect(claudeAdapter.extractConversationId('https://claude.ai/new')).toBeNull();
+        expect(claudeAdapter.extractConversationId('https://claude.ai/chat/not-a-uuid')).toBeNull();
+        expect(claudeAdapter.extractConversationIdFromUrl(COMPLETION_URL)).toBe(CONV_ID);
+    });
+
+    it('should match detail and completion endpoints but not list or title endpoints', () => {
+        const pattern: RegExp = claudeAdapter.apiEndpointPattern;
+        expect(pattern.test(DETAIL_URL)).toBeTrue();
+        expect(pattern.test(COMPLETION_URL)).toBeTrue();
+        expect(pattern.test(`/api/organizations/${ORG_ID}/chat_conversations/${CONV_ID}/retry_completion`)).toBeTrue();
+        expect(pattern.test(`https://claude.ai/api/organizations/${ORG_ID}/chat_conversations?limit=30`)).toBeFalse();
+        expect(pattern.test(`https://claude.ai/api/organizations/${ORG_ID}/chat_conversations/${CONV_ID}/title`)).toBe(
+            false,
+        );
+    });
+
+    it('should parse the conversation tree, thinking blocks and the active branch', () => {
+        const data: ConversationData = claudeAdapter.parseInterceptedData(conversationRaw, DETAIL_URL);
+
+        expect(data.conversation_id).toBe(CONV_ID);
+        expect(data.title).toBe('Tides and the Moon');
+        expect(data.default_model_slug).toBe('claude-sonnet-4-5-20250929');
+        expect(data.current_node).toBe('c3d4e5f6-a7b8-4c9d-8e0f-1a2b3c4d5e6f');
+        expect(data.create_time).toBeCloseTo(Date.parse('2025-11-03T09:14:02.118405Z') / 1000);
+
+        const firstReply = data.mapping['1b2c3d4e-5f6a-4b7c-9d8e-0f1a2b3c4d5e'];
+        expect(firstReply?.children).toEqual([
+            '2c3d4e5f-6a7b-4c8d-8e9f-0a1b2c3d4e5f',
+            'b2c3d4e5-f6a7-4b8c-9d0e-1f2a3b4c5d6e',
+        ]);
+        expect(firstReply?.message?.content.content_type).toBe('thoughts');
+        expect(firstReply?.message?.content.thoughts?.[0]?.summary).toBe('Explaining the two tidal bulges.');
+        expect(firstReply?.message?.metadata).toEqual({
+            model_slug: 'claude-sonnet-4-5-20250929',
+            stop_reason: 'stop_sequence',
+        });
+
+        expect(extractActiveMessageChain(data).map((message) => message.author.role)).toEqual([
+            'user',
+            'assistant',
+            'user',
+            'assistant',
+        ]);
+        expect(messageText(data, 'c3d4e5f6-a7b8-4c9d-8e0f-1a2b3c4d5e6f')).toBe(
+            "The Sun's tidal force is about 46% of the Moon's.\n\nWhen they line up at new and full moon you get larger spring tides; at quarter moons they partly cancel into neap tides.",
+        );
+        expect(claudeAdapter.evaluateReadiness(data).ready).toBeTrue();
+    });
+
+    it('should chain linear payloads without parent uuids in order', () => {
+        const payload = {
+            uuid: CONV_ID,
+            name: '',
+            chat_messages: [
+                { uuid: 'm1', sender: 'human', text: 'Hi' },
+                { uuid: 'm2', sender: 'assistant', text: 'Hello!' },
+            ],
+        };
+        const data: ConversationData = claudeAdapter.parseInterceptedData(JSON.stringify(payload), DETAIL_URL);
+
+        expect(data.title).toBe('New chat');
+        expect(data.mapping.m2?.parent).toBe('m1');
+        expect(messageText(data, 'm2')).toBe('Hello!');
+    });
+
+    it('should return null for conversations without messages but keep their title', () => {
+        const payload = JSON.stringify({ uuid: CONV_ID, name: 'Fresh chat', chat_messages: [] });
+        expect(claudeAdapter.parseInterceptedData(payload, DETAIL_URL)).toBeNull();
+
+        const data: ConversationData = claudeAdapter.parseInterceptedData(completionRaw, COMPLETION_URL);
+        expect(data.title).toBe('Fresh chat');
+    });
+
+    it('should merge a completion stream into the cached conversation', () => {
+        claudeAdapter.parseInterceptedData(conversationRaw, DETAIL_URL);
+        const stream = completionRaw.replace(
+            'd4e5f6a7-b8c9-4d0e-8f1a-2b3c4d5e6f7a',
+            'c3d4e5f6-a7b8-4c9d-8e0f-1a2b3c4d5e6f',
+        );
+        const data: ConversationData = claudeAdapter.parseInterceptedData(stream, COMPLETION_URL);
+
+        const streamedId = 'e5f6a7b8-c9d0-4e1f-8a2b-3c4d5e6f7a8b';
+        expect(data.current_node).toBe(streamedId);
+        expect(data.mapping[streamedId]?.parent).toBe('c3d4e5f6-a7b8-4c9d-8e0f-1a2b3c4d5e6f');
+        expect(messageText(data, streamedId)).toBe(
+            'A neap tide is the smallest tidal range, seen when the Sun and Moon are at right angles.',
+        );
+        expect(data.mapping[streamedId]?.message?.content.thoughts?.[0]).toMatchObject({
+            summary: 'Defining neap tides.',
+            content: 'The user wants a short definition of a neap tide.',
+            finished: true,
+        });
+        expect(claudeAdapter.evaluateReadiness(data).ready).toBeTrue();
+    });
+
+    it('should keep an empty slot for an unseen prompt so the prompt hint can fill it', () => {
+        const data: ConversationData = claudeAdapter.parseInterceptedData(completionRaw, COMPLETION_URL);
+        const prompt = data.mapping['d4e5f6a7-b8c9-4d0e-8f1a-2b3c4d5e6f7a'];
+
+        expect(prompt?.message).toBeNull();
+        expect(prompt?.children).toEqual(['e5f6a7b8-c9d0-4e1f-8a2b-3c4d5e6f7a8b']);
+        expect(prompt?.parent).toBe(`claude-root-${CONV_ID}`);
+    });
+
+    it('should build detail URLs from the intercepted organization or the lastActiveOrg cookie', () => {
+        expect(claudeAdapter.buildApiUrls(CONV_ID)).toEqual([]);
+
+        installDocument({ cookie: `theme=dark; lastActiveOrg=${ORG_ID}` });
+        expect(claudeAdapter.buildApiUrls(CONV_ID)).toEqual([DETAIL_URL]);
+
+        const otherOrg = '11111111-2222-4333-8444-555555555555';
+        claudeAdapter.parseInterceptedData(conversationRaw, DETAIL_URL.replace(ORG_ID, otherOrg));
+        expect(claudeAdapter.buildApiUrls(CONV_ID)).toEqual([DETAIL_URL.replace(ORG_ID, otherOrg)]);
+        expect(claudeAdapter.buildApiUrls('not-a-uuid')).toEqual([]);
+    });
+
+    it('should resolve titles from document.title before header candidates', () => {
+        installDocument({ title: 'Tides and the Moon - Claude' });
+        expect(claudeAdapter.extractTitleFromDom()).toBe('Tides and the Moon');
+
+        installDocument({ title: 'Claude', elements: { '[data-testid="chat-menu-trigger"]': ' Header  title ' } });
+        expect(claudeAdapter.extractTitleFromDom()).toBe('Header title');
+
+        installDocument({ title: 'Claude', elements: { '[data-testid="chat-menu-trigger"]': 'New chat' } });
+        expect(claudeAdapter.extractTitleFromDom()).toBeNull();
+    });
+
+    it('should format filenames from the title or the conversation id', () => {
+        const data = claudeAdapter.parseInterceptedData(conversationRaw, DETAIL_URL);
+        expect(claudeAdapter.formatFilename(data)).toStartWith('Tides_and_the_Moon_');
+        expect(claudeAdapter.formatFilename({ ...data, title: '' })).toStartWith('claude_conversation_4f1c2a9e_');
+    });
+});
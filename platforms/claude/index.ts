@@ -0,0 +1,181 @@
+/**
+ * Claude Platform Adapter
+ *
+ * Supports claude.ai conversations across:
+ * - chat_conversations/{uuid} (full tree JSON, `tree=True&rendering_mode=messages`)
+ * - chat_conversations/{uuid}/completion and retry_completion (SSE generation stream)
+ */
+
+import type { LLMPlatform } from '@/platforms/types';
+import { evaluateActiveChainReadiness } from '@/utils/conversation-readiness';
+import { generateTimestamp, sanitizeFilename } from '@/utils/download';
+import { logger } from '@/utils/logger';
+import type { ConversationData } from '@/utils/types';
+import { parseClaudeConversationPayload } from './conversation-parser';
+import { claudeDescriptor } from './descriptor';
+import { extractClaudePromptFromRequestBody } from './prompt-extractor';
+import {
+    CLAUDE_DEFAULT_TITLES,
+    CLAUDE_ENDPOINT_REGISTRY,
+    CLAUDE_SELECTOR_REGISTRY,
+    isClaudeCompletionEndpointUrl,
+    isClaudeGeneratingInDom,
+    resolveClaudeButtonInjectionTarget,
+} from './registry';
+import { mergeClaudeCompletionIntoConversation, parseClaudeCompletionStream } from './sse-parser';
+import { claudeState } from './state';
+import {
+    buildClaudeConversationApiUrl,
+    CLAUDE_UUID_PATTERN,
+    extractClaudeConversationIdFromApiUrl,
+    extractClaudeOrganizationIdFromUrl,
+    resolveClaudeOrganizationId,
+} from './url-utils';
+
+export { ClaudeAdapterState, claudeState, resetClaudeAdapterState } from './state';
+
+const MAX_TITLE_LENGTH = 80;
+const CLAUDE_GENERIC_DOM_TITLES = new Set(['claude']);
+
+const normalizeDomTitle = (value: string | null | undefined): string => value?.replace(/\s+/g, ' ').trim() ?? '';
+
+const normalizeClaudeDomTitleCandidate = (raw: string, defaultTitles: readonly string[]): string | null => {
+    const normalized = normalizeDomTitle(raw);
+    if (!normalized) {
+        return null;
+    }
+    const lower = normalized.toLowerCase();
+    if (CLAUDE_GENERIC_DOM_TITLES.has(lower)) {
+        return null;
+    }
+    if (defaultTitles.some((title) => normalizeDomTitle(title).toLowerCase() === lower)) {
+        return null;
+    }
+    return normalized;
+};
+
+const queryClaudeTitleFromDom = (defaultTitles: readonly string[]): string | null => {
+    for (const selector of CLAUDE_SELECTOR_REGISTRY.domTitleCandidates) {
+        const normalized = normalizeClaudeDomTitleCandidate(
+            document.querySelector(selector)?.textContent ?? '',
+            defaultTitles,
+        );
+        if (normalized) {
+            return normalized;
+        }
+    }
+    return null;
+};
+
+const isClaudeHost = (hostname: string) => hostname === 'claude.ai' || hostname.endsWith('.claude.ai');
+
+const parseCompletionPayload = (data: unknown, conversationId: string | null): ConversationData | null => {
+    if (typeof data !== 'string' || !conversationId) {
+        return null;
+    }
+    const snapshot = parseClaudeCompletionStream(data);
+    return snapshot ? mergeClaudeCompletionIntoConversation(conversationId, snapshot) : null;
+};
+
+export const claudeAdapter: LLMPlatform = {
+    name: claudeDescriptor.name,
+    urlMatchPattern: claudeDescriptor.urlMatchPatterns[0],
+
+    apiEndpointPattern: CLAUDE_ENDPOINT_REGISTRY.apiEndpointPattern,
+    completionTriggerPattern: CLAUDE_ENDPOINT_REGISTRY.completionTriggerPattern,
+
+    isPlatformUrl(url: string): boolean {
+        try {
+            return isClaudeHost(new URL(url).hostname);
+        } catch {
+            return false;
+        }
+    },
+
+    extractConversationId(url: string): string | null {
+        try {
+            const urlObj = new URL(url);
+            if (!isClaudeHost(urlObj.hostname)) {
+                return null;
+            }
+            const conversationId = urlObj.pathname.match(/^\/chat\/([^/?#]+)/)?.[1] ?? null;
+            return conversationId && CLAUDE_UUID_PATTERN.test(conversationId) ? conversationId : null;
+        } catch {
+            return null;
+        }
+    },
+
+    extractConversationIdFromUrl(url: string): string | null {
+        return extractClaudeConversationIdFromApiUrl(url);
+    },
+
+    buildApiUrls(conversationId: string): string[] {
+        const organizationId = resolveClaudeOrganizationId();
+        if (!organizationId || !CLAUDE_UUID_PATTERN.test(conversationId)) {
+            return [];
+        }
+        return [buildClaudeConversationApiUrl(organizationId, conversationId)];
+    },
+
+    extractPromptFromRequestBody(body: unknown): string | null {
+        return extractClaudePromptFromRequestBody(body);
+    },
+
+    parseInterceptedData(data: string | any, url: string): ConversationData | null {
+        const organizationId = extractClaudeOrganizationIdFromUrl(url);
+        if (organizationId) {
+            claudeState.organizationId = organizationId;
+        }
+        const conversationId = extractClaudeConversationIdFromApiUrl(url);
+        logger.info('[Blackiya/Claude] parseInterceptedData entry', {
+            conversationId,
+            completion: isClaudeCompletionEndpointUrl(url),
+            dataLen: typeof data === 'string' ? data.length : -1,
+        });
+
+        if (isClaudeCompletionEndpointUrl(url)) {
+            return parseCompletionPayload(data, conversationId);
+        }
+        return parseClaudeConversationPayload(data);
+    },
+
+    formatFilename(data: ConversationData): string {
+        let title = data.title || '';
+        if (!title.trim()) {
+            const idPart =
+                data.conversation_id && data.conversation_id.length >= 8
+                    ? data.conversation_id.slice(0, 8)
+                    : data.conversation_id || 'unknown';
+            title = `claude_conversation_${idPart}`;
+        }
+        const sanitizedTitle = sanitizeFilename(title).slice(0, MAX_TITLE_LENGTH);
+        const timestamp = generateTimestamp(data.update_time || data.create_time);
+        return `${sanitizedTitle}_${timestamp}`;
+    },
+
+    getButtonInjectionTarget(): HTMLElement | null {
+        return resolveClaudeButtonInjectionTarget();
+    },
+
+    evaluateReadiness(data: ConversationData) {
+        return evaluateActiveChainReadiness(data);
+    },
+
+    isPlatformGenerating() {
+        return isClaudeGeneratingInDom();
+    },
+
+    defaultTitles: CLAUDE_DEFAULT_TITLES,
+
+    extractTitleFromDom(): string | null {
+        const defaultTitles = this.defaultTitles ?? [];
+        const titleFromPage = normalizeClaudeDomTitleCandidate(
+            normalizeDomTitle(document.title).replace(/\s*-\s*Claude$/i, ''),
+            defaultTitles,
+        );
+        if (titleFromPage) {
+            return titleFromPage;
+        }
+        return queryClaudeTitleFromDom(defaultTitles);
+    },
+};
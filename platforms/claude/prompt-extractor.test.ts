@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'bun:test';
+import { extractClaudePromptFromRequestBody } from '@/platforms/claude/prompt-extractor';
+
+describe('extractClaudePromptFromRequestBody', () => {
+    it('should return the trimmed prompt from a completion body', () => {
+        const body = JSON.stringify({ prompt: '  What is a neap tide?  ', parent_message_uuid: 'p', attachments: [] });
+        expect(extractClaudePromptFromRequestBody(body)).toBe('What is a neap tide?');
+    });
+
+    it('should return null for retry bodies, blank prompts and non-JSON bodies', () => {
+        expect(extractClaudePromptFromRequestBody(JSON.stringify({ parent_message_uuid: 'p' }))).toBeNull();
+        expect(extractClaudePromptFromRequestBody(JSON.stringify({ prompt: '   ' }))).toBeNull();
+        expect(extractClaudePromptFromRequestBody('not json')).toBeNull();
+        expect(extractClaudePromptFromRequestBody(new Blob(['x']))).toBeNull();
+    });
+});
@@ -0,0 +1,29 @@
+/**
+ * Claude Prompt Extractor
+ *
+ * Extracts the user's prompt from the JSON body POSTed to
+ * `chat_conversations/{uuid}/completion`:
+ *
+ *   { "prompt": "<user_prompt_text>", "parent_message_uuid": "...", "attachments": [], ... }
+ *
+ * `retry_completion` bodies carry no prompt and yield `null`.
+ *
+ * @module platforms/claude/prompt-extractor
+ */
+
+export const extractClaudePromptFromRequestBody = (body: unknown): string | null => {
+    if (typeof body !== 'string' || body.length === 0) {
+        return null;
+    }
+    try {
+        const parsed: unknown = JSON.parse(body);
+        const prompt = parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>).prompt : undefined;
+        if (typeof prompt !== 'string') {
+            return null;
+        }
+        const trimmed = prompt.trim();
+        return trimmed.length > 0 ? trimmed : null;
+    } catch {
+        return null;
+    }
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    isClaudeCompletionEndpointUrl,
+    isClaudeConversationEndpointUrl,
+    isClaudeGeneratingInDom,
+    isLikelyClaudeApiPath,
+    resolveClaudeButtonInjectionTarget,
+} from '@/platforms/claude/registry';
+
+const BASE = '/api/organizations/9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d/chat_conversations';
+const CONV = '4f1c2a9e-7b3d-4e8a-9c61-2d5f8e0a1b37';
+
+describe('claude registry', () => {
+    it('should classify completion and conversation endpoints, including relative URLs', () => {
+        expect(isClaudeCompletionEndpointUrl(`https://claude.ai${BASE}/${CONV}/completion`)).toBeTrue();
+        expect(isClaudeCompletionEndpointUrl(`${BASE}/${CONV}/retry_completion`)).toBeTrue();
+        expect(isClaudeCompletionEndpointUrl(`${BASE}/${CONV}?tree=True`)).toBeFalse();
+        expect(isClaudeConversationEndpointUrl(`${BASE}/${CONV}?tree=True`)).toBeTrue();
+        expect(isClaudeConversationEndpointUrl(`${BASE}/${CONV}/latest`)).toBeFalse();
+        expect(isLikelyClaudeApiPath(`https://claude.ai${BASE}?limit=30`)).toBeTrue();
+        expect(isLikelyClaudeApiPath('https://claude.ai/chat/abc')).toBeFalse();
+    });
+
+    it('should resolve the button target from the first matching selector', () => {
+        const parent = { id: 'parent' } as unknown as HTMLElement;
+        const doc = {
+            querySelector: (selector: string) =>
+                selector === 'header' ? ({ parentElement: parent } as unknown as Element) : null,
+        };
+        expect(resolveClaudeButtonInjectionTarget(doc)).toBe(parent);
+        expect(resolveClaudeButtonInjectionTarget({ querySelector: () => null })).toBeNull();
+        expect(resolveClaudeButtonInjectionTarget(null)).toBeNull();
+    });
+
+    it('should detect generation from the streaming marker or stop button', () => {
+        const docWith = (match: string) => ({
+            querySelector: (selector: string) => (selector === match ? ({} as Element) : null),
+        });
+        expect(isClaudeGeneratingInDom(docWith('[data-is-streaming="true"]'))).toBeTrue();
+        expect(isClaudeGeneratingInDom(docWith('button[aria-label="Stop response"]'))).toBeTrue();
+        expect(isClaudeGeneratingInDom(docWith('main'))).toBeFalse();
+    });
+});
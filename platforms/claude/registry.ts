@@ -0,0 +1,64 @@
+import { logger } from '@/utils/logger';
+import { claudeDescriptor } from './descriptor';
+
+const BUTTON_TARGET_MISS_LOG_INTERVAL_MS = 8_000;
+let lastButtonTargetMissAt = 0;
+
+export const CLAUDE_ENDPOINT_REGISTRY = claudeDescriptor.endpoints;
+
+export const CLAUDE_PATH_REGISTRY = {
+    apiHintMarkers: claudeDescriptor.apiHintMarkers,
+} as const;
+
+export const CLAUDE_SELECTOR_REGISTRY = claudeDescriptor.selectors;
+
+export const CLAUDE_DEFAULT_TITLES = claudeDescriptor.defaultTitles;
+
+const maybeLogButtonTargetMiss = () => {
+    const now = Date.now();
+    if (now - lastButtonTargetMissAt < BUTTON_TARGET_MISS_LOG_INTERVAL_MS) {
+        return;
+    }
+    lastButtonTargetMissAt = now;
+    logger.warn('[Blackiya/Claude] Button target selectors unmatched', {
+        selectors: [...CLAUDE_SELECTOR_REGISTRY.buttonInjectionTargets],
+    });
+};
+
+export const resolveClaudeButtonInjectionTarget = (
+    doc: Pick<Document, 'querySelector'> | null = typeof document === 'undefined' ? null : document,
+): HTMLElement | null => {
+    if (!doc) {
+        return null;
+    }
+    for (const selector of CLAUDE_SELECTOR_REGISTRY.buttonInjectionTargets) {
+        const target = doc.querySelector(selector);
+        if (target) {
+            return (target.parentElement || target) as HTMLElement;
+        }
+    }
+    maybeLogButtonTargetMiss();
+    return null;
+};
+
+export const isClaudeGeneratingInDom = (
+    doc: Pick<Document, 'querySelector'> | null = typeof document === 'undefined' ? null : document,
+): boolean => !!doc && CLAUDE_SELECTOR_REGISTRY.generatingIndicators.some((selector) => !!doc.querySelector(selector));
+
+/** `completion` and `retry_completion` POSTs — the SSE generation requests. */
+export const isClaudeCompletionEndpointUrl = (url: string): boolean =>
+    CLAUDE_ENDPOINT_REGISTRY.completionTriggerPattern.test(url);
+
+/** Conversation detail GETs and completion POSTs. */
+export const isClaudeConversationEndpointUrl = (url: string): boolean =>
+    CLAUDE_ENDPOINT_REGISTRY.apiEndpointPattern.test(url);
+
+export const isLikelyClaudeApiPath = (url: string): boolean => {
+    let path: string;
+    try {
+        path = new URL(url).pathname.toLowerCase();
+    } catch {
+        path = url.toLowerCase();
+    }
+    return CLAUDE_PATH_REGISTRY.apiHintMarkers.some((marker) => path.includes(marker));
+};
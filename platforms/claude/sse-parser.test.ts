@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    createClaudeCompletionAccumulator,
+    parseClaudeCompletionStream,
+    parseClaudeSseFrameData,
+    splitClaudeSseFrames,
+} from '@/platforms/claude/sse-parser';
+
+const frame = (payload: unknown) => `event: x\r\ndata: ${JSON.stringify(payload)}\r\n\r\n`;
+
+describe('claude sse-parser', () => {
+    it('should split CRLF frames and keep the unterminated tail', () => {
+        const { frames, remainingBuffer } = splitClaudeSseFrames(`${frame({ type: 'ping' })}data: {"ty`);
+        expect(frames).toEqual(['event: x\ndata: {"type":"ping"}']);
+        expect(remainingBuffer).toBe('data: {"ty');
+        expect(parseClaudeSseFrameData(frames[0] as string)).toEqual({ type: 'ping' });
+        expect(parseClaudeSseFrameData(': keep-alive')).toBeNull();
+        expect(parseClaudeSseFrameData('data: {broken')).toBeNull();
+    });
+
+    it('should report in-progress snapshots until message_stop', () => {
+        const accumulator = createClaudeCompletionAccumulator();
+        accumulator.push({ type: 'message_start', message: { uuid: 'a1', parent_uuid: 'u1', model: 'claude-x' } });
+        accumulator.push({ type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } });
+        accumulator.push({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hel' } });
+        expect(accumulator.snapshot()).toMatchObject({ messageId: 'a1', parentId: 'u1', text: 'Hel', done: false });
+
+        accumulator.push({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'lo' } });
+        accumulator.push({ type: 'content_block_start', index: 1, content_block: { type: 'tool_use', name: 'x' } });
+        accumulator.push({ type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta' } });
+        accumulator.push({ type: 'content_block_start', index: 2, content_block: { type: 'text', text: 'More' } });
+        accumulator.push({ type: 'message_delta', delta: { stop_reason: 'end_turn' } });
+        accumulator.push({ type: 'message_stop' });
+        expect(accumulator.snapshot()).toMatchObject({
+            model: 'claude-x',
+            text: 'Hello\n\nMore',
+            stopReason: 'end_turn',
+            done: true,
+            error: null,
+        });
+    });
+
+    it('should surface stream errors and ignore bodies without a message', () => {
+        const errored = parseClaudeCompletionStream(
+            frame({ type: 'message_start', message: { uuid: 'a1' } }) +
+                frame({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }),
+        );
+        expect(errored).toMatchObject({ done: true, error: 'Overloaded' });
+        expect(parseClaudeCompletionStream(frame({ type: 'ping' }))).toBeNull();
+    });
+});
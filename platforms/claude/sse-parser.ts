@@ -0,0 +1,221 @@
+import type { ConversationData, MessageContent } from '@/utils/types';
+import {
+    attachClaudeNode,
+    buildClaudeMessage,
+    createClaudeConversationShell,
+    getClaudeRootNodeId,
+} from './conversation-parser';
+import { claudeState } from './state';
+import { CLAUDE_ROOT_PARENT_UUID, CLAUDE_UUID_PATTERN } from './url-utils';
+
+type ClaudeContentBlockState = {
+    type: string;
+    text: string;
+    thinking: string;
+    summaries: string[];
+};
+
+export type ClaudeCompletionSnapshot = {
+    messageId: string | null;
+    parentId: string | null;
+    model: string | null;
+    text: string;
+    thoughts: NonNullable<MessageContent['thoughts']>;
+    stopReason: string | null;
+    done: boolean;
+    error: string | null;
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+    value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+
+const readString = (record: Record<string, unknown> | null, key: string): string | null => {
+    const value = record?.[key];
+    return typeof value === 'string' ? value : null;
+};
+
+/** Splits a buffer on blank lines, returning complete SSE frames and the unterminated tail. */
+export const splitClaudeSseFrames = (buffer: string): { frames: string[]; remainingBuffer: string } => {
+    const normalized = buffer.replace(/\r\n/g, '\n');
+    const frames = normalized.split('\n\n');
+    const remainingBuffer = frames.pop() ?? '';
+    return { frames, remainingBuffer };
+};
+
+/** JSON payload of one SSE frame, or `null` for comments, pings and malformed data. */
+export const parseClaudeSseFrameData = (frame: string): unknown => {
+    const data = frame
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trim())
+        .join('\n');
+    if (!data) {
+        return null;
+    }
+    try {
+        return JSON.parse(data);
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Folds Claude completion events (`message_start`, `content_block_*`, `message_delta`,
+ * `message_stop`, `error`) into a running assistant-message snapshot.
+ */
+export const createClaudeCompletionAccumulator = () => {
+    const blocks: ClaudeContentBlockState[] = [];
+    const state = {
+        messageId: null as string | null,
+        parentId: null as string | null,
+        model: null as string | null,
+        stopReason: null as string | null,
+        done: false,
+        error: null as string | null,
+    };
+
+    const applyBlockDelta = (index: number, delta: Record<string, unknown> | null) => {
+        const block = blocks[index] ?? { type: 'text', text: '', thinking: '', summaries: [] };
+        blocks[index] = block;
+        const deltaType = readString(delta, 'type');
+        if (deltaType === 'text_delta') {
+            block.text += readString(delta, 'text') ?? '';
+        } else if (deltaType === 'thinking_delta') {
+            block.thinking += readString(delta, 'thinking') ?? '';
+        } else if (deltaType === 'thinking_summary_delta') {
+            const summary = readString(asRecord(delta?.summary), 'summary');
+            if (summary) {
+                block.summaries.push(summary);
+            }
+        }
+    };
+
+    const applyMessageStart = (message: Record<string, unknown> | null) => {
+        state.messageId = readString(message, 'uuid') ?? readString(message, 'id') ?? state.messageId;
+        state.parentId = readString(message, 'parent_uuid') ?? state.parentId;
+        state.model = readString(message, 'model') || state.model;
+    };
+
+    const push = (payload: unknown) => {
+        const event = asRecord(payload);
+        const index = typeof event?.index === 'number' ? event.index : 0;
+        switch (readString(event, 'type')) {
+            case 'message_start':
+                applyMessageStart(asRecord(event?.message));
+                break;
+            case 'content_block_start': {
+                const block = asRecord(event?.content_block);
+                blocks[index] = {
+                    type: readString(block, 'type') ?? 'text',
+                    text: readString(block, 'text') ?? '',
+                    thinking: readString(block, 'thinking') ?? '',
+                    summaries: [],
+                };
+                break;
+            }
+            case 'content_block_delta':
+                applyBlockDelta(index, asRecord(event?.delta));
+                break;
+            case 'message_delta':
+                state.stopReason = readString(asRecord(event?.delta), 'stop_reason') ?? state.stopReason;
+                break;
+            case 'message_stop':
+                state.done = true;
+                break;
+            case 'error':
+                state.error = readString(asRecord(event?.error), 'message') ?? 'Unknown completion error';
+                state.done = true;
+                break;
+        }
+    };
+
+    const snapshot = (): ClaudeCompletionSnapshot => {
+        const present = blocks.filter((block): block is ClaudeContentBlockState => !!block);
+        const texts = present.filter((block) => block.type === 'text' && block.text.trim()).map((block) => block.text);
+        const thoughts = present
+            .filter((block) => block.type === 'thinking' && block.thinking.trim())
+            .map((block) => ({
+                summary: block.summaries[block.summaries.length - 1] ?? '',
+                content: block.thinking,
+                chunks: [],
+                finished: state.done,
+            }));
+        return { ...state, text: texts.join('\n\n'), thoughts };
+    };
+
+    return { push, snapshot };
+};
+
+/** Parses a complete completion response body. Returns `null` when no message was started. */
+export const parseClaudeCompletionStream = (text: string): ClaudeCompletionSnapshot | null => {
+    const accumulator = createClaudeCompletionAccumulator();
+    const { frames, remainingBuffer } = splitClaudeSseFrames(text);
+    for (const frame of [...frames, remainingBuffer]) {
+        const payload = parseClaudeSseFrameData(frame);
+        if (payload !== null) {
+            accumulator.push(payload);
+        }
+    }
+    const snapshot = accumulator.snapshot();
+    return snapshot.messageId || snapshot.text || snapshot.thoughts.length > 0 ? snapshot : null;
+};
+
+const resolveStreamParentId = (conversation: ConversationData, parentId: string | null, rootId: string) => {
+    if (!parentId || parentId === CLAUDE_ROOT_PARENT_UUID) {
+        return rootId;
+    }
+    if (!conversation.mapping[parentId] && CLAUDE_UUID_PATTERN.test(parentId)) {
+        // The prompt of this turn is not in the cached tree yet; keep its slot so the
+        // prompt hint (or the canonical refetch) can fill it.
+        attachClaudeNode(conversation, {
+            id: parentId,
+            message: null,
+            parent: conversation.current_node,
+            children: [],
+        });
+    }
+    return conversation.mapping[parentId] ? parentId : rootId;
+};
+
+/**
+ * Merges a streamed assistant turn into the cached conversation (or a fresh shell),
+ * making it the current leaf.
+ */
+export const mergeClaudeCompletionIntoConversation = (
+    conversationId: string,
+    snapshot: ClaudeCompletionSnapshot,
+): ConversationData => {
+    const cached = claudeState.activeConversations.get(conversationId);
+    const conversation = cached ? structuredClone(cached) : createClaudeConversationShell(conversationId);
+    const rootId = getClaudeRootNodeId(conversationId);
+    const messageId = snapshot.messageId ?? `claude-stream-${conversationId}`;
+    const parentId = resolveStreamParentId(conversation, snapshot.parentId, rootId);
+    const nowSeconds = Date.now() / 1000;
+    const existing = conversation.mapping[messageId];
+    const status = snapshot.error ? 'error' : snapshot.done ? 'finished_successfully' : 'in_progress';
+
+    attachClaudeNode(conversation, {
+        id: messageId,
+        parent: existing?.parent ?? parentId,
+        children: existing?.children ?? [],
+        message: buildClaudeMessage({
+            id: messageId,
+            role: 'assistant',
+            text: snapshot.text,
+            thoughts: snapshot.thoughts,
+            createTime: existing?.message?.create_time ?? nowSeconds,
+            updateTime: nowSeconds,
+            status,
+            endTurn: status === 'finished_successfully',
+            metadata: {
+                model_slug: snapshot.model || conversation.default_model_slug,
+                ...(snapshot.stopReason ? { stop_reason: snapshot.stopReason } : {}),
+            },
+        }),
+    });
+    conversation.current_node = messageId;
+    conversation.update_time = nowSeconds;
+    conversation.title = claudeState.conversationTitles.get(conversationId) ?? conversation.title;
+    claudeState.activeConversations.set(conversationId, conversation);
+    return conversation;
+};
@@ -0,0 +1,27 @@
+import { LRUCache } from '@/utils/lru-cache';
+import type { ConversationData } from '@/utils/types';
+
+/**
+ * Encapsulates all mutable adapter state to prevent cross-test/session leakage.
+ * Use `resetClaudeAdapterState()` in tests to get a clean state.
+ */
+export class ClaudeAdapterState {
+    /** Maps conversation UUID to title */
+    readonly conversationTitles = new LRUCache<string, string>(50);
+    /** Latest parsed conversation per UUID, used as the base when a completion stream is merged in */
+    readonly activeConversations = new LRUCache<string, ConversationData>(50);
+    /** Organization UUID seen on the most recent intercepted API URL */
+    organizationId: string | null = null;
+
+    reset() {
+        this.conversationTitles.clear();
+        this.activeConversations.clear();
+        this.organizationId = null;
+    }
+}
+
+export const claudeState = new ClaudeAdapterState();
+
+export const resetClaudeAdapterState = () => {
+    claudeState.reset();
+};
@@ -0,0 +1,52 @@
+/**
+ * ID patterns and URL utilities for the Claude adapter.
+ */
+
+import { claudeState } from './state';
+
+/** UUID — Claude conversation, message and organization IDs */
+export const CLAUDE_UUID_PATTERN = /^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/i;
+
+/** `parent_message_uuid` of the first message in every conversation tree */
+export const CLAUDE_ROOT_PARENT_UUID = '00000000-0000-4000-8000-000000000000';
+
+const API_CONVERSATION_PATH_PATTERN = /\/api\/organizations\/([^/?#]+)\/chat_conversations\/([^/?#]+)/i;
+const API_ORGANIZATION_PATH_PATTERN = /\/api\/organizations\/([^/?#]+)/i;
+const ORGANIZATION_COOKIE_PATTERN = /(?:^|;\s*)lastActiveOrg=([^;]+)/;
+
+/**
+ * Extracts the conversation UUID from a Claude API URL. Regex-based so relative
+ * request URLs seen by the interceptor work too.
+ */
+export const extractClaudeConversationIdFromApiUrl = (url: string): string | null => {
+    const conversationId = url.match(API_CONVERSATION_PATH_PATTERN)?.[2] ?? null;
+    return conversationId && CLAUDE_UUID_PATTERN.test(conversationId) ? conversationId : null;
+};
+
+export const extractClaudeOrganizationIdFromUrl = (url: string): string | null => {
+    const organizationId = url.match(API_ORGANIZATION_PATH_PATTERN)?.[1] ?? null;
+    return organizationId && CLAUDE_UUID_PATTERN.test(organizationId) ? organizationId : null;
+};
+
+/** Reads the `lastActiveOrg` cookie, which claude.ai sets for the selected organization. */
+export const readClaudeOrganizationIdFromCookie = (
+    cookie: string = typeof document === 'undefined' ? '' : document.cookie,
+): string | null => {
+    const raw = cookie.match(ORGANIZATION_COOKIE_PATTERN)?.[1];
+    if (!raw) {
+        return null;
+    }
+    try {
+        const organizationId = decodeURIComponent(raw).trim();
+        return CLAUDE_UUID_PATTERN.test(organizationId) ? organizationId : null;
+    } catch {
+        return null;
+    }
+};
+
+/** Organization from the last intercepted API URL, falling back to the cookie. */
+export const resolveClaudeOrganizationId = (cookie?: string): string | null =>
+    claudeState.organizationId ?? readClaudeOrganizationIdFromCookie(cookie);
+
+export const buildClaudeConversationApiUrl = (organizationId: string, conversationId: string) =>
+    `https://claude.ai/api/organizations/${organizationId}/chat_conversations/${conversationId}?tree=True&rendering_mode=messages&render_all_tools=true`;
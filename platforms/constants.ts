@@ -7,22 +7,21 @@
  * @module platforms/constants
  */
 
+import { BUILT_IN_PLATFORM_DESCRIPTORS } from './descriptors';
+
 /**
- * Supported LLM Platform URLs
+ * Supported LLM Platform URLs, collected from the built-in platform descriptors.
  * These patterns are used in:
  * - wxt.config.ts (host_permissions)
  * - entrypoints/main.content.ts (content script matches)
  * - entrypoints/interceptor.content.ts (interceptor matches)
  */
-export const SUPPORTED_PLATFORM_URLS = [
-    'https://chatgpt.com/*',
-    'https://chat.openai.com/*',
-    'https://gemini.google.com/*',
-    'https://grok.com/*',
-] as const;
+export const SUPPORTED_PLATFORM_URLS: readonly string[] = BUILT_IN_PLATFORM_DESCRIPTORS.flatMap(
+    (descriptor) => descriptor.urlMatchPatterns,
+);
 
 /**
- * Type-safe platform URL type
+ * Platform URL match pattern type
  */
 export type PlatformUrl = (typeof SUPPORTED_PLATFORM_URLS)[number];
 
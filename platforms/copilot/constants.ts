@@ -0,0 +1,3 @@
+/** Copilot does not name the model behind a turn; exports record the chat mode instead. */
+export const COPILOT_DEFAULT_MODEL_SLUG = 'copilot-chat';
+export const COPILOT_REASONING_MODEL_SLUG = 'copilot-think-deeper';
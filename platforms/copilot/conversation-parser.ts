@@ -0,0 +1,226 @@
+import type { ConversationData, Message, MessageContent, MessageNode, MessageSource } from '@/utils/types';
+import { COPILOT_DEFAULT_MODEL_SLUG, COPILOT_REASONING_MODEL_SLUG } from './constants';
+import { COPILOT_DEFAULT_TITLES } from './registry';
+import { copilotState } from './state';
+import { COPILOT_CONVERSATION_ID_PATTERN } from './url-utils';
+
+type CopilotThought = NonNullable<MessageContent['thoughts']>[number];
+
+/** Visible answer, Think Deeper reasoning and citations of one message. */
+export type CopilotMessageParts = {
+    text: string;
+    reasoning: string;
+    sources: MessageSource[];
+};
+
+export type CopilotMessageInput = {
+    id: string;
+    role: 'user' | 'assistant';
+    parts: CopilotMessageParts;
+    createTime: number | null;
+    status: Message['status'];
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+    value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+
+const readString = (record: Record<string, unknown> | null, key: string): string | null => {
+    const value = record?.[key];
+    return typeof value === 'string' ? value : null;
+};
+
+const readRecords = (value: unknown): Record<string, unknown>[] =>
+    Array.isArray(value) ? value.map(asRecord).filter((item): item is Record<string, unknown> => !!item) : [];
+
+export const tryParseCopilotJson = (data: unknown): unknown => {
+    if (typeof data !== 'string') {
+        return data;
+    }
+    try {
+        return JSON.parse(data);
+    } catch {
+        return null;
+    }
+};
+
+/** ISO timestamps to epoch seconds; `null` when absent or unparseable. */
+export const toCopilotEpochSeconds = (value: unknown): number | null => {
+    if (typeof value !== 'string') {
+        return null;
+    }
+    const millis = Date.parse(value);
+    return Number.isNaN(millis) ? null : millis / 1000;
+};
+
+export const getCopilotRootNodeId = (conversationId: string) => `copilot-root-${conversationId}`;
+
+export const toCopilotSources = (citations: unknown): MessageSource[] =>
+    readRecords(citations)
+        .map((citation) => ({
+            title: (readString(citation, 'title') ?? '').trim(),
+            url: (readString(citation, 'url') ?? '').trim(),
+            snippet: (readString(citation, 'snippet') ?? '').trim(),
+        }))
+        .filter((source) => source.url.length > 0)
+        .map((source) => ({ ...source, title: source.title || source.url }));
+
+/** `content` is a list of typed parts; only `text` and `reasoning` parts carry exportable text. */
+export const readCopilotMessageParts = (message: Record<string, unknown>): CopilotMessageParts => {
+    const texts: string[] = [];
+    const reasoning: string[] = [];
+    for (const part of readRecords(message.content)) {
+        const type = readString(part, 'type');
+        if (type === 'text') {
+            texts.push(readString(part, 'text') ?? '');
+        } else if (type === 'reasoning') {
+            reasoning.push(readString(part, 'text') ?? '');
+        }
+    }
+    return {
+        text: texts.join(''),
+        reasoning: reasoning.filter((text) => text.trim()).join('\n\n'),
+        sources: toCopilotSources(message.citations),
+    };
+};
+
+const buildThoughts = (parts: CopilotMessageParts, finished: boolean): CopilotThought[] =>
+    parts.reasoning.trim() ? [{ summary: '', content: parts.reasoning, chunks: [], finished }] : [];
+
+export const resolveCopilotModelSlug = (parts: CopilotMessageParts) =>
+    parts.reasoning.trim() ? COPILOT_REASONING_MODEL_SLUG : COPILOT_DEFAULT_MODEL_SLUG;
+
+export const buildCopilotMessage = (input: CopilotMessageInput): Message => {
+    const thoughts = buildThoughts(input.parts, input.status !== 'in_progress');
+    const isAssistant = input.role === 'assistant';
+    return {
+        id: input.id,
+        author: { role: input.role, name: null, metadata: {} },
+        create_time: input.createTime,
+        update_time: input.createTime,
+        content:
+            thoughts.length > 0
+                ? { content_type: 'thoughts', parts: [input.parts.text], thoughts }
+                : { content_type: 'text', parts: [input.parts.text] },
+        status: input.status,
+        end_turn: isAssistant ? input.status === 'finished_successfully' : null,
+        weight: 1,
+        metadata: isAssistant
+            ? {
+                  model_slug: resolveCopilotModelSlug(input.parts),
+                  ...(input.parts.sources.length > 0 ? { sources: input.parts.sources } : {}),
+              }
+            : {},
+        recipient: 'all',
+        channel: null,
+    };
+};
+
+export const createCopilotConversationShell = (
+    conversationId: string,
+    overrides: Partial<Pick<ConversationData, 'title' | 'create_time' | 'update_time'>> = {},
+): ConversationData => {
+    const rootId = getCopilotRootNodeId(conversationId);
+    const nowSeconds = Date.now() / 1000;
+    return {
+        title: copilotState.conversationTitles.get(conversationId) ?? COPILOT_DEFAULT_TITLES[0],
+        create_time: nowSeconds,
+        update_time: nowSeconds,
+        mapping: {
+            [rootId]: { id: rootId, message: null, parent: null, children: [] },
+        },
+        conversation_id: conversationId,
+        current_node: rootId,
+        moderation_results: [],
+        plugin_ids: null,
+        gizmo_id: null,
+        gizmo_type: null,
+        is_archived: false,
+        default_model_slug: COPILOT_DEFAULT_MODEL_SLUG,
+        safe_urls: [],
+        blocked_urls: [],
+        ...overrides,
+    };
+};
+
+/** Appends a node under the current leaf (Copilot threads never branch) and makes it the leaf. */
+export const appendCopilotNode = (conversation: ConversationData, node: Omit<MessageNode, 'parent' | 'children'>) => {
+    const existing = conversation.mapping[node.id];
+    if (existing) {
+        existing.message = node.message;
+        return;
+    }
+    const parentId = conversation.current_node;
+    conversation.mapping[node.id] = { ...node, parent: parentId, children: [] };
+    conversation.mapping[parentId]?.children.push(node.id);
+    conversation.current_node = node.id;
+};
+
+export const rememberCopilotTitle = (conversationId: string, title: string) => {
+    if (!(COPILOT_DEFAULT_TITLES as readonly string[]).includes(title)) {
+        copilotState.conversationTitles.set(conversationId, title);
+    }
+};
+
+const toCopilotMessage = (message: Record<string, unknown>): Message | null => {
+    const id = readString(message, 'id');
+    if (!id) {
+        return null;
+    }
+    return buildCopilotMessage({
+        id,
+        role: readString(message, 'author') === 'human' ? 'user' : 'assistant',
+        parts: readCopilotMessageParts(message),
+        createTime: toCopilotEpochSeconds(message.createdAt),
+        status: 'finished_successfully',
+    });
+};
+
+/** Conversation list rows carry titles only; cache them for later history and socket payloads. */
+const rememberListedTitles = (rows: Record<string, unknown>[]) => {
+    for (const row of rows) {
+        const id = readString(row, 'id');
+        const title = readString(row, 'title')?.trim();
+        if (id && title) {
+            rememberCopilotTitle(id, title);
+        }
+    }
+};
+
+export const latestModelSlug = (conversation: ConversationData) => {
+    const nodes = Object.values(conversation.mapping).reverse();
+    const assistant = nodes.find((node) => node.message?.author.role === 'assistant');
+    const model = assistant?.message?.metadata.model_slug;
+    return typeof model === 'string' ? model : COPILOT_DEFAULT_MODEL_SLUG;
+};
+
+/**
+ * Parses a `c/api/conversations/{id}/history` payload into ConversationData.
+ * Conversation list payloads only refresh the title cache and return `null`,
+ * as do conversations without messages yet.
+ */
+export const parseCopilotHistoryPayload = (data: unknown, conversationId: string | null): ConversationData | null => {
+    const rows = readRecords(asRecord(tryParseCopilotJson(data))?.results);
+    if (rows.some((row) => 'title' in row && !('author' in row))) {
+        rememberListedTitles(rows);
+        return null;
+    }
+    if (!conversationId || !COPILOT_CONVERSATION_ID_PATTERN.test(conversationId) || rows.length === 0) {
+        return null;
+    }
+
+    const conversation = createCopilotConversationShell(conversationId);
+    for (const row of rows) {
+        const message = toCopilotMessage(row);
+        if (message) {
+            appendCopilotNode(conversation, { id: message.id, message });
+        }
+    }
+    const times = rows.map((row) => toCopilotEpochSeconds(row.createdAt)).filter((time): time is number => !!time);
+    if (times.length > 0) {
+        conversation.create_time = Math.min(...times);
+        conversation.update_time = Math.max(...times);
+    }
+    conversation.default_model_slug = latestModelSlug(conversation);
+    copilotState.activeConversations.set(conversationId, conversation);
+    return conversation;
+};
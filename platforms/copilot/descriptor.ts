@@ -0,0 +1,39 @@
+import type { PlatformDescriptor } from '@/platforms/types';
+
+/**
+ * Microsoft Copilot platform descriptor: hosts, endpoints, selectors and capture
+ * settings consumed through `platforms/descriptors.ts`.
+ */
+export const copilotDescriptor = {
+    name: 'Copilot',
+    parserId: 'copilot',
+    hosts: ['copilot.microsoft.com'],
+    urlMatchPatterns: ['https://copilot.microsoft.com/*'],
+    streamProtocol: 'websocket',
+    /**
+     * Generation happens over a WebSocket (`wss://copilot.microsoft.com/c/api/chat`),
+     * which fetch/XHR interception never sees; `socketEndpointPattern` is matched by
+     * the interceptor's WebSocket hook instead and doubles as the completion trigger.
+     */
+    endpoints: {
+        apiEndpointPattern: /\/c\/api\/conversations(?:\/[^/?#]+\/history)?(?:[?#]|$)/i,
+        completionTriggerPattern: /\/c\/api\/chat(?:[?#]|$)/i,
+        socketEndpointPattern: /^wss:\/\/copilot\.microsoft\.com\/c\/api\/chat(?:[?#]|$)/i,
+    },
+    signals: {
+        lifecycleEndpoints: ['socketEndpointPattern'],
+        completionEndpoints: ['completionTriggerPattern', 'apiEndpointPattern'],
+        completionRequiresReadiness: true,
+        streamingOnRequest: true,
+    },
+    apiHintMarkers: ['/c/api/'],
+    selectors: {
+        buttonInjectionTargets: ['[data-testid="sidebar-toggle-button"]', 'header', 'body'],
+        domTitleCandidates: ['[data-testid="conversation-title"]', 'header h1'],
+        generatingIndicators: ['button[data-testid="stop-button"]', 'button[aria-label="Stop responding"]'],
+    },
+    defaultTitles: ['New conversation', 'Copilot'],
+    capturesPromptHints: false,
+    passiveCaptureWaitMs: 2500,
+    bulkExport: null,
+} as const satisfies PlatformDescriptor;
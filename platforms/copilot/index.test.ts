@@ -0,0 +1,169 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, mock } from 'bun:test';
+import { join } from 'node:path';
+import { extractActiveMessageChain, extractConversationReasoning } from '@/utils/conversation-inspection';
+import { evaluatePayloadQuality } from '@/utils/payload-quality-gate';
+import type { ConversationData } from '@/utils/types';
+
+mock.module('@/utils/logger', () => ({
+    logger: { info: () => {}, warn: () => {}, error: () => {}, debug: () => {} },
+}));
+
+const CONVERSATION_ID = 'kR3bXq7Z2mVtLp9sHd4wN';
+const HISTORY_URL = `https://copilot.microsoft.com/c/api/conversations/${CONVERSATION_ID}/history?api-version=2`;
+const LIST_URL = 'https://copilot.microsoft.com/c/api/conversations?types=chat';
+const SOCKET_URL = 'wss://copilot.microsoft.com/c/api/chat?api-version=2&features=-,ncedge';
+
+const messageText = (data: ConversationData | null, id: string) => data?.mapping[id]?.message?.content.parts?.[0];
+
+describe('Copilot Adapter — integration', () => {
+    let historyRaw: string;
+    let transcriptRaw: string;
+    let copilotAdapter: any;
+    let resetCopilotAdapterState: () => void;
+
+    beforeAll(async () => {
+        const module = await import('@/platforms/copilot');
+        copilotAdapter = module.copilotAdapter;
+        resetCopilotAdapterState = module.resetCopilotAdapterState;
+
+        historyRaw = await Bun.file(
+            join(import.meta.dir, '..', '..', 'data', 'copilot', 'sample_copilot_history.json'),
+        ).text();
+        transcriptRaw = await Bun.file(
+            join(import.meta.dir, '..', '..', 'data', 'copilot', 'sample_copilot_socket_transcript.txt'),
+        ).text();
+    });
+
+    const originalDocument = (globalThis as { document?: unknown }).document;
+
+    const installDocument = (fields: { title?: string; elements?: Record<string, string> } = {}) => {
+        (globalThis as { document?: unknown }).document = {
+            title: fields.title ?? '',
+            querySelector: (selector: string) =>
+                fields.elements?.[selector] === undefined ? null : { textContent: fields.elements[selector] },
+        };
+    };
+
+    beforeEach(() => {
+        resetCopilotAdapterState();
+        installDocument();
+    });
+
+    afterEach(() => {
+        (globalThis as { document?: unknown }).document = originalDocument;
+    });
+
+    it('should identify copilot.microsoft.com pages and extract conversation IDs', () => {
+        expect(copilotAdapter.isPlatformUrl(`https://copilot.microsoft.com/chats/${CONVERSATION_ID}`)).toBeTrue();
+        expect(copilotAdapter.isPlatformUrl('https://www.bing.com/chat')).toBeFalse();
+        expect(copilotAdapter.extractConversationId(`https://copilot.microsoft.com/chats/${CONVERSATION_ID}`)).toBe(
+            CONVERSATION_ID,
+        );
+        expect(copilotAdapter.extractConversationId('https://copilot.microsoft.com/')).toBeNull();
+        expect(copilotAdapter.extractConversationId('https://copilot.microsoft.com/chats/short')).toBeNull();
+        expect(copilotAdapter.extractConversationIdFromUrl(HISTORY_URL)).toBe(CONVERSATION_ID);
+        expect(copilotAdapter.extractConversationIdFromUrl(SOCKET_URL)).toBeNull();
+        expect(copilotAdapter.buildApiUrls(CONVERSATION_ID)).toEqual([HISTORY_URL]);
+        expect(copilotAdapter.buildApiUrls('bad id!')).toEqual([]);
+    });
+
+    it('should parse history as a linear thread with reasoning and citations', () => {
+        const data: ConversationData = copilotAdapter.parseInterceptedData(historyRaw, HISTORY_URL);
+
+        expect(data.conversation_id).toBe(CONVERSATION_ID);
+        expect(data.title).toBe('New conversation');
+        expect(data.create_time).toBe(Date.parse('2025-07-01T08:00:00.000Z') / 1000);
+        expect(data.update_time).toBe(Date.parse('2025-07-01T08:02:20.000Z') / 1000);
+        expect(data.current_node).toBe('msg_a2Wx7');
+        expect(extractActiveMessageChain(data).map((message) => message.id)).toEqual([
+            'msg_u1Lq2',
+            'msg_a1Zp9',
+            'msg_u2Kd4',
+            'msg_a2Wx7',
+        ]);
+        expect(data.mapping.msg_u1Lq2?.message?.author.role).toBe('user');
+        expect(data.mapping.msg_a1Zp9?.message?.metadata.sources).toEqual([
+            {
+                title: 'Visit Lisboa',
+                url: 'https://www.visitlisboa.com/en',
+                snippet: 'Official tourism site of Lisbon.',
+            },
+        ]);
+        expect(messageText(data, 'msg_a2Wx7')).toBe('Take the train from Rossio on day 4 and visit Pena Palace.');
+        expect(data.mapping.msg_a2Wx7?.message?.content.thoughts?.[0]).toMatchObject({
+            content: 'Sintra is 40 minutes by train from Rossio.',
+            finished: true,
+        });
+        expect(data.default_model_slug).toBe('copilot-think-deeper');
+        expect(copilotAdapter.evaluateReadiness(data).ready).toBeTrue();
+    });
+
+    it('should pass the payload quality gate for Think Deeper output', () => {
+        const data: ConversationData = copilotAdapter.parseInterceptedData(historyRaw, HISTORY_URL);
+
+        expect(extractConversationReasoning(data)).toContain('Sintra is 40 minutes by train from Rossio.');
+        expect(evaluatePayloadQuality(data, 'Copilot')).toMatchObject({ passed: true, issues: [] });
+    });
+
+    it('should cache titles from the conversation list', () => {
+        const list = JSON.stringify({ results: [{ id: CONVERSATION_ID, title: 'Lisbon itinerary' }] });
+        expect(copilotAdapter.parseInterceptedData(list, LIST_URL)).toBeNull();
+
+        const data: ConversationData = copilotAdapter.parseInterceptedData(historyRaw, HISTORY_URL);
+        expect(data.title).toBe('Lisbon itinerary');
+    });
+
+    it('should append a socket turn to the cached conversation', () => {
+        copilotAdapter.parseInterceptedData(historyRaw, HISTORY_URL);
+        const data: ConversationData = copilotAdapter.parseInterceptedData(transcriptRaw, SOCKET_URL);
+
+        expect(data.title).toBe('Lisbon trip plan');
+        expect(data.current_node).toBe('msg_a3Tr8');
+        expect(extractActiveMessageChain(data).map((message) => message.id)).toEqual([
+            'msg_u1Lq2',
+            'msg_a1Zp9',
+            'msg_u2Kd4',
+            'msg_a2Wx7',
+            'msg_u3Hn1',
+            'msg_a3Tr8',
+        ]);
+        expect(messageText(data, 'msg_u3Hn1')).toBe('What should I pack?');
+        expect(messageText(data, 'msg_a3Tr8')).toBe('Pack comfortable walking shoes and a light jacket.');
+        expect(data.mapping.msg_a3Tr8?.message?.metadata).toMatchObject({
+            model_slug: 'copilot-chat',
+            sources: [{ title: 'IPMA weather', url: 'https://www.ipma.pt/en/', snippet: '' }],
+        });
+        expect(evaluatePayloadQuality(data, 'Copilot').issues).toEqual([]);
+        expect(copilotAdapter.evaluateReadiness(data).ready).toBeTrue();
+    });
+
+    it('should build a conversation from a socket turn alone and keep unfinished turns not ready', () => {
+        const unfinished = transcriptRaw.replace('{"event":"done","messageId":"msg_a3Tr8"}', '');
+        const data: ConversationData = copilotAdapter.parseInterceptedData(unfinished, SOCKET_URL);
+
+        expect(data.conversation_id).toBe(CONVERSATION_ID);
+        expect(data.mapping.msg_u3Hn1?.parent).toBe(`copilot-root-${CONVERSATION_ID}`);
+        expect(data.mapping.msg_a3Tr8?.message?.status).toBe('in_progress');
+        expect(copilotAdapter.evaluateReadiness(data)).toMatchObject({ ready: false, reason: 'assistant-in-progress' });
+    });
+
+    it('should resolve titles from document.title before header candidates', () => {
+        installDocument({ title: 'Lisbon trip plan | Microsoft Copilot' });
+        expect(copilotAdapter.extractTitleFromDom()).toBe('Lisbon trip plan');
+
+        installDocument({
+            title: 'Microsoft Copilot: Your AI companion',
+            elements: { 'header h1': ' Header  title ' },
+        });
+        expect(copilotAdapter.extractTitleFromDom()).toBe('Header title');
+
+        installDocument({ title: 'Copilot', elements: { 'header h1': 'New conversation' } });
+        expect(copilotAdapter.extractTitleFromDom()).toBeNull();
+    });
+
+    it('should format filenames from the title or the conversation id', () => {
+        const data = copilotAdapter.parseInterceptedData(historyRaw, HISTORY_URL);
+        expect(copilotAdapter.formatFilename({ ...data, title: 'Lisbon trip plan' })).toStartWith('Lisbon_trip_plan_');
+        expect(copilotAdapter.formatFilename({ ...data, title: '' })).toStartWith('copilot_conversation_kR3bXq7Z_');
+    });
+});
@@ -0,0 +1,165 @@
+/**
+ * Microsoft Copilot Platform Adapter
+ *
+ * Supports copilot.microsoft.com conversations across:
+ * - c/api/conversations/{id}/history (full conversation JSON)
+ * - c/api/conversations (conversation list, used for titles only)
+ * - wss://copilot.microsoft.com/c/api/chat (generation WebSocket)
+ *
+ * Generated answers never cross fetch/XHR: the interceptor's WebSocket hook records
+ * each turn's frames and hands the newline-joined transcript to `parseInterceptedData`
+ * under the socket URL.
+ */
+
+import type { LLMPlatform } from '@/platforms/types';
+import { evaluateActiveChainReadiness } from '@/utils/conversation-readiness';
+import { generateTimestamp, sanitizeFilename } from '@/utils/download';
+import { logger } from '@/utils/logger';
+import type { ConversationData } from '@/utils/types';
+import { parseCopilotHistoryPayload } from './conversation-parser';
+import { copilotDescriptor } from './descriptor';
+import {
+    COPILOT_DEFAULT_TITLES,
+    COPILOT_ENDPOINT_REGISTRY,
+    COPILOT_SELECTOR_REGISTRY,
+    isCopilotChatSocketUrl,
+    isCopilotGeneratingInDom,
+    resolveCopilotButtonInjectionTarget,
+} from './registry';
+import { mergeCopilotSocketTurnIntoConversation, parseCopilotSocketTranscript } from './socket-parser';
+import {
+    buildCopilotHistoryApiUrl,
+    COPILOT_CONVERSATION_ID_PATTERN,
+    extractCopilotConversationIdFromApiUrl,
+    extractCopilotConversationIdFromPath,
+} from './url-utils';
+
+export { CopilotAdapterState, copilotState, resetCopilotAdapterState } from './state';
+
+const MAX_TITLE_LENGTH = 80;
+const COPILOT_GENERIC_DOM_TITLES = new Set(['microsoft copilot', 'microsoft copilot: your ai companion']);
+
+const normalizeDomTitle = (value: string | null | undefined): string => value?.replace(/\s+/g, ' ').trim() ?? '';
+
+const normalizeCopilotDomTitleCandidate = (raw: string, defaultTitles: readonly string[]): string | null => {
+    const normalized = normalizeDomTitle(raw);
+    if (!normalized) {
+        return null;
+    }
+    const lower = normalized.toLowerCase();
+    if (COPILOT_GENERIC_DOM_TITLES.has(lower)) {
+        return null;
+    }
+    if (defaultTitles.some((title) => normalizeDomTitle(title).toLowerCase() === lower)) {
+        return null;
+    }
+    return normalized;
+};
+
+const queryCopilotTitleFromDom = (defaultTitles: readonly string[]): string | null => {
+    for (const selector of COPILOT_SELECTOR_REGISTRY.domTitleCandidates) {
+        const normalized = normalizeCopilotDomTitleCandidate(
+            document.querySelector(selector)?.textContent ?? '',
+            defaultTitles,
+        );
+        if (normalized) {
+            return normalized;
+        }
+    }
+    return null;
+};
+
+const isCopilotHost = (hostname: string) => hostname === 'copilot.microsoft.com';
+
+const parseSocketTranscript = (data: unknown): ConversationData | null => {
+    if (typeof data !== 'string') {
+        return null;
+    }
+    const turn = parseCopilotSocketTranscript(data);
+    return turn?.conversationId ? mergeCopilotSocketTurnIntoConversation(turn.conversationId, turn) : null;
+};
+
+export const copilotAdapter: LLMPlatform = {
+    name: copilotDescriptor.name,
+    urlMatchPattern: copilotDescriptor.urlMatchPatterns[0],
+
+    apiEndpointPattern: COPILOT_ENDPOINT_REGISTRY.apiEndpointPattern,
+    completionTriggerPattern: COPILOT_ENDPOINT_REGISTRY.completionTriggerPattern,
+    socketEndpointPattern: COPILOT_ENDPOINT_REGISTRY.socketEndpointPattern,
+
+    isPlatformUrl(url: string): boolean {
+        try {
+            return isCopilotHost(new URL(url).hostname);
+        } catch {
+            return false;
+        }
+    },
+
+    extractConversationId(url: string): string | null {
+        try {
+            const urlObj = new URL(url);
+            return isCopilotHost(urlObj.hostname) ? extractCopilotConversationIdFromPath(urlObj.pathname) : null;
+        } catch {
+            return null;
+        }
+    },
+
+    extractConversationIdFromUrl(url: string): string | null {
+        return extractCopilotConversationIdFromApiUrl(url);
+    },
+
+    buildApiUrls(conversationId: string): string[] {
+        return COPILOT_CONVERSATION_ID_PATTERN.test(conversationId) ? [buildCopilotHistoryApiUrl(conversationId)] : [];
+    },
+
+    parseInterceptedData(data: string | any, url: string): ConversationData | null {
+        const socket = isCopilotChatSocketUrl(url);
+        logger.info('[Blackiya/Copilot] parseInterceptedData entry', {
+            conversationId: extractCopilotConversationIdFromApiUrl(url),
+            socket,
+            dataLen: typeof data === 'string' ? data.length : -1,
+        });
+
+        if (socket) {
+            return parseSocketTranscript(data);
+        }
+        return parseCopilotHistoryPayload(data, extractCopilotConversationIdFromApiUrl(url));
+    },
+
+    formatFilename(data: ConversationData): string {
+        let title = data.title || '';
+        if (!title.trim()) {
+            const idPart = data.conversation_id ? data.conversation_id.slice(0, 8) : 'unknown';
+            title = `copilot_conversation_${idPart}`;
+        }
+        const sanitizedTitle = sanitizeFilename(title).slice(0, MAX_TITLE_LENGTH);
+        const timestamp = generateTimestamp(data.update_time || data.create_time);
+        return `${sanitizedTitle}_${timestamp}`;
+    },
+
+    getButtonInjectionTarget(): HTMLElement | null {
+        return resolveCopilotButtonInjectionTarget();
+    },
+
+    evaluateReadiness(data: ConversationData) {
+        return evaluateActiveChainReadiness(data);
+    },
+
+    isPlatformGenerating() {
+        return isCopilotGeneratingInDom();
+    },
+
+    defaultTitles: COPILOT_DEFAULT_TITLES,
+
+    extractTitleFromDom(): string | null {
+        const defaultTitles = this.defaultTitles ?? [];
+        const titleFromPage = normalizeCopilotDomTitleCandidate(
+            normalizeDomTitle(document.title).replace(/\s*[|–-]\s*(?:Microsoft\s+)?Copilot$/i, ''),
+            defaultTitles,
+        );
+        if (titleFromPage) {
+            return titleFromPage;
+        }
+        return queryCopilotTitleFromDom(defaultTitles);
+    },
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    isCopilotChatSocketUrl,
+    isCopilotConversationEndpointUrl,
+    isCopilotGeneratingInDom,
+    isCopilotSocketEndpointUrl,
+    isLikelyCopilotApiPath,
+    resolveCopilotButtonInjectionTarget,
+} from '@/platforms/copilot/registry';
+
+describe('copilot registry', () => {
+    it('should classify history, list and socket endpoints', () => {
+        expect(isCopilotConversationEndpointUrl('/c/api/conversations/kR3bXq7Z2mVtLp9sHd4wN/history')).toBeTrue();
+        expect(
+            isCopilotConversationEndpointUrl('https://copilot.microsoft.com/c/api/conversations?types=chat'),
+        ).toBeTrue();
+        expect(isCopilotConversationEndpointUrl('/c/api/conversations/kR3bXq7Z2mVtLp9sHd4wN/share')).toBeFalse();
+        expect(isCopilotSocketEndpointUrl('wss://copilot.microsoft.com/c/api/chat?api-version=2')).toBeTrue();
+        expect(isCopilotSocketEndpointUrl('wss://example.com/c/api/chat')).toBeFalse();
+        expect(isCopilotSocketEndpointUrl('https://copilot.microsoft.com/c/api/chat')).toBeFalse();
+        expect(isCopilotChatSocketUrl('wss://copilot.microsoft.com/c/api/chat?api-version=2')).toBeTrue();
+        expect(isCopilotChatSocketUrl('/c/api/chats')).toBeFalse();
+        expect(isLikelyCopilotApiPath('https://copilot.microsoft.com/c/api/user')).toBeTrue();
+        expect(isLikelyCopilotApiPath('https://copilot.microsoft.com/chats/abc')).toBeFalse();
+    });
+
+    it('should resolve the button target from the first matching selector', () => {
+        const parent = { id: 'parent' } as unknown as HTMLElement;
+        const doc = {
+            querySelector: (selector: string) =>
+                selector === 'header' ? ({ parentElement: parent } as unknown as Element) : null,
+        };
+        expect(resolveCopilotButtonInjectionTarget(doc)).toBe(parent);
+        expect(resolveCopilotButtonInjectionTarget({ querySelector: () => null })).toBeNull();
+        expect(resolveCopilotButtonInjectionTarget(null)).toBeNull();
+    });
+
+    it('should detect generation from the stop button', () => {
+        const docWith = (match: string) => ({
+            querySelector: (selector: string) => (selector === match ? ({} as Element) : null),
+        });
+        expect(isCopilotGeneratingInDom(docWith('button[data-testid="stop-button"]'))).toBeTrue();
+        expect(isCopilotGeneratingInDom(docWith('main'))).toBeFalse();
+    });
+});
@@ -0,0 +1,68 @@
+import { logger } from '@/utils/logger';
+import { copilotDescriptor } from './descriptor';
+
+const BUTTON_TARGET_MISS_LOG_INTERVAL_MS = 8_000;
+let lastButtonTargetMissAt = 0;
+
+export const COPILOT_ENDPOINT_REGISTRY = copilotDescriptor.endpoints;
+
+export const COPILOT_PATH_REGISTRY = {
+    apiHintMarkers: copilotDescriptor.apiHintMarkers,
+} as const;
+
+export const COPILOT_SELECTOR_REGISTRY = copilotDescriptor.selectors;
+
+export const COPILOT_DEFAULT_TITLES = copilotDescriptor.defaultTitles;
+
+const maybeLogButtonTargetMiss = () => {
+    const now = Date.now();
+    if (now - lastButtonTargetMissAt < BUTTON_TARGET_MISS_LOG_INTERVAL_MS) {
+        return;
+    }
+    lastButtonTargetMissAt = now;
+    logger.warn('[Blackiya/Copilot] Button target selectors unmatched', {
+        selectors: [...COPILOT_SELECTOR_REGISTRY.buttonInjectionTargets],
+    });
+};
+
+export const resolveCopilotButtonInjectionTarget = (
+    doc: Pick<Document, 'querySelector'> | null = typeof document === 'undefined' ? null : document,
+): HTMLElement | null => {
+    if (!doc) {
+        return null;
+    }
+    for (const selector of COPILOT_SELECTOR_REGISTRY.buttonInjectionTargets) {
+        const target = doc.querySelector(selector);
+        if (target) {
+            return (target.parentElement || target) as HTMLElement;
+        }
+    }
+    maybeLogButtonTargetMiss();
+    return null;
+};
+
+export const isCopilotGeneratingInDom = (
+    doc: Pick<Document, 'querySelector'> | null = typeof document === 'undefined' ? null : document,
+): boolean => !!doc && COPILOT_SELECTOR_REGISTRY.generatingIndicators.some((selector) => !!doc.querySelector(selector));
+
+/** The chat WebSocket URL (relative `/c/api/chat` paths included). */
+export const isCopilotChatSocketUrl = (url: string): boolean =>
+    COPILOT_ENDPOINT_REGISTRY.completionTriggerPattern.test(url);
+
+/** `wss://` URLs the WebSocket hook should observe. */
+export const isCopilotSocketEndpointUrl = (url: string): boolean =>
+    COPILOT_ENDPOINT_REGISTRY.socketEndpointPattern.test(url);
+
+/** Conversation list and history GETs. */
+export const isCopilotConversationEndpointUrl = (url: string): boolean =>
+    COPILOT_ENDPOINT_REGISTRY.apiEndpointPattern.test(url);
+
+export const isLikelyCopilotApiPath = (url: string): boolean => {
+    let path: string;
+    try {
+        path = new URL(url).pathname.toLowerCase();
+    } catch {
+        path = url.toLowerCase();
+    }
+    return COPILOT_PATH_REGISTRY.apiHintMarkers.some((marker) => path.includes(marker));
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    createCopilotSocketAccumulator,
+    parseCopilotSocketFrame,
+    parseCopilotSocketTranscript,
+} from '@/platforms/copilot/socket-parser';
+
+const CONVERSATION_ID = 'kR3bXq7Z2mVtLp9sHd4wN';
+
+describe('copilot socket-parser', () => {
+    it('should parse typed JSON frames only', () => {
+        expect(parseCopilotSocketFrame('{"event":"done","messageId":"m"}')).toEqual({ event: 'done', messageId: 'm' });
+        expect(parseCopilotSocketFrame('{"type":"ping"}')).toBeNull();
+        expect(parseCopilotSocketFrame('not json')).toBeNull();
+    });
+
+    it('should fold prompt, answer, reasoning and title frames into one turn', () => {
+        const accumulator = createCopilotSocketAccumulator();
+        accumulator.push({
+            event: 'send',
+            conversationId: CONVERSATION_ID,
+            content: [
+                { type: 'text', text: ' Compare ' },
+                { type: 'image', url: 'blob:x' },
+                { type: 'text', text: 'them ' },
+            ],
+        });
+        accumulator.push({ event: 'received', messageId: 'u1', createdAt: '2025-07-01T08:05:00.000Z' });
+        accumulator.push({ event: 'startMessage', messageId: 'a1' });
+        accumulator.push({ event: 'appendReasoning', messageId: 'a1', text: 'Weigh both.' });
+        accumulator.push({ event: 'appendText', messageId: 'a1', text: 'A is ' });
+        accumulator.push({ event: 'appendText', messageId: 'a1', text: 'better.' });
+        accumulator.push({ event: 'titleUpdate', conversationId: CONVERSATION_ID, title: ' Comparison ' });
+
+        expect(accumulator.snapshot()).toMatchObject({
+            conversationId: CONVERSATION_ID,
+            prompt: 'Compare \nthem',
+            userMessageId: 'u1',
+            userCreatedAt: Date.parse('2025-07-01T08:05:00.000Z') / 1000,
+            messageId: 'a1',
+            parts: { text: 'A is better.', reasoning: 'Weigh both.', sources: [] },
+            title: 'Comparison',
+            done: false,
+            error: null,
+        });
+
+        accumulator.push({ event: 'error', message: 'Throttled' });
+        expect(accumulator.snapshot()).toMatchObject({ done: true, error: 'Throttled' });
+    });
+
+    it('should ignore invalid conversation ids and transcripts without an answer', () => {
+        const transcript = [
+            JSON.stringify({ event: 'send', conversationId: 'bad id!', content: [] }),
+            JSON.stringify({ event: 'appendText', messageId: 'a1', text: 'Hi' }),
+        ].join('\n');
+        expect(parseCopilotSocketTranscript(transcript)).toBeNull();
+        expect(
+            parseCopilotSocketTranscript(JSON.stringify({ event: 'send', conversationId: CONVERSATION_ID })),
+        ).toBeNull();
+    });
+});
@@ -0,0 +1,200 @@
+import type { ConversationData, MessageSource } from '@/utils/types';
+import {
+    appendCopilotNode,
+    buildCopilotMessage,
+    type CopilotMessageParts,
+    createCopilotConversationShell,
+    latestModelSlug,
+    rememberCopilotTitle,
+    toCopilotEpochSeconds,
+    toCopilotSources,
+} from './conversation-parser';
+import { copilotState } from './state';
+import { COPILOT_CONVERSATION_ID_PATTERN } from './url-utils';
+
+export type CopilotSocketFrame = Record<string, unknown> & { event: string };
+
+/** One prompt/answer turn folded from the frames of the chat WebSocket. */
+export type CopilotSocketTurn = {
+    conversationId: string | null;
+    prompt: string | null;
+    userMessageId: string | null;
+    userCreatedAt: number | null;
+    messageId: string | null;
+    parts: CopilotMessageParts;
+    title: string | null;
+    done: boolean;
+    error: string | null;
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+    value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+
+const readString = (record: Record<string, unknown> | null, key: string): string | null => {
+    const value = record?.[key];
+    return typeof value === 'string' ? value : null;
+};
+
+const readContentText = (content: unknown) =>
+    (Array.isArray(content) ? content : [])
+        .map((part) => (readString(asRecord(part), 'type') === 'text' ? readString(asRecord(part), 'text') : null))
+        .filter((text): text is string => text !== null)
+        .join('\n')
+        .trim();
+
+/** Parses one text frame (either direction). Returns `null` for non-JSON or untyped frames. */
+export const parseCopilotSocketFrame = (raw: string): CopilotSocketFrame | null => {
+    try {
+        const parsed = asRecord(JSON.parse(raw));
+        return parsed && typeof parsed.event === 'string' ? (parsed as CopilotSocketFrame) : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Folds the frames of one turn into a running snapshot.
+ *
+ * The client `send` frame names the conversation and carries the prompt;
+ * the server acknowledges it with `received` (the prompt's message ID), opens
+ * the answer with `startMessage`, streams `appendText` (and `appendReasoning`
+ * for Think Deeper) plus `citation` frames, may push a `titleUpdate`, and ends
+ * with `done` — or `error`.
+ */
+export const createCopilotSocketAccumulator = () => {
+    const turn = {
+        conversationId: null as string | null,
+        prompt: null as string | null,
+        userMessageId: null as string | null,
+        userCreatedAt: null as number | null,
+        messageId: null as string | null,
+        text: '',
+        reasoning: '',
+        sources: [] as MessageSource[],
+        title: null as string | null,
+        done: false,
+        error: null as string | null,
+    };
+
+    const readConversationId = (frame: CopilotSocketFrame) => {
+        const conversationId = readString(frame, 'conversationId');
+        if (conversationId && COPILOT_CONVERSATION_ID_PATTERN.test(conversationId)) {
+            turn.conversationId = conversationId;
+        }
+    };
+
+    const push = (frame: CopilotSocketFrame) => {
+        switch (frame.event) {
+            case 'send':
+                readConversationId(frame);
+                turn.prompt = readContentText(frame.content) || turn.prompt;
+                break;
+            case 'received':
+                readConversationId(frame);
+                turn.userMessageId = readString(frame, 'messageId') ?? turn.userMessageId;
+                turn.userCreatedAt = toCopilotEpochSeconds(frame.createdAt) ?? turn.userCreatedAt;
+                break;
+            case 'startMessage':
+                turn.messageId = readString(frame, 'messageId') ?? turn.messageId;
+                break;
+            case 'appendText':
+                turn.messageId = readString(frame, 'messageId') ?? turn.messageId;
+                turn.text += readString(frame, 'text') ?? '';
+                break;
+            case 'appendReasoning':
+                turn.reasoning += readString(frame, 'text') ?? '';
+                break;
+            case 'citation':
+                turn.sources.push(...toCopilotSources([frame]));
+                break;
+            case 'titleUpdate':
+                readConversationId(frame);
+                turn.title = readString(frame, 'title')?.trim() || turn.title;
+                break;
+            case 'done':
+                turn.done = true;
+                break;
+            case 'error':
+                turn.error = readString(frame, 'message') || 'Unknown chat socket error';
+                turn.done = true;
+                break;
+        }
+    };
+
+    const snapshot = (): CopilotSocketTurn => ({
+        conversationId: turn.conversationId,
+        prompt: turn.prompt,
+        userMessageId: turn.userMessageId,
+        userCreatedAt: turn.userCreatedAt,
+        messageId: turn.messageId,
+        parts: { text: turn.text, reasoning: turn.reasoning, sources: [...turn.sources] },
+        title: turn.title,
+        done: turn.done,
+        error: turn.error,
+    });
+
+    return { push, snapshot };
+};
+
+/**
+ * Parses a newline-separated transcript of one turn's frames, as recorded by
+ * the interceptor's WebSocket hook. Returns `null` when no answer was streamed.
+ */
+export const parseCopilotSocketTranscript = (text: string): CopilotSocketTurn | null => {
+    const accumulator = createCopilotSocketAccumulator();
+    for (const line of text.split('\n')) {
+        const frame = line.trim() ? parseCopilotSocketFrame(line) : null;
+        if (frame) {
+            accumulator.push(frame);
+        }
+    }
+    const snapshot = accumulator.snapshot();
+    return snapshot.conversationId && (snapshot.messageId || snapshot.parts.text) ? snapshot : null;
+};
+
+/**
+ * Appends a socket turn (prompt, then answer) to the cached conversation (or a
+ * fresh shell). Turns already present from a history payload are updated in place.
+ */
+export const mergeCopilotSocketTurnIntoConversation = (
+    conversationId: string,
+    turn: CopilotSocketTurn,
+): ConversationData => {
+    if (turn.title) {
+        rememberCopilotTitle(conversationId, turn.title);
+    }
+    const cached = copilotState.activeConversations.get(conversationId);
+    const conversation = cached ? structuredClone(cached) : createCopilotConversationShell(conversationId);
+    const nowSeconds = Date.now() / 1000;
+
+    if (turn.prompt) {
+        const userMessageId = turn.userMessageId ?? `copilot-prompt-${conversationId}-${turn.messageId ?? 'pending'}`;
+        appendCopilotNode(conversation, {
+            id: userMessageId,
+            message: buildCopilotMessage({
+                id: userMessageId,
+                role: 'user',
+                parts: { text: turn.prompt, reasoning: '', sources: [] },
+                createTime: turn.userCreatedAt ?? nowSeconds,
+                status: 'finished_successfully',
+            }),
+        });
+    }
+    const messageId = turn.messageId ?? `copilot-stream-${conversationId}`;
+    appendCopilotNode(conversation, {
+        id: messageId,
+        message: buildCopilotMessage({
+            id: messageId,
+            role: 'assistant',
+            parts: turn.parts,
+            createTime: conversation.mapping[messageId]?.message?.create_time ?? nowSeconds,
+            status: turn.error ? 'error' : turn.done ? 'finished_successfully' : 'in_progress',
+        }),
+    });
+    conversation.current_node = messageId;
+    conversation.update_time = nowSeconds;
+    conversation.default_model_slug = latestModelSlug(conversation);
+    conversation.title = copilotState.conversationTitles.get(conversationId) ?? conversation.title;
+    copilotState.activeConversations.set(conversationId, conversation);
+    return conversation;
+};
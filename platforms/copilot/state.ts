@@ -0,0 +1,24 @@
+import { LRUCache } from '@/utils/lru-cache';
+import type { ConversationData } from '@/utils/types';
+
+/**
+ * Encapsulates all mutable adapter state to prevent cross-test/session leakage.
+ * Use `resetCopilotAdapterState()` in tests to get a clean state.
+ */
+export class CopilotAdapterState {
+    /** Maps conversation ID to title */
+    readonly conversationTitles = new LRUCache<string, string>(50);
+    /** Latest parsed conversation per ID, used as the base when a socket turn is merged in */
+    readonly activeConversations = new LRUCache<string, ConversationData>(50);
+
+    reset() {
+        this.conversationTitles.clear();
+        this.activeConversations.clear();
+    }
+}
+
+export const copilotState = new CopilotAdapterState();
+
+export const resetCopilotAdapterState = () => {
+    copilotState.reset();
+};
@@ -0,0 +1,25 @@
+/**
+ * ID patterns and URL utilities for the Microsoft Copilot adapter.
+ */
+
+/** Copilot conversation IDs are opaque URL-safe tokens (e.g. `kR3bXq7Z2mVtLp9sHd4wN`). */
+export const COPILOT_CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{12,64}$/;
+
+const CONVERSATION_PAGE_PATH_PATTERN = /^\/chats\/([^/?#]+)/;
+const HISTORY_API_PATH_PATTERN = /\/c\/api\/conversations\/([^/?#]+)\/history(?:[?#]|$)/i;
+
+const toConversationId = (raw: string | undefined) => (raw && COPILOT_CONVERSATION_ID_PATTERN.test(raw) ? raw : null);
+
+/** Conversation ID from a `/chats/{id}` page path. */
+export const extractCopilotConversationIdFromPath = (pathname: string): string | null =>
+    toConversationId(pathname.match(CONVERSATION_PAGE_PATH_PATTERN)?.[1]);
+
+/**
+ * Extracts the conversation ID from a `c/api/conversations/{id}/history` URL.
+ * Regex-based so relative request URLs seen by the interceptor work too.
+ */
+export const extractCopilotConversationIdFromApiUrl = (url: string): string | null =>
+    toConversationId(url.match(HISTORY_API_PATH_PATTERN)?.[1]);
+
+export const buildCopilotHistoryApiUrl = (conversationId: string) =>
+    `https://copilot.microsoft.com/c/api/conversations/${conversationId}/history?api-version=2`;
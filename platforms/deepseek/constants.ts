@@ -0,0 +1,2 @@
+export const DEEPSEEK_CHAT_MODEL_SLUG = 'deepseek-chat';
+export const DEEPSEEK_REASONER_MODEL_SLUG = 'deepseek-reasoner';
@@ -0,0 +1,304 @@
+import type { ConversationData, Message, MessageContent, MessageNode, MessageSource } from '@/utils/types';
+import { DEEPSEEK_CHAT_MODEL_SLUG, DEEPSEEK_REASONER_MODEL_SLUG } from './constants';
+import { DEEPSEEK_DEFAULT_TITLES } from './registry';
+import { deepseekState } from './state';
+import { DEEPSEEK_SESSION_ID_PATTERN } from './url-utils';
+
+type DeepSeekThought = NonNullable<MessageContent['thoughts']>[number];
+
+/**
+ * Visible answer and R1 reasoning of one message. DeepSeek streams reasoning
+ * separately from the answer (`thinking_content`, or `THINK` fragments).
+ */
+export type DeepSeekMessageParts = {
+    text: string;
+    thinking: string;
+    thinkingElapsedSecs: number | null;
+    sources: MessageSource[];
+};
+
+export type DeepSeekMessageInput = {
+    id: string;
+    role: 'user' | 'assistant';
+    parts: DeepSeekMessageParts;
+    createTime: number | null;
+    updateTime: number | null;
+    status: Message['status'];
+    model: string;
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+    value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+
+const readString = (record: Record<string, unknown> | null, key: string): string | null => {
+    const value = record?.[key];
+    return typeof value === 'string' ? value : null;
+};
+
+const readNumber = (record: Record<string, unknown> | null, key: string): number | null => {
+    const value = record?.[key];
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+};
+
+const readRecords = (value: unknown): Record<string, unknown>[] =>
+    Array.isArray(value) ? value.map(asRecord).filter((item): item is Record<string, unknown> => !!item) : [];
+
+export const tryParseDeepSeekJson = (data: unknown): unknown => {
+    if (typeof data !== 'string') {
+        return data;
+    }
+    try {
+        return JSON.parse(data);
+    } catch {
+        return null;
+    }
+};
+
+export const getDeepSeekRootNodeId = (sessionId: string) => `deepseek-root-${sessionId}`;
+
+/** Message IDs are integers scoped to the session; mapping keys are their string form. */
+export const toDeepSeekNodeId = (messageId: unknown): string | null =>
+    typeof messageId === 'number' && Number.isInteger(messageId) ? String(messageId) : null;
+
+/** `model` is blank on most messages, so the slug falls back to whether R1 thinking was on. */
+export const resolveDeepSeekModelSlug = (model: string | null, thinkingEnabled: boolean) =>
+    model?.trim() || (thinkingEnabled ? DEEPSEEK_REASONER_MODEL_SLUG : DEEPSEEK_CHAT_MODEL_SLUG);
+
+/** `WIP` while generating, `INCOMPLETE` when the user stopped it; anything else unknown is an error. */
+export const toDeepSeekMessageStatus = (status: string | null): Message['status'] => {
+    if (!status || status === 'FINISHED' || status === 'INCOMPLETE') {
+        return 'finished_successfully';
+    }
+    return status === 'WIP' || status === 'PENDING' ? 'in_progress' : 'error';
+};
+
+export const toDeepSeekSources = (searchResults: unknown): MessageSource[] =>
+    readRecords(searchResults)
+        .map((result) => ({
+            title: (readString(result, 'title') ?? '').trim(),
+            url: (readString(result, 'url') ?? '').trim(),
+            snippet: (readString(result, 'snippet') ?? '').trim(),
+        }))
+        .filter((source) => source.url.length > 0)
+        .map((source) => ({ ...source, title: source.title || source.url }));
+
+const readFragmentParts = (fragments: Record<string, unknown>[]): DeepSeekMessageParts => {
+    const texts: string[] = [];
+    const thinking: string[] = [];
+    let thinkingElapsedSecs: number | null = null;
+    const sources: MessageSource[] = [];
+    for (const fragment of fragments) {
+        const content = readString(fragment, 'content') ?? '';
+        switch (readString(fragment, 'type')) {
+            case 'THINK':
+                thinking.push(content);
+                thinkingElapsedSecs = readNumber(fragment, 'elapsed_secs') ?? thinkingElapsedSecs;
+                break;
+            case 'SEARCH':
+                sources.push(...toDeepSeekSources(fragment.results));
+                break;
+            case 'REQUEST':
+            case 'RESPONSE':
+                texts.push(content);
+                break;
+        }
+    }
+    return {
+        text: texts.filter((text) => text.trim()).join('\n\n'),
+        thinking: thinking.filter((text) => text.trim()).join('\n\n'),
+        thinkingElapsedSecs,
+        sources,
+    };
+};
+
+/**
+ * Reads a message's answer, reasoning and search results from either the
+ * `fragments` list or the older flat `content` / `thinking_content` fields.
+ */
+export const readDeepSeekMessageParts = (message: Record<string, unknown>): DeepSeekMessageParts => {
+    if (Array.isArray(message.fragments)) {
+        return readFragmentParts(readRecords(message.fragments));
+    }
+    return {
+        text: readString(message, 'content') ?? '',
+        thinking: readString(message, 'thinking_content') ?? '',
+        thinkingElapsedSecs: readNumber(message, 'thinking_elapsed_secs'),
+        sources: toDeepSeekSources(message.search_results),
+    };
+};
+
+const buildThoughts = (parts: DeepSeekMessageParts, finished: boolean): DeepSeekThought[] => {
+    if (!parts.thinking.trim()) {
+        return [];
+    }
+    const seconds = parts.thinkingElapsedSecs === null ? null : Math.max(1, Math.round(parts.thinkingElapsedSecs));
+    return [
+        {
+            summary: seconds === null ? '' : `Thought for ${seconds} second${seconds === 1 ? '' : 's'}`,
+            content: parts.thinking,
+            chunks: [],
+            finished,
+        },
+    ];
+};
+
+export const buildDeepSeekMessage = (input: DeepSeekMessageInput): Message => {
+    const thoughts = buildThoughts(input.parts, input.status !== 'in_progress');
+    const isAssistant = input.role === 'assistant';
+    return {
+        id: input.id,
+        author: { role: input.role, name: null, metadata: {} },
+        create_time: input.createTime,
+        update_time: input.updateTime,
+        content:
+            thoughts.length > 0
+                ? { content_type: 'thoughts', parts: [input.parts.text], thoughts }
+                : { content_type: 'text', parts: [input.parts.text] },
+        status: input.status,
+        end_turn: isAssistant ? input.status === 'finished_successfully' : null,
+        weight: 1,
+        metadata: isAssistant
+            ? {
+                  model_slug: input.model,
+                  ...(input.parts.sources.length > 0 ? { sources: input.parts.sources } : {}),
+              }
+            : {},
+        recipient: 'all',
+        channel: null,
+    };
+};
+
+export const createDeepSeekConversationShell = (
+    sessionId: string,
+    overrides: Partial<Pick<ConversationData, 'title' | 'create_time' | 'update_time' | 'default_model_slug'>> = {},
+): ConversationData => {
+    const rootId = getDeepSeekRootNodeId(sessionId);
+    const nowSeconds = Date.now() / 1000;
+    return {
+        title: deepseekState.conversationTitles.get(sessionId) ?? DEEPSEEK_DEFAULT_TITLES[0],
+        create_time: nowSeconds,
+        update_time: nowSeconds,
+        mapping: {
+            [rootId]: { id: rootId, message: null, parent: null, children: [] },
+        },
+        conversation_id: sessionId,
+        current_node: rootId,
+        moderation_results: [],
+        plugin_ids: null,
+        gizmo_id: null,
+        gizmo_type: null,
+        is_archived: false,
+        default_model_slug: DEEPSEEK_CHAT_MODEL_SLUG,
+        safe_urls: [],
+        blocked_urls: [],
+        ...overrides,
+    };
+};
+
+export const attachDeepSeekNode = (conversation: ConversationData, node: MessageNode) => {
+    conversation.mapping[node.id] = node;
+    const parent = node.parent ? conversation.mapping[node.parent] : undefined;
+    if (parent && !parent.children.includes(node.id)) {
+        parent.children.push(node.id);
+    }
+};
+
+const toDeepSeekMessage = (message: Record<string, unknown>): Message | null => {
+    const id = toDeepSeekNodeId(message.message_id);
+    if (!id) {
+        return null;
+    }
+    const role = readString(message, 'role') === 'USER' ? 'user' : 'assistant';
+    const insertedAt = readNumber(message, 'inserted_at');
+    return buildDeepSeekMessage({
+        id,
+        role,
+        parts: readDeepSeekMessageParts(message),
+        createTime: insertedAt,
+        updateTime: insertedAt,
+        status: toDeepSeekMessageStatus(readString(message, 'status')),
+        model: resolveDeepSeekModelSlug(readString(message, 'model'), message.thinking_enabled === true),
+    });
+};
+
+export const rememberDeepSeekTitle = (sessionId: string, title: string) => {
+    if (!(DEEPSEEK_DEFAULT_TITLES as readonly string[]).includes(title)) {
+        deepseekState.conversationTitles.set(sessionId, title);
+    }
+};
+
+/** Accepts the full `{ code, data: { biz_data } }` envelope or an already unwrapped `biz_data`. */
+const unwrapBizData = (data: unknown) => {
+    const record = asRecord(tryParseDeepSeekJson(data));
+    return asRecord(asRecord(record?.data)?.biz_data) ?? asRecord(record?.biz_data) ?? record;
+};
+
+const latestModelSlug = (conversation: ConversationData) => {
+    const nodes = Object.values(conversation.mapping).reverse();
+    const assistant = nodes.find((node) => node.message?.author.role === 'assistant');
+    const model = assistant?.message?.metadata.model_slug;
+    return typeof model === 'string' ? model : DEEPSEEK_CHAT_MODEL_SLUG;
+};
+
+/** Attaches history messages in order, each under its parent (or the root); returns the last attached ID. */
+const attachHistoryMessages = (
+    conversation: ConversationData,
+    rawMessages: Record<string, unknown>[],
+    rootId: string,
+): string | null => {
+    let lastId: string | null = null;
+    for (const rawMessage of rawMessages) {
+        const message = toDeepSeekMessage(rawMessage);
+        if (!message) {
+            continue;
+        }
+        const parentId = toDeepSeekNodeId(rawMessage.parent_id);
+        attachDeepSeekNode(conversation, {
+            id: message.id,
+            message,
+            parent: parentId && conversation.mapping[parentId] ? parentId : rootId,
+            children: [],
+        });
+        lastId = message.id;
+    }
+    return lastId;
+};
+
+/**
+ * Parses a `chat/history_messages` payload into ConversationData. Returns `null`
+ * for sessions without messages yet (the title is still cached).
+ */
+export const parseDeepSeekHistoryPayload = (
+    data: unknown,
+    fallbackSessionId: string | null,
+): ConversationData | null => {
+    const bizData = unwrapBizData(data);
+    const session = asRecord(bizData?.chat_session);
+    const sessionId = readString(session, 'id') ?? fallbackSessionId;
+    if (!bizData || !sessionId || !DEEPSEEK_SESSION_ID_PATTERN.test(sessionId)) {
+        return null;
+    }
+    const title = readString(session, 'title')?.trim();
+    if (title) {
+        rememberDeepSeekTitle(sessionId, title);
+    }
+    const rawMessages = readRecords(bizData.chat_messages);
+    if (rawMessages.length === 0) {
+        return null;
+    }
+
+    const createTime = readNumber(session, 'inserted_at');
+    const updateTime = readNumber(session, 'updated_at');
+    const conversation = createDeepSeekConversationShell(sessionId, {
+        ...(title ? { title } : {}),
+        ...(createTime !== null ? { create_time: createTime } : {}),
+        ...(updateTime !== null ? { update_time: updateTime } : {}),
+    });
+    const lastId = attachHistoryMessages(conversation, rawMessages, getDeepSeekRootNodeId(sessionId));
+    const currentId = toDeepSeekNodeId(session?.current_message_id);
+    conversation.current_node =
+        currentId && conversation.mapping[currentId] ? currentId : (lastId ?? conversation.current_node);
+    conversation.default_model_slug = latestModelSlug(conversation);
+    deepseekState.activeConversations.set(sessionId, conversation);
+    return conversation;
+};
@@ -0,0 +1,33 @@
+import type { PlatformDescriptor } from '@/platforms/types';
+
+/**
+ * DeepSeek platform descriptor: hosts, endpoints, selectors and capture
+ * settings consumed through `platforms/descriptors.ts`.
+ */
+export const deepseekDescriptor = {
+    name: 'DeepSeek',
+    parserId: 'deepseek',
+    hosts: ['chat.deepseek.com'],
+    urlMatchPatterns: ['https://chat.deepseek.com/*'],
+    streamProtocol: 'sse',
+    endpoints: {
+        apiEndpointPattern: /\/api\/v0\/chat\/(?:completion|regenerate|resume_stream|history_messages)(?:[?#]|$)/i,
+        completionTriggerPattern: /\/api\/v0\/chat\/(?:completion|regenerate|resume_stream)(?:[?#]|$)/i,
+    },
+    signals: {
+        lifecycleEndpoints: ['completionTriggerPattern'],
+        completionEndpoints: ['apiEndpointPattern'],
+        completionRequiresReadiness: true,
+        streamingOnRequest: true,
+    },
+    apiHintMarkers: ['/api/v0/chat'],
+    selectors: {
+        buttonInjectionTargets: ['#root header', 'header', 'body'],
+        domTitleCandidates: ['[class*="chat-title"]', 'header h1'],
+        generatingIndicators: ['[class*="stop-button"]', 'div[role="button"][aria-label="Stop"]'],
+    },
+    defaultTitles: ['New chat', 'DeepSeek'],
+    capturesPromptHints: true,
+    passiveCaptureWaitMs: 2500,
+    bulkExport: null,
+} as const satisfies PlatformDescriptor;
@@ -0,0 +1,233 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, mock } from 'bun:test';
+import { join } from 'node:path';
+import { extractActiveMessageChain, extractConversationReasoning } from '@/utils/conversation-inspection';
+import { evaluatePayloadQuality } from '@/utils/payload-quality-gate';
+import type { ConversationData } from '@/utils/types';
+
+mock.module('@/utils/logger', () => ({
+    logger: { info: () => {}, warn: () => {}, error: () => {}, debug: () => {} },
+}));
+
+const SESSION_ID = '8e1f2a3b-4c5d-4e6f-9a0b-1c2d3e4f5a6b';
+const HISTORY_URL = `https://chat.deepseek.com/api/v0/chat/history_messages?chat_session_id=${SESSION_ID}`;
+const COMPLETION_URL = 'https://chat.deepseek.com/api/v0/chat/completion';
+
+const messageText = (data: ConversationData | null, id: string) => data?.mapping[id]?.message?.content.parts?.[0];
+
+describe('DeepSeek Adapter — integration', () => {
+    let historyRaw: string;
+    let completionRaw: string;
+    let deepseekAdapter: any;
+    let resetDeepSeekAdapterState: () => void;
+
+    beforeAll(async () => {
+        const module = await import('@/platforms/deepseek');
+        deepseekAdapter = module.deepseekAdapter;
+        resetDeepSeekAdapterState = module.resetDeepSeekAdapterState;
+
+        historyRaw = await Bun.file(
+            join(import.meta.dir, '..', '..', 'data', 'deepseek', 'sample_deepseek_history.json'),
+        ).text();
+        completionRaw = await Bun.file(
+            join(import.meta.dir, '..', '..', 'data', 'deepseek', 'sample_deepseek_completion_stream.txt'),
+        ).text();
+    });
+
+    const originalDocument = (globalThis as { document?: unknown }).document;
+
+    const installDocument = (fields: { title?: string; elements?: Record<string, string> } = {}) => {
+        (globalThis as { document?: unknown }).document = {
+            title: fields.title ?? '',
+            querySelector: (selector: string) =>
+                fields.elements?.[selector] === undefined ? null : { textContent: fields.elements[selector] },
+        };
+    };
+
+    beforeEach(() => {
+        resetDeepSeekAdapterState();
+        installDocument();
+    });
+
+    afterEach(() => {
+        (globalThis as { document?: unknown }).document = originalDocument;
+    });
+
+    it('should identify chat.deepseek.com pages and extract session IDs', () => {
+        expect(deepseekAdapter.isPlatformUrl(`https://chat.deepseek.com/a/chat/s/${SESSION_ID}`)).toBeTrue();
+        expect(deepseekAdapter.isPlatformUrl('https://api.deepseek.com/v1')).toBeFalse();
+        expect(deepseekAdapter.extractConversationId(`https://chat.deepseek.com/a/chat/s/${SESSION_ID}`)).toBe(
+            SESSION_ID,
+        );
+        expect(deepseekAdapter.extractConversationId(`https://chat.deepseek.com/chat/s/${SESSION_ID}`)).toBe(
+            SESSION_ID,
+        );
+        expect(deepseekAdapter.extractConversationId('https://chat.deepseek.com/')).toBeNull();
+        expect(deepseekAdapter.extractConversationId('https://chat.deepseek.com/a/chat/s/not-a-uuid')).toBeNull();
+        expect(deepseekAdapter.extractConversationIdFromUrl(HISTORY_URL)).toBe(SESSION_ID);
+        expect(deepseekAdapter.extractConversationIdFromUrl(COMPLETION_URL)).toBeNull();
+        expect(deepseekAdapter.buildApiUrls(SESSION_ID)).toEqual([HISTORY_URL]);
+        expect(deepseekAdapter.buildApiUrls('not-a-uuid')).toEqual([]);
+    });
+
+    it('should parse history with R1 reasoning as thoughts on the active branch', () => {
+        const data: ConversationData = deepseekAdapter.parseInterceptedData(historyRaw, HISTORY_URL);
+
+        expect(data.conversation_id).toBe(SESSION_ID);
+        expect(data.title).toBe('Multiplying by 17');
+        expect(data.current_node).toBe('5');
+        expect(data.create_time).toBe(1750000000.125);
+        expect(data.mapping['3']?.children).toEqual(['4', '5']);
+        expect(extractActiveMessageChain(data).map((message) => message.id)).toEqual(['1', '2', '3', '5']);
+
+        const first = data.mapping['2']?.message;
+        expect(first?.content.content_type).toBe('thoughts');
+        expect(first?.content.thoughts).toEqual([
+            {
+                summary: 'Thought for 4 seconds',
+                content: '17 * 23 = 17 * 20 + 17 * 3 = 340 + 51 = 391.',
+                chunks: [],
+                finished: true,
+            },
+        ]);
+        expect(first?.metadata.model_slug).toBe('deepseek-reasoner');
+        expect(data.mapping['4']?.message?.metadata.model_slug).toBe('deepseek-chat');
+        expect(data.mapping['5']?.message?.metadata.sources).toEqual([
+            {
+                title: 'Multiplication - Wikipedia',
+                url: 'https://en.wikipedia.org/wiki/Multiplication',
+                snippet: 'Multiplication is one of the four elementary operations.',
+            },
+        ]);
+        expect(deepseekAdapter.evaluateReadiness(data).ready).toBeTrue();
+    });
+
+    it('should pass the payload quality gate for reasoner output', () => {
+        const data: ConversationData = deepseekAdapter.parseInterceptedData(historyRaw, HISTORY_URL);
+
+        expect(extractConversationReasoning(data)).toContain('Add 17 to 391: 391 + 17 = 408.');
+        expect(evaluatePayloadQuality(data, 'DeepSeek')).toMatchObject({
+            passed: true,
+            issues: [],
+            model: 'deepseek-reasoner',
+        });
+    });
+
+    it('should read fragment-style messages', () => {
+        const payload = {
+            chat_session: { id: SESSION_ID, title: 'New chat', current_message_id: 2 },
+            chat_messages: [
+                { message_id: 1, parent_id: null, role: 'USER', fragments: [{ type: 'REQUEST', content: 'Hi' }] },
+                {
+                    message_id: 2,
+                    parent_id: 1,
+                    role: 'ASSISTANT',
+                    model: '',
+                    thinking_enabled: true,
+                    status: 'FINISHED',
+                    fragments: [
+                        { type: 'THINK', content: 'A greeting.', elapsed_secs: 0.3 },
+                        { type: 'RESPONSE', content: 'Hello!' },
+                    ],
+                },
+            ],
+        };
+        const data: ConversationData = deepseekAdapter.parseInterceptedData(JSON.stringify(payload), HISTORY_URL);
+
+        expect(data.title).toBe('New chat');
+        expect(messageText(data, '1')).toBe('Hi');
+        expect(messageText(data, '2')).toBe('Hello!');
+        expect(data.mapping['2']?.message?.content.thoughts?.[0]).toMatchObject({
+            summary: 'Thought for 1 second',
+            content: 'A greeting.',
+        });
+    });
+
+    it('should return null for sessions without messages but keep their title', () => {
+        const payload = JSON.stringify({ chat_session: { id: SESSION_ID, title: 'Fresh chat' }, chat_messages: [] });
+        expect(deepseekAdapter.parseInterceptedData(payload, HISTORY_URL)).toBeNull();
+
+        const data: ConversationData = deepseekAdapter.parseInterceptedData(
+            completionRaw.replace('"content":"Multiplying by 17"', '"content":""'),
+            COMPLETION_URL,
+            SESSION_ID,
+        );
+        expect(data.conversation_id).toBe(SESSION_ID);
+        expect(data.title).toBe('Fresh chat');
+    });
+
+    it('should merge a completion stream into the cached session', () => {
+        deepseekAdapter.parseInterceptedData(historyRaw, HISTORY_URL);
+        const data: ConversationData = deepseekAdapter.parseInterceptedData(completionRaw, COMPLETION_URL, SESSION_ID);
+
+        expect(data.current_node).toBe('7');
+        expect(data.mapping['7']?.parent).toBe('6');
+        expect(data.mapping['6']).toMatchObject({ message: null, parent: '5', children: ['7'] });
+        expect(messageText(data, '7')).toBe('17 × 48 = **816**.');
+        expect(data.mapping['7']?.message?.content.thoughts?.[0]).toMatchObject({
+            summary: 'Thought for 1 second',
+            content: 'Double 408 to get 816.',
+            finished: true,
+        });
+        expect(data.mapping['7']?.message?.status).toBe('finished_successfully');
+        expect(evaluatePayloadQuality(data, 'DeepSeek').issues).toEqual([]);
+        expect(deepseekAdapter.evaluateReadiness(data).ready).toBeTrue();
+    });
+
+    it('should ignore completion streams when no session is known', () => {
+        expect(deepseekAdapter.parseInterceptedData(completionRaw, COMPLETION_URL)).toBeNull();
+    });
+
+    describe('completion streams of a new chat started from /', () => {
+        const NEW_SESSION_ID = '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d';
+        const originalWindow = (globalThis as { window?: unknown }).window;
+
+        beforeEach(() => {
+            (globalThis as { window?: unknown }).window = { location: new URL('https://chat.deepseek.com/') };
+            // The user viewed another session before opening a new chat.
+            deepseekAdapter.parseInterceptedData(historyRaw, HISTORY_URL);
+        });
+
+        afterEach(() => {
+            (globalThis as { window?: unknown }).window = originalWindow;
+        });
+
+        it('should attribute the stream to the session named by the request body', () => {
+            const data: ConversationData = deepseekAdapter.parseInterceptedData(
+                completionRaw,
+                COMPLETION_URL,
+                NEW_SESSION_ID,
+            );
+            expect(data.conversation_id).toBe(NEW_SESSION_ID);
+            // Nothing from the viewed session is merged in: the prompt node hangs off the new root.
+            expect(data.mapping['6']?.parent).toBe(`deepseek-root-${NEW_SESSION_ID}`);
+            expect(data.mapping['5']).toBeUndefined();
+            expect(messageText(data, '7')).toBe('17 × 48 = **816**.');
+        });
+
+        it('should not fall back to the last viewed session', () => {
+            expect(deepseekAdapter.parseInterceptedData(completionRaw, COMPLETION_URL)).toBeNull();
+        });
+
+        it('should read the session ID from the completion request body', () => {
+            const body = JSON.stringify({ chat_session_id: NEW_SESSION_ID, prompt: 'hi' });
+            expect(deepseekAdapter.extractConversationIdFromRequestBody(body)).toBe(NEW_SESSION_ID);
+        });
+    });
+
+    it('should resolve titles from document.title before header candidates', () => {
+        installDocument({ title: 'Multiplying by 17 - DeepSeek' });
+        expect(deepseekAdapter.extractTitleFromDom()).toBe('Multiplying by 17');
+
+        installDocument({ title: 'DeepSeek - Into the Unknown', elements: { 'header h1': ' Header  title ' } });
+        expect(deepseekAdapter.extractTitleFromDom()).toBe('Header title');
+
+        installDocument({ title: 'DeepSeek', elements: { 'header h1': 'New chat' } });
+        expect(deepseekAdapter.extractTitleFromDom()).toBeNull();
+    });
+
+    it('should format filenames from the title or the session id', () => {
+        const data = deepseekAdapter.parseInterceptedData(historyRaw, HISTORY_URL);
+        expect(deepseekAdapter.formatFilename(data)).toStartWith('Multiplying_by_17_');
+        expect(deepseekAdapter.formatFilename({ ...data, title: '' })).toStartWith('deepseek_chat_8e1f2a3b_');
+    });
+});
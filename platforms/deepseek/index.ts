@@ -0,0 +1,196 @@
+/**
+ * DeepSeek Platform Adapter
+ *
+ * Supports chat.deepseek.com sessions across:
+ * - chat/history_messages?chat_session_id={uuid} (full session JSON)
+ * - chat/completion, regenerate and resume_stream (SSE generation stream)
+ *
+ * R1 reasoning arrives separately from the answer and is kept as `thoughts` content.
+ * The completion URL does not name its session, so the stream is attributed to the
+ * `chat_session_id` of the request body (forwarded by the interceptor), falling back
+ * to the session in the page URL.
+ */
+
+import type { LLMPlatform } from '@/platforms/types';
+import { evaluateActiveChainReadiness } from '@/utils/conversation-readiness';
+import { generateTimestamp, sanitizeFilename } from '@/utils/download';
+import { logger } from '@/utils/logger';
+import type { ConversationData } from '@/utils/types';
+import { parseDeepSeekHistoryPayload } from './conversation-parser';
+import { deepseekDescriptor } from './descriptor';
+import { extractDeepSeekPromptFromRequestBody, extractDeepSeekSessionIdFromRequestBody } from './prompt-extractor';
+import {
+    DEEPSEEK_DEFAULT_TITLES,
+    DEEPSEEK_ENDPOINT_REGISTRY,
+    DEEPSEEK_SELECTOR_REGISTRY,
+    isDeepSeekCompletionEndpointUrl,
+    isDeepSeekGeneratingInDom,
+    resolveDeepSeekButtonInjectionTarget,
+} from './registry';
+import { mergeDeepSeekCompletionIntoConversation, parseDeepSeekCompletionStream } from './sse-parser';
+import {
+    buildDeepSeekHistoryApiUrl,
+    DEEPSEEK_SESSION_ID_PATTERN,
+    extractDeepSeekSessionIdFromApiUrl,
+    extractDeepSeekSessionIdFromPath,
+} from './url-utils';
+
+export { DeepSeekAdapterState, deepseekState, resetDeepSeekAdapterState } from './state';
+
+const MAX_TITLE_LENGTH = 80;
+const DEEPSEEK_GENERIC_DOM_TITLES = new Set(['deepseek', 'deepseek - into the unknown']);
+
+const normalizeDomTitle = (value: string | null | undefined): string => value?.replace(/\s+/g, ' ').trim() ?? '';
+
+const normalizeDeepSeekDomTitleCandidate = (raw: string, defaultTitles: readonly string[]): string | null => {
+    const normalized = normalizeDomTitle(raw);
+    if (!normalized) {
+        return null;
+    }
+    const lower = normalized.toLowerCase();
+    if (DEEPSEEK_GENERIC_DOM_TITLES.has(lower)) {
+        return null;
+    }
+    if (defaultTitles.some((title) => normalizeDomTitle(title).toLowerCase() === lower)) {
+        return null;
+    }
+    return normalized;
+};
+
+const queryDeepSeekTitleFromDom = (defaultTitles: readonly string[]): string | null => {
+    for (const selector of DEEPSEEK_SELECTOR_REGISTRY.domTitleCandidates) {
+        const normalized = normalizeDeepSeekDomTitleCandidate(
+            document.querySelector(selector)?.textContent ?? '',
+            defaultTitles,
+        );
+        if (normalized) {
+            return normalized;
+        }
+    }
+    return null;
+};
+
+const isDeepSeekHost = (hostname: string) => hostname === 'chat.deepseek.com';
+
+const resolveStreamSessionId = (requestSessionId: string | undefined, pageUrl: string | null): string | null => {
+    if (requestSessionId && DEEPSEEK_SESSION_ID_PATTERN.test(requestSessionId)) {
+        return requestSessionId;
+    }
+    if (!pageUrl) {
+        return null;
+    }
+    try {
+        return extractDeepSeekSessionIdFromPath(new URL(pageUrl).pathname);
+    } catch {
+        return null;
+    }
+};
+
+const parseCompletionPayload = (data: unknown, sessionId: string | null): ConversationData | null => {
+    if (typeof data !== 'string' || !sessionId) {
+        return null;
+    }
+    const snapshot = parseDeepSeekCompletionStream(data);
+    return snapshot ? mergeDeepSeekCompletionIntoConversation(sessionId, snapshot) : null;
+};
+
+export const deepseekAdapter: LLMPlatform = {
+    name: deepseekDescriptor.name,
+    urlMatchPattern: deepseekDescriptor.urlMatchPatterns[0],
+
+    apiEndpointPattern: DEEPSEEK_ENDPOINT_REGISTRY.apiEndpointPattern,
+    completionTriggerPattern: DEEPSEEK_ENDPOINT_REGISTRY.completionTriggerPattern,
+
+    isPlatformUrl(url: string): boolean {
+        try {
+            return isDeepSeekHost(new URL(url).hostname);
+        } catch {
+            return false;
+        }
+    },
+
+    extractConversationId(url: string): string | null {
+        try {
+            const urlObj = new URL(url);
+            return isDeepSeekHost(urlObj.hostname) ? extractDeepSeekSessionIdFromPath(urlObj.pathname) : null;
+        } catch {
+            return null;
+        }
+    },
+
+    extractConversationIdFromUrl(url: string): string | null {
+        return extractDeepSeekSessionIdFromApiUrl(url);
+    },
+
+    buildApiUrls(conversationId: string): string[] {
+        return DEEPSEEK_SESSION_ID_PATTERN.test(conversationId) ? [buildDeepSeekHistoryApiUrl(conversationId)] : [];
+    },
+
+    extractConversationIdFromRequestBody(body: unknown): string | null {
+        return extractDeepSeekSessionIdFromRequestBody(body);
+    },
+
+    extractPromptFromRequestBody(body: unknown): string | null {
+        return extractDeepSeekPromptFromRequestBody(body);
+    },
+
+    parseInterceptedData(data: string | any, url: string, requestConversationId?: string): ConversationData | null {
+        const completion = isDeepSeekCompletionEndpointUrl(url);
+        logger.info('[Blackiya/DeepSeek] parseInterceptedData entry', {
+            sessionId: extractDeepSeekSessionIdFromApiUrl(url),
+            completion,
+            dataLen: typeof data === 'string' ? data.length : -1,
+        });
+
+        if (completion) {
+            return parseCompletionPayload(
+                data,
+                resolveStreamSessionId(
+                    requestConversationId,
+                    typeof window === 'undefined' ? null : window.location.href,
+                ),
+            );
+        }
+        return parseDeepSeekHistoryPayload(data, extractDeepSeekSessionIdFromApiUrl(url));
+    },
+
+    formatFilename(data: ConversationData): string {
+        let title = data.title || '';
+        if (!title.trim()) {
+            const idPart =
+                data.conversation_id && data.conversation_id.length >= 8
+                    ? data.conversation_id.slice(0, 8)
+                    : data.conversation_id || 'unknown';
+            title = `deepseek_chat_${idPart}`;
+        }
+        const sanitizedTitle = sanitizeFilename(title).slice(0, MAX_TITLE_LENGTH);
+        const timestamp = generateTimestamp(data.update_time || data.create_time);
+        return `${sanitizedTitle}_${timestamp}`;
+    },
+
+    getButtonInjectionTarget(): HTMLElement | null {
+        return resolveDeepSeekButtonInjectionTarget();
+    },
+
+    evaluateReadiness(data: ConversationData) {
+        return evaluateActiveChainReadiness(data);
+    },
+
+    isPlatformGenerating() {
+        return isDeepSeekGeneratingInDom();
+    },
+
+    defaultTitles: DEEPSEEK_DEFAULT_TITLES,
+
+    extractTitleFromDom(): string | null {
+        const defaultTitles = this.defaultTitles ?? [];
+        const titleFromPage = normalizeDeepSeekDomTitleCandidate(
+            normalizeDomTitle(document.title).replace(/\s*-\s*DeepSeek$/i, ''),
+            defaultTitles,
+        );
+        if (titleFromPage) {
+            return titleFromPage;
+        }
+        return queryDeepSeekTitleFromDom(defaultTitles);
+    },
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    extractDeepSeekPromptFromRequestBody,
+    extractDeepSeekSessionIdFromRequestBody,
+} from '@/platforms/deepseek/prompt-extractor';
+
+const SESSION_ID = '8e1f2a3b-4c5d-4e6f-9a0b-1c2d3e4f5a6b';
+
+describe('deepseek prompt-extractor', () => {
+    it('should return the trimmed prompt and session id from a completion body', () => {
+        const body = JSON.stringify({ chat_session_id: SESSION_ID, parent_message_id: 5, prompt: '  17 * 48?  ' });
+        expect(extractDeepSeekPromptFromRequestBody(body)).toBe('17 * 48?');
+        expect(extractDeepSeekSessionIdFromRequestBody(body)).toBe(SESSION_ID);
+    });
+
+    it('should return null for regenerate bodies, invalid sessions and non-JSON bodies', () => {
+        expect(extractDeepSeekPromptFromRequestBody(JSON.stringify({ chat_session_id: SESSION_ID }))).toBeNull();
+        expect(extractDeepSeekPromptFromRequestBody(JSON.stringify({ prompt: '   ' }))).toBeNull();
+        expect(extractDeepSeekSessionIdFromRequestBody(JSON.stringify({ chat_session_id: 'abc' }))).toBeNull();
+        expect(extractDeepSeekPromptFromRequestBody('not json')).toBeNull();
+        expect(extractDeepSeekSessionIdFromRequestBody(new Blob(['x']))).toBeNull();
+    });
+});
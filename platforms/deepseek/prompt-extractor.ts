@@ -0,0 +1,43 @@
+/**
+ * DeepSeek Prompt Extractor
+ *
+ * Reads the JSON body POSTed to `chat/completion`:
+ *
+ *   { "chat_session_id": "<uuid>", "parent_message_id": 2, "prompt": "<user_prompt_text>", ... }
+ *
+ * The completion URL carries no session ID, so the body is also where the
+ * interceptor learns which conversation a stream belongs to. `regenerate`
+ * bodies carry no prompt and yield a `null` prompt.
+ *
+ * @module platforms/deepseek/prompt-extractor
+ */
+
+import { DEEPSEEK_SESSION_ID_PATTERN } from './url-utils';
+
+const parseBody = (body: unknown): Record<string, unknown> | null => {
+    if (typeof body !== 'string' || body.length === 0) {
+        return null;
+    }
+    try {
+        const parsed: unknown = JSON.parse(body);
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+            ? (parsed as Record<string, unknown>)
+            : null;
+    } catch {
+        return null;
+    }
+};
+
+export const extractDeepSeekPromptFromRequestBody = (body: unknown): string | null => {
+    const prompt = parseBody(body)?.prompt;
+    if (typeof prompt !== 'string') {
+        return null;
+    }
+    const trimmed = prompt.trim();
+    return trimmed.length > 0 ? trimmed : null;
+};
+
+export const extractDeepSeekSessionIdFromRequestBody = (body: unknown): string | null => {
+    const sessionId = parseBody(body)?.chat_session_id;
+    return typeof sessionId === 'string' && DEEPSEEK_SESSION_ID_PATTERN.test(sessionId) ? sessionId : null;
+};
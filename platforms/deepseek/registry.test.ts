@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    isDeepSeekCompletionEndpointUrl,
+    isDeepSeekConversationEndpointUrl,
+    isDeepSeekGeneratingInDom,
+    isLikelyDeepSeekApiPath,
+    resolveDeepSeekButtonInjectionTarget,
+} from '@/platforms/deepseek/registry';
+
+describe('deepseek registry', () => {
+    it('should classify completion and history endpoints, including relative URLs', () => {
+        expect(isDeepSeekCompletionEndpointUrl('https://chat.deepseek.com/api/v0/chat/completion')).toBeTrue();
+        expect(isDeepSeekCompletionEndpointUrl('/api/v0/chat/regenerate')).toBeTrue();
+        expect(isDeepSeekCompletionEndpointUrl('/api/v0/chat/resume_stream')).toBeTrue();
+        expect(isDeepSeekCompletionEndpointUrl('/api/v0/chat/history_messages?chat_session_id=x')).toBeFalse();
+        expect(isDeepSeekConversationEndpointUrl('/api/v0/chat/history_messages?chat_session_id=x')).toBeTrue();
+        expect(isDeepSeekConversationEndpointUrl('/api/v0/chat/create_pow_challenge')).toBeFalse();
+        expect(isDeepSeekConversationEndpointUrl('/api/v0/chat_session/fetch_page?count=50')).toBeFalse();
+        expect(isLikelyDeepSeekApiPath('https://chat.deepseek.com/api/v0/chat/edit_message')).toBeTrue();
+        expect(isLikelyDeepSeekApiPath('https://chat.deepseek.com/a/chat/s/abc')).toBeFalse();
+    });
+
+    it('should resolve the button target from the first matching selector', () => {
+        const parent = { id: 'parent' } as unknown as HTMLElement;
+        const doc = {
+            querySelector: (selector: string) =>
+                selector === 'header' ? ({ parentElement: parent } as unknown as Element) : null,
+        };
+        expect(resolveDeepSeekButtonInjectionTarget(doc)).toBe(parent);
+        expect(resolveDeepSeekButtonInjectionTarget({ querySelector: () => null })).toBeNull();
+        expect(resolveDeepSeekButtonInjectionTarget(null)).toBeNull();
+    });
+
+    it('should detect generation from the stop button', () => {
+        const docWith = (match: string) => ({
+            querySelector: (selector: string) => (selector === match ? ({} as Element) : null),
+        });
+        expect(isDeepSeekGeneratingInDom(docWith('[class*="stop-button"]'))).toBeTrue();
+        expect(isDeepSeekGeneratingInDom(docWith('main'))).toBeFalse();
+    });
+});
@@ -0,0 +1,65 @@
+import { logger } from '@/utils/logger';
+import { deepseekDescriptor } from './descriptor';
+
+const BUTTON_TARGET_MISS_LOG_INTERVAL_MS = 8_000;
+let lastButtonTargetMissAt = 0;
+
+export const DEEPSEEK_ENDPOINT_REGISTRY = deepseekDescriptor.endpoints;
+
+export const DEEPSEEK_PATH_REGISTRY = {
+    apiHintMarkers: deepseekDescriptor.apiHintMarkers,
+} as const;
+
+export const DEEPSEEK_SELECTOR_REGISTRY = deepseekDescriptor.selectors;
+
+export const DEEPSEEK_DEFAULT_TITLES = deepseekDescriptor.defaultTitles;
+
+const maybeLogButtonTargetMiss = () => {
+    const now = Date.now();
+    if (now - lastButtonTargetMissAt < BUTTON_TARGET_MISS_LOG_INTERVAL_MS) {
+        return;
+    }
+    lastButtonTargetMissAt = now;
+    logger.warn('[Blackiya/DeepSeek] Button target selectors unmatched', {
+        selectors: [...DEEPSEEK_SELECTOR_REGISTRY.buttonInjectionTargets],
+    });
+};
+
+export const resolveDeepSeekButtonInjectionTarget = (
+    doc: Pick<Document, 'querySelector'> | null = typeof document === 'undefined' ? null : document,
+): HTMLElement | null => {
+    if (!doc) {
+        return null;
+    }
+    for (const selector of DEEPSEEK_SELECTOR_REGISTRY.buttonInjectionTargets) {
+        const target = doc.querySelector(selector);
+        if (target) {
+            return (target.parentElement || target) as HTMLElement;
+        }
+    }
+    maybeLogButtonTargetMiss();
+    return null;
+};
+
+export const isDeepSeekGeneratingInDom = (
+    doc: Pick<Document, 'querySelector'> | null = typeof document === 'undefined' ? null : document,
+): boolean =>
+    !!doc && DEEPSEEK_SELECTOR_REGISTRY.generatingIndicators.some((selector) => !!doc.querySelector(selector));
+
+/** `completion`, `regenerate` and `resume_stream` POSTs — the SSE generation requests. */
+export const isDeepSeekCompletionEndpointUrl = (url: string): boolean =>
+    DEEPSEEK_ENDPOINT_REGISTRY.completionTriggerPattern.test(url);
+
+/** History GETs and completion POSTs. */
+export const isDeepSeekConversationEndpointUrl = (url: string): boolean =>
+    DEEPSEEK_ENDPOINT_REGISTRY.apiEndpointPattern.test(url);
+
+export const isLikelyDeepSeekApiPath = (url: string): boolean => {
+    let path: string;
+    try {
+        path = new URL(url).pathname.toLowerCase();
+    } catch {
+        path = url.toLowerCase();
+    }
+    return DEEPSEEK_PATH_REGISTRY.apiHintMarkers.some((marker) => path.includes(marker));
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    createDeepSeekCompletionAccumulator,
+    parseDeepSeekCompletionStream,
+    parseDeepSeekSseFrame,
+    splitDeepSeekSseFrames,
+} from '@/platforms/deepseek/sse-parser';
+
+const frame = (payload: unknown, event?: string) =>
+    `${event ? `event: ${event}\r\n` : ''}data: ${JSON.stringify(payload)}\r\n\r\n`;
+
+describe('deepseek sse-parser', () => {
+    it('should split CRLF frames and parse events, JSON and the [DONE] sentinel', () => {
+        const { frames, remainingBuffer } = splitDeepSeekSseFrames(`${frame({ v: 'a' })}data: {"v`);
+        expect(frames).toEqual(['data: {"v":"a"}']);
+        expect(remainingBuffer).toBe('data: {"v');
+        expect(parseDeepSeekSseFrame('event: ready\ndata: {"response_message_id":2}')).toEqual({
+            event: 'ready',
+            data: { response_message_id: 2 },
+        });
+        expect(parseDeepSeekSseFrame('event: finish')).toEqual({ event: 'finish', data: null });
+        expect(parseDeepSeekSseFrame('data: [DONE]')).toEqual({ event: 'message', data: '[DONE]' });
+        expect(parseDeepSeekSseFrame(': keep-alive')).toBeNull();
+        expect(parseDeepSeekSseFrame('data: {broken')).toBeNull();
+    });
+
+    it('should apply patch operations to fragments, including batches and negative indexes', () => {
+        const accumulator = createDeepSeekCompletionAccumulator();
+        accumulator.push({ event: 'ready', data: { request_message_id: 1, response_message_id: 2 } });
+        accumulator.push({
+            event: 'message',
+            data: {
+                v: {
+                    response: { thinking_enabled: true, status: 'WIP', fragments: [{ type: 'THINK', content: 'Hm' }] },
+                },
+            },
+        });
+        accumulator.push({ event: 'message', data: { p: 'response/fragments/-1/content', o: 'APPEND', v: 'm.' } });
+        accumulator.push({
+            event: 'message',
+            data: { p: 'response/fragments', o: 'APPEND', v: [{ type: 'RESPONSE', content: 'Hi' }] },
+        });
+        accumulator.push({ event: 'message', data: { p: 'response/fragments/-1/content', o: 'APPEND', v: ' there' } });
+        accumulator.push({ event: 'message', data: { v: '!' } });
+        expect(accumulator.snapshot()).toMatchObject({
+            messageId: '2',
+            parentId: '1',
+            model: 'deepseek-reasoner',
+            parts: { text: 'Hi there!', thinking: 'Hmm.' },
+            done: false,
+        });
+
+        accumulator.push({
+            event: 'message',
+            data: {
+                p: 'response',
+                o: 'BATCH',
+                v: [
+                    { p: 'fragments/-2/elapsed_secs', v: 2 },
+                    { p: 'status', v: 'FINISHED' },
+                ],
+            },
+        });
+        expect(accumulator.snapshot()).toMatchObject({ parts: { thinkingElapsedSecs: 2 }, done: true });
+    });
+
+    it('should fold the older OpenAI-style stream with thinking deltas', () => {
+        const chunk = (content: string, type: string, finish?: string) =>
+            frame({
+                message_id: 4,
+                parent_id: 3,
+                choices: [{ index: 0, delta: { content, type }, ...(finish ? { finish_reason: finish } : {}) }],
+            });
+        const snapshot = parseDeepSeekCompletionStream(
+            chunk('Think', 'thinking') +
+                chunk('ing.', 'thinking') +
+                chunk('Answer', 'text') +
+                chunk('', 'text', 'stop'),
+        );
+        expect(snapshot).toMatchObject({
+            messageId: '4',
+            parentId: '3',
+            model: 'deepseek-reasoner',
+            parts: { text: 'Answer', thinking: 'Thinking.' },
+            done: true,
+        });
+    });
+
+    it('should surface stream errors and ignore bodies without a message', () => {
+        const errored = parseDeepSeekCompletionStream(
+            frame({ request_message_id: 1, response_message_id: 2 }, 'ready') + frame({ msg: 'Server busy' }, 'error'),
+        );
+        expect(errored).toMatchObject({ done: true, error: 'Server busy' });
+        expect(parseDeepSeekCompletionStream(frame({ updated_at: 1 }, 'update_session'))).toBeNull();
+    });
+});
@@ -0,0 +1,321 @@
+import type { ConversationData } from '@/utils/types';
+import {
+    attachDeepSeekNode,
+    buildDeepSeekMessage,
+    createDeepSeekConversationShell,
+    type DeepSeekMessageParts,
+    getDeepSeekRootNodeId,
+    readDeepSeekMessageParts,
+    rememberDeepSeekTitle,
+    resolveDeepSeekModelSlug,
+    toDeepSeekNodeId,
+} from './conversation-parser';
+import { deepseekState } from './state';
+
+export type DeepSeekSseFrame = {
+    event: string;
+    data: unknown;
+};
+
+export type DeepSeekCompletionSnapshot = {
+    messageId: string | null;
+    parentId: string | null;
+    model: string;
+    parts: DeepSeekMessageParts;
+    title: string | null;
+    done: boolean;
+    error: string | null;
+};
+
+const DONE_SENTINEL = '[DONE]';
+const TERMINAL_STATUSES = new Set(['FINISHED', 'INCOMPLETE']);
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+    value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+
+const readString = (record: Record<string, unknown> | null, key: string): string | null => {
+    const value = record?.[key];
+    return typeof value === 'string' ? value : null;
+};
+
+/** Splits a buffer on blank lines, returning complete SSE frames and the unterminated tail. */
+export const splitDeepSeekSseFrames = (buffer: string): { frames: string[]; remainingBuffer: string } => {
+    const normalized = buffer.replace(/\r\n/g, '\n');
+    const frames = normalized.split('\n\n');
+    const remainingBuffer = frames.pop() ?? '';
+    return { frames, remainingBuffer };
+};
+
+/**
+ * Event name (default `message`) and payload of one SSE frame. The payload is
+ * parsed JSON, or the `[DONE]` sentinel of the older OpenAI-style stream.
+ * Returns `null` for comments, keep-alives and malformed data.
+ */
+export const parseDeepSeekSseFrame = (frame: string): DeepSeekSseFrame | null => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) {
+            event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+            dataLines.push(line.slice(5).trim());
+        }
+    }
+    const data = dataLines.join('\n');
+    if (!data) {
+        return event === 'message' ? null : { event, data: null };
+    }
+    if (data === DONE_SENTINEL) {
+        return { event, data: DONE_SENTINEL };
+    }
+    try {
+        return { event, data: JSON.parse(data) };
+    } catch {
+        return null;
+    }
+};
+
+const resolveIndex = (container: unknown[], segment: string) => {
+    const index = Number(segment);
+    return index < 0 ? container.length + index : index;
+};
+
+/** Walks `a/b/-1/c` to the object or array holding `c`, resolving negative array indexes. */
+const resolvePatchTarget = (root: Record<string, unknown>, path: string) => {
+    const segments = path.split('/').filter(Boolean);
+    const key = segments.pop();
+    let current: unknown = root;
+    for (const segment of segments) {
+        current = Array.isArray(current) ? current[resolveIndex(current, segment)] : asRecord(current)?.[segment];
+    }
+    if (key === undefined || !current || typeof current !== 'object') {
+        return null;
+    }
+    return {
+        container: current as Record<string | number, unknown>,
+        key: Array.isArray(current) ? resolveIndex(current, key) : key,
+    };
+};
+
+const resolvePatchedValue = (existing: unknown, op: string, value: unknown) => {
+    if (op === 'APPEND' && typeof value === 'string') {
+        return `${typeof existing === 'string' ? existing : ''}${value}`;
+    }
+    if (op === 'APPEND' && Array.isArray(value)) {
+        return [...(Array.isArray(existing) ? existing : []), ...value];
+    }
+    return value;
+};
+
+/**
+ * Applies one operation of DeepSeek's JSON-patch-like stream (`SET`, `APPEND`,
+ * or `BATCH` of sub-operations relative to `path`) to the response document.
+ */
+const applyPatch = (root: Record<string, unknown>, path: string, op: string, value: unknown) => {
+    if (op === 'BATCH') {
+        for (const item of Array.isArray(value) ? value : []) {
+            const sub = asRecord(item);
+            const subPath = readString(sub, 'p');
+            if (subPath !== null) {
+                applyPatch(root, `${path}/${subPath}`, readString(sub, 'o') ?? 'SET', sub?.v);
+            }
+        }
+        return;
+    }
+    const target = resolvePatchTarget(root, path);
+    if (target) {
+        target.container[target.key] = resolvePatchedValue(target.container[target.key], op, value);
+    }
+};
+
+/**
+ * Folds DeepSeek completion frames into a running assistant-message snapshot.
+ *
+ * Two stream shapes are understood:
+ * - the current patch stream: `ready` names the message IDs, `{ v: { response } }`
+ *   seeds the message, then `{ p, o, v }` operations (a bare `{ v }` continues the
+ *   previous path) grow `content`/`thinking_content` or `fragments`; `title` carries
+ *   the generated title and `finish`/`close` or a terminal `response/status` end it
+ * - the older OpenAI-style stream: `choices[0].delta` with `type: 'thinking' | 'text'`
+ *   and `[DONE]`
+ */
+export const createDeepSeekCompletionAccumulator = () => {
+    const document: Record<string, unknown> = { response: {} };
+    const legacy = { text: '', thinking: '' };
+    const state = {
+        messageId: null as string | null,
+        parentId: null as string | null,
+        title: null as string | null,
+        done: false,
+        error: null as string | null,
+    };
+    let lastPath: string | null = null;
+    let lastOp = 'SET';
+
+    const applyPatchPayload = (payload: Record<string, unknown>) => {
+        const path = readString(payload, 'p');
+        if (path === null && lastPath === null) {
+            const seed = asRecord(asRecord(payload.v)?.response);
+            if (seed) {
+                document.response = seed;
+            }
+            return;
+        }
+        if (path !== null) {
+            lastPath = path;
+            lastOp = readString(payload, 'o') ?? 'SET';
+        }
+        applyPatch(document, lastPath as string, lastOp, payload.v);
+    };
+
+    const applyLegacyChunk = (payload: Record<string, unknown>) => {
+        state.messageId = toDeepSeekNodeId(payload.message_id) ?? state.messageId;
+        state.parentId = toDeepSeekNodeId(payload.parent_id) ?? state.parentId;
+        const choice = asRecord(Array.isArray(payload.choices) ? payload.choices[0] : null);
+        const delta = asRecord(choice?.delta);
+        const content = readString(delta, 'content') ?? '';
+        if (readString(delta, 'type') === 'thinking') {
+            legacy.thinking += content;
+        } else {
+            legacy.text += content;
+        }
+        if (readString(choice, 'finish_reason')) {
+            state.done = true;
+        }
+    };
+
+    const applyMessage = (data: unknown) => {
+        if (data === DONE_SENTINEL) {
+            state.done = true;
+            return;
+        }
+        const payload = asRecord(data);
+        if (!payload) {
+            return;
+        }
+        if (Array.isArray(payload.choices)) {
+            applyLegacyChunk(payload);
+        } else if ('v' in payload) {
+            applyPatchPayload(payload);
+        }
+    };
+
+    const push = (frame: DeepSeekSseFrame) => {
+        const data = asRecord(frame.data);
+        switch (frame.event) {
+            case 'ready':
+                state.messageId = toDeepSeekNodeId(data?.response_message_id) ?? state.messageId;
+                state.parentId = toDeepSeekNodeId(data?.request_message_id) ?? state.parentId;
+                break;
+            case 'title':
+                state.title = readString(data, 'content')?.trim() || state.title;
+                break;
+            case 'finish':
+            case 'close':
+                state.done = true;
+                break;
+            case 'error':
+                state.error = readString(data, 'msg') || readString(data, 'message') || 'Unknown completion error';
+                state.done = true;
+                break;
+            case 'message':
+                applyMessage(frame.data);
+                break;
+        }
+    };
+
+    const snapshot = (): DeepSeekCompletionSnapshot => {
+        const response = asRecord(document.response) ?? {};
+        const hasPatchContent =
+            Array.isArray(response.fragments) || 'content' in response || 'thinking_content' in response;
+        const parts: DeepSeekMessageParts = hasPatchContent
+            ? readDeepSeekMessageParts(response)
+            : { text: legacy.text, thinking: legacy.thinking, thinkingElapsedSecs: null, sources: [] };
+        const status = readString(response, 'status');
+        const thinkingEnabled = response.thinking_enabled === true || parts.thinking.length > 0;
+        return {
+            messageId: toDeepSeekNodeId(response.message_id) ?? state.messageId,
+            parentId: toDeepSeekNodeId(response.parent_id) ?? state.parentId,
+            model: resolveDeepSeekModelSlug(readString(response, 'model'), thinkingEnabled),
+            parts,
+            title: state.title,
+            done: state.done || (status !== null && TERMINAL_STATUSES.has(status)),
+            error: state.error,
+        };
+    };
+
+    return { push, snapshot };
+};
+
+/** Parses a complete completion response body. Returns `null` when nothing was generated. */
+export const parseDeepSeekCompletionStream = (text: string): DeepSeekCompletionSnapshot | null => {
+    const accumulator = createDeepSeekCompletionAccumulator();
+    const { frames, remainingBuffer } = splitDeepSeekSseFrames(text);
+    for (const frame of [...frames, remainingBuffer]) {
+        const parsed = parseDeepSeekSseFrame(frame);
+        if (parsed) {
+            accumulator.push(parsed);
+        }
+    }
+    const snapshot = accumulator.snapshot();
+    return snapshot.messageId || snapshot.parts.text || snapshot.parts.thinking ? snapshot : null;
+};
+
+const resolveStreamParentId = (conversation: ConversationData, parentId: string | null, rootId: string) => {
+    if (!parentId) {
+        return rootId;
+    }
+    if (!conversation.mapping[parentId]) {
+        // The prompt of this turn is not in the cached tree yet; keep its slot so the
+        // prompt hint (or the canonical refetch) can fill it.
+        attachDeepSeekNode(conversation, {
+            id: parentId,
+            message: null,
+            parent: conversation.current_node,
+            children: [],
+        });
+    }
+    return parentId;
+};
+
+/**
+ * Merges a streamed assistant turn into the cached conversation (or a fresh shell),
+ * making it the current leaf.
+ */
+export const mergeDeepSeekCompletionIntoConversation = (
+    sessionId: string,
+    snapshot: DeepSeekCompletionSnapshot,
+): ConversationData => {
+    if (snapshot.title) {
+        rememberDeepSeekTitle(sessionId, snapshot.title);
+    }
+    const cached = deepseekState.activeConversations.get(sessionId);
+    const conversation = cached ? structuredClone(cached) : createDeepSeekConversationShell(sessionId);
+    const rootId = getDeepSeekRootNodeId(sessionId);
+    const messageId = snapshot.messageId ?? `deepseek-stream-${sessionId}`;
+    const parentId = resolveStreamParentId(conversation, snapshot.parentId, rootId);
+    const nowSeconds = Date.now() / 1000;
+    const existing = conversation.mapping[messageId];
+    const status = snapshot.error ? 'error' : snapshot.done ? 'finished_successfully' : 'in_progress';
+
+    attachDeepSeekNode(conversation, {
+        id: messageId,
+        parent: existing?.parent ?? parentId,
+        children: existing?.children ?? [],
+        message: buildDeepSeekMessage({
+            id: messageId,
+            role: 'assistant',
+            parts: snapshot.parts,
+            createTime: existing?.message?.create_time ?? nowSeconds,
+            updateTime: nowSeconds,
+            status,
+            model: snapshot.model,
+        }),
+    });
+    conversation.current_node = messageId;
+    conversation.update_time = nowSeconds;
+    conversation.default_model_slug = snapshot.model;
+    conversation.title = deepseekState.conversationTitles.get(sessionId) ?? conversation.title;
+    deepseekState.activeConversations.set(sessionId, conversation);
+    return conversation;
+};
@@ -0,0 +1,24 @@
+import { LRUCache } from '@/utils/lru-cache';
+import type { ConversationData } from '@/utils/types';
+
+/**
+ * Encapsulates all mutable adapter state to prevent cross-test/session leakage.
+ * Use `resetDeepSeekAdapterState()` in tests to get a clean state.
+ */
+export class DeepSeekAdapterState {
+    /** Maps chat session UUID to title */
+    readonly conversationTitles = new LRUCache<string, string>(50);
+    /** Latest parsed conversation per session UUID, used as the base when a completion stream is merged in */
+    readonly activeConversations = new LRUCache<string, ConversationData>(50);
+
+    reset() {
+        this.conversationTitles.clear();
+        this.activeConversations.clear();
+    }
+}
+
+export const deepseekState = new DeepSeekAdapterState();
+
+export const resetDeepSeekAdapterState = () => {
+    deepseekState.reset();
+};
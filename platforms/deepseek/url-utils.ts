@@ -0,0 +1,35 @@
+/**
+ * ID patterns and URL utilities for the DeepSeek adapter.
+ */
+
+/** UUID — DeepSeek chat session IDs. Message IDs are per-session integers. */
+export const DEEPSEEK_SESSION_ID_PATTERN = /^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/i;
+
+const SESSION_PAGE_PATH_PATTERN = /^(?:\/a)?\/chat\/s\/([^/?#]+)/;
+const SESSION_QUERY_PATTERN = /[?&]chat_session_id=([^&#]+)/i;
+
+/** Session UUID from a `/a/chat/s/{uuid}` (or legacy `/chat/s/{uuid}`) page path. */
+export const extractDeepSeekSessionIdFromPath = (pathname: string): string | null => {
+    const sessionId = pathname.match(SESSION_PAGE_PATH_PATTERN)?.[1] ?? null;
+    return sessionId && DEEPSEEK_SESSION_ID_PATTERN.test(sessionId) ? sessionId : null;
+};
+
+/**
+ * Extracts the session UUID from the `chat_session_id` query of a history URL.
+ * Regex-based so relative request URLs seen by the interceptor work too.
+ */
+export const extractDeepSeekSessionIdFromApiUrl = (url: string): string | null => {
+    const raw = url.match(SESSION_QUERY_PATTERN)?.[1];
+    if (!raw) {
+        return null;
+    }
+    try {
+        const sessionId = decodeURIComponent(raw);
+        return DEEPSEEK_SESSION_ID_PATTERN.test(sessionId) ? sessionId : null;
+    } catch {
+        return null;
+    }
+};
+
+export const buildDeepSeekHistoryApiUrl = (sessionId: string) =>
+    `https://chat.deepseek.com/api/v0/chat/history_messages?chat_session_id=${sessionId}`;
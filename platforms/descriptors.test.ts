@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { chatGptDescriptor } from '@/platforms/chatgpt/descriptor';
+import { SUPPORTED_PLATFORM_URLS } from '@/platforms/constants';
+import {
+    BUILT_IN_PLATFORM_DESCRIPTORS,
+    fillEndpointTemplate,
+    findPlatformDescriptorByHostname,
+    getPlatformDescriptor,
+    isLikelyPlatformApiPath,
+    registerPlatformDescriptor,
+    resetPlatformDescriptors,
+} from '@/platforms/descriptors';
+
+describe('platform descriptors', () => {
+    afterEach(() => {
+        resetPlatformDescriptors();
+    });
+
+    it('should collect manifest match patterns from the built-in descriptors', () => {
+        expect(SUPPORTED_PLATFORM_URLS).toEqual(
+            BUILT_IN_PLATFORM_DESCRIPTORS.flatMap((descriptor) => descriptor.urlMatchPatterns),
+        );
+        expect(SUPPORTED_PLATFORM_URLS).toContain('https://chat.openai.com/*');
+        expect(SUPPORTED_PLATFORM_URLS).toContain('https://copilot.microsoft.com/*');
+    });
+
+    it('should find descriptors by hostname, including subdomains', () => {
+        expect(findPlatformDescriptorByHostname('chat.openai.com')?.name).toBe('ChatGPT');
+        expect(findPlatformDescriptorByHostname('www.perplexity.ai')?.name).toBe('Perplexity');
+        expect(findPlatformDescriptorByHostname('Claude.AI')?.name).toBe('Claude');
+        expect(findPlatformDescriptorByHostname('notclaude.ai')).toBeNull();
+        expect(findPlatformDescriptorByHostname('')).toBeNull();
+    });
+
+    it('should flag request paths carrying an API hint marker', () => {
+        expect(isLikelyPlatformApiPath(chatGptDescriptor, 'https://chatgpt.com/backend-api/textdocs/abc')).toBeTrue();
+        expect(isLikelyPlatformApiPath(chatGptDescriptor, 'https://chatgpt.com/c/123')).toBeFalse();
+    });
+
+    it('should only name declared endpoint patterns in signal policies', () => {
+        for (const descriptor of BUILT_IN_PLATFORM_DESCRIPTORS) {
+            const keys = [
+                ...(descriptor.signals?.lifecycleEndpoints ?? []),
+                ...(descriptor.signals?.completionEndpoints ?? []),
+            ];
+            for (const key of keys) {
+                expect(descriptor.endpoints[key]).toBeInstanceOf(RegExp);
+            }
+        }
+    });
+
+    it('should fill endpoint templates with encoded values and keep unknown placeholders', () => {
+        expect(
+            fillEndpointTemplate('https://{host}/api?source-path={sourcePath}&id={id}', {
+                host: 'gemini.google.com',
+                sourcePath: '/app/abc',
+            }),
+        ).toBe('https://gemini.google.com/api?source-path=%2Fapp%2Fabc&id={id}');
+    });
+
+    it('should register runtime descriptors and restore the built-ins on reset', () => {
+        registerPlatformDescriptor({
+            ...chatGptDescriptor,
+            name: 'Team GPT',
+            hosts: ['gpt.example.com'],
+            urlMatchPatterns: ['https://gpt.example.com/*'],
+        });
+        expect(findPlatformDescriptorByHostname('gpt.example.com')?.parserId).toBe('chatgpt');
+        expect(getPlatformDescriptor('Team GPT')?.passiveCaptureWaitMs).toBe(1200);
+
+        resetPlatformDescriptors();
+        expect(getPlatformDescriptor('Team GPT')).toBeNull();
+        expect(getPlatformDescriptor('ChatGPT')).toBe(chatGptDescriptor);
+    });
+
+    it('should reject descriptors without a parser or hosts', () => {
+        expect(() => registerPlatformDescriptor({ ...chatGptDescriptor, parserId: ' ' })).toThrow();
+        expect(() => registerPlatformDescriptor({ ...chatGptDescriptor, hosts: [] })).toThrow();
+    });
+});
@@ -0,0 +1,115 @@
+/**
+ * Platform Descriptor Registry
+ *
+ * Single lookup for the declarative platform descriptors: manifest match
+ * patterns, hostname detection, endpoint-miss diagnostics, capture settings and
+ * bulk export endpoints all read from here. Built-in descriptors are registered
+ * at load; `registerPlatformDescriptor` adds or replaces one at runtime.
+ *
+ * Runtime imports stay relative and data-only: `wxt.config.ts` loads this
+ * module (through `platforms/constants.ts`) outside the app's alias resolution.
+ *
+ * @module platforms/descriptors
+ */
+
+import type { PlatformDescriptor } from '@/platforms/types';
+import { chatGptDescriptor } from './chatgpt/descriptor';
+import { claudeDescriptor } from './claude/descriptor';
+import { copilotDescriptor } from './copilot/descriptor';
+import { deepseekDescriptor } from './deepseek/descriptor';
+import { geminiDescriptor } from './gemini/descriptor';
+import { grokDescriptor } from './grok/descriptor';
+import { mistralDescriptor } from './mistral/descriptor';
+import { perplexityDescriptor } from './perplexity/descriptor';
+
+/** Descriptors shipped with the extension, in adapter-matching order. */
+export const BUILT_IN_PLATFORM_DESCRIPTORS: readonly PlatformDescriptor[] = [
+    chatGptDescriptor,
+    geminiDescriptor,
+    grokDescriptor,
+    claudeDescriptor,
+    perplexityDescriptor,
+    deepseekDescriptor,
+    mistralDescriptor,
+    copilotDescriptor,
+];
+
+const descriptorsByName = new Map<string, PlatformDescriptor>();
+
+const seedBuiltInDescriptors = () => {
+    descriptorsByName.clear();
+    for (const descriptor of BUILT_IN_PLATFORM_DESCRIPTORS) {
+        descriptorsByName.set(descriptor.name, descriptor);
+    }
+};
+
+seedBuiltInDescriptors();
+
+const assertValidDescriptor = (descriptor: PlatformDescriptor) => {
+    if (!descriptor.name.trim() || !descriptor.parserId.trim()) {
+        throw new Error('Platform descriptor requires a name and a parserId');
+    }
+    if (descriptor.hosts.length === 0) {
+        throw new Error(`Platform descriptor ${descriptor.name} declares no hosts`);
+    }
+};
+
+/**
+ * Adds a descriptor, or replaces the one with the same name (e.g. to patch an
+ * endpoint pattern). Manifest match patterns are fixed at build time, so a new
+ * host only works on pages the extension already runs on.
+ */
+export const registerPlatformDescriptor = (descriptor: PlatformDescriptor) => {
+    assertValidDescriptor(descriptor);
+    descriptorsByName.set(descriptor.name, descriptor);
+};
+
+/** Restores the built-in descriptors; for test isolation. */
+export const resetPlatformDescriptors = () => {
+    seedBuiltInDescriptors();
+};
+
+export const getPlatformDescriptors = (): PlatformDescriptor[] => [...descriptorsByName.values()];
+
+export const getPlatformDescriptor = (name: string): PlatformDescriptor | null => descriptorsByName.get(name) ?? null;
+
+const matchesHost = (hostname: string, host: string) => hostname === host || hostname.endsWith(`.${host}`);
+
+/** Finds the platform whose hosts (or their subdomains) include `hostname`. */
+export const findPlatformDescriptorByHostname = (hostname: string): PlatformDescriptor | null => {
+    const normalized = hostname.trim().toLowerCase();
+    if (!normalized) {
+        return null;
+    }
+    return (
+        getPlatformDescriptors().find((descriptor) => descriptor.hosts.some((host) => matchesHost(normalized, host))) ??
+        null
+    );
+};
+
+export const isDescriptorHost = (descriptor: Pick<PlatformDescriptor, 'hosts'>, hostname: string) =>
+    descriptor.hosts.some((host) => matchesHost(hostname.toLowerCase(), host));
+
+const toLowerPath = (url: string) => {
+    try {
+        return new URL(url, 'https://blackiya.local').pathname.toLowerCase();
+    } catch {
+        return url.toLowerCase();
+    }
+};
+
+/** Whether a request path carries one of the platform's API hint markers. */
+export const isLikelyPlatformApiPath = (descriptor: Pick<PlatformDescriptor, 'apiHintMarkers'>, url: string) => {
+    const path = toLowerPath(url);
+    return descriptor.apiHintMarkers.some((marker) => path.includes(marker.toLowerCase()));
+};
+
+/**
+ * Fills `{placeholder}` segments of an endpoint template. Values are
+ * URL-encoded; placeholders without a value are left in place so a template
+ * typo shows up in the request URL rather than silently vanishing.
+ */
+export const fillEndpointTemplate = (template: string, values: Record<string, string | number>) =>
+    template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+        key in values ? encodeURIComponent(String(values[key])) : placeholder,
+    );
@@ -1,5 +1,13 @@
-import { describe, expect, it } from 'bun:test';
-import { getPlatformAdapterByApiUrl, getPlatformAdapterByCompletionUrl } from '@/platforms/factory';
+import { afterEach, describe, expect, it } from 'bun:test';
+import { chatGptDescriptor } from '@/platforms/chatgpt/descriptor';
+import { registerPlatformDescriptor, resetPlatformDescriptors } from '@/platforms/descriptors';
+import {
+    getPlatformAdapter,
+    getPlatformAdapterByApiUrl,
+    getPlatformAdapterByCompletionUrl,
+    getPlatformAdapterByEventStreamUrl,
+    getPlatformAdapterBySocketUrl,
+} from '@/platforms/factory';
 
 describe('platform factory URL matching', () => {
     it('should resolve Gemini adapter for relative StreamGenerate XHR URL', () => {
@@ -20,4 +28,50 @@ describe('platform factory URL matching', () => {
         );
         expect(adapter?.name).toBe('Gemini');
     });
+
+    it('should resolve socket adapters only from declared socket patterns', () => {
+        expect(getPlatformAdapterBySocketUrl('wss://copilot.microsoft.com/c/api/chat?api-version=2')?.name).toBe(
+            'Copilot',
+        );
+        expect(getPlatformAdapterBySocketUrl('wss://example.com/c/api/chat')).toBeNull();
+        expect(getPlatformAdapterByEventStreamUrl('wss://copilot.microsoft.com/c/api/chat')).toBeNull();
+    });
+});
+
+describe('platform factory descriptor registration', () => {
+    afterEach(() => {
+        resetPlatformDescriptors();
+    });
+
+    it('should bind a runtime descriptor to the parser it references', () => {
+        registerPlatformDescriptor({
+            ...chatGptDescriptor,
+            name: 'Team GPT',
+            hosts: ['gpt.example.com'],
+            urlMatchPatterns: ['https://gpt.example.com/*'],
+            endpoints: {
+                ...chatGptDescriptor.endpoints,
+                apiEndpointPattern: /^https:\/\/gpt\.example\.com\/api\/conversation\/[\w-]+$/,
+            },
+        });
+
+        const adapter = getPlatformAdapter('https://gpt.example.com/c/abc');
+        expect(adapter?.name).toBe('Team GPT');
+        expect(adapter?.urlMatchPattern).toBe('https://gpt.example.com/*');
+        expect(adapter?.extractConversationId('https://chatgpt.com/c/696bc3d5-fa84-8328-b209-4d65cb229e59')).toBe(
+            '696bc3d5-fa84-8328-b209-4d65cb229e59',
+        );
+        expect(getPlatformAdapterByApiUrl('https://gpt.example.com/api/conversation/abc')?.name).toBe('Team GPT');
+        expect(getPlatformAdapter('https://chatgpt.com/c/abc')?.name).toBe('ChatGPT');
+    });
+
+    it('should skip descriptors whose parser is not registered', () => {
+        registerPlatformDescriptor({
+            ...chatGptDescriptor,
+            name: 'Unknown',
+            parserId: 'missing',
+            hosts: ['x.example'],
+        });
+        expect(getPlatformAdapter('https://x.example/c/abc')).toBeNull();
+    });
 });
@@ -5,18 +5,87 @@
  */
 
 import { chatGPTAdapter } from '@/platforms/chatgpt';
+import { claudeAdapter } from '@/platforms/claude';
+import { copilotAdapter } from '@/platforms/copilot';
+import { deepseekAdapter } from '@/platforms/deepseek';
+import { BUILT_IN_PLATFORM_DESCRIPTORS, getPlatformDescriptors, isDescriptorHost } from '@/platforms/descriptors';
 import { geminiAdapter } from '@/platforms/gemini';
 import { grokAdapter } from '@/platforms/grok';
-import type { LLMPlatform } from '@/platforms/types';
+import { mistralAdapter } from '@/platforms/mistral';
+import { perplexityAdapter } from '@/platforms/perplexity';
+import type { LLMPlatform, PlatformDescriptor } from '@/platforms/types';
 
 /**
- * Get all supported platforms.
- * Encapsulated in a function to allow future extension (e.g., dynamic registration).
+ * Parser modules keyed by the `parserId` descriptors reference. A descriptor
+ * can reuse a parser under another name and host (e.g. a self-hosted deployment
+ * speaking an existing platform's API).
  */
-const getPlatforms = () => {
-    return [chatGPTAdapter, geminiAdapter, grokAdapter];
+const platformParsers = new Map<string, LLMPlatform>([
+    ['chatgpt', chatGPTAdapter],
+    ['gemini', geminiAdapter],
+    ['grok', grokAdapter],
+    ['claude', claudeAdapter],
+    ['perplexity', perplexityAdapter],
+    ['deepseek', deepseekAdapter],
+    ['mistral', mistralAdapter],
+    ['copilot', copilotAdapter],
+]);
+
+const derivedAdapters = new WeakMap<PlatformDescriptor, LLMPlatform>();
+
+/**
+ * Registers (or replaces) a parser module so descriptors can reference it by `parserId`.
+ */
+export const registerPlatformParser = (parserId: string, parser: LLMPlatform) => {
+    platformParsers.set(parserId, parser);
 };
 
+const isDescriptorPageUrl = (descriptor: PlatformDescriptor, url: string) => {
+    try {
+        return isDescriptorHost(descriptor, new URL(url).hostname);
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Binds a parser to a runtime-registered descriptor, which may rename,
+ * re-host or re-point it. Built-in descriptors are what their parser was
+ * built from, so they get it back unchanged.
+ */
+const resolveDescriptorAdapter = (descriptor: PlatformDescriptor): LLMPlatform | null => {
+    const parser = platformParsers.get(descriptor.parserId);
+    if (!parser || BUILT_IN_PLATFORM_DESCRIPTORS.includes(descriptor)) {
+        return parser ?? null;
+    }
+    const cached = derivedAdapters.get(descriptor);
+    if (cached) {
+        return cached;
+    }
+    const { endpoints } = descriptor;
+    const adapter: LLMPlatform = Object.assign(Object.create(parser), {
+        name: descriptor.name,
+        urlMatchPattern: descriptor.urlMatchPatterns[0] ?? parser.urlMatchPattern,
+        apiEndpointPattern: endpoints.apiEndpointPattern,
+        completionTriggerPattern: endpoints.completionTriggerPattern,
+        socketEndpointPattern: endpoints.socketEndpointPattern,
+        eventStreamEndpointPattern: endpoints.eventStreamEndpointPattern,
+        defaultTitles: descriptor.defaultTitles ?? parser.defaultTitles,
+        isPlatformUrl: (url: string) => isDescriptorPageUrl(descriptor, url),
+    });
+    derivedAdapters.set(descriptor, adapter);
+    return adapter;
+};
+
+/**
+ * Get all supported platforms, one adapter per registered descriptor (see
+ * `platforms/descriptors.ts`), in registration order.
+ */
+const getPlatforms = () =>
+    getPlatformDescriptors()
+        .map(resolveDescriptorAdapter)
+        .filter((adapter): adapter is LLMPlatform => adapter !== null);
+
 /**
  * Get the appropriate platform adapter for a given URL
  *
@@ -46,3 +115,23 @@ export const getPlatformAdapterByApiUrl = (url: string): LLMPlatform | null => {
 export const getPlatformAdapterByCompletionUrl = (url: string): LLMPlatform | null => {
     return getPlatforms().find((p) => p.completionTriggerPattern?.test(url)) || null;
 };
+
+/**
+ * Get the platform adapter that declares a WebSocket URL as one of its streams.
+ *
+ * @param url - The URL passed to the `WebSocket` constructor
+ * @returns The matching platform adapter or null if not found
+ */
+export const getPlatformAdapterBySocketUrl = (url: string): LLMPlatform | null => {
+    return getPlatforms().find((p) => p.socketEndpointPattern?.test(url)) || null;
+};
+
+/**
+ * Get the platform adapter that declares a native `EventSource` URL as one of its streams.
+ *
+ * @param url - The URL passed to the `EventSource` constructor
+ * @returns The matching platform adapter or null if not found
+ */
+export const getPlatformAdapterByEventStreamUrl = (url: string): LLMPlatform | null => {
+    return getPlatforms().find((p) => p.eventStreamEndpointPattern?.test(url)) || null;
+};
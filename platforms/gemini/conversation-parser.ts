@@ -2,7 +2,7 @@ import type { PlatformReadiness } from '@/platforms/types';
 import { hashText } from '@/utils/hash';
 import { logger } from '@/utils/logger';
 import type { LRUCache } from '@/utils/lru-cache';
-import type { ConversationData, MessageNode } from '@/utils/types';
+import type { ConversationData, MessageAttachment, MessageNode } from '@/utils/types';
 
 const isConversationIdCandidate = (value: unknown): value is string =>
     typeof value === 'string' && (value.startsWith('c_') || /^[a-f0-9]+$/i.test(value));
@@ -111,7 +111,44 @@ const extractGeminiTextNode = (node: unknown, depth = 0, maxDepth = 50): string
 };
 
 type GeminiThought = { summary: string; content: string; chunks: string[]; finished: boolean };
-type ParsedGeminiMessage = { role: 'user' | 'assistant'; content: string; thoughts?: GeminiThought[] };
+type ParsedGeminiMessage = {
+    role: 'user' | 'assistant';
+    content: string;
+    thoughts?: GeminiThought[];
+    attachments?: MessageAttachment[];
+};
+
+const GEMINI_IMAGE_URL_REGEX = /^https:\/\/lh3\.googleusercontent\.com\/\S+$/;
+
+const collectGeminiImageUrls = (candidate: unknown, urls: Set<string>, depth = 0, maxDepth = 12) => {
+    if (typeof candidate === 'string') {
+        if (GEMINI_IMAGE_URL_REGEX.test(candidate)) {
+            urls.add(candidate);
+        }
+        return;
+    }
+    if (!Array.isArray(candidate) || depth >= maxDepth) {
+        return;
+    }
+    for (const entry of candidate) {
+        collectGeminiImageUrls(entry, urls, depth + 1, maxDepth);
+    }
+};
+
+/** Generated images of an assistant candidate: `lh3.googleusercontent.com` URLs outside its text slots. */
+export const extractGeminiGeneratedImages = (assistantCandidate: unknown[]): MessageAttachment[] => {
+    const urls = new Set<string>();
+    collectGeminiImageUrls(assistantCandidate.slice(2), urls);
+    return [...urls].map((url) => ({
+        id: `gemini-image-${hashText(url)}`,
+        kind: 'image',
+        origin: 'generated',
+        name: null,
+        mime_type: null,
+        size: null,
+        url,
+    }));
+};
 
 const THINKING_SECTION_REGEX = /\n\*\*([^*]+)\*\*\n/;
 
@@ -204,13 +241,15 @@ const parseGeminiAssistantMessage = (
     const textParts = assistantCandidate[1];
     const assistantContent = Array.isArray(textParts) && typeof textParts[0] === 'string' ? textParts[0] : '';
     const thoughts = parseGeminiThoughts(assistantCandidate);
-    if (!assistantContent && thoughts.length === 0) {
+    const attachments = extractGeminiGeneratedImages(assistantCandidate);
+    if (!assistantContent && thoughts.length === 0 && attachments.length === 0) {
         return null;
     }
     return {
         role: 'assistant',
         content: assistantContent,
         thoughts: thoughts.length > 0 ? thoughts : undefined,
+        attachments: attachments.length > 0 ? attachments : undefined,
     };
 };
 
@@ -275,7 +314,7 @@ const buildGeminiConversationMapping = (
                 status: 'finished_successfully',
                 end_turn: true,
                 weight: 1,
-                metadata: {},
+                metadata: msg.attachments ? { attachments: msg.attachments } : {},
                 recipient: 'all',
                 channel: null,
             },
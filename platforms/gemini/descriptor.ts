@@ -0,0 +1,49 @@
+import type { PlatformDescriptor } from '@/platforms/types';
+
+/**
+ * Gemini platform descriptor: hosts, endpoints, selectors and capture
+ * settings consumed through `platforms/descriptors.ts`.
+ */
+export const geminiDescriptor = {
+    name: 'Gemini',
+    parserId: 'gemini',
+    hosts: ['gemini.google.com'],
+    urlMatchPatterns: ['https://gemini.google.com/*'],
+    streamProtocol: 'batchexecute',
+    endpoints: {
+        apiEndpointPattern:
+            /\/_\/BardChatUi\/data\/(?:batchexecute(?:\?.*)?|assistant\.lamda\.BardFrontendService\/StreamGenerate)/i,
+        completionTriggerPattern:
+            /\/_\/BardChatUi\/data\/(?:batchexecute(?:\?.*)?|assistant\.lamda\.BardFrontendService\/StreamGenerate)/i,
+        generationEndpointPattern: /\/_\/BardChatUi\/data\/assistant\.lamda\.BardFrontendService\/StreamGenerate/i,
+    },
+    signals: {
+        lifecycleEndpoints: ['generationEndpointPattern'],
+        completionEndpoints: ['generationEndpointPattern'],
+        completionRequiresReadiness: false,
+        streamingOnRequest: false,
+    },
+    apiHintMarkers: ['/_/BardChatUi/data/'],
+    selectors: {
+        buttonInjectionTargets: [
+            'header [aria-haspopup="menu"]',
+            'header .flex-1.overflow-hidden',
+            'header nav',
+            '.chat-app-header',
+            'header',
+            '[role="banner"]',
+            'body',
+        ],
+    },
+    defaultTitles: ['Gemini Conversation', 'Google Gemini', 'Conversation with Gemini'],
+    capturesPromptHints: true,
+    passiveCaptureWaitMs: 3500,
+    bulkExport: {
+        strategy: 'gemini',
+        listEndpoint: 'https://{host}/_/BardChatUi/data/batchexecute?rpcids={rpcId}&source-path={sourcePath}&rt=c',
+        detailEndpoints: [
+            'https://{host}/_/BardChatUi/data/batchexecute?rpcids={rpcId}&source-path={sourcePath}&rt=c',
+            'https://{host}/_/BardChatUi/data/batchexecute?rpcids={rpcId}&source-path=%2Fapp&rt=c&conversation_id={conversationId}',
+        ],
+    },
+} as const satisfies PlatformDescriptor;
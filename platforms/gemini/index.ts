@@ -16,6 +16,7 @@ import {
     hasGeminiStreamGenerateConversationShape,
     parseConversationPayload,
 } from './conversation-parser';
+import { geminiDescriptor } from './descriptor';
 import { GEMINI_ENDPOINT_REGISTRY, resolveGeminiButtonInjectionTarget } from './registry';
 import {
     findConversationRpc,
@@ -41,8 +42,8 @@ const maybeUpdateActiveConversationTitle = (convId: string, title: string) => {
 };
 
 export const geminiAdapter: LLMPlatform = {
-    name: 'Gemini',
-    urlMatchPattern: 'https://gemini.google.com/*',
+    name: geminiDescriptor.name,
+    urlMatchPattern: geminiDescriptor.urlMatchPatterns[0],
 
     apiEndpointPattern: GEMINI_ENDPOINT_REGISTRY.apiEndpointPattern,
     completionTriggerPattern: GEMINI_ENDPOINT_REGISTRY.completionTriggerPattern,
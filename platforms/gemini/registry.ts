@@ -1,5 +1,6 @@
 import { GEMINI_RPC_IDS } from '@/platforms/constants';
 import { logger } from '@/utils/logger';
+import { geminiDescriptor } from './descriptor';
 
 const BUTTON_TARGET_MISS_LOG_INTERVAL_MS = 8_000;
 let lastButtonTargetMissAt = 0;
@@ -20,25 +21,9 @@ const getNormalizedPath = (url: string) => {
     return url.toLowerCase();
 };
 
-export const GEMINI_ENDPOINT_REGISTRY = {
-    apiEndpointPattern:
-        /\/_\/BardChatUi\/data\/(?:batchexecute(?:\?.*)?|assistant\.lamda\.BardFrontendService\/StreamGenerate)/i,
-    completionTriggerPattern:
-        /\/_\/BardChatUi\/data\/(?:batchexecute(?:\?.*)?|assistant\.lamda\.BardFrontendService\/StreamGenerate)/i,
-    generationEndpointPattern: /\/_\/BardChatUi\/data\/assistant\.lamda\.BardFrontendService\/StreamGenerate/i,
-} as const;
+export const GEMINI_ENDPOINT_REGISTRY = geminiDescriptor.endpoints;
 
-export const GEMINI_SELECTOR_REGISTRY = {
-    buttonInjectionTargets: [
-        'header [aria-haspopup="menu"]',
-        'header .flex-1.overflow-hidden',
-        'header nav',
-        '.chat-app-header',
-        'header',
-        '[role="banner"]',
-        'body',
-    ],
-} as const;
+export const GEMINI_SELECTOR_REGISTRY = geminiDescriptor.selectors;
 
 const maybeLogButtonTargetMiss = () => {
     const now = Date.now();
@@ -1,6 +1,7 @@
 import { isGenericConversationTitle } from '@/utils/title-resolver';
+import { geminiDescriptor } from './descriptor';
 
-export const GEMINI_DEFAULT_TITLES = ['Gemini Conversation', 'Google Gemini', 'Conversation with Gemini'];
+export const GEMINI_DEFAULT_TITLES = geminiDescriptor.defaultTitles;
 
 export const normalizeGeminiDomTitle = (rawTitle: string) =>
     rawTitle
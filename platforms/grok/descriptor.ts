@@ -0,0 +1,48 @@
+import type { PlatformDescriptor } from '@/platforms/types';
+
+/**
+ * Grok platform descriptor: hosts, endpoints, selectors and capture
+ * settings consumed through `platforms/descriptors.ts`.
+ */
+export const grokDescriptor = {
+    name: 'Grok',
+    parserId: 'grok',
+    hosts: ['grok.com'],
+    urlMatchPatterns: ['https://grok.com/*'],
+    streamProtocol: 'ndjson',
+    endpoints: {
+        apiEndpointPattern:
+            /grok\.x\.com\/2\/grok\/add_response\.json|grok\.com\/rest\/app-chat\/conversations(_v2)?\/(?:new|reconnect-response-v2\/[^/?#]+|[^/]+(?:\/(response-node|load-responses))?)/i,
+        completionTriggerPattern:
+            /grok\.x\.com\/2\/grok\/add_response\.json|grok\.com\/rest\/app-chat\/conversations\/(new|[^/]+\/(response-node|load-responses))/i,
+        /** New-conversation and add-response generation requests (absolute URLs on the Grok hosts). */
+        generationEndpointPattern:
+            /^[a-z]+:\/\/(?:[^/?#]*\.)?(?:grok\.com(?::\d+)?\/(?:[^?#]*\/)?rest\/app-chat\/conversations\/new|grok\.x\.com(?::\d+)?\/(?:[^?#]*\/)?2\/grok\/add_response\.json)/i,
+        /** Response-node and load-responses reads, excluding generation and reconnect streams. */
+        completionCandidatePattern:
+            /^[a-z]+:\/\/(?:[^/?#]*\.)?grok\.com(?::\d+)?(?![^?#]*\/rest\/app-chat\/conversations\/(?:new|reconnect-response-v2\/))(?=[^?#]*\/rest\/app-chat\/conversations\/)[^?#]*\/(?:load-responses|response-node)/i,
+    },
+    signals: {
+        lifecycleEndpoints: ['generationEndpointPattern'],
+        completionEndpoints: ['completionCandidatePattern'],
+        completionRequiresReadiness: true,
+        streamingOnRequest: true,
+    },
+    apiHintMarkers: ['/rest/app-chat/', '/2/grok/'],
+    selectors: {
+        buttonInjectionTargets: ['[data-testid="grok-header"]', '[role="banner"]', 'header nav', 'header', 'body'],
+        domTitleCandidates: ['[data-testid="grok-header"] h1', 'main h1'],
+    },
+    defaultTitles: ['New conversation', 'Grok Conversation'],
+    capturesPromptHints: true,
+    passiveCaptureWaitMs: 3500,
+    bulkExport: {
+        strategy: 'grok-com',
+        hosts: ['grok.com'],
+        listEndpoint: 'https://{host}/rest/app-chat/conversations?pageSize={pageSize}',
+        detailEndpoints: [
+            'https://{host}/rest/app-chat/conversations_v2/{conversationId}?includeWorkspaces=true&includeTaskResult=true',
+            'https://{host}/rest/app-chat/conversations/{conversationId}/response-node?includeThreads=true',
+        ],
+    },
+} as const satisfies PlatformDescriptor;
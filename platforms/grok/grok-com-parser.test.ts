@@ -411,4 +411,45 @@ describe('Grok Adapter — grok.com REST parsing', () => {
             expect(result?.mapping[responseId]?.message?.content?.parts?.[0]).toBe('Recovered reconnect payload');
         });
     });
+
+    describe('attachments', () => {
+        it('should type uploaded and generated images as assets.grok.com attachments', () => {
+            const payload = JSON.stringify({
+                responses: [
+                    {
+                        responseId: 'resp-user',
+                        message: 'Draw this in watercolor',
+                        sender: 'human',
+                        createTime: '2026-03-03T14:07:59.103Z',
+                        imageAttachments: ['users/u1/uploads/photo.jpg'],
+                    },
+                    {
+                        responseId: 'resp-assistant',
+                        parentResponseId: 'resp-user',
+                        message: 'Here you go.',
+                        sender: 'assistant',
+                        createTime: '2026-03-03T14:08:05.000Z',
+                        generatedImageUrls: ['users/u1/generated/g1/image.jpg'],
+                    },
+                ],
+            });
+
+            const result = grokAdapter.parseInterceptedData(payload, LOAD_RESPONSES_URL);
+
+            expect(result?.mapping['resp-user']?.message?.metadata.attachments).toEqual([
+                {
+                    id: 'https://assets.grok.com/users/u1/uploads/photo.jpg',
+                    kind: 'image',
+                    origin: 'upload',
+                    name: 'photo.jpg',
+                    mime_type: null,
+                    size: null,
+                    url: 'https://assets.grok.com/users/u1/uploads/photo.jpg',
+                },
+            ]);
+            expect(result?.mapping['resp-assistant']?.message?.metadata.attachments).toMatchObject([
+                { origin: 'generated', url: 'https://assets.grok.com/users/u1/generated/g1/image.jpg' },
+            ]);
+        });
+    });
 });
@@ -1,6 +1,6 @@
 import { logger } from '@/utils/logger';
 import { isGenericConversationTitle } from '@/utils/title-resolver';
-import type { Author, ConversationData, Message, MessageContent, MessageNode } from '@/utils/types';
+import type { Author, ConversationData, Message, MessageAttachment, MessageContent, MessageNode } from '@/utils/types';
 import { DEFAULT_GROK_MODEL_SLUG } from './constants';
 import { GROK_DEFAULT_TITLES } from './registry';
 import { grokState } from './state';
@@ -106,6 +106,30 @@ const createGrokComAuthor = (sender: string): Author => ({
     metadata: {},
 });
 
+const GROK_ASSET_BASE_URL = 'https://assets.grok.com/';
+
+const toGrokImageAttachments = (paths: unknown, origin: MessageAttachment['origin']): MessageAttachment[] =>
+    (Array.isArray(paths) ? paths : [])
+        .filter((path): path is string => typeof path === 'string' && path.trim().length > 0)
+        .map((path) => {
+            const url = /^https?:\/\//i.test(path) ? path : `${GROK_ASSET_BASE_URL}${path.replace(/^\/+/, '')}`;
+            return {
+                id: url,
+                kind: 'image',
+                origin,
+                name: url.split('/').pop() || null,
+                mime_type: null,
+                size: null,
+                url,
+            };
+        });
+
+/** Uploaded images and Grok-generated images of a response, as asset paths on `assets.grok.com`. */
+export const extractGrokComAttachments = (response: any): MessageAttachment[] => [
+    ...toGrokImageAttachments(response?.imageAttachments, 'upload'),
+    ...toGrokImageAttachments(response?.generatedImageUrls, 'generated'),
+];
+
 export const buildGrokComMessage = (
     responseId: string,
     sender: string,
@@ -113,25 +137,29 @@ export const buildGrokComMessage = (
     isPartial: boolean,
     messageText: string,
     response: any,
-): Message => ({
-    id: responseId,
-    author: createGrokComAuthor(sender),
-    create_time: createdAt && !Number.isNaN(createdAt) ? createdAt : null,
-    update_time: null,
-    content: { content_type: 'text', parts: [messageText] } as MessageContent,
-    status: isPartial ? 'in_progress' : 'finished_successfully',
-    end_turn: !isPartial,
-    weight: 1,
-    metadata: {
-        ...response?.metadata,
-        model: response?.model ?? null,
-        requestMetadata: response?.requestMetadata ?? null,
-        sender,
-        partial: isPartial,
-    },
-    recipient: 'all',
-    channel: null,
-});
+): Message => {
+    const attachments = extractGrokComAttachments(response);
+    return {
+        id: responseId,
+        author: createGrokComAuthor(sender),
+        create_time: createdAt && !Number.isNaN(createdAt) ? createdAt : null,
+        update_time: null,
+        content: { content_type: 'text', parts: [messageText] } as MessageContent,
+        status: isPartial ? 'in_progress' : 'finished_successfully',
+        end_turn: !isPartial,
+        weight: 1,
+        metadata: {
+            ...response?.metadata,
+            model: response?.model ?? null,
+            requestMetadata: response?.requestMetadata ?? null,
+            sender,
+            partial: isPartial,
+            ...(attachments.length > 0 ? { attachments } : {}),
+        },
+        recipient: 'all',
+        channel: null,
+    };
+};
 
 const normalizeFromGrokComObject = (data: any): any[] | null => {
     if (typeof data.responseId === 'string') {
@@ -11,6 +11,7 @@ import type { LLMPlatform } from '@/platforms/types';
 import { generateTimestamp, sanitizeFilename } from '@/utils/download';
 import { logger } from '@/utils/logger';
 import type { ConversationData } from '@/utils/types';
+import { grokDescriptor } from './descriptor';
 import { tryParseGrokComRestEndpoint, tryParseJsonIfNeeded } from './grok-com-parser';
 import { tryParseGrokNdjson } from './ndjson-parser';
 import { evaluateGrokReadiness } from './readiness';
@@ -69,8 +70,8 @@ const parseDefaultGrokPayload = (data: string | any, url: string): ConversationD
 };
 
 export const grokAdapter: LLMPlatform = {
-    name: 'Grok',
-    urlMatchPattern: 'https://grok.com/*',
+    name: grokDescriptor.name,
+    urlMatchPattern: grokDescriptor.urlMatchPatterns[0],
 
     apiEndpointPattern: GROK_ENDPOINT_REGISTRY.apiEndpointPattern,
     completionTriggerPattern: GROK_ENDPOINT_REGISTRY.completionTriggerPattern,
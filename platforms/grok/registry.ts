@@ -1,31 +1,22 @@
 import { logger } from '@/utils/logger';
+import { grokDescriptor } from './descriptor';
 
 const BUTTON_TARGET_MISS_LOG_INTERVAL_MS = 8_000;
 let lastButtonTargetMissAt = 0;
 
-export const GROK_ENDPOINT_REGISTRY = {
-    apiEndpointPattern:
-        /grok\.x\.com\/2\/grok\/add_response\.json|grok\.com\/rest\/app-chat\/conversations(_v2)?\/(?:new|reconnect-response-v2\/[^/?#]+|[^/]+(?:\/(response-node|load-responses))?)/i,
-    completionTriggerPattern:
-        /grok\.x\.com\/2\/grok\/add_response\.json|grok\.com\/rest\/app-chat\/conversations\/(new|[^/]+\/(response-node|load-responses))/i,
-} as const;
+export const GROK_ENDPOINT_REGISTRY = grokDescriptor.endpoints;
 
 export const GROK_PATH_REGISTRY = {
     generationMarkers: ['/rest/app-chat/conversations/new'],
     streamingGenerationMarker: '/2/grok/add_response.json',
     reconnectMarker: '/rest/app-chat/conversations/reconnect-response-v2/',
-    completionMarkers: ['/load-responses', '/response-node'],
-    completionBaseMarker: '/rest/app-chat/conversations/',
     apiHintMarkers: ['/rest/app-chat/'],
     streamingApiHintMarker: '/2/grok/',
 } as const;
 
-export const GROK_SELECTOR_REGISTRY = {
-    buttonInjectionTargets: ['[data-testid="grok-header"]', '[role="banner"]', 'header nav', 'header', 'body'],
-    domTitleCandidates: ['[data-testid="grok-header"] h1', 'main h1'],
-} as const;
+export const GROK_SELECTOR_REGISTRY = grokDescriptor.selectors;
 
-export const GROK_DEFAULT_TITLES = ['New conversation', 'Grok Conversation'] as const;
+export const GROK_DEFAULT_TITLES = grokDescriptor.defaultTitles;
 
 const maybeLogButtonTargetMiss = () => {
     const now = Date.now();
@@ -71,13 +62,7 @@ const isGrokHost = (hostname: string) => hostname === 'grok.com' || hostname.end
 const isGrokStreamingHost = (hostname: string) => hostname === 'grok.x.com' || hostname.endsWith('.grok.x.com');
 
 export const isGrokGenerationEndpointUrl = (url: string): boolean =>
-    (() => {
-        const { hostname, path } = parseUrlHostAndPath(url);
-        return (
-            (isGrokHost(hostname) && isGrokGenerationEndpointPath(path)) ||
-            (isGrokStreamingHost(hostname) && path.includes(GROK_PATH_REGISTRY.streamingGenerationMarker))
-        );
-    })();
+    GROK_ENDPOINT_REGISTRY.generationEndpointPattern.test(url);
 
 export const isGrokStreamingEndpointUrl = (url: string): boolean => {
     const { hostname, path } = parseUrlHostAndPath(url);
@@ -88,22 +73,8 @@ export const isGrokStreamingEndpointUrl = (url: string): boolean => {
     );
 };
 
-export const isGrokCompletionCandidateEndpointUrl = (url: string): boolean => {
-    const { hostname, path } = parseUrlHostAndPath(url);
-    if (!isGrokHost(hostname)) {
-        return false;
-    }
-    if (path.includes(GROK_PATH_REGISTRY.generationMarkers[0])) {
-        return false;
-    }
-    if (path.includes(GROK_PATH_REGISTRY.reconnectMarker)) {
-        return false;
-    }
-    return (
-        path.includes(GROK_PATH_REGISTRY.completionBaseMarker) &&
-        GROK_PATH_REGISTRY.completionMarkers.some((marker) => path.includes(marker))
-    );
-};
+export const isGrokCompletionCandidateEndpointUrl = (url: string): boolean =>
+    GROK_ENDPOINT_REGISTRY.completionCandidatePattern.test(url);
 
 export const isLikelyGrokApiPath = (url: string): boolean => {
     const { hostname, path } = parseUrlHostAndPath(url);
@@ -0,0 +1,2 @@
+/** Le Chat leaves `model` null on most messages; exports fall back to its default assistant model. */
+export const MISTRAL_DEFAULT_MODEL_SLUG = 'mistral-large-latest';
@@ -0,0 +1,297 @@
+import type { ConversationData, Message, MessageContent, MessageNode, MessageSource } from '@/utils/types';
+import { MISTRAL_DEFAULT_MODEL_SLUG } from './constants';
+import { MISTRAL_DEFAULT_TITLES } from './registry';
+import { mistralState } from './state';
+import { MISTRAL_CHAT_ID_PATTERN } from './url-utils';
+
+type MistralThought = NonNullable<MessageContent['thoughts']>[number];
+
+/**
+ * Visible answer and reasoning of one message. Reasoning models (Magistral)
+ * stream `thinking` chunks ahead of the `text` chunks of the answer.
+ */
+export type MistralMessageParts = {
+    text: string;
+    thinking: string;
+    sources: MessageSource[];
+};
+
+export type MistralMessageInput = {
+    id: string;
+    role: 'user' | 'assistant';
+    parts: MistralMessageParts;
+    createTime: number | null;
+    updateTime: number | null;
+    status: Message['status'];
+    model: string;
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+    value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+
+const readString = (record: Record<string, unknown> | null, key: string): string | null => {
+    const value = record?.[key];
+    return typeof value === 'string' ? value : null;
+};
+
+const readRecords = (value: unknown): Record<string, unknown>[] =>
+    Array.isArray(value) ? value.map(asRecord).filter((item): item is Record<string, unknown> => !!item) : [];
+
+export const tryParseMistralJson = (data: unknown): unknown => {
+    if (typeof data !== 'string') {
+        return data;
+    }
+    try {
+        return JSON.parse(data);
+    } catch {
+        return null;
+    }
+};
+
+/** ISO timestamps to epoch seconds; `null` when absent or unparseable. */
+export const toMistralEpochSeconds = (value: unknown): number | null => {
+    if (typeof value !== 'string') {
+        return null;
+    }
+    const millis = Date.parse(value);
+    return Number.isNaN(millis) ? null : millis / 1000;
+};
+
+export const getMistralRootNodeId = (chatId: string) => `mistral-root-${chatId}`;
+
+/** `pending` while generating; `error` (or a failed `status`) ends the turn as an error. */
+export const toMistralMessageStatus = (message: Record<string, unknown>): Message['status'] => {
+    const generationStatus = readString(message, 'generationStatus');
+    if (generationStatus === 'pending' || generationStatus === 'streaming') {
+        return 'in_progress';
+    }
+    return generationStatus === 'error' || readString(message, 'status') === 'error'
+        ? 'error'
+        : 'finished_successfully';
+};
+
+export const toMistralSources = (references: unknown): MessageSource[] =>
+    readRecords(references)
+        .map((reference) => ({
+            title: (readString(reference, 'title') ?? '').trim(),
+            url: (readString(reference, 'url') ?? '').trim(),
+            snippet: (readString(reference, 'description') ?? readString(reference, 'snippet') ?? '').trim(),
+        }))
+        .filter((source) => source.url.length > 0)
+        .map((source) => ({ ...source, title: source.title || source.url }));
+
+/** `thinking` chunks hold either a string or a list of `{ type: 'text', text }` sub-chunks. */
+const readThinkingChunk = (chunk: Record<string, unknown>) => {
+    const thinking = chunk.thinking;
+    if (typeof thinking === 'string') {
+        return thinking;
+    }
+    return readRecords(thinking)
+        .map((part) => readString(part, 'text') ?? '')
+        .join('');
+};
+
+/**
+ * Reads a message's answer, reasoning and references from `contentChunks`,
+ * falling back to the flat `content` string on messages without chunks.
+ */
+export const readMistralMessageParts = (message: Record<string, unknown>): MistralMessageParts => {
+    const chunks = readRecords(message.contentChunks);
+    const sources = toMistralSources(message.references);
+    if (chunks.length === 0) {
+        return { text: readString(message, 'content') ?? '', thinking: '', sources };
+    }
+    const texts: string[] = [];
+    const thinking: string[] = [];
+    for (const chunk of chunks) {
+        const type = readString(chunk, 'type');
+        if (type === 'text') {
+            texts.push(readString(chunk, 'text') ?? '');
+        } else if (type === 'thinking') {
+            thinking.push(readThinkingChunk(chunk));
+        }
+    }
+    return { text: texts.join(''), thinking: thinking.join(''), sources };
+};
+
+const buildThoughts = (parts: MistralMessageParts, finished: boolean): MistralThought[] =>
+    parts.thinking.trim() ? [{ summary: '', content: parts.thinking, chunks: [], finished }] : [];
+
+export const buildMistralMessage = (input: MistralMessageInput): Message => {
+    const thoughts = buildThoughts(input.parts, input.status !== 'in_progress');
+    const isAssistant = input.role === 'assistant';
+    return {
+        id: input.id,
+        author: { role: input.role, name: null, metadata: {} },
+        create_time: input.createTime,
+        update_time: input.updateTime,
+        content:
+            thoughts.length > 0
+                ? { content_type: 'thoughts', parts: [input.parts.text], thoughts }
+                : { content_type: 'text', parts: [input.parts.text] },
+        status: input.status,
+        end_turn: isAssistant ? input.status === 'finished_successfully' : null,
+        weight: 1,
+        metadata: isAssistant
+            ? {
+                  model_slug: input.model,
+                  ...(input.parts.sources.length > 0 ? { sources: input.parts.sources } : {}),
+              }
+            : {},
+        recipient: 'all',
+        channel: null,
+    };
+};
+
+export const createMistralConversationShell = (
+    chatId: string,
+    overrides: Partial<Pick<ConversationData, 'title' | 'create_time' | 'update_time' | 'default_model_slug'>> = {},
+): ConversationData => {
+    const rootId = getMistralRootNodeId(chatId);
+    const nowSeconds = Date.now() / 1000;
+    return {
+        title: mistralState.conversationTitles.get(chatId) ?? MISTRAL_DEFAULT_TITLES[0],
+        create_time: nowSeconds,
+        update_time: nowSeconds,
+        mapping: {
+            [rootId]: { id: rootId, message: null, parent: null, children: [] },
+        },
+        conversation_id: chatId,
+        current_node: rootId,
+        moderation_results: [],
+        plugin_ids: null,
+        gizmo_id: null,
+        gizmo_type: null,
+        is_archived: false,
+        default_model_slug: MISTRAL_DEFAULT_MODEL_SLUG,
+        safe_urls: [],
+        blocked_urls: [],
+        ...overrides,
+    };
+};
+
+export const attachMistralNode = (conversation: ConversationData, node: MessageNode) => {
+    conversation.mapping[node.id] = node;
+    const parent = node.parent ? conversation.mapping[node.parent] : undefined;
+    if (parent && !parent.children.includes(node.id)) {
+        parent.children.push(node.id);
+    }
+};
+
+export const rememberMistralTitle = (chatId: string, title: string) => {
+    if (!(MISTRAL_DEFAULT_TITLES as readonly string[]).includes(title)) {
+        mistralState.conversationTitles.set(chatId, title);
+    }
+};
+
+const toMistralMessage = (message: Record<string, unknown>): Message | null => {
+    const id = readString(message, 'id');
+    if (!id) {
+        return null;
+    }
+    const createdAt = toMistralEpochSeconds(message.createdAt);
+    return buildMistralMessage({
+        id,
+        role: readString(message, 'role') === 'user' ? 'user' : 'assistant',
+        parts: readMistralMessageParts(message),
+        createTime: createdAt,
+        updateTime: toMistralEpochSeconds(message.updatedAt) ?? createdAt,
+        status: toMistralMessageStatus(message),
+        model: readString(message, 'model')?.trim() || MISTRAL_DEFAULT_MODEL_SLUG,
+    });
+};
+
+/**
+ * The tRPC response is either a batch array of `{ result: { data: { json } } }`
+ * envelopes (one per procedure) or a single envelope. Returns every `json` value.
+ */
+const unwrapTrpcResults = (data: unknown): unknown[] => {
+    const parsed = tryParseMistralJson(data);
+    const envelopes = Array.isArray(parsed) ? parsed : [parsed];
+    return envelopes.map((envelope) => {
+        const payload = asRecord(asRecord(asRecord(envelope)?.result)?.data);
+        return payload && 'json' in payload ? payload.json : payload;
+    });
+};
+
+type MistralHistoryParts = {
+    chat: Record<string, unknown> | null;
+    messages: Record<string, unknown>[];
+};
+
+/** Picks the `chat.byId` record and the `message.all` list out of a batched response. */
+const readHistoryParts = (data: unknown): MistralHistoryParts => {
+    const parts: MistralHistoryParts = { chat: null, messages: [] };
+    for (const result of unwrapTrpcResults(data)) {
+        if (Array.isArray(result)) {
+            parts.messages.push(...readRecords(result));
+        } else if (asRecord(result) && 'title' in (result as Record<string, unknown>)) {
+            parts.chat = result as Record<string, unknown>;
+        }
+    }
+    return parts;
+};
+
+/** Attaches messages in order, each under its parent (or the previous message); returns the last attached ID. */
+const attachHistoryMessages = (
+    conversation: ConversationData,
+    rawMessages: Record<string, unknown>[],
+    rootId: string,
+): string | null => {
+    let lastId: string | null = null;
+    for (const rawMessage of rawMessages) {
+        const message = toMistralMessage(rawMessage);
+        if (!message) {
+            continue;
+        }
+        const parentId = readString(rawMessage, 'parentId');
+        attachMistralNode(conversation, {
+            id: message.id,
+            message,
+            parent: parentId && conversation.mapping[parentId] ? parentId : (lastId ?? rootId),
+            children: [],
+        });
+        lastId = message.id;
+    }
+    return lastId;
+};
+
+const latestModelSlug = (conversation: ConversationData) => {
+    const nodes = Object.values(conversation.mapping).reverse();
+    const assistant = nodes.find((node) => node.message?.author.role === 'assistant');
+    const model = assistant?.message?.metadata.model_slug;
+    return typeof model === 'string' ? model : MISTRAL_DEFAULT_MODEL_SLUG;
+};
+
+/**
+ * Parses a tRPC `message.all` response (optionally batched with `chat.byId`)
+ * into ConversationData. Returns `null` for chats without messages yet (the
+ * title is still cached).
+ */
+export const parseMistralHistoryPayload = (data: unknown, fallbackChatId: string | null): ConversationData | null => {
+    const { chat, messages } = readHistoryParts(data);
+    const chatId = readString(messages[0] ?? null, 'chatId') ?? readString(chat, 'id') ?? fallbackChatId;
+    if (!chatId || !MISTRAL_CHAT_ID_PATTERN.test(chatId)) {
+        return null;
+    }
+    const title = readString(chat, 'title')?.trim();
+    if (title) {
+        rememberMistralTitle(chatId, title);
+    }
+    if (messages.length === 0) {
+        return null;
+    }
+
+    const createTime = toMistralEpochSeconds(chat?.createdAt);
+    const updateTime = toMistralEpochSeconds(chat?.updatedAt);
+    const conversation = createMistralConversationShell(chatId, {
+        ...(title ? { title } : {}),
+        ...(createTime !== null ? { create_time: createTime } : {}),
+        ...(updateTime !== null ? { update_time: updateTime } : {}),
+    });
+    const lastId = attachHistoryMessages(conversation, messages, getMistralRootNodeId(chatId));
+    conversation.current_node = lastId ?? conversation.current_node;
+    conversation.default_model_slug = latestModelSlug(conversation);
+    mistralState.activeConversations.set(chatId, conversation);
+    return conversation;
+};
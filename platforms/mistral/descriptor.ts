@@ -0,0 +1,37 @@
+import type { PlatformDescriptor } from '@/platforms/types';
+
+/**
+ * Mistral Le Chat platform descriptor: hosts, endpoints, selectors and capture
+ * settings consumed through `platforms/descriptors.ts`.
+ */
+export const mistralDescriptor = {
+    name: 'Mistral',
+    parserId: 'mistral',
+    hosts: ['chat.mistral.ai'],
+    urlMatchPatterns: ['https://chat.mistral.ai/*'],
+    streamProtocol: 'numbered-json-lines',
+    /**
+     * `/api/chat` is a generic path, so patterns only accept Le Chat's origin (or a
+     * relative URL, as seen by the page's own requests).
+     */
+    endpoints: {
+        apiEndpointPattern: /^(?:https:\/\/chat\.mistral\.ai)?\/api\/(?:trpc\/[^?#]*\bmessage\.all\b|chat(?:[?#]|$))/i,
+        completionTriggerPattern: /^(?:https:\/\/chat\.mistral\.ai)?\/api\/chat(?:[?#]|$)/i,
+    },
+    signals: {
+        lifecycleEndpoints: ['completionTriggerPattern'],
+        completionEndpoints: ['apiEndpointPattern'],
+        completionRequiresReadiness: true,
+        streamingOnRequest: true,
+    },
+    apiHintMarkers: ['/api/trpc', '/api/chat'],
+    selectors: {
+        buttonInjectionTargets: ['main header', 'header', 'body'],
+        domTitleCandidates: ['[data-testid="chat-title"]', 'main header h1'],
+        generatingIndicators: ['button[aria-label="Stop generation"]', 'button[aria-label="Stop"]'],
+    },
+    defaultTitles: ['New chat', 'Le Chat'],
+    capturesPromptHints: true,
+    passiveCaptureWaitMs: 2500,
+    bulkExport: null,
+} as const satisfies PlatformDescriptor;
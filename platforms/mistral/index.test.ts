@@ -0,0 +1,220 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, mock } from 'bun:test';
+import { join } from 'node:path';
+import { extractActiveMessageChain, extractConversationReasoning } from '@/utils/conversation-inspection';
+import { evaluatePayloadQuality } from '@/utils/payload-quality-gate';
+import type { ConversationData } from '@/utils/types';
+
+mock.module('@/utils/logger', () => ({
+    logger: { info: () => {}, warn: () => {}, error: () => {}, debug: () => {} },
+}));
+
+const CHAT_ID = '3b9d2c71-5e4f-4a8b-9c6d-7e1f2a3b4c5d';
+const messageId = (n: number) => `5f0c1e2d-7a3b-4c4d-9e5f-00000000000${n}`;
+const HISTORY_URL = `https://chat.mistral.ai/api/trpc/chat.byId,message.all?batch=1&input=${encodeURIComponent(
+    JSON.stringify({ 0: { json: { id: CHAT_ID } }, 1: { json: { chatId: CHAT_ID } } }),
+)}`;
+const CHAT_URL = 'https://chat.mistral.ai/api/chat';
+
+const messageText = (data: ConversationData | null, id: string) => data?.mapping[id]?.message?.content.parts?.[0];
+
+describe('Mistral Adapter — integration', () => {
+    let historyRaw: string;
+    let streamRaw: string;
+    let mistralAdapter: any;
+    let resetMistralAdapterState: () => void;
+
+    beforeAll(async () => {
+        const module = await import('@/platforms/mistral');
+        mistralAdapter = module.mistralAdapter;
+        resetMistralAdapterState = module.resetMistralAdapterState;
+
+        historyRaw = await Bun.file(
+            join(import.meta.dir, '..', '..', 'data', 'mistral', 'sample_mistral_history.json'),
+        ).text();
+        streamRaw = await Bun.file(
+            join(import.meta.dir, '..', '..', 'data', 'mistral', 'sample_mistral_chat_stream.txt'),
+        ).text();
+    });
+
+    const originalDocument = (globalThis as { document?: unknown }).document;
+
+    const installDocument = (fields: { title?: string; elements?: Record<string, string> } = {}) => {
+        (globalThis as { document?: unknown }).document = {
+            title: fields.title ?? '',
+            querySelector: (selector: string) =>
+                fields.elements?.[selector] === undefined ? null : { textContent: fields.elements[selector] },
+        };
+    };
+
+    beforeEach(() => {
+        resetMistralAdapterState();
+        installDocument();
+    });
+
+    afterEach(() => {
+        (globalThis as { document?: unknown }).document = originalDocument;
+    });
+
+    it('should identify chat.mistral.ai pages and extract chat IDs', () => {
+        expect(mistralAdapter.isPlatformUrl(`https://chat.mistral.ai/chat/${CHAT_ID}`)).toBeTrue();
+        expect(mistralAdapter.isPlatformUrl('https://mistral.ai/news')).toBeFalse();
+        expect(mistralAdapter.extractConversationId(`https://chat.mistral.ai/chat/${CHAT_ID}`)).toBe(CHAT_ID);
+        expect(mistralAdapter.extractConversationId('https://chat.mistral.ai/chat')).toBeNull();
+        expect(mistralAdapter.extractConversationId('https://chat.mistral.ai/chat/not-a-uuid')).toBeNull();
+        expect(mistralAdapter.extractConversationIdFromUrl(HISTORY_URL)).toBe(CHAT_ID);
+        expect(mistralAdapter.extractConversationIdFromUrl(CHAT_URL)).toBeNull();
+        expect(mistralAdapter.buildApiUrls(CHAT_ID)).toEqual([HISTORY_URL]);
+        expect(mistralAdapter.buildApiUrls('not-a-uuid')).toEqual([]);
+    });
+
+    it('should parse a batched history with retries, reasoning and references', () => {
+        const data: ConversationData = mistralAdapter.parseInterceptedData(historyRaw, HISTORY_URL);
+
+        expect(data.conversation_id).toBe(CHAT_ID);
+        expect(data.title).toBe('Capital of Australia');
+        expect(data.create_time).toBe(Date.parse('2025-06-10T09:00:00.000Z') / 1000);
+        expect(data.current_node).toBe(messageId(5));
+        expect(data.mapping[messageId(3)]?.children).toEqual([messageId(4), messageId(5)]);
+        expect(extractActiveMessageChain(data).map((message) => message.id)).toEqual([
+            messageId(1),
+            messageId(2),
+            messageId(3),
+            messageId(5),
+        ]);
+
+        expect(messageText(data, messageId(1))).toBe('What is the capital of Australia?');
+        expect(data.mapping[messageId(2)]?.message?.metadata.sources).toEqual([
+            {
+                title: 'Canberra - Wikipedia',
+                url: 'https://en.wikipedia.org/wiki/Canberra',
+                snippet: 'Canberra is the capital city of Australia.',
+            },
+        ]);
+        const retry = data.mapping[messageId(5)]?.message;
+        expect(retry?.content.content_type).toBe('thoughts');
+        expect(retry?.content.thoughts?.[0]).toMatchObject({
+            content: 'Explain the rivalry between Sydney and Melbourne.',
+            finished: true,
+        });
+        expect(messageText(data, messageId(5))).toBe(
+            'Canberra was chosen as a compromise between Sydney and Melbourne.',
+        );
+        expect(data.default_model_slug).toBe('magistral-medium-2506');
+        expect(mistralAdapter.evaluateReadiness(data).ready).toBeTrue();
+    });
+
+    it('should pass the payload quality gate for Magistral output', () => {
+        const data: ConversationData = mistralAdapter.parseInterceptedData(historyRaw, HISTORY_URL);
+
+        expect(extractConversationReasoning(data)).toContain('Explain the rivalry between Sydney and Melbourne.');
+        expect(evaluatePayloadQuality(data, 'Mistral')).toMatchObject({ passed: true, issues: [] });
+    });
+
+    it('should accept an unbatched message.all response with flat content', () => {
+        const payload = {
+            result: {
+                data: {
+                    json: [
+                        { id: messageId(1), chatId: CHAT_ID, role: 'user', content: 'Bonjour' },
+                        { id: messageId(2), chatId: CHAT_ID, role: 'assistant', content: 'Bonjour !', model: null },
+                    ],
+                },
+            },
+        };
+        const data: ConversationData = mistralAdapter.parseInterceptedData(JSON.stringify(payload), HISTORY_URL);
+
+        expect(data.title).toBe('New chat');
+        expect(data.mapping[messageId(2)]?.parent).toBe(messageId(1));
+        expect(messageText(data, messageId(2))).toBe('Bonjour !');
+        expect(data.mapping[messageId(2)]?.message?.metadata.model_slug).toBe('mistral-large-latest');
+    });
+
+    it('should return null for chats without messages but keep their title', () => {
+        const payload = JSON.stringify([
+            { result: { data: { json: { id: CHAT_ID, title: 'Fresh chat' } } } },
+            { result: { data: { json: [] } } },
+        ]);
+        expect(mistralAdapter.parseInterceptedData(payload, HISTORY_URL)).toBeNull();
+
+        const data: ConversationData = mistralAdapter.parseInterceptedData(
+            streamRaw.replace('{"type":"title","title":"Capital of Australia"}', '{"type":"title","title":""}'),
+            CHAT_URL,
+            CHAT_ID,
+        );
+        expect(data.conversation_id).toBe(CHAT_ID);
+        expect(data.title).toBe('Fresh chat');
+    });
+
+    it('should merge a chat stream into the cached chat', () => {
+        mistralAdapter.parseInterceptedData(historyRaw, HISTORY_URL);
+        const data: ConversationData = mistralAdapter.parseInterceptedData(streamRaw, CHAT_URL, CHAT_ID);
+
+        expect(data.current_node).toBe(messageId(7));
+        expect(data.mapping[messageId(7)]?.parent).toBe(messageId(6));
+        expect(data.mapping[messageId(6)]).toMatchObject({
+            message: null,
+            parent: messageId(5),
+            children: [messageId(7)],
+        });
+        expect(messageText(data, messageId(7))).toBe('About 470,000 people live in Canberra.');
+        expect(data.mapping[messageId(7)]?.message?.content.thoughts?.[0]).toMatchObject({
+            content: 'Use the latest census figure.',
+            finished: true,
+        });
+        expect(data.mapping[messageId(7)]?.message?.status).toBe('finished_successfully');
+        expect(evaluatePayloadQuality(data, 'Mistral').issues).toEqual([]);
+        expect(mistralAdapter.evaluateReadiness(data).ready).toBeTrue();
+    });
+
+    it('should ignore chat streams when no chat is known', () => {
+        expect(mistralAdapter.parseInterceptedData(streamRaw, CHAT_URL)).toBeNull();
+    });
+
+    describe('chat streams of a new chat started from /', () => {
+        const NEW_CHAT_ID = '9f8e7d6c-5b4a-4c3d-8e2f-1a0b9c8d7e6f';
+        const originalWindow = (globalThis as { window?: unknown }).window;
+
+        beforeEach(() => {
+            (globalThis as { window?: unknown }).window = { location: new URL('https://chat.mistral.ai/chat') };
+            // The user viewed another chat before opening a new one.
+            mistralAdapter.parseInterceptedData(historyRaw, HISTORY_URL);
+        });
+
+        afterEach(() => {
+            (globalThis as { window?: unknown }).window = originalWindow;
+        });
+
+        it('should attribute the stream to the chat named by the request body', () => {
+            const data: ConversationData = mistralAdapter.parseInterceptedData(streamRaw, CHAT_URL, NEW_CHAT_ID);
+            expect(data.conversation_id).toBe(NEW_CHAT_ID);
+            expect(data.mapping[messageId(5)]).toBeUndefined();
+            expect(messageText(data, messageId(7))).toBe('About 470,000 people live in Canberra.');
+        });
+
+        it('should not fall back to the last viewed chat', () => {
+            expect(mistralAdapter.parseInterceptedData(streamRaw, CHAT_URL)).toBeNull();
+        });
+
+        it('should read the chat ID from the chat request body', () => {
+            const body = JSON.stringify({ chatId: NEW_CHAT_ID, messageInput: 'hi' });
+            expect(mistralAdapter.extractConversationIdFromRequestBody(body)).toBe(NEW_CHAT_ID);
+        });
+    });
+
+    it('should resolve titles from document.title before header candidates', () => {
+        installDocument({ title: 'Capital of Australia | Le Chat' });
+        expect(mistralAdapter.extractTitleFromDom()).toBe('Capital of Australia');
+
+        installDocument({ title: 'Le Chat - Mistral AI', elements: { 'main header h1': ' Header  title ' } });
+        expect(mistralAdapter.extractTitleFromDom()).toBe('Header title');
+
+        installDocument({ title: 'Le Chat', elements: { 'main header h1': 'New chat' } });
+        expect(mistralAdapter.extractTitleFromDom()).toBeNull();
+    });
+
+    it('should format filenames from the title or the chat id', () => {
+        const data = mistralAdapter.parseInterceptedData(historyRaw, HISTORY_URL);
+        expect(mistralAdapter.formatFilename(data)).toStartWith('Capital_of_Australia_');
+        expect(mistralAdapter.formatFilename({ ...data, title: '' })).toStartWith('mistral_chat_3b9d2c71_');
+    });
+});
@@ -0,0 +1,192 @@
+/**
+ * Mistral Le Chat Platform Adapter
+ *
+ * Supports chat.mistral.ai chats across:
+ * - api/trpc/message.all (tRPC query, usually batched with chat.byId for the title)
+ * - api/chat (numbered-line generation stream of JSON patches)
+ *
+ * Magistral reasoning is kept as `thoughts` content and web references as `metadata.sources`.
+ * The chat URL does not name its chat, so the stream is attributed to the `chatId` of
+ * the request body (forwarded by the interceptor), falling back to the chat in the page URL.
+ */
+
+import type { LLMPlatform } from '@/platforms/types';
+import { evaluateActiveChainReadiness } from '@/utils/conversation-readiness';
+import { generateTimestamp, sanitizeFilename } from '@/utils/download';
+import { logger } from '@/utils/logger';
+import type { ConversationData } from '@/utils/types';
+import { parseMistralHistoryPayload } from './conversation-parser';
+import { mistralDescriptor } from './descriptor';
+import { extractMistralChatIdFromRequestBody, extractMistralPromptFromRequestBody } from './prompt-extractor';
+import {
+    isMistralChatEndpointUrl,
+    isMistralGeneratingInDom,
+    MISTRAL_DEFAULT_TITLES,
+    MISTRAL_ENDPOINT_REGISTRY,
+    MISTRAL_SELECTOR_REGISTRY,
+    resolveMistralButtonInjectionTarget,
+} from './registry';
+import { mergeMistralStreamIntoConversation, parseMistralChatStream } from './stream-parser';
+import {
+    buildMistralHistoryApiUrl,
+    extractMistralChatIdFromApiUrl,
+    extractMistralChatIdFromPath,
+    MISTRAL_CHAT_ID_PATTERN,
+} from './url-utils';
+
+export { MistralAdapterState, mistralState, resetMistralAdapterState } from './state';
+
+const MAX_TITLE_LENGTH = 80;
+const MISTRAL_GENERIC_DOM_TITLES = new Set(['le chat', 'le chat - mistral ai', 'mistral ai']);
+
+const normalizeDomTitle = (value: string | null | undefined): string => value?.replace(/\s+/g, ' ').trim() ?? '';
+
+const normalizeMistralDomTitleCandidate = (raw: string, defaultTitles: readonly string[]): string | null => {
+    const normalized = normalizeDomTitle(raw);
+    if (!normalized) {
+        return null;
+    }
+    const lower = normalized.toLowerCase();
+    if (MISTRAL_GENERIC_DOM_TITLES.has(lower)) {
+        return null;
+    }
+    if (defaultTitles.some((title) => normalizeDomTitle(title).toLowerCase() === lower)) {
+        return null;
+    }
+    return normalized;
+};
+
+const queryMistralTitleFromDom = (defaultTitles: readonly string[]): string | null => {
+    for (const selector of MISTRAL_SELECTOR_REGISTRY.domTitleCandidates) {
+        const normalized = normalizeMistralDomTitleCandidate(
+            document.querySelector(selector)?.textContent ?? '',
+            defaultTitles,
+        );
+        if (normalized) {
+            return normalized;
+        }
+    }
+    return null;
+};
+
+const isMistralHost = (hostname: string) => hostname === 'chat.mistral.ai';
+
+const resolveStreamChatId = (requestChatId: string | undefined, pageUrl: string | null): string | null => {
+    if (requestChatId && MISTRAL_CHAT_ID_PATTERN.test(requestChatId)) {
+        return requestChatId;
+    }
+    if (!pageUrl) {
+        return null;
+    }
+    try {
+        return extractMistralChatIdFromPath(new URL(pageUrl).pathname);
+    } catch {
+        return null;
+    }
+};
+
+const parseChatStreamPayload = (data: unknown, chatId: string | null): ConversationData | null => {
+    if (typeof data !== 'string' || !chatId) {
+        return null;
+    }
+    const snapshot = parseMistralChatStream(data);
+    return snapshot ? mergeMistralStreamIntoConversation(chatId, snapshot) : null;
+};
+
+export const mistralAdapter: LLMPlatform = {
+    name: mistralDescriptor.name,
+    urlMatchPattern: mistralDescriptor.urlMatchPatterns[0],
+
+    apiEndpointPattern: MISTRAL_ENDPOINT_REGISTRY.apiEndpointPattern,
+    completionTriggerPattern: MISTRAL_ENDPOINT_REGISTRY.completionTriggerPattern,
+
+    isPlatformUrl(url: string): boolean {
+        try {
+            return isMistralHost(new URL(url).hostname);
+        } catch {
+            return false;
+        }
+    },
+
+    extractConversationId(url: string): string | null {
+        try {
+            const urlObj = new URL(url);
+            return isMistralHost(urlObj.hostname) ? extractMistralChatIdFromPath(urlObj.pathname) : null;
+        } catch {
+            return null;
+        }
+    },
+
+    extractConversationIdFromUrl(url: string): string | null {
+        return extractMistralChatIdFromApiUrl(url);
+    },
+
+    buildApiUrls(conversationId: string): string[] {
+        return MISTRAL_CHAT_ID_PATTERN.test(conversationId) ? [buildMistralHistoryApiUrl(conversationId)] : [];
+    },
+
+    extractConversationIdFromRequestBody(body: unknown): string | null {
+        return extractMistralChatIdFromRequestBody(body);
+    },
+
+    extractPromptFromRequestBody(body: unknown): string | null {
+        return extractMistralPromptFromRequestBody(body);
+    },
+
+    parseInterceptedData(data: string | any, url: string, requestConversationId?: string): ConversationData | null {
+        const chatStream = isMistralChatEndpointUrl(url);
+        logger.info('[Blackiya/Mistral] parseInterceptedData entry', {
+            chatId: extractMistralChatIdFromApiUrl(url),
+            chatStream,
+            dataLen: typeof data === 'string' ? data.length : -1,
+        });
+
+        if (chatStream) {
+            return parseChatStreamPayload(
+                data,
+                resolveStreamChatId(requestConversationId, typeof window === 'undefined' ? null : window.location.href),
+            );
+        }
+        return parseMistralHistoryPayload(data, extractMistralChatIdFromApiUrl(url));
+    },
+
+    formatFilename(data: ConversationData): string {
+        let title = data.title || '';
+        if (!title.trim()) {
+            const idPart =
+                data.conversation_id && data.conversation_id.length >= 8
+                    ? data.conversation_id.slice(0, 8)
+                    : data.conversation_id || 'unknown';
+            title = `mistral_chat_${idPart}`;
+        }
+        const sanitizedTitle = sanitizeFilename(title).slice(0, MAX_TITLE_LENGTH);
+        const timestamp = generateTimestamp(data.update_time || data.create_time);
+        return `${sanitizedTitle}_${timestamp}`;
+    },
+
+    getButtonInjectionTarget(): HTMLElement | null {
+        return resolveMistralButtonInjectionTarget();
+    },
+
+    evaluateReadiness(data: ConversationData) {
+        return evaluateActiveChainReadiness(data);
+    },
+
+    isPlatformGenerating() {
+        return isMistralGeneratingInDom();
+    },
+
+    defaultTitles: MISTRAL_DEFAULT_TITLES,
+
+    extractTitleFromDom(): string | null {
+        const defaultTitles = this.defaultTitles ?? [];
+        const titleFromPage = normalizeMistralDomTitleCandidate(
+            normalizeDomTitle(document.title).replace(/\s*[|–-]\s*Le Chat$/i, ''),
+            defaultTitles,
+        );
+        if (titleFromPage) {
+            return titleFromPage;
+        }
+        return queryMistralTitleFromDom(defaultTitles);
+    },
+};
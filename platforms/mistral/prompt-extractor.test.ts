@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    extractMistralChatIdFromRequestBody,
+    extractMistralPromptFromRequestBody,
+} from '@/platforms/mistral/prompt-extractor';
+
+const CHAT_ID = '3b9d2c71-5e4f-4a8b-9c6d-7e1f2a3b4c5d';
+
+describe('mistral prompt-extractor', () => {
+    it('should return the trimmed prompt and chat id from a chat body', () => {
+        const body = JSON.stringify({
+            chatId: CHAT_ID,
+            mode: 'append',
+            messageInput: [
+                { type: 'text', text: '  How many people ' },
+                { type: 'image_url', image_url: 'https://example.com/a.png' },
+                { type: 'text', text: 'live there?  ' },
+            ],
+        });
+        expect(extractMistralPromptFromRequestBody(body)).toBe('How many people \nlive there?');
+        expect(extractMistralChatIdFromRequestBody(body)).toBe(CHAT_ID);
+        expect(extractMistralPromptFromRequestBody(JSON.stringify({ messageInput: ' Salut ' }))).toBe('Salut');
+    });
+
+    it('should return null for retry bodies, invalid chats and non-JSON bodies', () => {
+        expect(extractMistralPromptFromRequestBody(JSON.stringify({ chatId: CHAT_ID, mode: 'retry' }))).toBeNull();
+        expect(extractMistralPromptFromRequestBody(JSON.stringify({ messageInput: [] }))).toBeNull();
+        expect(extractMistralChatIdFromRequestBody(JSON.stringify({ chatId: 'abc' }))).toBeNull();
+        expect(extractMistralPromptFromRequestBody('not json')).toBeNull();
+        expect(extractMistralChatIdFromRequestBody(new Blob(['x']))).toBeNull();
+    });
+});
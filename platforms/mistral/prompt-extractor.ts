@@ -0,0 +1,57 @@
+/**
+ * Mistral Le Chat Prompt Extractor
+ *
+ * Reads the JSON body POSTed to `/api/chat`:
+ *
+ *   { "chatId": "<uuid>", "mode": "append", "messageInput": [{ "type": "text", "text": "<user_prompt_text>" }], ... }
+ *
+ * The chat URL carries no chat ID, so the body is also where the interceptor
+ * learns which conversation a stream belongs to. `retry` bodies carry no
+ * input and yield a `null` prompt.
+ *
+ * @module platforms/mistral/prompt-extractor
+ */
+
+import { MISTRAL_CHAT_ID_PATTERN } from './url-utils';
+
+const parseBody = (body: unknown): Record<string, unknown> | null => {
+    if (typeof body !== 'string' || body.length === 0) {
+        return null;
+    }
+    try {
+        const parsed: unknown = JSON.parse(body);
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+            ? (parsed as Record<string, unknown>)
+            : null;
+    } catch {
+        return null;
+    }
+};
+
+/** `messageInput` is a list of typed chunks (older clients sent a plain string). */
+const readMessageInputText = (messageInput: unknown): string => {
+    if (typeof messageInput === 'string') {
+        return messageInput;
+    }
+    if (!Array.isArray(messageInput)) {
+        return '';
+    }
+    return messageInput
+        .map((chunk) =>
+            chunk && typeof chunk === 'object' && (chunk as Record<string, unknown>).type === 'text'
+                ? (chunk as Record<string, unknown>).text
+                : null,
+        )
+        .filter((text): text is string => typeof text === 'string')
+        .join('\n');
+};
+
+export const extractMistralPromptFromRequestBody = (body: unknown): string | null => {
+    const trimmed = readMessageInputText(parseBody(body)?.messageInput).trim();
+    return trimmed.length > 0 ? trimmed : null;
+};
+
+export const extractMistralChatIdFromRequestBody = (body: unknown): string | null => {
+    const chatId = parseBody(body)?.chatId;
+    return typeof chatId === 'string' && MISTRAL_CHAT_ID_PATTERN.test(chatId) ? chatId : null;
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    isLikelyMistralApiPath,
+    isMistralChatEndpointUrl,
+    isMistralConversationEndpointUrl,
+    isMistralGeneratingInDom,
+    resolveMistralButtonInjectionTarget,
+} from '@/platforms/mistral/registry';
+
+describe('mistral registry', () => {
+    it('should classify chat stream and history endpoints, including relative URLs', () => {
+        expect(isMistralChatEndpointUrl('https://chat.mistral.ai/api/chat')).toBeTrue();
+        expect(isMistralChatEndpointUrl('/api/chat?stream=true')).toBeTrue();
+        expect(isMistralChatEndpointUrl('/api/chats')).toBeFalse();
+        expect(isMistralChatEndpointUrl('https://example.com/api/chat')).toBeFalse();
+        expect(isMistralConversationEndpointUrl('/api/trpc/message.all?batch=1&input=%7B%7D')).toBeTrue();
+        expect(isMistralConversationEndpointUrl('/api/trpc/chat.byId,message.all?batch=1')).toBeTrue();
+        expect(isMistralConversationEndpointUrl('/api/trpc/chat.list?batch=1')).toBeFalse();
+        expect(isMistralConversationEndpointUrl('/api/trpc/message.allFeedback?batch=1')).toBeFalse();
+        expect(isLikelyMistralApiPath('https://chat.mistral.ai/api/trpc/user.session')).toBeTrue();
+        expect(isLikelyMistralApiPath('https://chat.mistral.ai/chat/abc')).toBeFalse();
+    });
+
+    it('should resolve the button target from the first matching selector', () => {
+        const parent = { id: 'parent' } as unknown as HTMLElement;
+        const doc = {
+            querySelector: (selector: string) =>
+                selector === 'header' ? ({ parentElement: parent } as unknown as Element) : null,
+        };
+        expect(resolveMistralButtonInjectionTarget(doc)).toBe(parent);
+        expect(resolveMistralButtonInjectionTarget({ querySelector: () => null })).toBeNull();
+        expect(resolveMistralButtonInjectionTarget(null)).toBeNull();
+    });
+
+    it('should detect generation from the stop button', () => {
+        const docWith = (match: string) => ({
+            querySelector: (selector: string) => (selector === match ? ({} as Element) : null),
+        });
+        expect(isMistralGeneratingInDom(docWith('button[aria-label="Stop generation"]'))).toBeTrue();
+        expect(isMistralGeneratingInDom(docWith('main'))).toBeFalse();
+    });
+});
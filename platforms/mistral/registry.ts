@@ -0,0 +1,64 @@
+import { logger } from '@/utils/logger';
+import { mistralDescriptor } from './descriptor';
+
+const BUTTON_TARGET_MISS_LOG_INTERVAL_MS = 8_000;
+let lastButtonTargetMissAt = 0;
+
+export const MISTRAL_ENDPOINT_REGISTRY = mistralDescriptor.endpoints;
+
+export const MISTRAL_PATH_REGISTRY = {
+    apiHintMarkers: mistralDescriptor.apiHintMarkers,
+} as const;
+
+export const MISTRAL_SELECTOR_REGISTRY = mistralDescriptor.selectors;
+
+export const MISTRAL_DEFAULT_TITLES = mistralDescriptor.defaultTitles;
+
+const maybeLogButtonTargetMiss = () => {
+    const now = Date.now();
+    if (now - lastButtonTargetMissAt < BUTTON_TARGET_MISS_LOG_INTERVAL_MS) {
+        return;
+    }
+    lastButtonTargetMissAt = now;
+    logger.warn('[Blackiya/Mistral] Button target selectors unmatched', {
+        selectors: [...MISTRAL_SELECTOR_REGISTRY.buttonInjectionTargets],
+    });
+};
+
+export const resolveMistralButtonInjectionTarget = (
+    doc: Pick<Document, 'querySelector'> | null = typeof document === 'undefined' ? null : document,
+): HTMLElement | null => {
+    if (!doc) {
+        return null;
+    }
+    for (const selector of MISTRAL_SELECTOR_REGISTRY.buttonInjectionTargets) {
+        const target = doc.querySelector(selector);
+        if (target) {
+            return (target.parentElement || target) as HTMLElement;
+        }
+    }
+    maybeLogButtonTargetMiss();
+    return null;
+};
+
+export const isMistralGeneratingInDom = (
+    doc: Pick<Document, 'querySelector'> | null = typeof document === 'undefined' ? null : document,
+): boolean => !!doc && MISTRAL_SELECTOR_REGISTRY.generatingIndicators.some((selector) => !!doc.querySelector(selector));
+
+/** `/api/chat` POSTs — the streamed generation requests. */
+export const isMistralChatEndpointUrl = (url: string): boolean =>
+    MISTRAL_ENDPOINT_REGISTRY.completionTriggerPattern.test(url);
+
+/** tRPC `message.all` queries (alone or batched) and `/api/chat` POSTs. */
+export const isMistralConversationEndpointUrl = (url: string): boolean =>
+    MISTRAL_ENDPOINT_REGISTRY.apiEndpointPattern.test(url);
+
+export const isLikelyMistralApiPath = (url: string): boolean => {
+    let path: string;
+    try {
+        path = new URL(url).pathname.toLowerCase();
+    } catch {
+        path = url.toLowerCase();
+    }
+    return MISTRAL_PATH_REGISTRY.apiHintMarkers.some((marker) => path.includes(marker));
+};
@@ -0,0 +1,24 @@
+import { LRUCache } from '@/utils/lru-cache';
+import type { ConversationData } from '@/utils/types';
+
+/**
+ * Encapsulates all mutable adapter state to prevent cross-test/session leakage.
+ * Use `resetMistralAdapterState()` in tests to get a clean state.
+ */
+export class MistralAdapterState {
+    /** Maps chat UUID to title */
+    readonly conversationTitles = new LRUCache<string, string>(50);
+    /** Latest parsed conversation per chat UUID, used as the base when a chat stream is merged in */
+    readonly activeConversations = new LRUCache<string, ConversationData>(50);
+
+    reset() {
+        this.conversationTitles.clear();
+        this.activeConversations.clear();
+    }
+}
+
+export const mistralState = new MistralAdapterState();
+
+export const resetMistralAdapterState = () => {
+    mistralState.reset();
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    createMistralStreamAccumulator,
+    parseMistralChatStream,
+    parseMistralStreamLine,
+    splitMistralStreamLines,
+} from '@/platforms/mistral/stream-parser';
+
+const MESSAGE_ID = '5f0c1e2d-7a3b-4c4d-9e5f-000000000007';
+
+const patches = (...items: unknown[]) => ({ type: 'message', messageId: MESSAGE_ID, patches: items });
+
+describe('mistral stream-parser', () => {
+    it('should split CRLF lines and unwrap numbered JSON envelopes', () => {
+        const { lines, remainingBuffer } = splitMistralStreamLines('0:{"json":{"type":"title"}}\r\n\r\n1:{"js');
+        expect(lines).toEqual(['0:{"json":{"type":"title"}}']);
+        expect(remainingBuffer).toBe('1:{"js');
+        expect(parseMistralStreamLine('3:{"json":{"type":"title","title":"T"}}')).toEqual({
+            type: 'title',
+            title: 'T',
+        });
+        expect(parseMistralStreamLine('4:{"type":"error","message":"x"}')).toEqual({ type: 'error', message: 'x' });
+        expect(parseMistralStreamLine('5:{"json":{"untyped":true}}')).toBeNull();
+        expect(parseMistralStreamLine('data: {}')).toBeNull();
+        expect(parseMistralStreamLine('6:{broken')).toBeNull();
+    });
+
+    it('should apply add, replace and append patches to the message document', () => {
+        const accumulator = createMistralStreamAccumulator();
+        accumulator.push(
+            patches({
+                op: 'replace',
+                path: '',
+                value: { id: MESSAGE_ID, contentChunks: [], generationStatus: 'pending', model: 'mistral-small' },
+            }),
+        );
+        accumulator.push(patches({ op: 'add', path: '/contentChunks/-', value: { type: 'text', text: 'Hel' } }));
+        accumulator.push(patches({ op: 'append', path: '/contentChunks/0/text', value: 'lo' }));
+        accumulator.push(patches({ op: 'add', path: '/contentChunks/0', value: { type: 'thinking', thinking: 'Hm' } }));
+        accumulator.push(patches({ op: 'remove', path: '/contentChunks/0' }));
+
+        const inProgress = accumulator.snapshot();
+        expect(inProgress).toMatchObject({ messageId: MESSAGE_ID, model: 'mistral-small', done: false, error: null });
+        expect(inProgress.parts).toMatchObject({ text: 'Hello', thinking: 'Hm' });
+
+        accumulator.push(patches({ op: 'replace', path: '/generationStatus', value: 'success' }));
+        expect(accumulator.snapshot().done).toBeTrue();
+    });
+
+    it('should end the turn on error events and failed generations', () => {
+        const failed = createMistralStreamAccumulator();
+        failed.push({ type: 'error', message: 'Rate limited' });
+        expect(failed.snapshot()).toMatchObject({ done: true, error: 'Rate limited' });
+
+        const errored = createMistralStreamAccumulator();
+        errored.push(patches({ op: 'replace', path: '', value: { id: MESSAGE_ID, generationStatus: 'error' } }));
+        expect(errored.snapshot()).toMatchObject({ done: true, error: 'Generation failed' });
+    });
+
+    it('should return null for streams that generated nothing', () => {
+        expect(parseMistralChatStream('0:{"json":{"type":"title","title":"T"}}\n')).toBeNull();
+        expect(
+            parseMistralChatStream(
+                `0:${JSON.stringify({ json: patches({ op: 'add', path: '', value: { id: 'm' } }) })}`,
+            )?.messageId,
+        ).toBe('m');
+    });
+});
@@ -0,0 +1,242 @@
+import type { ConversationData } from '@/utils/types';
+import { MISTRAL_DEFAULT_MODEL_SLUG } from './constants';
+import {
+    attachMistralNode,
+    buildMistralMessage,
+    createMistralConversationShell,
+    getMistralRootNodeId,
+    type MistralMessageParts,
+    readMistralMessageParts,
+    rememberMistralTitle,
+    toMistralMessageStatus,
+} from './conversation-parser';
+import { mistralState } from './state';
+
+export type MistralStreamEvent = Record<string, unknown> & { type: string };
+
+export type MistralStreamSnapshot = {
+    messageId: string | null;
+    parentId: string | null;
+    model: string;
+    parts: MistralMessageParts;
+    title: string | null;
+    done: boolean;
+    error: string | null;
+};
+
+const STREAM_LINE_PATTERN = /^\d+:(.*)$/;
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+    value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+
+const readString = (record: Record<string, unknown> | null, key: string): string | null => {
+    const value = record?.[key];
+    return typeof value === 'string' ? value : null;
+};
+
+/** Splits a buffer on newlines, returning complete stream lines and the unterminated tail. */
+export const splitMistralStreamLines = (buffer: string): { lines: string[]; remainingBuffer: string } => {
+    const lines = buffer.replace(/\r\n/g, '\n').split('\n');
+    const remainingBuffer = lines.pop() ?? '';
+    return { lines: lines.filter((line) => line.trim()), remainingBuffer };
+};
+
+/**
+ * One line of Le Chat's numbered stream (`{index}:{json}`), unwrapped from its
+ * tRPC-style `{ json }` envelope. Returns `null` for malformed or untyped lines.
+ */
+export const parseMistralStreamLine = (line: string): MistralStreamEvent | null => {
+    const raw = line.trim().match(STREAM_LINE_PATTERN)?.[1];
+    if (!raw) {
+        return null;
+    }
+    try {
+        const parsed = asRecord(JSON.parse(raw));
+        const event = asRecord(parsed?.json) ?? parsed;
+        return event && typeof event.type === 'string' ? (event as MistralStreamEvent) : null;
+    } catch {
+        return null;
+    }
+};
+
+const toPathSegments = (path: string) =>
+    path
+        .split('/')
+        .slice(1)
+        .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+/** Walks a JSON pointer to the object or array holding its last segment. */
+const resolvePatchTarget = (root: Record<string, unknown>, path: string) => {
+    const segments = toPathSegments(path);
+    const key = segments.pop();
+    let current: unknown = root;
+    for (const segment of segments) {
+        current = Array.isArray(current) ? current[Number(segment)] : asRecord(current)?.[segment];
+    }
+    if (key === undefined || !current || typeof current !== 'object') {
+        return null;
+    }
+    return { container: current as Record<string | number, unknown>, key };
+};
+
+const applyPatchAt = (container: Record<string | number, unknown>, key: string, op: string | null, value: unknown) => {
+    if (op === 'append') {
+        const existing = container[key];
+        const suffix = typeof value === 'string' ? value : '';
+        container[key] = `${typeof existing === 'string' ? existing : ''}${suffix}`;
+    } else if (op === 'add' && Array.isArray(container)) {
+        container.splice(key === '-' ? container.length : Number(key), 0, value);
+    } else if (op === 'add' || op === 'replace') {
+        container[key] = value;
+    }
+};
+
+/**
+ * Applies one JSON-patch operation (`add`, `replace`, or Le Chat's `append`
+ * string extension) to the streamed message document. `remove` and anything
+ * unknown is ignored; nothing the exporter reads is ever removed mid-stream.
+ */
+const applyPatch = (document: { message: Record<string, unknown> }, patch: Record<string, unknown>) => {
+    const op = readString(patch, 'op');
+    const path = readString(patch, 'path') ?? '';
+    if (path === '' && (op === 'add' || op === 'replace')) {
+        document.message = asRecord(patch.value) ?? document.message;
+        return;
+    }
+    const target = resolvePatchTarget(document.message, path);
+    if (!target) {
+        return;
+    }
+    applyPatchAt(target.container, target.key, op, patch.value);
+};
+
+/**
+ * Folds chat stream events into a running assistant-message snapshot.
+ *
+ * `message` events carry JSON patches against the assistant message (the first
+ * one replaces the whole document, later ones add `contentChunks` and `append`
+ * to their text); the message's `generationStatus` marks the end. `title`
+ * carries the generated chat title and `error` aborts the turn.
+ */
+export const createMistralStreamAccumulator = () => {
+    const document: { message: Record<string, unknown> } = { message: {} };
+    const state = {
+        messageId: null as string | null,
+        title: null as string | null,
+        error: null as string | null,
+    };
+
+    const applyMessageEvent = (event: MistralStreamEvent) => {
+        state.messageId = readString(event, 'messageId') ?? state.messageId;
+        for (const patch of Array.isArray(event.patches) ? event.patches : []) {
+            const record = asRecord(patch);
+            if (record) {
+                applyPatch(document, record);
+            }
+        }
+    };
+
+    const push = (event: MistralStreamEvent) => {
+        switch (event.type) {
+            case 'message':
+                applyMessageEvent(event);
+                break;
+            case 'title':
+                state.title = readString(event, 'title')?.trim() || state.title;
+                break;
+            case 'error':
+                state.error = readString(event, 'message') || 'Unknown chat stream error';
+                break;
+        }
+    };
+
+    const snapshot = (): MistralStreamSnapshot => {
+        const message = document.message;
+        const status = toMistralMessageStatus(message);
+        const generationStatus = readString(message, 'generationStatus');
+        return {
+            messageId: readString(message, 'id') ?? state.messageId,
+            parentId: readString(message, 'parentId'),
+            model: readString(message, 'model')?.trim() || MISTRAL_DEFAULT_MODEL_SLUG,
+            parts: readMistralMessageParts(message),
+            title: state.title,
+            done: state.error !== null || (generationStatus !== null && status !== 'in_progress'),
+            error: state.error ?? (status === 'error' ? 'Generation failed' : null),
+        };
+    };
+
+    return { push, snapshot };
+};
+
+/** Parses a complete chat response body. Returns `null` when nothing was generated. */
+export const parseMistralChatStream = (text: string): MistralStreamSnapshot | null => {
+    const accumulator = createMistralStreamAccumulator();
+    const { lines, remainingBuffer } = splitMistralStreamLines(text);
+    for (const line of [...lines, remainingBuffer]) {
+        const event = parseMistralStreamLine(line);
+        if (event) {
+            accumulator.push(event);
+        }
+    }
+    const snapshot = accumulator.snapshot();
+    return snapshot.messageId || snapshot.parts.text || snapshot.parts.thinking ? snapshot : null;
+};
+
+const resolveStreamParentId = (conversation: ConversationData, parentId: string | null, rootId: string) => {
+    if (!parentId) {
+        return conversation.current_node ?? rootId;
+    }
+    if (!conversation.mapping[parentId]) {
+        // The prompt of this turn is not in the cached tree yet; keep its slot so the
+        // prompt hint (or the canonical refetch) can fill it.
+        attachMistralNode(conversation, {
+            id: parentId,
+            message: null,
+            parent: conversation.current_node,
+            children: [],
+        });
+    }
+    return parentId;
+};
+
+/**
+ * Merges a streamed assistant turn into the cached conversation (or a fresh shell),
+ * making it the current leaf.
+ */
+export const mergeMistralStreamIntoConversation = (
+    chatId: string,
+    snapshot: MistralStreamSnapshot,
+): ConversationData => {
+    if (snapshot.title) {
+        rememberMistralTitle(chatId, snapshot.title);
+    }
+    const cached = mistralState.activeConversations.get(chatId);
+    const conversation = cached ? structuredClone(cached) : createMistralConversationShell(chatId);
+    const rootId = getMistralRootNodeId(chatId);
+    const messageId = snapshot.messageId ?? `mistral-stream-${chatId}`;
+    const existing = conversation.mapping[messageId];
+    const parentId = existing?.parent ?? resolveStreamParentId(conversation, snapshot.parentId, rootId);
+    const nowSeconds = Date.now() / 1000;
+    const status = snapshot.error ? 'error' : snapshot.done ? 'finished_successfully' : 'in_progress';
+
+    attachMistralNode(conversation, {
+        id: messageId,
+        parent: parentId,
+        children: existing?.children ?? [],
+        message: buildMistralMessage({
+            id: messageId,
+            role: 'assistant',
+            parts: snapshot.parts,
+            createTime: existing?.message?.create_time ?? nowSeconds,
+            updateTime: nowSeconds,
+            status,
+            model: snapshot.model,
+        }),
+    });
+    conversation.current_node = messageId;
+    conversation.update_time = nowSeconds;
+    conversation.default_model_slug = snapshot.model;
+    conversation.title = mistralState.conversationTitles.get(chatId) ?? conversation.title;
+    mistralState.activeConversations.set(chatId, conversation);
+    return conversation;
+};
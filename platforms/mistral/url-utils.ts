@@ -0,0 +1,36 @@
+/**
+ * ID patterns and URL utilities for the Mistral Le Chat adapter.
+ */
+
+/** UUID — Le Chat chat and message IDs. */
+export const MISTRAL_CHAT_ID_PATTERN = /^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/i;
+
+const CHAT_PAGE_PATH_PATTERN = /^\/chat\/([^/?#]+)/;
+const TRPC_CHAT_ID_PATTERN = /"chatId"\s*:\s*"([^"]+)"/;
+
+/** Chat UUID from a `/chat/{uuid}` page path. */
+export const extractMistralChatIdFromPath = (pathname: string): string | null => {
+    const chatId = pathname.match(CHAT_PAGE_PATH_PATTERN)?.[1] ?? null;
+    return chatId && MISTRAL_CHAT_ID_PATTERN.test(chatId) ? chatId : null;
+};
+
+/**
+ * Extracts the chat UUID from the URL-encoded tRPC `input` of a `message.all` query.
+ * Regex-based so relative request URLs seen by the interceptor work too.
+ */
+export const extractMistralChatIdFromApiUrl = (url: string): string | null => {
+    let decoded: string;
+    try {
+        decoded = decodeURIComponent(url);
+    } catch {
+        return null;
+    }
+    const chatId = decoded.match(TRPC_CHAT_ID_PATTERN)?.[1] ?? null;
+    return chatId && MISTRAL_CHAT_ID_PATTERN.test(chatId) ? chatId : null;
+};
+
+/** Batched `chat.byId` + `message.all` query — the same request the page issues when opening a chat. */
+export const buildMistralHistoryApiUrl = (chatId: string) => {
+    const input = JSON.stringify({ 0: { json: { id: chatId } }, 1: { json: { chatId } } });
+    return `https://chat.mistral.ai/api/trpc/chat.byId,message.all?batch=1&input=${encodeURIComponent(input)}`;
+};
@@ -0,0 +1 @@
+export const DEFAULT_PERPLEXITY_MODEL_SLUG = 'perplexity';
@@ -0,0 +1,34 @@
+import type { PlatformDescriptor } from '@/platforms/types';
+
+/**
+ * Perplexity platform descriptor: hosts, endpoints, selectors and capture
+ * settings consumed through `platforms/descriptors.ts`.
+ */
+export const perplexityDescriptor = {
+    name: 'Perplexity',
+    parserId: 'perplexity',
+    hosts: ['perplexity.ai'],
+    urlMatchPatterns: ['https://www.perplexity.ai/*'],
+    streamProtocol: 'sse',
+    endpoints: {
+        apiEndpointPattern:
+            /\/rest\/(?:sse\/perplexity_ask(?:\/reconnect\/[^/?#]+)?|thread\/(?!list_|mark_viewed)[^/?#]+)(?:[?#]|$)/i,
+        completionTriggerPattern: /\/rest\/sse\/perplexity_ask(?:\/reconnect\/[^/?#]+)?(?:[?#]|$)/i,
+    },
+    signals: {
+        lifecycleEndpoints: ['completionTriggerPattern'],
+        completionEndpoints: ['apiEndpointPattern'],
+        completionRequiresReadiness: true,
+        streamingOnRequest: true,
+    },
+    apiHintMarkers: ['/rest/sse/', '/rest/thread/'],
+    selectors: {
+        buttonInjectionTargets: ['[data-testid="thread-header"]', 'main header', 'header', 'body'],
+        domTitleCandidates: ['[data-testid="thread-title"]', 'main h1'],
+        generatingIndicators: ['[data-testid="stop-generating-response-button"]', 'button[aria-label="Stop"]'],
+    },
+    defaultTitles: ['New Thread', 'Perplexity'],
+    capturesPromptHints: false,
+    passiveCaptureWaitMs: 2500,
+    bulkExport: null,
+} as const satisfies PlatformDescriptor;
@@ -0,0 +1,312 @@
+/**
+ * Perplexity Entry Parser
+ *
+ * A Perplexity thread is a flat list of entries; each entry is one query and
+ * its answer. Thread payloads (`rest/thread/{slug}`) carry finished entries and
+ * every `perplexity_ask` SSE event carries a snapshot (or chunk delta) of the
+ * entry being answered, so both are read into the same `PerplexityEntrySnapshot`
+ * and rebuilt into a linear `ConversationData` tree: user query → answer, with
+ * the answer's web results kept as `metadata.sources`.
+ *
+ * @module platforms/perplexity/entry-parser
+ */
+
+import type { ConversationData, Message, MessageNode, MessageSource } from '@/utils/types';
+import { DEFAULT_PERPLEXITY_MODEL_SLUG } from './constants';
+import { PERPLEXITY_DEFAULT_TITLES } from './registry';
+import { perplexityState } from './state';
+import { isPerplexityThreadSlug } from './url-utils';
+
+export type PerplexityEntrySnapshot = {
+    /** `backend_uuid` — stable across the ask stream and the thread payload. */
+    entryId: string;
+    threadSlug: string | null;
+    title: string | null;
+    query: string;
+    model: string | null;
+    text: string;
+    /** Answer chunks seen so far, needed to apply `chunk_starting_offset` deltas. */
+    chunks: string[];
+    sources: MessageSource[];
+    createTime: number | null;
+    updateTime: number | null;
+    status: Message['status'];
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+    value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+
+const readString = (record: Record<string, unknown> | null, key: string): string | null => {
+    const value = record?.[key];
+    return typeof value === 'string' ? value : null;
+};
+
+const readRecords = (value: unknown): Record<string, unknown>[] =>
+    Array.isArray(value) ? value.map(asRecord).filter((item): item is Record<string, unknown> => !!item) : [];
+
+export const tryParsePerplexityJson = (data: unknown): unknown => {
+    if (typeof data !== 'string') {
+        return data;
+    }
+    try {
+        return JSON.parse(data);
+    } catch {
+        return null;
+    }
+};
+
+/** Perplexity datetimes omit the zone designator and are UTC; returns epoch seconds. */
+export const parsePerplexityTimestamp = (value: unknown): number | null => {
+    if (typeof value !== 'string' || !value.trim()) {
+        return null;
+    }
+    const hasZone = /(?:Z|[+-]\d{2}:?\d{2})$/i.test(value.trim());
+    const ms = Date.parse(hasZone ? value : `${value.trim()}Z`);
+    return Number.isFinite(ms) ? ms / 1000 : null;
+};
+
+export const getPerplexityRootNodeId = (threadSlug: string) => `perplexity-root-${threadSlug}`;
+
+export const getPerplexityQueryNodeId = (entryId: string) => `${entryId}-query`;
+
+/** Maps `web_results` items (`name`/`url`/`snippet`) to message sources, keeping citation order. */
+export const toPerplexitySources = (webResults: unknown): MessageSource[] =>
+    readRecords(webResults)
+        .map((result) => ({
+            title: (readString(result, 'name') ?? readString(result, 'title') ?? '').trim(),
+            url: (readString(result, 'url') ?? '').trim(),
+            snippet: (readString(result, 'snippet') ?? '').trim(),
+        }))
+        .filter((source) => source.url.length > 0)
+        .map((source) => ({ ...source, title: source.title || source.url }));
+
+type EntryAnswer = {
+    text: string | null;
+    chunks: string[] | null;
+    sources: MessageSource[] | null;
+};
+
+const readMarkdownBlock = (markdown: Record<string, unknown>, previousChunks: string[]) => {
+    const rawChunks = Array.isArray(markdown.chunks)
+        ? markdown.chunks.filter((chunk): chunk is string => typeof chunk === 'string')
+        : [];
+    const offset = typeof markdown.chunk_starting_offset === 'number' ? markdown.chunk_starting_offset : 0;
+    const chunks = [...previousChunks.slice(0, offset), ...rawChunks];
+    const answer = readString(markdown, 'answer');
+    return { chunks, text: answer?.trim() ? answer : chunks.join('') };
+};
+
+/** Current answer format: typed `blocks` with a markdown answer and web results. */
+const readAnswerFromBlocks = (blocks: Record<string, unknown>[], previousChunks: string[]): EntryAnswer => {
+    const answer: EntryAnswer = { text: null, chunks: null, sources: null };
+    for (const block of blocks) {
+        const markdown = asRecord(block.markdown_block);
+        const usage = readString(block, 'intended_usage');
+        if (markdown && (usage === null || usage === 'ask_text')) {
+            const { chunks, text } = readMarkdownBlock(markdown, previousChunks);
+            answer.chunks = chunks;
+            answer.text = text;
+        }
+        const webResults = asRecord(block.web_result_block)?.web_results;
+        if (Array.isArray(webResults)) {
+            answer.sources = toPerplexitySources(webResults);
+        }
+    }
+    return answer;
+};
+
+const readFinalStepAnswer = (steps: Record<string, unknown>[]) => {
+    const finalStep = steps.find((step) => readString(step, 'step_type') === 'FINAL');
+    return asRecord(tryParsePerplexityJson(asRecord(finalStep?.content)?.answer));
+};
+
+/**
+ * Legacy answer format: `text` is a JSON string holding either `{ answer, web_results }`
+ * or a list of steps whose `FINAL` step content wraps that object as a string.
+ */
+const readAnswerFromLegacyText = (rawText: string): EntryAnswer => {
+    const parsed = tryParsePerplexityJson(rawText);
+    const steps = readRecords(parsed);
+    const answer = Array.isArray(parsed) ? readFinalStepAnswer(steps) : asRecord(parsed);
+    const searchStep = steps.find((step) => readString(step, 'step_type') === 'SEARCH_RESULTS');
+    const webResults = answer?.web_results ?? asRecord(searchStep?.content)?.web_results;
+    return {
+        text: readString(answer, 'answer'),
+        chunks: null,
+        sources: Array.isArray(webResults) ? toPerplexitySources(webResults) : null,
+    };
+};
+
+const resolveEntryStatus = (entry: Record<string, unknown>, previous: PerplexityEntrySnapshot | undefined) => {
+    const status = readString(entry, 'status')?.toUpperCase();
+    if (status === 'FAILED' || readString(entry, 'error_code')) {
+        return 'error';
+    }
+    if (entry.final === true || entry.final_sse_message === true || status === 'COMPLETED') {
+        return 'finished_successfully';
+    }
+    return previous?.status === 'finished_successfully' ? previous.status : 'in_progress';
+};
+
+const pickString = (entry: Record<string, unknown>, keys: string[]) => {
+    for (const key of keys) {
+        const value = readString(entry, key)?.trim();
+        if (value) {
+            return value;
+        }
+    }
+    return null;
+};
+
+const readEntryAnswer = (entry: Record<string, unknown>, previousChunks: string[]): EntryAnswer => {
+    const blocks = readRecords(entry.blocks);
+    if (blocks.length > 0) {
+        return readAnswerFromBlocks(blocks, previousChunks);
+    }
+    const rawText = readString(entry, 'text');
+    return rawText ? readAnswerFromLegacyText(rawText) : { text: null, chunks: null, sources: null };
+};
+
+const readEntryTimes = (entry: Record<string, unknown>, previous: PerplexityEntrySnapshot | undefined) => ({
+    createTime:
+        parsePerplexityTimestamp(entry.entry_created_datetime ?? entry.created_datetime) ??
+        previous?.createTime ??
+        null,
+    updateTime:
+        parsePerplexityTimestamp(entry.entry_updated_datetime ?? entry.updated_datetime) ??
+        previous?.updateTime ??
+        null,
+});
+
+/**
+ * Reads one thread entry or ask-stream event. With `previous`, fields missing
+ * from a partial event keep their accumulated values and chunk deltas are
+ * applied on top of the chunks seen so far.
+ */
+export const readPerplexityEntry = (
+    value: unknown,
+    previous?: PerplexityEntrySnapshot,
+): PerplexityEntrySnapshot | null => {
+    const entry = asRecord(value);
+    const entryId = entry ? (pickString(entry, ['backend_uuid', 'uuid']) ?? previous?.entryId) : null;
+    if (!entry || !entryId) {
+        return null;
+    }
+    const answer = readEntryAnswer(entry, previous?.chunks ?? []);
+    const slug = readString(entry, 'thread_url_slug');
+    return {
+        entryId,
+        threadSlug: isPerplexityThreadSlug(slug) ? slug : (previous?.threadSlug ?? null),
+        title: pickString(entry, ['thread_title']) ?? previous?.title ?? null,
+        query: pickString(entry, ['query_str']) ?? previous?.query ?? '',
+        model: pickString(entry, ['display_model', 'model_preference']) ?? previous?.model ?? null,
+        text: answer.text ?? previous?.text ?? '',
+        chunks: answer.chunks ?? previous?.chunks ?? [],
+        sources: answer.sources ?? previous?.sources ?? [],
+        ...readEntryTimes(entry, previous),
+        status: resolveEntryStatus(entry, previous),
+    };
+};
+
+const buildPerplexityMessage = (
+    id: string,
+    role: 'user' | 'assistant',
+    text: string,
+    entry: PerplexityEntrySnapshot,
+    metadata: Record<string, unknown>,
+): Message => ({
+    id,
+    author: { role, name: null, metadata: {} },
+    create_time: entry.createTime ?? entry.updateTime,
+    update_time: entry.updateTime,
+    content: { content_type: 'text', parts: [text] },
+    status: role === 'user' ? 'finished_successfully' : entry.status,
+    end_turn: role === 'assistant' ? entry.status === 'finished_successfully' : null,
+    weight: 1,
+    metadata,
+    recipient: 'all',
+    channel: null,
+});
+
+const attachNode = (conversation: ConversationData, node: MessageNode) => {
+    conversation.mapping[node.id] = node;
+    const parent = node.parent ? conversation.mapping[node.parent] : undefined;
+    if (parent && !parent.children.includes(node.id)) {
+        parent.children.push(node.id);
+    }
+};
+
+const rememberTitle = (threadSlug: string, title: string | null) => {
+    if (title && !(PERPLEXITY_DEFAULT_TITLES as readonly string[]).includes(title)) {
+        perplexityState.conversationTitles.set(threadSlug, title);
+    }
+};
+
+const resolveThreadTitle = (threadSlug: string, entries: PerplexityEntrySnapshot[]) =>
+    entries.find((entry) => entry.title)?.title ??
+    perplexityState.conversationTitles.get(threadSlug) ??
+    (entries[0]?.query || PERPLEXITY_DEFAULT_TITLES[0]);
+
+/**
+ * Rebuilds the linear conversation tree for a thread from its entries and
+ * caches the entries so later ask streams can be appended to them.
+ */
+export const buildPerplexityConversation = (
+    threadSlug: string,
+    entries: PerplexityEntrySnapshot[],
+): ConversationData => {
+    const rootId = getPerplexityRootNodeId(threadSlug);
+    const nowSeconds = Date.now() / 1000;
+    const latestModel = [...entries].reverse().find((entry) => entry.model)?.model ?? DEFAULT_PERPLEXITY_MODEL_SLUG;
+    rememberTitle(threadSlug, entries.find((entry) => entry.title)?.title ?? null);
+
+    const conversation: ConversationData = {
+        title: resolveThreadTitle(threadSlug, entries),
+        create_time: entries[0]?.createTime ?? entries[0]?.updateTime ?? nowSeconds,
+        update_time: entries.at(-1)?.updateTime ?? entries.at(-1)?.createTime ?? nowSeconds,
+        mapping: {
+            [rootId]: { id: rootId, message: null, parent: null, children: [] },
+        },
+        conversation_id: threadSlug,
+        current_node: rootId,
+        moderation_results: [],
+        plugin_ids: null,
+        gizmo_id: null,
+        gizmo_type: null,
+        is_archived: false,
+        default_model_slug: latestModel,
+        safe_urls: [],
+        blocked_urls: [],
+    };
+
+    for (const entry of entries) {
+        const queryId = getPerplexityQueryNodeId(entry.entryId);
+        const user = buildPerplexityMessage(queryId, 'user', entry.query, entry, {});
+        attachNode(conversation, { id: queryId, message: user, parent: conversation.current_node, children: [] });
+        const assistant = buildPerplexityMessage(entry.entryId, 'assistant', entry.text, entry, {
+            model_slug: entry.model ?? DEFAULT_PERPLEXITY_MODEL_SLUG,
+            sources: entry.sources,
+        });
+        attachNode(conversation, { id: entry.entryId, message: assistant, parent: queryId, children: [] });
+        conversation.current_node = entry.entryId;
+    }
+
+    perplexityState.threadEntries.set(threadSlug, entries);
+    return conversation;
+};
+
+/**
+ * Parses a `rest/thread/{slug}` payload (`{ entries: [...] }`) into ConversationData.
+ * `fallbackSlug` (from the request URL) is used when entries omit `thread_url_slug`.
+ */
+export const parsePerplexityThreadPayload = (data: unknown, fallbackSlug: string | null): ConversationData | null => {
+    const record = asRecord(tryParsePerplexityJson(data));
+    const entries = readRecords(record?.entries)
+        .map((entry) => readPerplexityEntry(entry))
+        .filter((entry): entry is PerplexityEntrySnapshot => !!entry);
+    const threadSlug = entries.find((entry) => entry.threadSlug)?.threadSlug ?? fallbackSlug;
+    if (entries.length === 0 || !threadSlug) {
+        return null;
+    }
+    return buildPerplexityConversation(threadSlug, entries);
+};
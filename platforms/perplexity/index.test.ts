@@ -0,0 +1,195 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, mock } from 'bun:test';
+import { join } from 'node:path';
+import { extractActiveMessageChain } from '@/utils/conversation-inspection';
+import type { ConversationData } from '@/utils/types';
+
+mock.module('@/utils/logger', () => ({
+    logger: { info: () => {}, warn: () => {}, error: () => {}, debug: () => {} },
+}));
+
+const SLUG = 'why-is-the-sky-blue-Qx3rTn8WQ4mZ1vE0b2Lk9A';
+const THREAD_URL = `https://www.perplexity.ai/rest/thread/${SLUG}?with_schematized_response=true&limit=100&from_first=true`;
+const ASK_URL = 'https://www.perplexity.ai/rest/sse/perplexity_ask';
+const FIRST_ENTRY = '3f1c2b7e-8a4d-4e5f-9b6a-1c2d3e4f5a6b';
+const SECOND_ENTRY = '7d6c5b4a-3928-4716-a5b4-c3d2e1f0a9b8';
+const STREAMED_ENTRY = '5e4d3c2b-1a09-4f8e-9d7c-6b5a4f3e2d1c';
+
+const messageText = (data: ConversationData | null, id: string) => data?.mapping[id]?.message?.content.parts?.[0];
+
+describe('Perplexity Adapter — integration', () => {
+    let threadRaw: string;
+    let askRaw: string;
+    let perplexityAdapter: any;
+    let resetPerplexityAdapterState: () => void;
+
+    beforeAll(async () => {
+        const module = await import('@/platforms/perplexity');
+        perplexityAdapter = module.perplexityAdapter;
+        resetPerplexityAdapterState = module.resetPerplexityAdapterState;
+
+        threadRaw = await Bun.file(
+            join(import.meta.dir, '..', '..', 'data', 'perplexity', 'sample_perplexity_thread.json'),
+        ).text();
+        askRaw = await Bun.file(
+            join(import.meta.dir, '..', '..', 'data', 'perplexity', 'sample_perplexity_ask_stream.txt'),
+        ).text();
+    });
+
+    const originalDocument = (globalThis as { document?: unknown }).document;
+
+    const installDocument = (fields: { title?: string; elements?: Record<string, string> } = {}) => {
+        (globalThis as { document?: unknown }).document = {
+            title: fields.title ?? '',
+            querySelector: (selector: string) =>
+                fields.elements?.[selector] === undefined ? null : { textContent: fields.elements[selector] },
+        };
+    };
+
+    beforeEach(() => {
+        resetPerplexityAdapterState();
+        installDocument();
+    });
+
+    afterEach(() => {
+        (globalThis as { document?: unknown }).document = originalDocument;
+    });
+
+    it('should identify perplexity.ai pages and extract thread slugs', () => {
+        expect(perplexityAdapter.isPlatformUrl(`https://www.perplexity.ai/search/${SLUG}`)).toBeTrue();
+        expect(perplexityAdapter.isPlatformUrl('https://perplexity.ai/')).toBeTrue();
+        expect(perplexityAdapter.isPlatformUrl('https://example.com/search/x')).toBeFalse();
+        expect(perplexityAdapter.extractConversationId(`https://www.perplexity.ai/search/${SLUG}?s=c`)).toBe(SLUG);
+        expect(perplexityAdapter.extractConversationId('https://www.perplexity.ai/search/new?q=hi')).toBeNull();
+        expect(perplexityAdapter.extractConversationId('https://www.perplexity.ai/library')).toBeNull();
+        expect(perplexityAdapter.extractConversationIdFromUrl(THREAD_URL)).toBe(SLUG);
+        expect(perplexityAdapter.extractConversationIdFromUrl(ASK_URL)).toBeNull();
+        expect(perplexityAdapter.buildApiUrls(SLUG)).toEqual([THREAD_URL]);
+    });
+
+    it('should match thread and ask endpoints but not thread listings', () => {
+        const pattern: RegExp = perplexityAdapter.apiEndpointPattern;
+        expect(pattern.test(THREAD_URL)).toBeTrue();
+        expect(pattern.test(ASK_URL)).toBeTrue();
+        expect(pattern.test('/rest/sse/perplexity_ask/reconnect/5e4d3c2b')).toBeTrue();
+        expect(pattern.test('https://www.perplexity.ai/rest/thread/list_ask_threads?version=2.18')).toBeFalse();
+        expect(pattern.test(`https://www.perplexity.ai/rest/thread/mark_viewed/${SLUG}`)).toBeFalse();
+        expect(pattern.test('https://www.perplexity.ai/rest/user/settings')).toBeFalse();
+    });
+
+    it('should parse thread entries into linear query/answer turns with sources', () => {
+        const data: ConversationData = perplexityAdapter.parseInterceptedData(threadRaw, THREAD_URL);
+
+        expect(data.conversation_id).toBe(SLUG);
+        expect(data.title).toBe('Why is the sky blue?');
+        expect(data.default_model_slug).toBe('turbo');
+        expect(data.current_node).toBe(SECOND_ENTRY);
+        expect(extractActiveMessageChain(data).map((message) => message.author.role)).toEqual([
+            'user',
+            'assistant',
+            'user',
+            'assistant',
+        ]);
+        expect(messageText(data, `${FIRST_ENTRY}-query`)).toBe('Why is the sky blue?');
+        expect(messageText(data, FIRST_ENTRY)).toBe(
+            'The sky looks blue because of **Rayleigh scattering** [1]. Shorter blue wavelengths are scattered far more than red ones [2][3].',
+        );
+        expect(data.mapping[FIRST_ENTRY]?.message?.metadata).toMatchObject({ model_slug: 'pplx_pro' });
+        expect(data.mapping[FIRST_ENTRY]?.message?.metadata.sources).toEqual([
+            {
+                title: 'Rayleigh scattering - Wikipedia',
+                url: 'https://en.wikipedia.org/wiki/Rayleigh_scattering',
+                snippet:
+                    'Rayleigh scattering is the scattering of light by particles much smaller than the wavelength of the radiation.',
+            },
+            expect.objectContaining({ url: 'https://spaceplace.nasa.gov/blue-sky/en/' }),
+            expect.objectContaining({
+                title: 'https://www.metoffice.gov.uk/weather/learn-about/weather/optical-effects/why-is-the-sky-blue',
+                snippet: '',
+            }),
+        ]);
+        expect(data.mapping[FIRST_ENTRY]?.message?.create_time).toBe(Date.parse('2025-03-02T09:15:00Z') / 1000);
+    });
+
+    it('should read legacy step-encoded answers and their web results', () => {
+        const data: ConversationData = perplexityAdapter.parseInterceptedData(threadRaw, THREAD_URL);
+
+        expect(messageText(data, SECOND_ENTRY)).toBe(
+            'At sunset light crosses more air, so blue is scattered away and reds remain [1].',
+        );
+        expect(data.mapping[SECOND_ENTRY]?.message?.metadata.sources).toEqual([
+            {
+                title: 'Sunsets explained',
+                url: 'https://example.org/sunsets',
+                snippet: 'Light travels through more atmosphere at sunset.',
+            },
+        ]);
+        expect(data.mapping[`${SECOND_ENTRY}-query`]?.parent).toBe(FIRST_ENTRY);
+    });
+
+    it('should append a streamed answer to the cached thread', () => {
+        perplexityAdapter.parseInterceptedData(threadRaw, THREAD_URL);
+        const data: ConversationData = perplexityAdapter.parseInterceptedData(askRaw, ASK_URL);
+
+        expect(data.current_node).toBe(STREAMED_ENTRY);
+        expect(data.mapping[`${STREAMED_ENTRY}-query`]?.parent).toBe(SECOND_ENTRY);
+        expect(messageText(data, `${STREAMED_ENTRY}-query`)).toBe('What about on Mars?');
+        expect(messageText(data, STREAMED_ENTRY)).toBe(
+            'On Mars the daytime sky is butterscotch because of dust [1], while sunsets look blue.',
+        );
+        expect(data.mapping[STREAMED_ENTRY]?.message).toMatchObject({
+            status: 'finished_successfully',
+            end_turn: true,
+        });
+        expect(data.mapping[STREAMED_ENTRY]?.message?.metadata.sources).toEqual([
+            {
+                title: 'Martian sky - NASA',
+                url: 'https://science.nasa.gov/mars/sky',
+                snippet: 'Fine dust makes the Martian daytime sky butterscotch.',
+            },
+        ]);
+        expect(perplexityAdapter.evaluateReadiness(data)).toMatchObject({ ready: true, terminal: true });
+    });
+
+    it('should build a standalone conversation from a stream without a cached thread', () => {
+        const data: ConversationData = perplexityAdapter.parseInterceptedData(askRaw, ASK_URL);
+
+        expect(data.conversation_id).toBe(SLUG);
+        expect(data.title).toBe('Why is the sky blue?');
+        expect(extractActiveMessageChain(data)).toHaveLength(2);
+    });
+
+    it('should report an unfinished stream as in progress', () => {
+        const partial = askRaw.split('event: message').slice(0, 4).join('event: message');
+        const data: ConversationData = perplexityAdapter.parseInterceptedData(partial, ASK_URL);
+
+        expect(data.mapping[STREAMED_ENTRY]?.message?.status).toBe('in_progress');
+        expect(messageText(data, STREAMED_ENTRY)).toBe('On Mars the daytime sky is butterscotch');
+        expect(perplexityAdapter.evaluateReadiness(data)).toMatchObject({
+            ready: false,
+            reason: 'assistant-in-progress',
+        });
+    });
+
+    it('should return null for payloads without entries', () => {
+        expect(perplexityAdapter.parseInterceptedData('{"entries":[]}', THREAD_URL)).toBeNull();
+        expect(perplexityAdapter.parseInterceptedData('not json', THREAD_URL)).toBeNull();
+        expect(perplexityAdapter.parseInterceptedData('event: end_of_stream\r\ndata: {}\r\n\r\n', ASK_URL)).toBeNull();
+    });
+
+    it('should format filenames from the title or the slug suffix', () => {
+        const data: ConversationData = perplexityAdapter.parseInterceptedData(threadRaw, THREAD_URL);
+        expect(perplexityAdapter.formatFilename(data)).toStartWith('Why_is_the_sky_blue');
+        expect(perplexityAdapter.formatFilename({ ...data, title: '' })).toStartWith('perplexity_thread_E0b2Lk9A');
+    });
+
+    it('should resolve DOM titles from the page title before header candidates', () => {
+        installDocument({ title: 'Why is the sky blue? | Perplexity' });
+        expect(perplexityAdapter.extractTitleFromDom()).toBe('Why is the sky blue?');
+
+        installDocument({ title: 'Perplexity', elements: { '[data-testid="thread-title"]': ' Mars  skies ' } });
+        expect(perplexityAdapter.extractTitleFromDom()).toBe('Mars skies');
+
+        installDocument({ title: 'New Thread - Perplexity' });
+        expect(perplexityAdapter.extractTitleFromDom()).toBeNull();
+    });
+});
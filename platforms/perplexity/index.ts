@@ -0,0 +1,164 @@
+/**
+ * Perplexity Platform Adapter
+ *
+ * Supports perplexity.ai threads across:
+ * - rest/thread/{slug} (full thread JSON, one entry per query/answer pair)
+ * - rest/sse/perplexity_ask (SSE answer stream for the entry being asked)
+ *
+ * Each answer keeps its web results as `metadata.sources` so exports can list citations.
+ */
+
+import type { LLMPlatform } from '@/platforms/types';
+import { evaluateActiveChainReadiness } from '@/utils/conversation-readiness';
+import { generateTimestamp, sanitizeFilename } from '@/utils/download';
+import { logger } from '@/utils/logger';
+import type { ConversationData } from '@/utils/types';
+import { perplexityDescriptor } from './descriptor';
+import { parsePerplexityThreadPayload } from './entry-parser';
+import {
+    isPerplexityAskEndpointUrl,
+    isPerplexityGeneratingInDom,
+    PERPLEXITY_DEFAULT_TITLES,
+    PERPLEXITY_ENDPOINT_REGISTRY,
+    PERPLEXITY_SELECTOR_REGISTRY,
+    resolvePerplexityButtonInjectionTarget,
+} from './registry';
+import { mergePerplexityAskIntoConversation, parsePerplexityAskStream } from './sse-parser';
+import {
+    buildPerplexityThreadApiUrl,
+    extractPerplexityThreadSlugFromApiUrl,
+    isPerplexityThreadSlug,
+} from './url-utils';
+
+export { PerplexityAdapterState, perplexityState, resetPerplexityAdapterState } from './state';
+
+const MAX_TITLE_LENGTH = 80;
+const PERPLEXITY_GENERIC_DOM_TITLES = new Set(['perplexity']);
+
+const normalizeDomTitle = (value: string | null | undefined): string => value?.replace(/\s+/g, ' ').trim() ?? '';
+
+const normalizePerplexityDomTitleCandidate = (raw: string, defaultTitles: readonly string[]): string | null => {
+    const normalized = normalizeDomTitle(raw);
+    if (!normalized) {
+        return null;
+    }
+    const lower = normalized.toLowerCase();
+    if (PERPLEXITY_GENERIC_DOM_TITLES.has(lower)) {
+        return null;
+    }
+    if (defaultTitles.some((title) => normalizeDomTitle(title).toLowerCase() === lower)) {
+        return null;
+    }
+    return normalized;
+};
+
+const queryPerplexityTitleFromDom = (defaultTitles: readonly string[]): string | null => {
+    for (const selector of PERPLEXITY_SELECTOR_REGISTRY.domTitleCandidates) {
+        const normalized = normalizePerplexityDomTitleCandidate(
+            document.querySelector(selector)?.textContent ?? '',
+            defaultTitles,
+        );
+        if (normalized) {
+            return normalized;
+        }
+    }
+    return null;
+};
+
+const isPerplexityHost = (hostname: string) => hostname === 'perplexity.ai' || hostname.endsWith('.perplexity.ai');
+
+const parseAskPayload = (data: unknown): ConversationData | null => {
+    if (typeof data !== 'string') {
+        return null;
+    }
+    const snapshot = parsePerplexityAskStream(data);
+    return snapshot ? mergePerplexityAskIntoConversation(snapshot) : null;
+};
+
+export const perplexityAdapter: LLMPlatform = {
+    name: perplexityDescriptor.name,
+    urlMatchPattern: perplexityDescriptor.urlMatchPatterns[0],
+
+    apiEndpointPattern: PERPLEXITY_ENDPOINT_REGISTRY.apiEndpointPattern,
+    completionTriggerPattern: PERPLEXITY_ENDPOINT_REGISTRY.completionTriggerPattern,
+
+    isPlatformUrl(url: string): boolean {
+        try {
+            return isPerplexityHost(new URL(url).hostname);
+        } catch {
+            return false;
+        }
+    },
+
+    extractConversationId(url: string): string | null {
+        try {
+            const urlObj = new URL(url);
+            if (!isPerplexityHost(urlObj.hostname)) {
+                return null;
+            }
+            const slug = urlObj.pathname.match(/^\/search\/([^/?#]+)/)?.[1] ?? null;
+            return isPerplexityThreadSlug(slug) ? slug : null;
+        } catch {
+            return null;
+        }
+    },
+
+    extractConversationIdFromUrl(url: string): string | null {
+        return extractPerplexityThreadSlugFromApiUrl(url);
+    },
+
+    buildApiUrls(conversationId: string): string[] {
+        return isPerplexityThreadSlug(conversationId) ? [buildPerplexityThreadApiUrl(conversationId)] : [];
+    },
+
+    parseInterceptedData(data: string | any, url: string): ConversationData | null {
+        const threadSlug = extractPerplexityThreadSlugFromApiUrl(url);
+        logger.info('[Blackiya/Perplexity] parseInterceptedData entry', {
+            threadSlug,
+            ask: isPerplexityAskEndpointUrl(url),
+            dataLen: typeof data === 'string' ? data.length : -1,
+        });
+
+        if (isPerplexityAskEndpointUrl(url)) {
+            return parseAskPayload(data);
+        }
+        return parsePerplexityThreadPayload(data, threadSlug);
+    },
+
+    formatFilename(data: ConversationData): string {
+        let title = data.title || '';
+        if (!title.trim()) {
+            const idPart = data.conversation_id ? data.conversation_id.slice(-8) : 'unknown';
+            title = `perplexity_thread_${idPart}`;
+        }
+        const sanitizedTitle = sanitizeFilename(title).slice(0, MAX_TITLE_LENGTH);
+        const timestamp = generateTimestamp(data.update_time || data.create_time);
+        return `${sanitizedTitle}_${timestamp}`;
+    },
+
+    getButtonInjectionTarget(): HTMLElement | null {
+        return resolvePerplexityButtonInjectionTarget();
+    },
+
+    evaluateReadiness(data: ConversationData) {
+        return evaluateActiveChainReadiness(data);
+    },
+
+    isPlatformGenerating() {
+        return isPerplexityGeneratingInDom();
+    },
+
+    defaultTitles: PERPLEXITY_DEFAULT_TITLES,
+
+    extractTitleFromDom(): string | null {
+        const defaultTitles = this.defaultTitles ?? [];
+        const titleFromPage = normalizePerplexityDomTitleCandidate(
+            normalizeDomTitle(document.title).replace(/\s*[|–-]\s*Perplexity$/i, ''),
+            defaultTitles,
+        );
+        if (titleFromPage) {
+            return titleFromPage;
+        }
+        return queryPerplexityTitleFromDom(defaultTitles);
+    },
+};
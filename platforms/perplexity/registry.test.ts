@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    isLikelyPerplexityApiPath,
+    isPerplexityAskEndpointUrl,
+    isPerplexityConversationEndpointUrl,
+    isPerplexityGeneratingInDom,
+    resolvePerplexityButtonInjectionTarget,
+} from '@/platforms/perplexity/registry';
+
+describe('perplexity registry', () => {
+    it('should classify ask and thread endpoints, including relative URLs', () => {
+        expect(isPerplexityAskEndpointUrl('https://www.perplexity.ai/rest/sse/perplexity_ask')).toBeTrue();
+        expect(isPerplexityAskEndpointUrl('/rest/sse/perplexity_ask/reconnect/abc?x=1')).toBeTrue();
+        expect(isPerplexityAskEndpointUrl('/rest/thread/mars-sky-AbCdEf')).toBeFalse();
+        expect(isPerplexityConversationEndpointUrl('/rest/thread/mars-sky-AbCdEf?limit=100')).toBeTrue();
+        expect(isPerplexityConversationEndpointUrl('/rest/thread/list_recent')).toBeFalse();
+        expect(isLikelyPerplexityApiPath('https://www.perplexity.ai/rest/thread/list_recent')).toBeTrue();
+        expect(isLikelyPerplexityApiPath('https://www.perplexity.ai/search/abc')).toBeFalse();
+    });
+
+    it('should resolve the button target from the first matching selector', () => {
+        const parent = { id: 'parent' } as unknown as HTMLElement;
+        const doc = {
+            querySelector: (selector: string) =>
+                selector === 'main header' ? ({ parentElement: parent } as unknown as Element) : null,
+        };
+        expect(resolvePerplexityButtonInjectionTarget(doc)).toBe(parent);
+        expect(resolvePerplexityButtonInjectionTarget({ querySelector: () => null })).toBeNull();
+        expect(resolvePerplexityButtonInjectionTarget(null)).toBeNull();
+    });
+
+    it('should detect generation from the stop button', () => {
+        const docWith = (match: string) => ({
+            querySelector: (selector: string) => (selector === match ? ({} as Element) : null),
+        });
+        expect(isPerplexityGeneratingInDom(docWith('[data-testid="stop-generating-response-button"]'))).toBeTrue();
+        expect(isPerplexityGeneratingInDom(docWith('main'))).toBeFalse();
+    });
+});
@@ -0,0 +1,65 @@
+import { logger } from '@/utils/logger';
+import { perplexityDescriptor } from './descriptor';
+
+const BUTTON_TARGET_MISS_LOG_INTERVAL_MS = 8_000;
+let lastButtonTargetMissAt = 0;
+
+export const PERPLEXITY_ENDPOINT_REGISTRY = perplexityDescriptor.endpoints;
+
+export const PERPLEXITY_PATH_REGISTRY = {
+    apiHintMarkers: perplexityDescriptor.apiHintMarkers,
+} as const;
+
+export const PERPLEXITY_SELECTOR_REGISTRY = perplexityDescriptor.selectors;
+
+export const PERPLEXITY_DEFAULT_TITLES = perplexityDescriptor.defaultTitles;
+
+const maybeLogButtonTargetMiss = () => {
+    const now = Date.now();
+    if (now - lastButtonTargetMissAt < BUTTON_TARGET_MISS_LOG_INTERVAL_MS) {
+        return;
+    }
+    lastButtonTargetMissAt = now;
+    logger.warn('[Blackiya/Perplexity] Button target selectors unmatched', {
+        selectors: [...PERPLEXITY_SELECTOR_REGISTRY.buttonInjectionTargets],
+    });
+};
+
+export const resolvePerplexityButtonInjectionTarget = (
+    doc: Pick<Document, 'querySelector'> | null = typeof document === 'undefined' ? null : document,
+): HTMLElement | null => {
+    if (!doc) {
+        return null;
+    }
+    for (const selector of PERPLEXITY_SELECTOR_REGISTRY.buttonInjectionTargets) {
+        const target = doc.querySelector(selector);
+        if (target) {
+            return (target.parentElement || target) as HTMLElement;
+        }
+    }
+    maybeLogButtonTargetMiss();
+    return null;
+};
+
+export const isPerplexityGeneratingInDom = (
+    doc: Pick<Document, 'querySelector'> | null = typeof document === 'undefined' ? null : document,
+): boolean =>
+    !!doc && PERPLEXITY_SELECTOR_REGISTRY.generatingIndicators.some((selector) => !!doc.querySelector(selector));
+
+/** `perplexity_ask` POSTs (and their reconnects) — the SSE answer streams. */
+export const isPerplexityAskEndpointUrl = (url: string): boolean =>
+    PERPLEXITY_ENDPOINT_REGISTRY.completionTriggerPattern.test(url);
+
+/** Thread detail GETs and ask streams. */
+export const isPerplexityConversationEndpointUrl = (url: string): boolean =>
+    PERPLEXITY_ENDPOINT_REGISTRY.apiEndpointPattern.test(url);
+
+export const isLikelyPerplexityApiPath = (url: string): boolean => {
+    let path: string;
+    try {
+        path = new URL(url).pathname.toLowerCase();
+    } catch {
+        path = url.toLowerCase();
+    }
+    return PERPLEXITY_PATH_REGISTRY.apiHintMarkers.some((marker) => path.includes(marker));
+};
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import {
+    createPerplexityAskAccumulator,
+    mergePerplexityAskIntoConversation,
+    parsePerplexitySseFrame,
+    splitPerplexitySseFrames,
+} from '@/platforms/perplexity/sse-parser';
+import { perplexityState, resetPerplexityAdapterState } from '@/platforms/perplexity/state';
+
+const frame = (payload: unknown, event = 'message') => `event: ${event}\r\ndata: ${JSON.stringify(payload)}\r\n\r\n`;
+
+const answerEvent = (chunks: string[], offset: number, extra: Record<string, unknown> = {}) => ({
+    backend_uuid: 'entry-1',
+    thread_url_slug: 'mars-sky-AbCdEf',
+    query_str: 'Mars sky?',
+    blocks: [{ intended_usage: 'ask_text', markdown_block: { chunks, chunk_starting_offset: offset } }],
+    ...extra,
+});
+
+describe('perplexity sse-parser', () => {
+    beforeEach(() => {
+        resetPerplexityAdapterState();
+    });
+
+    it('should split CRLF frames and read event names and JSON data', () => {
+        const { frames, remainingBuffer } = splitPerplexitySseFrames(`${frame({ a: 1 })}event: end_of_stream\r\nda`);
+        expect(frames).toEqual(['event: message\ndata: {"a":1}']);
+        expect(remainingBuffer).toBe('event: end_of_stream\nda');
+        expect(parsePerplexitySseFrame(frames[0] as string)).toEqual({ event: 'message', data: { a: 1 } });
+        expect(parsePerplexitySseFrame('event: end_of_stream')).toEqual({ event: 'end_of_stream', data: null });
+        expect(parsePerplexitySseFrame(': ping')).toBeNull();
+        expect(parsePerplexitySseFrame('data: {broken')).toBeNull();
+    });
+
+    it('should apply chunk deltas at their starting offset and keep earlier fields', () => {
+        const accumulator = createPerplexityAskAccumulator();
+        accumulator.push({ event: 'message', data: answerEvent(['Red', ' dust'], 0) });
+        accumulator.push({ event: 'message', data: answerEvent([' glows'], 2, { query_str: undefined }) });
+        expect(accumulator.snapshot()).toMatchObject({
+            entry: { entryId: 'entry-1', query: 'Mars sky?', text: 'Red dust glows', status: 'in_progress' },
+            done: false,
+        });
+
+        accumulator.push({ event: 'message', data: answerEvent([' softly'], 1, { final: true }) });
+        expect(accumulator.snapshot()).toMatchObject({ entry: { text: 'Red softly' }, done: true, error: null });
+    });
+
+    it('should terminate on error events and failed entries', () => {
+        const accumulator = createPerplexityAskAccumulator();
+        accumulator.push({ event: 'error', data: { message: 'rate limited' } });
+        expect(accumulator.snapshot()).toMatchObject({ done: true, error: 'rate limited' });
+
+        const failed = createPerplexityAskAccumulator();
+        failed.push({ event: 'message', data: answerEvent(['x'], 0, { status: 'FAILED' }) });
+        expect(failed.snapshot()).toMatchObject({ done: true, error: 'Perplexity answer failed' });
+    });
+
+    it('should replace an already cached entry instead of duplicating it', () => {
+        const accumulator = createPerplexityAskAccumulator();
+        accumulator.push({ event: 'message', data: answerEvent(['Draft'], 0) });
+        mergePerplexityAskIntoConversation(accumulator.snapshot());
+        accumulator.push({ event: 'message', data: answerEvent(['Final'], 0, { final: true }) });
+        const data = mergePerplexityAskIntoConversation(accumulator.snapshot());
+
+        expect(perplexityState.threadEntries.get('mars-sky-AbCdEf')).toHaveLength(1);
+        expect(data?.mapping['entry-1']?.message?.content.parts).toEqual(['Final']);
+        expect(mergePerplexityAskIntoConversation({ entry: null, done: false, error: null })).toBeNull();
+    });
+});
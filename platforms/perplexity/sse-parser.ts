@@ -0,0 +1,117 @@
+import type { ConversationData } from '@/utils/types';
+import { buildPerplexityConversation, type PerplexityEntrySnapshot, readPerplexityEntry } from './entry-parser';
+import { perplexityState } from './state';
+
+export type PerplexitySseFrame = {
+    event: string;
+    data: unknown;
+};
+
+export type PerplexityAskSnapshot = {
+    entry: PerplexityEntrySnapshot | null;
+    done: boolean;
+    error: string | null;
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+    value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+
+/** Splits a buffer on blank lines, returning complete SSE frames and the unterminated tail. */
+export const splitPerplexitySseFrames = (buffer: string): { frames: string[]; remainingBuffer: string } => {
+    const normalized = buffer.replace(/\r\n/g, '\n');
+    const frames = normalized.split('\n\n');
+    const remainingBuffer = frames.pop() ?? '';
+    return { frames, remainingBuffer };
+};
+
+/**
+ * Event name (default `message`) and JSON payload of one SSE frame, or `null`
+ * for comments, pings and frames without data.
+ */
+export const parsePerplexitySseFrame = (frame: string): PerplexitySseFrame | null => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) {
+            event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+            dataLines.push(line.slice(5).trim());
+        }
+    }
+    if (dataLines.length === 0) {
+        return event === 'end_of_stream' ? { event, data: null } : null;
+    }
+    try {
+        return { event, data: JSON.parse(dataLines.join('\n')) };
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Folds `perplexity_ask` SSE frames into the entry being answered. Each
+ * `message` event is a partial snapshot of the entry; `end_of_stream` and the
+ * final message close the stream, `error` events terminate it.
+ */
+export const createPerplexityAskAccumulator = () => {
+    const snapshot: PerplexityAskSnapshot = { entry: null, done: false, error: null };
+
+    const push = (frame: PerplexitySseFrame) => {
+        if (frame.event === 'end_of_stream') {
+            snapshot.done = true;
+            return;
+        }
+        if (frame.event === 'error') {
+            const message = asRecord(frame.data)?.message;
+            snapshot.error = typeof message === 'string' && message ? message : 'Perplexity stream error';
+            snapshot.done = true;
+            return;
+        }
+        const entry = readPerplexityEntry(frame.data, snapshot.entry ?? undefined);
+        if (!entry) {
+            return;
+        }
+        snapshot.entry = entry;
+        if (entry.status === 'error') {
+            snapshot.error = 'Perplexity answer failed';
+            snapshot.done = true;
+        } else if (entry.status === 'finished_successfully') {
+            snapshot.done = true;
+        }
+    };
+
+    return {
+        push,
+        snapshot: (): PerplexityAskSnapshot => ({ ...snapshot }),
+    };
+};
+
+/** Parses a complete `perplexity_ask` SSE body; `null` when no entry was streamed. */
+export const parsePerplexityAskStream = (text: string): PerplexityAskSnapshot | null => {
+    const accumulator = createPerplexityAskAccumulator();
+    const { frames, remainingBuffer } = splitPerplexitySseFrames(text);
+    for (const frame of [...frames, remainingBuffer]) {
+        const parsed = parsePerplexitySseFrame(frame);
+        if (parsed) {
+            accumulator.push(parsed);
+        }
+    }
+    const snapshot = accumulator.snapshot();
+    return snapshot.entry ? snapshot : null;
+};
+
+/**
+ * Appends (or replaces) the streamed entry in the thread's cached entries and
+ * rebuilds the conversation. Without a cached thread the result holds only the
+ * streamed entry until the canonical thread payload is fetched.
+ */
+export const mergePerplexityAskIntoConversation = (snapshot: PerplexityAskSnapshot): ConversationData | null => {
+    const entry = snapshot.entry;
+    if (!entry?.threadSlug) {
+        return null;
+    }
+    const cached = perplexityState.threadEntries.get(entry.threadSlug) ?? [];
+    const index = cached.findIndex((candidate) => candidate.entryId === entry.entryId);
+    const entries = index >= 0 ? cached.map((candidate, i) => (i === index ? entry : candidate)) : [...cached, entry];
+    return buildPerplexityConversation(entry.threadSlug, entries);
+};
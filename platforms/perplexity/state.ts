@@ -0,0 +1,24 @@
+import { LRUCache } from '@/utils/lru-cache';
+import type { PerplexityEntrySnapshot } from './entry-parser';
+
+/**
+ * Encapsulates all mutable adapter state to prevent cross-test/session leakage.
+ * Use `resetPerplexityAdapterState()` in tests to get a clean state.
+ */
+export class PerplexityAdapterState {
+    /** Maps thread slug to title */
+    readonly conversationTitles = new LRUCache<string, string>(50);
+    /** Latest parsed entries per thread slug, used as the base when an ask stream is merged in */
+    readonly threadEntries = new LRUCache<string, PerplexityEntrySnapshot[]>(50);
+
+    reset() {
+        this.conversationTitles.clear();
+        this.threadEntries.clear();
+    }
+}
+
+export const perplexityState = new PerplexityAdapterState();
+
+export const resetPerplexityAdapterState = () => {
+    perplexityState.reset();
+};
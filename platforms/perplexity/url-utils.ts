@@ -0,0 +1,29 @@
+/**
+ * ID patterns and URL utilities for the Perplexity adapter.
+ */
+
+/**
+ * Thread URL slug — a title slug followed by an opaque id
+ * (e.g. `why-is-the-sky-blue-Qx3rTn8WQ4mZ1vE0b2Lk9A`), or a bare UUID for older threads.
+ */
+export const PERPLEXITY_THREAD_SLUG_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/** Path segments under `/search/` and `/rest/thread/` that are routes, not threads. */
+const RESERVED_THREAD_SEGMENTS = new Set(['new', 'list_recent', 'list_ask_threads', 'mark_viewed']);
+
+const API_THREAD_PATH_PATTERN = /\/rest\/thread\/([^/?#]+)/i;
+
+export const isPerplexityThreadSlug = (value: string | null | undefined): value is string =>
+    !!value && PERPLEXITY_THREAD_SLUG_PATTERN.test(value) && !RESERVED_THREAD_SEGMENTS.has(value.toLowerCase());
+
+/**
+ * Extracts the thread slug from a `rest/thread/{slug}` URL. Regex-based so
+ * relative request URLs seen by the interceptor work too.
+ */
+export const extractPerplexityThreadSlugFromApiUrl = (url: string): string | null => {
+    const slug = url.match(API_THREAD_PATH_PATTERN)?.[1] ?? null;
+    return isPerplexityThreadSlug(slug) ? slug : null;
+};
+
+export const buildPerplexityThreadApiUrl = (slug: string) =>
+    `https://www.perplexity.ai/rest/thread/${encodeURIComponent(slug)}?with_schematized_response=true&limit=100&from_first=true`;
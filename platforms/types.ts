@@ -46,9 +46,11 @@ export type LLMPlatform = {
      * Parse raw intercepted data into standardized ConversationData
      * @param data - The raw response data (as string)
      * @param url - The URL of the intercepted request
+     * @param requestConversationId - Conversation ID named by the request body
+     *   (see `extractConversationIdFromRequestBody`), when the URL carries none
      * @returns Standardized conversation data or null if parsing fails
      */
-    parseInterceptedData(data: string, url: string): ConversationData | null;
+    parseInterceptedData(data: string, url: string, requestConversationId?: string): ConversationData | null;
 
     /**
      * Format the filename for the downloaded JSON file
@@ -79,6 +81,24 @@ export type LLMPlatform = {
      */
     completionTriggerPattern?: RegExp;
 
+    /**
+     * Optional regex pattern matching WebSocket URLs the platform streams over.
+     * Frames of matching sockets are fed through the interceptor's socket
+     * pipeline: the platform's socket monitor (if any) drives lifecycle signals,
+     * and finished transcripts are handed to `parseInterceptedData` with the
+     * socket URL.
+     *
+     * Example: Copilot carries each turn over `wss://copilot.microsoft.com/c/api/chat`.
+     */
+    socketEndpointPattern?: RegExp;
+
+    /**
+     * Optional regex pattern matching native `EventSource` stream URLs. Events
+     * are re-serialized as SSE wire frames (`event:`/`data:` lines), so the same
+     * SSE parsing used for fetch streams applies to the captured transcript.
+     */
+    eventStreamEndpointPattern?: RegExp;
+
     /**
      * Build the API URL to fetch the full conversation data.
      * Required when `completionTriggerPattern` is set.
@@ -108,6 +128,25 @@ export type LLMPlatform = {
      */
     extractConversationIdFromUrl?: (url: string) => string | null;
 
+    /**
+     * Optional conversation ID extractor for generation request bodies, for
+     * platforms whose generation endpoints don't name the conversation in the URL.
+     * The interceptor uses it to attribute the request's lifecycle and captured
+     * stream, so a new chat is never merged into the last one the page showed.
+     *
+     * Example: DeepSeek posts `chat/completion` with `{"chat_session_id": "…"}`.
+     */
+    extractConversationIdFromRequestBody?: (body: unknown) => string | null;
+
+    /**
+     * Optional prompt extractor for generation request bodies. The interceptor
+     * caches the result as the attempt's prompt hint when the platform's stream
+     * never echoes the user turn back.
+     *
+     * Example: Claude posts `…/completion` with `{"prompt": "…"}`.
+     */
+    extractPromptFromRequestBody?: (body: unknown) => string | null;
+
     /**
      * Optional generation ID extractor. Used by Signal Fusion Engine (SFE) to
      * correlate platform-native generation IDs where available.
@@ -142,3 +181,88 @@ export type LLMPlatform = {
      */
     defaultTitles?: readonly string[];
 };
+
+/**
+ * How a platform streams generations: SSE (`text/event-stream`),
+ * newline-delimited JSON, Google `batchexecute` chunks, numbered JSON lines
+ * (`{index}:{json}`), or WebSocket frames. The interceptor only attaches an
+ * SSE monitor to responses that are actually `text/event-stream`.
+ */
+export type PlatformStreamProtocol = 'sse' | 'ndjson' | 'batchexecute' | 'numbered-json-lines' | 'websocket';
+
+/**
+ * Endpoint patterns of a platform. The well-known keys feed the matching
+ * `LLMPlatform` fields; platforms may declare extra protocol-specific patterns.
+ */
+export type PlatformEndpointDescriptor = {
+    readonly apiEndpointPattern: RegExp;
+    readonly completionTriggerPattern?: RegExp;
+    readonly socketEndpointPattern?: RegExp;
+    readonly eventStreamEndpointPattern?: RegExp;
+    readonly [pattern: string]: RegExp | undefined;
+};
+
+/**
+ * Which endpoints drive the interceptor's lifecycle and completion signals.
+ * Keys name patterns in `PlatformEndpointDescriptor`; a URL matches when any of
+ * the listed patterns does.
+ */
+export type PlatformSignalDescriptor = {
+    /** Generation requests: they emit `prompt-sent`, cache prompt hints and get a stream monitor. */
+    readonly lifecycleEndpoints: readonly string[];
+    /** Responses that may emit `response-finished`. */
+    readonly completionEndpoints: readonly string[];
+    /** Whether completion waits until the captured conversation's latest assistant turn is terminal. */
+    readonly completionRequiresReadiness: boolean;
+    /** Whether `streaming` is emitted with `prompt-sent`; otherwise the stream monitor reports it. */
+    readonly streamingOnRequest: boolean;
+};
+
+/** List/detail pagination strategies implemented by `utils/runner/bulk-chat-export.ts`. */
+export type BulkExportStrategy = 'chatgpt' | 'gemini' | 'grok-com' | 'claude';
+
+/**
+ * Bulk export endpoints. Templates use `{placeholder}` segments (always
+ * `{host}`, plus strategy-specific ones such as `{offset}`, `{limit}` or
+ * `{conversationId}`), filled and URL-encoded by `fillEndpointTemplate`.
+ */
+export type PlatformBulkExportDescriptor = {
+    readonly strategy: BulkExportStrategy;
+    /** Page hosts bulk export runs on; every descriptor host when omitted. */
+    readonly hosts?: readonly string[];
+    readonly listEndpoint: string;
+    /** Account lookup the list endpoint depends on (Claude's organization list). */
+    readonly accountEndpoint?: string;
+    /** Detail URLs tried in order when the adapter builds none of its own. */
+    readonly detailEndpoints: readonly string[];
+};
+
+/**
+ * Declarative description of a supported platform. The parser module named by
+ * `parserId` supplies the code (parsing, readiness, DOM hooks); everything the
+ * interceptor, runner, manifest and bulk export match on lives here, so endpoint
+ * or selector drift is a data change.
+ */
+export type PlatformDescriptor = {
+    /** Display name; also the adapter name used in signals and logs. */
+    readonly name: string;
+    /** Key of the parser module implementing this platform (see `platforms/factory.ts`). */
+    readonly parserId: string;
+    /** Page hostnames; subdomains match too. */
+    readonly hosts: readonly string[];
+    /** Manifest match patterns (host permissions and content-script matches). */
+    readonly urlMatchPatterns: readonly string[];
+    readonly streamProtocol: PlatformStreamProtocol;
+    readonly endpoints: PlatformEndpointDescriptor;
+    /** Lifecycle and completion policy; `null` for ChatGPT, whose prompt requests the interceptor handles itself. */
+    readonly signals: PlatformSignalDescriptor | null;
+    /** Path fragments that make an unmatched request worth an endpoint-miss diagnostic. */
+    readonly apiHintMarkers: readonly string[];
+    readonly selectors: Readonly<Record<string, readonly string[]>>;
+    readonly defaultTitles?: readonly string[];
+    /** Whether the interceptor caches the sent prompt as a hint for stream-built conversations. */
+    readonly capturesPromptHints: boolean;
+    /** How long calibration waits for passive capture before fetching. */
+    readonly passiveCaptureWaitMs: number;
+    readonly bulkExport: PlatformBulkExportDescriptor | null;
+};
@@ -0,0 +1,150 @@
+import { access, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { decryptExportEnvelope, parseExportEnvelope } from '@/utils/encryption/export-envelope';
+
+type CliOptions = {
+    input: string;
+    output: string | null;
+    force: boolean;
+};
+
+const PASSPHRASE_ENV = 'BLACKIYA_EXPORT_PASSPHRASE';
+
+const printUsage = () => {
+    console.error(
+        [
+            'Usage:',
+            '  bun run scripts/decrypt-export.ts <file.enc.json> [--out <path>] [--force]',
+            '',
+            'Decrypts a passphrase-encrypted Blackiya export (see docs/encrypted-exports.md).',
+            'The passphrase is read from $BLACKIYA_EXPORT_PASSPHRASE, otherwise prompted for',
+            '(without echo) or read from piped stdin. It is never taken as an argument, so it',
+            'stays out of shell history and the process list.',
+            '',
+            'Options:',
+            '  --out <path>   Output file, or - for stdout (default: the original file name',
+            '                 next to the encrypted file)',
+            '  --force        Overwrite an existing output file',
+            '  --help         Show this help',
+        ].join('\n'),
+    );
+};
+
+const readOutValue = (value: string | undefined) => {
+    if (!value || (value.startsWith('--') && value !== '-')) {
+        throw new Error('Missing value for --out');
+    }
+    return value;
+};
+
+const parseArgs = (argv: string[]): CliOptions => {
+    const options: CliOptions = { input: '', output: null, force: false };
+    for (let i = 0; i < argv.length; i += 1) {
+        const arg = argv[i];
+        if (arg === '--help' || arg === '-h') {
+            printUsage();
+            process.exit(0);
+        }
+        if (arg === '--force') {
+            options.force = true;
+        } else if (arg === '--out') {
+            options.output = readOutValue(argv[i + 1]);
+            i += 1;
+        } else if (arg.startsWith('--') || options.input) {
+            throw new Error(`Unexpected argument: ${arg}`);
+        } else {
+            options.input = arg;
+        }
+    }
+    if (!options.input) {
+        throw new Error('Missing the encrypted file to decrypt');
+    }
+    return options;
+};
+
+const applyKey = (value: string, char: string) =>
+    char === '\u007f' || char === '\b' ? value.slice(0, -1) : value + char;
+
+/** Reads one line from the terminal with echo off. */
+const promptHidden = (prompt: string) =>
+    new Promise<string>((resolve, reject) => {
+        const stdin = process.stdin;
+        let value = '';
+        const finish = (error?: Error) => {
+            stdin.setRawMode(false);
+            stdin.pause();
+            stdin.off('data', onData);
+            process.stderr.write('\n');
+            if (error) {
+                reject(error);
+            } else {
+                resolve(value);
+            }
+        };
+        const onData = (chunk: Buffer) => {
+            for (const char of chunk.toString('utf8')) {
+                if (char === '\r' || char === '\n' || char === '\u0003') {
+                    finish(char === '\u0003' ? new Error('Canceled') : undefined);
+                    return;
+                }
+                value = applyKey(value, char);
+            }
+        };
+        process.stderr.write(prompt);
+        stdin.setRawMode(true);
+        stdin.resume();
+        stdin.on('data', onData);
+    });
+
+const readPassphrase = async () => {
+    const fromEnv = process.env[PASSPHRASE_ENV];
+    if (fromEnv) {
+        return fromEnv;
+    }
+    if (process.stdin.isTTY) {
+        return promptHidden('Passphrase: ');
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+        chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks)
+        .toString('utf8')
+        .replace(/\r?\n$/, '');
+};
+
+const exists = async (filePath: string) =>
+    access(filePath).then(
+        () => true,
+        () => false,
+    );
+
+const run = async () => {
+    const options = parseArgs(process.argv.slice(2));
+    const envelope = parseExportEnvelope(await readFile(options.input, 'utf8'));
+    const passphrase = await readPassphrase();
+    if (!passphrase) {
+        throw new Error(`No passphrase given (set ${PASSPHRASE_ENV} or type it at the prompt)`);
+    }
+    const decrypted = await decryptExportEnvelope(envelope, passphrase);
+    if (options.output === '-') {
+        process.stdout.write(decrypted.content);
+        return;
+    }
+    // The envelope names the file; only its base name is trusted.
+    const output = path.resolve(
+        options.output ?? path.join(path.dirname(options.input), path.basename(decrypted.filename)),
+    );
+    if (!options.force && (await exists(output))) {
+        throw new Error(`${output} already exists (use --force to overwrite)`);
+    }
+    await writeFile(output, decrypted.content);
+    console.error(`Decrypted ${decrypted.filename} -> ${output}`);
+};
+
+// Awaited: once piped stdin has closed, Bun does not wait for pending WebCrypto work before exiting.
+await run().catch((error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Decryption failed: ${message}`);
+    process.exit(1);
+});
@@ -0,0 +1,170 @@
+import { chmod, mkdir, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { NATIVE_HOST_NAME } from '@/utils/native-host/native-host-contract';
+import { createNativeExportWriter, createNativeMessageDecoder, encodeNativeMessage } from './native-host';
+
+const BROWSERS = ['chrome', 'chromium', 'brave', 'edge', 'firefox'] as const;
+type Browser = (typeof BROWSERS)[number];
+
+type HostOptions = { mode: 'host'; root: string | null };
+type InstallOptions = { mode: 'install'; root: string | null; extensionId: string | null; browser: Browser };
+
+const printUsage = () => {
+    console.error(
+        [
+            'Usage:',
+            '  bun run scripts/native-export-host.ts install --root <dir> --extension-id <id> [--browser <name>]',
+            '  bun run scripts/native-export-host.ts --root <dir>',
+            '',
+            'Reference native messaging host for Blackiya: writes exports to',
+            '<root>/{platform}/{yyyy}/{mm}/{title}.{ext}, overwriting on re-save.',
+            '',
+            'install writes a launcher to ~/.blackiya/ and registers the host manifest',
+            `(${NATIVE_HOST_NAME}) for the browser (macOS and Linux). Without install,`,
+            'the script runs as the host itself, speaking the native messaging protocol',
+            'on stdin/stdout; the browser starts it, so it is rarely run by hand.',
+            '',
+            'Options:',
+            '  --root <dir>          Export folder (host mode also reads BLACKIYA_EXPORT_ROOT)',
+            '  --extension-id <id>   Blackiya extension ID from the browser extensions page',
+            `  --browser <name>      ${BROWSERS.join(' | ')} (default chrome)`,
+            '  --help                Show this help',
+        ].join('\n'),
+    );
+};
+
+const isBrowser = (value: string): value is Browser => (BROWSERS as readonly string[]).includes(value);
+
+const applyOption = (options: InstallOptions, flag: string, value: string) => {
+    if (flag === '--root') {
+        options.root = path.resolve(value);
+    } else if (flag === '--extension-id') {
+        options.extensionId = value;
+    } else if (flag === '--browser' && isBrowser(value)) {
+        options.browser = value;
+    } else {
+        throw new Error(`Unknown option ${flag} ${value}`);
+    }
+};
+
+/**
+ * Browsers append their own arguments when they launch a host (Chromium: the
+ * caller origin, plus `--parent-window=<id>` on Windows; Firefox: the manifest
+ * path and extension ID), so positional and `--flag=value` arguments are
+ * ignored rather than rejected.
+ */
+const parseArgs = (argv: string[]): HostOptions | InstallOptions => {
+    const install = argv[0] === 'install';
+    const options: InstallOptions = { mode: 'install', root: null, extensionId: null, browser: 'chrome' };
+    for (let i = install ? 1 : 0; i < argv.length; i += 1) {
+        const flag = argv[i];
+        if (flag === '--help') {
+            printUsage();
+            process.exit(0);
+        }
+        if (!flag.startsWith('--') || flag.includes('=')) {
+            continue;
+        }
+        const value = argv[i + 1];
+        if (!value || value.startsWith('--')) {
+            throw new Error(`Missing value for ${flag}`);
+        }
+        i += 1;
+        applyOption(options, flag, value);
+    }
+    return install ? options : { mode: 'host', root: options.root };
+};
+
+const resolveManifestDir = (browser: Browser) => {
+    const home = os.homedir();
+    const mac = process.platform === 'darwin';
+    const base = mac ? path.join(home, 'Library', 'Application Support') : path.join(home, '.config');
+    switch (browser) {
+        case 'firefox':
+            return mac
+                ? path.join(base, 'Mozilla', 'NativeMessagingHosts')
+                : path.join(home, '.mozilla', 'native-messaging-hosts');
+        case 'chromium':
+            return path.join(base, mac ? 'Chromium' : 'chromium', 'NativeMessagingHosts');
+        case 'brave':
+            return path.join(base, 'BraveSoftware', 'Brave-Browser', 'NativeMessagingHosts');
+        case 'edge':
+            return path.join(base, mac ? 'Microsoft Edge' : 'microsoft-edge', 'NativeMessagingHosts');
+        default:
+            return path.join(base, mac ? path.join('Google', 'Chrome') : 'google-chrome', 'NativeMessagingHosts');
+    }
+};
+
+const install = async (options: InstallOptions) => {
+    if (process.platform === 'win32') {
+        throw new Error('install supports macOS and Linux; on Windows register the host manifest in the registry');
+    }
+    if (!options.root || !options.extensionId) {
+        throw new Error('install needs --root and --extension-id');
+    }
+    const launcherDir = path.join(os.homedir(), '.blackiya');
+    const launcherPath = path.join(launcherDir, 'native-export-host.sh');
+    const hostScript = path.resolve(import.meta.dir, 'native-export-host.ts');
+    await mkdir(launcherDir, { recursive: true });
+    await mkdir(options.root, { recursive: true });
+    // Browsers start hosts with a minimal environment, so the launcher pins absolute paths.
+    await writeFile(
+        launcherPath,
+        `#!/bin/sh\nexec "${process.execPath}" "${hostScript}" --root "${options.root}" "$@"\n`,
+        'utf8',
+    );
+    await chmod(launcherPath, 0o755);
+
+    const manifestDir = resolveManifestDir(options.browser);
+    const manifestPath = path.join(manifestDir, `${NATIVE_HOST_NAME}.json`);
+    const manifest = {
+        name: NATIVE_HOST_NAME,
+        description: 'Blackiya local folder export host',
+        path: launcherPath,
+        type: 'stdio',
+        ...(options.browser === 'firefox'
+            ? { allowed_extensions: [options.extensionId] }
+            : { allowed_origins: [`chrome-extension://${options.extensionId}/`] }),
+    };
+    await mkdir(manifestDir, { recursive: true });
+    await writeFile(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`, 'utf8');
+    console.error(`Registered ${NATIVE_HOST_NAME} for ${options.browser}: ${manifestPath}`);
+    console.error(`Exports will be written under ${options.root}`);
+};
+
+/** Serves requests in arrival order until the browser closes stdin. */
+const serve = async (root: string) => {
+    const writer = createNativeExportWriter(root);
+    const decode = createNativeMessageDecoder();
+    let queue = Promise.resolve();
+    for await (const chunk of process.stdin) {
+        for (const message of decode(chunk as Uint8Array)) {
+            queue = queue.then(async () => {
+                process.stdout.write(encodeNativeMessage(await writer.handle(message)));
+            });
+        }
+    }
+    await queue;
+};
+
+const run = async () => {
+    const options = parseArgs(process.argv.slice(2));
+    if (options.mode === 'install') {
+        await install(options);
+        return;
+    }
+    const root = options.root ?? process.env.BLACKIYA_EXPORT_ROOT;
+    if (!root) {
+        throw new Error('Set --root or BLACKIYA_EXPORT_ROOT');
+    }
+    await serve(path.resolve(root));
+};
+
+// stdout carries the protocol, so diagnostics go to stderr (the browser logs it).
+run().catch((error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Native export host failed: ${message}`);
+    printUsage();
+    process.exit(1);
+});
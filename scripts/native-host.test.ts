@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+    createNativeExportWriter,
+    createNativeMessageDecoder,
+    encodeNativeMessage,
+    resolveExportTarget,
+} from './native-host';
+
+const write = (conversationId: string, relativePath: string, content: string) => ({
+    version: 1,
+    type: 'write',
+    platform: 'ChatGPT',
+    conversationId,
+    path: relativePath,
+    content,
+});
+
+describe('native-host', () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await mkdtemp(path.join(os.tmpdir(), 'blackiya-native-host-'));
+    });
+
+    afterEach(async () => {
+        await rm(root, { recursive: true, force: true });
+    });
+
+    it('should round-trip length-prefixed messages split across chunks', () => {
+        const frames = Buffer.concat([encodeNativeMessage({ type: 'ping' }), encodeNativeMessage({ text: 'héllo' })]);
+        const decode = createNativeMessageDecoder();
+
+        expect(decode(frames.subarray(0, 3))).toEqual([]);
+        expect(decode(frames.subarray(3, 20))).toEqual([{ type: 'ping' }]);
+        expect(decode(frames.subarray(20))).toEqual([{ text: 'héllo' }]);
+    });
+
+    it('should reject paths that escape the root', () => {
+        expect(() => resolveExportTarget(root, '../outside.md')).toThrow('outside the export root');
+        expect(() => resolveExportTarget(root, '/etc/passwd')).toThrow('outside the export root');
+        expect(() => resolveExportTarget(root, 'ChatGPT//a.md')).toThrow('outside the export root');
+        expect(resolveExportTarget(root, 'ChatGPT/2026/01/a.md')).toBe(
+            path.join(root, 'ChatGPT', '2026', '01', 'a.md'),
+        );
+    });
+
+    it('should create the directory layout and overwrite on re-save', async () => {
+        const writer = createNativeExportWriter(root);
+
+        await writer.handle(write('conv-1', 'ChatGPT/2026/01/Plan.md', 'first'));
+        const result = await writer.handle(write('conv-1', 'ChatGPT/2026/01/Plan.md', 'second'));
+
+        expect(result).toEqual({ ok: true, path: path.join(root, 'ChatGPT', '2026', '01', 'Plan.md') });
+        expect(await readFile(path.join(root, 'ChatGPT/2026/01/Plan.md'), 'utf8')).toBe('second');
+        expect(await readdir(path.join(root, 'ChatGPT/2026/01'))).toEqual(['Plan.md']);
+    });
+
+    it('should move a renamed conversation and keep same-titled conversations apart', async () => {
+        const writer = createNativeExportWriter(root);
+
+        await writer.handle(write('conv-1', 'ChatGPT/2026/01/Plan.md', 'one'));
+        const other = await writer.handle(write('conv-2', 'ChatGPT/2026/01/Plan.md', 'two'));
+        await writer.handle(write('conv-1', 'ChatGPT/2026/01/Renamed.md', 'one, renamed'));
+
+        expect(other).toEqual({ ok: true, path: path.join(root, 'ChatGPT/2026/01/Plan_conv2.md') });
+        expect((await readdir(path.join(root, 'ChatGPT/2026/01'))).sort()).toEqual(['Plan_conv2.md', 'Renamed.md']);
+    });
+
+    it('should answer pings with the root and reject malformed requests', async () => {
+        const writer = createNativeExportWriter(root);
+
+        expect(await writer.handle({ version: 1, type: 'ping' })).toEqual({ ok: true, path: root });
+        expect(await writer.handle({ version: 2, type: 'ping' })).toEqual({
+            ok: false,
+            error: 'Unsupported protocol version: 2',
+        });
+        expect(await writer.handle({ version: 1, type: 'write', path: 'a.md' })).toEqual({
+            ok: false,
+            error: 'Malformed write request',
+        });
+        expect(await writer.handle(write('conv-1', '../a.md', 'x'))).toEqual({
+            ok: false,
+            error: 'Refusing to write outside the export root: ../a.md',
+        });
+    });
+});
@@ -0,0 +1,150 @@
+import { mkdir, readFile, rename, unlink, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { NativeHostResult } from '@/utils/native-host/native-host-contract';
+
+/** Records which file each conversation was last written to, relative to the root. */
+export const NATIVE_HOST_INDEX_FILENAME = '.blackiya-index.json';
+
+/** Guards against a corrupt length prefix; real exports are far smaller. */
+const MAX_INCOMING_MESSAGE_BYTES = 256 * 1024 * 1024;
+
+type ExportIndex = Record<string, string>;
+
+type WriteMessage = {
+    version: number;
+    type: 'write';
+    platform: string;
+    conversationId: string;
+    path: string;
+    content: string;
+};
+
+/** Native messaging framing: a 4-byte little-endian length, then UTF-8 JSON. */
+export const encodeNativeMessage = (value: unknown) => {
+    const body = Buffer.from(JSON.stringify(value), 'utf8');
+    const header = Buffer.alloc(4);
+    header.writeUInt32LE(body.length, 0);
+    return Buffer.concat([header, body]);
+};
+
+/** Buffers stdin chunks and returns every message completed by each one. */
+export const createNativeMessageDecoder = () => {
+    let pending = Buffer.alloc(0);
+    return (chunk: Uint8Array): unknown[] => {
+        pending = Buffer.concat([pending, chunk]);
+        const messages: unknown[] = [];
+        while (pending.length >= 4) {
+            const length = pending.readUInt32LE(0);
+            if (length > MAX_INCOMING_MESSAGE_BYTES) {
+                throw new Error(`Incoming message of ${length} bytes exceeds the host limit`);
+            }
+            if (pending.length < 4 + length) {
+                break;
+            }
+            messages.push(JSON.parse(pending.subarray(4, 4 + length).toString('utf8')));
+            pending = pending.subarray(4 + length);
+        }
+        return messages;
+    };
+};
+
+/** Resolves a `/`-separated relative path under `root`, rejecting anything that would escape it. */
+export const resolveExportTarget = (root: string, relativePath: string) => {
+    const segments = relativePath.split('/');
+    if (
+        relativePath.length === 0 ||
+        path.isAbsolute(relativePath) ||
+        segments.some((segment) => segment === '' || segment === '.' || segment === '..' || segment.includes('\\'))
+    ) {
+        throw new Error(`Refusing to write outside the export root: ${relativePath}`);
+    }
+    const target = path.resolve(root, ...segments);
+    if (!target.startsWith(`${path.resolve(root)}${path.sep}`)) {
+        throw new Error(`Refusing to write outside the export root: ${relativePath}`);
+    }
+    return target;
+};
+
+const isWriteMessage = (value: Record<string, unknown>): value is WriteMessage =>
+    value.type === 'write' &&
+    typeof value.platform === 'string' &&
+    typeof value.conversationId === 'string' &&
+    typeof value.path === 'string' &&
+    typeof value.content === 'string';
+
+/** `Title.md` -> `Title_abcd1234.md`, for a second conversation that resolves to the same title. */
+const withConversationSuffix = (relativePath: string, conversationId: string) => {
+    const extension = path.posix.extname(relativePath);
+    const suffix = conversationId.replace(/[^A-Za-z0-9]/g, '').slice(0, 8) || 'copy';
+    return `${relativePath.slice(0, relativePath.length - extension.length)}_${suffix}${extension}`;
+};
+
+/**
+ * Writes exports under `root`. Re-saving a conversation overwrites its file;
+ * when its title changed the previous file is removed, and a different
+ * conversation with the same title gets a suffixed name instead of clobbering
+ * it. Files are written to a temporary name and renamed into place, so sync
+ * tools watching the folder never pick up a partial export.
+ */
+export const createNativeExportWriter = (root: string) => {
+    const resolvedRoot = path.resolve(root);
+    const indexPath = path.join(resolvedRoot, NATIVE_HOST_INDEX_FILENAME);
+
+    const readIndex = async (): Promise<ExportIndex> => {
+        try {
+            const parsed = JSON.parse(await readFile(indexPath, 'utf8'));
+            return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+        } catch {
+            return {};
+        }
+    };
+
+    const writeAtomically = async (target: string, content: string) => {
+        await mkdir(path.dirname(target), { recursive: true });
+        const temporary = `${target}.${process.pid}.tmp`;
+        await writeFile(temporary, content, 'utf8');
+        await rename(temporary, target);
+    };
+
+    const write = async (message: WriteMessage): Promise<NativeHostResult> => {
+        const index = await readIndex();
+        const key = `${message.platform}:${message.conversationId}`;
+        const owner = Object.entries(index).find(([, relative]) => relative === message.path)?.[0];
+        const relativePath =
+            owner && owner !== key ? withConversationSuffix(message.path, message.conversationId) : message.path;
+        const target = resolveExportTarget(resolvedRoot, relativePath);
+        await writeAtomically(target, message.content);
+
+        const previous = index[key];
+        if (previous && previous !== relativePath) {
+            await unlink(resolveExportTarget(resolvedRoot, previous)).catch(() => {});
+        }
+        index[key] = relativePath;
+        await writeAtomically(indexPath, `${JSON.stringify(index, null, 2)}\n`);
+        return { ok: true, path: target };
+    };
+
+    /** Answers one decoded extension message; failures become `{ ok: false }` replies. */
+    const handle = async (message: unknown): Promise<NativeHostResult> => {
+        if (!message || typeof message !== 'object') {
+            return { ok: false, error: 'Expected a JSON object' };
+        }
+        const candidate = message as Record<string, unknown>;
+        if (candidate.version !== 1) {
+            return { ok: false, error: `Unsupported protocol version: ${String(candidate.version)}` };
+        }
+        if (candidate.type === 'ping') {
+            return { ok: true, path: resolvedRoot };
+        }
+        if (!isWriteMessage(candidate)) {
+            return { ok: false, error: 'Malformed write request' };
+        }
+        try {
+            return await write(candidate);
+        } catch (error) {
+            return { ok: false, error: error instanceof Error ? error.message : String(error) };
+        }
+    };
+
+    return { handle };
+};
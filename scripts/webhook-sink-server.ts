@@ -0,0 +1,108 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+type CliOptions = {
+    port: number;
+    outputDir: string | null;
+    failFirst: number;
+};
+
+const printUsage = () => {
+    console.log(
+        [
+            'Usage:',
+            '  bun run scripts/webhook-sink-server.ts [options]',
+            '',
+            'Local stand-in for a webhook sink: logs every delivery and answers 200.',
+            '',
+            'Options:',
+            '  --port <n>          Port to listen on (default 8765)',
+            '  --out <dir>         Also write each delivered export to <dir>/<filename>',
+            '  --fail-first <n>    Answer 503 to the first n deliveries to exercise retries',
+            '  --help              Show this help',
+            '',
+            'Example:',
+            '  bun run scripts/webhook-sink-server.ts --out logs/sink --fail-first 2',
+            '  (sink URL: http://localhost:8765/ingest)',
+        ].join('\n'),
+    );
+};
+
+const parsePositiveInt = (value: string | undefined, flag: string) => {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new Error(`Expected a non-negative integer for ${flag}`);
+    }
+    return parsed;
+};
+
+const parseArgs = (argv: string[]): CliOptions => {
+    const options: CliOptions = { port: 8765, outputDir: null, failFirst: 0 };
+    for (let i = 0; i < argv.length; i += 1) {
+        const flag = argv[i];
+        if (flag === '--help') {
+            printUsage();
+            process.exit(0);
+        }
+        const value = argv[i + 1];
+        if (!value || value.startsWith('--')) {
+            throw new Error(`Missing value for ${flag}`);
+        }
+        i += 1;
+        if (flag === '--port') {
+            options.port = parsePositiveInt(value, flag);
+        } else if (flag === '--out') {
+            options.outputDir = path.resolve(value);
+        } else if (flag === '--fail-first') {
+            options.failFirst = parsePositiveInt(value, flag);
+        } else {
+            throw new Error(`Unknown option ${flag}`);
+        }
+    }
+    return options;
+};
+
+const run = async () => {
+    const options = parseArgs(process.argv.slice(2));
+    if (options.outputDir) {
+        await mkdir(options.outputDir, { recursive: true });
+    }
+    let received = 0;
+
+    Bun.serve({
+        port: options.port,
+        fetch: async (request) => {
+            if (request.method !== 'POST') {
+                return new Response('POST exports here\n', { status: 405 });
+            }
+            received += 1;
+            const body = await request.text();
+            const filename = decodeURIComponent(request.headers.get('x-blackiya-filename') ?? `delivery-${received}`);
+            const summary = [
+                `#${received}`,
+                request.headers.get('x-blackiya-platform'),
+                request.headers.get('x-blackiya-format'),
+                filename,
+                `${body.length} chars`,
+                `delivery ${request.headers.get('x-blackiya-delivery-id')}`,
+            ].join(' | ');
+            if (received <= options.failFirst) {
+                console.log(`${summary} -> 503 (simulated outage)`);
+                return new Response('Simulated outage\n', { status: 503 });
+            }
+            if (options.outputDir) {
+                await writeFile(path.join(options.outputDir, path.basename(filename)), body, 'utf8');
+            }
+            console.log(`${summary} -> 200`);
+            return new Response('ok\n');
+        },
+    });
+    console.log(`Webhook sink listening on http://localhost:${options.port}/ingest`);
+};
+
+run().catch((error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Webhook sink server failed: ${message}`);
+    printUsage();
+    process.exit(1);
+});
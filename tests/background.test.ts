@@ -301,5 +301,240 @@ describe('background message handler', () => {
             method: 'setBadgeText',
             payload: { text: '', tabId: 77 },
         });
+
+        actionCalls.length = 0;
+        handler(
+            {
+                type: 'BLACKIYA_BULK_EXPORT_PROGRESS',
+                stage: 'paused',
+                platform: 'ChatGPT',
+                discovered: 10,
+                attempted: 4,
+                remaining: 6,
+            },
+            { tab: { id: 77 } },
+            () => {},
+        );
+        expect(actionCalls).toContainEqual({ method: 'setBadgeText', payload: { text: '||', tabId: 77 } });
+        expect(actionCalls).toContainEqual({
+            method: 'setTitle',
+            payload: { title: 'Blackiya: Export paused (4/10)', tabId: 77 },
+        });
+
+        actionCalls.length = 0;
+        handler(
+            {
+                type: 'BLACKIYA_BULK_EXPORT_PROGRESS',
+                stage: 'canceled',
+                platform: 'ChatGPT',
+                attempted: 4,
+                exported: 3,
+            },
+            { tab: { id: 77 } },
+            () => {},
+        );
+        expect(actionCalls).toContainEqual({ method: 'setBadgeText', payload: { text: '', tabId: 77 } });
+        expect(actionCalls).toContainEqual({
+            method: 'setTitle',
+            payload: { title: 'Blackiya: Export canceled (3/4)', tabId: 77 },
+        });
+    });
+
+    it('routes archive messages to the conversation archive', async () => {
+        const calls: Array<{ method: string; payload: unknown }> = [];
+        const handler = handlerFactory({
+            saveLog: async () => {},
+            leaseCoordinator: new ProbeLeaseCoordinator({ store: new InMemoryLeaseStore(), now: () => now }),
+            logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+            actionApi: null,
+            archive: {
+                put: async (input: unknown) => {
+                    calls.push({ method: 'put', payload: input });
+                    return { stored: true };
+                },
+                search: async (query: unknown) => {
+                    calls.push({ method: 'search', payload: query });
+                    return { total: 0, results: [], platforms: [], models: [] };
+                },
+                get: async () => null,
+                delete: async (id: string) => {
+                    calls.push({ method: 'delete', payload: id });
+                },
+                clear: async () => {
+                    throw new Error('disk full');
+                },
+            },
+        });
+        const responses: unknown[] = [];
+        const sendResponse = (value: unknown) => {
+            responses.push(value);
+        };
+        const conversation = {
+            conversation_id: 'conv-1',
+            title: 'Hello',
+            create_time: 1,
+            update_time: 2,
+            current_node: 'root',
+            mapping: { root: { id: 'root', message: null, parent: null, children: [] } },
+        };
+
+        const putResult = handler(
+            {
+                type: 'BLACKIYA_ARCHIVE_PUT',
+                platform: 'ChatGPT',
+                conversation,
+                exportMeta: { captureSource: 'canonical_api', fidelity: 'high', completeness: 'complete' },
+                filename: 'hello',
+            },
+            { tab: { id: 1 } },
+            sendResponse,
+        );
+        expect(putResult).toBe(true);
+        await waitForResponse(responses, 1);
+        expect(responses[0]).toEqual({ ok: true, stored: true });
+
+        handler({ type: 'BLACKIYA_ARCHIVE_REQUEST', action: 'search', query: { text: 'hello' } }, {}, sendResponse);
+        handler({ type: 'BLACKIYA_ARCHIVE_REQUEST', action: 'delete', id: 'ChatGPT:conv-1' }, {}, sendResponse);
+        handler({ type: 'BLACKIYA_ARCHIVE_REQUEST', action: 'clear' }, {}, sendResponse);
+        await waitForResponse(responses, 4);
+
+        expect(calls.map((call) => call.method)).toEqual(['put', 'search', 'delete']);
+        expect(responses.slice(1)).toEqual([
+            { ok: true, total: 0, results: [], platforms: [], models: [] },
+            { ok: true },
+            { ok: false, error: 'disk full' },
+        ]);
+    });
+
+    it('rejects archive messages when no archive is available', () => {
+        const handler = handlerFactory({
+            saveLog: async () => {},
+            leaseCoordinator: new ProbeLeaseCoordinator({ store: new InMemoryLeaseStore(), now: () => now }),
+            logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+            actionApi: null,
+        });
+        const responses: unknown[] = [];
+
+        handler({ type: 'BLACKIYA_ARCHIVE_REQUEST', action: 'clear' }, {}, (value) => responses.push(value));
+
+        expect(responses).toEqual([{ ok: false, error: 'Conversation archive is unavailable' }]);
+    });
+    it('fans tab events out through the external API with the sender tab ID', () => {
+        const published: Array<{ tabId: number; event: unknown }> = [];
+        const handler = handlerFactory({
+            saveLog: async () => {},
+            leaseCoordinator: new ProbeLeaseCoordinator({ store: new InMemoryLeaseStore(), now: () => now }),
+            logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+            actionApi: null,
+            externalApi: {
+                handleMessage: () => true,
+                handleConnect: () => {},
+                publish: (tabId: number, event: unknown) => published.push({ tabId, event }),
+                applyAllowlist: () => {},
+            },
+        });
+        const event = {
+            event: 'lifecycle',
+            platform: 'ChatGPT',
+            conversationId: 'conv-1',
+            attemptId: 'attempt-1',
+            phase: 'streaming',
+        };
+
+        handler({ type: 'BLACKIYA_EXTERNAL_EVENT', event }, { tab: { id: 7 } }, () => {});
+        handler({ type: 'BLACKIYA_EXTERNAL_EVENT', event }, {}, () => {});
+
+        expect(published).toEqual([{ tabId: 7, event }]);
+    });
+    it('queues sink deliveries in the webhook outbox', () => {
+        const queued: unknown[] = [];
+        const handler = handlerFactory({
+            saveLog: async () => {},
+            leaseCoordinator: new ProbeLeaseCoordinator({ store: new InMemoryLeaseStore(), now: () => now }),
+            logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+            actionApi: null,
+            webhookOutbox: {
+                enqueue: async (payload: unknown) => {
+                    queued.push(payload);
+                },
+                flush: async () => {},
+            },
+        });
+        const payload = {
+            platform: 'ChatGPT',
+            conversationId: 'conv-1',
+            filename: 'Hello.md',
+            format: 'markdown',
+            mimeType: 'text/markdown',
+            content: '# Hello',
+        };
+
+        const result = handler({ type: 'BLACKIYA_SINK_DELIVER', payload }, { tab: { id: 1 } }, () => {});
+        handler(
+            { type: 'BLACKIYA_SINK_DELIVER', payload: { ...payload, format: 'docx' } },
+            { tab: { id: 1 } },
+            () => {},
+        );
+
+        expect(result).toBeUndefined();
+        expect(queued).toEqual([payload]);
+    });
+    it('relays native host requests and answers asynchronously', async () => {
+        const written: unknown[] = [];
+        const handler = handlerFactory({
+            saveLog: async () => {},
+            leaseCoordinator: new ProbeLeaseCoordinator({ store: new InMemoryLeaseStore(), now: () => now }),
+            logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+            actionApi: null,
+            nativeHost: {
+                ping: async () => ({ ok: true, path: '/vault' }),
+                write: async (request: { path: string }) => {
+                    written.push(request);
+                    return { ok: true, path: `/vault/${request.path}` };
+                },
+            },
+        });
+        const request = {
+            platform: 'ChatGPT',
+            conversationId: 'conv-1',
+            path: 'ChatGPT/2026/01/Plan.md',
+            content: '#',
+        };
+        const responses: unknown[] = [];
+
+        const result = handler({ type: 'BLACKIYA_NATIVE_HOST_REQUEST', action: 'write', request }, {}, (response) =>
+            responses.push(response),
+        );
+        handler({ type: 'BLACKIYA_NATIVE_HOST_REQUEST', action: 'ping' }, {}, (response) => responses.push(response));
+        await Promise.resolve();
+        await Promise.resolve();
+
+        expect(result).toBe(true);
+        expect(written).toEqual([request]);
+        expect(responses).toEqual([
+            { ok: true, path: '/vault/ChatGPT/2026/01/Plan.md' },
+            { ok: true, path: '/vault' },
+        ]);
+    });
+
+    it('hands the session export passphrase to content scripts', async () => {
+        const buildHandler = (readExportPassphrase?: () => Promise<string | null>) =>
+            handlerFactory({
+                saveLog: async () => {},
+                leaseCoordinator: new ProbeLeaseCoordinator({ store: new InMemoryLeaseStore(), now: () => now }),
+                logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+                actionApi: null,
+                readExportPassphrase,
+            });
+        const responses: unknown[] = [];
+        const message = { type: 'BLACKIYA_EXPORT_PASSPHRASE_REQUEST' };
+
+        const result = buildHandler(async () => 'hunter2 hunter2')(message, {}, (response) => responses.push(response));
+        buildHandler()(message, {}, (response) => responses.push(response));
+        await Promise.resolve();
+        await Promise.resolve();
+
+        expect(result).toBe(true);
+        expect(responses).toEqual([{ passphrase: 'hunter2 hunter2' }, { passphrase: null }]);
     });
 });
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    type ArchiveSearchDocument,
+    buildArchiveSearchDocument,
+    buildArchiveSearchSnippet,
+    createArchiveSearchIndex,
+    parseArchiveSearchQuery,
+    tokenizeSearchText,
+} from '@/utils/archive/archive-search-index';
+import { buildLinearConversation, buildMessage, buildTextMessage } from '@/utils/export/__tests__/fixtures';
+
+const buildDocument = (
+    id: string,
+    overrides: Partial<ArchiveSearchDocument> & { texts?: string[] } = {},
+): ArchiveSearchDocument => {
+    const { texts = [], ...rest } = overrides;
+    return {
+        id,
+        platform: 'ChatGPT',
+        conversationId: id,
+        title: `Conversation ${id}`,
+        createTime: 1_700_000_000,
+        updateTime: 1_700_000_000,
+        archivedAt: 0,
+        messageCount: texts.length,
+        models: [],
+        exportMeta: { captureSource: 'canonical_api', fidelity: 'high', completeness: 'complete' },
+        messages: texts.map((text, index) => ({ id: `${id}-m${index}`, role: 'user', text })),
+        ...rest,
+    };
+};
+
+describe('archive-search-index', () => {
+    it('should tokenize case- and diacritic-insensitively and split CJK into characters', () => {
+        expect(tokenizeSearchText('Café DÉJÀ-vu 42').map((token) => token.term)).toEqual(['cafe', 'deja', 'vu', '42']);
+        expect(tokenizeSearchText('東京 tower').map((token) => token.term)).toEqual(['東', '京', 'tower']);
+        expect(tokenizeSearchText('  hi there')[1]).toEqual({ term: 'there', start: 5, end: 10 });
+    });
+
+    it('should parse quoted phrases and ignore unmatched quotes', () => {
+        expect(parseArchiveSearchQuery('"star wars" Kenobi "solo"')).toEqual({
+            terms: ['kenobi', 'solo', 'star', 'wars'],
+            phrases: [['star', 'wars']],
+        });
+        expect(parseArchiveSearchQuery('say "hello')).toEqual({ terms: ['say', 'hello'], phrases: [] });
+    });
+
+    it('should require every term, verify phrases and rank title matches first', () => {
+        const index = createArchiveSearchIndex();
+        index.upsert(buildDocument('body', { texts: ['Star charts and the wars of the stars'], updateTime: 30 }));
+        index.upsert(buildDocument('title', { title: 'Star Wars trivia', texts: ['Who shot first?'], updateTime: 10 }));
+        index.upsert(buildDocument('other', { texts: ['Recipes'], updateTime: 20 }));
+
+        expect(index.search({ text: 'star wars' }).hits.map((hit) => hit.document.id)).toEqual(['title', 'body']);
+        expect(index.search({ text: '"star wars"' }).hits.map((hit) => hit.document.id)).toEqual(['title']);
+        expect(index.search({ text: 'star missing' }).total).toBe(0);
+        index.upsert(buildDocument('cjk', { texts: ['我住在東京。', 'Ça va, "Star"-Wars!'] }));
+        expect(index.search({ text: '"東京"' }).hits.map((hit) => hit.document.id)).toEqual(['cjk']);
+        expect(index.search({ text: '"ca va star wars"' }).hits.map((hit) => hit.document.id)).toEqual(['cjk']);
+        expect(index.search({ text: '"京東"' }).total).toBe(0);
+        index.remove('cjk');
+        expect(index.search().hits.map((hit) => hit.document.id)).toEqual(['body', 'other', 'title']);
+    });
+
+    it('should filter by platform, model and inclusive date bounds', () => {
+        const index = createArchiveSearchIndex();
+        index.upsert(
+            buildDocument('a', { platform: 'Gemini', models: ['gemini-pro'], createTime: 100, updateTime: 100 }),
+        );
+        index.upsert(buildDocument('b', { models: ['gpt-4o', 'o3'], createTime: 200, updateTime: 300 }));
+        index.upsert(buildDocument('c', { createTime: null, updateTime: null }));
+
+        const ids = (query: Parameters<typeof index.search>[0]) =>
+            index.search(query).hits.map((hit) => hit.document.id);
+        expect(ids({ platform: 'Gemini' })).toEqual(['a']);
+        expect(ids({ model: 'O3' })).toEqual(['b']);
+        expect(ids({ createdFrom: 100_000, createdTo: 100_000 })).toEqual(['a']);
+        expect(ids({ updatedFrom: 250_000 })).toEqual(['b']);
+        expect(ids({ text: 'gpt' })).toEqual(['b']);
+        expect(index.search().models).toEqual([
+            { model: 'gemini-pro', count: 1 },
+            { model: 'gpt-4o', count: 1 },
+            { model: 'o3', count: 1 },
+        ]);
+    });
+
+    it('should update postings incrementally on upsert, remove and clear', () => {
+        const index = createArchiveSearchIndex();
+        index.upsert(buildDocument('a', { texts: ['alpha'] }));
+        index.upsert(buildDocument('a', { texts: ['beta'] }));
+        expect(index.search({ text: 'alpha' }).total).toBe(0);
+        expect(index.search({ text: 'beta' }).total).toBe(1);
+
+        index.remove('a');
+        expect(index.search({ text: 'beta' }).total).toBe(0);
+        expect(index.size).toBe(0);
+
+        index.upsert(buildDocument('b'));
+        index.clear();
+        expect(index.search().total).toBe(0);
+    });
+
+    it('should build trimmed snippets with highlight offsets and fall back to the title', () => {
+        const long = `${'lorem '.repeat(30)}the Kenobi greeting ${'ipsum '.repeat(60)}`;
+        const document = buildDocument('a', { title: 'Kenobi notes', texts: ['nothing here', long] });
+
+        const snippet = buildArchiveSearchSnippet(document, ['kenobi']);
+        expect(snippet).toMatchObject({ field: 'message', messageId: 'a-m1', role: 'user' });
+        expect(snippet?.text.startsWith('…')).toBe(true);
+        expect(snippet?.text.endsWith('…')).toBe(true);
+        expect(snippet?.text.length).toBeLessThanOrEqual(202);
+        const [start, end] = snippet?.highlights[0] ?? [0, 0];
+        expect(snippet?.text.slice(start, end)).toBe('Kenobi');
+
+        expect(buildArchiveSearchSnippet(document, ['notes'])).toEqual({
+            field: 'title',
+            messageId: null,
+            role: null,
+            text: 'Kenobi notes',
+            highlights: [[7, 12]],
+        });
+        expect(buildArchiveSearchSnippet(document, [])).toBeNull();
+    });
+
+    it('should derive message text, count and models from the archived conversation', () => {
+        const conversation = buildLinearConversation([
+            buildTextMessage('u1', 'user', 'Hi', 1),
+            buildMessage('a1', 'assistant', { content_type: 'text', parts: ['Hello'] }, 2, { model_slug: 'o3' }),
+        ]);
+        const document = buildArchiveSearchDocument({
+            id: 'ChatGPT:conv-export',
+            platform: 'ChatGPT',
+            conversationId: 'conv-export',
+            title: 'Export Test',
+            createTime: 1,
+            updateTime: 2,
+            archivedAt: 3,
+            exportMeta: { captureSource: 'canonical_api', fidelity: 'high', completeness: 'complete' },
+            filename: 'export',
+            conversation,
+        });
+
+        expect(document.models).toEqual(['o3']);
+        expect(document.messageCount).toBe(2);
+        expect(document.messages).toEqual([
+            { id: 'u1', role: 'user', text: 'Hi' },
+            { id: 'a1', role: 'assistant', text: 'Hello' },
+        ]);
+        expect(document).not.toHaveProperty('conversation');
+    });
+});
@@ -0,0 +1,427 @@
+/**
+ * Archive Search Index
+ *
+ * In-memory inverted index over archived conversations. Each conversation is
+ * reduced to a search document (title, model names and the active-branch
+ * message text), tokenized into lower-cased, diacritic-free terms and posted
+ * with a field-weighted term frequency. Queries intersect postings starting
+ * from the rarest term, verify quoted phrases against the candidates' text,
+ * apply metadata filters and rank by TF-IDF, then recency.
+ *
+ * The index keeps only term frequencies, not positions, so memory stays
+ * proportional to the number of distinct terms per conversation; phrase checks
+ * re-tokenize just the candidate documents.
+ *
+ * @module utils/archive/archive-search-index
+ */
+
+import type {
+    ConversationArchiveEntry,
+    ConversationArchiveModelCount,
+    ConversationArchivePlatformCount,
+    ConversationArchiveQuery,
+    ConversationArchiveSnippet,
+    ConversationArchiveSummary,
+} from '@/utils/archive/conversation-archive-contract';
+import {
+    extractActiveMessageChain,
+    extractConversationModel,
+    extractModelFromMessage,
+} from '@/utils/conversation-inspection';
+import { buildTranscriptEntries } from '@/utils/export/transcript';
+
+export const DEFAULT_ARCHIVE_SEARCH_LIMIT = 50;
+const TITLE_WEIGHT = 3;
+const MODEL_WEIGHT = 2;
+const MESSAGE_WEIGHT = 1;
+const SNIPPET_CONTEXT_CHARS = 60;
+const SNIPPET_MAX_CHARS = 200;
+
+/** What the index needs about one conversation; stored next to it so the index rebuilds without full payloads. */
+export type ArchiveSearchDocument = ConversationArchiveSummary & {
+    /** Visible active-branch messages in conversation order. */
+    messages: Array<{ id: string; role: string; text: string }>;
+};
+
+export type ArchiveSearchToken = {
+    term: string;
+    /** `[start, end)` offsets into the tokenized text. */
+    start: number;
+    end: number;
+};
+
+export type ParsedArchiveSearchQuery = {
+    /** Distinct terms from bare words and phrases; every one must match. */
+    terms: string[];
+    /** Quoted phrases of two or more terms, matched as consecutive terms within one field. */
+    phrases: string[][];
+};
+
+export type ArchiveSearchHit = {
+    document: ArchiveSearchDocument;
+    score: number;
+    snippet: ConversationArchiveSnippet | null;
+};
+
+export type ArchiveSearchIndexResult = {
+    total: number;
+    hits: ArchiveSearchHit[];
+    platforms: ConversationArchivePlatformCount[];
+    models: ConversationArchiveModelCount[];
+};
+
+export type ArchiveSearchIndex = {
+    readonly size: number;
+    upsert: (document: ArchiveSearchDocument) => void;
+    remove: (id: string) => void;
+    clear: () => void;
+    search: (query?: ConversationArchiveQuery) => ArchiveSearchIndexResult;
+};
+
+// Han and kana are written without spaces, so each character is its own term.
+const TOKEN_PATTERN =
+    /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])[\p{L}\p{N}\p{M}])+/gu;
+const COMBINING_MARKS = /\p{M}/gu;
+
+const normalizeTerm = (raw: string) => raw.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase();
+
+export const tokenizeSearchText = (text: string): ArchiveSearchToken[] => {
+    const tokens: ArchiveSearchToken[] = [];
+    for (const match of text.matchAll(TOKEN_PATTERN)) {
+        const term = normalizeTerm(match[0]);
+        if (term) {
+            tokens.push({ term, start: match.index, end: match.index + match[0].length });
+        }
+    }
+    return tokens;
+};
+
+const toTerms = (text: string) => tokenizeSearchText(text).map((token) => token.term);
+
+/**
+ * Splits a query into bare terms and `"quoted phrases"`; an unmatched quote is ignored.
+ */
+export const parseArchiveSearchQuery = (text: string | undefined): ParsedArchiveSearchQuery => {
+    const input = text ?? '';
+    const phrases: string[][] = [];
+    const bare = input.replace(/"([^"]*)"/g, (_match, phrase: string) => {
+        const terms = toTerms(phrase);
+        if (terms.length > 1) {
+            phrases.push(terms);
+            return ' ';
+        }
+        return ` ${phrase} `;
+    });
+    const terms = new Set([...toTerms(bare), ...phrases.flat()]);
+    return { terms: [...terms], phrases };
+};
+
+/** `messageCount` and `models` are derived here, so callers building a new record may omit them. */
+export const buildArchiveSearchDocument = (
+    entry: Omit<ConversationArchiveEntry, 'messageCount' | 'models'>,
+): ArchiveSearchDocument => {
+    const chain = extractActiveMessageChain(entry.conversation);
+    const models = new Set<string>();
+    for (const message of chain) {
+        const model = extractModelFromMessage(message);
+        if (model) {
+            models.add(model);
+        }
+    }
+    const fallbackModel = extractConversationModel(entry.conversation);
+    if (models.size === 0 && fallbackModel) {
+        models.add(fallbackModel);
+    }
+    const messages = buildTranscriptEntries(entry.conversation, { includeThoughts: false }).map((message) => ({
+        id: message.id,
+        role: message.role,
+        text: message.text,
+    }));
+    return {
+        id: entry.id,
+        platform: entry.platform,
+        conversationId: entry.conversationId,
+        title: entry.title,
+        createTime: entry.createTime,
+        updateTime: entry.updateTime,
+        archivedAt: entry.archivedAt,
+        messageCount: messages.length,
+        models: [...models],
+        exportMeta: entry.exportMeta,
+        messages,
+    };
+};
+
+export const toArchiveSearchSummary = ({ messages: _messages, ...summary }: ArchiveSearchDocument) =>
+    summary as ConversationArchiveSummary;
+
+const collectWeightedTerms = (document: ArchiveSearchDocument) => {
+    const weights = new Map<string, number>();
+    const add = (text: string, weight: number) => {
+        for (const term of toTerms(text)) {
+            weights.set(term, (weights.get(term) ?? 0) + weight);
+        }
+    };
+    add(document.title, TITLE_WEIGHT);
+    for (const model of document.models) {
+        add(model, MODEL_WEIGHT);
+    }
+    for (const message of document.messages) {
+        add(message.text, MESSAGE_WEIGHT);
+    }
+    return weights;
+};
+
+const CJK_TERM = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]$/u;
+const NON_CJK_WORD_CHAR = /^(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])[\p{L}\p{N}]$/u;
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+type PhraseMatcher = {
+    pattern: RegExp;
+    /** Non-CJK edge terms must not continue into a neighbouring word. */
+    checkStart: boolean;
+    checkEnd: boolean;
+};
+
+/**
+ * Matches the phrase's terms in order, separated only by non-word characters,
+ * against normalized text. CJK terms may touch their neighbours, as they are
+ * tokenized per character. Word boundaries are checked per match rather than
+ * with lookbehind, which is far slower on long messages.
+ */
+const buildPhraseMatcher = (phrase: string[]): PhraseMatcher => {
+    const isCjk = phrase.map((term) => CJK_TERM.test(term));
+    const source = phrase
+        .map((term, index) => {
+            if (index === 0) {
+                return escapeRegExp(term);
+            }
+            const separator = isCjk[index] || isCjk[index - 1] ? '*' : '+';
+            return `[^\\p{L}\\p{N}]${separator}${escapeRegExp(term)}`;
+        })
+        .join('');
+    return { pattern: new RegExp(source, 'gu'), checkStart: !isCjk[0], checkEnd: !isCjk.at(-1) };
+};
+
+const isWordBoundary = (char: string | undefined) => !char || !NON_CJK_WORD_CHAR.test(char);
+
+const containsPhrase = (text: string, { pattern, checkStart, checkEnd }: PhraseMatcher) => {
+    pattern.lastIndex = 0;
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+        const end = match.index + match[0].length;
+        if ((!checkStart || isWordBoundary(text[match.index - 1])) && (!checkEnd || isWordBoundary(text[end]))) {
+            return true;
+        }
+        pattern.lastIndex = match.index + 1;
+    }
+    return false;
+};
+
+const NON_ASCII = /[^\u0020-\u007e\s]/;
+
+// NFD dominates phrase checks on long messages; plain ASCII only needs lower-casing.
+const normalizeFieldText = (text: string) => (NON_ASCII.test(text) ? normalizeTerm(text) : text.toLowerCase());
+
+const documentFieldTexts = (document: ArchiveSearchDocument) => [
+    document.title,
+    ...document.models,
+    ...document.messages.map((message) => message.text),
+];
+
+const matchesPhrases = (document: ArchiveSearchDocument, matchers: PhraseMatcher[]) => {
+    if (matchers.length === 0) {
+        return true;
+    }
+    const fields = documentFieldTexts(document).map(normalizeFieldText);
+    return matchers.every((matcher) => fields.some((text) => containsPhrase(text, matcher)));
+};
+
+const isWithin = (seconds: number | null, fromMs: number | undefined, toMs: number | undefined) => {
+    if (fromMs === undefined && toMs === undefined) {
+        return true;
+    }
+    if (seconds === null) {
+        return false;
+    }
+    const ms = seconds * 1000;
+    return (fromMs === undefined || ms >= fromMs) && (toMs === undefined || ms <= toMs);
+};
+
+const matchesFilters = (document: ArchiveSearchDocument, query: ConversationArchiveQuery) => {
+    if (query.platform && document.platform !== query.platform) {
+        return false;
+    }
+    const model = query.model?.trim().toLowerCase();
+    if (model && !document.models.some((candidate) => candidate.toLowerCase() === model)) {
+        return false;
+    }
+    return (
+        isWithin(document.createTime, query.createdFrom, query.createdTo) &&
+        isWithin(document.updateTime, query.updatedFrom, query.updatedTo)
+    );
+};
+
+const recencyOf = (document: ArchiveSearchDocument) =>
+    document.updateTime !== null ? document.updateTime * 1000 : document.archivedAt;
+
+const trimToTokenBoundaries = (text: string, tokens: ArchiveSearchToken[], anchor: ArchiveSearchToken) => {
+    let start = Math.max(0, anchor.start - SNIPPET_CONTEXT_CHARS);
+    start = tokens.find((token) => token.end > start)?.start ?? anchor.start;
+    start = Math.min(start, anchor.start);
+    let end = Math.min(text.length, start + SNIPPET_MAX_CHARS);
+    if (end < text.length) {
+        end = tokens.filter((token) => token.end <= end).at(-1)?.end ?? end;
+        end = Math.max(end, anchor.end);
+    }
+    return { start, end };
+};
+
+const buildFieldSnippet = (
+    text: string,
+    termSet: Set<string>,
+): Pick<ConversationArchiveSnippet, 'text' | 'highlights'> | null => {
+    const tokens = tokenizeSearchText(text);
+    const anchor = tokens.find((token) => termSet.has(token.term));
+    if (!anchor) {
+        return null;
+    }
+    const { start, end } = trimToTokenBoundaries(text, tokens, anchor);
+    const prefix = start > 0 ? '…' : '';
+    const shift = prefix.length - start;
+    const highlights = tokens
+        .filter((token) => token.start >= start && token.end <= end && termSet.has(token.term))
+        .map((token): [number, number] => [token.start + shift, token.end + shift]);
+    return {
+        text: `${prefix}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`,
+        highlights,
+    };
+};
+
+/**
+ * Excerpt of the first message containing a query term (falling back to the
+ * title), with the matched terms' offsets for highlighting.
+ */
+export const buildArchiveSearchSnippet = (
+    document: ArchiveSearchDocument,
+    terms: string[],
+): ConversationArchiveSnippet | null => {
+    if (terms.length === 0) {
+        return null;
+    }
+    const termSet = new Set(terms);
+    for (const message of document.messages) {
+        const snippet = buildFieldSnippet(message.text, termSet);
+        if (snippet) {
+            return { field: 'message', messageId: message.id, role: message.role, ...snippet };
+        }
+    }
+    const titleSnippet = buildFieldSnippet(document.title, termSet);
+    return titleSnippet ? { field: 'title', messageId: null, role: null, ...titleSnippet } : null;
+};
+
+const countBy = (values: string[]) => {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    return [...counts.entries()].sort(([left], [right]) => left.localeCompare(right));
+};
+
+const toWholeNumber = (value: number | undefined, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+
+export const createArchiveSearchIndex = (): ArchiveSearchIndex => {
+    const documents = new Map<string, { document: ArchiveSearchDocument; terms: string[] }>();
+    const postings = new Map<string, Map<string, number>>();
+
+    const remove = (id: string) => {
+        const indexed = documents.get(id);
+        if (!indexed) {
+            return;
+        }
+        for (const term of indexed.terms) {
+            const posting = postings.get(term);
+            posting?.delete(id);
+            if (posting?.size === 0) {
+                postings.delete(term);
+            }
+        }
+        documents.delete(id);
+    };
+
+    const upsert = (document: ArchiveSearchDocument) => {
+        remove(document.id);
+        const weights = collectWeightedTerms(document);
+        for (const [term, weight] of weights) {
+            let posting = postings.get(term);
+            if (!posting) {
+                posting = new Map();
+                postings.set(term, posting);
+            }
+            posting.set(document.id, weight);
+        }
+        documents.set(document.id, { document, terms: [...weights.keys()] });
+    };
+
+    /** IDs containing every term, or every document when there are no terms. */
+    const findCandidates = (terms: string[]): string[] => {
+        if (terms.length === 0) {
+            return [...documents.keys()];
+        }
+        const lists = terms.map((term) => postings.get(term));
+        if (lists.some((posting) => !posting)) {
+            return [];
+        }
+        const [rarest, ...rest] = (lists as Map<string, number>[]).sort((left, right) => left.size - right.size);
+        return [...(rarest?.keys() ?? [])].filter((id) => rest.every((posting) => posting.has(id)));
+    };
+
+    const scoreOf = (id: string, terms: string[]) => {
+        let score = 0;
+        for (const term of terms) {
+            const posting = postings.get(term);
+            const weight = posting?.get(id) ?? 0;
+            score += weight * Math.log(1 + documents.size / (posting?.size ?? 1));
+        }
+        return score;
+    };
+
+    const search = (query: ConversationArchiveQuery = {}): ArchiveSearchIndexResult => {
+        const parsed = parseArchiveSearchQuery(query.text);
+        const phraseMatchers = parsed.phrases.map(buildPhraseMatcher);
+        const hits = findCandidates(parsed.terms)
+            .map((id) => documents.get(id)?.document)
+            .filter((document): document is ArchiveSearchDocument => !!document)
+            .filter((document) => matchesFilters(document, query) && matchesPhrases(document, phraseMatchers))
+            .map((document) => ({ document, score: scoreOf(document.id, parsed.terms) }))
+            .sort((left, right) => right.score - left.score || recencyOf(right.document) - recencyOf(left.document));
+        const offset = toWholeNumber(query.offset, 0);
+        const limit = toWholeNumber(query.limit, DEFAULT_ARCHIVE_SEARCH_LIMIT);
+        const all = [...documents.values()].map((indexed) => indexed.document);
+        return {
+            total: hits.length,
+            hits: hits.slice(offset, offset + limit).map((hit) => ({
+                ...hit,
+                snippet: buildArchiveSearchSnippet(hit.document, parsed.terms),
+            })),
+            platforms: countBy(all.map((document) => document.platform)).map(([platform, count]) => ({
+                platform,
+                count,
+            })),
+            models: countBy(all.flatMap((document) => document.models)).map(([model, count]) => ({ model, count })),
+        };
+    };
+
+    return {
+        get size() {
+            return documents.size;
+        },
+        upsert,
+        remove,
+        clear: () => {
+            documents.clear();
+            postings.clear();
+        },
+        search,
+    };
+};
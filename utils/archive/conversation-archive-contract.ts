@@ -0,0 +1,193 @@
+/**
+ * Conversation Archive Contract
+ *
+ * Messages between the content script / archive page and the background
+ * worker, which owns the IndexedDB archive.
+ *
+ * @module utils/archive/conversation-archive-contract
+ */
+
+import { isConversationDataLike } from '@/utils/runner/calibration-capture';
+import type { ExportMeta } from '@/utils/sfe/types';
+import type { ConversationData } from '@/utils/types';
+
+export const ARCHIVE_PUT_MESSAGE = 'BLACKIYA_ARCHIVE_PUT';
+export const ARCHIVE_REQUEST_MESSAGE = 'BLACKIYA_ARCHIVE_REQUEST';
+
+export const ARCHIVE_REQUEST_ACTIONS = ['search', 'get', 'delete', 'clear'] as const;
+export type ConversationArchiveRequestAction = (typeof ARCHIVE_REQUEST_ACTIONS)[number];
+
+/** Sent by the content script once a conversation is canonical-ready. */
+export type ConversationArchivePutMessage = {
+    type: typeof ARCHIVE_PUT_MESSAGE;
+    /** Adapter display name (e.g. `ChatGPT`). */
+    platform: string;
+    conversation: ConversationData;
+    exportMeta: ExportMeta;
+    /** Adapter filename (without extension) used when the conversation is re-exported. */
+    filename: string;
+};
+
+export type ConversationArchiveQuery = {
+    platform?: string;
+    /**
+     * Terms and `"quoted phrases"`; every one must appear in the title, a model
+     * name or the message text. Matching ignores case and diacritics.
+     */
+    text?: string;
+    /** Case-insensitive model name; matches conversations that used it on any turn. */
+    model?: string;
+    /** Inclusive epoch-millisecond bounds on the source create / update time. */
+    createdFrom?: number;
+    createdTo?: number;
+    updatedFrom?: number;
+    updatedTo?: number;
+    offset?: number;
+    limit?: number;
+};
+
+export type ConversationArchiveRequest =
+    | { type: typeof ARCHIVE_REQUEST_MESSAGE; action: 'search'; query?: ConversationArchiveQuery }
+    | { type: typeof ARCHIVE_REQUEST_MESSAGE; action: 'get'; id: string }
+    | { type: typeof ARCHIVE_REQUEST_MESSAGE; action: 'delete'; id: string }
+    | { type: typeof ARCHIVE_REQUEST_MESSAGE; action: 'clear' };
+
+/** Listing row; the stored conversation itself is only returned by `get`. */
+export type ConversationArchiveSummary = {
+    /** `<platform>:<conversationId>`. */
+    id: string;
+    platform: string;
+    conversationId: string;
+    title: string;
+    /** Source timestamps in seconds since the epoch. */
+    createTime: number | null;
+    updateTime: number | null;
+    /** Epoch milliseconds of the last write. */
+    archivedAt: number;
+    messageCount: number;
+    /** Models that produced active-branch messages. */
+    models: string[];
+    exportMeta: ExportMeta;
+};
+
+export type ConversationArchiveEntry = ConversationArchiveSummary & {
+    filename: string;
+    conversation: ConversationData;
+};
+
+export type ConversationArchivePlatformCount = {
+    platform: string;
+    count: number;
+};
+
+export type ConversationArchiveModelCount = {
+    model: string;
+    count: number;
+};
+
+export type ConversationArchiveSnippet = {
+    /** Where the excerpt comes from; message snippets carry the message ID and role. */
+    field: 'title' | 'message';
+    messageId: string | null;
+    role: string | null;
+    /** Excerpt with `…` marking trimmed ends. */
+    text: string;
+    /** `[start, end)` offsets into `text` of each matched term. */
+    highlights: Array<[number, number]>;
+};
+
+export type ConversationArchiveSearchHit = ConversationArchiveSummary & {
+    /** Relevance; `0` for queries without terms, which rank by recency only. */
+    score: number;
+    snippet: ConversationArchiveSnippet | null;
+};
+
+export type ConversationArchiveSearchResult = {
+    /** Matches before `offset` / `limit` are applied. */
+    total: number;
+    results: ConversationArchiveSearchHit[];
+    /** Every archived platform with its conversation count, regardless of the query. */
+    platforms: ConversationArchivePlatformCount[];
+    /** Every archived model with its conversation count, regardless of the query. */
+    models: ConversationArchiveModelCount[];
+};
+
+export type ConversationArchiveErrorResponse = { ok: false; error: string };
+
+export type ConversationArchivePutResponse = { ok: true; stored: boolean } | ConversationArchiveErrorResponse;
+
+export type ConversationArchiveSearchResponse =
+    | ({ ok: true } & ConversationArchiveSearchResult)
+    | ConversationArchiveErrorResponse;
+
+export type ConversationArchiveGetResponse =
+    | { ok: true; entry: ConversationArchiveEntry | null }
+    | ConversationArchiveErrorResponse;
+
+export type ConversationArchiveMutationResponse = { ok: true } | ConversationArchiveErrorResponse;
+
+const isExportMeta = (value: unknown): value is ExportMeta => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const typed = value as Partial<ExportMeta>;
+    return (
+        typeof typed.captureSource === 'string' &&
+        typeof typed.fidelity === 'string' &&
+        typeof typed.completeness === 'string'
+    );
+};
+
+export const isConversationArchivePutMessage = (value: unknown): value is ConversationArchivePutMessage => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const typed = value as Partial<ConversationArchivePutMessage>;
+    return (
+        typed.type === ARCHIVE_PUT_MESSAGE &&
+        typeof typed.platform === 'string' &&
+        typed.platform.length > 0 &&
+        typeof typed.filename === 'string' &&
+        isConversationDataLike(typed.conversation) &&
+        isExportMeta(typed.exportMeta)
+    );
+};
+
+const isArchiveQuery = (value: unknown): value is ConversationArchiveQuery => {
+    if (value === undefined) {
+        return true;
+    }
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const typed = value as Record<string, unknown>;
+    const isOptional = (key: string, type: 'string' | 'number') =>
+        typed[key] === undefined || typeof typed[key] === type;
+    return (
+        ['platform', 'text', 'model'].every((key) => isOptional(key, 'string')) &&
+        ['createdFrom', 'createdTo', 'updatedFrom', 'updatedTo', 'offset', 'limit'].every((key) =>
+            isOptional(key, 'number'),
+        )
+    );
+};
+
+export const isConversationArchiveRequest = (value: unknown): value is ConversationArchiveRequest => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const typed = value as Record<string, unknown>;
+    if (typed.type !== ARCHIVE_REQUEST_MESSAGE) {
+        return false;
+    }
+    switch (typed.action) {
+        case 'search':
+            return isArchiveQuery(typed.query);
+        case 'get':
+        case 'delete':
+            return typeof typed.id === 'string' && typed.id.length > 0;
+        case 'clear':
+            return true;
+        default:
+            return false;
+    }
+};
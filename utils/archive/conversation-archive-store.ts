@@ -0,0 +1,133 @@
+/**
+ * Conversation Archive Store
+ *
+ * IndexedDB persistence for the local conversation archive. Only the
+ * background worker opens the database; other contexts go through the
+ * archive messages in `conversation-archive-contract.ts`.
+ *
+ * @module utils/archive/conversation-archive-store
+ */
+
+import { type ArchiveSearchDocument, buildArchiveSearchDocument } from '@/utils/archive/archive-search-index';
+import type { ConversationArchiveEntry } from '@/utils/archive/conversation-archive-contract';
+
+export const ARCHIVE_DB_NAME = 'blackiya-archive';
+const ARCHIVE_DB_VERSION = 2;
+const CONVERSATIONS_STORE = 'conversations';
+/** Search documents, kept apart so the index rebuilds without reading full conversation payloads. */
+const SEARCH_DOCUMENTS_STORE = 'search-documents';
+const ALL_STORES = [CONVERSATIONS_STORE, SEARCH_DOCUMENTS_STORE];
+
+export type ConversationArchiveRecord = ConversationArchiveEntry & {
+    contentHash: string;
+};
+
+export type ConversationArchiveStore = {
+    get: (id: string) => Promise<ConversationArchiveRecord | null>;
+    getAllSearchDocuments: () => Promise<ArchiveSearchDocument[]>;
+    /** Writes the record and its search document in one transaction. */
+    put: (record: ConversationArchiveRecord, document: ArchiveSearchDocument) => Promise<void>;
+    delete: (id: string) => Promise<void>;
+    clear: () => Promise<void>;
+};
+
+const toPromise = <T>(request: IDBRequest<T>) =>
+    new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+    });
+
+const toCompletion = (transaction: IDBTransaction) =>
+    new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+        transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+
+/** Version 1 kept a `searchText` column on each record; move it into search documents. */
+const backfillSearchDocuments = (transaction: IDBTransaction) => {
+    const documents = transaction.objectStore(SEARCH_DOCUMENTS_STORE);
+    const cursorRequest = transaction.objectStore(CONVERSATIONS_STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+            return;
+        }
+        const { searchText: _searchText, ...record } = cursor.value as ConversationArchiveRecord & {
+            searchText?: string;
+        };
+        const document = buildArchiveSearchDocument(record);
+        cursor.update({ ...record, models: document.models });
+        documents.put(document);
+        cursor.continue();
+    };
+};
+
+const openArchiveDatabase = (factory: IDBFactory) =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+        const request = factory.open(ARCHIVE_DB_NAME, ARCHIVE_DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+                const store = db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+                store.createIndex('platform', 'platform');
+            }
+            if (!db.objectStoreNames.contains(SEARCH_DOCUMENTS_STORE)) {
+                db.createObjectStore(SEARCH_DOCUMENTS_STORE, { keyPath: 'id' });
+                if (event.oldVersion > 0 && request.transaction) {
+                    backfillSearchDocuments(request.transaction);
+                }
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('Failed to open the conversation archive'));
+    });
+
+/**
+ * Opens the database lazily on first use, so a worker that never touches the
+ * archive never creates it.
+ */
+export const createIndexedDbArchiveStore = (factory: () => IDBFactory = () => indexedDB): ConversationArchiveStore => {
+    let database: Promise<IDBDatabase> | null = null;
+    const getDatabase = () => {
+        if (!database) {
+            database = openArchiveDatabase(factory()).catch((error) => {
+                database = null;
+                throw error;
+            });
+        }
+        return database;
+    };
+
+    const read = async <T>(storeName: string, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+        const db = await getDatabase();
+        return toPromise(run(db.transaction(storeName, 'readonly').objectStore(storeName)));
+    };
+
+    const writeAll = async (run: (conversations: IDBObjectStore, documents: IDBObjectStore) => void) => {
+        const db = await getDatabase();
+        const transaction = db.transaction(ALL_STORES, 'readwrite');
+        run(transaction.objectStore(CONVERSATIONS_STORE), transaction.objectStore(SEARCH_DOCUMENTS_STORE));
+        await toCompletion(transaction);
+    };
+
+    return {
+        get: async (id) => (await read(CONVERSATIONS_STORE, (store) => store.get(id))) ?? null,
+        getAllSearchDocuments: () => read(SEARCH_DOCUMENTS_STORE, (store) => store.getAll()),
+        put: (record, document) =>
+            writeAll((conversations, documents) => {
+                conversations.put(record);
+                documents.put(document);
+            }),
+        delete: (id) =>
+            writeAll((conversations, documents) => {
+                conversations.delete(id);
+                documents.delete(id);
+            }),
+        clear: () =>
+            writeAll((conversations, documents) => {
+                conversations.clear();
+                documents.clear();
+            }),
+    };
+};
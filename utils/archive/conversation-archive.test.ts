@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'bun:test';
+import type { ArchiveSearchDocument } from '@/utils/archive/archive-search-index';
+import { buildConversationArchiveId, createConversationArchive } from '@/utils/archive/conversation-archive';
+import type { ConversationArchiveRecord, ConversationArchiveStore } from '@/utils/archive/conversation-archive-store';
+import { buildSimpleConversation } from '@/utils/export/__tests__/fixtures';
+import type { ExportMeta } from '@/utils/sfe/types';
+
+const EXPORT_META: ExportMeta = { captureSource: 'canonical_api', fidelity: 'high', completeness: 'complete' };
+
+const createMemoryArchiveStore = () => {
+    const records = new Map<string, ConversationArchiveRecord>();
+    const documents = new Map<string, ArchiveSearchDocument>();
+    const store: ConversationArchiveStore = {
+        get: async (id) => structuredClone(records.get(id) ?? null),
+        getAllSearchDocuments: async () => [...documents.values()].map((document) => structuredClone(document)),
+        put: async (record, document) => {
+            records.set(record.id, structuredClone(record));
+            documents.set(document.id, structuredClone(document));
+        },
+        delete: async (id) => {
+            records.delete(id);
+            documents.delete(id);
+        },
+        clear: async () => {
+            records.clear();
+            documents.clear();
+        },
+    };
+    return { records, documents, store };
+};
+
+describe('conversation-archive', () => {
+    it('should store a conversation once and overwrite it only when its content changes', async () => {
+        const { records, store } = createMemoryArchiveStore();
+        let now = 1_000;
+        const archive = createConversationArchive({ store, nowImpl: () => now });
+        const conversation = buildSimpleConversation();
+
+        expect(
+            await archive.put({ platform: 'ChatGPT', conversation, exportMeta: EXPORT_META, filename: 'export' }),
+        ).toEqual({ stored: true });
+        now = 2_000;
+        expect(
+            await archive.put({ platform: 'ChatGPT', conversation, exportMeta: EXPORT_META, filename: 'export' }),
+        ).toEqual({ stored: false });
+
+        const id = buildConversationArchiveId('ChatGPT', 'conv-export');
+        expect(records.get(id)).toMatchObject({ title: 'Export Test', messageCount: 2, archivedAt: 1_000 });
+
+        await archive.put({
+            platform: 'ChatGPT',
+            conversation: buildSimpleConversation({ title: 'Renamed' }),
+            exportMeta: EXPORT_META,
+            filename: 'renamed',
+        });
+        const entry = await archive.get(id);
+        expect(entry).toMatchObject({ title: 'Renamed', filename: 'renamed', archivedAt: 2_000 });
+        expect(entry).not.toHaveProperty('contentHash');
+        expect(entry?.conversation.title).toBe('Renamed');
+    });
+
+    it('should search by platform and by every term across titles and message text', async () => {
+        const { store } = createMemoryArchiveStore();
+        const archive = createConversationArchive({ store, nowImpl: () => 1 });
+        await archive.put({
+            platform: 'ChatGPT',
+            conversation: buildSimpleConversation({ conversation_id: 'older', title: 'Star Wars', update_time: 10 }),
+            exportMeta: EXPORT_META,
+            filename: 'older',
+        });
+        await archive.put({
+            platform: 'ChatGPT',
+            conversation: buildSimpleConversation({ conversation_id: 'newer', title: 'Recipes', update_time: 20 }),
+            exportMeta: EXPORT_META,
+            filename: 'newer',
+        });
+        await archive.put({
+            platform: 'Gemini',
+            conversation: buildSimpleConversation({ conversation_id: 'gem', title: 'Star charts', update_time: 30 }),
+            exportMeta: EXPORT_META,
+            filename: 'gem',
+        });
+
+        const all = await archive.search();
+        expect(all.total).toBe(3);
+        expect(all.results.map((result) => result.conversationId)).toEqual(['gem', 'newer', 'older']);
+        expect(all.platforms).toEqual([
+            { platform: 'ChatGPT', count: 2 },
+            { platform: 'Gemini', count: 1 },
+        ]);
+
+        const byTitle = await archive.search({ text: 'STAR' });
+        expect(byTitle.results.map((result) => result.conversationId)).toEqual(['gem', 'older']);
+
+        const byMessage = await archive.search({ platform: 'ChatGPT', text: 'kenobi hello' });
+        expect(byMessage.total).toBe(2);
+        expect((await archive.search({ text: 'kenobi missing' })).total).toBe(0);
+
+        const paged = await archive.search({ offset: 1, limit: 1 });
+        expect(paged.total).toBe(3);
+        expect(paged.results.map((result) => result.conversationId)).toEqual(['newer']);
+    });
+
+    it('should delete single conversations and clear the archive', async () => {
+        const { records, store } = createMemoryArchiveStore();
+        const archive = createConversationArchive({ store });
+        await archive.put({
+            platform: 'ChatGPT',
+            conversation: buildSimpleConversation({ conversation_id: 'a' }),
+            exportMeta: EXPORT_META,
+            filename: 'a',
+        });
+        await archive.put({
+            platform: 'ChatGPT',
+            conversation: buildSimpleConversation({ conversation_id: 'b' }),
+            exportMeta: EXPORT_META,
+            filename: 'b',
+        });
+
+        expect((await archive.search({ text: 'kenobi' })).total).toBe(2);
+
+        await archive.delete(buildConversationArchiveId('ChatGPT', 'a'));
+        expect([...records.keys()]).toEqual(['ChatGPT:b']);
+        expect(await archive.get('ChatGPT:a')).toBeNull();
+        expect((await archive.search({ text: 'kenobi' })).results.map((result) => result.id)).toEqual(['ChatGPT:b']);
+
+        await archive.clear();
+        expect(records.size).toBe(0);
+        expect((await archive.search()).total).toBe(0);
+    });
+});
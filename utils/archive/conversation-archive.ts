@@ -0,0 +1,129 @@
+/**
+ * Conversation Archive
+ *
+ * Background-owned library of canonical-ready conversations. Each
+ * conversation is stored once per platform and overwritten when its content
+ * changes. Search runs against an in-memory inverted index that is built from
+ * the stored search documents on first use and kept current on every write.
+ *
+ * @module utils/archive/conversation-archive
+ */
+
+import {
+    type ArchiveSearchIndex,
+    buildArchiveSearchDocument,
+    createArchiveSearchIndex,
+    toArchiveSearchSummary,
+} from '@/utils/archive/archive-search-index';
+import type {
+    ConversationArchiveEntry,
+    ConversationArchivePutMessage,
+    ConversationArchiveQuery,
+    ConversationArchiveSearchResult,
+} from '@/utils/archive/conversation-archive-contract';
+import type { ConversationArchiveRecord, ConversationArchiveStore } from '@/utils/archive/conversation-archive-store';
+import { computeConversationContentHash } from '@/utils/runner/bulk-export-ledger';
+
+export type ConversationArchive = {
+    /** Resolves `stored: false` when the archived copy already has the same content. */
+    put: (input: Omit<ConversationArchivePutMessage, 'type'>) => Promise<{ stored: boolean }>;
+    search: (query?: ConversationArchiveQuery) => Promise<ConversationArchiveSearchResult>;
+    get: (id: string) => Promise<ConversationArchiveEntry | null>;
+    delete: (id: string) => Promise<void>;
+    clear: () => Promise<void>;
+};
+
+type ConversationArchiveOptions = {
+    store: ConversationArchiveStore;
+    nowImpl?: () => number;
+};
+
+export const buildConversationArchiveId = (platform: string, conversationId: string) => `${platform}:${conversationId}`;
+
+const toEntry = ({ contentHash: _contentHash, ...entry }: ConversationArchiveRecord): ConversationArchiveEntry => entry;
+
+export const createConversationArchive = ({
+    store,
+    nowImpl = Date.now,
+}: ConversationArchiveOptions): ConversationArchive => {
+    let indexPromise: Promise<ArchiveSearchIndex> | null = null;
+
+    const getIndex = () => {
+        if (!indexPromise) {
+            indexPromise = store
+                .getAllSearchDocuments()
+                .then((documents) => {
+                    const index = createArchiveSearchIndex();
+                    for (const document of documents) {
+                        index.upsert(document);
+                    }
+                    return index;
+                })
+                .catch((error) => {
+                    indexPromise = null;
+                    throw error;
+                });
+        }
+        return indexPromise;
+    };
+
+    /** Writes before the first search need no index update; the build reads them from the store. */
+    const updateLoadedIndex = async (update: (index: ArchiveSearchIndex) => void) => {
+        if (indexPromise) {
+            update(await getIndex());
+        }
+    };
+
+    return {
+        put: async ({ platform, conversation, exportMeta, filename }) => {
+            const id = buildConversationArchiveId(platform, conversation.conversation_id);
+            const contentHash = computeConversationContentHash(conversation);
+            const existing = await store.get(id);
+            if (existing?.contentHash === contentHash) {
+                return { stored: false };
+            }
+            const fields = {
+                id,
+                platform,
+                conversationId: conversation.conversation_id,
+                title: conversation.title?.trim() || 'Untitled',
+                createTime: conversation.create_time ?? null,
+                updateTime: conversation.update_time ?? null,
+                archivedAt: nowImpl(),
+                exportMeta,
+                filename,
+                conversation,
+            };
+            const document = buildArchiveSearchDocument(fields);
+            await store.put(
+                { ...fields, messageCount: document.messageCount, models: document.models, contentHash },
+                document,
+            );
+            await updateLoadedIndex((index) => index.upsert(document));
+            return { stored: true };
+        },
+        search: async (query = {}) => {
+            const { hits, ...result } = (await getIndex()).search(query);
+            return {
+                ...result,
+                results: hits.map((hit) => ({
+                    ...toArchiveSearchSummary(hit.document),
+                    score: hit.score,
+                    snippet: hit.snippet,
+                })),
+            };
+        },
+        get: async (id) => {
+            const record = await store.get(id);
+            return record ? toEntry(record) : null;
+        },
+        delete: async (id) => {
+            await store.delete(id);
+            await updateLoadedIndex((index) => index.remove(id));
+        },
+        clear: async () => {
+            await store.clear();
+            await updateLoadedIndex((index) => index.clear());
+        },
+    };
+};
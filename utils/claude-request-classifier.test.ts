@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'bun:test';
+
+import {
+    isClaudeCompletionEndpoint,
+    shouldEmitClaudeCompletion,
+    shouldEmitClaudeLifecycle,
+} from '@/utils/claude-request-classifier';
+
+const BASE =
+    'https://claude.ai/api/organizations/9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d/chat_conversations/4f1c2a9e-7b3d-4e8a-9c61-2d5f8e0a1b37';
+
+describe('claude-request-classifier', () => {
+    it('should emit lifecycle for completion streams only', () => {
+        expect(isClaudeCompletionEndpoint(`${BASE}/completion`)).toBeTrue();
+        expect(shouldEmitClaudeLifecycle(`${BASE}/retry_completion`)).toBeTrue();
+        expect(shouldEmitClaudeLifecycle(`${BASE}?tree=True`)).toBeFalse();
+    });
+
+    it('should allow completion for detail and completion endpoints but not titles', () => {
+        expect(shouldEmitClaudeCompletion(`${BASE}?tree=True&rendering_mode=messages`)).toBeTrue();
+        expect(shouldEmitClaudeCompletion(`${BASE}/completion`)).toBeTrue();
+        expect(shouldEmitClaudeCompletion(`${BASE}/title`)).toBeFalse();
+    });
+});
@@ -0,0 +1,13 @@
+import { isClaudeCompletionEndpointUrl, isClaudeConversationEndpointUrl } from '@/platforms/claude/registry';
+
+export const isClaudeCompletionEndpoint = (url: string): boolean => {
+    return isClaudeCompletionEndpointUrl(url);
+};
+
+export const shouldEmitClaudeLifecycle = (url: string): boolean => {
+    return isClaudeCompletionEndpoint(url);
+};
+
+export const shouldEmitClaudeCompletion = (url: string): boolean => {
+    return isClaudeConversationEndpointUrl(url);
+};
@@ -1,5 +1,12 @@
 import { describe, expect, it } from 'bun:test';
-import { extractAllAssistantText, extractLatestTurnPromptAndResponse } from '@/utils/conversation-inspection';
+import {
+    enumerateConversationBranches,
+    extractActiveMessageChain,
+    extractAllAssistantText,
+    extractLatestTurnPromptAndResponse,
+    extractMessageSources,
+    extractMessageText,
+} from '@/utils/conversation-inspection';
 import type { ConversationData, Message, MessageNode } from '@/utils/types';
 
 const buildMessage = (
@@ -52,6 +59,24 @@ const buildConversation = (mapping: Record<string, MessageNode>, currentNode: st
 });
 
 describe('conversation inspection', () => {
+    it('should return only the active branch messages in root-to-leaf order', () => {
+        const user = buildMessage('user', 'user', 'Prompt', 1);
+        const discarded = buildMessage('assistant-old', 'assistant', 'Discarded answer', 2);
+        const active = buildMessage('assistant-new', 'assistant', 'Regenerated answer', 3);
+
+        const conversation = buildConversation(
+            {
+                root: buildNode('root', null, null, ['user']),
+                user: buildNode('user', user, 'root', ['assistant-old', 'assistant-new']),
+                'assistant-old': buildNode('assistant-old', discarded, 'user'),
+                'assistant-new': buildNode('assistant-new', active, 'user'),
+            },
+            'assistant-new',
+        );
+
+        expect(extractActiveMessageChain(conversation).map((message) => message.id)).toEqual(['user', 'assistant-new']);
+    });
+
     it('should use update_time recency when selecting the latest fallback node chain', () => {
         const userOld = buildMessage('user-old', 'user', 'Old prompt', 10, 10);
         const assistantOld = buildMessage('assistant-old', 'assistant', 'Old answer', 11, 11);
@@ -114,4 +139,70 @@ describe('conversation inspection', () => {
 
         expect(extractAllAssistantText(conversation)).toBe('First answer\n\nSecond answer');
     });
+
+    describe('enumerateConversationBranches', () => {
+        it('should list every root-to-leaf path and mark the one containing current_node as active', () => {
+            const conversation = buildConversation(
+                {
+                    root: buildNode('root', null, null, ['u1']),
+                    u1: buildNode('u1', buildMessage('u1', 'user', 'Prompt', 1), 'root', ['a1', 'a2']),
+                    a1: buildNode('a1', buildMessage('a1', 'assistant', 'First', 2), 'u1'),
+                    a2: buildNode('a2', buildMessage('a2', 'assistant', 'Second', 3), 'u1'),
+                },
+                'a2',
+            );
+
+            const branches = enumerateConversationBranches(conversation);
+
+            expect(branches.map((branch) => branch.nodeIds)).toEqual([
+                ['root', 'u1', 'a1'],
+                ['root', 'u1', 'a2'],
+            ]);
+            expect(branches.map((branch) => branch.isActive)).toEqual([false, true]);
+            expect(branches[1]?.messages.map((message) => message.id)).toEqual(['u1', 'a2']);
+        });
+
+        it('should return a single branch for linear conversations and tolerate cycles', () => {
+            const conversation = buildConversation(
+                {
+                    root: buildNode('root', null, null, ['u1']),
+                    u1: buildNode('u1', buildMessage('u1', 'user', 'Prompt', 1), 'root', ['root']),
+                },
+                'u1',
+            );
+
+            const branches = enumerateConversationBranches(conversation);
+
+            expect(branches).toHaveLength(1);
+            expect(branches[0]).toMatchObject({ index: 0, leafId: 'u1', isActive: true });
+        });
+    });
+
+    it('should read message text from parts or content only', () => {
+        const message = buildMessage('a1', 'assistant', ' Hello ', 1);
+        expect(extractMessageText(message)).toBe('Hello');
+
+        // Tool output fields stay out of readiness and titles; exporters read them through the transcript.
+        message.content = { content_type: 'execution_output', text: '42', result: '42' };
+        expect(extractMessageText(message)).toBe('');
+    });
+
+    it('should extract http(s) sources from message metadata and drop unlinkable entries', () => {
+        const message = buildMessage('a1', 'assistant', 'Answer [1]', 1);
+        message.metadata = {
+            sources: [
+                { title: ' Wikipedia ', url: 'https://en.wikipedia.org/wiki/Tea', snippet: 'Tea is a drink.' },
+                { url: 'http://example.com/page' },
+                { title: 'Script', url: 'javascript:alert(1)' },
+                { title: 'No URL' },
+                'https://not-an-object.example',
+            ],
+        };
+
+        expect(extractMessageSources(message)).toEqual([
+            { title: 'Wikipedia', url: 'https://en.wikipedia.org/wiki/Tea', snippet: 'Tea is a drink.' },
+            { title: 'http://example.com/page', url: 'http://example.com/page', snippet: '' },
+        ]);
+        expect(extractMessageSources(buildMessage('a2', 'assistant', 'No sources', 2))).toEqual([]);
+    });
 });
@@ -1,4 +1,11 @@
-import type { ConversationData, Message, MessageNode } from '@/utils/types';
+import type {
+    ConversationData,
+    Message,
+    MessageAttachment,
+    MessageCanvasDocument,
+    MessageNode,
+    MessageSource,
+} from '@/utils/types';
 
 const MODEL_PLACEHOLDERS = new Set(['auto', 'unknown', 'snapshot']);
 
@@ -90,6 +97,70 @@ const buildMessageChain = (mapping: Record<string, MessageNode>, startId: string
     return chain;
 };
 
+/**
+ * Returns the messages on the active branch (root → `current_node`) in
+ * conversation order. Falls back to the newest assistant/leaf node when
+ * `current_node` is missing or points at an empty node.
+ */
+export const extractActiveMessageChain = (conversation: ConversationData): Message[] => {
+    const currentNodeId = findCurrentNodeId(conversation);
+    return currentNodeId ? buildMessageChain(conversation.mapping, currentNodeId) : [];
+};
+
+export type ConversationBranch = {
+    /** 0-based position in depth-first, children-order enumeration. */
+    index: number;
+    leafId: string;
+    /** Node ids from root to leaf, including message-less scaffolding nodes. */
+    nodeIds: string[];
+    messages: Message[];
+    isActive: boolean;
+};
+
+const collectRootToLeafPaths = (mapping: Record<string, MessageNode>): string[][] => {
+    const roots = Object.values(mapping).filter((node) => !node.parent || !mapping[node.parent]);
+    const paths: string[][] = [];
+    const stack: string[][] = roots.map((root) => [root.id]).reverse();
+    while (stack.length > 0) {
+        const path = stack.pop() as string[];
+        const nodeId = path[path.length - 1] as string;
+        const children = (mapping[nodeId]?.children ?? []).filter(
+            (childId) => !!mapping[childId] && !path.includes(childId),
+        );
+        if (children.length === 0) {
+            paths.push(path);
+            continue;
+        }
+        for (let i = children.length - 1; i >= 0; i -= 1) {
+            stack.push([...path, children[i] as string]);
+        }
+    }
+    return paths;
+};
+
+/**
+ * Enumerates every root-to-leaf path of the message tree (one per regeneration
+ * or edit) and marks the path that contains `current_node` as active.
+ */
+export const enumerateConversationBranches = (conversation: ConversationData): ConversationBranch[] => {
+    const mapping = conversation.mapping;
+    const currentNodeId = findCurrentNodeId(conversation);
+    const paths = collectRootToLeafPaths(mapping);
+    const activeIndex = currentNodeId
+        ? Math.max(
+              paths.findIndex((path) => path[path.length - 1] === currentNodeId),
+              paths.findIndex((path) => path.includes(currentNodeId)),
+          )
+        : -1;
+    return paths.map((nodeIds, index) => ({
+        index,
+        leafId: nodeIds[nodeIds.length - 1] as string,
+        nodeIds,
+        messages: nodeIds.map((nodeId) => mapping[nodeId]?.message).filter((message): message is Message => !!message),
+        isActive: index === activeIndex,
+    }));
+};
+
 const normalizeModel = (value: unknown): string | undefined => {
     const trimmed = trimString(value);
     if (!trimmed || MODEL_PLACEHOLDERS.has(trimmed.toLowerCase())) {
@@ -98,7 +169,7 @@ const normalizeModel = (value: unknown): string | undefined => {
     return trimmed;
 };
 
-const extractModelFromMessage = (message: Message): string | undefined =>
+export const extractModelFromMessage = (message: Message): string | undefined =>
     normalizeModel(message.metadata?.resolved_model_slug) ||
     normalizeModel(message.metadata?.model_slug) ||
     normalizeModel(message.metadata?.default_model_slug) ||
@@ -144,6 +215,118 @@ export const extractReasoningFragments = (message: Message): string[] => [
     ...extractMetadataReasoning(message),
 ];
 
+const isWebUrl = (value: string) => {
+    try {
+        const { protocol } = new URL(value);
+        return protocol === 'https:' || protocol === 'http:';
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Returns the cited web sources stored in `metadata.sources`. Entries without
+ * an http(s) URL are dropped so exporters can link every source safely.
+ */
+export const extractMessageSources = (message: Message): MessageSource[] => {
+    const sources = message.metadata?.sources;
+    if (!Array.isArray(sources)) {
+        return [];
+    }
+    const result: MessageSource[] = [];
+    for (const source of sources) {
+        const record = source && typeof source === 'object' ? (source as Record<string, unknown>) : null;
+        const url = trimString(record?.url);
+        if (!url || !isWebUrl(url)) {
+            continue;
+        }
+        const markers = Array.isArray(record?.markers)
+            ? record.markers.filter((marker): marker is string => typeof marker === 'string' && marker.length > 0)
+            : [];
+        result.push({
+            title: trimString(record?.title) ?? url,
+            url,
+            snippet: trimString(record?.snippet) ?? '',
+            ...(markers.length > 0 ? { markers } : {}),
+        });
+    }
+    return result;
+};
+
+/** ChatGPT citation tokens no source claims: private-use `\ue200cite…\ue201` spans and legacy `【n†source】`. */
+const UNRESOLVED_CITATION_MARKER_PATTERN = /\ue200cite(?:\ue202[^\ue201]*)?\ue201|【\d+(?::\d+)?†[^】]*】/g;
+
+/**
+ * Replaces each source's inline markers with footnote references (`[n]`, the
+ * source's position in citation order) and drops markers no source claims.
+ */
+export const resolveCitationMarkers = (text: string, sources: MessageSource[]): string => {
+    const footnotes = new Map<string, string>();
+    sources.forEach((source, index) => {
+        for (const marker of source.markers ?? []) {
+            footnotes.set(marker, `${footnotes.get(marker) ?? ''}[${index + 1}]`);
+        }
+    });
+    let resolved = text;
+    for (const [marker, footnote] of footnotes) {
+        resolved = resolved.split(marker).join(footnote);
+    }
+    return resolved.replace(UNRESOLVED_CITATION_MARKER_PATTERN, '');
+};
+
+/** Returns the canvas document stored in `metadata.canvas_document`, if any. */
+export const extractMessageCanvasDocument = (message: Message): MessageCanvasDocument | null => {
+    const document = message.metadata?.canvas_document;
+    const record = document && typeof document === 'object' ? (document as Record<string, unknown>) : null;
+    if (!record || typeof record.content !== 'string') {
+        return null;
+    }
+    return {
+        id: trimString(record.id),
+        title: trimString(record.title) ?? 'Untitled',
+        type: trimString(record.type) ?? 'document',
+        content: record.content,
+    };
+};
+
+const toMessageAttachment = (record: Record<string, unknown>): MessageAttachment | null => {
+    const id = trimString(record.id);
+    if (!id) {
+        return null;
+    }
+    const mimeType = trimString(record.mime_type);
+    const kind = record.kind === 'image' || record.kind === 'file' ? record.kind : null;
+    return {
+        id,
+        kind: kind ?? (mimeType?.startsWith('image/') ? 'image' : 'file'),
+        origin: record.origin === 'generated' ? 'generated' : 'upload',
+        name: trimString(record.name),
+        mime_type: mimeType,
+        size: typeof record.size === 'number' && Number.isFinite(record.size) ? record.size : null,
+        url: trimString(record.url),
+    };
+};
+
+/**
+ * Returns the images and files stored in `metadata.attachments`. Entries
+ * without an ID are dropped; a missing `kind` is inferred from the MIME type.
+ */
+export const extractMessageAttachments = (message: Message): MessageAttachment[] => {
+    const attachments = message.metadata?.attachments;
+    if (!Array.isArray(attachments)) {
+        return [];
+    }
+    const result: MessageAttachment[] = [];
+    for (const attachment of attachments) {
+        const record = attachment && typeof attachment === 'object' ? (attachment as Record<string, unknown>) : null;
+        const parsed = record ? toMessageAttachment(record) : null;
+        if (parsed) {
+            result.push(parsed);
+        }
+    }
+    return result;
+};
+
 export const extractConversationReasoning = (conversation: ConversationData): string[] => {
     const seen = new Set<string>();
     const reasoning: string[] = [];
@@ -217,8 +400,7 @@ export const extractLatestTurnPromptAndResponse = (
     prompt: string;
     response: string;
 } => {
-    const currentNodeId = findCurrentNodeId(conversation);
-    const chain = currentNodeId ? buildMessageChain(conversation.mapping, currentNodeId) : [];
+    const chain = extractActiveMessageChain(conversation);
     const latestFromChain = extractLatestTurnText(chain.toReversed());
     if (hasPromptOrResponse(latestFromChain)) {
         return latestFromChain;
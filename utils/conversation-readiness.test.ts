@@ -1,5 +1,14 @@
 import { describe, expect, it } from 'bun:test';
-import { hasMeaningfulAssistantContent, isConversationReady } from '@/utils/conversation-readiness';
+import {
+    evaluateActiveChainReadiness,
+    hasMeaningfulAssistantContent,
+    isConversationReady,
+} from '@/utils/conversation-readiness';
+import {
+    buildMessage as buildFixtureMessage,
+    buildLinearConversation,
+    buildTextMessage,
+} from '@/utils/export/__tests__/fixtures';
 import type { ConversationData, Message } from '@/utils/types';
 
 const createBaseConversation = (): ConversationData => {
@@ -203,3 +212,51 @@ describe('isConversationReady', () => {
         expect(isConversationReady(data)).toBeFalse();
     });
 });
+
+const assistant = (id: string, text: string, overrides: Record<string, unknown> = {}) => ({
+    ...buildFixtureMessage(id, 'assistant', { content_type: 'text', parts: [text] }, 2),
+    ...overrides,
+});
+
+describe('evaluateActiveChainReadiness', () => {
+    it('should be ready for a finished terminal assistant turn', () => {
+        const result = evaluateActiveChainReadiness(
+            buildLinearConversation([buildTextMessage('u1', 'user', 'Hi', 1), assistant('a1', 'Hello')]),
+        );
+        expect(result).toMatchObject({ ready: true, terminal: true, reason: 'terminal', latestAssistantTextLength: 5 });
+        expect(result.contentHash).not.toBeNull();
+    });
+
+    it('should report missing, in-progress and empty assistant turns', () => {
+        expect(
+            evaluateActiveChainReadiness(buildLinearConversation([buildTextMessage('u1', 'user', 'Hi', 1)])).reason,
+        ).toBe('assistant-missing');
+        expect(
+            evaluateActiveChainReadiness(buildLinearConversation([assistant('a1', 'Hel', { status: 'in_progress' })]))
+                .reason,
+        ).toBe('assistant-in-progress');
+        expect(evaluateActiveChainReadiness(buildLinearConversation([assistant('a1', '  ')])).reason).toBe(
+            'assistant-text-missing',
+        );
+        expect(
+            evaluateActiveChainReadiness(
+                buildLinearConversation([assistant('a1', 'Oops', { status: 'error', end_turn: false })]),
+            ).reason,
+        ).toBe('assistant-latest-text-not-terminal-turn');
+    });
+
+    it('should ignore in-progress assistants on inactive branches', () => {
+        const conversation = buildLinearConversation([
+            buildTextMessage('u1', 'user', 'Hi', 1),
+            assistant('a1', 'Done'),
+        ]);
+        conversation.mapping.stale = {
+            id: 'stale',
+            parent: 'u1',
+            children: [],
+            message: assistant('stale', 'Hal', { status: 'in_progress' }),
+        };
+        conversation.mapping.u1?.children.push('stale');
+        expect(evaluateActiveChainReadiness(conversation).ready).toBeTrue();
+    });
+});
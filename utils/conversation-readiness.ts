@@ -1,3 +1,6 @@
+import type { PlatformReadiness } from '@/platforms/types';
+import { extractActiveMessageChain } from '@/utils/conversation-inspection';
+import { hashText } from '@/utils/hash';
 import type { ConversationData, Message } from '@/utils/types';
 
 const trimmedString = (value: unknown) => {
@@ -85,3 +88,44 @@ export const isConversationReady = (conversation: ConversationData): boolean =>
 
     return finished.some((message) => hasMeaningfulAssistantContent(message));
 };
+
+const notReady = (reason: string, terminal: boolean, latestAssistantTextLength = 0): PlatformReadiness => ({
+    ready: false,
+    terminal,
+    reason,
+    contentHash: null,
+    latestAssistantTextLength,
+});
+
+/**
+ * Readiness of the latest assistant message on the active branch, for adapters
+ * whose parsers keep edits, retries and regenerations as sibling branches (an
+ * in-progress message on an inactive branch doesn't block). Ready once that
+ * message is finished, ends the turn and has text; the hash covers that text.
+ */
+export const evaluateActiveChainReadiness = (data: ConversationData): PlatformReadiness => {
+    const assistants = extractActiveMessageChain(data).filter((message) => message.author.role === 'assistant');
+    const latest = assistants[assistants.length - 1];
+    if (!latest) {
+        return notReady('assistant-missing', false);
+    }
+    if (latest.status === 'in_progress') {
+        return notReady('assistant-in-progress', false);
+    }
+
+    const latestText = (latest.content.parts ?? []).filter((part): part is string => typeof part === 'string').join('');
+    const normalized = latestText.trim().normalize('NFC');
+    if (normalized.length === 0) {
+        return notReady('assistant-text-missing', true);
+    }
+    if (latest.status !== 'finished_successfully' || latest.end_turn !== true) {
+        return notReady('assistant-latest-text-not-terminal-turn', true, normalized.length);
+    }
+    return {
+        ready: true,
+        terminal: true,
+        reason: 'terminal',
+        contentHash: hashText(normalized),
+        latestAssistantTextLength: normalized.length,
+    };
+};
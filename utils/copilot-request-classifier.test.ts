@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'bun:test';
+
+import {
+    isCopilotChatSocket,
+    shouldEmitCopilotCompletion,
+    shouldEmitCopilotLifecycle,
+} from '@/utils/copilot-request-classifier';
+
+const BASE = 'https://copilot.microsoft.com/c/api';
+const SOCKET = 'wss://copilot.microsoft.com/c/api/chat?api-version=2';
+
+describe('copilot-request-classifier', () => {
+    it('should only treat the chat socket as a generation request', () => {
+        expect(isCopilotChatSocket(SOCKET)).toBeTrue();
+        expect(shouldEmitCopilotLifecycle(SOCKET)).toBeTrue();
+        expect(shouldEmitCopilotLifecycle(`${BASE}/conversations/kR3bXq7Z2mVtLp9sHd4wN/history`)).toBeFalse();
+    });
+
+    it('should allow completion for socket turns and history but not unrelated endpoints', () => {
+        expect(shouldEmitCopilotCompletion(SOCKET)).toBeTrue();
+        expect(shouldEmitCopilotCompletion(`${BASE}/conversations/kR3bXq7Z2mVtLp9sHd4wN/history`)).toBeTrue();
+        expect(shouldEmitCopilotCompletion(`${BASE}/user`)).toBeFalse();
+    });
+});
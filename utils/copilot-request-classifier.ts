@@ -0,0 +1,18 @@
+import {
+    isCopilotChatSocketUrl,
+    isCopilotConversationEndpointUrl,
+    isCopilotSocketEndpointUrl,
+} from '@/platforms/copilot/registry';
+
+export const isCopilotChatSocket = (url: string): boolean => {
+    return isCopilotSocketEndpointUrl(url);
+};
+
+/** Generation lifecycle is emitted by the WebSocket hook; fetch/XHR requests never carry it. */
+export const shouldEmitCopilotLifecycle = (url: string): boolean => {
+    return isCopilotChatSocket(url);
+};
+
+export const shouldEmitCopilotCompletion = (url: string): boolean => {
+    return isCopilotChatSocketUrl(url) || isCopilotConversationEndpointUrl(url);
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'bun:test';
+
+import {
+    isDeepSeekCompletionEndpoint,
+    shouldEmitDeepSeekCompletion,
+    shouldEmitDeepSeekLifecycle,
+} from '@/utils/deepseek-request-classifier';
+
+const BASE = 'https://chat.deepseek.com/api/v0';
+
+describe('deepseek-request-classifier', () => {
+    it('should emit lifecycle for generation streams only', () => {
+        expect(isDeepSeekCompletionEndpoint(`${BASE}/chat/completion`)).toBeTrue();
+        expect(shouldEmitDeepSeekLifecycle(`${BASE}/chat/regenerate`)).toBeTrue();
+        expect(shouldEmitDeepSeekLifecycle(`${BASE}/chat/history_messages?chat_session_id=abc`)).toBeFalse();
+    });
+
+    it('should allow completion for history and generation endpoints but not session listings', () => {
+        expect(shouldEmitDeepSeekCompletion(`${BASE}/chat/history_messages?chat_session_id=abc`)).toBeTrue();
+        expect(shouldEmitDeepSeekCompletion(`${BASE}/chat/completion`)).toBeTrue();
+        expect(shouldEmitDeepSeekCompletion(`${BASE}/chat_session/fetch_page?count=50`)).toBeFalse();
+    });
+});
@@ -0,0 +1,13 @@
+import { isDeepSeekCompletionEndpointUrl, isDeepSeekConversationEndpointUrl } from '@/platforms/deepseek/registry';
+
+export const isDeepSeekCompletionEndpoint = (url: string): boolean => {
+    return isDeepSeekCompletionEndpointUrl(url);
+};
+
+export const shouldEmitDeepSeekLifecycle = (url: string): boolean => {
+    return isDeepSeekCompletionEndpoint(url);
+};
+
+export const shouldEmitDeepSeekCompletion = (url: string): boolean => {
+    return isDeepSeekConversationEndpointUrl(url);
+};
@@ -9,15 +9,14 @@
  */
 
 /**
- * Create a Blob URL from a JSON string and trigger a file download via an
- * invisible anchor element.  Cleans up the anchor and revokes the object URL
- * in a `finally` block so resources are released even when an error occurs.
+ * Create a Blob URL and trigger a file download via an invisible anchor
+ * element.  Cleans up the anchor and revokes the object URL in a `finally`
+ * block so resources are released even when an error occurs.
  *
- * @param jsonString - Pre-serialized JSON content
- * @param filename  - Full filename including extension (e.g. `"chat.json"`)
+ * @param blob     - File content (e.g. a ZIP archive)
+ * @param filename - Full filename including extension (e.g. `"export.zip"`)
  */
-export const downloadStringAsJsonFile = (jsonString: string, filename: string) => {
-    const blob = new Blob([jsonString], { type: 'application/json' });
+export const downloadBlobAsFile = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob);
     let link: HTMLAnchorElement | null = null;
 
@@ -34,3 +33,24 @@ export const downloadStringAsJsonFile = (jsonString: string, filename: string) =
         URL.revokeObjectURL(url);
     }
 };
+
+/**
+ * Trigger a file download for a pre-serialized string.
+ *
+ * @param content  - Pre-serialized file content
+ * @param filename - Full filename including extension (e.g. `"chat.md"`)
+ * @param mimeType - Blob MIME type (e.g. `"text/markdown"`)
+ */
+export const downloadStringAsFile = (content: string, filename: string, mimeType: string) => {
+    downloadBlobAsFile(new Blob([content], { type: mimeType }), filename);
+};
+
+/**
+ * Trigger a JSON file download for a pre-serialized JSON string.
+ *
+ * @param jsonString - Pre-serialized JSON content
+ * @param filename  - Full filename including extension (e.g. `"chat.json"`)
+ */
+export const downloadStringAsJsonFile = (jsonString: string, filename: string) => {
+    downloadStringAsFile(jsonString, filename, 'application/json');
+};
@@ -5,7 +5,7 @@
  */
 
 import { beforeEach, describe, expect, it } from 'bun:test';
-import { downloadAsJSON, generateTimestamp, sanitizeFilename } from '@/utils/download';
+import { downloadAsFile, downloadAsJSON, generateTimestamp, sanitizeFilename } from '@/utils/download';
 
 describe('Download Utilities', () => {
     describe('sanitizeFilename', () => {
@@ -113,4 +113,14 @@ describe('Download Utilities', () => {
             expect(downloadCalls).toEqual([]);
         });
     });
+
+    describe('downloadAsFile', () => {
+        it('should not throw when the DOM download throws', () => {
+            expect(() =>
+                downloadAsFile('# Title', 'chat', 'md', 'text/markdown', () => {
+                    throw new Error('blob-failure');
+                }),
+            ).not.toThrow();
+        });
+    });
 });
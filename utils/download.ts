@@ -1,15 +1,17 @@
 /**
  * Download Utilities
  *
- * Helper functions for downloading JSON files and filename handling
+ * Helper functions for downloading JSON and other export files and filename handling
  *
  * @module utils/download
  */
 
-import { downloadStringAsJsonFile } from '@/utils/dom-download';
+import { downloadBlobAsFile, downloadStringAsFile, downloadStringAsJsonFile } from '@/utils/dom-download';
 import { logger } from '@/utils/logger';
 
 export type DownloadStringAsJsonFileFn = (jsonString: string, filename: string) => void;
+export type DownloadStringAsFileFn = (content: string, filename: string, mimeType: string) => void;
+export type DownloadBlobAsFileFn = (blob: Blob, filename: string) => void;
 
 /**
  * Sanitize a string for use as a filename
@@ -85,3 +87,47 @@ export const downloadAsJSON = (
         logger.error('Download failed:', error);
     }
 };
+
+/**
+ * Download a pre-serialized text document using blob URL
+ *
+ * @param content - The serialized file content
+ * @param filename - The filename (without extension)
+ * @param extension - The file extension (without leading dot)
+ * @param mimeType - MIME type for the blob
+ * @param downloadImpl - Optional injectable download implementation for deterministic testing
+ */
+export const downloadAsFile = (
+    content: string,
+    filename: string,
+    extension: string,
+    mimeType: string,
+    downloadImpl: DownloadStringAsFileFn = downloadStringAsFile,
+) => {
+    try {
+        downloadImpl(content, `${filename}.${extension}`, mimeType);
+    } catch (error) {
+        logger.error('Download failed:', error);
+    }
+};
+
+/**
+ * Download binary content (e.g. a ZIP archive) using blob URL
+ *
+ * @param blob - The file content
+ * @param filename - The filename (without extension)
+ * @param extension - The file extension (without leading dot)
+ * @param downloadImpl - Optional injectable download implementation for deterministic testing
+ */
+export const downloadAsBlob = (
+    blob: Blob,
+    filename: string,
+    extension: string,
+    downloadImpl: DownloadBlobAsFileFn = downloadBlobAsFile,
+) => {
+    try {
+        downloadImpl(blob, `${filename}.${extension}`);
+    } catch (error) {
+        logger.error('Download failed:', error);
+    }
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    createExportEncryptor,
+    DEFAULT_PBKDF2_ITERATIONS,
+    decodeBase64,
+    decryptExportEnvelope,
+    encodeBase64,
+    encryptExportForDownload,
+    parseExportEnvelope,
+    serializeExportEnvelope,
+} from '@/utils/encryption/export-envelope';
+
+// Low iteration count keeps the suite fast; the envelope records whatever was used.
+const ITERATIONS = 1_000;
+const PASSPHRASE = 'correct horse battery staple';
+
+describe('export envelope', () => {
+    it('should round-trip text and binary exports through the serialized envelope', async () => {
+        const encryptor = createExportEncryptor(PASSPHRASE, { iterations: ITERATIONS });
+        const zipBytes = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0, 255, 128]);
+
+        const text = await encryptor.encrypt({ filename: 'Plan.md', mimeType: 'text/markdown', content: '# Plan ✓' });
+        const zip = await encryptor.encrypt({
+            filename: 'ChatGPT_export.zip',
+            mimeType: 'application/zip',
+            content: new Blob([zipBytes]),
+        });
+
+        expect(text.kdf).toMatchObject({ name: 'PBKDF2', hash: 'SHA-256', iterations: ITERATIONS });
+        expect(text.kdf.salt).toBe(zip.kdf.salt);
+        expect(text.cipher.iv).not.toBe(zip.cipher.iv);
+        expect(serializeExportEnvelope(text)).not.toContain('Plan ✓');
+
+        const decryptedText = await decryptExportEnvelope(
+            parseExportEnvelope(serializeExportEnvelope(text)),
+            PASSPHRASE,
+        );
+        expect(decryptedText.filename).toBe('Plan.md');
+        expect(decryptedText.mimeType).toBe('text/markdown');
+        expect(new TextDecoder().decode(decryptedText.content)).toBe('# Plan ✓');
+        expect((await decryptExportEnvelope(zip, PASSPHRASE)).content).toEqual(zipBytes);
+    });
+
+    it('should reject a wrong passphrase and a tampered header', async () => {
+        const envelope = await createExportEncryptor(PASSPHRASE, { iterations: ITERATIONS }).encrypt({
+            filename: 'Plan.md',
+            mimeType: 'text/markdown',
+            content: 'secret',
+        });
+
+        await expect(decryptExportEnvelope(envelope, 'wrong passphrase')).rejects.toThrow(
+            'Wrong passphrase or the file was modified',
+        );
+        await expect(decryptExportEnvelope({ ...envelope, filename: 'Other.md' }, PASSPHRASE)).rejects.toThrow(
+            'Wrong passphrase or the file was modified',
+        );
+    });
+
+    it('should refuse files that are not envelopes it can read', () => {
+        expect(() => parseExportEnvelope('{')).toThrow('invalid JSON');
+        expect(() => parseExportEnvelope('{"title":"chat"}')).toThrow('Not an encrypted Blackiya export');
+        const envelope = {
+            format: 'blackiya.encrypted-export',
+            version: 1,
+            kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: 50_000_000, salt: '' },
+            cipher: { name: 'AES-GCM', iv: '' },
+            filename: 'a.md',
+            mimeType: 'text/markdown',
+            ciphertext: '',
+        };
+        expect(() => parseExportEnvelope(JSON.stringify(envelope))).toThrow('exceeds');
+        expect(() => parseExportEnvelope(JSON.stringify({ ...envelope, version: 2 }))).toThrow(
+            'Unsupported envelope version: 2',
+        );
+    });
+
+    it('should name downloads after the original file and default to the recommended iterations', async () => {
+        const download = await encryptExportForDownload(createExportEncryptor(PASSPHRASE), {
+            filename: 'Plan.md',
+            mimeType: 'text/markdown',
+            content: 'x',
+        });
+
+        expect(download).toMatchObject({ filename: 'Plan.md', extension: 'enc.json', mimeType: 'application/json' });
+        expect(JSON.parse(download.content).kdf.iterations).toBe(DEFAULT_PBKDF2_ITERATIONS);
+    });
+
+    it('should encode large buffers to base64 in chunks', () => {
+        const bytes = new Uint8Array(100_000).map((_, index) => index % 256);
+        expect(decodeBase64(encodeBase64(bytes))).toEqual(bytes);
+    });
+});
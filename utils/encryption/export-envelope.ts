@@ -0,0 +1,252 @@
+/**
+ * Encrypted Export Envelope
+ *
+ * Passphrase encryption for downloaded exports with WebCrypto: PBKDF2-SHA256
+ * derives an AES-256-GCM key, and the ciphertext travels in a JSON envelope
+ * (`<name>.<ext>.enc.json`) that also names the original file. The envelope
+ * header is authenticated as GCM additional data, so a tampered filename,
+ * salt or iteration count fails decryption just like a wrong passphrase.
+ * The format is documented in `docs/encrypted-exports.md`; `scripts/decrypt-export.ts`
+ * decrypts it offline.
+ *
+ * @module utils/encryption/export-envelope
+ */
+
+export const EXPORT_ENVELOPE_FORMAT = 'blackiya.encrypted-export';
+export const EXPORT_ENVELOPE_VERSION = 1;
+export const ENCRYPTED_EXPORT_EXTENSION = 'enc.json';
+export const ENCRYPTED_EXPORT_MIME_TYPE = 'application/json';
+
+/** OWASP's PBKDF2-HMAC-SHA256 recommendation. */
+export const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+/** Bounds what a (possibly hostile) envelope can make the decryptor spend. */
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export type ExportEnvelope = {
+    format: typeof EXPORT_ENVELOPE_FORMAT;
+    version: typeof EXPORT_ENVELOPE_VERSION;
+    kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+    cipher: { name: 'AES-GCM'; iv: string };
+    /** Original file name, with its extension. */
+    filename: string;
+    mimeType: string;
+    /** Base64 AES-256-GCM output (ciphertext followed by the 16-byte tag). */
+    ciphertext: string;
+};
+
+export type ExportFile = {
+    filename: string;
+    mimeType: string;
+    content: string | Blob | Uint8Array;
+};
+
+export type DecryptedExportFile = {
+    filename: string;
+    mimeType: string;
+    content: Uint8Array<ArrayBuffer>;
+};
+
+export type ExportEncryptor = {
+    encrypt: (file: ExportFile) => Promise<ExportEnvelope>;
+};
+
+const BASE64_CHUNK_SIZE = 0x8000;
+
+export const encodeBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let offset = 0; offset < bytes.length; offset += BASE64_CHUNK_SIZE) {
+        binary += String.fromCharCode(...bytes.subarray(offset, offset + BASE64_CHUNK_SIZE));
+    }
+    return btoa(binary);
+};
+
+export const decodeBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i += 1) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+const toBytes = async (content: ExportFile['content']): Promise<Uint8Array<ArrayBuffer>> => {
+    if (typeof content === 'string') {
+        return new TextEncoder().encode(content);
+    }
+    if (content instanceof Uint8Array) {
+        return new Uint8Array(content);
+    }
+    return new Uint8Array(await content.arrayBuffer());
+};
+
+/** Every header field, in a fixed order, bound to the ciphertext as GCM additional data. */
+const buildAdditionalData = (envelope: Omit<ExportEnvelope, 'ciphertext'>) =>
+    new TextEncoder().encode(
+        JSON.stringify([
+            envelope.format,
+            envelope.version,
+            envelope.kdf.name,
+            envelope.kdf.hash,
+            envelope.kdf.iterations,
+            envelope.kdf.salt,
+            envelope.cipher.name,
+            envelope.cipher.iv,
+            envelope.filename,
+            envelope.mimeType,
+        ]),
+    );
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number) => {
+    const material = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(passphrase.normalize('NFC')),
+        'PBKDF2',
+        false,
+        ['deriveKey'],
+    );
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+/**
+ * Derives the key once (with a fresh salt) and encrypts any number of files
+ * with it, each under its own IV, so a bulk run pays for PBKDF2 only once.
+ */
+export const createExportEncryptor = (passphrase: string, options: { iterations?: number } = {}): ExportEncryptor => {
+    if (passphrase.length === 0) {
+        throw new Error('Export passphrase is empty');
+    }
+    const iterations = options.iterations ?? DEFAULT_PBKDF2_ITERATIONS;
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    let keyPromise: Promise<CryptoKey> | null = null;
+    return {
+        encrypt: async ({ filename, mimeType, content }) => {
+            keyPromise ??= deriveKey(passphrase, salt, iterations);
+            const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+            const header: Omit<ExportEnvelope, 'ciphertext'> = {
+                format: EXPORT_ENVELOPE_FORMAT,
+                version: EXPORT_ENVELOPE_VERSION,
+                kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations, salt: encodeBase64(salt) },
+                cipher: { name: 'AES-GCM', iv: encodeBase64(iv) },
+                filename,
+                mimeType,
+            };
+            const ciphertext = await crypto.subtle.encrypt(
+                { name: 'AES-GCM', iv, additionalData: buildAdditionalData(header) },
+                await keyPromise,
+                await toBytes(content),
+            );
+            return { ...header, ciphertext: encodeBase64(new Uint8Array(ciphertext)) };
+        },
+    };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+export const isExportEnvelope = (value: unknown): value is ExportEnvelope => {
+    if (!isRecord(value) || !isRecord(value.kdf) || !isRecord(value.cipher)) {
+        return false;
+    }
+    return (
+        value.format === EXPORT_ENVELOPE_FORMAT &&
+        typeof value.version === 'number' &&
+        value.kdf.name === 'PBKDF2' &&
+        value.kdf.hash === 'SHA-256' &&
+        typeof value.kdf.iterations === 'number' &&
+        typeof value.kdf.salt === 'string' &&
+        value.cipher.name === 'AES-GCM' &&
+        typeof value.cipher.iv === 'string' &&
+        typeof value.filename === 'string' &&
+        typeof value.mimeType === 'string' &&
+        typeof value.ciphertext === 'string'
+    );
+};
+
+export const serializeExportEnvelope = (envelope: ExportEnvelope) => `${JSON.stringify(envelope, null, 2)}\n`;
+
+/** Parses an `.enc.json` file; throws when it is not a Blackiya envelope this version can read. */
+export const parseExportEnvelope = (text: string): ExportEnvelope => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('Not an encrypted Blackiya export (invalid JSON)');
+    }
+    if (!isExportEnvelope(parsed)) {
+        throw new Error('Not an encrypted Blackiya export');
+    }
+    if (parsed.version !== EXPORT_ENVELOPE_VERSION) {
+        throw new Error(`Unsupported envelope version: ${parsed.version}`);
+    }
+    if (!Number.isInteger(parsed.kdf.iterations) || parsed.kdf.iterations < 1) {
+        throw new Error('Invalid PBKDF2 iteration count');
+    }
+    if (parsed.kdf.iterations > MAX_PBKDF2_ITERATIONS) {
+        throw new Error(`PBKDF2 iteration count ${parsed.kdf.iterations} exceeds ${MAX_PBKDF2_ITERATIONS}`);
+    }
+    return parsed;
+};
+
+export const decryptExportEnvelope = async (
+    envelope: ExportEnvelope,
+    passphrase: string,
+): Promise<DecryptedExportFile> => {
+    const { ciphertext, ...header } = envelope;
+    const key = await deriveKey(passphrase, decodeBase64(header.kdf.salt), header.kdf.iterations);
+    try {
+        const plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: decodeBase64(header.cipher.iv), additionalData: buildAdditionalData(header) },
+            key,
+            decodeBase64(ciphertext),
+        );
+        return { filename: header.filename, mimeType: header.mimeType, content: new Uint8Array(plaintext) };
+    } catch {
+        throw new Error('Wrong passphrase or the file was modified');
+    }
+};
+
+/**
+ * Encrypts one export for download: the envelope text and the name to save it
+ * under (the original name plus `.enc.json`, without that final extension).
+ */
+export const encryptExportForDownload = async (encryptor: ExportEncryptor, file: ExportFile) => ({
+    content: serializeExportEnvelope(await encryptor.encrypt(file)),
+    filename: file.filename,
+    extension: ENCRYPTED_EXPORT_EXTENSION,
+    mimeType: ENCRYPTED_EXPORT_MIME_TYPE,
+});
+
+type SerializedFile = { content: string; extension: string; mimeType: string };
+
+/**
+ * Encrypts a serialized export for destinations that take its content rather
+ * than a download (local folder writes and webhook sinks). `filename` is the
+ * base name the envelope records; the result keeps the original extension in
+ * front of `.enc.json`. Returns the export unchanged without an encryptor.
+ */
+export const sealSerializedExport = async (
+    encryptor: ExportEncryptor | null,
+    filename: string,
+    serialized: SerializedFile,
+): Promise<SerializedFile> => {
+    if (!encryptor) {
+        return serialized;
+    }
+    const encrypted = await encryptExportForDownload(encryptor, {
+        filename: `${filename}.${serialized.extension}`,
+        mimeType: serialized.mimeType,
+        content: serialized.content,
+    });
+    return {
+        content: encrypted.content,
+        extension: `${serialized.extension}.${encrypted.extension}`,
+        mimeType: encrypted.mimeType,
+    };
+};
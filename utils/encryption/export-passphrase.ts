@@ -0,0 +1,53 @@
+/**
+ * Export Passphrase
+ *
+ * The passphrase lives only in `browser.storage.session`, which is kept in
+ * memory and cleared when the browser closes, so it is never written to disk
+ * next to the exports it protects. Extension pages read it directly; content
+ * scripts can't reach session storage and ask the background for it.
+ *
+ * @module utils/encryption/export-passphrase
+ */
+
+import { browser } from 'wxt/browser';
+
+export const EXPORT_PASSPHRASE_SESSION_KEY = 'blackiya.exportPassphrase';
+export const EXPORT_PASSPHRASE_REQUEST_MESSAGE = 'BLACKIYA_EXPORT_PASSPHRASE_REQUEST';
+
+export const MISSING_EXPORT_PASSPHRASE_ERROR =
+    'Export encryption is on, but no passphrase is set for this browser session. Set it in the Blackiya popup.';
+
+export type ExportPassphraseRequestMessage = { type: typeof EXPORT_PASSPHRASE_REQUEST_MESSAGE };
+
+export type ExportPassphraseResponse = { passphrase: string | null };
+
+export const isExportPassphraseRequestMessage = (value: unknown): value is ExportPassphraseRequestMessage =>
+    !!value &&
+    typeof value === 'object' &&
+    (value as Partial<ExportPassphraseRequestMessage>).type === EXPORT_PASSPHRASE_REQUEST_MESSAGE;
+
+export const isExportPassphraseResponse = (value: unknown): value is ExportPassphraseResponse =>
+    !!value &&
+    typeof value === 'object' &&
+    (typeof (value as ExportPassphraseResponse).passphrase === 'string' ||
+        (value as ExportPassphraseResponse).passphrase === null);
+
+/** Extension pages and the background only. */
+export const readSessionExportPassphrase = async (): Promise<string | null> => {
+    try {
+        const result = await browser.storage.session.get(EXPORT_PASSPHRASE_SESSION_KEY);
+        const passphrase = result[EXPORT_PASSPHRASE_SESSION_KEY];
+        return typeof passphrase === 'string' && passphrase.length > 0 ? passphrase : null;
+    } catch {
+        return null;
+    }
+};
+
+/** `null` forgets the passphrase. */
+export const writeSessionExportPassphrase = async (passphrase: string | null) => {
+    if (passphrase) {
+        await browser.storage.session.set({ [EXPORT_PASSPHRASE_SESSION_KEY]: passphrase });
+    } else {
+        await browser.storage.session.remove(EXPORT_PASSPHRASE_SESSION_KEY);
+    }
+};
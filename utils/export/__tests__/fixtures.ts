@@ -0,0 +1,211 @@
+/**
+ * Shared conversation builders for export renderer tests.
+ *
+ * Pure factories only — no `mock.module` calls or mutable state.
+ */
+
+import type { ConversationData, Message, MessageContent, MessageNode } from '@/utils/types';
+
+export const buildMessage = (
+    id: string,
+    role: Message['author']['role'],
+    content: MessageContent,
+    createTime: number,
+    metadata: Record<string, any> = {},
+): Message => ({
+    id,
+    author: { role, name: null, metadata: {} },
+    create_time: createTime,
+    update_time: null,
+    content,
+    status: 'finished_successfully',
+    end_turn: true,
+    weight: 1,
+    metadata,
+    recipient: 'all',
+    channel: null,
+});
+
+export const buildTextMessage = (id: string, role: Message['author']['role'], text: string, createTime: number) =>
+    buildMessage(id, role, { content_type: 'text', parts: [text] }, createTime);
+
+/**
+ * Builds a single-branch conversation whose messages are chained in the given
+ * order under an empty root node; `current_node` points at the last message.
+ */
+export const buildLinearConversation = (
+    messages: Message[],
+    extra: Partial<ConversationData> = {},
+): ConversationData => {
+    const mapping: Record<string, MessageNode> = {
+        root: { id: 'root', message: null, parent: null, children: messages[0] ? [messages[0].id] : [] },
+    };
+    let parent = 'root';
+    messages.forEach((message, index) => {
+        const next = messages[index + 1];
+        mapping[message.id] = { id: message.id, message, parent, children: next ? [next.id] : [] };
+        parent = message.id;
+    });
+    return {
+        title: 'Export Test',
+        create_time: 1_700_000_000,
+        update_time: 1_700_000_100,
+        mapping,
+        conversation_id: 'conv-export',
+        current_node: parent,
+        moderation_results: [],
+        plugin_ids: null,
+        gizmo_id: null,
+        gizmo_type: null,
+        is_archived: false,
+        default_model_slug: 'gpt-4o',
+        safe_urls: [],
+        blocked_urls: [],
+        ...extra,
+    };
+};
+
+export const buildSimpleConversation = (extra: Partial<ConversationData> = {}) =>
+    buildLinearConversation(
+        [
+            buildTextMessage('u1', 'user', 'Hello there', 1_700_000_010),
+            buildMessage(
+                'a1',
+                'assistant',
+                {
+                    content_type: 'text',
+                    parts: ['General <Kenobi> & co'],
+                    thoughts: [{ summary: 'Greeting', content: 'Respond in kind', chunks: [], finished: true }],
+                },
+                1_700_000_020,
+            ),
+        ],
+        extra,
+    );
+
+/**
+ * Builds a conversation with a regenerated first answer: `u1` has two answer
+ * branches (`a-old`, then `a-new`), and the active path continues from `a-new`
+ * through `u2` → `a2`.
+ */
+export const buildBranchedConversation = (): ConversationData => {
+    const data = buildLinearConversation([
+        buildTextMessage('u1', 'user', 'Prompt', 1_700_000_010),
+        buildTextMessage('a-new', 'assistant', 'New answer', 1_700_000_030),
+        buildTextMessage('u2', 'user', 'Follow up', 1_700_000_040),
+        buildTextMessage('a2', 'assistant', 'Done', 1_700_000_050),
+    ]);
+    data.mapping.u1 = { ...data.mapping.u1, children: ['a-old', 'a-new'] } as MessageNode;
+    data.mapping['a-old'] = {
+        id: 'a-old',
+        parent: 'u1',
+        children: [],
+        message: buildTextMessage('a-old', 'assistant', 'Old answer', 1_700_000_020),
+    };
+    return data;
+};
+
+/**
+ * Builds a two-message search conversation whose answer cites two web sources
+ * in `metadata.sources`, the shape produced by the Perplexity adapter.
+ */
+export const buildSourcedConversation = (): ConversationData =>
+    buildLinearConversation([
+        buildTextMessage('u1', 'user', 'Why is the sky blue?', 1_700_000_010),
+        buildMessage(
+            'a1',
+            'assistant',
+            { content_type: 'text', parts: ['Rayleigh scattering [1][2].'] },
+            1_700_000_020,
+            {
+                sources: [
+                    {
+                        title: 'Rayleigh [scattering]',
+                        url: 'https://en.wikipedia.org/wiki/Rayleigh_scattering',
+                        snippet: 'Scattering of light by particles <much smaller> than the wavelength.',
+                    },
+                    { title: 'NASA', url: 'https://science.nasa.gov/sky?a=1&b=2', snippet: '' },
+                ],
+            },
+        ),
+    ]);
+
+/**
+ * Builds a conversation whose user uploads a PDF and whose answer carries a
+ * generated image, both as typed `metadata.attachments`.
+ */
+export const buildAttachmentConversation = (): ConversationData =>
+    buildLinearConversation([
+        buildMessage('u1', 'user', { content_type: 'text', parts: ['Summarize this'] }, 1_700_000_010, {
+            attachments: [
+                {
+                    id: 'file-pdf',
+                    kind: 'file',
+                    origin: 'upload',
+                    name: 'Quarterly report.pdf',
+                    mime_type: 'application/pdf',
+                    size: 2048,
+                    url: '/backend-api/files/download/file-pdf',
+                },
+            ],
+        }),
+        buildMessage('a1', 'assistant', { content_type: 'text', parts: ['Here is a chart.'] }, 1_700_000_020, {
+            attachments: [
+                {
+                    id: 'file-chart',
+                    kind: 'image',
+                    origin: 'generated',
+                    name: null,
+                    mime_type: null,
+                    size: null,
+                    url: 'https://files.example.com/chart',
+                },
+            ],
+        }),
+    ]);
+
+/**
+ * Builds a ChatGPT-shaped tool-use conversation: a cited answer, a Python tool
+ * call with its output, and a canvas document written through `canmore`.
+ */
+export const buildToolConversation = (): ConversationData => {
+    const call = buildMessage(
+        'a-call',
+        'assistant',
+        { content_type: 'code', language: 'python', text: 'print(6 * 7)' },
+        1_700_000_030,
+    );
+    call.recipient = 'python';
+    const output = buildMessage('t-output', 'tool', { content_type: 'execution_output', text: '42' }, 1_700_000_040);
+    output.author.name = 'python';
+    const canvas = buildMessage(
+        'a-canvas',
+        'assistant',
+        { content_type: 'code', language: 'json', text: '{"name":"Plan","type":"document","content":"# Plan"}' },
+        1_700_000_050,
+        { canvas_document: { id: null, title: 'Plan', type: 'document', content: '# Plan\n\n- Ship it' } },
+    );
+    canvas.recipient = 'canmore.create_textdoc';
+    return buildLinearConversation([
+        buildTextMessage('u1', 'user', 'Compute and plan', 1_700_000_010),
+        buildMessage(
+            'a-cited',
+            'assistant',
+            { content_type: 'text', parts: ['Six times seven is 42 \ue200cite\ue202turn0search0\ue201.'] },
+            1_700_000_020,
+            {
+                sources: [
+                    {
+                        title: 'Multiplication',
+                        url: 'https://example.com/multiplication',
+                        snippet: '',
+                        markers: ['\ue200cite\ue202turn0search0\ue201'],
+                    },
+                ],
+            },
+        ),
+        call,
+        output,
+        canvas,
+    ]);
+};
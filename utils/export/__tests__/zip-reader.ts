@@ -0,0 +1,44 @@
+/**
+ * Test-only reader for archives produced by `createZipWriter` (stored entries).
+ *
+ * Walks the central directory so tests exercise the same offsets an unzip tool
+ * would use, and returns each entry's name, CRC and decoded text.
+ */
+
+export type ReadZipEntry = {
+    name: string;
+    crc: number;
+    text: string;
+};
+
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+
+export const readStoredZipEntries = async (archive: Blob): Promise<ReadZipEntry[]> => {
+    const bytes = new Uint8Array(await archive.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const decoder = new TextDecoder();
+    const endOffset = bytes.length - END_OF_CENTRAL_DIRECTORY_SIZE;
+    if (view.getUint32(endOffset, true) !== 0x06054b50) {
+        throw new Error('Missing end of central directory record');
+    }
+    const entryCount = view.getUint16(endOffset + 10, true);
+    let cursor = view.getUint32(endOffset + 16, true);
+    const entries: ReadZipEntry[] = [];
+    for (let i = 0; i < entryCount; i += 1) {
+        if (view.getUint32(cursor, true) !== 0x02014b50) {
+            throw new Error(`Bad central directory entry at ${cursor}`);
+        }
+        const crc = view.getUint32(cursor + 16, true);
+        const size = view.getUint32(cursor + 20, true);
+        const nameLength = view.getUint16(cursor + 28, true);
+        const localOffset = view.getUint32(cursor + 42, true);
+        const name = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+        if (view.getUint32(localOffset, true) !== 0x04034b50) {
+            throw new Error(`Bad local header for ${name}`);
+        }
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+        entries.push({ name, crc, text: decoder.decode(bytes.subarray(dataStart, dataStart + size)) });
+        cursor += 46 + nameLength;
+    }
+    return entries;
+};
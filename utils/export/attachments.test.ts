@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'bun:test';
+import { buildAttachmentConversation } from '@/utils/export/__tests__/fixtures';
+import {
+    buildAttachmentFilename,
+    collectConversationAttachments,
+    resolveAttachmentHref,
+} from '@/utils/export/attachments';
+import type { MessageAttachment } from '@/utils/types';
+
+const image: MessageAttachment = {
+    id: 'file-1',
+    kind: 'image',
+    origin: 'generated',
+    name: null,
+    mime_type: null,
+    size: null,
+    url: '/backend-api/files/download/file-1',
+};
+
+describe('attachment layout', () => {
+    it('should collect attachments across the conversation in mapping order', () => {
+        expect(collectConversationAttachments(buildAttachmentConversation()).map(({ id }) => id)).toEqual([
+            'file-pdf',
+            'file-chart',
+        ]);
+    });
+
+    it('should number filenames and take the extension from the name, then the MIME type', () => {
+        expect(buildAttachmentFilename({ ...image, name: 'Quarterly: report.PDF' }, 0, null)).toBe(
+            '01-Quarterly_report.pdf',
+        );
+        expect(buildAttachmentFilename(image, 11, 'image/png; charset=binary')).toBe('12-image.png');
+        expect(buildAttachmentFilename(image, 2, 'application/octet-stream')).toBe('03-image.bin');
+    });
+
+    it('should prefer the bundled path, then an absolute web URL', () => {
+        expect(resolveAttachmentHref(image, { 'file-1': 'chat_files/01-image.png' })).toBe('chat_files/01-image.png');
+        expect(resolveAttachmentHref(image, {})).toBeNull();
+        expect(resolveAttachmentHref({ ...image, url: 'https://cdn.example.com/a.png' }, undefined)).toBe(
+            'https://cdn.example.com/a.png',
+        );
+    });
+});
@@ -0,0 +1,74 @@
+/**
+ * Attachment Layout
+ *
+ * Collects the images and files a conversation references and decides the
+ * names they get when bundled next to the exported transcript. Exporters link
+ * to bundled copies through an `AttachmentPaths` map (attachment ID → path
+ * relative to the transcript), falling back to the remote URL when an asset
+ * was not bundled.
+ *
+ * @module utils/export/attachments
+ */
+
+import { extractMessageAttachments } from '@/utils/conversation-inspection';
+import { sanitizeFilename } from '@/utils/download';
+import type { ConversationData, MessageAttachment } from '@/utils/types';
+
+/** Attachment ID → transcript-relative path of the bundled copy. */
+export type AttachmentPaths = Readonly<Record<string, string>>;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'image/svg+xml': 'svg',
+    'application/pdf': 'pdf',
+    'application/json': 'json',
+    'text/plain': 'txt',
+    'text/markdown': 'md',
+    'text/csv': 'csv',
+};
+
+const NAME_EXTENSION_PATTERN = /\.([a-z0-9]{1,8})$/i;
+
+/**
+ * Every attachment in the conversation tree (all branches), in mapping order
+ * and deduplicated by ID.
+ */
+export const collectConversationAttachments = (data: ConversationData): MessageAttachment[] => {
+    const seen = new Set<string>();
+    const attachments: MessageAttachment[] = [];
+    for (const node of Object.values(data.mapping)) {
+        for (const attachment of node.message ? extractMessageAttachments(node.message) : []) {
+            if (!seen.has(attachment.id)) {
+                seen.add(attachment.id);
+                attachments.push(attachment);
+            }
+        }
+    }
+    return attachments;
+};
+
+/**
+ * Bundle filename for an attachment: a zero-padded position (names repeat,
+ * e.g. every DALL·E output is `image`), the sanitized name and an extension
+ * from the name or, failing that, the downloaded MIME type.
+ */
+export const buildAttachmentFilename = (attachment: MessageAttachment, index: number, mimeType: string | null) => {
+    const name = attachment.name ?? attachment.kind;
+    const nameExtension = name.match(NAME_EXTENSION_PATTERN)?.[1]?.toLowerCase();
+    const stem = nameExtension ? name.slice(0, -(nameExtension.length + 1)) : name;
+    const baseMimeType = (mimeType ?? attachment.mime_type ?? '').split(';')[0].trim().toLowerCase();
+    const extension = nameExtension ?? MIME_EXTENSIONS[baseMimeType] ?? 'bin';
+    return `${String(index + 1).padStart(2, '0')}-${sanitizeFilename(stem)}.${extension}`;
+};
+
+const isWebUrl = (value: string) => /^https?:\/\//i.test(value);
+
+/**
+ * Link target for an attachment: the bundled copy when there is one, else its
+ * absolute http(s) URL, else `null` (the exporter shows the name only).
+ */
+export const resolveAttachmentHref = (attachment: MessageAttachment, paths: AttachmentPaths | undefined) =>
+    paths?.[attachment.id] ?? (attachment.url && isWebUrl(attachment.url) ? attachment.url : null);
@@ -0,0 +1,87 @@
+/**
+ * Branch Views
+ *
+ * Projects every root-to-leaf branch of a conversation (regenerations and
+ * edits) through an exporter's own item builder, and records how much of each
+ * branch is shared with the active path so exporters can render only the
+ * divergent tail.
+ *
+ * @module utils/export/branches
+ */
+
+import { enumerateConversationBranches, extractActiveMessageChain } from '@/utils/conversation-inspection';
+import { buildTranscriptEntriesFromMessages } from '@/utils/export/transcript';
+import type { ConversationData, Message } from '@/utils/types';
+
+export type BranchView<T> = {
+    /** 0-based position in depth-first enumeration; rendered 1-based as "Branch N". */
+    index: number;
+    leafId: string;
+    active: boolean;
+    items: T[];
+    /** Number of leading items identical to the active branch. */
+    sharedWithActive: number;
+};
+
+export type BranchSummary = {
+    index: number;
+    leafId: string;
+    active: boolean;
+    messageCount: number;
+    sharedWithActive: number;
+};
+
+const countSharedPrefix = <T extends { id: string }>(left: T[], right: T[]) => {
+    let shared = 0;
+    while (shared < left.length && shared < right.length && left[shared]?.id === right[shared]?.id) {
+        shared += 1;
+    }
+    return shared;
+};
+
+/**
+ * Builds one view per branch. The active view is built from the same
+ * root → `current_node` chain the single-branch exporters use, so enabling
+ * branch output never changes the main transcript. When no branch contains
+ * `current_node`, the first branch is treated as active.
+ */
+export const buildBranchViews = <T extends { id: string }>(
+    data: ConversationData,
+    toItems: (messages: Message[]) => T[],
+): BranchView<T>[] => {
+    const branches = enumerateConversationBranches(data);
+    const activeIndex = Math.max(
+        0,
+        branches.findIndex((branch) => branch.isActive),
+    );
+    const views = branches.map((branch) => ({
+        index: branch.index,
+        leafId: branch.leafId,
+        active: branch.index === activeIndex,
+        items: toItems(branch.index === activeIndex ? extractActiveMessageChain(data) : branch.messages),
+        sharedWithActive: 0,
+    }));
+    const activeItems = views[activeIndex]?.items ?? [];
+    for (const view of views) {
+        view.sharedWithActive = view.active ? view.items.length : countSharedPrefix(view.items, activeItems);
+    }
+    return views;
+};
+
+export const summarizeBranchViews = <T extends { id: string }>(views: BranchView<T>[]): BranchSummary[] =>
+    views.map(({ index, leafId, active, items, sharedWithActive }) => ({
+        index,
+        leafId,
+        active,
+        messageCount: items.length,
+        sharedWithActive,
+    }));
+
+/**
+ * Summarizes every branch by its visible transcript messages (hidden
+ * scaffolding excluded), as embedded in raw JSON at `__blackiya.branches`.
+ */
+export const summarizeConversationBranches = (data: ConversationData): BranchSummary[] =>
+    summarizeBranchViews(buildBranchViews(data, (messages) => buildTranscriptEntriesFromMessages(messages)));
+
+export const formatBranchLabel = (index: number) => `Branch ${index + 1}`;
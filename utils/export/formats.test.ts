@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'bun:test';
+import { buildBranchedConversation, buildSimpleConversation } from '@/utils/export/__tests__/fixtures';
+import { EXPORT_FORMAT_REGISTRY, serializeConversationExport } from '@/utils/export/formats';
+import { EXPORT_FORMATS } from '@/utils/settings';
+import type { ExportMeta } from '@/utils/sfe/types';
+
+const exportMeta: ExportMeta = { captureSource: 'canonical_api', fidelity: 'high', completeness: 'complete' };
+
+describe('export format registry', () => {
+    it('should register a definition for every export format', () => {
+        for (const format of EXPORT_FORMATS) {
+            const definition = EXPORT_FORMAT_REGISTRY[format];
+            expect(definition.id).toBe(format);
+            expect(definition.extension.length).toBeGreaterThan(0);
+            expect(definition.mimeType.length).toBeGreaterThan(0);
+        }
+    });
+
+    it('should serialize raw JSON with export metadata and honor prettyJson', () => {
+        const pretty = serializeConversationExport('json', { data: buildSimpleConversation(), exportMeta });
+        expect(pretty.extension).toBe('json');
+        expect(pretty.content).toContain('\n  "title": "Export Test"');
+        expect(JSON.parse(pretty.content).__blackiya.exportMeta).toEqual(exportMeta);
+
+        const compact = serializeConversationExport('json', {
+            data: buildSimpleConversation(),
+            exportMeta,
+            settingsMap: { json: { prettyJson: false } },
+        });
+        expect(compact.content).not.toContain('\n');
+    });
+
+    it('should embed the normalized conversation in raw JSON when enabled', () => {
+        const plain = JSON.parse(
+            serializeConversationExport('json', { data: buildSimpleConversation(), exportMeta }).content,
+        );
+        expect(plain.__blackiya.normalized).toBeUndefined();
+
+        const embedded = JSON.parse(
+            serializeConversationExport('json', {
+                data: buildSimpleConversation(),
+                exportMeta,
+                platform: 'ChatGPT',
+                settingsMap: { json: { embedNormalized: true } },
+            }).content,
+        );
+        expect(embedded.__blackiya.exportMeta).toEqual(exportMeta);
+        expect(embedded.__blackiya.normalized.schema).toBe('blackiya.normalized');
+        expect(embedded.__blackiya.normalized.source.platform).toBe('ChatGPT');
+    });
+
+    it('should attach a branch summary to raw JSON only when the tree has branches', () => {
+        const linear = JSON.parse(
+            serializeConversationExport('json', { data: buildSimpleConversation(), exportMeta }).content,
+        );
+        expect(linear.__blackiya.branches).toBeUndefined();
+
+        const branched = JSON.parse(
+            serializeConversationExport('json', { data: buildBranchedConversation(), exportMeta }).content,
+        );
+        expect(branched.__blackiya.branches).toEqual([
+            { index: 0, leafId: 'a-old', active: false, messageCount: 2, sharedWithActive: 1 },
+            { index: 1, leafId: 'a2', active: true, messageCount: 4, sharedWithActive: 4 },
+        ]);
+        expect(branched.mapping['a-old']).toBeDefined();
+    });
+
+    it('should serialize every format without throwing', () => {
+        for (const format of EXPORT_FORMATS) {
+            const serialized = serializeConversationExport(format, {
+                data: buildSimpleConversation(),
+                exportMeta,
+                platform: 'ChatGPT',
+            });
+            expect(serialized.content).toContain('Hello there');
+        }
+    });
+
+    it('should apply per-format settings only to the matching format', () => {
+        const markdown = serializeConversationExport('markdown', {
+            data: buildSimpleConversation(),
+            exportMeta,
+            settingsMap: { html: { includeThoughts: false } },
+        });
+        expect(markdown.content).toContain('<summary>Thoughts</summary>');
+    });
+});
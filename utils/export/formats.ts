@@ -0,0 +1,192 @@
+/**
+ * Export Format Registry
+ *
+ * Single lookup table for every output format offered by Save and bulk export.
+ * Each entry is a typed serializer over `ConversationData` + `ExportMeta`, so a
+ * new format only needs a registry entry — the runner, popup and in-page
+ * toggle all enumerate this table.
+ *
+ * @module utils/export/formats
+ */
+
+import type { AttachmentPaths } from '@/utils/export/attachments';
+import { summarizeConversationBranches } from '@/utils/export/branches';
+import { renderConversationHtml } from '@/utils/export/html';
+import { renderConversationMarkdown } from '@/utils/export/markdown';
+import { renderConversationJsonl, toNormalizedConversation } from '@/utils/export/normalized';
+import { renderConversationText } from '@/utils/export/text';
+import type { RedactionSummary } from '@/utils/redaction/redaction';
+import {
+    attachAttachmentPaths,
+    attachBranchSummary,
+    attachExportMeta,
+    attachNormalizedConversation,
+    attachRedactionSummary,
+} from '@/utils/runner/export-helpers';
+import {
+    type ExportFormat,
+    type ExportFormatSettingKey,
+    type ExportFormatSettings,
+    type ExportFormatSettingsMap,
+    resolveExportFormatSettings,
+} from '@/utils/settings';
+import type { ExportMeta } from '@/utils/sfe/types';
+import type { ConversationData } from '@/utils/types';
+
+export type ExportSerializeInput = {
+    data: ConversationData;
+    exportMeta: ExportMeta;
+    /** Adapter display name (e.g. `ChatGPT`). */
+    platform?: string;
+    settings: ExportFormatSettings;
+    /** Bundled attachment locations, when the export ships with its attachments. */
+    attachmentPaths?: AttachmentPaths;
+    /** Set when `data` went through the redaction stage; raw JSON records it at `__blackiya.redaction`. */
+    redaction?: RedactionSummary;
+};
+
+/** Serializer input with the persisted settings map in place of resolved settings. */
+export type ConversationExportInput = Omit<ExportSerializeInput, 'settings'> & {
+    settingsMap?: ExportFormatSettingsMap;
+};
+
+export type ExportFormatDefinition = {
+    id: ExportFormat;
+    label: string;
+    /** Compact label for the in-page format toggle. */
+    shortLabel: string;
+    extension: string;
+    mimeType: string;
+    /** Settings from `ExportFormatSettings` this format honors. */
+    settings: readonly ExportFormatSettingKey[];
+    serialize: (input: ExportSerializeInput) => string;
+};
+
+export type SerializedExport = {
+    content: string;
+    extension: string;
+    mimeType: string;
+};
+
+export const EXPORT_FORMAT_SETTING_LABELS: Record<ExportFormatSettingKey, string> = {
+    prettyJson: 'Pretty-print JSON',
+    includeThoughts: 'Include thoughts',
+    includeTimestamps: 'Include timestamps',
+    embedNormalized: 'Embed normalized schema',
+    includeAllBranches: 'Include all branches',
+    bundleAttachments: 'Bundle attachments',
+};
+
+const stringifyJson = (value: unknown, settings: ExportFormatSettings) =>
+    JSON.stringify(value, null, settings.prettyJson ? 2 : undefined);
+
+export const EXPORT_FORMAT_REGISTRY: Record<ExportFormat, ExportFormatDefinition> = {
+    json: {
+        id: 'json',
+        label: 'JSON (raw)',
+        shortLabel: 'JSON',
+        extension: 'json',
+        mimeType: 'application/json',
+        settings: ['prettyJson', 'embedNormalized', 'bundleAttachments'],
+        serialize: ({ data, exportMeta, platform, settings, attachmentPaths, redaction }) => {
+            let payload = attachExportMeta(data, exportMeta);
+            if (redaction) {
+                payload = attachRedactionSummary(payload, redaction);
+            }
+            const branches = summarizeConversationBranches(data);
+            if (branches.length > 1) {
+                payload = attachBranchSummary(payload, branches);
+            }
+            if (attachmentPaths && Object.keys(attachmentPaths).length > 0) {
+                payload = attachAttachmentPaths(payload, attachmentPaths);
+            }
+            if (!settings.embedNormalized) {
+                return stringifyJson(payload, settings);
+            }
+            const normalized = toNormalizedConversation(data, { platform, exportMeta, attachmentPaths });
+            return stringifyJson(attachNormalizedConversation(payload, normalized), settings);
+        },
+    },
+    'json-normalized': {
+        id: 'json-normalized',
+        label: 'JSON (normalized v1)',
+        shortLabel: 'NJSON',
+        extension: 'normalized.json',
+        mimeType: 'application/json',
+        settings: ['prettyJson', 'includeThoughts', 'includeAllBranches', 'bundleAttachments'],
+        serialize: ({ data, exportMeta, platform, settings, attachmentPaths }) =>
+            stringifyJson(
+                toNormalizedConversation(data, {
+                    platform,
+                    exportMeta,
+                    attachmentPaths,
+                    includeThoughts: settings.includeThoughts,
+                    includeAllBranches: settings.includeAllBranches,
+                }),
+                settings,
+            ),
+    },
+    markdown: {
+        id: 'markdown',
+        label: 'Markdown',
+        shortLabel: 'MD',
+        extension: 'md',
+        mimeType: 'text/markdown;charset=utf-8',
+        settings: ['includeThoughts', 'includeTimestamps', 'includeAllBranches', 'bundleAttachments'],
+        serialize: ({ data, exportMeta, platform, settings, attachmentPaths }) =>
+            renderConversationMarkdown(data, { platform, exportMeta, attachmentPaths, ...settings }),
+    },
+    html: {
+        id: 'html',
+        label: 'HTML',
+        shortLabel: 'HTML',
+        extension: 'html',
+        mimeType: 'text/html;charset=utf-8',
+        settings: ['includeThoughts', 'includeTimestamps', 'bundleAttachments'],
+        serialize: ({ data, exportMeta, platform, settings, attachmentPaths }) =>
+            renderConversationHtml(data, { platform, exportMeta, attachmentPaths, ...settings }),
+    },
+    text: {
+        id: 'text',
+        label: 'Plain text',
+        shortLabel: 'TXT',
+        extension: 'txt',
+        mimeType: 'text/plain;charset=utf-8',
+        settings: ['includeThoughts', 'includeTimestamps', 'bundleAttachments'],
+        serialize: ({ data, exportMeta, platform, settings, attachmentPaths }) =>
+            renderConversationText(data, { platform, exportMeta, attachmentPaths, ...settings }),
+    },
+    jsonl: {
+        id: 'jsonl',
+        label: 'JSON Lines',
+        shortLabel: 'JSONL',
+        extension: 'jsonl',
+        mimeType: 'application/x-ndjson',
+        settings: ['includeThoughts', 'bundleAttachments'],
+        serialize: ({ data, exportMeta, platform, settings, attachmentPaths }) =>
+            renderConversationJsonl(data, {
+                platform,
+                exportMeta,
+                attachmentPaths,
+                includeThoughts: settings.includeThoughts,
+            }),
+    },
+};
+
+export const getExportFormatDefinition = (format: ExportFormat): ExportFormatDefinition =>
+    EXPORT_FORMAT_REGISTRY[format];
+
+/**
+ * Serializes a conversation in the requested format, applying the persisted
+ * per-format settings on top of the defaults.
+ */
+export const serializeConversationExport = (format: ExportFormat, input: ConversationExportInput): SerializedExport => {
+    const { settingsMap, ...serializeInput } = input;
+    const definition = getExportFormatDefinition(format);
+    const settings = resolveExportFormatSettings(settingsMap ?? {}, format);
+    return {
+        content: definition.serialize({ ...serializeInput, settings }),
+        extension: definition.extension,
+        mimeType: definition.mimeType,
+    };
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    buildLinearConversation,
+    buildMessage,
+    buildSimpleConversation,
+    buildSourcedConversation,
+} from '@/utils/export/__tests__/fixtures';
+import { escapeHtml, renderConversationHtml } from '@/utils/export/html';
+
+describe('html export', () => {
+    it('should render a standalone document with escaped message text', () => {
+        const html = renderConversationHtml(buildSimpleConversation({ title: 'A <b>bold</b> title' }), {
+            platform: 'ChatGPT',
+        });
+
+        expect(html.startsWith('<!DOCTYPE html>')).toBeTrue();
+        expect(html).toContain('<title>A &lt;b&gt;bold&lt;/b&gt; title</title>');
+        expect(html).toContain('<dt>Platform</dt><dd>ChatGPT</dd>');
+        expect(html).toContain('<article class="message role-user">');
+        expect(html).toContain('General &lt;Kenobi&gt; &amp; co');
+        expect(html).toContain('<details><summary>Thoughts</summary>');
+        expect(html).toContain('<time datetime="2023-11-14T22:13:30.000Z">');
+        expect(html).not.toContain('<Kenobi>');
+    });
+
+    it('should render code blocks and honor thought/timestamp toggles', () => {
+        const data = buildLinearConversation([
+            buildMessage('c1', 'assistant', { content_type: 'code', content: 'if (a < b) {}' }, 1),
+        ]);
+        expect(renderConversationHtml(data)).toContain('<pre><code>if (a &lt; b) {}</code></pre>');
+
+        const html = renderConversationHtml(buildSimpleConversation(), {
+            includeThoughts: false,
+            includeTimestamps: false,
+        });
+        expect(html).not.toContain('<details>');
+        expect(html).not.toContain('<time');
+    });
+
+    it('should escape all HTML-significant characters', () => {
+        expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+    });
+
+    it('should render cited sources as an escaped, linked list', () => {
+        const html = renderConversationHtml(buildSourcedConversation());
+
+        expect(html).toContain('<section class="sources">\n<h3>Sources</h3>\n<ol>');
+        expect(html).toContain(
+            '<li><a href="https://en.wikipedia.org/wiki/Rayleigh_scattering" rel="noopener noreferrer">' +
+                'Rayleigh [scattering]</a><p>Scattering of light by particles &lt;much smaller&gt; than the wavelength.</p></li>',
+        );
+        expect(html).toContain(
+            '<li><a href="https://science.nasa.gov/sky?a=1&amp;b=2" rel="noopener noreferrer">NASA</a></li>',
+        );
+    });
+});
@@ -0,0 +1,173 @@
+/**
+ * HTML Transcript Renderer
+ *
+ * Renders the active branch of a conversation as a standalone, dependency-free
+ * HTML document. All conversation text is escaped; nothing is interpreted as
+ * markup, so the output is safe to open locally.
+ *
+ * @module utils/export/html
+ */
+
+import {
+    buildTranscriptEntries,
+    buildTranscriptHeaderFields,
+    resolveTranscriptTitle,
+    type TranscriptEntry,
+    type TranscriptRenderOptions,
+} from '@/utils/export/transcript';
+import type { ConversationData } from '@/utils/types';
+
+export type HtmlRenderOptions = TranscriptRenderOptions;
+
+const HTML_STYLES = `
+body { font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; line-height: 1.55; color: #1f2328; }
+header dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; font-size: 0.9rem; }
+header dt { font-weight: 600; }
+header dd { margin: 0; }
+article { border-top: 1px solid #d0d7de; padding: 1rem 0; }
+article h2 { font-size: 1rem; margin: 0 0 0.25rem; }
+article time { display: block; font-size: 0.8rem; color: #656d76; margin-bottom: 0.5rem; }
+.message-text { white-space: pre-wrap; }
+pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; }
+details { margin-bottom: 0.75rem; color: #57606a; }
+.attachments img { display: block; max-width: 100%; margin: 0.5rem 0; }
+.sources { font-size: 0.9rem; }
+.sources h3 { font-size: 0.9rem; margin: 0.75rem 0 0.25rem; }
+.sources p { margin: 0.1rem 0 0; color: #57606a; }
+.tool { font-size: 0.85rem; color: #57606a; margin: 0 0 0.5rem; }
+blockquote { margin: 0; padding-left: 1rem; border-left: 3px solid #d0d7de; color: #57606a; }
+.canvas figcaption { font-weight: 600; margin-bottom: 0.25rem; }
+`.trim();
+
+export const escapeHtml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+
+const renderThoughts = (entry: TranscriptEntry): string | null => {
+    if (entry.thoughts.length === 0) {
+        return null;
+    }
+    const items = entry.thoughts.map(({ summary, content }) => {
+        const heading = summary && content && summary !== content ? `<strong>${escapeHtml(summary)}</strong>\n` : '';
+        return `<div class="message-text">${heading}${escapeHtml(content || summary)}</div>`;
+    });
+    return `<details><summary>Thoughts</summary>\n${items.join('\n')}\n</details>`;
+};
+
+const renderSources = (entry: TranscriptEntry): string | null => {
+    if (entry.sources.length === 0) {
+        return null;
+    }
+    const items = entry.sources.map(({ title, url, snippet }) => {
+        const link = `<a href="${escapeHtml(url)}" rel="noopener noreferrer">${escapeHtml(title)}</a>`;
+        return snippet ? `<li>${link}<p>${escapeHtml(snippet)}</p></li>` : `<li>${link}</li>`;
+    });
+    return `<section class="sources">\n<h3>Sources</h3>\n<ol>\n${items.join('\n')}\n</ol>\n</section>`;
+};
+
+const renderAttachment = ({ kind, name, href }: TranscriptEntry['attachments'][number]) => {
+    if (!href) {
+        return `<li>${escapeHtml(name)}</li>`;
+    }
+    const link = `<a href="${escapeHtml(href)}" rel="noopener noreferrer">${escapeHtml(name)}</a>`;
+    return kind === 'image'
+        ? `<li><img src="${escapeHtml(href)}" alt="${escapeHtml(name)}" loading="lazy">${link}</li>`
+        : `<li>${link}</li>`;
+};
+
+const renderAttachments = (entry: TranscriptEntry): string | null => {
+    if (entry.attachments.length === 0) {
+        return null;
+    }
+    return `<ul class="attachments">\n${entry.attachments.map(renderAttachment).join('\n')}\n</ul>`;
+};
+
+const renderTool = ({ tool }: TranscriptEntry): string | null =>
+    tool
+        ? `<p class="tool">${tool.kind === 'call' ? 'Tool call' : 'Tool result'}: <code>${escapeHtml(tool.name)}</code></p>`
+        : null;
+
+const renderText = (entry: TranscriptEntry): string | null => {
+    if (!entry.text) {
+        return null;
+    }
+    switch (entry.contentType) {
+        case 'code': {
+            const languageClass = entry.language ? ` class="language-${escapeHtml(entry.language)}"` : '';
+            return `<pre><code${languageClass}>${escapeHtml(entry.text)}</code></pre>`;
+        }
+        case 'execution_output':
+            return `<p>Output:</p>\n<pre><samp>${escapeHtml(entry.text)}</samp></pre>`;
+        case 'tether_quote':
+            return `<blockquote class="message-text">${escapeHtml(entry.text)}</blockquote>`;
+        case 'tether_browsing_display':
+            return `<pre><samp>${escapeHtml(entry.text)}</samp></pre>`;
+        default:
+            return `<div class="message-text">${escapeHtml(entry.text)}</div>`;
+    }
+};
+
+const renderCanvas = ({ canvas }: TranscriptEntry): string | null =>
+    canvas
+        ? `<figure class="canvas">\n<figcaption>${escapeHtml(canvas.title)} <code>${escapeHtml(canvas.filename)}</code></figcaption>\n` +
+          `<pre><code class="language-${escapeHtml(canvas.language)}">${escapeHtml(canvas.content)}</code></pre>\n</figure>`
+        : null;
+
+const renderEntryBody = (entry: TranscriptEntry): string | null => {
+    if (entry.contentType === 'reasoning_recap') {
+        return entry.text ? `<details><summary>${escapeHtml(entry.text)}</summary></details>` : null;
+    }
+    const blocks = [
+        renderThoughts(entry),
+        renderTool(entry),
+        renderText(entry),
+        renderCanvas(entry),
+        renderAttachments(entry),
+        renderSources(entry),
+    ].filter((block): block is string => !!block);
+    return blocks.length > 0 ? blocks.join('\n') : null;
+};
+
+const renderEntry = (entry: TranscriptEntry): string | null => {
+    const body = renderEntryBody(entry);
+    if (!body) {
+        return null;
+    }
+    const timestamp = entry.timestamp ? `<time datetime="${entry.timestamp}">${entry.timestamp}</time>\n` : '';
+    return `<article class="message role-${entry.role}">\n<h2>${entry.roleLabel}</h2>\n${timestamp}${body}\n</article>`;
+};
+
+/**
+ * Renders the active branch of a conversation as a standalone HTML document.
+ */
+export const renderConversationHtml = (data: ConversationData, options: HtmlRenderOptions = {}): string => {
+    const title = escapeHtml(resolveTranscriptTitle(data));
+    const fields = buildTranscriptHeaderFields(data, options)
+        .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+        .join('\n');
+    const articles = buildTranscriptEntries(data, options)
+        .map(renderEntry)
+        .filter((article): article is string => !!article);
+
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="utf-8">',
+        `<title>${title}</title>`,
+        `<style>\n${HTML_STYLES}\n</style>`,
+        '</head>',
+        '<body>',
+        `<header>\n<h1>${title}</h1>\n<dl>\n${fields}\n</dl>\n</header>`,
+        '<main>',
+        ...articles,
+        '</main>',
+        '</body>',
+        '</html>',
+        '',
+    ].join('\n');
+};
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    buildAttachmentConversation,
+    buildBranchedConversation,
+    buildLinearConversation,
+    buildMessage,
+    buildSimpleConversation,
+    buildSourcedConversation,
+    buildTextMessage,
+    buildToolConversation,
+} from '@/utils/export/__tests__/fixtures';
+import { fenceCodeBlock, renderConversationMarkdown } from '@/utils/export/markdown';
+
+describe('markdown export', () => {
+    it('should render a header and the active branch messages', () => {
+        const data = buildLinearConversation([
+            buildTextMessage('u1', 'user', 'Hello there', 1_700_000_010),
+            buildTextMessage('a1', 'assistant', 'General Kenobi', 1_700_000_020),
+        ]);
+
+        const markdown = renderConversationMarkdown(data, {
+            platform: 'ChatGPT',
+            exportMeta: { captureSource: 'canonical_api', fidelity: 'high', completeness: 'complete' },
+        });
+
+        expect(markdown.startsWith('# Export Test\n')).toBeTrue();
+        expect(markdown).toContain('- **Platform:** ChatGPT');
+        expect(markdown).toContain('- **Model:** gpt-4o');
+        expect(markdown).toContain('- **Conversation ID:** conv-export');
+        expect(markdown).toContain('- **Capture:** canonical_api (high, complete)');
+        expect(markdown).toContain('### User\n\n_2023-11-14T22:13:30.000Z_\n\nHello there');
+        expect(markdown).toContain('### Assistant');
+        expect(markdown.indexOf('Hello there')).toBeLessThan(markdown.indexOf('General Kenobi'));
+        expect(markdown.endsWith('\n')).toBeTrue();
+    });
+
+    it('should skip hidden and empty messages', () => {
+        const data = buildLinearConversation([
+            buildMessage('s1', 'system', { content_type: 'text', parts: ['secret'] }, 1, {
+                is_visually_hidden_from_conversation: true,
+            }),
+            buildMessage('u1', 'user', { content_type: 'text', parts: ['Visible'] }, 2),
+            buildMessage('a1', 'assistant', { content_type: 'text', parts: [''] }, 3),
+        ]);
+
+        const markdown = renderConversationMarkdown(data);
+
+        expect(markdown).not.toContain('secret');
+        expect(markdown).not.toContain('### System');
+        expect(markdown).not.toContain('### Assistant');
+        expect(markdown).toContain('Visible');
+    });
+
+    it('should render thoughts, reasoning recaps, code and execution output', () => {
+        const data = buildLinearConversation([
+            buildMessage(
+                't1',
+                'assistant',
+                {
+                    content_type: 'thoughts',
+                    thoughts: [{ summary: 'Planning', content: 'Consider options', chunks: [], finished: true }],
+                },
+                1,
+            ),
+            buildMessage('r1', 'assistant', { content_type: 'reasoning_recap', content: 'Thought for <5s>' }, 2),
+            buildMessage('c1', 'assistant', { content_type: 'code', content: 'print("hi")' }, 3),
+            buildMessage('e1', 'tool', { content_type: 'execution_output', content: 'hi' }, 4),
+        ]);
+
+        const markdown = renderConversationMarkdown(data);
+
+        expect(markdown).toContain('<details>\n<summary>Thoughts</summary>\n\n**Planning**\n\nConsider options');
+        expect(markdown).toContain('<summary>Thought for &lt;5s&gt;</summary>');
+        expect(markdown).toContain('```\nprint("hi")\n```');
+        expect(markdown).toContain('### Tool');
+        expect(markdown).toContain('Output:\n\n```\nhi\n```');
+    });
+
+    it('should omit thoughts and timestamps when disabled', () => {
+        const markdown = renderConversationMarkdown(buildSimpleConversation(), {
+            includeThoughts: false,
+            includeTimestamps: false,
+        });
+
+        expect(markdown).not.toContain('<details>');
+        expect(markdown).not.toContain('_2023-');
+        expect(markdown).toContain('### Assistant\n\nGeneral <Kenobi> & co');
+    });
+
+    it('should lengthen code fences when the content contains backticks', () => {
+        expect(fenceCodeBlock('a ``` b', 'md')).toBe('````md\na ``` b\n````');
+        expect(fenceCodeBlock('plain')).toBe('```\nplain\n```');
+    });
+
+    it('should summarize branches and render only the active path by default', () => {
+        const markdown = renderConversationMarkdown(buildBranchedConversation(), { includeTimestamps: false });
+
+        expect(markdown).toContain(
+            '## Branches\n\n- **Branch 1**: 2 messages, diverges after message 1\n- **Branch 2** (active): 4 messages',
+        );
+        expect(markdown).toContain('New answer');
+        expect(markdown).toContain('Done');
+        expect(markdown).not.toContain('Old answer');
+    });
+
+    it('should append the divergent tail of every other branch when enabled', () => {
+        const markdown = renderConversationMarkdown(buildBranchedConversation(), {
+            includeTimestamps: false,
+            includeAllBranches: true,
+        });
+
+        expect(markdown).toContain(
+            '## Branch 1\n\n_Continues after message 1 of the active branch._\n\n---\n\n### Assistant\n\nOld answer',
+        );
+        expect(markdown.indexOf('Done')).toBeLessThan(markdown.indexOf('Old answer'));
+        expect(markdown.match(/Prompt/g)).toHaveLength(1);
+    });
+
+    it('should omit the branch summary for linear conversations', () => {
+        expect(renderConversationMarkdown(buildSimpleConversation())).not.toContain('## Branches');
+    });
+
+    it('should list cited sources as numbered links after the answer', () => {
+        const markdown = renderConversationMarkdown(buildSourcedConversation());
+
+        expect(markdown).toContain(
+            'Rayleigh scattering [1][2].\n\n**Sources**\n\n' +
+                '1. [Rayleigh \\[scattering\\]](<https://en.wikipedia.org/wiki/Rayleigh_scattering>) — ' +
+                'Scattering of light by particles <much smaller> than the wavelength.\n' +
+                '2. [NASA](<https://science.nasa.gov/sky?a=1&b=2>)',
+        );
+    });
+
+    it('should link bundled attachments and fall back to remote URLs or the bare name', () => {
+        const markdown = renderConversationMarkdown(buildAttachmentConversation(), {
+            attachmentPaths: { 'file-pdf': 'chat_files/01-Quarterly_report.pdf' },
+        });
+
+        expect(markdown).toContain('Summarize this\n\n[Quarterly report.pdf](<chat_files/01-Quarterly_report.pdf>)');
+        expect(markdown).toContain('Here is a chart.\n\n![Image](<https://files.example.com/chart>)');
+        expect(renderConversationMarkdown(buildAttachmentConversation())).toContain(
+            '_Attachment: Quarterly report.pdf_',
+        );
+    });
+
+    it('should footnote citations and render tool calls, results and canvas documents', () => {
+        const markdown = renderConversationMarkdown(buildToolConversation(), { includeTimestamps: false });
+
+        expect(markdown).toContain('Six times seven is 42 [1].\n\n**Sources**\n\n1. [Multiplication]');
+        expect(markdown).toContain('**Tool call:** `python`\n\n```python\nprint(6 * 7)\n```');
+        expect(markdown).toContain('### Tool\n\n**Tool result:** `python`\n\nOutput:\n\n```\n42\n```');
+        expect(markdown).toContain(
+            '**Tool call:** `canmore.create_textdoc`\n\n**Canvas:** Plan (`Plan.md`)\n\n```markdown\n# Plan\n\n- Ship it\n```',
+        );
+        expect(markdown).not.toContain('"name":"Plan"');
+    });
+});
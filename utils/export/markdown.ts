@@ -0,0 +1,193 @@
+/**
+ * Markdown Transcript Renderer
+ *
+ * Renders a `ConversationData` tree into a human-readable Markdown transcript.
+ * The active branch (root → `current_node`) is the transcript body. When the
+ * tree has regenerations or edits, a branch summary follows the header and,
+ * with `includeAllBranches`, each other branch's divergent tail is appended.
+ *
+ * @module utils/export/markdown
+ */
+
+import { type BranchView, buildBranchViews, formatBranchLabel } from '@/utils/export/branches';
+import {
+    buildTranscriptEntriesFromMessages,
+    buildTranscriptHeaderFields,
+    resolveTranscriptTitle,
+    type TranscriptEntry,
+    type TranscriptRenderOptions,
+} from '@/utils/export/transcript';
+import type { ConversationData } from '@/utils/types';
+
+export type MarkdownRenderOptions = TranscriptRenderOptions;
+
+/**
+ * Wraps text in a fenced code block whose fence is longer than any backtick
+ * run inside the text, so embedded fences cannot terminate the block early.
+ */
+export const fenceCodeBlock = (text: string, language = ''): string => {
+    const longestRun = Math.max(0, ...Array.from(text.matchAll(/`+/g), (match) => match[0].length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    return `${fence}${language}\n${text}\n${fence}`;
+};
+
+const escapeSummaryText = (text: string) => text.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const renderThoughtsBlock = (entry: TranscriptEntry): string | null => {
+    const sections = entry.thoughts.map(({ summary, content }) =>
+        summary && content && summary !== content ? `**${summary}**\n\n${content}` : content || summary,
+    );
+    if (sections.length === 0) {
+        return null;
+    }
+    return `<details>\n<summary>Thoughts</summary>\n\n${sections.join('\n\n')}\n\n</details>`;
+};
+
+const escapeLinkText = (text: string) => text.replace(/[[\]\\]/g, '\\$&');
+
+const escapeLinkDestination = (url: string) => url.replace(/[<>\s]/g, (char) => encodeURIComponent(char));
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const renderSourcesBlock = (entry: TranscriptEntry): string | null => {
+    if (entry.sources.length === 0) {
+        return null;
+    }
+    const items = entry.sources.map(({ title, url, snippet }, index) => {
+        const link = `${index + 1}. [${escapeLinkText(collapseWhitespace(title))}](<${escapeLinkDestination(url)}>)`;
+        return snippet ? `${link} — ${collapseWhitespace(snippet)}` : link;
+    });
+    return `**Sources**\n\n${items.join('\n')}`;
+};
+
+const renderAttachmentsBlock = (entry: TranscriptEntry): string | null => {
+    if (entry.attachments.length === 0) {
+        return null;
+    }
+    const lines = entry.attachments.map(({ kind, name, href }) => {
+        const label = escapeLinkText(collapseWhitespace(name));
+        if (!href) {
+            return `_Attachment: ${label}_`;
+        }
+        const link = `[${label}](<${escapeLinkDestination(href)}>)`;
+        return kind === 'image' ? `!${link}` : link;
+    });
+    return lines.join('\n\n');
+};
+
+const fenceCodeSpan = (text: string) => {
+    const longestRun = Math.max(0, ...Array.from(text.matchAll(/`+/g), (match) => match[0].length));
+    const fence = '`'.repeat(longestRun + 1);
+    return longestRun > 0 ? `${fence} ${text} ${fence}` : `${fence}${text}${fence}`;
+};
+
+const renderToolLine = (entry: TranscriptEntry): string | null => {
+    if (!entry.tool) {
+        return null;
+    }
+    const label = entry.tool.kind === 'call' ? 'Tool call' : 'Tool result';
+    return `**${label}:** ${fenceCodeSpan(entry.tool.name)}`;
+};
+
+const quoteBlock = (text: string) =>
+    text
+        .split('\n')
+        .map((line) => (line ? `> ${line}` : '>'))
+        .join('\n');
+
+const renderTextBlock = (entry: TranscriptEntry): string | null => {
+    if (!entry.text) {
+        return null;
+    }
+    switch (entry.contentType) {
+        case 'code':
+            return fenceCodeBlock(entry.text, entry.language ?? '');
+        case 'execution_output':
+            return `Output:\n\n${fenceCodeBlock(entry.text)}`;
+        case 'tether_quote':
+            return quoteBlock(entry.text);
+        case 'tether_browsing_display':
+            return fenceCodeBlock(entry.text);
+        default:
+            return entry.text;
+    }
+};
+
+const renderCanvasBlock = ({ canvas }: TranscriptEntry): string | null =>
+    canvas
+        ? `**Canvas:** ${escapeLinkText(collapseWhitespace(canvas.title))} (${fenceCodeSpan(canvas.filename)})\n\n` +
+          fenceCodeBlock(canvas.content, canvas.language)
+        : null;
+
+const renderEntryBody = (entry: TranscriptEntry): string | null => {
+    if (entry.contentType === 'reasoning_recap') {
+        return entry.text ? `<details>\n<summary>${escapeSummaryText(entry.text)}</summary>\n</details>` : null;
+    }
+
+    const blocks = [
+        renderThoughtsBlock(entry),
+        renderToolLine(entry),
+        renderTextBlock(entry),
+        renderCanvasBlock(entry),
+        renderAttachmentsBlock(entry),
+        renderSourcesBlock(entry),
+    ].filter((block): block is string => !!block);
+
+    return blocks.length > 0 ? blocks.join('\n\n') : null;
+};
+
+const renderEntry = (entry: TranscriptEntry): string | null => {
+    const body = renderEntryBody(entry);
+    if (!body) {
+        return null;
+    }
+    const heading = `### ${entry.roleLabel}`;
+    return entry.timestamp ? `${heading}\n\n_${entry.timestamp}_\n\n${body}` : `${heading}\n\n${body}`;
+};
+
+const renderHeader = (data: ConversationData, options: MarkdownRenderOptions): string => {
+    const lines = [`# ${resolveTranscriptTitle(data)}`, ''];
+    for (const [label, value] of buildTranscriptHeaderFields(data, options)) {
+        lines.push(`- **${label}:** ${value}`);
+    }
+    return lines.join('\n');
+};
+
+const describeBranch = (view: BranchView<TranscriptEntry>) => {
+    const count = `${view.items.length} message${view.items.length === 1 ? '' : 's'}`;
+    if (view.active) {
+        return `- **${formatBranchLabel(view.index)}** (active): ${count}`;
+    }
+    return `- **${formatBranchLabel(view.index)}**: ${count}, diverges after message ${view.sharedWithActive}`;
+};
+
+const renderBranchSummary = (views: BranchView<TranscriptEntry>[]) =>
+    ['## Branches', '', ...views.map(describeBranch)].join('\n');
+
+const renderEntries = (entries: TranscriptEntry[]) =>
+    entries.map(renderEntry).filter((rendered): rendered is string => !!rendered);
+
+const renderAlternateBranch = (view: BranchView<TranscriptEntry>): string[] => {
+    const heading = `## ${formatBranchLabel(view.index)}\n\n_Continues after message ${view.sharedWithActive} of the active branch._`;
+    return [heading, ...renderEntries(view.items.slice(view.sharedWithActive))];
+};
+
+/**
+ * Renders a conversation as a Markdown transcript of its active branch, plus a
+ * branch summary (and optionally every other branch) when the tree has forks.
+ */
+export const renderConversationMarkdown = (data: ConversationData, options: MarkdownRenderOptions = {}): string => {
+    const views = buildBranchViews(data, (messages) => buildTranscriptEntriesFromMessages(messages, options));
+    const active = views.find((view) => view.active);
+    const sections = [renderHeader(data, options)];
+    if (views.length > 1) {
+        sections.push(renderBranchSummary(views));
+    }
+    sections.push(...renderEntries(active?.items ?? []));
+    if (options.includeAllBranches) {
+        for (const view of views.filter((candidate) => !candidate.active)) {
+            sections.push(...renderAlternateBranch(view));
+        }
+    }
+    return `${sections.join('\n\n---\n\n')}\n`;
+};
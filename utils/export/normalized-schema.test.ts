@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'bun:test';
+import { buildSimpleConversation, buildSourcedConversation } from '@/utils/export/__tests__/fixtures';
+import { toNormalizedConversation } from '@/utils/export/normalized';
+import {
+    isNormalizedConversationV1,
+    NORMALIZED_CONVERSATION_JSON_SCHEMA,
+    validateNormalizedConversationV1,
+} from '@/utils/export/normalized-schema';
+
+describe('normalized schema v1', () => {
+    it('should accept converter output', () => {
+        const normalized = toNormalizedConversation(buildSimpleConversation(), {
+            platform: 'Grok',
+            exportMeta: { captureSource: 'dom_snapshot_degraded', fidelity: 'degraded', completeness: 'partial' },
+        });
+
+        expect(validateNormalizedConversationV1(normalized)).toEqual({ valid: true });
+        expect(isNormalizedConversationV1(JSON.parse(JSON.stringify(normalized)))).toBeTrue();
+        expect(
+            validateNormalizedConversationV1(
+                toNormalizedConversation(buildSimpleConversation(), { includeAllBranches: true }),
+            ),
+        ).toEqual({ valid: true });
+        expect(validateNormalizedConversationV1(toNormalizedConversation(buildSourcedConversation()))).toEqual({
+            valid: true,
+        });
+    });
+
+    it('should report path-qualified errors for invalid documents', () => {
+        const normalized = toNormalizedConversation(buildSimpleConversation()) as any;
+        normalized.schemaVersion = 2;
+        normalized.turns[0].role = 'robot';
+        normalized.turns[1].branch.siblingCount = 0;
+        normalized.extra = true;
+        delete normalized.title;
+
+        const result = validateNormalizedConversationV1(normalized);
+
+        expect(result.valid).toBeFalse();
+        if (!result.valid) {
+            expect(result.errors).toContain('$: missing required property "title"');
+            expect(result.errors).toContain('$: unexpected property "extra"');
+            expect(result.errors).toContain('$.schemaVersion: expected 1');
+            expect(result.errors.some((error) => error.startsWith('$.turns[0].role:'))).toBeTrue();
+            expect(result.errors).toContain('$.turns[1].branch.siblingCount: must be >= 1');
+        }
+    });
+
+    it('should reject non-object input', () => {
+        expect(validateNormalizedConversationV1(null)).toEqual({ valid: false, errors: ['$: expected object'] });
+        expect(isNormalizedConversationV1([])).toBeFalse();
+    });
+
+    it('should publish a draft 2020-12 schema with a versioned id', () => {
+        expect(NORMALIZED_CONVERSATION_JSON_SCHEMA.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+        expect(NORMALIZED_CONVERSATION_JSON_SCHEMA.$id).toEndWith('blackiya.normalized.v1.json');
+    });
+});
@@ -0,0 +1,288 @@
+/**
+ * Normalized Schema (v1) — JSON Schema and Validator
+ *
+ * The JSON Schema below is the published contract for `blackiya.normalized`
+ * exports. The validator walks the same schema object, so the document and
+ * the runtime checks cannot drift apart. It supports only the keywords the
+ * schema uses (`type`, `const`, `enum`, `required`, `properties`,
+ * `additionalProperties`, `items`, `minimum`).
+ *
+ * @module utils/export/normalized-schema
+ */
+
+import {
+    NORMALIZED_SCHEMA_ID,
+    NORMALIZED_SCHEMA_VERSION,
+    type NormalizedConversationV1,
+} from '@/utils/export/normalized';
+
+type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export type JsonSchema = {
+    $schema?: string;
+    $id?: string;
+    title?: string;
+    description?: string;
+    type?: JsonSchemaType | JsonSchemaType[];
+    const?: unknown;
+    enum?: readonly unknown[];
+    required?: readonly string[];
+    properties?: Record<string, JsonSchema>;
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+    minimum?: number;
+};
+
+export type NormalizedValidationResult = { valid: true } | { valid: false; errors: string[] };
+
+const nullableString: JsonSchema = { type: ['string', 'null'] };
+
+const EXPORT_META_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['captureSource', 'fidelity', 'completeness'],
+    properties: {
+        captureSource: { enum: ['canonical_api', 'dom_snapshot_degraded'] },
+        fidelity: { enum: ['high', 'degraded'] },
+        completeness: { enum: ['complete', 'partial'] },
+    },
+    additionalProperties: false,
+};
+
+const ATTACHMENT_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['id', 'name', 'mimeType', 'sizeBytes'],
+    properties: {
+        id: nullableString,
+        name: nullableString,
+        mimeType: nullableString,
+        sizeBytes: { type: ['number', 'null'], minimum: 0 },
+        kind: { enum: ['image', 'file'] },
+        path: { type: 'string' },
+    },
+    additionalProperties: false,
+};
+
+const SOURCE_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['title', 'url', 'snippet'],
+    properties: {
+        title: { type: 'string' },
+        url: { type: 'string' },
+        snippet: nullableString,
+    },
+    additionalProperties: false,
+};
+
+const TOOL_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['kind', 'name'],
+    properties: {
+        kind: { enum: ['call', 'result'] },
+        name: { type: 'string' },
+    },
+    additionalProperties: false,
+};
+
+const CANVAS_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['id', 'title', 'type', 'content'],
+    properties: {
+        id: nullableString,
+        title: { type: 'string' },
+        type: { type: 'string' },
+        content: { type: 'string' },
+    },
+    additionalProperties: false,
+};
+
+const TURN_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: [
+        'index',
+        'id',
+        'role',
+        'contentType',
+        'createdAt',
+        'text',
+        'reasoning',
+        'model',
+        'attachments',
+        'branch',
+    ],
+    properties: {
+        index: { type: 'integer', minimum: 0 },
+        id: { type: 'string' },
+        role: { enum: ['system', 'user', 'assistant', 'tool'] },
+        contentType: { type: 'string' },
+        createdAt: nullableString,
+        text: { type: 'string' },
+        reasoning: { type: 'array', items: { type: 'string' } },
+        model: nullableString,
+        attachments: { type: 'array', items: ATTACHMENT_SCHEMA },
+        sources: { type: 'array', items: SOURCE_SCHEMA },
+        tool: TOOL_SCHEMA,
+        canvas: CANVAS_SCHEMA,
+        branch: {
+            type: 'object',
+            required: ['siblingIndex', 'siblingCount'],
+            properties: {
+                siblingIndex: { type: 'integer', minimum: 0 },
+                siblingCount: { type: 'integer', minimum: 1 },
+            },
+            additionalProperties: false,
+        },
+    },
+    additionalProperties: false,
+};
+
+const BRANCH_SUMMARY_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['index', 'leafId', 'active', 'turnCount', 'sharedTurnCount'],
+    properties: {
+        index: { type: 'integer', minimum: 0 },
+        leafId: { type: 'string' },
+        active: { type: 'boolean' },
+        turnCount: { type: 'integer', minimum: 0 },
+        sharedTurnCount: { type: 'integer', minimum: 0 },
+    },
+    additionalProperties: false,
+};
+
+const ALTERNATE_BRANCH_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['index', 'leafId', 'sharedTurnCount', 'turns'],
+    properties: {
+        index: { type: 'integer', minimum: 0 },
+        leafId: { type: 'string' },
+        sharedTurnCount: { type: 'integer', minimum: 0 },
+        turns: { type: 'array', items: TURN_SCHEMA },
+    },
+    additionalProperties: false,
+};
+
+export const NORMALIZED_CONVERSATION_JSON_SCHEMA: JsonSchema = {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: `https://github.com/ragaeeb/blackiya/schemas/${NORMALIZED_SCHEMA_ID}.v${NORMALIZED_SCHEMA_VERSION}.json`,
+    title: 'Blackiya normalized conversation (v1)',
+    description: 'Platform-neutral conversation export produced by Blackiya.',
+    type: 'object',
+    required: [
+        'schema',
+        'schemaVersion',
+        'source',
+        'title',
+        'model',
+        'createdAt',
+        'updatedAt',
+        'exportMeta',
+        'branches',
+        'turns',
+    ],
+    properties: {
+        schema: { const: NORMALIZED_SCHEMA_ID },
+        schemaVersion: { const: NORMALIZED_SCHEMA_VERSION },
+        source: {
+            type: 'object',
+            required: ['platform', 'conversationId'],
+            properties: {
+                platform: nullableString,
+                conversationId: { type: 'string' },
+            },
+            additionalProperties: false,
+        },
+        title: { type: 'string' },
+        model: nullableString,
+        createdAt: nullableString,
+        updatedAt: nullableString,
+        exportMeta: { ...EXPORT_META_SCHEMA, type: ['object', 'null'] },
+        branches: {
+            type: 'object',
+            required: ['count', 'activeLeafId'],
+            properties: {
+                count: { type: 'integer', minimum: 1 },
+                activeLeafId: nullableString,
+                items: { type: 'array', items: BRANCH_SUMMARY_SCHEMA },
+            },
+            additionalProperties: false,
+        },
+        turns: { type: 'array', items: TURN_SCHEMA },
+        alternateBranches: { type: 'array', items: ALTERNATE_BRANCH_SCHEMA },
+    },
+    additionalProperties: false,
+};
+
+const matchesType = (value: unknown, type: JsonSchemaType): boolean => {
+    switch (type) {
+        case 'null':
+            return value === null;
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return !!value && typeof value === 'object' && !Array.isArray(value);
+        case 'integer':
+            return Number.isInteger(value);
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        default:
+            return typeof value === type;
+    }
+};
+
+const validateObject = (value: Record<string, unknown>, schema: JsonSchema, path: string, errors: string[]) => {
+    for (const key of schema.required ?? []) {
+        if (!(key in value)) {
+            errors.push(`${path}: missing required property "${key}"`);
+        }
+    }
+    for (const [key, child] of Object.entries(value)) {
+        const childSchema = schema.properties?.[key];
+        if (childSchema) {
+            validateNode(child, childSchema, `${path}.${key}`, errors);
+        } else if (schema.additionalProperties === false) {
+            errors.push(`${path}: unexpected property "${key}"`);
+        }
+    }
+};
+
+const validateScalarConstraints = (value: unknown, schema: JsonSchema, path: string, errors: string[]) => {
+    if ('const' in schema && value !== schema.const) {
+        errors.push(`${path}: expected ${JSON.stringify(schema.const)}`);
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${path}: expected one of ${schema.enum.map((entry) => JSON.stringify(entry)).join(', ')}`);
+    }
+    if (typeof schema.minimum === 'number' && typeof value === 'number' && value < schema.minimum) {
+        errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+};
+
+const validateNode = (value: unknown, schema: JsonSchema, path: string, errors: string[]) => {
+    if (schema.type) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some((type) => matchesType(value, type))) {
+            errors.push(`${path}: expected ${types.join(' | ')}`);
+            return;
+        }
+    }
+    validateScalarConstraints(value, schema, path, errors);
+    if (Array.isArray(value) && schema.items) {
+        for (const [index, item] of value.entries()) {
+            validateNode(item, schema.items, `${path}[${index}]`, errors);
+        }
+    } else if (matchesType(value, 'object') && (schema.properties || schema.required)) {
+        validateObject(value as Record<string, unknown>, schema, path, errors);
+    }
+};
+
+/**
+ * Validates an arbitrary value against the normalized v1 JSON Schema.
+ * Error messages use `$`-rooted paths (e.g. `$.turns[2].role`).
+ */
+export const validateNormalizedConversationV1 = (input: unknown): NormalizedValidationResult => {
+    const errors: string[] = [];
+    validateNode(input, NORMALIZED_CONVERSATION_JSON_SCHEMA, '$', errors);
+    return errors.length === 0 ? { valid: true } : { valid: false, errors };
+};
+
+export const isNormalizedConversationV1 = (input: unknown): input is NormalizedConversationV1 =>
+    validateNormalizedConversationV1(input).valid;
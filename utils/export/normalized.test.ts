@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    buildLinearConversation,
+    buildMessage,
+    buildSimpleConversation,
+    buildSourcedConversation,
+    buildTextMessage,
+    buildToolConversation,
+} from '@/utils/export/__tests__/fixtures';
+import {
+    NORMALIZED_SCHEMA_ID,
+    NORMALIZED_SCHEMA_VERSION,
+    renderConversationJsonl,
+    toNormalizedConversation,
+} from '@/utils/export/normalized';
+import { isNormalizedConversationV1 } from '@/utils/export/normalized-schema';
+import type { ConversationData } from '@/utils/types';
+
+describe('normalized export (schema v1)', () => {
+    it('should convert the active branch into ordered, versioned turns', () => {
+        const normalized = toNormalizedConversation(buildSimpleConversation(), {
+            platform: 'ChatGPT',
+            exportMeta: { captureSource: 'canonical_api', fidelity: 'high', completeness: 'complete' },
+        });
+
+        expect(normalized.schema).toBe(NORMALIZED_SCHEMA_ID);
+        expect(normalized.schemaVersion).toBe(NORMALIZED_SCHEMA_VERSION);
+        expect(normalized.source).toEqual({ platform: 'ChatGPT', conversationId: 'conv-export' });
+        expect(normalized.model).toBe('gpt-4o');
+        expect(normalized.createdAt).toBe('2023-11-14T22:13:20.000Z');
+        expect(normalized.exportMeta?.fidelity).toBe('high');
+        expect(normalized.branches).toEqual({
+            count: 1,
+            activeLeafId: 'a1',
+            items: [{ index: 0, leafId: 'a1', active: true, turnCount: 2, sharedTurnCount: 2 }],
+        });
+        expect(normalized.alternateBranches).toBeUndefined();
+        expect(normalized.turns.map((turn) => [turn.index, turn.role, turn.text])).toEqual([
+            [0, 'user', 'Hello there'],
+            [1, 'assistant', 'General <Kenobi> & co'],
+        ]);
+        expect(normalized.turns[1]?.reasoning).toEqual(['Respond in kind']);
+        expect(normalized.turns[1]?.branch).toEqual({ siblingIndex: 0, siblingCount: 1 });
+    });
+
+    it('should drop reasoning when thoughts are excluded', () => {
+        const normalized = toNormalizedConversation(buildSimpleConversation(), { includeThoughts: false });
+        expect(normalized.turns[1]?.reasoning).toEqual([]);
+    });
+
+    it('should capture per-turn model and attachment descriptors', () => {
+        const user = buildMessage('u1', 'user', { content_type: 'text', parts: ['See file'] }, 1, {
+            attachments: [{ id: 'file-1', name: 'notes.pdf', mime_type: 'application/pdf', size: 2048 }, 'bogus'],
+        });
+        const assistant = buildMessage('a1', 'assistant', { content_type: 'text', parts: ['Read it'] }, 2, {
+            model_slug: 'gpt-5',
+        });
+
+        const normalized = toNormalizedConversation(buildLinearConversation([user, assistant]));
+
+        expect(normalized.turns[0]?.attachments).toEqual([
+            { id: 'file-1', name: 'notes.pdf', mimeType: 'application/pdf', sizeBytes: 2048 },
+        ]);
+        expect(normalized.turns[1]?.model).toBe('gpt-5');
+    });
+
+    it('should report sibling positions and branch count for regenerated replies', () => {
+        const data: ConversationData = buildLinearConversation([buildTextMessage('u1', 'user', 'Prompt', 1)]);
+        data.mapping.u1.children = ['a-old', 'a-new'];
+        data.mapping['a-old'] = {
+            id: 'a-old',
+            parent: 'u1',
+            children: [],
+            message: buildTextMessage('a-old', 'assistant', 'Old', 2),
+        };
+        data.mapping['a-new'] = {
+            id: 'a-new',
+            parent: 'u1',
+            children: [],
+            message: buildTextMessage('a-new', 'assistant', 'New', 3),
+        };
+        data.current_node = 'a-new';
+
+        const normalized = toNormalizedConversation(data);
+
+        expect(normalized.branches).toEqual({
+            count: 2,
+            activeLeafId: 'a-new',
+            items: [
+                { index: 0, leafId: 'a-old', active: false, turnCount: 2, sharedTurnCount: 1 },
+                { index: 1, leafId: 'a-new', active: true, turnCount: 2, sharedTurnCount: 2 },
+            ],
+        });
+        expect(normalized.turns.at(-1)).toMatchObject({ text: 'New', branch: { siblingIndex: 1, siblingCount: 2 } });
+
+        const withAllBranches = toNormalizedConversation(data, { includeAllBranches: true });
+
+        expect(withAllBranches.turns.map((turn) => turn.text)).toEqual(['Prompt', 'New']);
+        expect(withAllBranches.alternateBranches).toHaveLength(1);
+        expect(withAllBranches.alternateBranches?.[0]).toMatchObject({ index: 0, leafId: 'a-old', sharedTurnCount: 1 });
+        expect(withAllBranches.alternateBranches?.[0]?.turns).toMatchObject([{ index: 1, text: 'Old' }]);
+    });
+
+    it('should emit one conversation record followed by one record per turn', () => {
+        const lines = renderConversationJsonl(buildSimpleConversation()).trim().split('\n');
+        const records = lines.map((line) => JSON.parse(line));
+
+        expect(records).toHaveLength(3);
+        expect(records[0]).toMatchObject({ type: 'conversation', schema: NORMALIZED_SCHEMA_ID, schemaVersion: 1 });
+        expect(records[0].turns).toBeUndefined();
+        expect(records[1]).toMatchObject({ type: 'turn', conversationId: 'conv-export', role: 'user', index: 0 });
+        expect(records[2]).toMatchObject({ type: 'turn', role: 'assistant', index: 1 });
+    });
+
+    it('should carry cited sources only on turns that have them', () => {
+        const normalized = toNormalizedConversation(buildSourcedConversation());
+
+        expect(normalized.turns[0]).not.toHaveProperty('sources');
+        expect(normalized.turns[1]?.sources).toEqual([
+            {
+                title: 'Rayleigh [scattering]',
+                url: 'https://en.wikipedia.org/wiki/Rayleigh_scattering',
+                snippet: 'Scattering of light by particles <much smaller> than the wavelength.',
+            },
+            { title: 'NASA', url: 'https://science.nasa.gov/sky?a=1&b=2', snippet: null },
+        ]);
+    });
+
+    it('should resolve citation markers and describe tool calls and canvas writes', () => {
+        const normalized = toNormalizedConversation(buildToolConversation());
+        const [, cited, call, output, canvas] = normalized.turns;
+
+        expect(cited?.text).toBe('Six times seven is 42 [1].');
+        expect(cited?.sources).toEqual([
+            { title: 'Multiplication', url: 'https://example.com/multiplication', snippet: null },
+        ]);
+        expect(call).toMatchObject({
+            contentType: 'code',
+            text: 'print(6 * 7)',
+            tool: { kind: 'call', name: 'python' },
+        });
+        expect(output).toMatchObject({ text: '42', tool: { kind: 'result', name: 'python' } });
+        expect(canvas).toMatchObject({
+            text: '',
+            tool: { kind: 'call', name: 'canmore.create_textdoc' },
+            canvas: { id: null, title: 'Plan', type: 'document', content: '# Plan\n\n- Ship it' },
+        });
+        expect(normalized.turns[0]).not.toHaveProperty('tool');
+        expect(isNormalizedConversationV1(normalized)).toBeTrue();
+    });
+});
@@ -0,0 +1,322 @@
+/**
+ * Normalized Conversation Converter (schema v1)
+ *
+ * Converts the ChatGPT-shaped `ConversationData` produced by every adapter into
+ * the documented, platform-neutral "blackiya normalized" schema: ordered turns
+ * on the active branch with role, text, reasoning, model, attachments, cited
+ * sources, tool calls, canvas documents and branch position, plus a per-branch summary and (optionally) the
+ * divergent turns of every other regeneration/edit branch. See
+ * `docs/normalized-schema.md` and `utils/export/normalized-schema.ts` for the
+ * JSON Schema and validator.
+ *
+ * @module utils/export/normalized
+ */
+
+import {
+    extractActiveMessageChain,
+    extractConversationModel,
+    extractMessageCanvasDocument,
+    extractMessageSources,
+    extractModelFromMessage,
+    extractReasoningFragments,
+    resolveCitationMarkers,
+} from '@/utils/conversation-inspection';
+import type { AttachmentPaths } from '@/utils/export/attachments';
+import { type BranchView, buildBranchViews } from '@/utils/export/branches';
+import { extractTranscriptText, resolveToolInteraction, toIsoTimestamp } from '@/utils/export/transcript';
+import type { ExportMeta } from '@/utils/sfe/types';
+import type { ConversationData, Message, MessageContent, MessageNode } from '@/utils/types';
+
+export const NORMALIZED_SCHEMA_ID = 'blackiya.normalized';
+export const NORMALIZED_SCHEMA_VERSION = 1;
+
+export type NormalizedAttachmentV1 = {
+    id: string | null;
+    name: string | null;
+    mimeType: string | null;
+    sizeBytes: number | null;
+    /** Present when the adapter typed the attachment. */
+    kind?: 'image' | 'file';
+    /** Path of the bundled copy, relative to the exported file; present only when bundled. */
+    path?: string;
+};
+
+export type NormalizedSourceV1 = {
+    title: string;
+    url: string;
+    snippet: string | null;
+};
+
+export type NormalizedToolV1 = {
+    /** `call`: the assistant addresses the tool; `result`: the tool's answer. */
+    kind: 'call' | 'result';
+    name: string;
+};
+
+export type NormalizedCanvasV1 = {
+    id: string | null;
+    title: string;
+    type: string;
+    content: string;
+};
+
+export type NormalizedTurnV1 = {
+    index: number;
+    id: string;
+    role: Message['author']['role'];
+    contentType: MessageContent['content_type'];
+    createdAt: string | null;
+    text: string;
+    reasoning: string[];
+    model: string | null;
+    attachments: NormalizedAttachmentV1[];
+    /** Cited web sources in citation order; present only when the message has any. */
+    sources?: NormalizedSourceV1[];
+    /** Present only on tool calls and tool results. */
+    tool?: NormalizedToolV1;
+    /** Canvas document written by this turn; present only on canvas writes. */
+    canvas?: NormalizedCanvasV1;
+    /** Position of this turn among its regenerated/edited siblings (0-based). */
+    branch: {
+        siblingIndex: number;
+        siblingCount: number;
+    };
+};
+
+export type NormalizedBranchSummaryV1 = {
+    /** 0-based depth-first position of the branch. */
+    index: number;
+    leafId: string;
+    active: boolean;
+    turnCount: number;
+    /** Leading turns identical to the active branch. */
+    sharedTurnCount: number;
+};
+
+export type NormalizedAlternateBranchV1 = {
+    index: number;
+    leafId: string;
+    sharedTurnCount: number;
+    /** Turns after the fork point; `index` continues from `sharedTurnCount`. */
+    turns: NormalizedTurnV1[];
+};
+
+export type NormalizedConversationV1 = {
+    schema: typeof NORMALIZED_SCHEMA_ID;
+    schemaVersion: typeof NORMALIZED_SCHEMA_VERSION;
+    source: {
+        platform: string | null;
+        conversationId: string;
+    };
+    title: string;
+    model: string | null;
+    createdAt: string | null;
+    updatedAt: string | null;
+    exportMeta: ExportMeta | null;
+    branches: {
+        /** Number of root-to-leaf paths in the source tree. */
+        count: number;
+        activeLeafId: string | null;
+        items?: NormalizedBranchSummaryV1[];
+    };
+    turns: NormalizedTurnV1[];
+    /** Present only when exported with `includeAllBranches`. */
+    alternateBranches?: NormalizedAlternateBranchV1[];
+};
+
+export type NormalizeOptions = {
+    platform?: string;
+    exportMeta?: ExportMeta;
+    includeThoughts?: boolean;
+    includeAllBranches?: boolean;
+    attachmentPaths?: AttachmentPaths;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const readString = (record: Record<string, unknown>, ...keys: string[]): string | null => {
+    for (const key of keys) {
+        const value = record[key];
+        if (typeof value === 'string' && value.trim().length > 0) {
+            return value;
+        }
+    }
+    return null;
+};
+
+const readNumber = (record: Record<string, unknown>, ...keys: string[]): number | null => {
+    for (const key of keys) {
+        const value = record[key];
+        if (typeof value === 'number' && Number.isFinite(value)) {
+            return value;
+        }
+    }
+    return null;
+};
+
+const toNormalizedAttachment = (
+    attachment: Record<string, unknown>,
+    attachmentPaths: AttachmentPaths | undefined,
+): NormalizedAttachmentV1 => {
+    const normalized: NormalizedAttachmentV1 = {
+        id: readString(attachment, 'id', 'file_id'),
+        name: readString(attachment, 'name', 'file_name', 'filename'),
+        mimeType: readString(attachment, 'mime_type', 'mimeType', 'content_type'),
+        sizeBytes: readNumber(attachment, 'size', 'size_bytes', 'sizeBytes'),
+    };
+    if (attachment.kind === 'image' || attachment.kind === 'file') {
+        normalized.kind = attachment.kind;
+    }
+    const path = normalized.id ? attachmentPaths?.[normalized.id] : undefined;
+    if (path) {
+        normalized.path = path;
+    }
+    return normalized;
+};
+
+const extractAttachments = (message: Message, options: NormalizeOptions): NormalizedAttachmentV1[] => {
+    const attachments = message.metadata?.attachments;
+    if (!Array.isArray(attachments)) {
+        return [];
+    }
+    return attachments
+        .filter(isRecord)
+        .map((attachment) => toNormalizedAttachment(attachment, options.attachmentPaths));
+};
+
+const resolveBranchPosition = (mapping: Record<string, MessageNode>, nodeId: string) => {
+    const parentId = mapping[nodeId]?.parent;
+    const siblings = parentId ? (mapping[parentId]?.children ?? []) : [];
+    const siblingIndex = siblings.indexOf(nodeId);
+    return siblingIndex < 0 ? { siblingIndex: 0, siblingCount: 1 } : { siblingIndex, siblingCount: siblings.length };
+};
+
+const buildNodeIdIndex = (mapping: Record<string, MessageNode>) => {
+    const index = new Map<Message, string>();
+    for (const node of Object.values(mapping)) {
+        if (node.message) {
+            index.set(node.message, node.id);
+        }
+    }
+    return index;
+};
+
+const toNormalizedTurn = (
+    mapping: Record<string, MessageNode>,
+    nodeId: string,
+    message: Message,
+    options: NormalizeOptions,
+): Omit<NormalizedTurnV1, 'index'> | null => {
+    if (message.metadata?.is_visually_hidden_from_conversation === true) {
+        return null;
+    }
+    const includeThoughts = options.includeThoughts !== false;
+    const contentType = message.content.content_type;
+    if (contentType === 'reasoning_recap' && !includeThoughts) {
+        return null;
+    }
+    const reasoning = includeThoughts && contentType !== 'reasoning_recap' ? extractReasoningFragments(message) : [];
+    const sources = extractMessageSources(message);
+    const canvas = extractMessageCanvasDocument(message);
+    const turn: Omit<NormalizedTurnV1, 'index'> = {
+        id: message.id,
+        role: message.author.role,
+        contentType,
+        createdAt: toIsoTimestamp(message.create_time ?? message.update_time),
+        text: canvas ? '' : resolveCitationMarkers(extractTranscriptText(message), sources),
+        reasoning,
+        model: extractModelFromMessage(message) ?? null,
+        attachments: extractAttachments(message, options),
+        branch: resolveBranchPosition(mapping, nodeId),
+    };
+    if (sources.length > 0) {
+        turn.sources = sources.map(({ title, url, snippet }) => ({ title, url, snippet: snippet || null }));
+    }
+    const tool = resolveToolInteraction(message);
+    if (tool) {
+        turn.tool = tool;
+    }
+    if (canvas) {
+        turn.canvas = canvas;
+    }
+    return turn.text || turn.reasoning.length > 0 || turn.attachments.length > 0 || turn.canvas ? turn : null;
+};
+
+const buildNormalizedTurns = (
+    mapping: Record<string, MessageNode>,
+    nodeIds: Map<Message, string>,
+    messages: Message[],
+    options: NormalizeOptions,
+): NormalizedTurnV1[] => {
+    const turns: NormalizedTurnV1[] = [];
+    for (const message of messages) {
+        const turn = toNormalizedTurn(mapping, nodeIds.get(message) ?? message.id, message, options);
+        if (turn) {
+            turns.push({ index: turns.length, ...turn });
+        }
+    }
+    return turns;
+};
+
+const toAlternateBranch = (view: BranchView<NormalizedTurnV1>): NormalizedAlternateBranchV1 => ({
+    index: view.index,
+    leafId: view.leafId,
+    sharedTurnCount: view.sharedWithActive,
+    turns: view.items.slice(view.sharedWithActive),
+});
+
+/**
+ * Builds the schema v1 representation of a conversation's active branch.
+ */
+export const toNormalizedConversation = (
+    data: ConversationData,
+    options: NormalizeOptions = {},
+): NormalizedConversationV1 => {
+    const nodeIds = buildNodeIdIndex(data.mapping);
+    const views = buildBranchViews(data, (messages) => buildNormalizedTurns(data.mapping, nodeIds, messages, options));
+    const activeView = views.find((view) => view.active);
+    const activeLeaf = extractActiveMessageChain(data).at(-1);
+    const normalized: NormalizedConversationV1 = {
+        schema: NORMALIZED_SCHEMA_ID,
+        schemaVersion: NORMALIZED_SCHEMA_VERSION,
+        source: {
+            platform: options.platform ?? null,
+            conversationId: data.conversation_id,
+        },
+        title: data.title,
+        model: extractConversationModel(data) ?? null,
+        createdAt: toIsoTimestamp(data.create_time),
+        updatedAt: toIsoTimestamp(data.update_time),
+        exportMeta: options.exportMeta ?? null,
+        branches: {
+            count: Math.max(1, views.length),
+            activeLeafId: activeLeaf ? (nodeIds.get(activeLeaf) ?? activeLeaf.id) : null,
+            items: views.map((view) => ({
+                index: view.index,
+                leafId: view.leafId,
+                active: view.active,
+                turnCount: view.items.length,
+                sharedTurnCount: view.sharedWithActive,
+            })),
+        },
+        turns: activeView?.items ?? [],
+    };
+    if (options.includeAllBranches) {
+        normalized.alternateBranches = views.filter((view) => !view.active).map(toAlternateBranch);
+    }
+    return normalized;
+};
+
+/**
+ * Serializes a conversation as JSON Lines: one `conversation` header record
+ * followed by one `turn` record per normalized turn.
+ */
+export const renderConversationJsonl = (data: ConversationData, options: NormalizeOptions = {}): string => {
+    const { turns, ...conversation } = toNormalizedConversation(data, options);
+    const lines = [
+        JSON.stringify({ type: 'conversation', ...conversation }),
+        ...turns.map((turn) => JSON.stringify({ type: 'turn', conversationId: data.conversation_id, ...turn })),
+    ];
+    return `${lines.join('\n')}\n`;
+};
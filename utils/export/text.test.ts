@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    buildLinearConversation,
+    buildMessage,
+    buildSimpleConversation,
+    buildSourcedConversation,
+} from '@/utils/export/__tests__/fixtures';
+import { renderConversationText } from '@/utils/export/text';
+
+describe('plain text export', () => {
+    it('should render an underlined title, header fields and role-labelled messages', () => {
+        const text = renderConversationText(buildSimpleConversation(), { platform: 'Gemini' });
+
+        expect(text.startsWith('Export Test\n===========\n')).toBeTrue();
+        expect(text).toContain('Platform: Gemini');
+        expect(text).toContain('User (2023-11-14T22:13:30.000Z):\nHello there');
+        expect(text).toContain('[Thoughts]\n    Greeting\n    Respond in kind');
+        expect(text).toContain('General <Kenobi> & co');
+    });
+
+    it('should indent code and omit thoughts and timestamps when disabled', () => {
+        const data = buildLinearConversation([
+            buildMessage('c1', 'assistant', { content_type: 'code', content: 'line1\nline2' }, 1),
+        ]);
+        expect(renderConversationText(data)).toContain('    line1\n    line2');
+
+        const text = renderConversationText(buildSimpleConversation(), {
+            includeThoughts: false,
+            includeTimestamps: false,
+        });
+        expect(text).toContain('User:\nHello there');
+        expect(text).not.toContain('[Thoughts]');
+    });
+
+    it('should list cited sources with their URLs and snippets', () => {
+        expect(renderConversationText(buildSourcedConversation())).toContain(
+            '[Sources]\n    1. Rayleigh [scattering]\n       https://en.wikipedia.org/wiki/Rayleigh_scattering\n' +
+                '       Scattering of light by particles <much smaller> than the wavelength.\n' +
+                '    2. NASA\n       https://science.nasa.gov/sky?a=1&b=2',
+        );
+    });
+});
@@ -0,0 +1,117 @@
+/**
+ * Plain Text Transcript Renderer
+ *
+ * Renders the active branch of a conversation as an unformatted transcript,
+ * suitable for pasting into tools that do not understand Markdown.
+ *
+ * @module utils/export/text
+ */
+
+import {
+    buildTranscriptEntries,
+    buildTranscriptHeaderFields,
+    resolveTranscriptTitle,
+    type TranscriptEntry,
+    type TranscriptRenderOptions,
+} from '@/utils/export/transcript';
+import type { ConversationData } from '@/utils/types';
+
+export type TextRenderOptions = TranscriptRenderOptions;
+
+const indent = (text: string) =>
+    text
+        .split('\n')
+        .map((line) => (line ? `    ${line}` : line))
+        .join('\n');
+
+const renderAttachments = (entry: TranscriptEntry) =>
+    entry.attachments.map(({ name, href }) => (href ? `${name}\n   ${href}` : name)).join('\n');
+
+const renderThoughts = (entry: TranscriptEntry): string | null => {
+    if (entry.thoughts.length === 0) {
+        return null;
+    }
+    const thoughts = entry.thoughts.map(({ summary, content }) =>
+        summary && content && summary !== content ? `${summary}\n${content}` : content || summary,
+    );
+    return `[Thoughts]\n${indent(thoughts.join('\n\n'))}`;
+};
+
+const renderTool = ({ tool }: TranscriptEntry): string | null =>
+    tool ? `[${tool.kind === 'call' ? 'Tool call' : 'Tool result'}: ${tool.name}]` : null;
+
+const renderText = (entry: TranscriptEntry): string | null => {
+    if (!entry.text) {
+        return null;
+    }
+    switch (entry.contentType) {
+        case 'code':
+        case 'tether_browsing_display':
+            return indent(entry.text);
+        case 'execution_output':
+            return `Output:\n${indent(entry.text)}`;
+        case 'tether_quote':
+            return entry.text
+                .split('\n')
+                .map((line) => `> ${line}`)
+                .join('\n');
+        default:
+            return entry.text;
+    }
+};
+
+const renderCanvas = ({ canvas }: TranscriptEntry): string | null =>
+    canvas ? `[Canvas: ${canvas.title} (${canvas.filename})]\n${indent(canvas.content)}` : null;
+
+const renderSources = (entry: TranscriptEntry): string | null => {
+    if (entry.sources.length === 0) {
+        return null;
+    }
+    const sources = entry.sources.map(({ title, url, snippet }, index) =>
+        [`${index + 1}. ${title}`, `   ${url}`, ...(snippet ? [`   ${snippet}`] : [])].join('\n'),
+    );
+    return `[Sources]\n${indent(sources.join('\n'))}`;
+};
+
+const renderEntryBody = (entry: TranscriptEntry): string | null => {
+    if (entry.contentType === 'reasoning_recap') {
+        return entry.text ? `(${entry.text})` : null;
+    }
+    const blocks = [
+        renderThoughts(entry),
+        renderTool(entry),
+        renderText(entry),
+        renderCanvas(entry),
+        entry.attachments.length > 0 ? `[Attachments]\n${indent(renderAttachments(entry))}` : null,
+        renderSources(entry),
+    ].filter((block): block is string => !!block);
+    return blocks.length > 0 ? blocks.join('\n\n') : null;
+};
+
+const renderEntry = (entry: TranscriptEntry): string | null => {
+    const body = renderEntryBody(entry);
+    if (!body) {
+        return null;
+    }
+    const heading = entry.timestamp ? `${entry.roleLabel} (${entry.timestamp}):` : `${entry.roleLabel}:`;
+    return `${heading}\n${body}`;
+};
+
+/**
+ * Renders the active branch of a conversation as a plain text transcript.
+ */
+export const renderConversationText = (data: ConversationData, options: TextRenderOptions = {}): string => {
+    const title = resolveTranscriptTitle(data);
+    const header = [title, '='.repeat(title.length)];
+    for (const [label, value] of buildTranscriptHeaderFields(data, options)) {
+        header.push(`${label}: ${value}`);
+    }
+    const sections = [header.join('\n')];
+    for (const entry of buildTranscriptEntries(data, options)) {
+        const rendered = renderEntry(entry);
+        if (rendered) {
+            sections.push(rendered);
+        }
+    }
+    return `${sections.join('\n\n')}\n`;
+};
@@ -0,0 +1,253 @@
+/**
+ * Transcript Model
+ *
+ * Flattens the active branch of a `ConversationData` tree into display-ready
+ * entries shared by the text-oriented exporters (Markdown, HTML, plain text).
+ * Message paths from other branches can be flattened the same way.
+ *
+ * @module utils/export/transcript
+ */
+
+import {
+    extractActiveMessageChain,
+    extractConversationModel,
+    extractMessageAttachments,
+    extractMessageCanvasDocument,
+    extractMessageSources,
+    extractMessageText,
+    resolveCitationMarkers,
+} from '@/utils/conversation-inspection';
+import { sanitizeFilename } from '@/utils/download';
+import { type AttachmentPaths, resolveAttachmentHref } from '@/utils/export/attachments';
+import type { ExportMeta } from '@/utils/sfe/types';
+import type { ConversationData, Message, MessageContent, MessageSource } from '@/utils/types';
+
+export type TranscriptRenderOptions = {
+    /** Adapter display name (e.g. `ChatGPT`) shown in the header block. */
+    platform?: string;
+    /** Capture metadata shown in the header block when provided. */
+    exportMeta?: ExportMeta;
+    /** Include reasoning/thinking blocks. Defaults to `true`. */
+    includeThoughts?: boolean;
+    /** Include per-message timestamps. Defaults to `true`. */
+    includeTimestamps?: boolean;
+    /** Render regenerated/edited branches after the active path. Defaults to `false`. */
+    includeAllBranches?: boolean;
+    /** Relative paths of attachments bundled next to the transcript. */
+    attachmentPaths?: AttachmentPaths;
+};
+
+export type TranscriptThought = {
+    summary: string;
+    content: string;
+};
+
+export type TranscriptAttachment = {
+    kind: 'image' | 'file';
+    name: string;
+    /** Bundled path or remote URL; `null` when the asset can only be named. */
+    href: string | null;
+};
+
+/** A tool call (assistant → tool) or the tool's answer. */
+export type TranscriptToolInteraction = {
+    kind: 'call' | 'result';
+    name: string;
+};
+
+/** A canvas document, rendered as a standalone file block. */
+export type TranscriptCanvas = {
+    title: string;
+    filename: string;
+    /** Code-fence language for the document content. */
+    language: string;
+    content: string;
+};
+
+export type TranscriptEntry = {
+    id: string;
+    role: Message['author']['role'];
+    roleLabel: string;
+    contentType: MessageContent['content_type'];
+    timestamp: string | null;
+    /** Message text with citation markers rewritten as `[n]` footnote references. */
+    text: string;
+    /** Language of `code` content, when known. */
+    language: string | null;
+    thoughts: TranscriptThought[];
+    /** Cited web sources, in citation order (`[1]` is the first entry). */
+    sources: MessageSource[];
+    attachments: TranscriptAttachment[];
+    tool: TranscriptToolInteraction | null;
+    canvas: TranscriptCanvas | null;
+};
+
+const ROLE_LABELS: Record<Message['author']['role'], string> = {
+    user: 'User',
+    assistant: 'Assistant',
+    system: 'System',
+    tool: 'Tool',
+};
+
+export const toIsoTimestamp = (seconds: number | null | undefined): string | null => {
+    if (typeof seconds !== 'number' || !Number.isFinite(seconds) || seconds <= 0) {
+        return null;
+    }
+    return new Date(seconds * 1000).toISOString();
+};
+
+/** Message text, falling back to the `text`/`result` fields tool outputs (e.g. `execution_output`) carry instead of parts. */
+export const extractTranscriptText = (message: Message): string =>
+    extractMessageText(message) || message.content.text?.trim() || message.content.result?.trim() || '';
+
+const isHiddenMessage = (message: Message) => message.metadata?.is_visually_hidden_from_conversation === true;
+
+const extractThoughts = (message: Message): TranscriptThought[] => {
+    const thoughts = message.content.thoughts;
+    if (!Array.isArray(thoughts)) {
+        return [];
+    }
+    return thoughts
+        .map((thought) => ({ summary: thought.summary?.trim() ?? '', content: thought.content?.trim() ?? '' }))
+        .filter((thought) => thought.summary || thought.content);
+};
+
+const extractTranscriptAttachments = (message: Message, options: TranscriptRenderOptions): TranscriptAttachment[] =>
+    extractMessageAttachments(message).map((attachment) => ({
+        kind: attachment.kind,
+        name: attachment.name ?? (attachment.kind === 'image' ? 'Image' : 'File'),
+        href: resolveAttachmentHref(attachment, options.attachmentPaths),
+    }));
+
+/**
+ * The tool a message talks to: assistant messages addressed to a recipient
+ * other than `all` are calls, `tool` messages are results.
+ */
+export const resolveToolInteraction = (message: Message): TranscriptToolInteraction | null => {
+    if (message.author.role === 'tool') {
+        return { kind: 'result', name: message.author.name?.trim() || 'tool' };
+    }
+    const recipient = message.recipient?.trim();
+    return message.author.role === 'assistant' && recipient && recipient !== 'all'
+        ? { kind: 'call', name: recipient }
+        : null;
+};
+
+const resolveCodeLanguage = (message: Message) => {
+    const language = message.content.language?.trim().toLowerCase();
+    return language && language !== 'unknown' ? language : null;
+};
+
+const CANVAS_EXTENSIONS: Record<string, string> = {
+    document: 'md',
+    python: 'py',
+    javascript: 'js',
+    typescript: 'ts',
+    react: 'jsx',
+    html: 'html',
+    css: 'css',
+    java: 'java',
+    go: 'go',
+    rust: 'rs',
+    cpp: 'cpp',
+    c: 'c',
+    bash: 'sh',
+    sql: 'sql',
+    json: 'json',
+};
+
+/** `document` and `code/<language>` canvas types map to a Markdown or source file. */
+const toTranscriptCanvas = (message: Message): TranscriptCanvas | null => {
+    const canvas = extractMessageCanvasDocument(message);
+    if (!canvas) {
+        return null;
+    }
+    const language = canvas.type.startsWith('code/') ? canvas.type.slice('code/'.length) : 'markdown';
+    const extension = CANVAS_EXTENSIONS[canvas.type === 'document' ? 'document' : language] ?? 'txt';
+    return {
+        title: canvas.title,
+        filename: `${sanitizeFilename(canvas.title)}.${extension}`,
+        language,
+        content: canvas.content,
+    };
+};
+
+const toTranscriptEntry = (message: Message, options: TranscriptRenderOptions): TranscriptEntry | null => {
+    if (isHiddenMessage(message)) {
+        return null;
+    }
+    const includeThoughts = options.includeThoughts !== false;
+    const contentType = message.content.content_type;
+    if (contentType === 'reasoning_recap' && !includeThoughts) {
+        return null;
+    }
+    const sources = extractMessageSources(message);
+    const canvas = toTranscriptCanvas(message);
+    const entry: TranscriptEntry = {
+        id: message.id,
+        role: message.author.role,
+        roleLabel: ROLE_LABELS[message.author.role] ?? 'Message',
+        contentType,
+        timestamp:
+            options.includeTimestamps === false ? null : toIsoTimestamp(message.create_time ?? message.update_time),
+        // A canvas write's text is the raw tool-call JSON; the document is rendered instead.
+        text: canvas ? '' : resolveCitationMarkers(extractTranscriptText(message), sources),
+        language: resolveCodeLanguage(message),
+        thoughts: includeThoughts ? extractThoughts(message) : [],
+        sources,
+        attachments: extractTranscriptAttachments(message, options),
+        tool: resolveToolInteraction(message),
+        canvas,
+    };
+    return entry.text || entry.thoughts.length > 0 || entry.attachments.length > 0 || entry.canvas ? entry : null;
+};
+
+/**
+ * Converts an ordered message path into transcript entries, dropping hidden
+ * system scaffolding and messages without renderable content.
+ */
+export const buildTranscriptEntriesFromMessages = (
+    messages: Message[],
+    options: TranscriptRenderOptions = {},
+): TranscriptEntry[] => {
+    const entries: TranscriptEntry[] = [];
+    for (const message of messages) {
+        const entry = toTranscriptEntry(message, options);
+        if (entry) {
+            entries.push(entry);
+        }
+    }
+    return entries;
+};
+
+/**
+ * Returns the visible messages on the active branch, in conversation order.
+ */
+export const buildTranscriptEntries = (data: ConversationData, options: TranscriptRenderOptions = {}) =>
+    buildTranscriptEntriesFromMessages(extractActiveMessageChain(data), options);
+
+/**
+ * Returns the labelled header fields (platform, model, ids, timestamps) that
+ * have a value, in display order.
+ */
+export const buildTranscriptHeaderFields = (
+    data: ConversationData,
+    options: TranscriptRenderOptions = {},
+): Array<[string, string]> => {
+    const fields: Array<[string, string | null | undefined]> = [
+        ['Platform', options.platform],
+        ['Model', extractConversationModel(data)],
+        ['Conversation ID', data.conversation_id],
+        ['Created', toIsoTimestamp(data.create_time)],
+        ['Updated', toIsoTimestamp(data.update_time)],
+    ];
+    if (options.exportMeta) {
+        fields.push([
+            'Capture',
+            `${options.exportMeta.captureSource} (${options.exportMeta.fidelity}, ${options.exportMeta.completeness})`,
+        ]);
+    }
+    return fields.filter((field): field is [string, string] => !!field[1]);
+};
+
+export const resolveTranscriptTitle = (data: ConversationData) => data.title?.trim() || 'Conversation';
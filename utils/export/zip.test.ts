@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'bun:test';
+import { readStoredZipEntries } from '@/utils/export/__tests__/zip-reader';
+import { crc32, createZipWriter } from '@/utils/export/zip';
+
+describe('zip writer', () => {
+    it('should compute the standard CRC-32 check value', () => {
+        expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+        expect(crc32(new Uint8Array())).toBe(0);
+    });
+
+    it('should write entries that can be read back through the central directory', async () => {
+        const writer = createZipWriter();
+        writer.addFile({ path: 'conversations/chat.md', content: '# Hello\n' });
+        writer.addFile({ path: 'données/été.json', content: '{"ok":true}' });
+        expect(writer.size).toBe(2);
+
+        const archive = writer.finish();
+        const entries = await readStoredZipEntries(archive);
+
+        expect(archive.type).toBe('application/zip');
+        expect(entries.map((entry) => entry.name)).toEqual(['conversations/chat.md', 'données/été.json']);
+        expect(entries[0]?.text).toBe('# Hello\n');
+        expect(entries[1]?.crc).toBe(crc32(new TextEncoder().encode('{"ok":true}')));
+    });
+
+    it('should normalize paths and reject duplicates, empty paths and writes after finish', () => {
+        const writer = createZipWriter();
+        writer.addFile({ path: '../a\\b.txt', content: 'x' });
+
+        expect(() => writer.addFile({ path: 'a/b.txt', content: 'y' })).toThrow('Duplicate ZIP entry path: "a/b.txt"');
+        expect(() => writer.addFile({ path: '/..', content: 'y' })).toThrow('Invalid ZIP entry path');
+
+        writer.finish();
+
+        expect(() => writer.addFile({ path: 'late.txt', content: 'z' })).toThrow('already finished');
+        expect(() => writer.finish()).toThrow('already finished');
+    });
+});
@@ -0,0 +1,193 @@
+/**
+ * ZIP Archive Writer
+ *
+ * Minimal, dependency-free ZIP writer used to bundle bulk exports into one
+ * download. Entries are stored uncompressed (method 0) with UTF-8 names, and
+ * each file is encoded into its local header + data chunk as soon as it is
+ * added, so callers can release the source conversation before the next one
+ * is fetched. Archives stay below the classic (non-ZIP64) 4 GiB / 65 535
+ * entry limits, which bulk exports do not approach.
+ *
+ * @module utils/export/zip
+ */
+
+export type ZipEntryInput = {
+    /** Archive-relative path using `/` separators (e.g. `conversations/chat.json`). */
+    path: string;
+    content: string | Uint8Array;
+    modifiedAt?: Date;
+};
+
+export type ZipWriter = {
+    addFile: (entry: ZipEntryInput) => void;
+    /** Number of files added so far. */
+    readonly size: number;
+    /** Appends the central directory and returns the archive. The writer cannot be reused. */
+    finish: () => Blob;
+};
+
+type CentralDirectoryRecord = {
+    nameBytes: Uint8Array;
+    crc: number;
+    byteLength: number;
+    dosTime: number;
+    dosDate: number;
+    offset: number;
+};
+
+const ZIP_MIME_TYPE = 'application/zip';
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const VERSION_NEEDED = 20;
+const UTF8_FILENAME_FLAG = 0x0800;
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n += 1) {
+        let c = n;
+        for (let k = 0; k < 8; k += 1) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (const byte of bytes) {
+        crc = (CRC32_TABLE[(crc ^ byte) & 0xff] as number) ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+/** Encodes a date as MS-DOS time/date words (2-second precision, local time, 1980 floor). */
+const toDosDateTime = (date: Date) => {
+    const year = Math.max(1980, date.getFullYear());
+    return {
+        dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+};
+
+const normalizeEntryPath = (path: string) =>
+    path
+        .replace(/\\/g, '/')
+        .split('/')
+        .filter((segment) => segment.length > 0 && segment !== '.' && segment !== '..')
+        .join('/');
+
+const buildLocalHeader = (record: CentralDirectoryRecord) => {
+    const header = new Uint8Array(30 + record.nameBytes.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true);
+    view.setUint16(4, VERSION_NEEDED, true);
+    view.setUint16(6, UTF8_FILENAME_FLAG, true);
+    view.setUint16(8, 0, true);
+    view.setUint16(10, record.dosTime, true);
+    view.setUint16(12, record.dosDate, true);
+    view.setUint32(14, record.crc, true);
+    view.setUint32(18, record.byteLength, true);
+    view.setUint32(22, record.byteLength, true);
+    view.setUint16(26, record.nameBytes.length, true);
+    view.setUint16(28, 0, true);
+    header.set(record.nameBytes, 30);
+    return header;
+};
+
+const buildCentralDirectoryEntry = (record: CentralDirectoryRecord) => {
+    const entry = new Uint8Array(46 + record.nameBytes.length);
+    const view = new DataView(entry.buffer);
+    view.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true);
+    view.setUint16(4, VERSION_NEEDED, true);
+    view.setUint16(6, VERSION_NEEDED, true);
+    view.setUint16(8, UTF8_FILENAME_FLAG, true);
+    view.setUint16(10, 0, true);
+    view.setUint16(12, record.dosTime, true);
+    view.setUint16(14, record.dosDate, true);
+    view.setUint32(16, record.crc, true);
+    view.setUint32(20, record.byteLength, true);
+    view.setUint32(24, record.byteLength, true);
+    view.setUint16(28, record.nameBytes.length, true);
+    view.setUint32(42, record.offset, true);
+    entry.set(record.nameBytes, 46);
+    return entry;
+};
+
+const buildEndOfCentralDirectory = (entryCount: number, directorySize: number, directoryOffset: number) => {
+    const end = new Uint8Array(22);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    view.setUint16(8, entryCount, true);
+    view.setUint16(10, entryCount, true);
+    view.setUint32(12, directorySize, true);
+    view.setUint32(16, directoryOffset, true);
+    return end;
+};
+
+/**
+ * Creates an incremental ZIP writer. Duplicate paths are rejected so callers
+ * keep filenames unique (bulk export already de-duplicates them).
+ */
+export const createZipWriter = (): ZipWriter => {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const records: CentralDirectoryRecord[] = [];
+    const paths = new Set<string>();
+    let offset = 0;
+    let finished = false;
+
+    const addFile = ({ path, content, modifiedAt = new Date() }: ZipEntryInput) => {
+        if (finished) {
+            throw new Error('ZIP archive is already finished.');
+        }
+        const normalizedPath = normalizeEntryPath(path);
+        if (!normalizedPath) {
+            throw new Error(`Invalid ZIP entry path: "${path}"`);
+        }
+        if (paths.has(normalizedPath)) {
+            throw new Error(`Duplicate ZIP entry path: "${normalizedPath}"`);
+        }
+        if (records.length >= MAX_ENTRIES) {
+            throw new Error('ZIP archive entry limit reached.');
+        }
+        const data = typeof content === 'string' ? encoder.encode(content) : content;
+        const record: CentralDirectoryRecord = {
+            nameBytes: encoder.encode(normalizedPath),
+            crc: crc32(data),
+            byteLength: data.length,
+            offset,
+            ...toDosDateTime(modifiedAt),
+        };
+        const header = buildLocalHeader(record);
+        if (offset + header.length + data.length > MAX_OFFSET) {
+            throw new Error('ZIP archive size limit reached.');
+        }
+        chunks.push(header, data);
+        offset += header.length + data.length;
+        records.push(record);
+        paths.add(normalizedPath);
+    };
+
+    const finish = () => {
+        if (finished) {
+            throw new Error('ZIP archive is already finished.');
+        }
+        finished = true;
+        const directory = records.map(buildCentralDirectoryEntry);
+        const directorySize = directory.reduce((total, entry) => total + entry.length, 0);
+        const parts = [...chunks, ...directory, buildEndOfCentralDirectory(records.length, directorySize, offset)];
+        return new Blob(parts as BlobPart[], { type: ZIP_MIME_TYPE });
+    };
+
+    return {
+        addFile,
+        get size() {
+            return records.length;
+        },
+        finish,
+    };
+};
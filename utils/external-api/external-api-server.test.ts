@@ -0,0 +1,206 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { buildSimpleConversation } from '@/utils/export/__tests__/fixtures';
+import { createExternalApiServer, type ExternalApiPort } from '@/utils/external-api/external-api-server';
+import { EXTERNAL_API_EVENTS_PORT } from '@/utils/protocol/external-api';
+
+const EXPORT_META = {
+    captureSource: 'canonical_api' as const,
+    fidelity: 'high' as const,
+    completeness: 'complete' as const,
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const createServer = (overrides: { allowedIds?: string[]; tabReply?: unknown; activeTabId?: number | null } = {}) => {
+    const sendTabMessage = mock(async (_tabId: number, _message: unknown) => overrides.tabReply);
+    const onSubscribedChange = mock((_subscribed: boolean) => {});
+    const server = createExternalApiServer({
+        getAllowedExtensionIds: async () => overrides.allowedIds ?? ['friend-extension'],
+        resolveActiveTabId: async () => (overrides.activeTabId === undefined ? 3 : overrides.activeTabId),
+        sendTabMessage,
+        onSubscribedChange,
+        logger: { info: () => {}, warn: () => {} },
+    });
+    return { server, sendTabMessage, onSubscribedChange };
+};
+
+const request = (server: ReturnType<typeof createServer>['server'], message: unknown, senderId = 'friend-extension') =>
+    new Promise<any>((resolve) => server.handleMessage(message, { id: senderId }, resolve));
+
+const createPort = (senderId = 'friend-extension') => {
+    const listeners = { message: [] as Array<(message: unknown) => void>, disconnect: [] as Array<() => void> };
+    const port = {
+        name: EXTERNAL_API_EVENTS_PORT,
+        sender: { id: senderId },
+        postMessage: mock((_message: unknown) => {}),
+        disconnect: mock(() => {}),
+        onMessage: { addListener: (callback: (message: unknown) => void) => listeners.message.push(callback) },
+        onDisconnect: { addListener: (callback: () => void) => listeners.disconnect.push(callback) },
+    } satisfies ExternalApiPort;
+    const send = (message: unknown) => {
+        for (const listener of listeners.message) {
+            listener(message);
+        }
+    };
+    const close = () => {
+        for (const listener of listeners.disconnect) {
+            listener();
+        }
+    };
+    return { port, send, close };
+};
+
+describe('external-api-server', () => {
+    it('should reject extensions that are not allowlisted', async () => {
+        const { server, sendTabMessage } = createServer();
+
+        const response = await request(server, { version: 1, type: 'conversation.get' }, 'stranger');
+        expect(response).toEqual({
+            ok: false,
+            version: 1,
+            error: { code: 'unauthorized', message: 'Extension is not on the Blackiya allowlist' },
+        });
+        expect(sendTabMessage).not.toHaveBeenCalled();
+    });
+
+    it('should answer pings and refuse unknown versions', async () => {
+        const { server } = createServer();
+
+        expect(await request(server, { version: 1, type: 'ping' })).toEqual({
+            ok: true,
+            version: 1,
+            events: ['conversation-ready', 'lifecycle'],
+        });
+        expect((await request(server, { version: 2, type: 'ping' })).error.code).toBe('unsupported_version');
+        expect((await request(server, { version: 1, type: 'drop-table' })).error.code).toBe('invalid_request');
+    });
+
+    it('should forward conversation requests to the active tab and add the tab ID', async () => {
+        const conversation = buildSimpleConversation();
+        const { server, sendTabMessage } = createServer({
+            tabReply: {
+                ok: true,
+                conversation: {
+                    platform: 'ChatGPT',
+                    conversationId: conversation.conversation_id,
+                    attemptId: 'attempt-1',
+                    exportMeta: EXPORT_META,
+                    conversation,
+                },
+            },
+        });
+
+        const response = await request(server, { version: 1, type: 'conversation.get' });
+        expect(sendTabMessage.mock.calls[0]).toEqual([
+            3,
+            { type: 'BLACKIYA_EXTERNAL_TAB_REQUEST', action: 'conversation.get' },
+        ]);
+        expect(response).toMatchObject({ ok: true, version: 1, tabId: 3, platform: 'ChatGPT', attemptId: 'attempt-1' });
+        expect(response.conversation.conversation_id).toBe(conversation.conversation_id);
+    });
+
+    it('should relay tab failures and unreachable tabs as error codes', async () => {
+        const notReady = createServer({ tabReply: { ok: false, code: 'not_ready', message: 'Still generating' } });
+        expect(
+            await request(notReady.server, { version: 1, type: 'export.trigger', tabId: 9, format: 'markdown' }),
+        ).toEqual({
+            ok: false,
+            version: 1,
+            error: { code: 'not_ready', message: 'Still generating' },
+        });
+        expect(notReady.sendTabMessage.mock.calls[0]?.[1]).toEqual({
+            type: 'BLACKIYA_EXTERNAL_TAB_REQUEST',
+            action: 'export.trigger',
+            format: 'markdown',
+        });
+
+        const noTab = createServer({ activeTabId: null });
+        expect((await request(noTab.server, { version: 1, type: 'conversation.get' })).error.code).toBe('no_tab');
+    });
+
+    it('should push subscribed events and strip conversations unless requested', async () => {
+        const { server } = createServer();
+        const lean = createPort();
+        const full = createPort();
+        server.handleConnect(lean.port);
+        server.handleConnect(full.port);
+        lean.send({ version: 1, type: 'subscribe', events: ['conversation-ready'] });
+        full.send({
+            version: 1,
+            type: 'subscribe',
+            events: ['conversation-ready', 'lifecycle'],
+            tabId: 4,
+            includeConversation: true,
+        });
+        await flush();
+
+        const conversation = buildSimpleConversation();
+        server.publish(4, {
+            event: 'conversation-ready',
+            platform: 'ChatGPT',
+            conversationId: conversation.conversation_id,
+            attemptId: 'attempt-1',
+            exportMeta: EXPORT_META,
+            conversation,
+        });
+        server.publish(5, {
+            event: 'lifecycle',
+            platform: 'ChatGPT',
+            conversationId: null,
+            attemptId: null,
+            phase: 'streaming',
+        });
+
+        expect(lean.port.postMessage.mock.calls.map((call) => call[0])).toEqual([
+            { ok: true, version: 1, type: 'subscribed', events: ['conversation-ready'] },
+            {
+                type: 'event',
+                version: 1,
+                event: 'conversation-ready',
+                tabId: 4,
+                platform: 'ChatGPT',
+                conversationId: conversation.conversation_id,
+                attemptId: 'attempt-1',
+                exportMeta: EXPORT_META,
+            },
+        ]);
+        const fullEvents = full.port.postMessage.mock.calls
+            .map((call) => call[0] as any)
+            .filter((m) => m.type === 'event');
+        expect(fullEvents).toHaveLength(1);
+        expect(fullEvents[0].conversation.conversation_id).toBe(conversation.conversation_id);
+    });
+
+    it('should report when the first port subscribes and the last one leaves', async () => {
+        const { server, onSubscribedChange } = createServer();
+        const first = createPort();
+        const second = createPort();
+        server.handleConnect(first.port);
+        server.handleConnect(second.port);
+        await flush();
+        expect(onSubscribedChange).not.toHaveBeenCalled();
+
+        first.send({ version: 1, type: 'subscribe', events: ['lifecycle'] });
+        second.send({ version: 1, type: 'subscribe', events: ['conversation-ready'] });
+        await flush();
+        first.close();
+        expect(onSubscribedChange.mock.calls).toEqual([[true]]);
+
+        second.close();
+        expect(onSubscribedChange.mock.calls).toEqual([[true], [false]]);
+    });
+
+    it('should disconnect unauthorized ports and ports removed from the allowlist', async () => {
+        const { server } = createServer();
+        const stranger = createPort('stranger');
+        const friend = createPort();
+        server.handleConnect(stranger.port);
+        server.handleConnect(friend.port);
+        await flush();
+        expect(stranger.port.disconnect).toHaveBeenCalledTimes(1);
+        expect(friend.port.disconnect).not.toHaveBeenCalled();
+
+        server.applyAllowlist([]);
+        expect(friend.port.disconnect).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,230 @@
+/**
+ * External API Server
+ *
+ * Background side of the versioned external extension API
+ * (`utils/protocol/external-api.ts`). Requests from allowlisted extensions are
+ * answered directly (`ping`) or forwarded to the content script of the target
+ * tab; event ports receive the `conversation-ready` / `lifecycle` events that
+ * content scripts report, filtered by each port's subscription. Ports whose
+ * extension leaves the allowlist are disconnected. Whether any port is
+ * subscribed is reported through `onSubscribedChange`, so content scripts can
+ * skip publishing events nobody receives.
+ *
+ * @module utils/external-api/external-api-server
+ */
+
+import type { logger } from '@/utils/logger';
+import {
+    EXTERNAL_API_EVENTS,
+    EXTERNAL_API_EVENTS_PORT,
+    EXTERNAL_API_VERSION,
+    EXTERNAL_TAB_REQUEST_MESSAGE,
+    type ExternalApiErrorCode,
+    type ExternalEventMessage,
+    type ExternalExportRequest,
+    type ExternalGetConversationRequest,
+    type ExternalSubscribeMessage,
+    type ExternalTabEventMessage,
+    type ExternalTabRequestMessage,
+    externalApiFailure,
+    isExternalApiRequest,
+    isExternalSubscribeMessage,
+} from '@/utils/protocol/external-api';
+
+/** The subset of `runtime.Port` the server uses. */
+export type ExternalApiPort = {
+    name: string;
+    sender?: { id?: string };
+    postMessage: (message: unknown) => void;
+    disconnect: () => void;
+    onMessage: { addListener: (callback: (message: unknown) => void) => void };
+    onDisconnect: { addListener: (callback: () => void) => void };
+};
+
+export type ExternalApiServerDeps = {
+    getAllowedExtensionIds: () => Promise<string[]>;
+    /** Active tab of the focused window, used when a request names no tab. */
+    resolveActiveTabId: () => Promise<number | null>;
+    sendTabMessage: (tabId: number, message: ExternalTabRequestMessage) => Promise<unknown>;
+    /** Called when the first port subscribes and when the last subscribed port goes away. */
+    onSubscribedChange?: (subscribed: boolean) => void;
+    logger: Pick<typeof logger, 'info' | 'warn'>;
+};
+
+type PortState = {
+    extensionId: string;
+    authorized: Promise<boolean>;
+    subscription: ExternalSubscribeMessage | null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toTabRequest = (request: ExternalGetConversationRequest | ExternalExportRequest): ExternalTabRequestMessage =>
+    request.type === 'export.trigger'
+        ? { type: EXTERNAL_TAB_REQUEST_MESSAGE, action: 'export.trigger', format: request.format }
+        : { type: EXTERNAL_TAB_REQUEST_MESSAGE, action: 'conversation.get' };
+
+/** Maps an `ExternalTabResponse` from the content script onto the external response shape. */
+const toExternalResponse = (tabId: number, reply: unknown) => {
+    if (!isRecord(reply) || typeof reply.ok !== 'boolean') {
+        return externalApiFailure('unavailable', `Tab ${tabId} sent no usable response`);
+    }
+    if (!reply.ok) {
+        return externalApiFailure(reply.code as ExternalApiErrorCode, String(reply.message));
+    }
+    const body = isRecord(reply.conversation) ? reply.conversation : { filename: reply.filename };
+    return { ok: true, version: EXTERNAL_API_VERSION, tabId, ...body };
+};
+
+export const createExternalApiServer = (deps: ExternalApiServerDeps) => {
+    const ports = new Map<ExternalApiPort, PortState>();
+    let subscribed = false;
+
+    const syncSubscribed = () => {
+        const next = [...ports.values()].some((state) => state.subscription !== null);
+        if (next !== subscribed) {
+            subscribed = next;
+            deps.onSubscribedChange?.(next);
+        }
+    };
+
+    const removePort = (port: ExternalApiPort) => {
+        ports.delete(port);
+        syncSubscribed();
+    };
+
+    const isAllowed = async (extensionId: string | undefined) =>
+        !!extensionId && (await deps.getAllowedExtensionIds()).includes(extensionId);
+
+    const forwardToTab = async (request: ExternalGetConversationRequest | ExternalExportRequest) => {
+        const tabId = request.tabId ?? (await deps.resolveActiveTabId());
+        if (tabId === null) {
+            return externalApiFailure('no_tab', 'No active tab to serve the request');
+        }
+        try {
+            return toExternalResponse(tabId, await deps.sendTabMessage(tabId, toTabRequest(request)));
+        } catch {
+            return externalApiFailure('no_tab', `Tab ${tabId} is not a supported conversation page`);
+        }
+    };
+
+    const handleRequest = async (message: unknown, extensionId: string | undefined): Promise<unknown> => {
+        if (!(await isAllowed(extensionId))) {
+            deps.logger.warn('Rejected external API request from an extension not on the allowlist', { extensionId });
+            return externalApiFailure('unauthorized', 'Extension is not on the Blackiya allowlist');
+        }
+        if (!isExternalApiRequest(message)) {
+            return externalApiFailure('invalid_request', 'Unrecognized external API request');
+        }
+        if (message.version !== EXTERNAL_API_VERSION) {
+            return externalApiFailure('unsupported_version', `Supported version: ${EXTERNAL_API_VERSION}`);
+        }
+        if (message.type === 'ping') {
+            return { ok: true, version: EXTERNAL_API_VERSION, events: EXTERNAL_API_EVENTS };
+        }
+        return forwardToTab(message);
+    };
+
+    /** `runtime.onMessageExternal` listener; always answers asynchronously. */
+    const handleMessage = (
+        message: unknown,
+        sender: { id?: string },
+        sendResponse: (response: unknown) => void,
+    ): true => {
+        void handleRequest(message, sender.id).then(sendResponse);
+        return true;
+    };
+
+    const postToPort = (port: ExternalApiPort, message: unknown) => {
+        try {
+            port.postMessage(message);
+        } catch {
+            removePort(port);
+        }
+    };
+
+    const handleSubscribe = (port: ExternalApiPort, state: PortState, message: unknown) => {
+        if (!isExternalSubscribeMessage(message)) {
+            postToPort(port, externalApiFailure('invalid_request', 'Expected a subscribe message'));
+            return;
+        }
+        if (message.version !== EXTERNAL_API_VERSION) {
+            postToPort(port, externalApiFailure('unsupported_version', `Supported version: ${EXTERNAL_API_VERSION}`));
+            return;
+        }
+        state.subscription = message;
+        syncSubscribed();
+        postToPort(port, { ok: true, version: EXTERNAL_API_VERSION, type: 'subscribed', events: message.events });
+    };
+
+    /**
+     * `runtime.onConnectExternal` listener. Listeners attach synchronously so a
+     * subscribe sent right after `connect` isn't lost; they act only once the
+     * sender is confirmed on the allowlist.
+     */
+    const handleConnect = (port: ExternalApiPort) => {
+        if (port.name !== EXTERNAL_API_EVENTS_PORT) {
+            return;
+        }
+        const extensionId = port.sender?.id ?? '';
+        const state: PortState = { extensionId, authorized: isAllowed(extensionId), subscription: null };
+        ports.set(port, state);
+        port.onDisconnect.addListener(() => removePort(port));
+        port.onMessage.addListener((message) => {
+            void state.authorized.then((authorized) => authorized && handleSubscribe(port, state, message));
+        });
+        void state.authorized.then((authorized) => {
+            if (authorized) {
+                return;
+            }
+            deps.logger.warn('Rejected external API port from an extension not on the allowlist', { extensionId });
+            postToPort(port, externalApiFailure('unauthorized', 'Extension is not on the Blackiya allowlist'));
+            removePort(port);
+            port.disconnect();
+        });
+    };
+
+    const buildEventMessage = (
+        tabId: number,
+        event: ExternalTabEventMessage['event'],
+        subscription: ExternalSubscribeMessage,
+    ): ExternalEventMessage | null => {
+        if (!subscription.events.includes(event.event)) {
+            return null;
+        }
+        if (subscription.tabId !== undefined && subscription.tabId !== tabId) {
+            return null;
+        }
+        if (event.event === 'conversation-ready' && !subscription.includeConversation) {
+            const { conversation: _omitted, ...withoutConversation } = event;
+            return { type: 'event', version: EXTERNAL_API_VERSION, tabId, ...withoutConversation };
+        }
+        return { type: 'event', version: EXTERNAL_API_VERSION, tabId, ...event };
+    };
+
+    /** Fans an event reported by a content script out to the matching subscriptions. */
+    const publish = (tabId: number, event: ExternalTabEventMessage['event']) => {
+        for (const [port, state] of ports) {
+            const message = state.subscription ? buildEventMessage(tabId, event, state.subscription) : null;
+            if (message) {
+                postToPort(port, message);
+            }
+        }
+    };
+
+    /** Disconnects ports whose extension is no longer allowlisted. */
+    const applyAllowlist = (allowedIds: string[]) => {
+        for (const [port, state] of ports) {
+            if (!allowedIds.includes(state.extensionId)) {
+                ports.delete(port);
+                port.disconnect();
+            }
+        }
+        syncSubscribed();
+    };
+
+    return { handleMessage, handleConnect, publish, applyAllowlist };
+};
+
+export type ExternalApiServer = ReturnType<typeof createExternalApiServer>;
@@ -98,6 +98,33 @@ describe('InterceptionManager', () => {
         expect(globalRef.__BLACKIYA_CAPTURE_QUEUE__).toEqual([]);
     });
 
+    it('should pass the request conversation ID of a capture to the adapter', () => {
+        const globalRef = {} as any;
+        const manager = new InterceptionManager(() => {}, {
+            window: windowInstance as any,
+            global: globalRef,
+        });
+        const parseInterceptedData = mock((_data: string, _url: string, _requestConversationId?: string) => null);
+        manager.updateAdapter({ name: 'DeepSeek', parseInterceptedData } as any);
+
+        globalRef.__BLACKIYA_CAPTURE_QUEUE__ = [
+            {
+                type: 'LLM_CAPTURE_DATA_INTERCEPTED',
+                url: 'https://chat.deepseek.com/api/v0/chat/completion',
+                data: 'event: ready',
+                conversationId: 'session-1',
+                __blackiyaToken: getSessionToken(),
+            },
+        ];
+        manager.flushQueuedMessages();
+
+        expect(parseInterceptedData).toHaveBeenCalledWith(
+            'event: ready',
+            'https://chat.deepseek.com/api/v0/chat/completion',
+            'session-1',
+        );
+    });
+
     it('should flush queued interceptor log messages on start', async () => {
         const manager = new InterceptionManager(() => {}, {
             window: windowInstance as any,
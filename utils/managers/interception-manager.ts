@@ -6,6 +6,7 @@
  * Manages the LRU cache of validation conversation data.
  */
 
+import { getPlatformDescriptor } from '@/platforms/descriptors';
 import type { LLMPlatform } from '@/platforms/types';
 import { isConversationReady } from '@/utils/conversation-readiness';
 import { logger } from '@/utils/logger';
@@ -14,6 +15,7 @@ import { getSessionToken, resolveTokenValidationFailureReason } from '@/utils/pr
 import { isGenericConversationTitle } from '@/utils/title-resolver';
 import type { ConversationData, Message, MessageNode } from '@/utils/types';
 
+/** Platforms whose streamed turns omit the prompt, so the interceptor forwards it as a hint. */
 export class InterceptionManager {
     private static readonly BLOCKED_KEYS = new Set(['__proto__', 'prototype', 'constructor']);
     private static readonly MAX_PENDING_TOKEN_MESSAGES = 300;
@@ -444,7 +446,11 @@ export class InterceptionManager {
         }
 
         try {
-            const data = this.currentAdapter.parseInterceptedData(message.data, message.url);
+            const data = this.currentAdapter.parseInterceptedData(
+                message.data,
+                message.url,
+                typeof message.conversationId === 'string' ? message.conversationId : undefined,
+            );
             this.applyPromptHintIfNeeded(data, message);
 
             if (data?.conversation_id) {
@@ -485,7 +491,7 @@ export class InterceptionManager {
             return;
         }
         const platform = typeof message?.platform === 'string' ? message.platform : (this.currentAdapter?.name ?? '');
-        if (platform !== 'Grok' && platform !== 'Gemini') {
+        if (!getPlatformDescriptor(platform)?.capturesPromptHints) {
             return;
         }
         const promptHint = typeof message?.promptHint === 'string' ? message.promptHint.trim() : '';
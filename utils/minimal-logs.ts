@@ -7,6 +7,7 @@
  * @module utils/minimal-logs
  */
 
+import { getPlatformDescriptors } from '@/platforms/descriptors';
 import type { LogEntry } from './logs-storage';
 
 const UUID_RE = /[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}/i;
@@ -366,14 +367,9 @@ const dedupeByPlatformConvId = (sessions: RawSession[]): SessionGroup[] => {
 };
 
 const inferPlatformFromLine = (line: string, entry: LogEntry): string => {
-    if (line.includes('Gemini')) {
-        return 'Gemini';
-    }
-    if (line.includes('ChatGPT')) {
-        return 'ChatGPT';
-    }
-    if (line.includes('Grok')) {
-        return 'Grok';
+    const named = getPlatformDescriptors().find((descriptor) => line.includes(descriptor.name));
+    if (named) {
+        return named.name;
     }
     const data = entry.data?.[0];
     if (data && typeof data === 'object') {
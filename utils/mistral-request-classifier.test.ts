@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'bun:test';
+
+import {
+    isMistralChatEndpoint,
+    shouldEmitMistralCompletion,
+    shouldEmitMistralLifecycle,
+} from '@/utils/mistral-request-classifier';
+
+const BASE = 'https://chat.mistral.ai/api';
+
+describe('mistral-request-classifier', () => {
+    it('should emit lifecycle for chat streams only', () => {
+        expect(isMistralChatEndpoint(`${BASE}/chat`)).toBeTrue();
+        expect(shouldEmitMistralLifecycle(`${BASE}/chat`)).toBeTrue();
+        expect(shouldEmitMistralLifecycle(`${BASE}/trpc/message.all?batch=1`)).toBeFalse();
+    });
+
+    it('should allow completion for history and chat endpoints but not chat listings', () => {
+        expect(shouldEmitMistralCompletion(`${BASE}/trpc/chat.byId,message.all?batch=1`)).toBeTrue();
+        expect(shouldEmitMistralCompletion(`${BASE}/chat`)).toBeTrue();
+        expect(shouldEmitMistralCompletion(`${BASE}/trpc/chat.list?batch=1`)).toBeFalse();
+    });
+});
@@ -0,0 +1,13 @@
+import { isMistralChatEndpointUrl, isMistralConversationEndpointUrl } from '@/platforms/mistral/registry';
+
+export const isMistralChatEndpoint = (url: string): boolean => {
+    return isMistralChatEndpointUrl(url);
+};
+
+export const shouldEmitMistralLifecycle = (url: string): boolean => {
+    return isMistralChatEndpoint(url);
+};
+
+export const shouldEmitMistralCompletion = (url: string): boolean => {
+    return isMistralConversationEndpointUrl(url);
+};
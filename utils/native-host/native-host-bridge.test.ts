@@ -0,0 +1,40 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { createNativeHostBridge } from '@/utils/native-host/native-host-bridge';
+import { NATIVE_HOST_NAME } from '@/utils/native-host/native-host-contract';
+
+const logger = { info: mock(() => {}), warn: mock(() => {}) };
+const request = { platform: 'ChatGPT', conversationId: 'conv-1', path: 'ChatGPT/2026/01/Plan.md', content: '# Plan' };
+
+describe('native-host-bridge', () => {
+    it('should send versioned write messages to the registered host', async () => {
+        const sendNativeMessage = mock(async () => ({ ok: true, path: '/vault/ChatGPT/2026/01/Plan.md' }));
+        const bridge = createNativeHostBridge({ getSendNativeMessage: () => sendNativeMessage, logger });
+
+        const result = await bridge.write(request);
+
+        expect(result).toEqual({ ok: true, path: '/vault/ChatGPT/2026/01/Plan.md' });
+        expect(sendNativeMessage).toHaveBeenCalledWith(NATIVE_HOST_NAME, { version: 1, type: 'write', ...request });
+    });
+
+    it('should report a missing permission without throwing', async () => {
+        const bridge = createNativeHostBridge({ getSendNativeMessage: () => undefined, logger });
+
+        expect(await bridge.ping()).toEqual({ ok: false, error: 'Native messaging permission is not granted' });
+    });
+
+    it('should turn host errors and malformed replies into failed results', async () => {
+        const missingHost = createNativeHostBridge({
+            getSendNativeMessage: () => async () => {
+                throw new Error('Specified native messaging host not found.');
+            },
+            logger,
+        });
+        const malformed = createNativeHostBridge({ getSendNativeMessage: () => async () => 'ok', logger });
+
+        expect(await missingHost.write(request)).toEqual({
+            ok: false,
+            error: 'Specified native messaging host not found.',
+        });
+        expect(await malformed.write(request)).toEqual({ ok: false, error: 'Native host sent an unexpected reply' });
+    });
+});
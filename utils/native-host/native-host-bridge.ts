@@ -0,0 +1,62 @@
+/**
+ * Native Host Bridge
+ *
+ * Background-side relay to the native messaging host. Every request is a
+ * one-shot `sendNativeMessage`, so the host only runs while it writes and no
+ * port has to survive service-worker suspension. Failures (permission not
+ * granted, host not installed, malformed reply) come back as `{ ok: false }`
+ * results rather than rejections, so callers can fall back to a download.
+ *
+ * @module utils/native-host/native-host-bridge
+ */
+
+import type { logger } from '@/utils/logger';
+import {
+    isNativeHostResult,
+    NATIVE_HOST_NAME,
+    NATIVE_HOST_PROTOCOL_VERSION,
+    type NativeHostMessage,
+    type NativeHostResult,
+    type NativeHostWriteRequest,
+} from '@/utils/native-host/native-host-contract';
+
+export type NativeHostBridgeDeps = {
+    /** `runtime.sendNativeMessage`; absent until the optional `nativeMessaging` permission is granted. */
+    getSendNativeMessage: () => ((application: string, message: NativeHostMessage) => Promise<unknown>) | undefined;
+    logger: Pick<typeof logger, 'info' | 'warn'>;
+};
+
+export const createNativeHostBridge = (deps: NativeHostBridgeDeps) => {
+    const send = async (message: NativeHostMessage): Promise<NativeHostResult> => {
+        const sendNativeMessage = deps.getSendNativeMessage();
+        if (!sendNativeMessage) {
+            return { ok: false, error: 'Native messaging permission is not granted' };
+        }
+        try {
+            const reply = await sendNativeMessage(NATIVE_HOST_NAME, message);
+            if (isNativeHostResult(reply)) {
+                return reply;
+            }
+            return { ok: false, error: 'Native host sent an unexpected reply' };
+        } catch (error) {
+            return { ok: false, error: error instanceof Error ? error.message : String(error) };
+        }
+    };
+
+    /** Asks the host for its root directory, confirming it is installed and reachable. */
+    const ping = () => send({ version: NATIVE_HOST_PROTOCOL_VERSION, type: 'ping' });
+
+    const write = async (request: NativeHostWriteRequest) => {
+        const result = await send({ version: NATIVE_HOST_PROTOCOL_VERSION, type: 'write', ...request });
+        if (result.ok) {
+            deps.logger.info('Export written by native host', { path: result.path });
+        } else {
+            deps.logger.warn('Native host write failed', { path: request.path, error: result.error });
+        }
+        return result;
+    };
+
+    return { ping, write };
+};
+
+export type NativeHostBridge = ReturnType<typeof createNativeHostBridge>;
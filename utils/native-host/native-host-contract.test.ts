@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    buildNativeHostExportPath,
+    isNativeHostRequestMessage,
+    isNativeHostResult,
+    NATIVE_HOST_REQUEST_MESSAGE,
+} from '@/utils/native-host/native-host-contract';
+
+const buildConversation = (overrides: Record<string, unknown> = {}): any => ({
+    conversation_id: 'conv-1',
+    title: 'Weekly Plan',
+    create_time: Date.UTC(2026, 0, 31, 23, 30) / 1000,
+    update_time: Date.UTC(2026, 1, 2) / 1000,
+    mapping: {},
+    ...overrides,
+});
+
+describe('native-host-contract', () => {
+    describe('buildNativeHostExportPath', () => {
+        it('should lay exports out by platform, creation year and month', () => {
+            expect(buildNativeHostExportPath('ChatGPT', buildConversation(), 'md')).toBe(
+                'ChatGPT/2026/01/Weekly_Plan.md',
+            );
+        });
+
+        it('should fall back to the update time when the creation time is missing', () => {
+            expect(buildNativeHostExportPath('Grok', buildConversation({ create_time: 0 }), 'json')).toBe(
+                'Grok/2026/02/Weekly_Plan.json',
+            );
+        });
+
+        it('should keep path segments free of separators and leading dots', () => {
+            const path = buildNativeHostExportPath('Gemini', buildConversation({ title: '../../etc/passwd' }), 'md');
+            expect(path).toBe('Gemini/2026/01/etcpasswd.md');
+        });
+
+        it('should name untitled conversations', () => {
+            expect(buildNativeHostExportPath('ChatGPT', buildConversation({ title: '' }), 'md')).toBe(
+                'ChatGPT/2026/01/untitled.md',
+            );
+        });
+    });
+
+    describe('guards', () => {
+        it('should accept ping and complete write requests only', () => {
+            expect(isNativeHostRequestMessage({ type: NATIVE_HOST_REQUEST_MESSAGE, action: 'ping' })).toBe(true);
+            expect(
+                isNativeHostRequestMessage({
+                    type: NATIVE_HOST_REQUEST_MESSAGE,
+                    action: 'write',
+                    request: { platform: 'ChatGPT', conversationId: 'c', path: 'a.md', content: '' },
+                }),
+            ).toBe(true);
+            expect(
+                isNativeHostRequestMessage({
+                    type: NATIVE_HOST_REQUEST_MESSAGE,
+                    action: 'write',
+                    request: { platform: 'ChatGPT', path: 'a.md', content: '' },
+                }),
+            ).toBe(false);
+            expect(isNativeHostRequestMessage({ type: 'PING' })).toBe(false);
+        });
+
+        it('should validate host replies', () => {
+            expect(isNativeHostResult({ ok: true, path: '/vault/a.md' })).toBe(true);
+            expect(isNativeHostResult({ ok: false, error: 'denied' })).toBe(true);
+            expect(isNativeHostResult({ ok: true })).toBe(false);
+            expect(isNativeHostResult(undefined)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,92 @@
+/**
+ * Native Host Contract
+ *
+ * Messages for writing exports into a local folder through the native
+ * messaging host (`scripts/native-export-host.ts`). The content script asks the
+ * background worker, which relays to the host with
+ * `runtime.sendNativeMessage(NATIVE_HOST_NAME, ...)`. The host owns the root
+ * directory; Blackiya only sends a relative `{platform}/{yyyy}/{mm}/{title}.{ext}`
+ * path, so re-saving a conversation overwrites its file.
+ *
+ * @module utils/native-host/native-host-contract
+ */
+
+import { sanitizeFilename } from '@/utils/download';
+import type { ConversationData } from '@/utils/types';
+
+/** Registered host name; must match the `name` in the host manifest. */
+export const NATIVE_HOST_NAME = 'com.blackiya.native_host';
+export const NATIVE_HOST_PROTOCOL_VERSION = 1;
+
+export const NATIVE_HOST_REQUEST_MESSAGE = 'BLACKIYA_NATIVE_HOST_REQUEST';
+
+const MAX_TITLE_SEGMENT_LENGTH = 120;
+
+export type NativeHostWriteRequest = {
+    /** Adapter display name (e.g. `ChatGPT`). */
+    platform: string;
+    conversationId: string;
+    /** `/`-separated path relative to the host's root directory. */
+    path: string;
+    content: string;
+};
+
+/** Content script / popup → background. */
+export type NativeHostRequestMessage =
+    | { type: typeof NATIVE_HOST_REQUEST_MESSAGE; action: 'ping' }
+    | { type: typeof NATIVE_HOST_REQUEST_MESSAGE; action: 'write'; request: NativeHostWriteRequest };
+
+/** Background → native host. */
+export type NativeHostMessage =
+    | { version: typeof NATIVE_HOST_PROTOCOL_VERSION; type: 'ping' }
+    | ({ version: typeof NATIVE_HOST_PROTOCOL_VERSION; type: 'write' } & NativeHostWriteRequest);
+
+/** Host reply, relayed unchanged to the caller; `path` is the absolute path written (or the root for `ping`). */
+export type NativeHostResult = { ok: true; path: string } | { ok: false; error: string };
+
+const toPathSegment = (value: string) =>
+    sanitizeFilename(value).replace(/^\.+/, '').slice(0, MAX_TITLE_SEGMENT_LENGTH) || 'untitled';
+
+/**
+ * `{platform}/{yyyy}/{mm}/{title}.{extension}`, dated by the conversation's
+ * creation time (UTC) so later turns keep the same path.
+ */
+export const buildNativeHostExportPath = (platform: string, data: ConversationData, extension: string) => {
+    const seconds = data.create_time || data.update_time;
+    const date = seconds ? new Date(seconds * 1000) : new Date();
+    const year = String(date.getUTCFullYear());
+    const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+    return `${toPathSegment(platform)}/${year}/${month}/${toPathSegment(data.title ?? '')}.${extension}`;
+};
+
+export const isNativeHostRequestMessage = (value: unknown): value is NativeHostRequestMessage => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const message = value as { type?: unknown; action?: unknown; request?: Record<string, unknown> };
+    if (message.type !== NATIVE_HOST_REQUEST_MESSAGE) {
+        return false;
+    }
+    if (message.action === 'ping') {
+        return true;
+    }
+    const request = message.request;
+    return (
+        message.action === 'write' &&
+        !!request &&
+        typeof request.platform === 'string' &&
+        typeof request.conversationId === 'string' &&
+        typeof request.path === 'string' &&
+        typeof request.content === 'string'
+    );
+};
+
+export const isNativeHostResult = (value: unknown): value is NativeHostResult => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const result = value as Record<string, unknown>;
+    return result.ok === true
+        ? typeof result.path === 'string'
+        : result.ok === false && typeof result.error === 'string';
+};
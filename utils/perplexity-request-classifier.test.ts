@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'bun:test';
+
+import {
+    isPerplexityAskEndpoint,
+    shouldEmitPerplexityCompletion,
+    shouldEmitPerplexityLifecycle,
+} from '@/utils/perplexity-request-classifier';
+
+const BASE = 'https://www.perplexity.ai/rest';
+
+describe('perplexity-request-classifier', () => {
+    it('should emit lifecycle for ask streams only', () => {
+        expect(isPerplexityAskEndpoint(`${BASE}/sse/perplexity_ask`)).toBeTrue();
+        expect(shouldEmitPerplexityLifecycle(`${BASE}/sse/perplexity_ask/reconnect/abc`)).toBeTrue();
+        expect(shouldEmitPerplexityLifecycle(`${BASE}/thread/mars-sky-AbCdEf`)).toBeFalse();
+    });
+
+    it('should allow completion for thread and ask endpoints but not thread listings', () => {
+        expect(shouldEmitPerplexityCompletion(`${BASE}/thread/mars-sky-AbCdEf?limit=100`)).toBeTrue();
+        expect(shouldEmitPerplexityCompletion(`${BASE}/sse/perplexity_ask`)).toBeTrue();
+        expect(shouldEmitPerplexityCompletion(`${BASE}/thread/list_ask_threads`)).toBeFalse();
+    });
+});
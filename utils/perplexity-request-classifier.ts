@@ -0,0 +1,13 @@
+import { isPerplexityAskEndpointUrl, isPerplexityConversationEndpointUrl } from '@/platforms/perplexity/registry';
+
+export const isPerplexityAskEndpoint = (url: string): boolean => {
+    return isPerplexityAskEndpointUrl(url);
+};
+
+export const shouldEmitPerplexityLifecycle = (url: string): boolean => {
+    return isPerplexityAskEndpoint(url);
+};
+
+export const shouldEmitPerplexityCompletion = (url: string): boolean => {
+    return isPerplexityConversationEndpointUrl(url);
+};
@@ -111,6 +111,9 @@ mock.module('@/utils/download', () => ({
     downloadAsJSON: (data: unknown, filename: string) => {
         downloadCalls.push({ data, filename });
     },
+    downloadAsFile: (content: string, filename: string, extension: string) => {
+        downloadCalls.push({ data: extension === 'json' ? JSON.parse(content) : content, filename });
+    },
 }));
 
 const loggerDebugCalls: Array<{ message: unknown; args: unknown[] }> = [];
@@ -31,6 +31,9 @@ mock.module('@/utils/download', () => ({
     downloadAsJSON: (data: unknown, filename: string) => {
         downloadCalls.push({ data, filename });
     },
+    downloadAsFile: (content: string, filename: string, extension: string) => {
+        downloadCalls.push({ data: extension === 'json' ? JSON.parse(content) : content, filename });
+    },
 }));
 
 mock.module('@/utils/logger', () => buildLoggerMock(loggerCalls));
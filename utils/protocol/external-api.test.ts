@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    EXTERNAL_EVENT_MESSAGE,
+    EXTERNAL_TAB_REQUEST_MESSAGE,
+    isExternalApiRequest,
+    isExternalSubscribeMessage,
+    isExternalTabEventMessage,
+    isExternalTabRequestMessage,
+} from '@/utils/protocol/external-api';
+
+describe('protocol/external-api', () => {
+    it('accepts each request type and rejects malformed ones', () => {
+        expect(isExternalApiRequest({ version: 1, type: 'ping' })).toBeTrue();
+        expect(isExternalApiRequest({ version: 1, type: 'conversation.get', tabId: 7 })).toBeTrue();
+        expect(isExternalApiRequest({ version: 2, type: 'export.trigger', format: 'markdown' })).toBeTrue();
+        expect(isExternalApiRequest({ version: 1, type: 'export.trigger', format: 'pdf' })).toBeFalse();
+        expect(isExternalApiRequest({ version: 1, type: 'conversation.get', tabId: -1 })).toBeFalse();
+        expect(isExternalApiRequest({ type: 'ping' })).toBeFalse();
+        expect(isExternalApiRequest({ version: 1, type: 'conversation.delete' })).toBeFalse();
+    });
+
+    it('validates subscribe messages', () => {
+        expect(
+            isExternalSubscribeMessage({
+                version: 1,
+                type: 'subscribe',
+                events: ['conversation-ready', 'lifecycle'],
+                includeConversation: true,
+            }),
+        ).toBeTrue();
+        expect(isExternalSubscribeMessage({ version: 1, type: 'subscribe', events: ['stream-delta'] })).toBeFalse();
+        expect(isExternalSubscribeMessage({ version: 1, type: 'subscribe', events: [], tabId: 'tab' })).toBeFalse();
+    });
+
+    it('validates the internal tab messages', () => {
+        expect(
+            isExternalTabEventMessage({
+                type: EXTERNAL_EVENT_MESSAGE,
+                event: { event: 'lifecycle', platform: 'ChatGPT', phase: 'streaming' },
+            }),
+        ).toBeTrue();
+        expect(isExternalTabEventMessage({ type: EXTERNAL_EVENT_MESSAGE, event: { event: 'lifecycle' } })).toBeFalse();
+        expect(
+            isExternalTabRequestMessage({ type: EXTERNAL_TAB_REQUEST_MESSAGE, action: 'conversation.get' }),
+        ).toBeTrue();
+        expect(
+            isExternalTabRequestMessage({
+                type: EXTERNAL_TAB_REQUEST_MESSAGE,
+                action: 'export.trigger',
+                format: 'html',
+            }),
+        ).toBeTrue();
+        expect(isExternalTabRequestMessage({ type: EXTERNAL_TAB_REQUEST_MESSAGE, action: 'delete' })).toBeFalse();
+    });
+});
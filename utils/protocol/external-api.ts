@@ -0,0 +1,170 @@
+/**
+ * External Extension API (v1)
+ *
+ * Wire schemas for other extensions talking to Blackiya through
+ * `runtime.sendMessage(blackiyaId, ...)` and `runtime.connect(blackiyaId, ...)`,
+ * plus the internal messages the background worker exchanges with content
+ * scripts to serve them. Every external message carries `version`; a request
+ * for a version this build doesn't speak is answered with `unsupported_version`.
+ * Only extension IDs on the user's allowlist get past the background worker.
+ *
+ * @module utils/protocol/external-api
+ */
+
+import type { LifecyclePhaseWire } from '@/utils/protocol/messages';
+import { type ExportFormat, isExportFormat } from '@/utils/settings';
+import type { ExportMeta } from '@/utils/sfe/types';
+import type { ConversationData } from '@/utils/types';
+
+export const EXTERNAL_API_VERSION = 1;
+/** `runtime.connect` name for event subscriptions. */
+export const EXTERNAL_API_EVENTS_PORT = 'blackiya.events';
+
+export const EXTERNAL_API_EVENTS = ['conversation-ready', 'lifecycle'] as const;
+export type ExternalApiEventName = (typeof EXTERNAL_API_EVENTS)[number];
+
+export type ExternalApiErrorCode =
+    | 'unauthorized'
+    | 'unsupported_version'
+    | 'invalid_request'
+    | 'no_tab'
+    | 'not_ready'
+    | 'unavailable';
+
+type Versioned = { version: number };
+
+/** Request addressed to a tab; the active tab of the focused window when `tabId` is omitted. */
+type TabScoped = { tabId?: number };
+
+export type ExternalPingRequest = Versioned & { type: 'ping' };
+export type ExternalGetConversationRequest = Versioned & TabScoped & { type: 'conversation.get' };
+export type ExternalExportRequest = Versioned & TabScoped & { type: 'export.trigger'; format?: ExportFormat };
+
+export type ExternalApiRequest = ExternalPingRequest | ExternalGetConversationRequest | ExternalExportRequest;
+
+export type ExternalConversationPayload = {
+    tabId: number;
+    /** Adapter display name (e.g. `ChatGPT`). */
+    platform: string;
+    conversationId: string;
+    attemptId: string | null;
+    exportMeta: ExportMeta;
+    conversation: ConversationData;
+};
+
+export type ExternalApiSuccess<T> = { ok: true; version: typeof EXTERNAL_API_VERSION } & T;
+export type ExternalApiFailure = {
+    ok: false;
+    version: typeof EXTERNAL_API_VERSION;
+    error: { code: ExternalApiErrorCode; message: string };
+};
+
+export type ExternalPingResponse = ExternalApiSuccess<{ events: readonly ExternalApiEventName[] }>;
+export type ExternalGetConversationResponse = ExternalApiSuccess<ExternalConversationPayload> | ExternalApiFailure;
+/** `filename` is the downloaded file name, including its extension. */
+export type ExternalExportResponse = ExternalApiSuccess<{ tabId: number; filename: string }> | ExternalApiFailure;
+
+/** First message on an events port; later subscribe messages replace the subscription. */
+export type ExternalSubscribeMessage = Versioned & {
+    type: 'subscribe';
+    events: ExternalApiEventName[];
+    /** Only events from this tab; all tabs when omitted. */
+    tabId?: number;
+    /** Attach the canonical `ConversationData` to `conversation-ready` events. */
+    includeConversation?: boolean;
+};
+
+export type ExternalConversationReadyEvent = {
+    event: 'conversation-ready';
+    tabId: number;
+    platform: string;
+    conversationId: string;
+    attemptId: string | null;
+    exportMeta: ExportMeta;
+    conversation?: ConversationData;
+};
+
+export type ExternalLifecycleEvent = {
+    event: 'lifecycle';
+    tabId: number;
+    platform: string;
+    conversationId: string | null;
+    attemptId: string | null;
+    phase: LifecyclePhaseWire | 'idle';
+};
+
+export type ExternalApiEvent = ExternalConversationReadyEvent | ExternalLifecycleEvent;
+
+/** Pushed to subscribed ports. */
+export type ExternalEventMessage = { type: 'event'; version: typeof EXTERNAL_API_VERSION } & ExternalApiEvent;
+
+/** Content script → background: an event from this tab, fanned out to subscribers (tab ID comes from the sender). */
+export const EXTERNAL_EVENT_MESSAGE = 'BLACKIYA_EXTERNAL_EVENT';
+export type ExternalTabEventMessage = {
+    type: typeof EXTERNAL_EVENT_MESSAGE;
+    event: Omit<ExternalConversationReadyEvent, 'tabId'> | Omit<ExternalLifecycleEvent, 'tabId'>;
+};
+
+/** Background → content script: serve an external request for this tab. */
+export const EXTERNAL_TAB_REQUEST_MESSAGE = 'BLACKIYA_EXTERNAL_TAB_REQUEST';
+export type ExternalTabRequestMessage =
+    | { type: typeof EXTERNAL_TAB_REQUEST_MESSAGE; action: 'conversation.get' }
+    | { type: typeof EXTERNAL_TAB_REQUEST_MESSAGE; action: 'export.trigger'; format?: ExportFormat };
+
+/** Content script reply; the background adds `tabId` and `version`. */
+export type ExternalTabResponse =
+    | { ok: true; conversation: Omit<ExternalConversationPayload, 'tabId'> }
+    | { ok: true; filename: string }
+    | { ok: false; code: ExternalApiErrorCode; message: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isOptionalTabId = (value: unknown) => value === undefined || (Number.isInteger(value) && (value as number) >= 0);
+
+const isExternalApiEventName = (value: unknown): value is ExternalApiEventName =>
+    typeof value === 'string' && (EXTERNAL_API_EVENTS as readonly string[]).includes(value);
+
+/** Structural check only; callers compare `version` themselves to answer `unsupported_version`. */
+export const isExternalApiRequest = (value: unknown): value is ExternalApiRequest => {
+    if (!isRecord(value) || typeof value.version !== 'number' || !isOptionalTabId(value.tabId)) {
+        return false;
+    }
+    switch (value.type) {
+        case 'ping':
+        case 'conversation.get':
+            return true;
+        case 'export.trigger':
+            return value.format === undefined || isExportFormat(value.format);
+        default:
+            return false;
+    }
+};
+
+export const isExternalSubscribeMessage = (value: unknown): value is ExternalSubscribeMessage =>
+    isRecord(value) &&
+    value.type === 'subscribe' &&
+    typeof value.version === 'number' &&
+    Array.isArray(value.events) &&
+    value.events.every(isExternalApiEventName) &&
+    isOptionalTabId(value.tabId) &&
+    (value.includeConversation === undefined || typeof value.includeConversation === 'boolean');
+
+export const isExternalTabEventMessage = (value: unknown): value is ExternalTabEventMessage =>
+    isRecord(value) &&
+    value.type === EXTERNAL_EVENT_MESSAGE &&
+    isRecord(value.event) &&
+    isExternalApiEventName(value.event.event) &&
+    typeof value.event.platform === 'string';
+
+export const isExternalTabRequestMessage = (value: unknown): value is ExternalTabRequestMessage =>
+    isRecord(value) &&
+    value.type === EXTERNAL_TAB_REQUEST_MESSAGE &&
+    (value.action === 'conversation.get' ||
+        (value.action === 'export.trigger' && (value.format === undefined || isExportFormat(value.format))));
+
+export const externalApiFailure = (code: ExternalApiErrorCode, message: string): ExternalApiFailure => ({
+    ok: false,
+    version: EXTERNAL_API_VERSION,
+    error: { code, message },
+});
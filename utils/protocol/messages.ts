@@ -58,6 +58,8 @@ export type CaptureInterceptedMessage = {
     url: string;
     data: string;
     attemptId?: string;
+    /** Conversation ID named by the request body, for endpoints whose URL carries none */
+    conversationId?: string;
     promptHint?: string;
 } & TokenStampedWireMessage;
 
@@ -0,0 +1,51 @@
+/**
+ * In-Page Events (v1)
+ *
+ * `CustomEvent`s the ISOLATED content script dispatches on `window` for
+ * userscripts running on a supported site, once the user has opted that site in:
+ *
+ * ```js
+ * window.addEventListener('blackiya:conversation-ready', (event) => {
+ *     const detail = JSON.parse(event.detail);
+ * });
+ * ```
+ *
+ * `detail` is a JSON string so it crosses the isolated/main world boundary the
+ * same way in every browser and hands the page a copy, never a reference into
+ * the content script. It carries no session token or request headers, and
+ * Blackiya never listens for these events, so a page that dispatches its own
+ * `blackiya:*` events can't drive the extension.
+ *
+ * @module utils/protocol/page-events
+ */
+
+import type { LifecyclePhaseWire } from '@/utils/protocol/messages';
+import type { ExportMeta } from '@/utils/sfe/types';
+import type { ConversationData } from '@/utils/types';
+
+export const PAGE_EVENTS_VERSION = 1;
+
+export const PAGE_EVENT_CONVERSATION_READY = 'blackiya:conversation-ready';
+export const PAGE_EVENT_LIFECYCLE = 'blackiya:lifecycle';
+
+export type PageEventName = typeof PAGE_EVENT_CONVERSATION_READY | typeof PAGE_EVENT_LIFECYCLE;
+
+/** Fired once per conversation content change when it reaches SFE `captured_ready`. */
+export type PageConversationReadyDetail = {
+    version: typeof PAGE_EVENTS_VERSION;
+    /** Adapter display name (e.g. `ChatGPT`). */
+    platform: string;
+    conversationId: string;
+    attemptId: string | null;
+    exportMeta: ExportMeta;
+    /** Present only when the site's rule has `includeConversation`. */
+    conversation?: ConversationData;
+};
+
+export type PageLifecycleDetail = {
+    version: typeof PAGE_EVENTS_VERSION;
+    platform: string;
+    conversationId: string | null;
+    attemptId: string | null;
+    phase: LifecyclePhaseWire | 'idle';
+};
@@ -0,0 +1,19 @@
+import type { RedactionPreview } from '@/utils/redaction/redaction';
+
+/** Sent by the popup to the active tab: a dry run of the given settings on the open conversation. */
+export const REDACTION_PREVIEW_MESSAGE = 'BLACKIYA_REDACTION_PREVIEW';
+
+export type RedactionPreviewMessage = {
+    type: typeof REDACTION_PREVIEW_MESSAGE;
+    /** Unsaved settings from the popup; normalized by the tab before use. */
+    settings: unknown;
+};
+
+export type RedactionPreviewResponse =
+    | { ok: true; title: string; preview: RedactionPreview }
+    | { ok: false; error: string };
+
+export const isRedactionPreviewMessage = (value: unknown): value is RedactionPreviewMessage =>
+    !!value &&
+    typeof value === 'object' &&
+    (value as Partial<RedactionPreviewMessage>).type === REDACTION_PREVIEW_MESSAGE;
@@ -0,0 +1,244 @@
+/**
+ * Export Redaction
+ *
+ * Scrubs personal data and secrets from a copy of `ConversationData` before it
+ * is serialized. Built-in detectors cover emails, payment card numbers
+ * (Luhn-checked), common API key / token formats and IP addresses; users add
+ * their own regular expressions and literal strings. Every string in the
+ * conversation is scanned except structural fields (IDs, roles, content
+ * types, statuses), so titles, message text and metadata such as citations
+ * are all covered. Each match becomes `[REDACTED:<KIND>]`.
+ *
+ * @module utils/redaction/redaction
+ */
+
+import type { RedactionDetector, RedactionSettings } from '@/utils/settings';
+import type { ConversationData } from '@/utils/types';
+
+export const REDACTION_SUMMARY_VERSION = 1;
+
+export type RedactionCategory = RedactionDetector | 'pattern' | 'literal';
+
+/** Recorded at `__blackiya.redaction`; it counts matches and never carries the redacted text. */
+export type RedactionSummary = {
+    version: typeof REDACTION_SUMMARY_VERSION;
+    total: number;
+    counts: Partial<Record<RedactionCategory, number>>;
+};
+
+export type RedactionSample = {
+    category: RedactionCategory;
+    match: string;
+    /** The match with a little surrounding text. */
+    context: string;
+};
+
+/** Dry-run result: what redaction would replace, without touching the conversation. */
+export type RedactionPreview = {
+    summary: RedactionSummary;
+    samples: RedactionSample[];
+    /** User patterns that don't compile and are skipped. */
+    invalidPatterns: string[];
+};
+
+type RedactionRule = {
+    category: RedactionCategory;
+    pattern: RegExp;
+    accept?: (match: string) => boolean;
+};
+
+type MatchListener = (category: RedactionCategory, match: string, text: string, index: number) => void;
+
+const PLACEHOLDER_LABELS: Record<RedactionCategory, string> = {
+    email: 'EMAIL',
+    creditCard: 'CARD',
+    secret: 'SECRET',
+    ipAddress: 'IP',
+    pattern: 'CUSTOM',
+    literal: 'CUSTOM',
+};
+
+/** Keys whose values identify or classify nodes rather than carry text. */
+const STRUCTURAL_KEYS = new Set([
+    'id',
+    'conversation_id',
+    'current_node',
+    'parent',
+    'children',
+    'content_type',
+    'role',
+    'status',
+    'recipient',
+    'channel',
+    'model_slug',
+    'default_model_slug',
+]);
+
+const SAMPLE_CONTEXT_CHARS = 24;
+const DEFAULT_MAX_SAMPLES = 20;
+
+const combinePatterns = (patterns: RegExp[]) => new RegExp(patterns.map(({ source }) => source).join('|'), 'g');
+
+const SECRET_PATTERN = combinePatterns([
+    /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/,
+    /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/,
+    /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/,
+    /\bgh[pousr]_[A-Za-z0-9]{36,}/,
+    /\bgithub_pat_[A-Za-z0-9_]{22,}/,
+    /\bxox[abprs]-[A-Za-z0-9-]{10,}/,
+    /\bAIza[0-9A-Za-z_-]{35}/,
+    /\b[rs]k_(?:live|test)_[0-9A-Za-z]{16,}/,
+    /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/,
+    /\bBearer\s+[A-Za-z0-9._~+/-]{16,}=*/,
+]);
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g;
+
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+const IPV4_OCTET = /(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)/.source;
+const IPV6_GROUP = /[0-9A-Fa-f]{1,4}/.source;
+const IP_PATTERN = combinePatterns([
+    new RegExp(`\\b(?:${IPV4_OCTET}\\.){3}${IPV4_OCTET}\\b`),
+    new RegExp(`(?<![\\w:])(?:${IPV6_GROUP}:){7}${IPV6_GROUP}(?![\\w:])`),
+    new RegExp(`(?<![\\w:])(?:${IPV6_GROUP}:){1,6}:(?:${IPV6_GROUP}:){0,5}${IPV6_GROUP}(?![\\w:])`),
+]);
+
+/** Luhn checksum, so order numbers and timestamps of card length aren't redacted. */
+const passesLuhn = (match: string) => {
+    const digits = match.replace(/\D/g, '');
+    let sum = 0;
+    for (let i = 0; i < digits.length; i += 1) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) {
+                digit -= 9;
+            }
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+};
+
+const BUILT_IN_RULES: Record<RedactionDetector, RedactionRule> = {
+    secret: { category: 'secret', pattern: SECRET_PATTERN },
+    email: { category: 'email', pattern: EMAIL_PATTERN },
+    creditCard: { category: 'creditCard', pattern: CARD_PATTERN, accept: passesLuhn },
+    ipAddress: { category: 'ipAddress', pattern: IP_PATTERN },
+};
+
+/** Secrets go first: tokens and key blocks can contain text the other detectors would split. */
+const BUILT_IN_ORDER: RedactionDetector[] = ['secret', 'email', 'creditCard', 'ipAddress'];
+
+const ALLOWED_PATTERN_FLAGS = new Set(['i', 'm', 's', 'u']);
+
+/** Compiles a user pattern written as source text or `/source/flags`; `null` when it is invalid. */
+export const compileRedactionPattern = (pattern: string): RegExp | null => {
+    const delimited = /^\/(.+)\/([a-z]*)$/s.exec(pattern);
+    const flags = delimited ? [...delimited[2]] : [];
+    if (flags.some((flag) => !ALLOWED_PATTERN_FLAGS.has(flag))) {
+        return null;
+    }
+    try {
+        return new RegExp(delimited ? delimited[1] : pattern, [...new Set([...flags, 'g'])].join(''));
+    } catch {
+        return null;
+    }
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const compileRedactionRules = (settings: RedactionSettings) => {
+    const rules = BUILT_IN_ORDER.filter((detector) => settings.detectors[detector]).map(
+        (detector) => BUILT_IN_RULES[detector],
+    );
+    const invalidPatterns: string[] = [];
+    for (const source of settings.patterns) {
+        const pattern = compileRedactionPattern(source);
+        if (pattern) {
+            rules.push({ category: 'pattern', pattern });
+        } else {
+            invalidPatterns.push(source);
+        }
+    }
+    for (const literal of settings.literals) {
+        rules.push({ category: 'literal', pattern: new RegExp(escapeRegExp(literal), 'gi') });
+    }
+    return { rules, invalidPatterns };
+};
+
+const applyRule = (text: string, rule: RedactionRule, onMatch: MatchListener) => {
+    let result = '';
+    let lastIndex = 0;
+    for (const found of text.matchAll(rule.pattern)) {
+        const match = found[0];
+        if (!match || (rule.accept && !rule.accept(match))) {
+            continue;
+        }
+        onMatch(rule.category, match, text, found.index);
+        result += `${text.slice(lastIndex, found.index)}[REDACTED:${PLACEHOLDER_LABELS[rule.category]}]`;
+        lastIndex = found.index + match.length;
+    }
+    return lastIndex === 0 ? text : result + text.slice(lastIndex);
+};
+
+const redactValue = (value: unknown, redactText: (text: string) => string): unknown => {
+    if (typeof value === 'string') {
+        return redactText(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => redactValue(item, redactText));
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, child]) => [
+                key,
+                STRUCTURAL_KEYS.has(key) ? child : redactValue(child, redactText),
+            ]),
+        );
+    }
+    return value;
+};
+
+const runRedaction = (data: ConversationData, settings: RedactionSettings, onMatch: MatchListener) => {
+    const { rules, invalidPatterns } = compileRedactionRules(settings);
+    const summary: RedactionSummary = { version: REDACTION_SUMMARY_VERSION, total: 0, counts: {} };
+    const countingListener: MatchListener = (category, match, text, index) => {
+        summary.total += 1;
+        summary.counts[category] = (summary.counts[category] ?? 0) + 1;
+        onMatch(category, match, text, index);
+    };
+    const redactText = (text: string) =>
+        rules.reduce((current, rule) => applyRule(current, rule, countingListener), text);
+    const redacted = rules.length > 0 ? (redactValue(data, redactText) as ConversationData) : data;
+    return { data: redacted, summary, invalidPatterns };
+};
+
+/** Returns a redacted copy of the conversation and what was replaced; `data` itself is not modified. */
+export const redactConversation = (
+    data: ConversationData,
+    settings: RedactionSettings,
+): { data: ConversationData; summary: RedactionSummary } => {
+    const { data: redacted, summary } = runRedaction(data, settings, () => {});
+    return { data: redacted, summary };
+};
+
+/** Dry run for the popup: counts and the first matches in context. */
+export const previewConversationRedaction = (
+    data: ConversationData,
+    settings: RedactionSettings,
+    maxSamples = DEFAULT_MAX_SAMPLES,
+): RedactionPreview => {
+    const samples: RedactionSample[] = [];
+    const { summary, invalidPatterns } = runRedaction(data, settings, (category, match, text, index) => {
+        if (samples.length >= maxSamples) {
+            return;
+        }
+        const start = Math.max(0, index - SAMPLE_CONTEXT_CHARS);
+        const end = Math.min(text.length, index + match.length + SAMPLE_CONTEXT_CHARS);
+        const context = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+        samples.push({ category, match, context: context.replace(/\s+/g, ' ') });
+    });
+    return { summary, samples, invalidPatterns };
+};
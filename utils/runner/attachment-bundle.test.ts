@@ -0,0 +1,75 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { buildAttachmentConversation } from '@/utils/export/__tests__/fixtures';
+import { bundleConversationAttachments } from '@/utils/runner/attachment-bundle';
+
+const PAGE_URL = 'https://chatgpt.com/c/abc';
+
+const binaryResponse = (bytes: number[], contentType: string) =>
+    new Response(new Uint8Array(bytes), { status: 200, headers: { 'content-type': contentType } });
+
+describe('attachment bundle', () => {
+    it('should follow signed download URLs and lay files out next to the transcript', async () => {
+        const fetchImpl = mock(async (url: string) => {
+            if (url === 'https://chatgpt.com/backend-api/files/download/file-pdf') {
+                return Response.json({ status: 'success', download_url: 'https://files.oaiusercontent.com/pdf?sig=1' });
+            }
+            if (url === 'https://files.oaiusercontent.com/pdf?sig=1') {
+                return binaryResponse([1, 2, 3], 'application/pdf');
+            }
+            return binaryResponse([9], 'image/webp');
+        });
+
+        const bundle = await bundleConversationAttachments(buildAttachmentConversation(), 'chat', {
+            fetchImpl: fetchImpl as unknown as typeof fetch,
+            authHeaders: { authorization: 'Bearer token' },
+            pageUrl: PAGE_URL,
+        });
+
+        expect(bundle.paths).toEqual({
+            'file-pdf': 'chat_files/01-Quarterly_report.pdf',
+            'file-chart': 'chat_files/02-image.webp',
+        });
+        expect(bundle.files.map(({ path, content }) => [path, [...content]])).toEqual([
+            ['chat_files/01-Quarterly_report.pdf', [1, 2, 3]],
+            ['chat_files/02-image.webp', [9]],
+        ]);
+        expect(bundle.failures).toEqual([]);
+    });
+
+    it('should send auth headers only to the page origin', async () => {
+        const requests: Array<{ url: string; init: RequestInit }> = [];
+        const fetchImpl = mock(async (url: string, init: RequestInit) => {
+            requests.push({ url, init });
+            return binaryResponse([0], 'application/octet-stream');
+        });
+
+        await bundleConversationAttachments(buildAttachmentConversation(), 'chat', {
+            fetchImpl: fetchImpl as unknown as typeof fetch,
+            authHeaders: { authorization: 'Bearer token' },
+            pageUrl: PAGE_URL,
+        });
+
+        expect(requests[0]).toMatchObject({
+            url: 'https://chatgpt.com/backend-api/files/download/file-pdf',
+            init: { credentials: 'include', headers: { authorization: 'Bearer token' } },
+        });
+        expect(requests[1].init).toMatchObject({ credentials: 'omit', headers: undefined });
+    });
+
+    it('should report failed downloads without bundling them', async () => {
+        const fetchImpl = mock(async () => new Response('nope', { status: 403 }));
+
+        const bundle = await bundleConversationAttachments(buildAttachmentConversation(), 'chat', {
+            fetchImpl: fetchImpl as unknown as typeof fetch,
+            authHeaders: undefined,
+            pageUrl: PAGE_URL,
+        });
+
+        expect(bundle.files).toEqual([]);
+        expect(bundle.paths).toEqual({});
+        expect(bundle.failures).toEqual([
+            { id: 'file-pdf', reason: 'HTTP 403' },
+            { id: 'file-chart', reason: 'HTTP 403' },
+        ]);
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * Attachment Bundle
+ *
+ * Downloads the images and files a conversation references through the page's
+ * authenticated context and lays them out next to the serialized export, in a
+ * `{filename}_files/` directory the transcript links into. Save packages the
+ * result as one ZIP per conversation; ZIP bulk exports add it to the archive.
+ *
+ * @module utils/runner/attachment-bundle
+ */
+
+import {
+    type AttachmentPaths,
+    buildAttachmentFilename,
+    collectConversationAttachments,
+} from '@/utils/export/attachments';
+import type { SerializedExport } from '@/utils/export/formats';
+import { createZipWriter } from '@/utils/export/zip';
+import type { HeaderRecord } from '@/utils/proactive-fetch-headers';
+import type { ConversationData, MessageAttachment } from '@/utils/types';
+
+export type AttachmentFetchDeps = {
+    fetchImpl: typeof fetch;
+    /** Captured platform auth headers; only sent to same-origin asset URLs. */
+    authHeaders: HeaderRecord | undefined;
+    /** Page URL that relative attachment URLs resolve against. */
+    pageUrl: string;
+    signal?: AbortSignal;
+};
+
+export type BundledAttachmentFile = {
+    /** Path relative to the exported conversation file. */
+    path: string;
+    content: Uint8Array;
+};
+
+export type AttachmentBundle = {
+    files: BundledAttachmentFile[];
+    paths: AttachmentPaths;
+    failures: Array<{ id: string; reason: string }>;
+};
+
+type DownloadedAttachment = {
+    bytes: Uint8Array;
+    mimeType: string | null;
+};
+
+/** Asset endpoints that answer with a signed URL instead of bytes (ChatGPT `files/download`). */
+const readSignedDownloadUrl = (payload: unknown): string | null => {
+    const record = payload && typeof payload === 'object' ? (payload as Record<string, unknown>) : null;
+    return typeof record?.download_url === 'string' && record.download_url ? record.download_url : null;
+};
+
+const isSameSite = (assetHost: string, pageHost: string) =>
+    assetHost === pageHost || assetHost.endsWith(`.${pageHost}`) || pageHost.endsWith(`.${assetHost}`);
+
+const requestAttachment = (url: URL, deps: AttachmentFetchDeps) => {
+    const page = new URL(deps.pageUrl);
+    const sameOrigin = url.origin === page.origin;
+    return deps.fetchImpl.call(globalThis, url.toString(), {
+        credentials: isSameSite(url.hostname, page.hostname) ? 'include' : 'omit',
+        headers: sameOrigin ? deps.authHeaders : undefined,
+        signal: deps.signal,
+    });
+};
+
+const downloadAttachment = async (
+    url: string,
+    deps: AttachmentFetchDeps,
+    followSignedUrl = true,
+): Promise<DownloadedAttachment> => {
+    const response = await requestAttachment(new URL(url, deps.pageUrl), deps);
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+    }
+    const mimeType = response.headers.get('content-type');
+    if (mimeType?.includes('application/json')) {
+        const signedUrl = followSignedUrl ? readSignedDownloadUrl(await response.json()) : null;
+        if (!signedUrl) {
+            throw new Error('Asset endpoint returned JSON without a download URL');
+        }
+        return downloadAttachment(signedUrl, deps, false);
+    }
+    return { bytes: new Uint8Array(await response.arrayBuffer()), mimeType };
+};
+
+const downloadAttachmentOrReason = async (attachment: MessageAttachment, deps: AttachmentFetchDeps) => {
+    if (!attachment.url) {
+        return { reason: 'No download URL' };
+    }
+    try {
+        return { download: await downloadAttachment(attachment.url, deps) };
+    } catch (error) {
+        return { reason: error instanceof Error ? error.message : String(error) };
+    }
+};
+
+/**
+ * Downloads every attachment of the conversation, one at a time, into
+ * `{filename}_files/`. Failed downloads are reported and keep linking to their
+ * remote URL in the transcript.
+ */
+export const bundleConversationAttachments = async (
+    data: ConversationData,
+    filename: string,
+    deps: AttachmentFetchDeps,
+): Promise<AttachmentBundle> => {
+    const bundle: AttachmentBundle = { files: [], paths: {}, failures: [] };
+    const paths: Record<string, string> = {};
+    const attachments = collectConversationAttachments(data);
+    for (const [index, attachment] of attachments.entries()) {
+        const result = await downloadAttachmentOrReason(attachment, deps);
+        if (!result.download) {
+            bundle.failures.push({ id: attachment.id, reason: result.reason });
+            continue;
+        }
+        const path = `${filename}_files/${buildAttachmentFilename(attachment, index, result.download.mimeType)}`;
+        paths[attachment.id] = path;
+        bundle.files.push({ path, content: result.download.bytes });
+    }
+    bundle.paths = paths;
+    return bundle;
+};
+
+/** Packages one serialized conversation and its bundled attachments as a ZIP. */
+export const createConversationBundleArchive = (
+    filename: string,
+    serialized: SerializedExport,
+    bundle: AttachmentBundle,
+    modifiedAt = new Date(),
+): Blob => {
+    const writer = createZipWriter();
+    writer.addFile({ path: `${filename}.${serialized.extension}`, content: serialized.content, modifiedAt });
+    for (const file of bundle.files) {
+        writer.addFile({ path: file.path, content: file.content, modifiedAt });
+    }
+    return writer.finish();
+};
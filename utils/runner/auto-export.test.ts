@@ -0,0 +1,150 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { buildSimpleConversation } from '@/utils/export/__tests__/fixtures';
+import { buildAutoExportFilename, createAutoExport } from '@/utils/runner/auto-export';
+import { computeConversationContentHash } from '@/utils/runner/bulk-export-ledger';
+import type { AutoExportRule } from '@/utils/settings';
+import type { ConversationData } from '@/utils/types';
+
+const DEBOUNCE_MS = 5;
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, DEBOUNCE_MS * 4));
+
+const createDeps = (
+    overrides: {
+        rule?: AutoExportRule;
+        exportConversation?: (data: ConversationData, filename: string) => Promise<string>;
+    } = {},
+) => {
+    const state = {
+        rule: overrides.rule ?? ({ enabled: true, filenameMode: 'same-name' } as AutoExportRule),
+        ready: true,
+        attemptId: 'attempt-1' as string | null,
+        conversation: buildSimpleConversation(),
+        filename: 'Export_Test_2024-01-01_00-00-00',
+    };
+    return {
+        state,
+        deps: {
+            getPlatformName: () => 'ChatGPT',
+            getRule: () => state.rule,
+            isCanonicalReady: () => state.ready,
+            getConversation: () => state.conversation,
+            peekAttemptId: () => state.attemptId,
+            resolveFilename: () => state.filename,
+            exportConversation: mock(
+                overrides.exportConversation ??
+                    (async (_data: ConversationData, filename: string) => `${filename}.json`),
+            ),
+            debounceMs: DEBOUNCE_MS,
+        },
+    };
+};
+
+describe('auto-export', () => {
+    it('should export once per attempt after readiness refreshes go quiet', async () => {
+        const { deps, state } = createDeps();
+        const autoExport = createAutoExport(deps);
+
+        autoExport.schedule('conv-export', computeConversationContentHash(state.conversation));
+        autoExport.schedule('conv-export', computeConversationContentHash(state.conversation));
+        expect(deps.exportConversation).not.toHaveBeenCalled();
+        await settle();
+        expect(deps.exportConversation).toHaveBeenCalledTimes(1);
+        expect(deps.exportConversation.mock.calls[0]?.[1]).toBe('Export_Test_2024-01-01_00-00-00');
+
+        state.conversation = buildSimpleConversation({ title: 'Renamed' });
+        autoExport.schedule('conv-export', computeConversationContentHash(state.conversation));
+        await settle();
+        expect(deps.exportConversation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should do nothing while the platform rule is off', async () => {
+        const { deps, state } = createDeps({ rule: { enabled: false, filenameMode: 'same-name' } });
+        const autoExport = createAutoExport(deps);
+
+        autoExport.schedule('conv-export', computeConversationContentHash(state.conversation));
+        await settle();
+        expect(deps.exportConversation).not.toHaveBeenCalled();
+    });
+
+    it('should skip the export when the conversation left canonical_ready before it ran', async () => {
+        const { deps, state } = createDeps();
+        const autoExport = createAutoExport(deps);
+
+        autoExport.schedule('conv-export', computeConversationContentHash(state.conversation));
+        state.ready = false;
+        await settle();
+        expect(deps.exportConversation).not.toHaveBeenCalled();
+    });
+
+    it('should re-export a new turn under the first filename in same-name mode', async () => {
+        const { deps, state } = createDeps();
+        const autoExport = createAutoExport(deps);
+
+        autoExport.schedule('conv-export', computeConversationContentHash(state.conversation));
+        await settle();
+        state.attemptId = 'attempt-2';
+        state.conversation = buildSimpleConversation({ title: 'Follow-up' });
+        state.filename = 'Follow-up_2024-01-01_00-05-00';
+        autoExport.schedule('conv-export', computeConversationContentHash(state.conversation));
+        await settle();
+
+        expect(deps.exportConversation.mock.calls.map((call) => call[1])).toEqual([
+            'Export_Test_2024-01-01_00-00-00',
+            'Export_Test_2024-01-01_00-00-00',
+        ]);
+    });
+
+    it('should version re-exports and skip a new attempt with unchanged content', async () => {
+        const { deps, state } = createDeps({ rule: { enabled: true, filenameMode: 'versioned' } });
+        const autoExport = createAutoExport(deps);
+
+        autoExport.schedule('conv-export', computeConversationContentHash(state.conversation));
+        await settle();
+        state.attemptId = 'attempt-2';
+        autoExport.schedule('conv-export', computeConversationContentHash(state.conversation));
+        await settle();
+        expect(deps.exportConversation).toHaveBeenCalledTimes(1);
+
+        state.conversation = buildSimpleConversation({ title: 'Regenerated' });
+        autoExport.schedule('conv-export', computeConversationContentHash(state.conversation));
+        await settle();
+        expect(deps.exportConversation.mock.calls[1]?.[1]).toBe('Export_Test_2024-01-01_00-00-00-v2');
+    });
+
+    it('should retry on the next refresh after a failed export', async () => {
+        let attempts = 0;
+        const { deps, state } = createDeps({
+            exportConversation: async (_data, filename) => {
+                attempts += 1;
+                if (attempts === 1) {
+                    throw new Error('download blocked');
+                }
+                return `${filename}.json`;
+            },
+        });
+        const autoExport = createAutoExport(deps);
+
+        autoExport.schedule('conv-export', computeConversationContentHash(state.conversation));
+        await settle();
+        autoExport.schedule('conv-export', computeConversationContentHash(state.conversation));
+        await settle();
+        expect(deps.exportConversation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cancel pending exports on dispose', async () => {
+        const { deps, state } = createDeps();
+        const autoExport = createAutoExport(deps);
+
+        autoExport.schedule('conv-export', computeConversationContentHash(state.conversation));
+        autoExport.dispose();
+        await settle();
+        expect(deps.exportConversation).not.toHaveBeenCalled();
+    });
+
+    it('should only suffix versioned re-exports', () => {
+        expect(buildAutoExportFilename('chat', 1, 'versioned')).toBe('chat');
+        expect(buildAutoExportFilename('chat', 3, 'versioned')).toBe('chat-v3');
+        expect(buildAutoExportFilename('chat', 3, 'same-name')).toBe('chat');
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * Auto Export
+ *
+ * Downloads conversations on its own once they reach `canonical_ready`, for
+ * platforms whose auto-export rule is on. Readiness is re-evaluated on every
+ * button refresh, so a conversation is scheduled repeatedly while it settles;
+ * the export waits until refreshes go quiet and then runs at most once per SFE
+ * attempt, so regenerations and late title updates don't spam downloads. Each
+ * new turn (a new attempt with new content) re-exports under the first export's
+ * filename (browser downloads may still de-duplicate it), or with a `-v2`, `-v3`,
+ * ... suffix in `versioned` mode.
+ *
+ * @module utils/runner/auto-export
+ */
+
+import { setBoundedMapValue } from '@/utils/bounded-collections';
+import { logger } from '@/utils/logger';
+import { computeConversationContentHash } from '@/utils/runner/bulk-export-ledger';
+import type { AutoExportFilenameMode, AutoExportRule } from '@/utils/settings';
+import type { ConversationData } from '@/utils/types';
+
+const MAX_TRACKED_CONVERSATIONS = 200;
+export const DEFAULT_AUTO_EXPORT_DEBOUNCE_MS = 2_000;
+
+export type AutoExportDeps = {
+    getPlatformName: () => string | null;
+    getRule: (platform: string) => AutoExportRule;
+    /** True only for `canonical_ready` with no generation in flight; degraded data never qualifies. */
+    isCanonicalReady: (conversationId: string) => boolean;
+    getConversation: (conversationId: string) => ConversationData | undefined;
+    peekAttemptId: (conversationId: string) => string | null;
+    /** Resolves the export title and returns the adapter filename for the conversation. */
+    resolveFilename: (data: ConversationData) => string | null;
+    exportConversation: (data: ConversationData, filename: string) => Promise<string>;
+    debounceMs?: number;
+};
+
+type ExportRecord = {
+    attemptId: string;
+    contentHash: string;
+    /** Filename of the first export; later exports reuse or version it. */
+    baseFilename: string;
+    version: number;
+};
+
+export const buildAutoExportFilename = (baseFilename: string, version: number, mode: AutoExportFilenameMode) =>
+    mode === 'versioned' && version > 1 ? `${baseFilename}-v${version}` : baseFilename;
+
+export const createAutoExport = (deps: AutoExportDeps) => {
+    const exportedByConversation = new Map<string, ExportRecord>();
+    const pendingByConversation = new Map<string, ReturnType<typeof setTimeout>>();
+    const debounceMs = deps.debounceMs ?? DEFAULT_AUTO_EXPORT_DEBOUNCE_MS;
+
+    const resolveEnabledRule = () => {
+        const platform = deps.getPlatformName();
+        const rule = platform ? deps.getRule(platform) : null;
+        return rule?.enabled ? rule : null;
+    };
+
+    const isAlreadyExported = (conversationId: string, attemptId: string, contentHash: string) => {
+        const previous = exportedByConversation.get(conversationId);
+        return !!previous && (previous.attemptId === attemptId || previous.contentHash === contentHash);
+    };
+
+    /** Records the export up front so refreshes during the download don't start another one. */
+    const recordExport = (conversationId: string, attemptId: string, contentHash: string, formatted: string) => {
+        const previous = exportedByConversation.get(conversationId);
+        const record: ExportRecord = {
+            attemptId,
+            contentHash,
+            baseFilename: previous?.baseFilename ?? formatted,
+            version: (previous?.version ?? 0) + 1,
+        };
+        setBoundedMapValue(exportedByConversation, conversationId, record, MAX_TRACKED_CONVERSATIONS);
+        const rollback = () => {
+            if (exportedByConversation.get(conversationId) !== record) {
+                return;
+            }
+            if (previous) {
+                exportedByConversation.set(conversationId, previous);
+            } else {
+                exportedByConversation.delete(conversationId);
+            }
+        };
+        return { record, rollback };
+    };
+
+    const runExport = async (conversationId: string) => {
+        pendingByConversation.delete(conversationId);
+        const rule = resolveEnabledRule();
+        const data = deps.getConversation(conversationId);
+        const attemptId = deps.peekAttemptId(conversationId) ?? conversationId;
+        if (!rule || !data || !deps.isCanonicalReady(conversationId)) {
+            return;
+        }
+        // The cached conversation may have changed during the quiet period, so it is hashed again here.
+        const contentHash = computeConversationContentHash(data);
+        const formatted = isAlreadyExported(conversationId, attemptId, contentHash) ? null : deps.resolveFilename(data);
+        if (!formatted) {
+            return;
+        }
+        const { record, rollback } = recordExport(conversationId, attemptId, contentHash, formatted);
+        try {
+            const filename = buildAutoExportFilename(record.baseFilename, record.version, rule.filenameMode);
+            const savedFile = await deps.exportConversation(data, filename);
+            logger.info(`Auto-exported conversation: ${savedFile}`, { conversationId, attemptId });
+        } catch (error) {
+            // Forget the export so the next readiness refresh retries.
+            rollback();
+            logger.warn('Failed to auto-export conversation', { conversationId, error });
+        }
+    };
+
+    /** Schedules an export; every call while one is pending restarts the quiet period. */
+    const schedule = (conversationId: string, contentHash: string) => {
+        if (!resolveEnabledRule()) {
+            return;
+        }
+        const attemptId = deps.peekAttemptId(conversationId) ?? conversationId;
+        if (isAlreadyExported(conversationId, attemptId, contentHash)) {
+            return;
+        }
+        const pending = pendingByConversation.get(conversationId);
+        if (pending !== undefined) {
+            globalThis.clearTimeout(pending);
+        }
+        pendingByConversation.set(
+            conversationId,
+            globalThis.setTimeout(() => void runExport(conversationId), debounceMs),
+        );
+    };
+
+    const dispose = () => {
+        for (const timer of pendingByConversation.values()) {
+            globalThis.clearTimeout(timer);
+        }
+        pendingByConversation.clear();
+    };
+
+    return { schedule, dispose };
+};
+
+export type AutoExport = ReturnType<typeof createAutoExport>;
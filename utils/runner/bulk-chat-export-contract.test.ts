@@ -2,8 +2,10 @@ import { describe, expect, it } from 'bun:test';
 
 import {
     BULK_EXPORT_CHATS_MESSAGE,
+    BULK_EXPORT_CONTROL_MESSAGE,
     BULK_EXPORT_PROGRESS_MESSAGE,
     isBulkExportChatsMessage,
+    isBulkExportControlMessage,
     isBulkExportProgressMessage,
 } from '@/utils/runner/bulk-chat-export-contract';
 
@@ -18,6 +20,14 @@ describe('bulk-chat-export-contract', () => {
             }),
         ).toBeTrue();
         expect(isBulkExportChatsMessage({ type: BULK_EXPORT_CHATS_MESSAGE })).toBeTrue();
+        expect(isBulkExportChatsMessage({ type: BULK_EXPORT_CHATS_MESSAGE, packaging: 'zip' })).toBeTrue();
+        expect(isBulkExportChatsMessage({ type: BULK_EXPORT_CHATS_MESSAGE, mode: 'incremental' })).toBeTrue();
+        expect(
+            isBulkExportChatsMessage({
+                type: BULK_EXPORT_CHATS_MESSAGE,
+                filters: { updatedFrom: 0, title: '^draft', titleIsRegex: true, gizmoId: 'g-p-1', archived: true },
+            }),
+        ).toBeTrue();
     });
 
     it('should reject invalid message payloads', () => {
@@ -27,6 +37,13 @@ describe('bulk-chat-export-contract', () => {
         expect(
             isBulkExportChatsMessage({ type: BULK_EXPORT_CHATS_MESSAGE, delayMs: Number.POSITIVE_INFINITY }),
         ).toBeFalse();
+        expect(isBulkExportChatsMessage({ type: BULK_EXPORT_CHATS_MESSAGE, packaging: 'tar' })).toBeFalse();
+        expect(isBulkExportChatsMessage({ type: BULK_EXPORT_CHATS_MESSAGE, mode: 'partial' })).toBeFalse();
+        expect(isBulkExportChatsMessage({ type: BULK_EXPORT_CHATS_MESSAGE, filters: 'recent' })).toBeFalse();
+        expect(
+            isBulkExportChatsMessage({ type: BULK_EXPORT_CHATS_MESSAGE, filters: { createdFrom: '2024-01-01' } }),
+        ).toBeFalse();
+        expect(isBulkExportChatsMessage({ type: BULK_EXPORT_CHATS_MESSAGE, filters: { archived: 'yes' } })).toBeFalse();
     });
 
     it('should validate bulk export progress payloads', () => {
@@ -49,6 +66,17 @@ describe('bulk-chat-export-contract', () => {
                 message: 'network failed',
             }),
         ).toBeTrue();
+        expect(isBulkExportProgressMessage({ type: BULK_EXPORT_PROGRESS_MESSAGE, stage: 'paused' })).toBeTrue();
+        expect(isBulkExportProgressMessage({ type: BULK_EXPORT_PROGRESS_MESSAGE, stage: 'canceled' })).toBeTrue();
         expect(isBulkExportProgressMessage({ type: BULK_EXPORT_PROGRESS_MESSAGE, stage: 'oops' })).toBeFalse();
     });
+
+    it('should validate bulk export control messages', () => {
+        for (const action of ['cancel', 'pause', 'resume', 'status']) {
+            expect(isBulkExportControlMessage({ type: BULK_EXPORT_CONTROL_MESSAGE, action })).toBeTrue();
+        }
+        expect(isBulkExportControlMessage({ type: BULK_EXPORT_CONTROL_MESSAGE, action: 'restart' })).toBeFalse();
+        expect(isBulkExportControlMessage({ type: BULK_EXPORT_CONTROL_MESSAGE })).toBeFalse();
+        expect(isBulkExportControlMessage({ type: BULK_EXPORT_CHATS_MESSAGE, action: 'cancel' })).toBeFalse();
+    });
 });
@@ -1,11 +1,53 @@
 export const BULK_EXPORT_CHATS_MESSAGE = 'BLACKIYA_BULK_EXPORT_CHATS';
 export const BULK_EXPORT_PROGRESS_MESSAGE = 'BLACKIYA_BULK_EXPORT_PROGRESS';
+export const BULK_EXPORT_CONTROL_MESSAGE = 'BLACKIYA_BULK_EXPORT_CONTROL';
+
+/** `status` only reports; the others act on the tab's running export first. */
+export const BULK_EXPORT_CONTROL_ACTIONS = ['cancel', 'pause', 'resume', 'status'] as const;
+export type BulkExportControlAction = (typeof BULK_EXPORT_CONTROL_ACTIONS)[number];
+
+/** `zip` bundles every conversation plus `manifest.json` into one archive; `files` downloads one file per chat. */
+export const BULK_EXPORT_PACKAGING_MODES = ['zip', 'files'] as const;
+export type BulkExportPackaging = (typeof BULK_EXPORT_PACKAGING_MODES)[number];
+
+/**
+ * `full` exports everything; `resume` skips conversations already exported by the
+ * last interrupted run; `incremental` skips conversations unchanged since they
+ * were last exported. All modes record exports in the bulk export ledger.
+ */
+export const BULK_EXPORT_MODES = ['full', 'resume', 'incremental'] as const;
+export type BulkExportMode = (typeof BULK_EXPORT_MODES)[number];
+
+/**
+ * Applied to list metadata before any detail fetch. Conversations whose list
+ * entry lacks a field an active filter needs are excluded.
+ */
+export type BulkExportFilters = {
+    /** Inclusive epoch-millisecond bounds on the conversation's creation time. */
+    createdFrom?: number;
+    createdTo?: number;
+    /** Inclusive epoch-millisecond bounds on the conversation's last update. */
+    updatedFrom?: number;
+    updatedTo?: number;
+    /** Case-insensitive title match: a substring, or a regular expression when `titleIsRegex` is set. */
+    title?: string;
+    titleIsRegex?: boolean;
+    /** ChatGPT `gizmo_id` of a custom GPT (`g-…`) or project (`g-p-…`). */
+    gizmoId?: string;
+    /** `true` exports archived chats only; otherwise archived chats are left out. */
+    archived?: boolean;
+};
 
 export type BulkExportChatsMessage = {
     type: typeof BULK_EXPORT_CHATS_MESSAGE;
     limit?: number;
     delayMs?: number;
     timeoutMs?: number;
+    /** Defaults to `files` when omitted. */
+    packaging?: BulkExportPackaging;
+    /** Defaults to `full` when omitted. */
+    mode?: BulkExportMode;
+    filters?: BulkExportFilters;
 };
 
 export type BulkExportChatsSuccessResponse = {
@@ -16,9 +58,21 @@ export type BulkExportChatsSuccessResponse = {
         attempted: number;
         exported: number;
         failed: number;
+        /** Conversations skipped by `resume`/`incremental` mode. */
+        skipped: number;
+        /** Listed conversations left out by `filters`; not counted in `discovered`. */
+        filteredOut: number;
         elapsedMs: number;
         limit: number;
         warnings: string[];
+        packaging: BulkExportPackaging;
+        mode: BulkExportMode;
+        /** Set when the run was canceled; counters cover the work done until then. */
+        canceled: boolean;
+        /** The normalized filters that were applied; omitted when none were active. */
+        filters?: BulkExportFilters;
+        /** Downloaded archive filename (with extension, `.zip.enc.json` when encrypted); set only for `zip` packaging. */
+        archiveFilename?: string;
     };
 };
 
@@ -29,7 +83,7 @@ export type BulkExportChatsErrorResponse = {
 
 export type BulkExportChatsResponse = BulkExportChatsSuccessResponse | BulkExportChatsErrorResponse;
 
-export type BulkExportProgressStage = 'started' | 'progress' | 'completed' | 'failed';
+export type BulkExportProgressStage = 'started' | 'progress' | 'paused' | 'completed' | 'canceled' | 'failed';
 
 export type BulkExportProgressMessage = {
     type: typeof BULK_EXPORT_PROGRESS_MESSAGE;
@@ -39,13 +93,62 @@ export type BulkExportProgressMessage = {
     attempted?: number;
     exported?: number;
     failed?: number;
+    skipped?: number;
     remaining?: number;
     message?: string;
 };
 
+export type BulkExportControlMessage = {
+    type: typeof BULK_EXPORT_CONTROL_MESSAGE;
+    action: BulkExportControlAction;
+};
+
+export type BulkExportRunStatus = {
+    /** `idle` when no export is running in the tab. */
+    state: 'idle' | 'running' | 'paused' | 'canceled';
+    /** Latest progress of the running export, if any was reported yet. */
+    progress: BulkExportProgressMessage | null;
+};
+
+export type BulkExportControlResponse =
+    | {
+          ok: true;
+          /** Whether the action changed the run state; always `false` for `status`. */
+          applied: boolean;
+          status: BulkExportRunStatus;
+      }
+    | BulkExportChatsErrorResponse;
+
 const isOptionalFiniteNumber = (value: unknown): value is number =>
     value === undefined || (typeof value === 'number' && Number.isFinite(value));
 
+export const isBulkExportPackaging = (value: unknown): value is BulkExportPackaging =>
+    typeof value === 'string' && (BULK_EXPORT_PACKAGING_MODES as readonly string[]).includes(value);
+
+export const isBulkExportMode = (value: unknown): value is BulkExportMode =>
+    typeof value === 'string' && (BULK_EXPORT_MODES as readonly string[]).includes(value);
+
+const isOptionalString = (value: unknown): value is string => value === undefined || typeof value === 'string';
+
+const isOptionalBoolean = (value: unknown): value is boolean => value === undefined || typeof value === 'boolean';
+
+export const isBulkExportFilters = (value: unknown): value is BulkExportFilters => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const typed = value as Partial<BulkExportFilters>;
+    return (
+        isOptionalFiniteNumber(typed.createdFrom) &&
+        isOptionalFiniteNumber(typed.createdTo) &&
+        isOptionalFiniteNumber(typed.updatedFrom) &&
+        isOptionalFiniteNumber(typed.updatedTo) &&
+        isOptionalString(typed.title) &&
+        isOptionalBoolean(typed.titleIsRegex) &&
+        isOptionalString(typed.gizmoId) &&
+        isOptionalBoolean(typed.archived)
+    );
+};
+
 export const isBulkExportChatsMessage = (value: unknown): value is BulkExportChatsMessage => {
     if (!value || typeof value !== 'object') {
         return false;
@@ -55,12 +158,36 @@ export const isBulkExportChatsMessage = (value: unknown): value is BulkExportCha
         typed.type === BULK_EXPORT_CHATS_MESSAGE &&
         isOptionalFiniteNumber(typed.limit) &&
         isOptionalFiniteNumber(typed.delayMs) &&
-        isOptionalFiniteNumber(typed.timeoutMs)
+        isOptionalFiniteNumber(typed.timeoutMs) &&
+        (typed.packaging === undefined || isBulkExportPackaging(typed.packaging)) &&
+        (typed.mode === undefined || isBulkExportMode(typed.mode)) &&
+        (typed.filters === undefined || isBulkExportFilters(typed.filters))
     );
 };
 
+const BULK_EXPORT_PROGRESS_STAGES: readonly BulkExportProgressStage[] = [
+    'started',
+    'progress',
+    'paused',
+    'completed',
+    'canceled',
+    'failed',
+];
+
 const isProgressStage = (value: unknown): value is BulkExportProgressStage =>
-    value === 'started' || value === 'progress' || value === 'completed' || value === 'failed';
+    typeof value === 'string' && (BULK_EXPORT_PROGRESS_STAGES as readonly string[]).includes(value);
+
+export const isBulkExportControlMessage = (value: unknown): value is BulkExportControlMessage => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const typed = value as Partial<BulkExportControlMessage>;
+    return (
+        typed.type === BULK_EXPORT_CONTROL_MESSAGE &&
+        typeof typed.action === 'string' &&
+        (BULK_EXPORT_CONTROL_ACTIONS as readonly string[]).includes(typed.action)
+    );
+};
 
 export const isBulkExportProgressMessage = (value: unknown): value is BulkExportProgressMessage => {
     if (!value || typeof value !== 'object') {
@@ -75,6 +202,7 @@ export const isBulkExportProgressMessage = (value: unknown): value is BulkExport
         isOptionalFiniteNumber(typed.attempted) &&
         isOptionalFiniteNumber(typed.exported) &&
         isOptionalFiniteNumber(typed.failed) &&
+        isOptionalFiniteNumber(typed.skipped) &&
         isOptionalFiniteNumber(typed.remaining) &&
         (typed.message === undefined || typeof typed.message === 'string')
     );
@@ -1,7 +1,15 @@
 import { describe, expect, it } from 'bun:test';
+import { claudeState, resetClaudeAdapterState } from '@/platforms/claude/state';
 import { geminiState, resetGeminiAdapterState } from '@/platforms/gemini/state';
 import type { LLMPlatform } from '@/platforms/types';
+import { createExportEncryptor, decryptExportEnvelope, parseExportEnvelope } from '@/utils/encryption/export-envelope';
+import { readStoredZipEntries } from '@/utils/export/__tests__/zip-reader';
 import { __testables__, runBulkChatExport } from '@/utils/runner/bulk-chat-export';
+import type { BulkExportProgressMessage } from '@/utils/runner/bulk-chat-export-contract';
+import { createBulkExportRunControl } from '@/utils/runner/bulk-export-control';
+import type { BulkExportLedger, BulkExportLedgerStore } from '@/utils/runner/bulk-export-ledger';
+import { DEFAULT_REDACTION_SETTINGS } from '@/utils/settings';
+import type { WebhookExportPayload } from '@/utils/sinks/webhook-sink-contract';
 import type { ConversationData } from '@/utils/types';
 
 const buildConversation = (conversationId: string, title = 'Title'): ConversationData => {
@@ -101,6 +109,16 @@ const buildGeminiAdapter = (): LLMPlatform => ({
     getButtonInjectionTarget: () => null,
 });
 
+const createMemoryLedgerStore = (): BulkExportLedgerStore => {
+    let ledger: BulkExportLedger = {};
+    return {
+        read: async () => structuredClone(ledger),
+        write: async (next) => {
+            ledger = structuredClone(next);
+        },
+    };
+};
+
 describe('bulk-chat-export', () => {
     it('should normalize options and treat limit=0 as all', () => {
         const normalized = __testables__.normalizeOptions({ type: 'BLACKIYA_BULK_EXPORT_CHATS', limit: 0 });
@@ -249,6 +267,697 @@ describe('bulk-chat-export', () => {
         );
     });
 
+    it('should serialize bulk exports with the selected format from the registry', async () => {
+        const files: Array<{ content: string; filename: string; extension: string; mimeType: string }> = [];
+        const rawDownloads: unknown[] = [];
+        const conversation = buildConversation('69a85cf1-4bcc-832b-b221-d582b0c9910c', 'Conversation C');
+
+        const result = await runBulkChatExport(
+            { type: 'BLACKIYA_BULK_EXPORT_CHATS', limit: 1, delayMs: 1, timeoutMs: 5000 },
+            {
+                getAdapter: () => buildAdapter(),
+                getAuthHeaders: () => undefined,
+                locationHref: () => 'https://chatgpt.com/c/abc',
+                sleepImpl: async () => {},
+                getExportFormat: () => 'markdown',
+                getExportFormatSettings: () => ({ markdown: { includeTimestamps: false } }),
+                downloadImpl: (payload) => {
+                    rawDownloads.push(payload);
+                },
+                downloadFileImpl: (content, filename, extension, mimeType) => {
+                    files.push({ content, filename, extension, mimeType });
+                },
+                fetchImpl: (async (input) => {
+                    const url = String(input);
+                    if (url.includes('/backend-api/conversations?')) {
+                        return new Response(JSON.stringify({ items: [{ id: conversation.conversation_id }] }), {
+                            status: 200,
+                        });
+                    }
+                    return new Response(JSON.stringify(conversation), { status: 200 });
+                }) as typeof fetch,
+            },
+        );
+
+        expect(result.exported).toBe(1);
+        expect(rawDownloads).toEqual([]);
+        expect(files).toHaveLength(1);
+        expect(files[0]?.filename).toBe('Conversation C');
+        expect(files[0]?.extension).toBe('md');
+        expect(files[0]?.content).toContain('# Conversation C');
+        expect(files[0]?.content).toContain('- **Capture:** canonical_api (high, complete)');
+        expect(files[0]?.content).not.toContain('_1970-');
+    });
+
+    it('should hand each serialized export to the webhook sinks', async () => {
+        const delivered: WebhookExportPayload[] = [];
+        const conversation = buildConversation('69a85cf1-4bcc-832b-b221-d582b0c9910f', 'Conversation S');
+
+        await runBulkChatExport(
+            { type: 'BLACKIYA_BULK_EXPORT_CHATS', limit: 1, delayMs: 1, timeoutMs: 5000 },
+            {
+                getAdapter: () => buildAdapter(),
+                getAuthHeaders: () => undefined,
+                locationHref: () => 'https://chatgpt.com/c/abc',
+                sleepImpl: async () => {},
+                getExportFormat: () => 'markdown',
+                downloadFileImpl: () => {},
+                deliverToSinks: (payload) => delivered.push(payload),
+                fetchImpl: (async (input) => {
+                    const url = String(input);
+                    if (url.includes('/backend-api/conversations?')) {
+                        return new Response(JSON.stringify({ items: [{ id: conversation.conversation_id }] }), {
+                            status: 200,
+                        });
+                    }
+                    return new Response(JSON.stringify(conversation), { status: 200 });
+                }) as typeof fetch,
+            },
+        );
+
+        expect(delivered).toHaveLength(1);
+        expect(delivered[0]).toMatchObject({
+            platform: 'ChatGPT',
+            conversationId: conversation.conversation_id,
+            filename: 'Conversation S.md',
+            format: 'markdown',
+            mimeType: expect.stringContaining('text/markdown'),
+        });
+        expect(delivered[0]?.content).toContain('# Conversation S');
+    });
+
+    it('should hand the webhook sinks encrypted envelopes while encryption is on', async () => {
+        const delivered: WebhookExportPayload[] = [];
+        const conversation = buildConversation('69a85cf1-4bcc-832b-b221-d582b0c9910d', 'Client plan');
+
+        await runBulkChatExport(
+            { type: 'BLACKIYA_BULK_EXPORT_CHATS', limit: 1, delayMs: 1, timeoutMs: 5000 },
+            {
+                getAdapter: () => buildAdapter(),
+                getAuthHeaders: () => undefined,
+                locationHref: () => 'https://chatgpt.com/c/abc',
+                sleepImpl: async () => {},
+                getExportFormat: () => 'markdown',
+                getExportEncryptor: async () => createExportEncryptor('client passphrase', { iterations: 1000 }),
+                downloadFileImpl: () => {},
+                deliverToSinks: (payload) => delivered.push(payload),
+                fetchImpl: (async (input) => {
+                    const url = String(input);
+                    if (url.includes('/backend-api/conversations?')) {
+                        return new Response(JSON.stringify({ items: [{ id: conversation.conversation_id }] }), {
+                            status: 200,
+                        });
+                    }
+                    return new Response(JSON.stringify(conversation), { status: 200 });
+                }) as typeof fetch,
+            },
+        );
+
+        expect(delivered).toHaveLength(1);
+        expect(delivered[0]).toMatchObject({
+            filename: 'Client plan.md.enc.json',
+            format: 'markdown',
+            mimeType: 'application/json',
+        });
+        expect(delivered[0]?.content).not.toContain('# Client plan');
+        const decrypted = await decryptExportEnvelope(
+            parseExportEnvelope(delivered[0]?.content ?? ''),
+            'client passphrase',
+        );
+        expect(decrypted.filename).toBe('Client plan.md');
+        expect(new TextDecoder().decode(decrypted.content)).toContain('# Client plan');
+    });
+
+    it('should redact each export and record the redaction summary', async () => {
+        const rawDownloads: any[] = [];
+        const conversation = buildConversation('69a85cf1-4bcc-832b-b221-d582b0c9910e', 'Call with jane@acme.io');
+
+        const result = await runBulkChatExport(
+            { type: 'BLACKIYA_BULK_EXPORT_CHATS', limit: 1, delayMs: 1, timeoutMs: 5000 },
+            {
+                getAdapter: () => buildAdapter(),
+                getAuthHeaders: () => undefined,
+                locationHref: () => 'https://chatgpt.com/c/abc',
+                sleepImpl: async () => {},
+                getRedactionSettings: () => ({ ...DEFAULT_REDACTION_SETTINGS, enabled: true }),
+                downloadImpl: (payload) => {
+                    rawDownloads.push(payload);
+                },
+                fetchImpl: (async (input) => {
+                    const url = String(input);
+                    if (url.includes('/backend-api/conversations?')) {
+                        return new Response(JSON.stringify({ items: [{ id: conversation.conversation_id }] }), {
+                            status: 200,
+                        });
+                    }
+                    return new Response(JSON.stringify(conversation), { status: 200 });
+                }) as typeof fetch,
+            },
+        );
+
+        expect(result.exported).toBe(1);
+        expect(rawDownloads[0]?.title).toBe('Call with [REDACTED:EMAIL]');
+        expect(rawDownloads[0]?.__blackiya.redaction).toEqual({ version: 1, total: 1, counts: { email: 1 } });
+    });
+
+    it('should bundle conversations and a manifest into one archive for zip packaging', async () => {
+        const archives: Array<{ archive: Blob; filename: string }> = [];
+        const perFileDownloads: string[] = [];
+        const okConversation = buildConversation('69a85cf1-4bcc-832b-b221-d582b0c9910d', 'Conversation D');
+        const missingId = '69a85cf1-4bcc-832b-b221-d582b0c9910e';
+
+        const result = await runBulkChatExport(
+            { type: 'BLACKIYA_BULK_EXPORT_CHATS', limit: 2, delayMs: 1, timeoutMs: 5000, packaging: 'zip' },
+            {
+                getAdapter: () => buildAdapter(),
+                getAuthHeaders: () => undefined,
+                locationHref: () => 'https://chatgpt.com/c/abc',
+                sleepImpl: async () => {},
+                nowImpl: () => Date.UTC(2024, 4, 1, 10, 0, 0),
+                downloadImpl: (_payload, filename) => {
+                    perFileDownloads.push(filename);
+                },
+                downloadFileImpl: (_content, filename) => {
+                    perFileDownloads.push(filename);
+                },
+                downloadArchiveImpl: (archive, filename) => {
+                    archives.push({ archive, filename });
+                },
+                fetchImpl: (async (input) => {
+                    const url = String(input);
+                    if (url.includes('/backend-api/conversations?')) {
+                        return new Response(
+                            JSON.stringify({ items: [{ id: okConversation.conversation_id }, { id: missingId }] }),
+                            { status: 200 },
+                        );
+                    }
+                    if (url.includes(okConversation.conversation_id)) {
+                        return new Response(JSON.stringify(okConversation), { status: 200 });
+                    }
+                    return new Response('not found', { status: 404 });
+                }) as typeof fetch,
+            },
+        );
+
+        expect(perFileDownloads).toEqual([]);
+        expect(archives).toHaveLength(1);
+        expect(result.packaging).toBe('zip');
+        expect(result.archiveFilename).toBe(`${archives[0]?.filename}.zip`);
+        expect(archives[0]?.filename).toMatch(/^blackiya-chatgpt-chats-\d{4}-\d{2}-\d{2}_/);
+
+        const entries = await readStoredZipEntries(archives[0]?.archive as Blob);
+        expect(entries.map((entry) => entry.name)).toEqual(['conversations/Conversation D.json', 'manifest.json']);
+        expect(JSON.parse(entries[0]?.text ?? '{}').__blackiya.exportMeta.fidelity).toBe('high');
+
+        const manifest = JSON.parse(entries[1]?.text ?? '{}');
+        expect(manifest).toMatchObject({
+            schema: 'blackiya.bulk-export-manifest',
+            schemaVersion: 1,
+            generatedAt: '2024-05-01T10:00:00.000Z',
+            platform: 'ChatGPT',
+            format: 'json',
+            summary: { discovered: 2, attempted: 2, exported: 1, failed: 1, packaging: 'zip' },
+        });
+        expect(manifest.conversations).toEqual([
+            {
+                conversationId: okConversation.conversation_id,
+                title: 'Conversation D',
+                file: 'conversations/Conversation D.json',
+                createdAt: '1970-01-01T00:00:01.000Z',
+                updatedAt: '1970-01-01T00:00:02.000Z',
+                exportMeta: { captureSource: 'canonical_api', fidelity: 'high', completeness: 'complete' },
+            },
+        ]);
+        expect(manifest.failures).toEqual([{ conversationId: missingId, reason: expect.any(String) }]);
+    });
+
+    it('should download the zip archive as an encrypted envelope', async () => {
+        const downloads: Array<{ content: string; filename: string; extension: string }> = [];
+        const archives: Blob[] = [];
+        const conversation = buildConversation('69a85cf1-4bcc-832b-b221-d582b0c99110', 'Client call');
+        const encryptor = createExportEncryptor('client passphrase', { iterations: 1000 });
+
+        const result = await runBulkChatExport(
+            { type: 'BLACKIYA_BULK_EXPORT_CHATS', limit: 1, delayMs: 1, timeoutMs: 5000, packaging: 'zip' },
+            {
+                getAdapter: () => buildAdapter(),
+                getAuthHeaders: () => undefined,
+                locationHref: () => 'https://chatgpt.com/c/abc',
+                sleepImpl: async () => {},
+                getExportEncryptor: async () => encryptor,
+                downloadFileImpl: (content, filename, extension) => {
+                    downloads.push({ content, filename, extension });
+                },
+                downloadArchiveImpl: (archive) => {
+                    archives.push(archive);
+                },
+                fetchImpl: (async (input) => {
+                    const url = String(input);
+                    if (url.includes('/backend-api/conversations?')) {
+                        return new Response(JSON.stringify({ items: [{ id: conversation.conversation_id }] }), {
+                            status: 200,
+                        });
+                    }
+                    return new Response(JSON.stringify(conversation), { status: 200 });
+                }) as typeof fetch,
+            },
+        );
+
+        expect(archives).toEqual([]);
+        expect(downloads).toHaveLength(1);
+        expect(downloads[0]?.extension).toBe('enc.json');
+        expect(result.archiveFilename).toBe(`${downloads[0]?.filename}.enc.json`);
+        expect(downloads[0]?.content).not.toContain('Client call');
+
+        const decrypted = await decryptExportEnvelope(
+            parseExportEnvelope(downloads[0]?.content ?? ''),
+            'client passphrase',
+        );
+        expect(decrypted.mimeType).toBe('application/zip');
+        const entries = await readStoredZipEntries(new Blob([decrypted.content]));
+        expect(entries.map((entry) => entry.name)).toEqual(['conversations/Client call.json', 'manifest.json']);
+    });
+
+    it('should keep per-file downloads when packaging is omitted', async () => {
+        const archives: Blob[] = [];
+        const conversation = buildConversation('69a85cf1-4bcc-832b-b221-d582b0c9910f', 'Conversation F');
+
+        const result = await runBulkChatExport(
+            { type: 'BLACKIYA_BULK_EXPORT_CHATS', limit: 1, delayMs: 1, timeoutMs: 5000 },
+            {
+                getAdapter: () => buildAdapter(),
+                getAuthHeaders: () => undefined,
+                locationHref: () => 'https://chatgpt.com/c/abc',
+                sleepImpl: async () => {},
+                downloadImpl: () => {},
+                downloadArchiveImpl: (archive) => {
+                    archives.push(archive);
+                },
+                fetchImpl: (async (input) => {
+                    const url = String(input);
+                    if (url.includes('/backend-api/conversations?')) {
+                        return new Response(JSON.stringify({ items: [{ id: conversation.conversation_id }] }), {
+                            status: 200,
+                        });
+                    }
+                    return new Response(JSON.stringify(conversation), { status: 200 });
+                }) as typeof fetch,
+            },
+        );
+
+        expect(result.packaging).toBe('files');
+        expect(result.archiveFilename).toBeUndefined();
+        expect(archives).toEqual([]);
+    });
+
+    it('should parse chatgpt list item metadata with times in seconds', () => {
+        const items = __testables__.extractChatGptListItemsFromPayload({
+            items: [
+                {
+                    id: '69a85cf1-4bcc-832b-b221-d582b0c9910a',
+                    title: 'Project chat',
+                    create_time: '2024-05-01T09:00:00.000Z',
+                    update_time: '2024-05-01T10:00:00.000Z',
+                    gizmo_id: 'g-p-123',
+                    is_archived: false,
+                },
+                { id: '69a85cf1-4bcc-832b-b221-d582b0c9910b', update_time: 1_714_557_600.5, gizmo_id: null },
+            ],
+        });
+        expect(items).toEqual([
+            {
+                id: '69a85cf1-4bcc-832b-b221-d582b0c9910a',
+                title: 'Project chat',
+                createTime: 1_714_554_000,
+                updateTime: 1_714_557_600,
+                gizmoId: 'g-p-123',
+                isArchived: false,
+            },
+            {
+                id: '69a85cf1-4bcc-832b-b221-d582b0c9910b',
+                title: null,
+                createTime: null,
+                updateTime: 1_714_557_600.5,
+                gizmoId: null,
+                isArchived: null,
+            },
+        ]);
+    });
+
+    it('should apply list filters before detail fetches and echo them in the result', async () => {
+        const fetchedUrls: string[] = [];
+        const keep = buildConversation('69a85cf1-4bcc-832b-b221-d582b0c99120', 'Keep: project notes');
+        const listItems = [
+            { id: '69a85cf1-4bcc-832b-b221-d582b0c99121', title: 'Keep: too old', update_time: 1_600_000_000 },
+            { id: '69a85cf1-4bcc-832b-b221-d582b0c99122', title: 'Skip: other', update_time: 1_714_557_600 },
+            { id: keep.conversation_id, title: keep.title, update_time: 1_714_557_600 },
+            { id: '69a85cf1-4bcc-832b-b221-d582b0c99123', title: 'Keep: beyond limit', update_time: 1_714_557_600 },
+        ];
+
+        const result = await runBulkChatExport(
+            {
+                type: 'BLACKIYA_BULK_EXPORT_CHATS',
+                limit: 1,
+                delayMs: 1,
+                timeoutMs: 5000,
+                filters: { title: '^keep:', titleIsRegex: true, updatedFrom: Date.UTC(2024, 0, 1), archived: true },
+            },
+            {
+                getAdapter: () => buildAdapter(),
+                getAuthHeaders: () => undefined,
+                locationHref: () => 'https://chatgpt.com/c/abc',
+                sleepImpl: async () => {},
+                ledgerStore: createMemoryLedgerStore(),
+                downloadImpl: () => {},
+                fetchImpl: (async (input) => {
+                    const url = String(input);
+                    fetchedUrls.push(url);
+                    if (url.includes('/backend-api/conversations?')) {
+                        const items = listItems.map((item) => ({ ...item, is_archived: true }));
+                        return new Response(JSON.stringify({ items }), { status: 200 });
+                    }
+                    return new Response(JSON.stringify(keep), { status: 200 });
+                }) as typeof fetch,
+            },
+        );
+
+        expect(fetchedUrls[0]).toContain('is_archived=true');
+        expect(fetchedUrls.filter((url) => !url.includes('/backend-api/conversations?'))).toEqual([
+            `https://chatgpt.com/backend-api/conversation/${keep.conversation_id}?candidate=1`,
+        ]);
+        expect(result).toMatchObject({ discovered: 1, exported: 1, filteredOut: 2 });
+        expect(result.filters).toEqual({
+            title: '^keep:',
+            titleIsRegex: true,
+            updatedFrom: Date.UTC(2024, 0, 1),
+            archived: true,
+        });
+    });
+
+    it('should reject an invalid title pattern before listing conversations', async () => {
+        let fetchCount = 0;
+        await expect(
+            runBulkChatExport(
+                { type: 'BLACKIYA_BULK_EXPORT_CHATS', filters: { title: '[', titleIsRegex: true } },
+                {
+                    getAdapter: () => buildAdapter(),
+                    getAuthHeaders: () => undefined,
+                    locationHref: () => 'https://chatgpt.com/c/abc',
+                    fetchImpl: (async (_input) => {
+                        fetchCount += 1;
+                        return new Response('{}', { status: 200 });
+                    }) as typeof fetch,
+                },
+            ),
+        ).rejects.toThrow('Invalid title filter pattern');
+        expect(fetchCount).toBe(0);
+    });
+
+    it('should warn when filtered platforms do not expose the needed list metadata', async () => {
+        resetGeminiAdapterState();
+        geminiState.conversationTitles.set('gemini-chat-a1', 'Keep this one');
+
+        const result = await runBulkChatExport(
+            { type: 'BLACKIYA_BULK_EXPORT_CHATS', limit: 0, delayMs: 1, timeoutMs: 5000, filters: { title: 'keep' } },
+            {
+                getAdapter: () => buildGeminiAdapter(),
+                getAuthHeaders: () => undefined,
+                locationHref: () => 'https://gemini.google.com/app',
+                sleepImpl: async () => {},
+                ledgerStore: createMemoryLedgerStore(),
+                downloadImpl: () => {},
+                fetchImpl: (async (input) => {
+                    const url = String(input);
+                    if (url.includes('rpcids=MaZiqc')) {
+                        return new Response(`)]}'\n["c_gemini-chat-a1","c_gemini-chat-b2"]`, { status: 200 });
+                    }
+                    return new Response('not found', { status: 404 });
+                }) as typeof fetch,
+            },
+        );
+
+        expect(result.discovered).toBe(1);
+        expect(result.filteredOut).toBe(1);
+        expect(result.warnings).toContain(
+            '1 conversation(s) excluded because the list endpoint does not report fields the active filters need.',
+        );
+        resetGeminiAdapterState();
+    });
+
+    it('should stop after cancel, keep what was exported and leave the ledger resumable', async () => {
+        const ledgerStore = createMemoryLedgerStore();
+        const control = createBulkExportRunControl();
+        const conversations = [
+            buildConversation('69a85cf1-4bcc-832b-b221-d582b0c99130', 'First'),
+            buildConversation('69a85cf1-4bcc-832b-b221-d582b0c99131', 'Second'),
+            buildConversation('69a85cf1-4bcc-832b-b221-d582b0c99132', 'Third'),
+        ];
+        const archives: Blob[] = [];
+        const stages: string[] = [];
+        const detailFetches: string[] = [];
+
+        const result = await runBulkChatExport(
+            { type: 'BLACKIYA_BULK_EXPORT_CHATS', limit: 0, delayMs: 1, timeoutMs: 5000, packaging: 'zip' },
+            {
+                getAdapter: () => buildAdapter(),
+                getAuthHeaders: () => undefined,
+                locationHref: () => 'https://chatgpt.com/c/abc',
+                sleepImpl: async () => {},
+                ledgerStore,
+                control,
+                onProgress: (progress) => stages.push(progress.stage),
+                downloadArchiveImpl: (archive) => {
+                    archives.push(archive);
+                },
+                fetchImpl: (async (input) => {
+                    const url = String(input);
+                    if (url.includes('/backend-api/conversations?')) {
+                        const items = conversations.map((item) => ({ id: item.conversation_id }));
+                        return new Response(JSON.stringify({ items }), { status: 200 });
+                    }
+                    const match = conversations.find((item) => url.includes(item.conversation_id));
+                    detailFetches.push(match?.title ?? url);
+                    if (match?.title === 'Second') {
+                        control.cancel();
+                    }
+                    return new Response(JSON.stringify(match), { status: 200 });
+                }) as typeof fetch,
+            },
+        );
+
+        expect(detailFetches).toEqual(['First', 'Second']);
+        expect(result).toMatchObject({ canceled: true, discovered: 3, attempted: 1, exported: 1, failed: 0 });
+        expect(archives).toHaveLength(1);
+        expect(stages.at(-1)).toBe('canceled');
+
+        const ledger = await ledgerStore.read();
+        expect(ledger.ChatGPT?.lastRun?.completedAt).toBeNull();
+        expect(Object.keys(ledger.ChatGPT?.entries ?? {})).toEqual([conversations[0]?.conversation_id as string]);
+    });
+
+    it('should pause between fetches and continue after resume', async () => {
+        const control = createBulkExportRunControl();
+        const progress: BulkExportProgressMessage[] = [];
+        const conversations = [
+            buildConversation('69a85cf1-4bcc-832b-b221-d582b0c99140', 'First'),
+            buildConversation('69a85cf1-4bcc-832b-b221-d582b0c99141', 'Second'),
+        ];
+        const fetchLog: string[] = [];
+
+        const result = await runBulkChatExport(
+            { type: 'BLACKIYA_BULK_EXPORT_CHATS', limit: 0, delayMs: 1, timeoutMs: 5000 },
+            {
+                getAdapter: () => buildAdapter(),
+                getAuthHeaders: () => undefined,
+                locationHref: () => 'https://chatgpt.com/c/abc',
+                sleepImpl: async () => {},
+                ledgerStore: createMemoryLedgerStore(),
+                control,
+                onProgress: (message) => {
+                    progress.push(message);
+                    if (message.stage === 'progress' && message.exported === 1 && message.attempted === 1) {
+                        control.pause();
+                    }
+                    if (message.stage === 'paused') {
+                        fetchLog.push('paused');
+                        globalThis.setTimeout(() => control.resume(), 5);
+                    }
+                },
+                downloadImpl: () => {},
+                fetchImpl: (async (input) => {
+                    const url = String(input);
+                    if (url.includes('/backend-api/conversations?')) {
+                        const items = conversations.map((item) => ({ id: item.conversation_id }));
+                        return new Response(JSON.stringify({ items }), { status: 200 });
+                    }
+                    const match = conversations.find((item) => url.includes(item.conversation_id));
+                    fetchLog.push(match?.title ?? url);
+                    return new Response(JSON.stringify(match), { status: 200 });
+                }) as typeof fetch,
+            },
+        );
+
+        expect(fetchLog).toEqual(['First', 'paused', 'Second']);
+        expect(result).toMatchObject({ canceled: false, exported: 2 });
+        const paused = progress.find((message) => message.stage === 'paused');
+        expect(paused).toMatchObject({ discovered: 2, attempted: 1, exported: 1, remaining: 1 });
+        expect(progress.at(-1)?.stage).toBe('completed');
+    });
+
+    it('should skip unchanged conversations on an incremental run', async () => {
+        const ledgerStore = createMemoryLedgerStore();
+        const unchanged = buildConversation('69a85cf1-4bcc-832b-b221-d582b0c99110', 'Unchanged');
+        const edited = buildConversation('69a85cf1-4bcc-832b-b221-d582b0c99111', 'Edited');
+        const touched = buildConversation('69a85cf1-4bcc-832b-b221-d582b0c99112', 'Touched');
+        let conversations = [unchanged, edited, touched];
+        const detailFetches: string[] = [];
+        const downloads: string[] = [];
+
+        const run = (mode: 'full' | 'incremental') =>
+            runBulkChatExport(
+                { type: 'BLACKIYA_BULK_EXPORT_CHATS', limit: 0, delayMs: 1, timeoutMs: 5000, mode },
+                {
+                    getAdapter: () => buildAdapter(),
+                    getAuthHeaders: () => undefined,
+                    locationHref: () => 'https://chatgpt.com/c/abc',
+                    sleepImpl: async () => {},
+                    ledgerStore,
+                    downloadImpl: (_payload, filename) => {
+                        downloads.push(filename);
+                    },
+                    fetchImpl: (async (input) => {
+                        const url = String(input);
+                        if (url.includes('/backend-api/conversations?')) {
+                            const items = conversations.map((item) => ({
+                                id: item.conversation_id,
+                                update_time: item.update_time,
+                            }));
+                            return new Response(JSON.stringify({ items }), { status: 200 });
+                        }
+                        const match = conversations.find((item) => url.includes(item.conversation_id));
+                        detailFetches.push(match?.title ?? url);
+                        return new Response(JSON.stringify(match), { status: 200 });
+                    }) as typeof fetch,
+                },
+            );
+
+        const first = await run('full');
+        expect(first).toMatchObject({ mode: 'full', exported: 3, skipped: 0 });
+
+        // `touched` has a newer update_time but identical content, so it is fetched and then skipped.
+        conversations = [
+            unchanged,
+            { ...edited, title: 'Edited again', update_time: 3 },
+            { ...touched, update_time: 3 },
+        ];
+        detailFetches.length = 0;
+        downloads.length = 0;
+        const second = await run('incremental');
+
+        expect(second).toMatchObject({ mode: 'incremental', discovered: 3, attempted: 2, exported: 1, skipped: 2 });
+        expect(detailFetches).toEqual(['Edited again', 'Touched']);
+        expect(downloads).toEqual(['Edited again']);
+    });
+
+    it('should resume an interrupted run without re-exporting finished conversations', async () => {
+        const ledgerStore = createMemoryLedgerStore();
+        const conversations = Array.from({ length: 12 }, (_, index) =>
+            buildConversation(`69a85cf1-4bcc-832b-b221-d582b0c992${String(index).padStart(2, '0')}`, `Chat ${index}`),
+        );
+        const downloads: string[] = [];
+        // Fails on the 12th download; the ledger flushed after the 10th export.
+        let failDetailsAfter = 12;
+
+        const run = (mode: 'full' | 'resume') =>
+            runBulkChatExport(
+                { type: 'BLACKIYA_BULK_EXPORT_CHATS', limit: 0, delayMs: 1, timeoutMs: 5000, mode },
+                {
+                    getAdapter: () => buildAdapter(),
+                    getAuthHeaders: () => undefined,
+                    locationHref: () => 'https://chatgpt.com/c/abc',
+                    sleepImpl: async () => {},
+                    ledgerStore,
+                    downloadImpl: (_payload, filename) => {
+                        downloads.push(filename);
+                        if (downloads.length === failDetailsAfter) {
+                            throw new Error('tab closed');
+                        }
+                    },
+                    fetchImpl: (async (input) => {
+                        const url = String(input);
+                        if (url.includes('/backend-api/conversations?')) {
+                            const items = conversations.map((item) => ({ id: item.conversation_id }));
+                            return new Response(JSON.stringify({ items }), { status: 200 });
+                        }
+                        const match = conversations.find((item) => url.includes(item.conversation_id));
+                        return new Response(JSON.stringify(match), { status: 200 });
+                    }) as typeof fetch,
+                },
+            );
+
+        await expect(run('full')).rejects.toThrow('tab closed');
+
+        failDetailsAfter = Number.POSITIVE_INFINITY;
+        downloads.length = 0;
+        const resumed = await run('resume');
+
+        expect(resumed).toMatchObject({ mode: 'resume', discovered: 12, skipped: 10, exported: 2 });
+        expect(downloads).toEqual(['Chat 10', 'Chat 11']);
+    });
+
+    it('should export a zip run interrupted before its archive downloaded again on resume', async () => {
+        const ledgerStore = createMemoryLedgerStore();
+        const conversations = Array.from({ length: 12 }, (_, index) =>
+            buildConversation(`69a85cf1-4bcc-832b-b221-d582b0c993${String(index).padStart(2, '0')}`, `Chat ${index}`),
+        );
+        const archives: Blob[] = [];
+        // The tab closes after the 11th chat; the ledger would have flushed after the 10th.
+        let closeTabAfter = 11;
+
+        const run = (mode: 'full' | 'resume') =>
+            runBulkChatExport(
+                { type: 'BLACKIYA_BULK_EXPORT_CHATS', limit: 0, delayMs: 1, timeoutMs: 5000, mode, packaging: 'zip' },
+                {
+                    getAdapter: () => buildAdapter(),
+                    getAuthHeaders: () => undefined,
+                    locationHref: () => 'https://chatgpt.com/c/abc',
+                    sleepImpl: async () => {},
+                    ledgerStore,
+                    onProgress: (message) => {
+                        if (message.stage === 'progress' && message.attempted === closeTabAfter) {
+                            throw new Error('tab closed');
+                        }
+                    },
+                    downloadArchiveImpl: (archive) => {
+                        archives.push(archive);
+                    },
+                    fetchImpl: (async (input) => {
+                        const url = String(input);
+                        if (url.includes('/backend-api/conversations?')) {
+                            const items = conversations.map((item) => ({ id: item.conversation_id }));
+                            return new Response(JSON.stringify({ items }), { status: 200 });
+                        }
+                        const match = conversations.find((item) => url.includes(item.conversation_id));
+                        return new Response(JSON.stringify(match), { status: 200 });
+                    }) as typeof fetch,
+                },
+            );
+
+        await expect(run('full')).rejects.toThrow('tab closed');
+        expect(archives).toEqual([]);
+        expect(Object.keys((await ledgerStore.read()).ChatGPT?.entries ?? {})).toEqual([]);
+
+        closeTabAfter = Number.POSITIVE_INFINITY;
+        const resumed = await run('resume');
+
+        expect(resumed).toMatchObject({ mode: 'resume', discovered: 12, skipped: 0, exported: 12 });
+        const entries = await readStoredZipEntries(archives[0] as Blob);
+        expect(entries).toHaveLength(13);
+        const ledger = await ledgerStore.read();
+        expect(Object.keys(ledger.ChatGPT?.entries ?? {})).toHaveLength(12);
+        expect(ledger.ChatGPT?.lastRun?.completedAt).not.toBeNull();
+    });
+
     it('should back off on 429 responses using retry-after', async () => {
         const sleeps: number[] = [];
         let listAttempts = 0;
@@ -539,6 +1248,88 @@ describe('bulk-chat-export', () => {
         }
     });
 
+    it('should parse claude list items with ISO timestamps and skip non-uuid entries', () => {
+        const items = __testables__.extractClaudeListItemsFromPayload([
+            {
+                uuid: '4f1c2a9e-7b3d-4e8a-9c61-2d5f8e0a1b37',
+                name: 'Tides',
+                created_at: '2025-11-03T09:14:02Z',
+                updated_at: '2025-11-03T09:17:45Z',
+            },
+            { uuid: 'not-a-uuid', name: 'Broken' },
+        ]);
+
+        expect(items).toEqual([
+            {
+                id: '4f1c2a9e-7b3d-4e8a-9c61-2d5f8e0a1b37',
+                title: 'Tides',
+                createTime: Date.parse('2025-11-03T09:14:02Z') / 1000,
+                updateTime: Date.parse('2025-11-03T09:17:45Z') / 1000,
+                gizmoId: null,
+                isArchived: null,
+            },
+        ]);
+        expect(__testables__.extractClaudeOrganizationIdFromPayload([{ uuid: 'x' }, { uuid: items[0]?.id }])).toBe(
+            items[0]?.id,
+        );
+    });
+
+    it('should look up the claude organization, page the list and fetch adapter detail urls', async () => {
+        resetClaudeAdapterState();
+        const orgId = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d';
+        const convA = buildConversation('4f1c2a9e-7b3d-4e8a-9c61-2d5f8e0a1b37', 'Claude A');
+        const convB = buildConversation('5a2d3b0f-8c4e-4f9b-8d72-3e6a9f1b2c48', 'Claude B');
+        const fetchedUrls: string[] = [];
+        const claudeAdapter: LLMPlatform = {
+            ...buildAdapter(),
+            name: 'Claude',
+            buildApiUrls: (conversationId) =>
+                claudeState.organizationId
+                    ? [
+                          `https://claude.ai/api/organizations/${claudeState.organizationId}/chat_conversations/${conversationId}`,
+                      ]
+                    : [],
+        };
+
+        const result = await runBulkChatExport(
+            { type: 'BLACKIYA_BULK_EXPORT_CHATS', limit: 0, delayMs: 1, timeoutMs: 5000 },
+            {
+                getAdapter: () => claudeAdapter,
+                getAuthHeaders: () => undefined,
+                locationHref: () => `https://claude.ai/chat/${convA.conversation_id}`,
+                sleepImpl: async () => {},
+                downloadImpl: () => {},
+                fetchImpl: (async (input) => {
+                    const url = String(input);
+                    fetchedUrls.push(url);
+                    if (url === 'https://claude.ai/api/organizations') {
+                        return new Response(JSON.stringify([{ uuid: orgId, name: 'Personal' }]), { status: 200 });
+                    }
+                    if (url.includes('/chat_conversations?limit=100&offset=0')) {
+                        return new Response(
+                            JSON.stringify([
+                                { uuid: convA.conversation_id, name: 'Claude A', updated_at: '2025-11-03T09:17:45Z' },
+                                { uuid: convB.conversation_id, name: 'Claude B' },
+                            ]),
+                            { status: 200 },
+                        );
+                    }
+                    const conversation = [convA, convB].find((item) => url.endsWith(item.conversation_id));
+                    return conversation
+                        ? new Response(JSON.stringify(conversation), { status: 200 })
+                        : new Response('not found', { status: 404 });
+                }) as typeof fetch,
+            },
+        );
+
+        expect(claudeState.organizationId).toBe(orgId);
+        expect(fetchedUrls.filter((url) => url.includes('chat_conversations?'))).toHaveLength(1);
+        expect(result.discovered).toBe(2);
+        expect(result.exported).toBe(2);
+        expect(result.warnings).toEqual([]);
+        resetClaudeAdapterState();
+    });
+
     it('should surface grok list fetch status in warnings when list endpoint fails', async () => {
         const grokAdapter: LLMPlatform = {
             ...buildAdapter(),
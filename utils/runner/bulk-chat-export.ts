@@ -1,20 +1,59 @@
+import { claudeState } from '@/platforms/claude/state';
+import { CLAUDE_UUID_PATTERN, resolveClaudeOrganizationId } from '@/platforms/claude/url-utils';
 import { GEMINI_RPC_IDS } from '@/platforms/constants';
+import { fillEndpointTemplate, getPlatformDescriptor } from '@/platforms/descriptors';
 import { geminiState } from '@/platforms/gemini/state';
-import type { LLMPlatform } from '@/platforms/types';
-import { downloadAsJSON } from '@/utils/download';
+import type { LLMPlatform, PlatformBulkExportDescriptor } from '@/platforms/types';
+import { downloadAsBlob, downloadAsFile } from '@/utils/download';
+import {
+    type ExportEncryptor,
+    encryptExportForDownload,
+    sealSerializedExport,
+} from '@/utils/encryption/export-envelope';
+import { collectConversationAttachments } from '@/utils/export/attachments';
+import { serializeConversationExport } from '@/utils/export/formats';
 import type { GeminiBatchexecuteContext } from '@/utils/gemini-batchexecute-bridge';
 import { parseBatchexecuteResponse } from '@/utils/google-rpc';
 import { logger } from '@/utils/logger';
 import { clearPlatformHeadersCache } from '@/utils/platform-header-cache';
 import type { HeaderRecord } from '@/utils/proactive-fetch-headers';
+import type { RedactionSummary } from '@/utils/redaction/redaction';
+import { type AttachmentBundle, bundleConversationAttachments } from '@/utils/runner/attachment-bundle';
 import type {
     BulkExportChatsMessage,
     BulkExportChatsSuccessResponse,
+    BulkExportMode,
+    BulkExportPackaging,
     BulkExportProgressMessage,
 } from '@/utils/runner/bulk-chat-export-contract';
 import { BULK_EXPORT_PROGRESS_MESSAGE } from '@/utils/runner/bulk-chat-export-contract';
-import { attachExportMeta } from '@/utils/runner/export-helpers';
-import { applyResolvedExportTitle } from '@/utils/runner/export-pipeline';
+import {
+    type BulkExportArchive,
+    buildBulkExportArchiveName,
+    createBulkExportArchive,
+} from '@/utils/runner/bulk-export-archive';
+import { type BulkExportRunControl, createBulkExportRunControl } from '@/utils/runner/bulk-export-control';
+import {
+    type BulkExportListFilter,
+    type BulkExportListItem,
+    createBulkExportListFilter,
+} from '@/utils/runner/bulk-export-filters';
+import {
+    type BulkExportLedgerSession,
+    type BulkExportLedgerStore,
+    browserBulkExportLedgerStore,
+    openBulkExportLedgerSession,
+} from '@/utils/runner/bulk-export-ledger';
+import { attachExportMeta, attachRedactionSummary } from '@/utils/runner/export-helpers';
+import { applyExportRedaction, applyResolvedExportTitle } from '@/utils/runner/export-pipeline';
+import {
+    type ExportFormat,
+    type ExportFormatSettingsMap,
+    type RedactionSettings,
+    resolveExportFormatSettings,
+} from '@/utils/settings';
+import type { ExportMeta } from '@/utils/sfe/types';
+import type { WebhookExportPayload } from '@/utils/sinks/webhook-sink-contract';
 import type { ConversationData } from '@/utils/types';
 
 const CHATGPT_HOSTS = ['chatgpt.com', 'chat.openai.com'];
@@ -28,6 +67,7 @@ const MAX_DELAY_MS = 20_000;
 const MIN_TIMEOUT_MS = 5_000;
 const MAX_TIMEOUT_MS = 60_000;
 const MAX_429_RETRIES = 3;
+const CANCELED_FETCH_MESSAGE = 'Bulk export canceled';
 const GEMINI_BATCHEXECUTE_PATH = '/_/BardChatUi/data/batchexecute';
 
 type BulkChatExportDeps = {
@@ -35,24 +75,53 @@ type BulkChatExportDeps = {
     getAuthHeaders: () => HeaderRecord | undefined;
     getGeminiBatchexecuteContext?: () => GeminiBatchexecuteContext | undefined;
     fetchImpl?: typeof fetch;
+    /** Raw JSON payload sink; when set it receives `json` exports instead of the format registry. */
     downloadImpl?: (payload: unknown, filename: string) => void;
+    downloadFileImpl?: (content: string, filename: string, extension: string, mimeType: string) => void;
+    /** Receives the finished archive for `zip` packaging; `filename` excludes the extension. */
+    downloadArchiveImpl?: (archive: Blob, filename: string) => void;
+    getExportFormat?: () => ExportFormat;
+    getExportFormatSettings?: () => ExportFormatSettingsMap;
     sleepImpl?: (milliseconds: number) => Promise<void>;
     nowImpl?: () => number;
     locationHref?: () => string;
     onProgress?: (message: BulkExportProgressMessage) => void;
+    /** Defaults to the `browser.storage.local` ledger. */
+    ledgerStore?: BulkExportLedgerStore;
+    /** Pause / resume / cancel handle for this run; a run without one cannot be interrupted. */
+    control?: BulkExportRunControl;
+    /** Hands each serialized export to the background webhook outbox; absent while no sink is enabled. */
+    deliverToSinks?: (payload: WebhookExportPayload) => void;
+    /** Redaction applied to every exported conversation; absent or disabled settings export them as fetched. */
+    getRedactionSettings?: () => RedactionSettings;
+    /** Encrypts every downloaded file (or the ZIP) with the session passphrase; absent while encryption is off. */
+    getExportEncryptor?: () => Promise<ExportEncryptor>;
 };
 
 type NormalizedOptions = {
     maxItems: number | null;
     delayMs: number;
     timeoutMs: number;
+    packaging: BulkExportPackaging;
+    mode: BulkExportMode;
+    listFilter: BulkExportListFilter;
 };
 
 type RequestContext = {
     options: NormalizedOptions;
     adapter: LLMPlatform;
+    /** List and detail endpoint templates from the platform descriptor. */
+    bulkExport: PlatformBulkExportDescriptor;
     fetchImpl: typeof fetch;
-    downloadImpl: (payload: unknown, filename: string) => void;
+    downloadImpl: ((payload: unknown, filename: string) => void) | undefined;
+    downloadFileImpl: (content: string, filename: string, extension: string, mimeType: string) => void;
+    exportFormat: ExportFormat;
+    exportFormatSettings: ExportFormatSettingsMap;
+    archive: BulkExportArchive | null;
+    control: BulkExportRunControl;
+    deliverToSinks: ((payload: WebhookExportPayload) => void) | undefined;
+    redactionSettings: RedactionSettings | undefined;
+    encryptor: ExportEncryptor | null;
     sleepImpl: (milliseconds: number) => Promise<void>;
     nowImpl: () => number;
     authHeaders: HeaderRecord | undefined;
@@ -64,9 +133,21 @@ type RequestContext = {
 type ConversationListResult = {
     ids: string[];
     warnings: string[];
+    /** List-reported `update_time` (seconds) per conversation ID, when the list endpoint exposes it. */
+    updateTimes?: Record<string, number>;
+    /** Listed conversations rejected by the request filters. */
+    filteredOut?: number;
 };
 
-type PlatformKind = 'chatgpt' | 'gemini' | 'grok-com' | 'unsupported';
+type ConversationListCollector = {
+    ids: string[];
+    seen: Set<string>;
+    updateTimes: Record<string, number>;
+    filteredOut: number;
+    missingMetadata: number;
+};
+
+type PlatformKind = PlatformBulkExportDescriptor['strategy'] | 'unsupported';
 
 type FetchTextResult =
     | { ok: true; text: string }
@@ -99,6 +180,9 @@ const normalizeOptions = (message: BulkExportChatsMessage): NormalizedOptions =>
     maxItems: normalizeMaxItems(message.limit),
     delayMs: normalizePositiveInt(message.delayMs, DEFAULT_DELAY_MS, MIN_DELAY_MS, MAX_DELAY_MS),
     timeoutMs: normalizePositiveInt(message.timeoutMs, DEFAULT_TIMEOUT_MS, MIN_TIMEOUT_MS, MAX_TIMEOUT_MS),
+    packaging: message.packaging === 'zip' ? 'zip' : 'files',
+    mode: message.mode ?? 'full',
+    listFilter: createBulkExportListFilter(message.filters),
 });
 
 const uniqueStrings = (values: string[]) => {
@@ -193,18 +277,46 @@ const collectChatGptConversationArrays = (payload: unknown): unknown[][] => {
     return candidates.filter((value): value is unknown[] => Array.isArray(value));
 };
 
-const extractChatGptConversationIdsFromPayload = (payload: unknown): string[] => {
-    const ids: string[] = [];
+const toUpdateTimeSeconds = (value: unknown): number | null => {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        return value;
+    }
+    if (typeof value === 'string') {
+        const parsedMs = Date.parse(value);
+        return Number.isFinite(parsedMs) ? parsedMs / 1000 : null;
+    }
+    return null;
+};
+
+const toBareListItem = (id: string): BulkExportListItem => ({
+    id,
+    title: null,
+    createTime: null,
+    updateTime: null,
+    gizmoId: null,
+    isArchived: null,
+});
+
+const extractChatGptListItemsFromPayload = (payload: unknown): BulkExportListItem[] => {
+    const listItems: BulkExportListItem[] = [];
     for (const items of collectChatGptConversationArrays(payload)) {
         for (const item of items) {
             const conversationId = extractChatGptConversationIdFromItem(item);
-            if (conversationId) {
-                ids.push(conversationId);
+            if (!conversationId) {
+                continue;
             }
+            const record = asRecord(item);
+            listItems.push({
+                id: conversationId,
+                title: readString(record, 'title'),
+                createTime: toUpdateTimeSeconds(record?.create_time),
+                updateTime: toUpdateTimeSeconds(record?.update_time),
+                gizmoId: readString(record, 'gizmo_id'),
+                isArchived: typeof record?.is_archived === 'boolean' ? record.is_archived : null,
+            });
         }
     }
-
-    return uniqueStrings(ids);
+    return listItems;
 };
 
 const extractChatGptConversationIdsFromText = (text: string): string[] => {
@@ -254,17 +366,69 @@ const extractGrokComConversationIdFromItem = (item: unknown): string | null => {
     return candidate;
 };
 
-const extractGrokComConversationIdsFromPayload = (payload: unknown): string[] => {
-    const ids: string[] = [];
+const extractGrokComListItemsFromPayload = (payload: unknown): BulkExportListItem[] => {
+    const listItems: BulkExportListItem[] = [];
     for (const collection of collectGrokComConversationArrays(payload)) {
         for (const item of collection) {
             const conversationId = extractGrokComConversationIdFromItem(item);
-            if (conversationId) {
-                ids.push(conversationId);
+            if (!conversationId) {
+                continue;
             }
+            const record = asRecord(item);
+            listItems.push({
+                id: conversationId,
+                title: readString(record, 'title'),
+                createTime: toUpdateTimeSeconds(record?.createTime ?? record?.create_time),
+                updateTime: toUpdateTimeSeconds(record?.modifyTime ?? record?.updateTime ?? record?.update_time),
+                gizmoId: null,
+                isArchived: null,
+            });
         }
     }
-    return uniqueStrings(ids);
+    return listItems;
+};
+
+const extractGrokComConversationIdsFromPayload = (payload: unknown): string[] =>
+    uniqueStrings(extractGrokComListItemsFromPayload(payload).map((item) => item.id));
+
+/** Claude lists are a bare JSON array of `{ uuid, name, created_at, updated_at, ... }`. */
+const extractClaudeListItemsFromPayload = (payload: unknown): BulkExportListItem[] => {
+    const record = asRecord(payload);
+    const collection = Array.isArray(payload) ? payload : (record?.data ?? record?.conversations);
+    if (!Array.isArray(collection)) {
+        return [];
+    }
+    const listItems: BulkExportListItem[] = [];
+    for (const item of collection) {
+        const itemRecord = asRecord(item);
+        const conversationId = readString(itemRecord, 'uuid');
+        if (!conversationId || !CLAUDE_UUID_PATTERN.test(conversationId)) {
+            continue;
+        }
+        listItems.push({
+            id: conversationId,
+            title: readString(itemRecord, 'name') || null,
+            createTime: toUpdateTimeSeconds(itemRecord?.created_at),
+            updateTime: toUpdateTimeSeconds(itemRecord?.updated_at),
+            gizmoId: null,
+            isArchived: null,
+        });
+    }
+    return listItems;
+};
+
+/** Picks the first organization from `GET /api/organizations`. */
+const extractClaudeOrganizationIdFromPayload = (payload: unknown): string | null => {
+    if (!Array.isArray(payload)) {
+        return null;
+    }
+    for (const item of payload) {
+        const organizationId = readString(asRecord(item), 'uuid');
+        if (organizationId && CLAUDE_UUID_PATTERN.test(organizationId)) {
+            return organizationId;
+        }
+    }
+    return null;
 };
 
 const extractGrokComConversationIdsFromText = (text: string): string[] => {
@@ -381,13 +545,13 @@ const getRetryDelayMs = (response: Response, nowMs: number, attempt: number): nu
     return Math.max(1_000, Math.min(30_000, 1_500 * 2 ** attempt));
 };
 
+/** Paces requests and honors pause/cancel; resolves `false` when the run was canceled. */
 const waitForRequestSlot = async (context: RequestContext) => {
-    if (context.requestCount === 0) {
-        context.requestCount += 1;
-        return;
+    if (context.requestCount > 0 && !(await context.control.sleep(context.options.delayMs, context.sleepImpl))) {
+        return false;
     }
-    await context.sleepImpl(context.options.delayMs);
     context.requestCount += 1;
+    return context.control.checkpoint();
 };
 
 type FetchTextRequestInit = {
@@ -451,16 +615,21 @@ const fetchText = async (
     let attempt = 0;
 
     while (attempt <= MAX_429_RETRIES) {
-        await waitForRequestSlot(context);
+        if (!(await waitForRequestSlot(context))) {
+            return buildFailedFetchResult(0, CANCELED_FETCH_MESSAGE);
+        }
         const controller = new AbortController();
         const timeoutId = globalThis.setTimeout(() => controller.abort(), context.options.timeoutMs);
+        const abortOnCancel = () => controller.abort();
+        context.control.signal.addEventListener('abort', abortOnCancel);
 
         try {
             const response = await requestWithTimeout(url, context, init, controller.signal);
             const outcome = await processFetchResponse(response, context, attempt);
             if (typeof outcome.retryDelayMs === 'number') {
-                const retryDelayMs = outcome.retryDelayMs;
-                await context.sleepImpl(retryDelayMs);
+                if (!(await context.control.sleep(outcome.retryDelayMs, context.sleepImpl))) {
+                    return buildFailedFetchResult(0, CANCELED_FETCH_MESSAGE);
+                }
                 attempt += 1;
                 continue;
             }
@@ -469,40 +638,97 @@ const fetchText = async (
             return buildFailedFetchResult(0, error instanceof Error ? error.message : String(error));
         } finally {
             globalThis.clearTimeout(timeoutId);
+            context.control.signal.removeEventListener('abort', abortOnCancel);
         }
     }
 
     return buildFailedFetchResult(429, 'Rate limit retries exhausted');
 };
 
+const resolveBulkExportDescriptor = (adapter: LLMPlatform) => getPlatformDescriptor(adapter.name)?.bulkExport ?? null;
+
+/** Strategies with `hosts` only run on those exact page hosts (e.g. not Grok on x.com). */
 const resolvePlatformKind = (adapter: LLMPlatform, locationHref: string): PlatformKind => {
-    if (adapter.name === 'ChatGPT') {
-        return 'chatgpt';
+    const bulkExport = resolveBulkExportDescriptor(adapter);
+    if (!bulkExport) {
+        return 'unsupported';
     }
-    if (adapter.name === 'Gemini') {
-        return 'gemini';
+    if (!bulkExport.hosts) {
+        return bulkExport.strategy;
     }
-    if (adapter.name !== 'Grok') {
+    try {
+        return bulkExport.hosts.includes(new URL(locationHref).hostname) ? bulkExport.strategy : 'unsupported';
+    } catch {
         return 'unsupported';
     }
+};
 
-    try {
-        const { hostname } = new URL(locationHref);
-        if (hostname === 'grok.com') {
-            return 'grok-com';
+const createListCollector = (): ConversationListCollector => ({
+    ids: [],
+    seen: new Set<string>(),
+    updateTimes: {},
+    filteredOut: 0,
+    missingMetadata: 0,
+});
+
+/** Applies the request filters to one page of list items, before any detail fetch. */
+const collectListItems = (
+    items: BulkExportListItem[],
+    context: RequestContext,
+    collector: ConversationListCollector,
+) => {
+    for (const item of items) {
+        if (collector.seen.has(item.id)) {
+            continue;
+        }
+        collector.seen.add(item.id);
+        const verdict = context.options.listFilter.evaluate(item);
+        if (verdict !== 'match') {
+            collector.filteredOut += 1;
+            collector.missingMetadata += verdict === 'missing-metadata' ? 1 : 0;
+            continue;
+        }
+        collector.ids.push(item.id);
+        if (item.updateTime !== null) {
+            collector.updateTimes[item.id] = item.updateTime;
         }
-    } catch {
-        return 'unsupported';
     }
+};
 
-    return 'unsupported';
+const isListCollectorFull = (collector: ConversationListCollector, context: RequestContext) =>
+    context.options.maxItems !== null && collector.ids.length >= context.options.maxItems;
+
+const finishListCollector = (
+    collector: ConversationListCollector,
+    warnings: string[],
+    context: RequestContext,
+): ConversationListResult => {
+    if (collector.missingMetadata > 0) {
+        warnings.push(
+            `${collector.missingMetadata} conversation(s) excluded because the list endpoint does not report fields the active filters need.`,
+        );
+    }
+    const limit = context.options.maxItems;
+    return {
+        ids: limit === null ? collector.ids : collector.ids.slice(0, limit),
+        warnings,
+        updateTimes: collector.updateTimes,
+        filteredOut: collector.filteredOut,
+    };
 };
 
-const buildChatGptListUrls = (host: string, offset: number, pageSize: number) => [
-    `https://${host}/backend-api/conversations?offset=${offset}&limit=${pageSize}&order=updated&is_archived=false&is_starred=false`,
-    `https://${host}/backend-api/conversations?offset=${offset}&limit=${pageSize}&order=updated&is_archived=false`,
-    `https://${host}/backend-api/conversations?offset=${offset}&limit=${pageSize}&order=updated`,
-];
+const buildChatGptListUrls = (
+    context: RequestContext,
+    host: string,
+    offset: number,
+    pageSize: number,
+    archived: boolean,
+) => {
+    const base = fillEndpointTemplate(context.bulkExport.listEndpoint, { host, offset, limit: pageSize });
+    return archived
+        ? [`${base}&is_archived=true`]
+        : [`${base}&is_archived=false&is_starred=false`, `${base}&is_archived=false`, base];
+};
 
 const fetchFirstSuccessfulResponse = async (
     urls: string[],
@@ -519,23 +745,30 @@ const fetchFirstSuccessfulResponse = async (
     return lastFailure;
 };
 
-const parseChatGptListPageIds = (responseText: string): string[] => {
-    const parsedPayload = parseJsonSafe(responseText);
-    const fromPayload = extractChatGptConversationIdsFromPayload(parsedPayload);
-    return fromPayload.length > 0 ? fromPayload : extractChatGptConversationIdsFromText(responseText);
+const extractChatGptConversationIdsFromPayload = (payload: unknown): string[] =>
+    uniqueStrings(extractChatGptListItemsFromPayload(payload).map((item) => item.id));
+
+const parseChatGptListPage = (responseText: string): BulkExportListItem[] => {
+    const fromPayload = extractChatGptListItemsFromPayload(parseJsonSafe(responseText));
+    return fromPayload.length > 0
+        ? fromPayload
+        : extractChatGptConversationIdsFromText(responseText).map(toBareListItem);
 };
 
 const listConversationIdsChatGpt = async (context: RequestContext): Promise<ConversationListResult> => {
-    const limit = context.options.maxItems;
-    const ids: string[] = [];
+    const collector = createListCollector();
     const warnings: string[] = [];
+    const archived = context.options.listFilter.filters?.archived === true;
     let offset = 0;
     const pageSize = 100;
 
-    while (limit === null || ids.length < limit) {
+    while (!isListCollectorFull(collector, context)) {
         const currentHost = resolveHostFromLocation(context.locationHref(), CHATGPT_HOSTS[0]);
         const host = CHATGPT_HOSTS.includes(currentHost) ? currentHost : CHATGPT_HOSTS[0];
-        const response = await fetchFirstSuccessfulResponse(buildChatGptListUrls(host, offset, pageSize), context);
+        const response = await fetchFirstSuccessfulResponse(
+            buildChatGptListUrls(context, host, offset, pageSize, archived),
+            context,
+        );
 
         if (!response?.ok) {
             warnings.push(
@@ -544,23 +777,20 @@ const listConversationIdsChatGpt = async (context: RequestContext): Promise<Conv
             break;
         }
 
-        const pageIds = parseChatGptListPageIds(response.text);
-        if (pageIds.length === 0) {
+        const pageItems = parseChatGptListPage(response.text);
+        if (pageItems.length === 0) {
             warnings.push(`ChatGPT list endpoint returned no parseable conversation ids at offset=${offset}.`);
             break;
         }
 
-        ids.push(...pageIds);
+        collectListItems(pageItems, context, collector);
         offset += pageSize;
-        if (pageIds.length < pageSize) {
+        if (pageItems.length < pageSize) {
             break;
         }
     }
 
-    return {
-        ids: uniqueStrings(limit === null ? ids : ids.slice(0, limit)),
-        warnings,
-    };
+    return finishListCollector(collector, warnings, context);
 };
 
 const resolveGrokComNextCursor = (payload: unknown): string | null => {
@@ -576,36 +806,39 @@ const resolveGrokComNextCursor = (payload: unknown): string | null => {
 const fetchGrokComConversationPage = async (cursor: string | null, context: RequestContext) => {
     const pageSize = 100;
     const cursorPart = cursor ? `&cursor=${encodeURIComponent(cursor)}` : '';
-    const url = `https://grok.com/rest/app-chat/conversations?pageSize=${pageSize}${cursorPart}`;
+    const host = context.bulkExport.hosts?.[0] ?? 'grok.com';
+    const url = `${fillEndpointTemplate(context.bulkExport.listEndpoint, { host, pageSize })}${cursorPart}`;
     const response = await fetchText(url, context);
     if (!response.ok) {
         return {
-            ids: [],
+            items: [],
             nextCursor: null,
             warning: `Grok list endpoint failed: status=${response.status} message=${response.message || 'Unknown error'}`,
         };
     }
     const parsed = parseJsonSafe(response.text);
-    const idsFromPayload = extractGrokComConversationIdsFromPayload(parsed);
-    const ids = idsFromPayload.length > 0 ? idsFromPayload : extractGrokComConversationIdsFromText(response.text);
+    const itemsFromPayload = extractGrokComListItemsFromPayload(parsed);
+    const items =
+        itemsFromPayload.length > 0
+            ? itemsFromPayload
+            : extractGrokComConversationIdsFromText(response.text).map(toBareListItem);
     return {
-        ids,
+        items,
         nextCursor: resolveGrokComNextCursor(parsed),
         warning:
-            ids.length === 0
+            items.length === 0
                 ? `Grok list endpoint returned no parseable conversation ids (cursor=${cursor ?? 'initial'}).`
                 : undefined,
     };
 };
 
 const listConversationIdsGrokCom = async (context: RequestContext): Promise<ConversationListResult> => {
-    const limit = context.options.maxItems;
-    const ids: string[] = [];
+    const collector = createListCollector();
     const warnings: string[] = [];
     const seenCursors = new Set<string>();
     let cursor: string | null = null;
 
-    while (limit === null || ids.length < limit) {
+    while (!isListCollectorFull(collector, context)) {
         const page = await fetchGrokComConversationPage(cursor, context);
         if (!page) {
             break;
@@ -613,11 +846,11 @@ const listConversationIdsGrokCom = async (context: RequestContext): Promise<Conv
         if (page.warning) {
             warnings.push(page.warning);
         }
-        if (page.ids.length === 0) {
+        if (page.items.length === 0) {
             break;
         }
 
-        ids.push(...page.ids);
+        collectListItems(page.items, context, collector);
         if (!page.nextCursor || seenCursors.has(page.nextCursor)) {
             break;
         }
@@ -625,10 +858,92 @@ const listConversationIdsGrokCom = async (context: RequestContext): Promise<Conv
         cursor = page.nextCursor;
     }
 
-    return {
-        ids: uniqueStrings(limit === null ? ids : ids.slice(0, limit)),
-        warnings,
-    };
+    return finishListCollector(collector, warnings, context);
+};
+
+/**
+ * The organization comes from intercepted API URLs or the `lastActiveOrg` cookie; when
+ * neither is available the account's first organization is looked up and remembered
+ * so the adapter's detail URLs resolve too.
+ */
+const resolveClaudeBulkOrganizationId = async (context: RequestContext, host: string, warnings: string[]) => {
+    const known = resolveClaudeOrganizationId();
+    if (known) {
+        return known;
+    }
+    if (!context.bulkExport.accountEndpoint) {
+        warnings.push('Claude organization lookup has no account endpoint configured.');
+        return null;
+    }
+    const response = await fetchText(fillEndpointTemplate(context.bulkExport.accountEndpoint, { host }), context);
+    if (!response.ok) {
+        warnings.push(
+            `Claude organization lookup failed: status=${response.status} message=${response.message || 'Unknown error'}`,
+        );
+        return null;
+    }
+    const organizationId = extractClaudeOrganizationIdFromPayload(parseJsonSafe(response.text));
+    if (!organizationId) {
+        warnings.push('Claude organization lookup returned no organization.');
+        return null;
+    }
+    claudeState.organizationId = organizationId;
+    return organizationId;
+};
+
+const listConversationIdsClaude = async (context: RequestContext): Promise<ConversationListResult> => {
+    const collector = createListCollector();
+    const warnings: string[] = [];
+    const host = resolveHostFromLocation(context.locationHref(), 'claude.ai');
+    const organizationId = await resolveClaudeBulkOrganizationId(context, host, warnings);
+    if (!organizationId) {
+        return finishListCollector(collector, warnings, context);
+    }
+    let offset = 0;
+    const pageSize = 100;
+
+    while (!isListCollectorFull(collector, context)) {
+        const url = fillEndpointTemplate(context.bulkExport.listEndpoint, {
+            host,
+            organizationId,
+            limit: pageSize,
+            offset,
+        });
+        const response = await fetchText(url, context);
+        if (!response.ok) {
+            warnings.push(
+                `Claude list endpoint failed at offset=${offset}: status=${response.status} message=${response.message || 'Unknown error'}`,
+            );
+            break;
+        }
+
+        const pageItems = extractClaudeListItemsFromPayload(parseJsonSafe(response.text));
+        if (pageItems.length === 0) {
+            if (offset === 0) {
+                warnings.push('Claude list endpoint returned no parseable conversation ids.');
+            }
+            break;
+        }
+
+        collectListItems(pageItems, context, collector);
+        offset += pageSize;
+        if (pageItems.length < pageSize) {
+            break;
+        }
+    }
+
+    return finishListCollector(collector, warnings, context);
+};
+
+/** Gemini lists carry no timestamps; titles come from the intercepted-title cache when known. */
+const finishGeminiList = (ids: string[], warnings: string[], context: RequestContext) => {
+    const collector = createListCollector();
+    collectListItems(
+        ids.map((id) => ({ ...toBareListItem(id), title: geminiState.conversationTitles.get(id) ?? null })),
+        context,
+        collector,
+    );
+    return finishListCollector(collector, warnings, context);
 };
 
 const listConversationIdsGemini = async (context: RequestContext): Promise<ConversationListResult> => {
@@ -640,7 +955,11 @@ const listConversationIdsGemini = async (context: RequestContext): Promise<Conve
         ...Array.from(geminiState.conversationTitles.keys()),
         ...(locationConversationId ? [locationConversationId] : []),
     ]);
-    const url = `https://${host}${GEMINI_BATCHEXECUTE_PATH}?rpcids=${GEMINI_RPC_IDS.TITLES}&source-path=${encodeURIComponent(sourcePath)}&rt=c`;
+    const url = fillEndpointTemplate(context.bulkExport.listEndpoint, {
+        host,
+        rpcId: GEMINI_RPC_IDS.TITLES,
+        sourcePath,
+    });
     const response = await fetchText(url, context);
     if (!response.ok) {
         warnings.push(
@@ -650,20 +969,14 @@ const listConversationIdsGemini = async (context: RequestContext): Promise<Conve
             warnings.push(
                 `Gemini titles request failed; falling back to cached Gemini title ids (${cachedIds.length}).`,
             );
-            return {
-                ids: context.options.maxItems === null ? cachedIds : cachedIds.slice(0, context.options.maxItems),
-                warnings,
-            };
+            return finishGeminiList(cachedIds, warnings, context);
         }
         return { ids: [], warnings };
     }
 
     const parsedIds = extractGeminiConversationIdsFromBatchexecuteText(response.text);
     if (parsedIds.length > 0) {
-        return {
-            ids: context.options.maxItems === null ? parsedIds : parsedIds.slice(0, context.options.maxItems),
-            warnings,
-        };
+        return finishGeminiList(parsedIds, warnings, context);
     }
 
     if (cachedIds.length > 0) {
@@ -672,11 +985,7 @@ const listConversationIdsGemini = async (context: RequestContext): Promise<Conve
         );
     }
 
-    const ids = cachedIds;
-    return {
-        ids: context.options.maxItems === null ? ids : ids.slice(0, context.options.maxItems),
-        warnings,
-    };
+    return finishGeminiList(cachedIds, warnings, context);
 };
 
 const uniqueUrls = (urls: string[]): string[] => {
@@ -696,24 +1005,32 @@ const uniqueUrls = (urls: string[]): string[] => {
     return result;
 };
 
+const fillDetailEndpoints = (bulkExport: PlatformBulkExportDescriptor, values: Record<string, string>) =>
+    bulkExport.detailEndpoints.map((template) => fillEndpointTemplate(template, values));
+
 const buildDetailUrls = (
     platform: PlatformKind,
-    adapter: LLMPlatform,
+    context: RequestContext,
     conversationId: string,
     host: string,
 ): string[] => {
+    const { adapter, bulkExport } = context;
     if (platform === 'chatgpt') {
         const fromAdapter = adapter.buildApiUrls?.(conversationId) ?? [];
         const primary = adapter.buildApiUrl?.(conversationId);
-        const fallback = [`https://${host}/backend-api/conversation/${conversationId}`];
+        const fallback = fillDetailEndpoints(bulkExport, { host, conversationId });
         return uniqueUrls([...(primary ? [primary] : []), ...fromAdapter, ...fallback]);
     }
 
     if (platform === 'gemini') {
-        return uniqueUrls([
-            `https://${host}${GEMINI_BATCHEXECUTE_PATH}?rpcids=${GEMINI_RPC_IDS.CONVERSATION}&source-path=${encodeURIComponent(`/app/${conversationId}`)}&rt=c`,
-            `https://${host}${GEMINI_BATCHEXECUTE_PATH}?rpcids=${GEMINI_RPC_IDS.CONVERSATION}&source-path=${encodeURIComponent('/app')}&rt=c&conversation_id=${encodeURIComponent(conversationId)}`,
-        ]);
+        return uniqueUrls(
+            fillDetailEndpoints(bulkExport, {
+                host,
+                rpcId: GEMINI_RPC_IDS.CONVERSATION,
+                sourcePath: `/app/${conversationId}`,
+                conversationId,
+            }),
+        );
     }
 
     if (platform === 'grok-com') {
@@ -721,13 +1038,14 @@ const buildDetailUrls = (
         return uniqueUrls(
             fromAdapter.length > 0
                 ? fromAdapter
-                : [
-                      `https://grok.com/rest/app-chat/conversations_v2/${conversationId}?includeWorkspaces=true&includeTaskResult=true`,
-                      `https://grok.com/rest/app-chat/conversations/${conversationId}/response-node?includeThreads=true`,
-                  ],
+                : fillDetailEndpoints(bulkExport, { host: bulkExport.hosts?.[0] ?? 'grok.com', conversationId }),
         );
     }
 
+    if (platform === 'claude') {
+        return uniqueUrls(adapter.buildApiUrls?.(conversationId) ?? []);
+    }
+
     return [];
 };
 
@@ -847,7 +1165,7 @@ const fetchConversationFromDetailUrls = async (
     context: RequestContext,
 ): Promise<DetailFetchResult> => {
     const host = resolveHostFromLocation(context.locationHref(), 'chatgpt.com');
-    const urls = buildDetailUrls(platform, context.adapter, conversationId, host);
+    const urls = buildDetailUrls(platform, context, conversationId, host);
     const reconnectResponseIds: string[] = [];
 
     for (const url of urls) {
@@ -912,9 +1230,273 @@ const listConversationIds = async (
     if (platform === 'grok-com') {
         return listConversationIdsGrokCom(context);
     }
+    if (platform === 'claude') {
+        return listConversationIdsClaude(context);
+    }
     return { ids: [], warnings: [] };
 };
 
+const BULK_EXPORT_META: ExportMeta = {
+    captureSource: 'canonical_api',
+    fidelity: 'high',
+    completeness: 'complete',
+};
+
+/**
+ * Downloads the conversation's attachments for ZIP exports whose format bundles
+ * them; other packaging keeps linking to the remote copies.
+ */
+const bundleAttachmentsForArchive = async (
+    conversation: ConversationData,
+    filename: string,
+    context: RequestContext,
+): Promise<AttachmentBundle | null> => {
+    const { bundleAttachments } = resolveExportFormatSettings(context.exportFormatSettings, context.exportFormat);
+    if (!context.archive || !bundleAttachments || collectConversationAttachments(conversation).length === 0) {
+        return null;
+    }
+    return bundleConversationAttachments(conversation, filename, {
+        fetchImpl: context.fetchImpl,
+        authHeaders: context.authHeaders,
+        pageUrl: context.locationHref(),
+        signal: context.control.signal,
+    });
+};
+
+const writeConversationExport = async (
+    conversation: ConversationData,
+    filename: string,
+    context: RequestContext,
+    redaction?: RedactionSummary,
+) => {
+    if (!context.archive && !context.encryptor && context.exportFormat === 'json' && context.downloadImpl) {
+        const payload = attachExportMeta(conversation, BULK_EXPORT_META);
+        context.downloadImpl(redaction ? attachRedactionSummary(payload, redaction) : payload, filename);
+        return;
+    }
+    const bundle = await bundleAttachmentsForArchive(conversation, filename, context);
+    const input = {
+        data: conversation,
+        exportMeta: BULK_EXPORT_META,
+        platform: context.adapter.name,
+        settingsMap: context.exportFormatSettings,
+        redaction,
+    };
+    const serialized = serializeConversationExport(context.exportFormat, { ...input, attachmentPaths: bundle?.paths });
+    if (context.archive) {
+        context.archive.addConversation(conversation, filename, serialized, BULK_EXPORT_META, bundle?.files);
+    } else if (context.encryptor) {
+        const encrypted = await encryptExportForDownload(context.encryptor, {
+            filename: `${filename}.${serialized.extension}`,
+            mimeType: serialized.mimeType,
+            content: serialized.content,
+        });
+        context.downloadFileImpl(encrypted.content, encrypted.filename, encrypted.extension, encrypted.mimeType);
+    } else {
+        context.downloadFileImpl(serialized.content, filename, serialized.extension, serialized.mimeType);
+    }
+    if (context.deliverToSinks) {
+        // Sinks get the transcript alone, so bundled attachments stay remote links there.
+        const transcript = await sealSerializedExport(
+            context.encryptor,
+            filename,
+            bundle ? serializeConversationExport(context.exportFormat, input) : serialized,
+        );
+        context.deliverToSinks({
+            platform: context.adapter.name,
+            conversationId: conversation.conversation_id,
+            filename: `${filename}.${transcript.extension}`,
+            format: context.exportFormat,
+            mimeType: transcript.mimeType,
+            content: transcript.content,
+        });
+    }
+};
+
+const downloadArchive = async (
+    archive: BulkExportArchive,
+    summary: BulkExportChatsSuccessResponse['result'],
+    context: RequestContext,
+    deps: BulkChatExportDeps,
+): Promise<BulkExportChatsSuccessResponse['result']> => {
+    const name = buildBulkExportArchiveName(context.adapter.name, context.nowImpl());
+    const blob = archive.finish(summary);
+    if (context.encryptor) {
+        const encrypted = await encryptExportForDownload(context.encryptor, {
+            filename: `${name}.zip`,
+            mimeType: 'application/zip',
+            content: blob,
+        });
+        context.downloadFileImpl(encrypted.content, encrypted.filename, encrypted.extension, encrypted.mimeType);
+        return { ...summary, archiveFilename: `${encrypted.filename}.${encrypted.extension}` };
+    }
+    const downloadArchiveImpl = deps.downloadArchiveImpl ?? ((file, filename) => downloadAsBlob(file, filename, 'zip'));
+    downloadArchiveImpl(blob, name);
+    return { ...summary, archiveFilename: `${name}.zip` };
+};
+
+const buildRequestContext = (
+    adapter: LLMPlatform,
+    bulkExport: PlatformBulkExportDescriptor,
+    options: NormalizedOptions,
+    deps: BulkChatExportDeps,
+    locationHref: () => string,
+): RequestContext => ({
+    options,
+    adapter,
+    bulkExport,
+    fetchImpl: deps.fetchImpl ?? fetch,
+    downloadImpl: deps.downloadImpl,
+    downloadFileImpl: deps.downloadFileImpl ?? downloadAsFile,
+    exportFormat: deps.getExportFormat?.() ?? 'json',
+    exportFormatSettings: deps.getExportFormatSettings?.() ?? {},
+    archive: null,
+    control: deps.control ?? createBulkExportRunControl(),
+    deliverToSinks: deps.deliverToSinks,
+    redactionSettings: deps.getRedactionSettings?.(),
+    encryptor: null,
+    sleepImpl: deps.sleepImpl ?? sleep,
+    nowImpl: deps.nowImpl ?? Date.now,
+    authHeaders: deps.getAuthHeaders(),
+    geminiBatchexecuteContext: deps.getGeminiBatchexecuteContext?.(),
+    requestCount: 0,
+    locationHref,
+});
+
+type BulkExportCounters = {
+    attempted: number;
+    exported: number;
+    failed: number;
+    skipped: number;
+};
+
+type BulkExportRun = {
+    listUpdateTimes: Record<string, number>;
+    platformKind: PlatformKind;
+    context: RequestContext;
+    ledger: BulkExportLedgerSession;
+    counters: BulkExportCounters;
+    usedFilenames: Set<string>;
+};
+
+const emitProgress = (
+    deps: BulkChatExportDeps,
+    platform: string,
+    stage: BulkExportProgressMessage['stage'],
+    discovered: number,
+    counters: BulkExportCounters,
+) => {
+    deps.onProgress?.({
+        type: BULK_EXPORT_PROGRESS_MESSAGE,
+        stage,
+        platform,
+        discovered,
+        ...counters,
+        remaining: stage === 'completed' ? 0 : Math.max(0, discovered - counters.attempted - counters.skipped),
+    });
+};
+
+const exportOneConversation = async (conversationId: string, run: BulkExportRun) => {
+    const { context, ledger, counters } = run;
+    if (ledger.shouldSkipBeforeFetch(conversationId, run.listUpdateTimes[conversationId] ?? null)) {
+        counters.skipped += 1;
+        return;
+    }
+    counters.attempted += 1;
+    const conversation = await fetchConversationById(conversationId, run.platformKind, context);
+    if (context.control.state === 'canceled') {
+        // The fetch was cut short by the cancel; the conversation was never really attempted.
+        counters.attempted -= 1;
+        return;
+    }
+    if (!conversation) {
+        counters.failed += 1;
+        context.archive?.addFailure(conversationId, 'Conversation could not be fetched from any detail endpoint.');
+        return;
+    }
+
+    applyResolvedExportTitle(conversation);
+    if (ledger.isUnchanged(conversationId, conversation)) {
+        counters.skipped += 1;
+        return;
+    }
+    // The ledger keeps hashing the conversation as fetched; only the export is redacted.
+    const { data: exportData, redaction } = applyExportRedaction(conversation, context.redactionSettings);
+    const filename = ensureUniqueFilename(context.adapter.formatFilename(exportData), run.usedFilenames);
+    await writeConversationExport(exportData, filename, context, redaction);
+    counters.exported += 1;
+    await ledger.record(conversationId, conversation);
+};
+
+const exportDiscoveredConversations = async (ids: string[], run: BulkExportRun, deps: BulkChatExportDeps) => {
+    for (const conversationId of ids) {
+        if (run.context.control.state === 'canceled') {
+            break;
+        }
+        await exportOneConversation(conversationId, run);
+        emitProgress(deps, run.context.adapter.name, 'progress', ids.length, run.counters);
+    }
+};
+
+/**
+ * Persists the run once its exports are on disk: after the archive download for
+ * `zip` packaging, whose records were held back until then. A canceled run is
+ * flushed without completing it, so `resume` continues it.
+ */
+const settleRunLedger = async (ledger: BulkExportLedgerSession, canceled: boolean) => {
+    ledger.commitDeferred();
+    if (canceled) {
+        await ledger.flush();
+        return;
+    }
+    await ledger.complete();
+};
+
+const openRunLedger = async (context: RequestContext, deps: BulkChatExportDeps, warnings: string[]) => {
+    const ledger = await openBulkExportLedgerSession({
+        platform: context.adapter.name,
+        mode: context.options.mode,
+        store: deps.ledgerStore ?? browserBulkExportLedgerStore,
+        nowImpl: context.nowImpl,
+        deferRecords: context.archive !== null,
+    });
+    if (context.options.mode === 'resume' && !ledger.resumed) {
+        warnings.push('No interrupted bulk export to resume; exporting all discovered conversations.');
+    }
+    return ledger;
+};
+
+/** Downloads the archive for `zip` packaging; a canceled run still delivers what it exported, but never an empty archive. */
+const finishBulkExportRun = async (
+    summary: BulkExportChatsSuccessResponse['result'],
+    context: RequestContext,
+    deps: BulkChatExportDeps,
+) => {
+    if (!context.archive || (summary.canceled && summary.exported === 0)) {
+        return summary;
+    }
+    return downloadArchive(context.archive, summary, context, deps);
+};
+
+/** Reports pause/resume as progress stages while the run is live; returns the unsubscribe function. */
+const reportControlStateChanges = (
+    context: RequestContext,
+    deps: BulkChatExportDeps,
+    getDiscovered: () => number,
+    counters: BulkExportCounters,
+) =>
+    context.control.subscribe((state) => {
+        if (state !== 'canceled') {
+            emitProgress(
+                deps,
+                context.adapter.name,
+                state === 'paused' ? 'paused' : 'progress',
+                getDiscovered(),
+                counters,
+            );
+        }
+    });
+
 export const runBulkChatExport = async (
     message: BulkExportChatsMessage,
     deps: BulkChatExportDeps,
@@ -926,111 +1508,78 @@ export const runBulkChatExport = async (
 
     const locationHref = deps.locationHref ?? (() => window.location.href);
     const platformKind = resolvePlatformKind(adapter, locationHref());
-    if (platformKind === 'unsupported') {
+    const bulkExport = resolveBulkExportDescriptor(adapter);
+    if (platformKind === 'unsupported' || !bulkExport) {
         throw new Error(`Bulk export is not supported for ${adapter.name} on this page yet.`);
     }
 
     const options = normalizeOptions(message);
-    const context: RequestContext = {
-        options,
-        adapter,
-        fetchImpl: deps.fetchImpl ?? fetch,
-        downloadImpl: deps.downloadImpl ?? downloadAsJSON,
-        sleepImpl: deps.sleepImpl ?? sleep,
-        nowImpl: deps.nowImpl ?? Date.now,
-        authHeaders: deps.getAuthHeaders(),
-        geminiBatchexecuteContext: deps.getGeminiBatchexecuteContext?.(),
-        requestCount: 0,
-        locationHref,
-    };
+    const context = buildRequestContext(adapter, bulkExport, options, deps, locationHref);
+    // Resolved up front so a missing passphrase fails the run before anything is fetched.
+    context.encryptor = deps.getExportEncryptor ? await deps.getExportEncryptor() : null;
+    const counters: BulkExportCounters = { attempted: 0, exported: 0, failed: 0, skipped: 0 };
+    let discovered = 0;
+    const stopReportingControl = reportControlStateChanges(context, deps, () => discovered, counters);
 
-    const startedAt = context.nowImpl();
-    const listResult = await listConversationIds(platformKind, context);
-    const ids = listResult.ids;
-    const warnings: string[] = [...listResult.warnings];
-    deps.onProgress?.({
-        type: BULK_EXPORT_PROGRESS_MESSAGE,
-        stage: 'started',
-        platform: adapter.name,
-        discovered: ids.length,
-        attempted: 0,
-        exported: 0,
-        failed: 0,
-        remaining: ids.length,
-    });
-    if (ids.length === 0) {
-        warnings.push('No conversations discovered from list endpoint.');
-    }
-
-    let attempted = 0;
-    let exported = 0;
-    let failed = 0;
-    const usedFilenames = new Set<string>();
-
-    for (const conversationId of ids) {
-        attempted += 1;
-        const conversation = await fetchConversationById(conversationId, platformKind, context);
-        if (!conversation) {
-            failed += 1;
-            deps.onProgress?.({
-                type: BULK_EXPORT_PROGRESS_MESSAGE,
-                stage: 'progress',
+    try {
+        const startedAt = context.nowImpl();
+        const listResult = await listConversationIds(platformKind, context);
+        const ids = listResult.ids;
+        discovered = ids.length;
+        const warnings: string[] = [...listResult.warnings];
+        emitProgress(deps, adapter.name, 'started', ids.length, counters);
+        if (ids.length === 0) {
+            warnings.push('No conversations discovered from list endpoint.');
+        } else if (options.packaging === 'zip') {
+            context.archive = createBulkExportArchive({
                 platform: adapter.name,
-                discovered: ids.length,
-                attempted,
-                exported,
-                failed,
-                remaining: Math.max(0, ids.length - attempted),
+                format: context.exportFormat,
+                nowImpl: context.nowImpl,
             });
-            continue;
         }
 
-        applyResolvedExportTitle(conversation);
-        const payload = attachExportMeta(conversation, {
-            captureSource: 'canonical_api',
-            fidelity: 'high',
-            completeness: 'complete',
-        });
-        const filename = ensureUniqueFilename(adapter.formatFilename(conversation), usedFilenames);
-        context.downloadImpl(payload, filename);
-        exported += 1;
-        deps.onProgress?.({
-            type: BULK_EXPORT_PROGRESS_MESSAGE,
-            stage: 'progress',
+        const ledger = await openRunLedger(context, deps, warnings);
+        await exportDiscoveredConversations(
+            ids,
+            {
+                listUpdateTimes: listResult.updateTimes ?? {},
+                platformKind,
+                context,
+                ledger,
+                counters,
+                usedFilenames: new Set<string>(),
+            },
+            deps,
+        );
+
+        const canceled = context.control.state === 'canceled';
+        const summary: BulkExportChatsSuccessResponse['result'] = {
             platform: adapter.name,
             discovered: ids.length,
-            attempted,
-            exported,
-            failed,
-            remaining: Math.max(0, ids.length - attempted),
-        });
+            ...counters,
+            filteredOut: listResult.filteredOut ?? 0,
+            elapsedMs: context.nowImpl() - startedAt,
+            limit: options.maxItems ?? 0,
+            warnings,
+            packaging: options.packaging,
+            mode: options.mode,
+            canceled,
+            ...(options.listFilter.filters ? { filters: options.listFilter.filters } : {}),
+        };
+        const result = await finishBulkExportRun(summary, context, deps);
+        await settleRunLedger(ledger, canceled);
+        emitProgress(deps, adapter.name, canceled ? 'canceled' : 'completed', result.discovered, counters);
+        return result;
+    } finally {
+        stopReportingControl();
     }
-
-    const result = {
-        platform: adapter.name,
-        discovered: ids.length,
-        attempted,
-        exported,
-        failed,
-        elapsedMs: context.nowImpl() - startedAt,
-        limit: options.maxItems ?? 0,
-        warnings,
-    };
-    deps.onProgress?.({
-        type: BULK_EXPORT_PROGRESS_MESSAGE,
-        stage: 'completed',
-        platform: adapter.name,
-        discovered: result.discovered,
-        attempted: result.attempted,
-        exported: result.exported,
-        failed: result.failed,
-        remaining: 0,
-    });
-    return result;
 };
 
 export const __testables__ = {
     extractChatGptConversationIdsFromPayload,
+    extractClaudeListItemsFromPayload,
+    extractClaudeOrganizationIdFromPayload,
+    extractChatGptListItemsFromPayload,
     extractChatGptConversationIdsFromText,
     extractGrokComConversationIdsFromPayload,
     extractGrokComConversationIdsFromText,
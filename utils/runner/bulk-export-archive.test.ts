@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'bun:test';
+import { buildSimpleConversation } from '@/utils/export/__tests__/fixtures';
+import { readStoredZipEntries } from '@/utils/export/__tests__/zip-reader';
+import { buildBulkExportArchiveName, createBulkExportArchive } from '@/utils/runner/bulk-export-archive';
+import type { ExportMeta } from '@/utils/sfe/types';
+
+const exportMeta: ExportMeta = { captureSource: 'canonical_api', fidelity: 'high', completeness: 'complete' };
+
+describe('bulk-export-archive', () => {
+    it('should sanitize the platform in the archive name', () => {
+        expect(buildBulkExportArchiveName('Le Chat', Date.now())).toMatch(/^blackiya-le_chat-chats-\d{4}-/);
+    });
+
+    it('should write conversations under conversations/ and the manifest last', async () => {
+        const archive = createBulkExportArchive({ platform: 'Grok', format: 'markdown', nowImpl: () => 0 });
+        archive.addConversation(
+            buildSimpleConversation(),
+            'Export_Test',
+            { content: '# Export Test\n', extension: 'md', mimeType: 'text/markdown' },
+            exportMeta,
+        );
+        archive.addFailure('conv-missing', 'not found');
+
+        const entries = await readStoredZipEntries(
+            archive.finish({
+                platform: 'Grok',
+                discovered: 2,
+                attempted: 2,
+                exported: 1,
+                failed: 1,
+                skipped: 0,
+                filteredOut: 0,
+                elapsedMs: 5,
+                limit: 0,
+                warnings: ['partial list'],
+                packaging: 'zip',
+                mode: 'full',
+                canceled: false,
+            }),
+        );
+
+        expect(entries.map((entry) => entry.name)).toEqual(['conversations/Export_Test.md', 'manifest.json']);
+        const manifest = JSON.parse(entries[1]?.text ?? '{}');
+        expect(manifest.format).toBe('markdown');
+        expect(manifest.conversations[0]).toMatchObject({
+            conversationId: 'conv-export',
+            title: 'Export Test',
+            file: 'conversations/Export_Test.md',
+            exportMeta,
+        });
+        expect(manifest.failures).toEqual([{ conversationId: 'conv-missing', reason: 'not found' }]);
+        expect(manifest.warnings).toEqual(['partial list']);
+    });
+});
@@ -0,0 +1,140 @@
+/**
+ * Bulk Export Archive
+ *
+ * Collects serialized conversations from `runBulkChatExport` into a single ZIP
+ * archive under `conversations/` (with any bundled attachments beside them),
+ * and finishes it with a `manifest.json` that lists every exported
+ * conversation, each failure and the run summary.
+ *
+ * @module utils/runner/bulk-export-archive
+ */
+
+import { generateTimestamp, sanitizeFilename } from '@/utils/download';
+import type { SerializedExport } from '@/utils/export/formats';
+import { toIsoTimestamp } from '@/utils/export/transcript';
+import { createZipWriter } from '@/utils/export/zip';
+import type { BundledAttachmentFile } from '@/utils/runner/attachment-bundle';
+import type { BulkExportChatsSuccessResponse } from '@/utils/runner/bulk-chat-export-contract';
+import type { ExportFormat } from '@/utils/settings';
+import type { ExportMeta } from '@/utils/sfe/types';
+import type { ConversationData } from '@/utils/types';
+
+export const BULK_EXPORT_MANIFEST_FILENAME = 'manifest.json';
+export const BULK_EXPORT_MANIFEST_SCHEMA = 'blackiya.bulk-export-manifest';
+export const BULK_EXPORT_MANIFEST_VERSION = 1;
+const CONVERSATIONS_DIRECTORY = 'conversations';
+
+export type BulkExportManifestEntry = {
+    conversationId: string;
+    title: string;
+    /** Archive-relative path of the exported file. */
+    file: string;
+    createdAt: string | null;
+    updatedAt: string | null;
+    exportMeta: ExportMeta;
+    /** Archive-relative paths of bundled attachments, when there are any. */
+    attachments?: string[];
+};
+
+export type BulkExportManifestFailure = {
+    conversationId: string;
+    reason: string;
+};
+
+export type BulkExportSummary = Omit<BulkExportChatsSuccessResponse['result'], 'archiveFilename'>;
+
+export type BulkExportManifest = {
+    schema: typeof BULK_EXPORT_MANIFEST_SCHEMA;
+    schemaVersion: typeof BULK_EXPORT_MANIFEST_VERSION;
+    generatedAt: string;
+    platform: string;
+    format: ExportFormat;
+    conversations: BulkExportManifestEntry[];
+    failures: BulkExportManifestFailure[];
+    warnings: string[];
+    summary: BulkExportSummary;
+};
+
+export type BulkExportArchive = {
+    addConversation: (
+        conversation: ConversationData,
+        filename: string,
+        serialized: SerializedExport,
+        exportMeta: ExportMeta,
+        attachments?: BundledAttachmentFile[],
+    ) => void;
+    addFailure: (conversationId: string, reason: string) => void;
+    /** Writes `manifest.json` last and returns the finished archive. */
+    finish: (summary: BulkExportSummary) => Blob;
+};
+
+type BulkExportArchiveOptions = {
+    platform: string;
+    format: ExportFormat;
+    nowImpl: () => number;
+};
+
+/**
+ * Archive filename without extension, e.g. `blackiya-chatgpt-chats-2024-05-01_10-00-00`.
+ */
+export const buildBulkExportArchiveName = (platform: string, nowMs: number) =>
+    `blackiya-${sanitizeFilename(platform.toLowerCase())}-chats-${generateTimestamp(Math.floor(nowMs / 1000))}`;
+
+export const createBulkExportArchive = ({ platform, format, nowImpl }: BulkExportArchiveOptions): BulkExportArchive => {
+    const writer = createZipWriter();
+    const conversations: BulkExportManifestEntry[] = [];
+    const failures: BulkExportManifestFailure[] = [];
+
+    const addConversation: BulkExportArchive['addConversation'] = (
+        conversation,
+        filename,
+        serialized,
+        exportMeta,
+        attachments = [],
+    ) => {
+        const file = `${CONVERSATIONS_DIRECTORY}/${filename}.${serialized.extension}`;
+        writer.addFile({ path: file, content: serialized.content, modifiedAt: new Date(nowImpl()) });
+        const attachmentFiles = attachments.map((attachment) => {
+            const path = `${CONVERSATIONS_DIRECTORY}/${attachment.path}`;
+            writer.addFile({ path, content: attachment.content, modifiedAt: new Date(nowImpl()) });
+            return path;
+        });
+        conversations.push({
+            conversationId: conversation.conversation_id,
+            title: conversation.title,
+            file,
+            createdAt: toIsoTimestamp(conversation.create_time),
+            updatedAt: toIsoTimestamp(conversation.update_time),
+            exportMeta,
+            ...(attachmentFiles.length > 0 ? { attachments: attachmentFiles } : {}),
+        });
+    };
+
+    const finish = (summary: BulkExportSummary) => {
+        const manifest: BulkExportManifest = {
+            schema: BULK_EXPORT_MANIFEST_SCHEMA,
+            schemaVersion: BULK_EXPORT_MANIFEST_VERSION,
+            generatedAt: new Date(nowImpl()).toISOString(),
+            platform,
+            format,
+            conversations,
+            failures,
+            warnings: summary.warnings,
+            summary,
+        };
+        writer.addFile({
+            path: BULK_EXPORT_MANIFEST_FILENAME,
+            content: JSON.stringify(manifest, null, 2),
+            modifiedAt: new Date(nowImpl()),
+        });
+        return writer.finish();
+    };
+
+    return {
+        addConversation,
+        addFailure: (conversationId, reason) => {
+            failures.push({ conversationId, reason });
+        },
+        finish,
+    };
+};
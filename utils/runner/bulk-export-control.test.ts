@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'bun:test';
+import { createBulkExportRunControl, createBulkExportRunTracker } from '@/utils/runner/bulk-export-control';
+
+const never = () => new Promise<void>(() => {});
+
+describe('bulk-export-control', () => {
+    it('should hold checkpoints while paused and release them on resume', async () => {
+        const control = createBulkExportRunControl();
+        const states: string[] = [];
+        control.subscribe((state) => states.push(state));
+
+        expect(control.pause()).toBeTrue();
+        expect(control.pause()).toBeFalse();
+
+        let released: boolean | null = null;
+        const waiting = control.checkpoint().then((result) => {
+            released = result;
+        });
+        await Promise.resolve();
+        expect(released).toBeNull();
+
+        expect(control.resume()).toBeTrue();
+        await waiting;
+        expect(released as boolean | null).toBeTrue();
+        expect(control.resume()).toBeFalse();
+        expect(states).toEqual(['paused', 'running']);
+    });
+
+    it('should end paused checkpoints and sleeps early on cancel', async () => {
+        const control = createBulkExportRunControl();
+        control.pause();
+        const checkpoint = control.checkpoint();
+        const sleeping = control.sleep(60_000, never);
+
+        expect(control.cancel()).toBeTrue();
+        expect(control.cancel()).toBeFalse();
+
+        expect(await checkpoint).toBeFalse();
+        expect(await sleeping).toBeFalse();
+        expect(control.signal.aborted).toBeTrue();
+        expect(control.state).toBe('canceled');
+        expect(control.pause()).toBeFalse();
+        expect(await control.sleep(1, async () => {})).toBeFalse();
+    });
+
+    it('should stop notifying unsubscribed listeners', () => {
+        const control = createBulkExportRunControl();
+        const states: string[] = [];
+        const unsubscribe = control.subscribe((state) => states.push(state));
+        control.pause();
+        unsubscribe();
+        control.resume();
+        expect(states).toEqual(['paused']);
+    });
+
+    it('should track one run per tab and answer control actions', () => {
+        const tracker = createBulkExportRunTracker();
+        expect(tracker.handle('status')).toEqual({
+            ok: true,
+            applied: false,
+            status: { state: 'idle', progress: null },
+        });
+        expect(tracker.handle('pause')).toEqual({ ok: false, error: 'No bulk export is running in this tab.' });
+
+        const control = tracker.begin();
+        expect(control).not.toBeNull();
+        expect(tracker.begin()).toBeNull();
+
+        const progress = { type: 'BLACKIYA_BULK_EXPORT_PROGRESS', stage: 'progress', attempted: 1 } as const;
+        tracker.recordProgress(progress);
+        expect(tracker.handle('pause')).toEqual({ ok: true, applied: true, status: { state: 'paused', progress } });
+        expect(tracker.handle('pause')).toMatchObject({ ok: true, applied: false });
+        expect(tracker.handle('resume')).toMatchObject({ applied: true, status: { state: 'running' } });
+        expect(tracker.handle('cancel')).toMatchObject({ applied: true, status: { state: 'canceled' } });
+        expect(control?.signal.aborted).toBeTrue();
+
+        tracker.end();
+        expect(tracker.handle('status')).toMatchObject({ status: { state: 'idle' } });
+        expect(tracker.begin()).not.toBeNull();
+    });
+});
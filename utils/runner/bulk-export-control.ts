@@ -0,0 +1,167 @@
+/**
+ * Bulk Export Run Control
+ *
+ * Pause / resume / cancel handle for one `runBulkChatExport` run. The runner
+ * waits at `checkpoint()` before every request and sleeps through `sleep()`,
+ * so a pause takes effect between fetches and a cancel ends pacing and
+ * rate-limit sleeps early and aborts the in-flight request via `signal`.
+ *
+ * The content script keeps one tracker per tab that owns the running export's
+ * control and answers `BLACKIYA_BULK_EXPORT_CONTROL` messages from the popup.
+ *
+ * @module utils/runner/bulk-export-control
+ */
+
+import type {
+    BulkExportControlAction,
+    BulkExportControlResponse,
+    BulkExportProgressMessage,
+} from '@/utils/runner/bulk-chat-export-contract';
+
+export type BulkExportRunState = 'running' | 'paused' | 'canceled';
+
+export type BulkExportRunControl = {
+    readonly state: BulkExportRunState;
+    /** Aborted when the run is canceled. */
+    readonly signal: AbortSignal;
+    /** Each returns `false` when the run was not in a state the action applies to. */
+    pause: () => boolean;
+    resume: () => boolean;
+    cancel: () => boolean;
+    /** Resolves `true` once the run may continue, or `false` when it was canceled. */
+    checkpoint: () => Promise<boolean>;
+    /** Sleeps via `sleepImpl`, ending early on cancel; resolves `false` when canceled. */
+    sleep: (milliseconds: number, sleepImpl: (milliseconds: number) => Promise<void>) => Promise<boolean>;
+    /** Notified on every state change; returns an unsubscribe function. */
+    subscribe: (listener: (state: BulkExportRunState) => void) => () => void;
+};
+
+export const createBulkExportRunControl = (): BulkExportRunControl => {
+    const abortController = new AbortController();
+    const listeners = new Set<(state: BulkExportRunState) => void>();
+    let state: BulkExportRunState = 'running';
+    let wakeWaiters: Array<() => void> = [];
+    // Read through a function so narrowing does not survive the awaits below.
+    const isCanceled = () => state === 'canceled';
+
+    const canceled = new Promise<void>((resolve) => {
+        abortController.signal.addEventListener('abort', () => resolve(), { once: true });
+    });
+
+    const setState = (next: BulkExportRunState) => {
+        state = next;
+        if (next !== 'paused') {
+            const waiters = wakeWaiters;
+            wakeWaiters = [];
+            for (const wake of waiters) {
+                wake();
+            }
+        }
+        for (const listener of listeners) {
+            listener(next);
+        }
+    };
+
+    return {
+        get state() {
+            return state;
+        },
+        signal: abortController.signal,
+        pause: () => {
+            if (state !== 'running') {
+                return false;
+            }
+            setState('paused');
+            return true;
+        },
+        resume: () => {
+            if (state !== 'paused') {
+                return false;
+            }
+            setState('running');
+            return true;
+        },
+        cancel: () => {
+            if (state === 'canceled') {
+                return false;
+            }
+            abortController.abort();
+            setState('canceled');
+            return true;
+        },
+        checkpoint: async () => {
+            while (state === 'paused') {
+                await new Promise<void>((resolve) => {
+                    wakeWaiters.push(resolve);
+                });
+            }
+            return !isCanceled();
+        },
+        sleep: async (milliseconds, sleepImpl) => {
+            if (isCanceled()) {
+                return false;
+            }
+            await Promise.race([sleepImpl(milliseconds), canceled]);
+            return !isCanceled();
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+};
+
+export type BulkExportRunTracker = {
+    /** Starts tracking a new run; returns `null` while another run is still active. */
+    begin: () => BulkExportRunControl | null;
+    recordProgress: (progress: BulkExportProgressMessage) => void;
+    end: () => void;
+    handle: (action: BulkExportControlAction) => BulkExportControlResponse;
+};
+
+export const createBulkExportRunTracker = (): BulkExportRunTracker => {
+    let active: { control: BulkExportRunControl; progress: BulkExportProgressMessage | null } | null = null;
+
+    const applyAction = (control: BulkExportRunControl, action: BulkExportControlAction) => {
+        if (action === 'pause') {
+            return control.pause();
+        }
+        if (action === 'resume') {
+            return control.resume();
+        }
+        if (action === 'cancel') {
+            return control.cancel();
+        }
+        return false;
+    };
+
+    return {
+        begin: () => {
+            if (active) {
+                return null;
+            }
+            active = { control: createBulkExportRunControl(), progress: null };
+            return active.control;
+        },
+        recordProgress: (progress) => {
+            if (active) {
+                active.progress = progress;
+            }
+        },
+        end: () => {
+            active = null;
+        },
+        handle: (action) => {
+            if (!active) {
+                if (action === 'status') {
+                    return { ok: true, applied: false, status: { state: 'idle', progress: null } };
+                }
+                return { ok: false, error: 'No bulk export is running in this tab.' };
+            }
+            const applied = applyAction(active.control, action);
+            return { ok: true, applied, status: { state: active.control.state, progress: active.progress } };
+        },
+    };
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    type BulkExportListItem,
+    createBulkExportListFilter,
+    describeBulkExportFilters,
+    normalizeBulkExportFilters,
+} from '@/utils/runner/bulk-export-filters';
+
+const MAY_1_2024_MS = Date.UTC(2024, 4, 1);
+const MAY_31_2024_MS = Date.UTC(2024, 4, 31, 23, 59, 59, 999);
+
+const buildItem = (overrides: Partial<BulkExportListItem> = {}): BulkExportListItem => ({
+    id: 'conv-1',
+    title: 'Weekly Draft Notes',
+    createTime: Date.UTC(2024, 3, 20) / 1000,
+    updateTime: Date.UTC(2024, 4, 10) / 1000,
+    gizmoId: null,
+    isArchived: false,
+    ...overrides,
+});
+
+describe('bulk-export-filters', () => {
+    it('should drop empty fields and return null when nothing is active', () => {
+        expect(normalizeBulkExportFilters(undefined)).toBeNull();
+        expect(
+            normalizeBulkExportFilters({ title: '   ', titleIsRegex: true, gizmoId: '', archived: false }),
+        ).toBeNull();
+        expect(
+            normalizeBulkExportFilters({ updatedFrom: MAY_1_2024_MS, createdTo: Number.NaN, title: ' draft ' }),
+        ).toEqual({ updatedFrom: MAY_1_2024_MS, title: 'draft' });
+    });
+
+    it('should leave archived chats out unless archived chats are requested', () => {
+        const defaults = createBulkExportListFilter(undefined);
+        expect(defaults.filters).toBeNull();
+        expect(defaults.evaluate(buildItem())).toBe('match');
+        expect(defaults.evaluate(buildItem({ isArchived: null }))).toBe('match');
+        expect(defaults.evaluate(buildItem({ isArchived: true }))).toBe('excluded');
+
+        const archived = createBulkExportListFilter({ archived: true });
+        expect(archived.evaluate(buildItem({ isArchived: true }))).toBe('match');
+        expect(archived.evaluate(buildItem())).toBe('excluded');
+        expect(archived.evaluate(buildItem({ isArchived: null }))).toBe('missing-metadata');
+    });
+
+    it('should apply inclusive date ranges to created and updated times', () => {
+        const filter = createBulkExportListFilter({ updatedFrom: MAY_1_2024_MS, updatedTo: MAY_31_2024_MS });
+        expect(filter.evaluate(buildItem())).toBe('match');
+        expect(filter.evaluate(buildItem({ updateTime: MAY_1_2024_MS / 1000 }))).toBe('match');
+        expect(filter.evaluate(buildItem({ updateTime: Date.UTC(2024, 5, 1) / 1000 }))).toBe('excluded');
+        expect(filter.evaluate(buildItem({ updateTime: null }))).toBe('missing-metadata');
+
+        const created = createBulkExportListFilter({ createdFrom: MAY_1_2024_MS });
+        expect(created.evaluate(buildItem())).toBe('excluded');
+    });
+
+    it('should match titles by case-insensitive substring or regex', () => {
+        expect(createBulkExportListFilter({ title: 'draft' }).evaluate(buildItem())).toBe('match');
+        expect(createBulkExportListFilter({ title: 'final' }).evaluate(buildItem())).toBe('excluded');
+        expect(createBulkExportListFilter({ title: 'draft' }).evaluate(buildItem({ title: null }))).toBe(
+            'missing-metadata',
+        );
+
+        const regex = createBulkExportListFilter({ title: '^weekly\\s+draft', titleIsRegex: true });
+        expect(regex.evaluate(buildItem())).toBe('match');
+        expect(regex.evaluate(buildItem({ title: 'Not weekly draft' }))).toBe('excluded');
+        expect(() => createBulkExportListFilter({ title: '(unclosed', titleIsRegex: true })).toThrow(
+            'Invalid title filter pattern "(unclosed"',
+        );
+    });
+
+    it('should match the gizmo id exactly and let exclusions win over missing metadata', () => {
+        const filter = createBulkExportListFilter({ gizmoId: 'g-p-123', title: 'draft' });
+        expect(filter.evaluate(buildItem({ gizmoId: 'g-p-123' }))).toBe('match');
+        expect(filter.evaluate(buildItem({ gizmoId: null }))).toBe('missing-metadata');
+        expect(filter.evaluate(buildItem({ gizmoId: null, title: 'Recipes' }))).toBe('excluded');
+        expect(filter.evaluate(buildItem({ gizmoId: 'g-p-123', title: null }))).toBe('missing-metadata');
+        expect(filter.evaluate(buildItem({ gizmoId: 'g-other', title: null }))).toBe('excluded');
+    });
+
+    it('should describe active filters in one line', () => {
+        expect(
+            describeBulkExportFilters({
+                createdTo: MAY_31_2024_MS,
+                updatedFrom: MAY_1_2024_MS,
+                updatedTo: MAY_31_2024_MS,
+                title: '^draft',
+                titleIsRegex: true,
+                gizmoId: 'g-p-123',
+                archived: true,
+            }),
+        ).toBe(
+            'created until 2024-05-31, updated 2024-05-01 to 2024-05-31, title matches /^draft/i, gizmo g-p-123, archived only',
+        );
+        expect(describeBulkExportFilters({ title: 'draft' })).toBe('title contains "draft"');
+    });
+});
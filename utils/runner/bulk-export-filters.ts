@@ -0,0 +1,197 @@
+/**
+ * Bulk Export Filters
+ *
+ * Narrows the conversations `runBulkChatExport` discovers using the metadata
+ * the platform list endpoints already return (title, created/updated times,
+ * ChatGPT `gizmo_id` and archived flag), so filtered-out chats never cost a
+ * detail fetch.
+ *
+ * @module utils/runner/bulk-export-filters
+ */
+
+import type { BulkExportFilters } from '@/utils/runner/bulk-chat-export-contract';
+
+/** What a list endpoint told us about one conversation; `null` when the platform does not expose a field. */
+export type BulkExportListItem = {
+    id: string;
+    title: string | null;
+    /** Seconds since the epoch. */
+    createTime: number | null;
+    /** Seconds since the epoch. */
+    updateTime: number | null;
+    /** `null` when the chat belongs to no custom GPT or project (always `null` outside ChatGPT). */
+    gizmoId: string | null;
+    isArchived: boolean | null;
+};
+
+/** `missing-metadata` means an active filter needs a field the list entry does not provide. */
+export type BulkExportFilterVerdict = 'match' | 'excluded' | 'missing-metadata';
+
+export type BulkExportListFilter = {
+    /** Normalized filters, or `null` when none are active. */
+    filters: BulkExportFilters | null;
+    evaluate: (item: BulkExportListItem) => BulkExportFilterVerdict;
+};
+
+type Check = (item: BulkExportListItem) => BulkExportFilterVerdict;
+
+const finiteOrUndefined = (value: number | undefined) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const trimmedOrUndefined = (value: string | undefined) => {
+    const trimmed = value?.trim();
+    return trimmed ? trimmed : undefined;
+};
+
+/**
+ * Drops empty and invalid fields; returns `null` when no filter is active.
+ */
+export const normalizeBulkExportFilters = (value: BulkExportFilters | undefined): BulkExportFilters | null => {
+    if (!value) {
+        return null;
+    }
+    const title = trimmedOrUndefined(value.title);
+    const candidate: BulkExportFilters = {
+        createdFrom: finiteOrUndefined(value.createdFrom),
+        createdTo: finiteOrUndefined(value.createdTo),
+        updatedFrom: finiteOrUndefined(value.updatedFrom),
+        updatedTo: finiteOrUndefined(value.updatedTo),
+        title,
+        titleIsRegex: title && value.titleIsRegex === true ? true : undefined,
+        gizmoId: trimmedOrUndefined(value.gizmoId),
+        archived: value.archived === true ? true : undefined,
+    };
+    const normalized = Object.fromEntries(
+        Object.entries(candidate).filter(([, field]) => field !== undefined),
+    ) as BulkExportFilters;
+    return Object.keys(normalized).length > 0 ? normalized : null;
+};
+
+const buildTitleMatcher = (title: string, isRegex: boolean): ((value: string) => boolean) => {
+    if (!isRegex) {
+        const needle = title.toLowerCase();
+        return (value) => value.toLowerCase().includes(needle);
+    }
+    try {
+        const pattern = new RegExp(title, 'i');
+        return (value) => pattern.test(value);
+    } catch (error) {
+        throw new Error(`Invalid title filter pattern "${title}": ${error instanceof Error ? error.message : error}`);
+    }
+};
+
+const buildRangeCheck = (
+    read: (item: BulkExportListItem) => number | null,
+    fromMs: number | undefined,
+    toMs: number | undefined,
+): Check | null => {
+    if (fromMs === undefined && toMs === undefined) {
+        return null;
+    }
+    return (item) => {
+        const seconds = read(item);
+        if (seconds === null) {
+            return 'missing-metadata';
+        }
+        const ms = seconds * 1000;
+        const inRange = (fromMs === undefined || ms >= fromMs) && (toMs === undefined || ms <= toMs);
+        return inRange ? 'match' : 'excluded';
+    };
+};
+
+const buildChecks = (filters: BulkExportFilters): Check[] => {
+    const checks: Array<Check | null> = [
+        buildRangeCheck((item) => item.createTime, filters.createdFrom, filters.createdTo),
+        buildRangeCheck((item) => item.updateTime, filters.updatedFrom, filters.updatedTo),
+    ];
+    if (filters.title) {
+        const matches = buildTitleMatcher(filters.title, filters.titleIsRegex === true);
+        checks.push((item) => {
+            if (item.title === null) {
+                return 'missing-metadata';
+            }
+            return matches(item.title) ? 'match' : 'excluded';
+        });
+    }
+    if (filters.gizmoId) {
+        const gizmoId = filters.gizmoId;
+        checks.push((item) => {
+            if (item.gizmoId === null) {
+                return 'missing-metadata';
+            }
+            return item.gizmoId === gizmoId ? 'match' : 'excluded';
+        });
+    }
+    if (filters.archived) {
+        checks.push((item) => {
+            if (item.isArchived === null) {
+                return 'missing-metadata';
+            }
+            return item.isArchived ? 'match' : 'excluded';
+        });
+    } else {
+        // Archived chats are left out unless requested; unknown archive state counts as not archived.
+        checks.push((item) => (item.isArchived === true ? 'excluded' : 'match'));
+    }
+    return checks.filter((check): check is Check => check !== null);
+};
+
+/**
+ * Compiles `filters` into a list filter. Throws when the title pattern is not a
+ * valid regular expression, so the run fails before any request is made.
+ */
+export const createBulkExportListFilter = (filters: BulkExportFilters | undefined): BulkExportListFilter => {
+    const normalized = normalizeBulkExportFilters(filters);
+    const checks = buildChecks(normalized ?? {});
+    return {
+        filters: normalized,
+        evaluate: (item) => {
+            let verdict: BulkExportFilterVerdict = 'match';
+            for (const check of checks) {
+                const result = check(item);
+                if (result === 'excluded') {
+                    return result;
+                }
+                if (result === 'missing-metadata') {
+                    verdict = result;
+                }
+            }
+            return verdict;
+        },
+    };
+};
+
+const formatDate = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+const describeRange = (label: string, fromMs: number | undefined, toMs: number | undefined) => {
+    if (fromMs === undefined && toMs === undefined) {
+        return null;
+    }
+    if (fromMs !== undefined && toMs !== undefined) {
+        return `${label} ${formatDate(fromMs)} to ${formatDate(toMs)}`;
+    }
+    return fromMs !== undefined
+        ? `${label} from ${formatDate(fromMs)}`
+        : `${label} until ${formatDate(toMs as number)}`;
+};
+
+const describeTitle = ({ title, titleIsRegex }: BulkExportFilters) => {
+    if (!title) {
+        return null;
+    }
+    return titleIsRegex ? `title matches /${title}/i` : `title contains "${title}"`;
+};
+
+/**
+ * One-line summary for status text, e.g. `updated from 2024-05-01, title contains "draft", archived only`.
+ */
+export const describeBulkExportFilters = (filters: BulkExportFilters) =>
+    [
+        describeRange('created', filters.createdFrom, filters.createdTo),
+        describeRange('updated', filters.updatedFrom, filters.updatedTo),
+        describeTitle(filters),
+        filters.gizmoId ? `gizmo ${filters.gizmoId}` : null,
+        filters.archived ? 'archived only' : null,
+    ]
+        .filter((part): part is string => part !== null)
+        .join(', ');
@@ -0,0 +1,216 @@
+import { describe, expect, it } from 'bun:test';
+import { buildSimpleConversation } from '@/utils/export/__tests__/fixtures';
+import {
+    type BulkExportLedger,
+    type BulkExportLedgerStore,
+    computeConversationContentHash,
+    getBulkExportLedgerStats,
+    normalizeBulkExportLedger,
+    openBulkExportLedgerSession,
+    resetBulkExportLedger,
+} from '@/utils/runner/bulk-export-ledger';
+
+const createMemoryStore = (initial: BulkExportLedger = {}) => {
+    const state = { ledger: structuredClone(initial), writes: 0 };
+    const store: BulkExportLedgerStore = {
+        read: async () => structuredClone(state.ledger),
+        write: async (ledger) => {
+            state.writes += 1;
+            state.ledger = structuredClone(ledger);
+        },
+    };
+    return { state, store };
+};
+
+describe('bulk-export-ledger', () => {
+    it('should record exports and mark the run complete', async () => {
+        const { state, store } = createMemoryStore();
+        const conversation = buildSimpleConversation();
+        const session = await openBulkExportLedgerSession({
+            platform: 'ChatGPT',
+            mode: 'full',
+            store,
+            nowImpl: () => 1_000,
+        });
+
+        expect(state.ledger.ChatGPT?.lastRun).toMatchObject({ mode: 'full', startedAt: 1_000, completedAt: null });
+
+        await session.record('conv-export', conversation);
+        await session.complete();
+
+        expect(state.ledger.ChatGPT?.entries['conv-export']).toEqual({
+            updateTime: 1_700_000_100,
+            contentHash: computeConversationContentHash(conversation),
+            exportedAt: 1_000,
+            runId: session.runId,
+        });
+        expect(state.ledger.ChatGPT?.lastRun?.completedAt).toBe(1_000);
+    });
+
+    it('should resume an interrupted run by skipping what it already exported', async () => {
+        const { state, store } = createMemoryStore();
+        const interrupted = await openBulkExportLedgerSession({
+            platform: 'ChatGPT',
+            mode: 'full',
+            store,
+            nowImpl: () => 1,
+        });
+        await interrupted.record('done', buildSimpleConversation());
+        await interrupted.record('other', buildSimpleConversation());
+        // Simulate a tab close: flush without completing, as the periodic flush would.
+        await store.write({
+            ChatGPT: {
+                ...(state.ledger.ChatGPT as BulkExportLedger[string]),
+                entries: {
+                    done: {
+                        updateTime: 1,
+                        contentHash: 'h',
+                        exportedAt: 1,
+                        runId: interrupted.runId,
+                    },
+                },
+            },
+        });
+
+        const resumed = await openBulkExportLedgerSession({
+            platform: 'ChatGPT',
+            mode: 'resume',
+            store,
+            nowImpl: () => 2,
+        });
+
+        expect(resumed.resumed).toBeTrue();
+        expect(resumed.runId).toBe(interrupted.runId);
+        expect(resumed.shouldSkipBeforeFetch('done', null)).toBeTrue();
+        expect(resumed.shouldSkipBeforeFetch('other', null)).toBeFalse();
+
+        await resumed.complete();
+        const fresh = await openBulkExportLedgerSession({
+            platform: 'ChatGPT',
+            mode: 'resume',
+            store,
+            nowImpl: () => 3,
+        });
+        expect(fresh.resumed).toBeFalse();
+        expect(fresh.shouldSkipBeforeFetch('done', null)).toBeFalse();
+    });
+
+    it('should skip unchanged conversations only in incremental mode', async () => {
+        const conversation = buildSimpleConversation();
+        const { store } = createMemoryStore({
+            ChatGPT: {
+                entries: {
+                    'conv-export': {
+                        updateTime: 1_700_000_100,
+                        contentHash: computeConversationContentHash(conversation),
+                        exportedAt: 1,
+                        runId: 'old',
+                    },
+                },
+                lastRun: { runId: 'old', mode: 'full', startedAt: 1, completedAt: 2 },
+            },
+        });
+
+        const incremental = await openBulkExportLedgerSession({
+            platform: 'ChatGPT',
+            mode: 'incremental',
+            store,
+            nowImpl: () => 3,
+        });
+        expect(incremental.shouldSkipBeforeFetch('conv-export', 1_700_000_100.75)).toBeTrue();
+        expect(incremental.shouldSkipBeforeFetch('conv-export', 1_700_000_200)).toBeFalse();
+        expect(incremental.shouldSkipBeforeFetch('new-conv', 1_700_000_100)).toBeFalse();
+        expect(incremental.isUnchanged('conv-export', conversation)).toBeTrue();
+        expect(incremental.isUnchanged('conv-export', { ...conversation, title: 'Renamed' })).toBeFalse();
+
+        const full = await openBulkExportLedgerSession({ platform: 'ChatGPT', mode: 'full', store, nowImpl: () => 4 });
+        expect(full.shouldSkipBeforeFetch('conv-export', 1_700_000_100)).toBeFalse();
+        expect(full.isUnchanged('conv-export', conversation)).toBeFalse();
+    });
+
+    it('should batch storage writes while recording', async () => {
+        const { state, store } = createMemoryStore();
+        const session = await openBulkExportLedgerSession({ platform: 'Grok', mode: 'full', store, nowImpl: () => 1 });
+        const writesAfterStart = state.writes;
+
+        for (let i = 0; i < 9; i += 1) {
+            await session.record(`c${i}`, buildSimpleConversation());
+        }
+        expect(state.writes).toBe(writesAfterStart);
+
+        await session.record('c9', buildSimpleConversation());
+        expect(state.writes).toBe(writesAfterStart + 1);
+    });
+
+    it('should keep concurrent runs on other platforms when writing', async () => {
+        const { state, store } = createMemoryStore();
+        const chatGpt = await openBulkExportLedgerSession({
+            platform: 'ChatGPT',
+            mode: 'full',
+            store,
+            nowImpl: () => 1,
+        });
+        const grok = await openBulkExportLedgerSession({ platform: 'Grok', mode: 'full', store, nowImpl: () => 2 });
+
+        await chatGpt.record('gpt-chat', buildSimpleConversation());
+        await grok.record('grok-chat', buildSimpleConversation());
+        await chatGpt.complete();
+        await grok.flush();
+
+        expect(Object.keys(state.ledger.ChatGPT?.entries ?? {})).toEqual(['gpt-chat']);
+        expect(state.ledger.ChatGPT?.lastRun?.completedAt).toBe(1);
+        expect(Object.keys(state.ledger.Grok?.entries ?? {})).toEqual(['grok-chat']);
+        expect(state.ledger.Grok?.lastRun?.completedAt).toBeNull();
+    });
+
+    it('should hold deferred records back until they are committed', async () => {
+        const { state, store } = createMemoryStore();
+        const session = await openBulkExportLedgerSession({
+            platform: 'ChatGPT',
+            mode: 'full',
+            store,
+            nowImpl: () => 1,
+            deferRecords: true,
+        });
+
+        for (let i = 0; i < 10; i += 1) {
+            await session.record(`c${i}`, buildSimpleConversation());
+        }
+        await session.flush();
+        expect(state.ledger.ChatGPT?.entries).toEqual({});
+
+        session.commitDeferred();
+        await session.complete();
+        expect(Object.keys(state.ledger.ChatGPT?.entries ?? {})).toHaveLength(10);
+    });
+
+    it('should normalize stored values, report stats and reset per platform', async () => {
+        const ledger = normalizeBulkExportLedger({
+            ChatGPT: {
+                entries: {
+                    a: { updateTime: 5, contentHash: 'x', exportedAt: 10, runId: 'r' },
+                    b: { contentHash: 'y', exportedAt: 20, runId: 'r' },
+                    broken: { contentHash: 1 },
+                },
+                lastRun: { runId: 'r', mode: 'incremental', startedAt: 1 },
+            },
+            Grok: 'nonsense',
+        });
+
+        expect(getBulkExportLedgerStats(ledger)).toEqual([
+            {
+                platform: 'ChatGPT',
+                conversations: 2,
+                lastExportedAt: 20,
+                lastRun: { runId: 'r', mode: 'incremental', startedAt: 1, completedAt: null },
+            },
+            { platform: 'Grok', conversations: 0, lastExportedAt: null, lastRun: null },
+        ]);
+
+        const { state, store } = createMemoryStore(ledger);
+        await resetBulkExportLedger('Grok', store);
+        expect(Object.keys(state.ledger)).toEqual(['ChatGPT']);
+        await resetBulkExportLedger(undefined, store);
+        expect(state.ledger).toEqual({});
+    });
+});
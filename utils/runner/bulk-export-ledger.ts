@@ -0,0 +1,289 @@
+/**
+ * Bulk Export Ledger
+ *
+ * Persists, per platform, which conversations bulk export has written (keyed
+ * by conversation ID with `update_time` and a content hash) plus the state of
+ * the last run. `runBulkChatExport` uses it to resume an interrupted run and to
+ * skip unchanged conversations in incremental mode; the popup shows its stats
+ * and can reset it.
+ *
+ * Storage is best-effort: read failures yield an empty ledger and write
+ * failures are logged, so a broken ledger never blocks an export.
+ *
+ * @module utils/runner/bulk-export-ledger
+ */
+
+import { browser } from 'wxt/browser';
+import { hashText } from '@/utils/hash';
+import { logger } from '@/utils/logger';
+import type { BulkExportMode } from '@/utils/runner/bulk-chat-export-contract';
+import type { ConversationData } from '@/utils/types';
+
+export const BULK_EXPORT_LEDGER_KEY = 'userSettings.bulkExport.ledger.v1';
+/** Exports recorded between storage writes; bounds the work lost when a tab closes mid-run. */
+const FLUSH_EVERY_EXPORTS = 10;
+
+export type BulkExportLedgerEntry = {
+    /** Source `update_time` in seconds, when the platform provides one. */
+    updateTime: number | null;
+    contentHash: string;
+    exportedAt: number;
+    runId: string;
+};
+
+export type BulkExportLedgerRun = {
+    runId: string;
+    mode: BulkExportMode;
+    startedAt: number;
+    /** `null` while running, or when the run was interrupted. */
+    completedAt: number | null;
+};
+
+export type BulkExportLedgerPlatform = {
+    entries: Record<string, BulkExportLedgerEntry>;
+    lastRun: BulkExportLedgerRun | null;
+};
+
+export type BulkExportLedger = Record<string, BulkExportLedgerPlatform>;
+
+export type BulkExportLedgerStore = {
+    read: () => Promise<BulkExportLedger>;
+    write: (ledger: BulkExportLedger) => Promise<void>;
+};
+
+export type BulkExportLedgerStats = {
+    platform: string;
+    conversations: number;
+    lastExportedAt: number | null;
+    lastRun: BulkExportLedgerRun | null;
+};
+
+export type BulkExportLedgerSession = {
+    runId: string;
+    /** Set when `resume` mode continues an interrupted run. */
+    resumed: boolean;
+    /** Decides from list metadata alone, before the detail fetch. */
+    shouldSkipBeforeFetch: (conversationId: string, listUpdateTime: number | null) => boolean;
+    /** Incremental mode: the fetched conversation matches what was last exported. */
+    isUnchanged: (conversationId: string, conversation: ConversationData) => boolean;
+    record: (conversationId: string, conversation: ConversationData) => Promise<void>;
+    /** Moves records held back by `deferRecords` into the ledger; the next flush or completion persists them. */
+    commitDeferred: () => void;
+    /** Persists pending records and leaves the run interrupted, so `resume` can continue it. */
+    flush: () => Promise<void>;
+    complete: () => Promise<void>;
+};
+
+type LedgerSessionOptions = {
+    platform: string;
+    mode: BulkExportMode;
+    store: BulkExportLedgerStore;
+    nowImpl: () => number;
+    /**
+     * Holds records back until `commitDeferred`. For `zip` packaging nothing is
+     * on disk until the archive downloads, so a run interrupted before that must
+     * not count its chats as exported.
+     */
+    deferRecords?: boolean;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const readFiniteNumber = (value: unknown): number | null =>
+    typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+const normalizeEntry = (value: unknown): BulkExportLedgerEntry | null => {
+    if (!isRecord(value) || typeof value.contentHash !== 'string' || typeof value.runId !== 'string') {
+        return null;
+    }
+    const exportedAt = readFiniteNumber(value.exportedAt);
+    if (exportedAt === null) {
+        return null;
+    }
+    return {
+        updateTime: readFiniteNumber(value.updateTime),
+        contentHash: value.contentHash,
+        exportedAt,
+        runId: value.runId,
+    };
+};
+
+const normalizeRun = (value: unknown): BulkExportLedgerRun | null => {
+    if (!isRecord(value) || typeof value.runId !== 'string' || typeof value.mode !== 'string') {
+        return null;
+    }
+    const startedAt = readFiniteNumber(value.startedAt);
+    if (startedAt === null) {
+        return null;
+    }
+    return {
+        runId: value.runId,
+        mode: value.mode as BulkExportMode,
+        startedAt,
+        completedAt: readFiniteNumber(value.completedAt),
+    };
+};
+
+const normalizePlatform = (value: unknown): BulkExportLedgerPlatform => {
+    const record = isRecord(value) ? value : {};
+    const entries: Record<string, BulkExportLedgerEntry> = {};
+    for (const [conversationId, rawEntry] of Object.entries(isRecord(record.entries) ? record.entries : {})) {
+        const entry = normalizeEntry(rawEntry);
+        if (entry) {
+            entries[conversationId] = entry;
+        }
+    }
+    return { entries, lastRun: normalizeRun(record.lastRun) };
+};
+
+export const normalizeBulkExportLedger = (value: unknown): BulkExportLedger => {
+    if (!isRecord(value)) {
+        return {};
+    }
+    const ledger: BulkExportLedger = {};
+    for (const [platform, rawPlatform] of Object.entries(value)) {
+        ledger[platform] = normalizePlatform(rawPlatform);
+    }
+    return ledger;
+};
+
+export const browserBulkExportLedgerStore: BulkExportLedgerStore = {
+    read: async () => {
+        try {
+            const result = await browser.storage.local.get(BULK_EXPORT_LEDGER_KEY);
+            return normalizeBulkExportLedger(result?.[BULK_EXPORT_LEDGER_KEY]);
+        } catch {
+            return {};
+        }
+    },
+    write: async (ledger) => {
+        try {
+            await browser.storage.local.set({ [BULK_EXPORT_LEDGER_KEY]: ledger });
+        } catch (error) {
+            logger.warn('Failed to persist bulk export ledger', error);
+        }
+    },
+};
+
+export const getBulkExportLedgerStats = (ledger: BulkExportLedger): BulkExportLedgerStats[] =>
+    Object.entries(ledger)
+        .map(([platform, state]) => {
+            const entries = Object.values(state.entries);
+            return {
+                platform,
+                conversations: entries.length,
+                lastExportedAt: entries.length > 0 ? Math.max(...entries.map((entry) => entry.exportedAt)) : null,
+                lastRun: state.lastRun,
+            };
+        })
+        .sort((left, right) => left.platform.localeCompare(right.platform));
+
+/**
+ * Clears the ledger for one platform, or entirely when `platform` is omitted.
+ */
+export const resetBulkExportLedger = async (
+    platform?: string,
+    store: BulkExportLedgerStore = browserBulkExportLedgerStore,
+) => {
+    if (!platform) {
+        await store.write({});
+        return;
+    }
+    const ledger = await store.read();
+    delete ledger[platform];
+    await store.write(ledger);
+};
+
+/** Hash of the exported content, so title edits and new messages count as changes. */
+export const computeConversationContentHash = (conversation: ConversationData) =>
+    hashText(JSON.stringify({ title: conversation.title, mapping: conversation.mapping }));
+
+const toWholeSeconds = (value: number | null | undefined) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.floor(value) : null;
+
+const createRunId = (nowMs: number) => `${nowMs.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Opens a ledger session for one bulk export run and marks the run as started.
+ * In `resume` mode an interrupted previous run keeps its run ID and mode, so
+ * entries it already recorded are skipped.
+ */
+export const openBulkExportLedgerSession = async ({
+    platform,
+    mode,
+    store,
+    nowImpl,
+    deferRecords = false,
+}: LedgerSessionOptions): Promise<BulkExportLedgerSession> => {
+    const state = (await store.read())[platform] ?? { entries: {}, lastRun: null };
+    // Other tabs may run exports for other platforms meanwhile, so every write
+    // re-reads the ledger and replaces only this platform's slice.
+    const persist = async () => {
+        const latest = await store.read();
+        latest[platform] = state;
+        await store.write(latest);
+    };
+
+    const interrupted = state.lastRun && state.lastRun.completedAt === null ? state.lastRun : null;
+    const resumed = mode === 'resume' && interrupted !== null;
+    const run: BulkExportLedgerRun =
+        resumed && interrupted
+            ? { ...interrupted, completedAt: null }
+            : { runId: createRunId(nowImpl()), mode, startedAt: nowImpl(), completedAt: null };
+    // A resumed run keeps the interrupted run's mode, so a resumed incremental run stays incremental.
+    const incremental = run.mode === 'incremental';
+    state.lastRun = run;
+    await persist();
+
+    let pendingWrites = 0;
+    let deferred: Record<string, BulkExportLedgerEntry> = {};
+    const flush = async () => {
+        pendingWrites = 0;
+        await persist();
+    };
+
+    return {
+        runId: run.runId,
+        resumed,
+        shouldSkipBeforeFetch: (conversationId, listUpdateTime) => {
+            const entry = state.entries[conversationId];
+            if (!entry) {
+                return false;
+            }
+            if (resumed && entry.runId === run.runId) {
+                return true;
+            }
+            const listSeconds = toWholeSeconds(listUpdateTime);
+            return incremental && listSeconds !== null && listSeconds === toWholeSeconds(entry.updateTime);
+        },
+        isUnchanged: (conversationId, conversation) =>
+            incremental && state.entries[conversationId]?.contentHash === computeConversationContentHash(conversation),
+        record: async (conversationId, conversation) => {
+            const entry: BulkExportLedgerEntry = {
+                updateTime: toWholeSeconds(conversation.update_time),
+                contentHash: computeConversationContentHash(conversation),
+                exportedAt: nowImpl(),
+                runId: run.runId,
+            };
+            if (deferRecords) {
+                deferred[conversationId] = entry;
+                return;
+            }
+            state.entries[conversationId] = entry;
+            pendingWrites += 1;
+            if (pendingWrites >= FLUSH_EVERY_EXPORTS) {
+                await flush();
+            }
+        },
+        commitDeferred: () => {
+            Object.assign(state.entries, deferred);
+            deferred = {};
+        },
+        flush,
+        complete: async () => {
+            run.completedAt = nowImpl();
+            await flush();
+        },
+    };
+};
@@ -258,6 +258,20 @@ describe('button-state-manager', () => {
             expect(deps.setCalibrationState).toHaveBeenCalledWith('success');
         });
 
+        it('should report canonical-ready conversations but not degraded ones', () => {
+            const onCanonicalReady = mock(() => {});
+            deps.onCanonicalReady = onCanonicalReady;
+            refreshButtonState('123', deps, lastButtonStateLog);
+            expect(onCanonicalReady).toHaveBeenCalledWith('123', { conversation_id: '123' });
+
+            onCanonicalReady.mockClear();
+            deps.evaluateReadinessForData = mock(
+                () => ({ ready: false, terminal: false, reason: 'in_progress' }) as any,
+            );
+            refreshButtonState('123', deps, lastButtonStateLog);
+            expect(onCanonicalReady).not.toHaveBeenCalled();
+        });
+
         it('should clear calibration success state if no longer ready', () => {
             deps.getCalibrationState = () => 'success';
             // Configure deps so resolveReadinessDecision naturally returns awaiting_stabilization (not ready):
@@ -50,6 +50,8 @@ export type ButtonStateManagerDeps = {
     setLifecycleState: (state: LifecycleUiState, conversationId?: string) => void;
     syncCalibrationButtonDisplay: () => void;
     syncRunnerStateCalibration: (state: CalibrationUiState) => void;
+    /** Called on every refresh that finds the conversation canonical-ready (e.g. to archive it). */
+    onCanonicalReady?: (conversationId: string, data: ConversationData) => void;
 
     buttonManager: {
         exists: () => boolean;
@@ -217,6 +219,9 @@ export const refreshButtonState = (
     }
 
     applyActionStateFromDecision(isCanonicalReady, isDegraded, deps);
+    if (isCanonicalReady && cached) {
+        deps.onCanonicalReady?.(conversationId, cached);
+    }
 
     const opacity = hasData ? '1' : '0.6';
     deps.buttonManager.setOpacity(opacity);
@@ -7,6 +7,7 @@
  * these via `runCalibrationStep`.
  */
 
+import { getPlatformDescriptor } from '@/platforms/descriptors';
 import type { LLMPlatform } from '@/platforms/types';
 import { logger } from '@/utils/logger';
 import type { CalibrationStep } from '@/utils/runner/calibration-runner';
@@ -66,14 +67,8 @@ export type CalibrationCaptureDeps = {
 
 // passive-wait
 
-const PASSIVE_WAIT_TIMEOUT_BY_PLATFORM: Record<string, number> = {
-    ChatGPT: 1200,
-    Gemini: 3500,
-    Grok: 3500,
-};
-
 const getPassiveWaitTimeoutMs = (platformName: string): number =>
-    PASSIVE_WAIT_TIMEOUT_BY_PLATFORM[platformName] ?? 2000;
+    getPlatformDescriptor(platformName)?.passiveCaptureWaitMs ?? 2000;
 
 /**
  * Polls every 250 ms until the capture is satisfied or the platform-specific
@@ -68,6 +68,13 @@ describe('canonical-stabilization-tick', () => {
 
     afterEach(() => {
         globalThis.setTimeout = originalSetTimeout;
+        // Retries must not outlive the test: a tick still in flight would schedule
+        // another one after later suites have removed `window`.
+        deps.isAttemptDisposedOrSuperseded = () => true;
+        for (const timerId of deps.retryTimers.values()) {
+            clearTimeout(timerId);
+        }
+        deps.retryTimers.clear();
     });
 
     describe('hasCanonicalStabilizationTimedOut', () => {
@@ -198,10 +205,7 @@ describe('canonical-stabilization-tick', () => {
 
         it('should attempt promotion if API is unreachable and readily degraded data is in cache', async () => {
             let _tickCallback: (() => void) | undefined;
-            globalThis.setTimeout = mock((fn) => {
-                originalSetTimeout(() => (fn as () => void)(), 0);
-                return 123 as any;
-            }) as any;
+            globalThis.setTimeout = mock((fn) => originalSetTimeout(() => (fn as () => void)(), 0)) as any;
 
             deps.getConversation = () => ({}) as ConversationData;
             // degraded data
@@ -244,10 +248,7 @@ describe('canonical-stabilization-tick', () => {
 
         it('should promote refresh snapshot if ready and fetch succeeds but capture meta is degraded', async () => {
             let _tickCallback: (() => void) | undefined;
-            globalThis.setTimeout = mock((fn) => {
-                originalSetTimeout(() => (fn as () => void)(), 0);
-                return 123 as any;
-            }) as any;
+            globalThis.setTimeout = mock((fn) => originalSetTimeout(() => (fn as () => void)(), 0)) as any;
 
             let callCount = 0;
             deps.getConversation = () => {
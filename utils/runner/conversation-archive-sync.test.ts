@@ -0,0 +1,68 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { buildSimpleConversation } from '@/utils/export/__tests__/fixtures';
+import { createConversationArchiveSync } from '@/utils/runner/conversation-archive-sync';
+
+const createDeps = (overrides: { enabled?: boolean; sendMessage?: (message: unknown) => Promise<unknown> } = {}) => {
+    const state = { enabled: overrides.enabled ?? true };
+    return {
+        state,
+        deps: {
+            isEnabled: () => state.enabled,
+            getPlatformName: () => 'ChatGPT',
+            getCaptureMeta: () => ({
+                captureSource: 'canonical_api' as const,
+                fidelity: 'high' as const,
+                completeness: 'complete' as const,
+            }),
+            formatFilename: () => 'export-test',
+            sendMessage: mock(overrides.sendMessage ?? (async (_message: unknown) => ({ ok: true, stored: true }))),
+        },
+    };
+};
+
+describe('conversation-archive-sync', () => {
+    it('should send each conversation once per content change', () => {
+        const { deps } = createDeps();
+        const sync = createConversationArchiveSync(deps);
+
+        sync('conv-export', buildSimpleConversation(), 'hash-1');
+        sync('conv-export', buildSimpleConversation(), 'hash-1');
+        expect(deps.sendMessage).toHaveBeenCalledTimes(1);
+        expect(deps.sendMessage.mock.calls[0]?.[0]).toMatchObject({
+            type: 'BLACKIYA_ARCHIVE_PUT',
+            platform: 'ChatGPT',
+            filename: 'export-test',
+            exportMeta: { fidelity: 'high' },
+        });
+
+        sync('conv-export', buildSimpleConversation({ title: 'Renamed' }), 'hash-2');
+        expect(deps.sendMessage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should do nothing while the archive is disabled', () => {
+        const { deps, state } = createDeps({ enabled: false });
+        const sync = createConversationArchiveSync(deps);
+
+        sync('conv-export', buildSimpleConversation(), 'hash-1');
+        expect(deps.sendMessage).not.toHaveBeenCalled();
+
+        state.enabled = true;
+        sync('conv-export', buildSimpleConversation(), 'hash-1');
+        expect(deps.sendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry after a failed send', async () => {
+        const { deps } = createDeps({
+            sendMessage: async () => {
+                throw new Error('Receiving end does not exist');
+            },
+        });
+        const sync = createConversationArchiveSync(deps);
+
+        sync('conv-export', buildSimpleConversation(), 'hash-1');
+        await Promise.resolve();
+        await Promise.resolve();
+        sync('conv-export', buildSimpleConversation(), 'hash-1');
+        expect(deps.sendMessage).toHaveBeenCalledTimes(2);
+    });
+});
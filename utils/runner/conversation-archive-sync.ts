@@ -0,0 +1,56 @@
+/**
+ * Conversation Archive Sync
+ *
+ * Forwards canonical-ready conversations from the content script to the
+ * background archive while the archive setting is on. Readiness is
+ * re-evaluated on every button refresh, so each conversation is sent again
+ * only when the content hash the runner computed for it changes.
+ *
+ * @module utils/runner/conversation-archive-sync
+ */
+
+import { ARCHIVE_PUT_MESSAGE, type ConversationArchivePutMessage } from '@/utils/archive/conversation-archive-contract';
+import { setBoundedMapValue } from '@/utils/bounded-collections';
+import { logger } from '@/utils/logger';
+import type { ExportMeta } from '@/utils/sfe/types';
+import type { ConversationData } from '@/utils/types';
+
+const MAX_TRACKED_CONVERSATIONS = 200;
+
+export type ConversationArchiveSyncDeps = {
+    isEnabled: () => boolean;
+    getPlatformName: () => string | null;
+    getCaptureMeta: (conversationId: string) => ExportMeta;
+    formatFilename: (data: ConversationData) => string;
+    sendMessage: (message: ConversationArchivePutMessage) => Promise<unknown>;
+};
+
+export const createConversationArchiveSync = (deps: ConversationArchiveSyncDeps) => {
+    const sentHashByConversation = new Map<string, string>();
+
+    return (conversationId: string, data: ConversationData, contentHash: string) => {
+        const platform = deps.getPlatformName();
+        if (!deps.isEnabled() || !platform) {
+            return;
+        }
+        if (sentHashByConversation.get(conversationId) === contentHash) {
+            return;
+        }
+        setBoundedMapValue(sentHashByConversation, conversationId, contentHash, MAX_TRACKED_CONVERSATIONS);
+        void deps
+            .sendMessage({
+                type: ARCHIVE_PUT_MESSAGE,
+                platform,
+                conversation: data,
+                exportMeta: deps.getCaptureMeta(conversationId),
+                filename: deps.formatFilename(data),
+            })
+            .catch((error) => {
+                // Forget the hash so the next readiness refresh retries.
+                if (sentHashByConversation.get(conversationId) === contentHash) {
+                    sentHashByConversation.delete(conversationId);
+                }
+                logger.warn('Failed to archive conversation', { conversationId, error });
+            });
+    };
+};
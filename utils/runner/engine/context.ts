@@ -6,9 +6,11 @@
  */
 
 import { logger } from '@/utils/logger';
+import type { NativeHostWriteRequest } from '@/utils/native-host/native-host-contract';
 import { platformHeaderStore } from '@/utils/platform-header-store';
 import type { AttemptCoordinatorDeps } from '@/utils/runner/attempt-coordinator';
 import { shouldRemoveDisposedAttemptBinding as shouldRemoveDisposedAttemptBindingFromRegistry } from '@/utils/runner/attempt-state';
+import { computeConversationContentHash } from '@/utils/runner/bulk-export-ledger';
 import type { ButtonStateManagerDeps } from '@/utils/runner/button-state-manager';
 import {
     type CalibrationCaptureDeps,
@@ -49,6 +51,7 @@ import type { CalibrationRuntimeDeps } from '@/utils/runner/runtime/platform-run
 import type { RuntimeWiringDeps } from '@/utils/runner/runtime/platform-runtime-wiring';
 import type { RunnerCleanupDeps } from '@/utils/runner/runtime/runtime-cleanup';
 import type {
+    ExportFormatSettingDeps,
     StorageChangeListenerDeps,
     StreamProbeVisibilitySettingDeps,
     VisibilityRecoveryDeps,
@@ -59,7 +62,9 @@ import type { StreamDoneCoordinatorDeps } from '@/utils/runner/stream/stream-don
 import { runStreamDoneProbe as runStreamDoneProbeReal } from '@/utils/runner/stream/stream-done-probe';
 import { getFetchUrlCandidates, getRawSnapshotReplayUrls } from '@/utils/runner/url-candidates';
 import type { WarmFetchDeps } from '@/utils/runner/warm-fetch';
+import { type ExportFormat, resolveAutoExportRule, resolvePageEventsRule } from '@/utils/settings';
 import { shouldIngestAsCanonicalSample } from '@/utils/sfe/capture-fidelity';
+import type { WebhookExportPayload } from '@/utils/sinks/webhook-sink-contract';
 
 export const buildAttemptCoordinatorDeps = (ctx: EngineCtx): AttemptCoordinatorDeps => ({
     maxConversationAttempts: MAX_CONVERSATION_ATTEMPTS,
@@ -189,6 +194,18 @@ export const buildCanonicalStabilizationTickDeps = (ctx: EngineCtx): CanonicalSt
         ctx.structuredLogger.emit(attemptId, 'info', event, message, payload, key),
 });
 
+/** Saves go to the local folder host only while it is enabled in the popup. */
+export const resolveNativeHostWriter = (ctx: EngineCtx) =>
+    ctx.nativeHostEnabled ? (request: NativeHostWriteRequest) => ctx.writeToNativeHost(request) : undefined;
+
+/** Downloads are encrypted only while export encryption is on. */
+export const resolveExportEncryptor = (ctx: EngineCtx) =>
+    ctx.encryptionEnabled ? () => ctx.requestExportEncryptor() : undefined;
+
+/** Exports reach the webhook outbox only while at least one sink is enabled. */
+export const resolveSinkDelivery = (ctx: EngineCtx) =>
+    ctx.webhookSinksEnabled ? (payload: WebhookExportPayload) => ctx.deliverToSinks(payload) : undefined;
+
 export const buildSavePipelineDeps = (ctx: EngineCtx): SavePipelineDeps => ({
     getAdapter: () => ctx.currentAdapter,
     resolveConversationIdForUserAction: () => resolveConversationIdForUserAction(ctx),
@@ -212,10 +229,17 @@ export const buildSavePipelineDeps = (ctx: EngineCtx): SavePipelineDeps => ({
     getRawSnapshotReplayUrls: (cid, snap) =>
         ctx.currentAdapter ? getRawSnapshotReplayUrls(ctx.currentAdapter, cid, snap) : [snap.url],
     getPlatformName: () => ctx.currentAdapter?.name ?? 'unknown',
+    getExportFormat: () => ctx.exportFormat,
+    getExportFormatSettings: () => ctx.exportFormatSettings,
     buttonManagerExists: () => ctx.buttonManager.exists(),
     buttonManagerSetLoading: (loading, button) => ctx.buttonManager.setLoading(loading, button),
-    buttonManagerSetSuccess: (button) => ctx.buttonManager.setSuccess(button),
+    buttonManagerSetSuccess: (button, feedback) => ctx.buttonManager.setSuccess(button, feedback),
     structuredLogger: ctx.structuredLogger,
+    getAuthHeaders: () => platformHeaderStore.get(ctx.currentAdapter?.name ?? ''),
+    deliverToSinks: resolveSinkDelivery(ctx),
+    writeToNativeHost: resolveNativeHostWriter(ctx),
+    getRedactionSettings: () => ctx.redactionSettings,
+    getExportEncryptor: resolveExportEncryptor(ctx),
 });
 
 export const buildWarmFetchDeps = (ctx: EngineCtx): WarmFetchDeps => ({
@@ -287,6 +311,20 @@ export const buildCalibrationRuntimeDeps = (ctx: EngineCtx): CalibrationRuntimeD
     buildCalibrationCaptureDeps: (cid) => buildCalibrationCaptureDeps(ctx, cid),
 });
 
+/** Whether any consumer of canonical-ready conversations is on, so refreshes skip hashing otherwise. */
+const hasCanonicalReadyConsumers = (ctx: EngineCtx) => {
+    const platform = ctx.currentAdapter?.name;
+    if (!platform) {
+        return false;
+    }
+    return (
+        ctx.archiveEnabled ||
+        resolveAutoExportRule(ctx.autoExportSettings, platform).enabled ||
+        (ctx.externalApiEnabled && ctx.externalApiSubscribed) ||
+        resolvePageEventsRule(ctx.pageEventsSettings, platform).enabled
+    );
+};
+
 export const buildButtonStateManagerDeps = (ctx: EngineCtx): ButtonStateManagerDeps => ({
     getAdapter: () => ctx.currentAdapter,
     getCurrentConversationId: () => ctx.currentConversationId,
@@ -320,6 +358,17 @@ export const buildButtonStateManagerDeps = (ctx: EngineCtx): ButtonStateManagerD
     syncRunnerStateCalibration: (state) => {
         ctx.runnerState.calibrationState = state;
     },
+    onCanonicalReady: (cid, data) => {
+        if (!hasCanonicalReadyConsumers(ctx)) {
+            return;
+        }
+        // Hashed once per refresh; every consumer compares it with what it last handled.
+        const contentHash = computeConversationContentHash(data);
+        ctx.archiveCanonicalConversation(cid, data, contentHash);
+        ctx.autoExport.schedule(cid, contentHash);
+        ctx.externalApi.publishConversationReady(cid, data, contentHash);
+        ctx.pageEvents.publishConversationReady(cid, data, contentHash);
+    },
     buttonManager: {
         exists: () => ctx.buttonManager.exists(),
         inject: (target, cid) => ctx.buttonManager.inject(target, cid),
@@ -477,6 +526,19 @@ export const buildStreamProbeVisibilitySettingDeps = (ctx: EngineCtx): StreamPro
     removeStreamProbePanel,
 });
 
+const applyExportFormat = (ctx: EngineCtx, format: ExportFormat) => {
+    ctx.exportFormat = format;
+    ctx.buttonManager.setExportFormat(format);
+};
+
+export const buildExportFormatSettingDeps = (ctx: EngineCtx): ExportFormatSettingDeps => ({
+    getExportFormat: () => ctx.exportFormat,
+    setExportFormat: (format) => applyExportFormat(ctx, format),
+    setExportFormatSettings: (settings) => {
+        ctx.exportFormatSettings = settings;
+    },
+});
+
 export const buildStorageChangeListenerDeps = (ctx: EngineCtx): StorageChangeListenerDeps => ({
     setStreamProbeVisible: (visible) => {
         ctx.streamProbeVisible = visible;
@@ -485,6 +547,37 @@ export const buildStorageChangeListenerDeps = (ctx: EngineCtx): StorageChangeLis
     setSfeEnabled: (enabled) => {
         ctx.sfeEnabled = enabled;
     },
+    setExportFormat: (format) => applyExportFormat(ctx, format),
+    setExportFormatSettings: (settings) => {
+        ctx.exportFormatSettings = settings;
+    },
+    setArchiveEnabled: (enabled) => {
+        ctx.archiveEnabled = enabled;
+    },
+    setAutoExportSettings: (settings) => {
+        ctx.autoExportSettings = settings;
+    },
+    setExternalApiEnabled: (enabled) => {
+        ctx.externalApiEnabled = enabled;
+    },
+    setExternalApiSubscribed: (subscribed) => {
+        ctx.externalApiSubscribed = subscribed;
+    },
+    setPageEventsSettings: (settings) => {
+        ctx.pageEventsSettings = settings;
+    },
+    setWebhookSinksEnabled: (enabled) => {
+        ctx.webhookSinksEnabled = enabled;
+    },
+    setNativeHostEnabled: (enabled) => {
+        ctx.nativeHostEnabled = enabled;
+    },
+    setEncryptionEnabled: (enabled) => {
+        ctx.encryptionEnabled = enabled;
+    },
+    setRedactionSettings: (settings) => {
+        ctx.redactionSettings = settings;
+    },
     refreshButtonState: (cid) => ctx.refreshButtonState(cid),
     getCurrentConversationId: () => ctx.currentConversationId,
     hasAdapter: () => !!ctx.currentAdapter,
@@ -540,6 +633,7 @@ export const buildCleanupRuntimeDeps = (
     cleanupWindowBridge: ctx.cleanupWindowBridge,
     cleanupCompletionWatcher: ctx.cleanupCompletionWatcher,
     cleanupButtonHealthCheck: ctx.cleanupButtonHealthCheck,
+    cleanupAutoExport: () => ctx.autoExport.dispose(),
     cleanupRuntimeMessageListener: ctx.cleanupRuntimeMessageListener,
     removeStorageChangeListener: () => {
         (async () => {
@@ -12,21 +12,39 @@
 import { browser } from 'wxt/browser';
 import { getPlatformAdapter } from '@/platforms/factory';
 import { getBuildFingerprint } from '@/utils/build-fingerprint';
+import { createExportEncryptor } from '@/utils/encryption/export-envelope';
+import {
+    EXPORT_PASSPHRASE_REQUEST_MESSAGE,
+    type ExportPassphraseRequestMessage,
+    isExportPassphraseResponse,
+    MISSING_EXPORT_PASSPHRASE_ERROR,
+} from '@/utils/encryption/export-passphrase';
 import { logger } from '@/utils/logger';
 import { StructuredAttemptLogger } from '@/utils/logging/structured-logger';
 import { InterceptionManager } from '@/utils/managers/interception-manager';
 import { NavigationManager } from '@/utils/managers/navigation-manager';
+import {
+    isNativeHostResult,
+    NATIVE_HOST_REQUEST_MESSAGE,
+    type NativeHostRequestMessage,
+} from '@/utils/native-host/native-host-contract';
 import { readPlatformHeadersFromCache, writePlatformHeadersToCache } from '@/utils/platform-header-cache';
 import { platformHeaderStore } from '@/utils/platform-header-store';
 import { MESSAGE_TYPES } from '@/utils/protocol/constants';
+import { isExternalTabRequestMessage } from '@/utils/protocol/external-api';
 import { generateSessionToken, setSessionToken } from '@/utils/protocol/session-token';
+import { previewConversationRedaction } from '@/utils/redaction/redaction';
+import { isRedactionPreviewMessage, type RedactionPreviewResponse } from '@/utils/redaction/redaction-preview-contract';
 import { createAttemptCoordinator } from '@/utils/runner/attempt-coordinator';
+import { createAutoExport } from '@/utils/runner/auto-export';
 import { runBulkChatExport } from '@/utils/runner/bulk-chat-export';
 import {
     BULK_EXPORT_PROGRESS_MESSAGE,
     type BulkExportChatsResponse,
     isBulkExportChatsMessage,
+    isBulkExportControlMessage,
 } from '@/utils/runner/bulk-chat-export-contract';
+import { createBulkExportRunTracker } from '@/utils/runner/bulk-export-control';
 import {
     injectSaveButton as injectSaveButtonCore,
     isConversationReadyForActions as isConversationReadyForActionsCore,
@@ -42,6 +60,7 @@ import {
     maybeRestartCanonicalRecoveryAfterTimeout as maybeRestartCanonicalRecoveryAfterTimeoutCore,
     scheduleCanonicalStabilizationRetry as scheduleCanonicalStabilizationRetryCore,
 } from '@/utils/runner/canonical-stabilization-tick';
+import { createConversationArchiveSync } from '@/utils/runner/conversation-archive-sync';
 import {
     buildAttemptCoordinatorDeps,
     buildButtonStateManagerDeps,
@@ -49,6 +68,7 @@ import {
     buildCalibrationRuntimeDeps,
     buildCanonicalStabilizationTickDeps,
     buildCleanupRuntimeDeps,
+    buildExportFormatSettingDeps,
     buildInterceptionCaptureDeps,
     buildResponseFinishedDeps,
     buildRuntimeWiringDeps,
@@ -58,6 +78,8 @@ import {
     buildStreamProbeVisibilitySettingDeps,
     buildVisibilityRecoveryDeps,
     buildWarmFetchDeps,
+    resolveExportEncryptor,
+    resolveSinkDelivery,
 } from '@/utils/runner/engine/context';
 import {
     evaluateReadinessForData,
@@ -76,8 +98,11 @@ import {
 } from '@/utils/runner/engine/sfe-wrappers';
 import type { EngineCtx } from '@/utils/runner/engine/types';
 import { MAX_STREAM_PREVIEWS } from '@/utils/runner/engine/types';
+import { applyResolvedExportTitle } from '@/utils/runner/export-pipeline';
+import { createExternalApiBridge } from '@/utils/runner/external-api-bridge';
 import { requestGeminiBatchexecuteContextFromMainWorld } from '@/utils/runner/gemini-batchexecute-request';
 import { processInterceptionCapture as processInterceptionCaptureCore } from '@/utils/runner/interception-capture';
+import { createPageEvents } from '@/utils/runner/page-events';
 import { requestPlatformHeadersFromMainWorld } from '@/utils/runner/platform-header-request';
 import { processResponseFinished as processResponseFinishedCore } from '@/utils/runner/response-finished-handler';
 import { createCalibrationRuntime } from '@/utils/runner/runtime/platform-runtime-calibration';
@@ -85,20 +110,42 @@ import { createStreamProbeRuntime } from '@/utils/runner/runtime/platform-runtim
 import { createRuntimeWiring } from '@/utils/runner/runtime/platform-runtime-wiring';
 import { createCleanupRuntime } from '@/utils/runner/runtime/runtime-cleanup';
 import {
+    createExportFormatToggleHandler,
     createStorageChangeListener as createStorageChangeListenerCore,
     createVisibilityChangeHandler as createVisibilityChangeHandlerCore,
+    loadExportFormatPreference,
     loadStreamProbeVisibilitySetting as loadStreamProbeVisibilitySettingCore,
     scheduleButtonInjectionRetries as scheduleButtonInjectionRetriesCore,
 } from '@/utils/runner/runtime/runtime-settings';
 import {
+    exportConversationQuietly as exportConversationQuietlyCore,
     getConversationData as getConversationDataCore,
     handleSaveClick as handleSaveClickCore,
+    resolveExportFilename as resolveExportFilenameCore,
 } from '@/utils/runner/save-pipeline';
 import { RunnerState } from '@/utils/runner/state';
 import { createStreamDoneCoordinator } from '@/utils/runner/stream/stream-done-coordinator';
+import {
+    DEFAULT_AUTO_EXPORT_SETTINGS,
+    DEFAULT_EXPORT_FORMAT,
+    DEFAULT_REDACTION_SETTINGS,
+    loadArchiveEnabledSetting,
+    loadAutoExportSettings,
+    loadEncryptionEnabledSetting,
+    loadExternalApiAllowedIds,
+    loadExternalApiSubscribed,
+    loadNativeHostEnabledSetting,
+    loadPageEventsSettings,
+    loadRedactionSettings,
+    loadWebhookSinks,
+    normalizeRedactionSettings,
+    resolveAutoExportRule,
+    resolvePageEventsRule,
+} from '@/utils/settings';
 import { CrossTabProbeLease } from '@/utils/sfe/cross-tab-probe-lease';
 import { ReadinessGate } from '@/utils/sfe/readiness-gate';
 import { SignalFusionEngine } from '@/utils/sfe/signal-fusion-engine';
+import { SINK_DELIVER_MESSAGE, type SinkDeliverMessage } from '@/utils/sinks/webhook-sink-contract';
 import { ButtonManager } from '@/utils/ui/button-manager';
 
 const SFE_STABILIZATION_MAX_WAIT_MS = 3200;
@@ -140,7 +187,18 @@ export const runPlatform = (): void => {
         calibrationState: 'idle',
         activeAttemptId: null,
         sfeEnabled: true,
+        exportFormat: DEFAULT_EXPORT_FORMAT,
+        exportFormatSettings: {},
         streamProbeVisible: false,
+        archiveEnabled: false,
+        autoExportSettings: DEFAULT_AUTO_EXPORT_SETTINGS,
+        externalApiEnabled: false,
+        externalApiSubscribed: false,
+        pageEventsSettings: {},
+        webhookSinksEnabled: false,
+        nativeHostEnabled: false,
+        encryptionEnabled: false,
+        redactionSettings: DEFAULT_REDACTION_SETTINGS,
         cleanedUp: false,
         lastResponseFinishedAt: 0,
         lastResponseFinishedConversationId: null,
@@ -230,6 +288,13 @@ export const runPlatform = (): void => {
         getConversationData: null!,
         warmFetchConversationSnapshot: null!,
         maybeRunAutoCapture: null!,
+        archiveCanonicalConversation: null!,
+        autoExport: null!,
+        externalApi: null!,
+        pageEvents: null!,
+        deliverToSinks: null!,
+        writeToNativeHost: null!,
+        requestExportEncryptor: null!,
         syncCalibrationButtonDisplay: null!,
         ensureCalibrationPreferenceLoaded: null!,
         isCalibrationCaptureSatisfied: null!,
@@ -299,6 +364,7 @@ export const runPlatform = (): void => {
     ctx.buttonManager = new ButtonManager(
         () => ctx.handleSaveClick(),
         () => ctx.handleCalibrationClick(),
+        createExportFormatToggleHandler(buildExportFormatSettingDeps(ctx)),
     );
     ctx.interceptionManager = new InterceptionManager((capturedId, data, meta) => {
         processInterceptionCaptureCore(capturedId, data, meta, buildInterceptionCaptureDeps(ctx));
@@ -342,6 +408,86 @@ export const runPlatform = (): void => {
     ctx.handleCalibrationProfilesChanged = calibrationRuntime.handleCalibrationProfilesChanged;
     ctx.handleCalibrationClick = async () => handleCalibrationClickCore(ctx.buildCalibrationOrchestrationDeps());
 
+    ctx.archiveCanonicalConversation = createConversationArchiveSync({
+        isEnabled: () => ctx.archiveEnabled,
+        getPlatformName: () => ctx.currentAdapter?.name ?? null,
+        getCaptureMeta: (cid) => ctx.getCaptureMeta(cid),
+        formatFilename: (data) => ctx.currentAdapter?.formatFilename(data) ?? data.conversation_id,
+        sendMessage: (message) => browser.runtime.sendMessage(message),
+    });
+    ctx.autoExport = createAutoExport({
+        getPlatformName: () => ctx.currentAdapter?.name ?? null,
+        getRule: (platform) => resolveAutoExportRule(ctx.autoExportSettings, platform),
+        isCanonicalReady: (cid) =>
+            ctx.resolveReadinessDecision(cid).mode === 'canonical_ready' && !ctx.shouldBlockActionsForGeneration(cid),
+        getConversation: (cid) => ctx.interceptionManager.getConversation(cid),
+        peekAttemptId: (cid) => ctx.peekAttemptId(cid),
+        resolveFilename: (data) => resolveExportFilenameCore(data, buildSavePipelineDeps(ctx)),
+        exportConversation: (data, filename) =>
+            exportConversationQuietlyCore(data, filename, buildSavePipelineDeps(ctx)),
+    });
+    ctx.externalApi = createExternalApiBridge({
+        isEnabled: () => ctx.externalApiEnabled,
+        hasSubscribers: () => ctx.externalApiSubscribed,
+        getPlatformName: () => ctx.currentAdapter?.name ?? null,
+        getCurrentConversationId: () => ctx.currentConversationId,
+        getConversation: (cid) => ctx.interceptionManager.getConversation(cid),
+        isCanonicalReady: (cid) =>
+            ctx.resolveReadinessDecision(cid).mode === 'canonical_ready' && !ctx.shouldBlockActionsForGeneration(cid),
+        peekAttemptId: (cid) => ctx.peekAttemptId(cid),
+        getCaptureMeta: (cid) => ctx.getCaptureMeta(cid),
+        exportConversation: async (data, format) => {
+            const saveDeps = buildSavePipelineDeps(ctx);
+            const deps = format ? { ...saveDeps, getExportFormat: () => format } : saveDeps;
+            const filename = resolveExportFilenameCore(data, deps);
+            if (!filename) {
+                throw new Error('No platform adapter for this page');
+            }
+            return exportConversationQuietlyCore(data, filename, deps);
+        },
+        sendMessage: (message) => browser.runtime.sendMessage(message),
+    });
+    ctx.pageEvents = createPageEvents({
+        getPlatformName: () => ctx.currentAdapter?.name ?? null,
+        getRule: (platform) => resolvePageEventsRule(ctx.pageEventsSettings, platform),
+        peekAttemptId: (cid) => ctx.peekAttemptId(cid),
+        getCaptureMeta: (cid) => ctx.getCaptureMeta(cid),
+        dispatch: (type, detail) => window.dispatchEvent(new CustomEvent(type, { detail })),
+    });
+
+    ctx.deliverToSinks = (payload) => {
+        void browser.runtime
+            .sendMessage({ type: SINK_DELIVER_MESSAGE, payload } satisfies SinkDeliverMessage)
+            .catch((error) => {
+                logger.warn('Failed to hand export to the webhook outbox', { filename: payload.filename, error });
+            });
+    };
+
+    ctx.writeToNativeHost = async (request) => {
+        try {
+            const response = await browser.runtime.sendMessage({
+                type: NATIVE_HOST_REQUEST_MESSAGE,
+                action: 'write',
+                request,
+            } satisfies NativeHostRequestMessage);
+            return isNativeHostResult(response)
+                ? response
+                : { ok: false, error: 'Background sent an unexpected native host reply' };
+        } catch (error) {
+            return { ok: false, error: error instanceof Error ? error.message : String(error) };
+        }
+    };
+
+    ctx.requestExportEncryptor = async () => {
+        const response = await browser.runtime.sendMessage({
+            type: EXPORT_PASSPHRASE_REQUEST_MESSAGE,
+        } satisfies ExportPassphraseRequestMessage);
+        if (!isExportPassphraseResponse(response) || !response.passphrase) {
+            throw new Error(MISSING_EXPORT_PASSPHRASE_ERROR);
+        }
+        return createExportEncryptor(response.passphrase);
+    };
+
     ctx.injectSaveButton = () => injectSaveButtonCore(buildButtonStateManagerDeps(ctx), ctx.lastButtonStateLogRef);
     ctx.resolveReadinessDecision = (cid) => resolveReadinessDecisionCore(cid, buildButtonStateManagerDeps(ctx));
     ctx.isConversationReadyForActions = (cid, opts = {}) =>
@@ -382,9 +528,14 @@ export const runPlatform = (): void => {
         if (ctx.lifecycleState !== state) {
             logger.info('Lifecycle transition', { from: ctx.lifecycleState, to: state, conversationId: resolvedCid });
         }
+        const changed = ctx.lifecycleState !== state;
         ctx.lifecycleState = state;
         ctx.runnerState.lifecycleState = state;
         syncLifecycleConversationBinding(state, resolvedCid);
+        if (changed) {
+            ctx.externalApi.publishLifecycle(state, resolvedCid, ctx.lifecycleAttemptId);
+            ctx.pageEvents.publishLifecycle(state, resolvedCid, ctx.lifecycleAttemptId);
+        }
         ctx.buttonManager.setLifecycleState(state);
         applyLifecycleUiState(state, conversationId);
     };
@@ -421,6 +572,34 @@ export const runPlatform = (): void => {
     void ctx.ensureCalibrationPreferenceLoaded(ctx.currentAdapter.name);
     void ctx.loadSfeSettings();
     void loadStreamProbeVisibilitySettingCore(buildStreamProbeVisibilitySettingDeps(ctx));
+    void loadExportFormatPreference(buildExportFormatSettingDeps(ctx));
+    void loadArchiveEnabledSetting().then((enabled) => {
+        ctx.archiveEnabled = enabled;
+    });
+    void loadAutoExportSettings().then((settings) => {
+        ctx.autoExportSettings = settings;
+    });
+    void loadExternalApiAllowedIds().then((ids) => {
+        ctx.externalApiEnabled = ids.length > 0;
+    });
+    void loadExternalApiSubscribed().then((subscribed) => {
+        ctx.externalApiSubscribed = subscribed;
+    });
+    void loadPageEventsSettings().then((settings) => {
+        ctx.pageEventsSettings = settings;
+    });
+    void loadWebhookSinks().then((sinks) => {
+        ctx.webhookSinksEnabled = sinks.some((sink) => sink.enabled);
+    });
+    void loadNativeHostEnabledSetting().then((enabled) => {
+        ctx.nativeHostEnabled = enabled;
+    });
+    void loadEncryptionEnabledSetting().then((enabled) => {
+        ctx.encryptionEnabled = enabled;
+    });
+    void loadRedactionSettings().then((settings) => {
+        ctx.redactionSettings = settings;
+    });
 
     const storageChangeListener = createStorageChangeListenerCore(buildStorageChangeListenerDeps(ctx));
     browser.storage.onChanged.addListener(storageChangeListener);
@@ -463,13 +642,50 @@ export const runPlatform = (): void => {
         };
     };
 
+    const bulkExportRuns = createBulkExportRunTracker();
+
+    /** Dry run on the open conversation, titled the way a save would title it. */
+    const resolveRedactionPreview = (settings: unknown): RedactionPreviewResponse => {
+        const data = ctx.currentConversationId
+            ? ctx.interceptionManager.getConversation(ctx.currentConversationId)
+            : undefined;
+        if (!data) {
+            return { ok: false, error: 'Open a captured conversation in this tab first.' };
+        }
+        const { title } = applyResolvedExportTitle(data);
+        return { ok: true, title, preview: previewConversationRedaction(data, normalizeRedactionSettings(settings)) };
+    };
+
     const runtimeMessageListener: Parameters<typeof browser.runtime.onMessage.addListener>[0] = (
         message,
         _sender,
         sendResponse,
     ) => {
+        if (isExternalTabRequestMessage(message)) {
+            void ctx.externalApi.handleTabRequest(message).then(sendResponse);
+            return true;
+        }
+
+        if (isRedactionPreviewMessage(message)) {
+            sendResponse(resolveRedactionPreview(message.settings));
+            return true;
+        }
+
+        if (isBulkExportControlMessage(message)) {
+            sendResponse(bulkExportRuns.handle(message.action));
+            return true;
+        }
+
         if (isBulkExportChatsMessage(message)) {
             const platformName = ctx.currentAdapter?.name ?? '';
+            const control = bulkExportRuns.begin();
+            if (!control) {
+                sendResponse({
+                    ok: false,
+                    error: 'A bulk export is already running in this tab.',
+                } satisfies BulkExportChatsResponse);
+                return true;
+            }
             void Promise.resolve()
                 .then(() => resolveBulkExportRuntimeContext(platformName))
                 .then(({ resolvedHeaders, geminiBatchexecuteContext }) =>
@@ -477,8 +693,15 @@ export const runPlatform = (): void => {
                         getAdapter: () => ctx.currentAdapter,
                         getAuthHeaders: () => resolvedHeaders,
                         getGeminiBatchexecuteContext: () => geminiBatchexecuteContext,
+                        getExportFormat: () => ctx.exportFormat,
+                        getExportFormatSettings: () => ctx.exportFormatSettings,
                         locationHref: () => window.location.href,
+                        control,
+                        deliverToSinks: resolveSinkDelivery(ctx),
+                        getRedactionSettings: () => ctx.redactionSettings,
+                        getExportEncryptor: resolveExportEncryptor(ctx),
                         onProgress: (progress) => {
+                            bulkExportRuns.recordProgress(progress);
                             void browser.runtime.sendMessage({
                                 ...progress,
                                 type: BULK_EXPORT_PROGRESS_MESSAGE,
@@ -506,6 +729,9 @@ export const runPlatform = (): void => {
                         ok: false,
                         error: errorMessage,
                     } satisfies BulkExportChatsResponse);
+                })
+                .finally(() => {
+                    bulkExportRuns.end();
                 });
             return true;
         }
@@ -1,15 +1,20 @@
 import type { LLMPlatform } from '@/platforms/types';
+import type { ExportEncryptor } from '@/utils/encryption/export-envelope';
 import type { StructuredAttemptLogger } from '@/utils/logging/structured-logger';
 import type { InterceptionManager } from '@/utils/managers/interception-manager';
 import type { NavigationManager } from '@/utils/managers/navigation-manager';
+import type { NativeHostResult, NativeHostWriteRequest } from '@/utils/native-host/native-host-contract';
 import type { AttemptDisposedMessage, ResponseLifecycleMessage } from '@/utils/protocol/messages';
 import type { AttemptCoordinatorDeps } from '@/utils/runner/attempt-coordinator';
 import type { AutoCaptureReason } from '@/utils/runner/auto-capture';
+import type { AutoExport } from '@/utils/runner/auto-export';
 import type { ButtonStateManagerDeps } from '@/utils/runner/button-state-manager';
 import type { CalibrationCaptureDeps } from '@/utils/runner/calibration-capture';
 import type { CalibrationOrchestrationDeps } from '@/utils/runner/calibration-orchestration';
 import type { CalibrationMode } from '@/utils/runner/calibration-policy';
 import type { CalibrationStep } from '@/utils/runner/calibration-runner';
+import type { ExternalApiBridge } from '@/utils/runner/external-api-bridge';
+import type { PageEvents } from '@/utils/runner/page-events';
 import type { CalibrationRuntimeDeps } from '@/utils/runner/runtime/platform-runtime-calibration';
 import type { RuntimeWiringDeps } from '@/utils/runner/runtime/platform-runtime-wiring';
 import type { RunnerCleanupDeps } from '@/utils/runner/runtime/runtime-cleanup';
@@ -17,9 +22,17 @@ import type { SavePipelineDeps } from '@/utils/runner/save-pipeline';
 import type { RunnerState } from '@/utils/runner/state';
 import type { RunnerStreamPreviewState } from '@/utils/runner/stream/stream-preview';
 import type { WarmFetchDeps, WarmFetchReason } from '@/utils/runner/warm-fetch';
+import type {
+    AutoExportSettings,
+    ExportFormat,
+    ExportFormatSettingsMap,
+    PageEventsSettings,
+    RedactionSettings,
+} from '@/utils/settings';
 import type { CrossTabProbeLease } from '@/utils/sfe/cross-tab-probe-lease';
 import type { SignalFusionEngine } from '@/utils/sfe/signal-fusion-engine';
 import type { ExportMeta, LifecyclePhase, PlatformReadiness, ReadinessDecision } from '@/utils/sfe/types';
+import type { WebhookExportPayload } from '@/utils/sinks/webhook-sink-contract';
 import type { ConversationData } from '@/utils/types';
 import type { ButtonManager } from '@/utils/ui/button-manager';
 
@@ -47,7 +60,19 @@ export type EngineCtx = {
     calibrationState: CalibrationUiState;
     activeAttemptId: string | null;
     sfeEnabled: boolean;
+    exportFormat: ExportFormat;
+    exportFormatSettings: ExportFormatSettingsMap;
     streamProbeVisible: boolean;
+    archiveEnabled: boolean;
+    autoExportSettings: AutoExportSettings;
+    externalApiEnabled: boolean;
+    /** True while the background has at least one external API port subscribed to events. */
+    externalApiSubscribed: boolean;
+    pageEventsSettings: PageEventsSettings;
+    webhookSinksEnabled: boolean;
+    nativeHostEnabled: boolean;
+    encryptionEnabled: boolean;
+    redactionSettings: RedactionSettings;
     cleanedUp: boolean;
     lastResponseFinishedAt: number;
     lastResponseFinishedConversationId: string | null;
@@ -146,6 +171,16 @@ export type EngineCtx = {
     getConversationData: (opts?: { silent?: boolean; allowDegraded?: boolean }) => Promise<ConversationData | null>;
     warmFetchConversationSnapshot: (cid: string, reason: WarmFetchReason) => Promise<boolean>;
     maybeRunAutoCapture: (cid: string, reason: AutoCaptureReason) => void;
+    archiveCanonicalConversation: (cid: string, data: ConversationData, contentHash: string) => void;
+    autoExport: AutoExport;
+    externalApi: ExternalApiBridge;
+    pageEvents: PageEvents;
+    /** Hands an export to the background webhook outbox. */
+    deliverToSinks: (payload: WebhookExportPayload) => void;
+    /** Asks the background to write an export through the native messaging host. */
+    writeToNativeHost: (request: NativeHostWriteRequest) => Promise<NativeHostResult>;
+    /** Fetches the session passphrase from the background; rejects when none is set. */
+    requestExportEncryptor: () => Promise<ExportEncryptor>;
     syncCalibrationButtonDisplay: () => void;
     ensureCalibrationPreferenceLoaded: (platformName: string) => Promise<void>;
     isCalibrationCaptureSatisfied: (cid: string, mode: CalibrationMode) => boolean;
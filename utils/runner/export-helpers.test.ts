@@ -1,5 +1,11 @@
 import { describe, expect, it } from 'bun:test';
-import { attachExportMeta, extractResponseTextFromConversation } from '@/utils/runner/export-helpers';
+import { toNormalizedConversation } from '@/utils/export/normalized';
+import {
+    attachBranchSummary,
+    attachExportMeta,
+    attachNormalizedConversation,
+    extractResponseTextFromConversation,
+} from '@/utils/runner/export-helpers';
 import type { ExportMeta } from '@/utils/sfe/types';
 import type { ConversationData } from '@/utils/types';
 
@@ -28,6 +34,38 @@ describe('export-helpers', () => {
         });
     });
 
+    describe('attachNormalizedConversation', () => {
+        it('should embed the normalized conversation next to exportMeta', () => {
+            const meta: ExportMeta = { captureSource: 'canonical_api', fidelity: 'high', completeness: 'complete' };
+            const conversation = {
+                title: 'T',
+                create_time: 1,
+                update_time: 1,
+                conversation_id: 'conv-1',
+                current_node: 'root',
+                mapping: { root: { id: 'root', message: null, parent: null, children: [] } },
+            } as unknown as ConversationData;
+            const normalized = toNormalizedConversation(conversation);
+
+            const result = attachNormalizedConversation(attachExportMeta(conversation, meta), normalized) as any;
+
+            expect(result.__blackiya.exportMeta).toEqual(meta);
+            expect(result.__blackiya.normalized).toBe(normalized);
+            expect(attachNormalizedConversation('raw', normalized)).toBe('raw');
+        });
+    });
+
+    describe('attachBranchSummary', () => {
+        it('should embed the branch summary under __blackiya.branches', () => {
+            const branches = [{ index: 0, leafId: 'a1', active: true, messageCount: 2, sharedWithActive: 2 }];
+
+            const result = attachBranchSummary({ title: 'T' }, branches) as any;
+
+            expect(result.__blackiya.branches).toBe(branches);
+            expect(attachBranchSummary(['raw'], branches)).toEqual(['raw']);
+        });
+    });
+
     describe('extractResponseTextFromConversation', () => {
         it('should return latest-turn assistant response text', () => {
             const data = {
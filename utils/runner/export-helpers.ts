@@ -4,14 +4,14 @@
  */
 
 import { extractAllAssistantText, extractLatestTurnPromptAndResponse } from '@/utils/conversation-inspection';
+import type { AttachmentPaths } from '@/utils/export/attachments';
+import type { BranchSummary } from '@/utils/export/branches';
+import type { NormalizedConversationV1 } from '@/utils/export/normalized';
+import type { RedactionSummary } from '@/utils/redaction/redaction';
 import type { ExportMeta } from '@/utils/sfe/types';
 import type { ConversationData } from '@/utils/types';
 
-/**
- * Merges export metadata into the `__blackiya.exportMeta` field of a payload object.
- * Non-object payloads are returned unchanged.
- */
-export const attachExportMeta = (payload: unknown, meta: ExportMeta): unknown => {
+const attachBlackiyaField = (payload: unknown, key: string, value: unknown): unknown => {
     if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
         return payload;
     }
@@ -24,11 +24,46 @@ export const attachExportMeta = (payload: unknown, meta: ExportMeta): unknown =>
         ...record,
         __blackiya: {
             ...existingBlackiya,
-            exportMeta: meta,
+            [key]: value,
         },
     };
 };
 
+/**
+ * Merges export metadata into the `__blackiya.exportMeta` field of a payload object.
+ * Non-object payloads are returned unchanged.
+ */
+export const attachExportMeta = (payload: unknown, meta: ExportMeta): unknown =>
+    attachBlackiyaField(payload, 'exportMeta', meta);
+
+/**
+ * Embeds the normalized (schema v1) conversation at `__blackiya.normalized`,
+ * next to `exportMeta`. Non-object payloads are returned unchanged.
+ */
+export const attachNormalizedConversation = (payload: unknown, normalized: NormalizedConversationV1): unknown =>
+    attachBlackiyaField(payload, 'normalized', normalized);
+
+/**
+ * Embeds the per-branch summary (regenerations/edits) at `__blackiya.branches`.
+ * Non-object payloads are returned unchanged.
+ */
+export const attachBranchSummary = (payload: unknown, branches: BranchSummary[]): unknown =>
+    attachBlackiyaField(payload, 'branches', branches);
+
+/**
+ * Records where bundled attachments were written (attachment ID → path relative
+ * to the export) at `__blackiya.attachments`. Non-object payloads are returned unchanged.
+ */
+export const attachAttachmentPaths = (payload: unknown, paths: AttachmentPaths): unknown =>
+    attachBlackiyaField(payload, 'attachments', paths);
+
+/**
+ * Records what the redaction stage replaced (counts per detector, never the
+ * matched text) at `__blackiya.redaction`. Non-object payloads are returned unchanged.
+ */
+export const attachRedactionSummary = (payload: unknown, summary: RedactionSummary): unknown =>
+    attachBlackiyaField(payload, 'redaction', summary);
+
 /**
  * Extracts human-readable response text from a ConversationData for display
  * in the stream probe panel. Prefers the latest turn's assistant response,
@@ -1,3 +1,5 @@
+import { type RedactionSummary, redactConversation } from '@/utils/redaction/redaction';
+import type { RedactionSettings } from '@/utils/settings';
 import { type ExportTitleSource, resolveExportConversationTitleDecision } from '@/utils/title-resolver';
 import type { ConversationData } from '@/utils/types';
 
@@ -6,3 +8,20 @@ export const applyResolvedExportTitle = (data: ConversationData): { title: strin
     data.title = titleDecision.title;
     return { title: titleDecision.title, source: titleDecision.source };
 };
+
+/**
+ * Redaction stage, run after the title is resolved and before the filename
+ * and serialization: returns the copy to export (the cached conversation is
+ * left as captured) and the summary to record, or `data` itself when
+ * redaction is off.
+ */
+export const applyExportRedaction = (
+    data: ConversationData,
+    settings: RedactionSettings | undefined,
+): { data: ConversationData; redaction?: RedactionSummary } => {
+    if (!settings?.enabled) {
+        return { data };
+    }
+    const { data: redacted, summary } = redactConversation(data, settings);
+    return { data: redacted, redaction: summary };
+};
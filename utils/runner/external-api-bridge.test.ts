@@ -0,0 +1,121 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { buildSimpleConversation } from '@/utils/export/__tests__/fixtures';
+import { EXTERNAL_TAB_REQUEST_MESSAGE } from '@/utils/protocol/external-api';
+import { createExternalApiBridge } from '@/utils/runner/external-api-bridge';
+import type { ExportFormat } from '@/utils/settings';
+import type { ConversationData } from '@/utils/types';
+
+const createDeps = () => {
+    const state = {
+        enabled: true,
+        subscribed: true,
+        ready: true,
+        conversation: buildSimpleConversation() as ConversationData | undefined,
+    };
+    return {
+        state,
+        deps: {
+            isEnabled: () => state.enabled,
+            hasSubscribers: () => state.subscribed,
+            getPlatformName: () => 'ChatGPT',
+            getCurrentConversationId: () => 'conv-export',
+            getConversation: () => state.conversation,
+            isCanonicalReady: () => state.ready,
+            peekAttemptId: () => 'attempt-1',
+            getCaptureMeta: () => ({
+                captureSource: 'canonical_api' as const,
+                fidelity: 'high' as const,
+                completeness: 'complete' as const,
+            }),
+            exportConversation: mock(
+                async (_data: ConversationData, format?: ExportFormat) => `chat.${format ?? 'json'}`,
+            ),
+            sendMessage: mock(async (_message: unknown) => undefined),
+        },
+    };
+};
+
+describe('external-api-bridge', () => {
+    it('should report conversation-ready once per content change', () => {
+        const { deps } = createDeps();
+        const bridge = createExternalApiBridge(deps);
+
+        bridge.publishConversationReady('conv-export', buildSimpleConversation(), 'hash-1');
+        bridge.publishConversationReady('conv-export', buildSimpleConversation(), 'hash-1');
+        expect(deps.sendMessage).toHaveBeenCalledTimes(1);
+        expect(deps.sendMessage.mock.calls[0]?.[0]).toMatchObject({
+            type: 'BLACKIYA_EXTERNAL_EVENT',
+            event: { event: 'conversation-ready', platform: 'ChatGPT', attemptId: 'attempt-1' },
+        });
+
+        bridge.publishConversationReady('conv-export', buildSimpleConversation({ title: 'Renamed' }), 'hash-2');
+        expect(deps.sendMessage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stay silent while no extension is allowlisted', async () => {
+        const { deps, state } = createDeps();
+        state.enabled = false;
+        const bridge = createExternalApiBridge(deps);
+
+        bridge.publishConversationReady('conv-export', buildSimpleConversation(), 'hash-1');
+        bridge.publishLifecycle('streaming', 'conv-export', 'attempt-1');
+        expect(deps.sendMessage).not.toHaveBeenCalled();
+        expect(
+            await bridge.handleTabRequest({ type: EXTERNAL_TAB_REQUEST_MESSAGE, action: 'conversation.get' }),
+        ).toEqual({
+            ok: false,
+            code: 'unavailable',
+            message: 'The external API is disabled',
+        });
+    });
+
+    it('should not report events without subscribers but keep serving requests', async () => {
+        const { deps, state } = createDeps();
+        state.subscribed = false;
+        const bridge = createExternalApiBridge(deps);
+
+        bridge.publishConversationReady('conv-export', buildSimpleConversation(), 'hash-1');
+        bridge.publishLifecycle('streaming', 'conv-export', 'attempt-1');
+        expect(deps.sendMessage).not.toHaveBeenCalled();
+        expect(
+            await bridge.handleTabRequest({ type: EXTERNAL_TAB_REQUEST_MESSAGE, action: 'conversation.get' }),
+        ).toMatchObject({ ok: true });
+
+        state.subscribed = true;
+        bridge.publishConversationReady('conv-export', buildSimpleConversation(), 'hash-1');
+        expect(deps.sendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should serve only canonical-ready conversations', async () => {
+        const { deps, state } = createDeps();
+        const bridge = createExternalApiBridge(deps);
+
+        const response = await bridge.handleTabRequest({
+            type: EXTERNAL_TAB_REQUEST_MESSAGE,
+            action: 'conversation.get',
+        });
+        expect(response).toMatchObject({
+            ok: true,
+            conversation: { conversationId: 'conv-export', platform: 'ChatGPT' },
+        });
+
+        state.ready = false;
+        expect(
+            await bridge.handleTabRequest({ type: EXTERNAL_TAB_REQUEST_MESSAGE, action: 'export.trigger' }),
+        ).toMatchObject({ ok: false, code: 'not_ready' });
+        expect(deps.exportConversation).not.toHaveBeenCalled();
+    });
+
+    it('should export in the requested format', async () => {
+        const { deps } = createDeps();
+        const bridge = createExternalApiBridge(deps);
+
+        expect(
+            await bridge.handleTabRequest({
+                type: EXTERNAL_TAB_REQUEST_MESSAGE,
+                action: 'export.trigger',
+                format: 'html',
+            }),
+        ).toEqual({ ok: true, filename: 'chat.html' });
+    });
+});
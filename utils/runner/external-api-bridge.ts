@@ -0,0 +1,139 @@
+/**
+ * External API Bridge
+ *
+ * Content-script side of the external extension API. While at least one
+ * extension is allowlisted and the background has a subscribed events port,
+ * it reports `conversation-ready` (once per content hash, like the archive
+ * sync) and lifecycle transitions to the background, and it serves the background's per-tab requests: the current canonical
+ * conversation, or a quiet export of it.
+ *
+ * @module utils/runner/external-api-bridge
+ */
+
+import { setBoundedMapValue } from '@/utils/bounded-collections';
+import { logger } from '@/utils/logger';
+import {
+    EXTERNAL_EVENT_MESSAGE,
+    type ExternalLifecycleEvent,
+    type ExternalTabEventMessage,
+    type ExternalTabRequestMessage,
+    type ExternalTabResponse,
+} from '@/utils/protocol/external-api';
+import type { ExportFormat } from '@/utils/settings';
+import type { ExportMeta } from '@/utils/sfe/types';
+import type { ConversationData } from '@/utils/types';
+
+const MAX_TRACKED_CONVERSATIONS = 200;
+
+export type ExternalApiBridgeDeps = {
+    /** True while the external API allowlist is non-empty. */
+    isEnabled: () => boolean;
+    /** True while the background has at least one events port subscribed. */
+    hasSubscribers: () => boolean;
+    getPlatformName: () => string | null;
+    getCurrentConversationId: () => string | null;
+    getConversation: (conversationId: string) => ConversationData | undefined;
+    /** True only for `canonical_ready` with no generation in flight. */
+    isCanonicalReady: (conversationId: string) => boolean;
+    peekAttemptId: (conversationId: string) => string | null;
+    getCaptureMeta: (conversationId: string) => ExportMeta;
+    /** Exports without UI side effects and returns the downloaded file name. */
+    exportConversation: (data: ConversationData, format?: ExportFormat) => Promise<string>;
+    sendMessage: (message: ExternalTabEventMessage) => Promise<unknown>;
+};
+
+export const createExternalApiBridge = (deps: ExternalApiBridgeDeps) => {
+    const publishedHashByConversation = new Map<string, string>();
+
+    const send = (event: ExternalTabEventMessage['event']) => {
+        void deps.sendMessage({ type: EXTERNAL_EVENT_MESSAGE, event }).catch((error) => {
+            logger.debug('Failed to report external API event', { event: event.event, error });
+        });
+    };
+
+    /** The platform name while events have somewhere to go. */
+    const resolvePublishingPlatform = () => {
+        const platform = deps.getPlatformName();
+        return deps.isEnabled() && deps.hasSubscribers() ? platform : null;
+    };
+
+    const publishConversationReady = (conversationId: string, data: ConversationData, contentHash: string) => {
+        const platform = resolvePublishingPlatform();
+        if (!platform) {
+            return;
+        }
+        if (publishedHashByConversation.get(conversationId) === contentHash) {
+            return;
+        }
+        setBoundedMapValue(publishedHashByConversation, conversationId, contentHash, MAX_TRACKED_CONVERSATIONS);
+        send({
+            event: 'conversation-ready',
+            platform,
+            conversationId,
+            attemptId: deps.peekAttemptId(conversationId),
+            exportMeta: deps.getCaptureMeta(conversationId),
+            conversation: data,
+        });
+    };
+
+    const publishLifecycle = (
+        phase: ExternalLifecycleEvent['phase'],
+        conversationId: string | null,
+        attemptId: string | null,
+    ) => {
+        const platform = resolvePublishingPlatform();
+        if (!platform) {
+            return;
+        }
+        send({ event: 'lifecycle', platform, conversationId, attemptId, phase });
+    };
+
+    /** Resolves the tab's current conversation, or the reason it can't be served. */
+    const resolveCanonicalConversation = ():
+        | { conversationId: string; data: ConversationData; platform: string }
+        | Extract<ExternalTabResponse, { ok: false }> => {
+        const platform = deps.getPlatformName();
+        const conversationId = deps.getCurrentConversationId();
+        const data = conversationId ? deps.getConversation(conversationId) : undefined;
+        if (!platform || !conversationId || !data) {
+            return { ok: false, code: 'not_ready', message: 'No conversation has been captured in this tab' };
+        }
+        if (!deps.isCanonicalReady(conversationId)) {
+            return { ok: false, code: 'not_ready', message: 'The conversation is not canonical-ready yet' };
+        }
+        return { conversationId, data, platform };
+    };
+
+    const handleTabRequest = async (message: ExternalTabRequestMessage): Promise<ExternalTabResponse> => {
+        if (!deps.isEnabled()) {
+            return { ok: false, code: 'unavailable', message: 'The external API is disabled' };
+        }
+        const resolved = resolveCanonicalConversation();
+        if ('ok' in resolved) {
+            return resolved;
+        }
+        const { conversationId, data, platform } = resolved;
+        if (message.action === 'conversation.get') {
+            return {
+                ok: true,
+                conversation: {
+                    platform,
+                    conversationId,
+                    attemptId: deps.peekAttemptId(conversationId),
+                    exportMeta: deps.getCaptureMeta(conversationId),
+                    conversation: data,
+                },
+            };
+        }
+        try {
+            return { ok: true, filename: await deps.exportConversation(data, message.format) };
+        } catch (error) {
+            logger.warn('External API export failed', { conversationId, error });
+            return { ok: false, code: 'unavailable', message: error instanceof Error ? error.message : String(error) };
+        }
+    };
+
+    return { publishConversationReady, publishLifecycle, handleTabRequest };
+};
+
+export type ExternalApiBridge = ReturnType<typeof createExternalApiBridge>;
@@ -0,0 +1,78 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { buildSimpleConversation } from '@/utils/export/__tests__/fixtures';
+import type { PageEventName } from '@/utils/protocol/page-events';
+import { createPageEvents } from '@/utils/runner/page-events';
+import type { PageEventsRule } from '@/utils/settings';
+
+const createDeps = (rules: Record<string, PageEventsRule>) => {
+    const dispatched: Array<{ type: PageEventName; detail: any }> = [];
+    return {
+        dispatched,
+        deps: {
+            getPlatformName: () => 'ChatGPT',
+            getRule: (platform: string) => rules[platform] ?? { enabled: false, includeConversation: false },
+            peekAttemptId: () => 'attempt-1',
+            getCaptureMeta: () => ({
+                captureSource: 'canonical_api' as const,
+                fidelity: 'high' as const,
+                completeness: 'complete' as const,
+            }),
+            dispatch: mock((type: PageEventName, detail: string) => {
+                dispatched.push({ type, detail: JSON.parse(detail) });
+            }),
+        },
+    };
+};
+
+describe('page-events', () => {
+    it('should not dispatch on sites that were not opted in', () => {
+        const { deps } = createDeps({});
+        const pageEvents = createPageEvents(deps);
+
+        pageEvents.publishConversationReady('conv-export', buildSimpleConversation(), 'hash-1');
+        pageEvents.publishLifecycle('completed', 'conv-export', 'attempt-1');
+
+        expect(deps.dispatch).not.toHaveBeenCalled();
+    });
+
+    it('should dispatch conversation-ready once per content change without the conversation by default', () => {
+        const { deps, dispatched } = createDeps({ ChatGPT: { enabled: true, includeConversation: false } });
+        const pageEvents = createPageEvents(deps);
+
+        pageEvents.publishConversationReady('conv-export', buildSimpleConversation(), 'hash-1');
+        pageEvents.publishConversationReady('conv-export', buildSimpleConversation(), 'hash-1');
+        pageEvents.publishConversationReady('conv-export', buildSimpleConversation({ title: 'Renamed' }), 'hash-2');
+
+        expect(dispatched).toHaveLength(2);
+        expect(dispatched[0]).toEqual({
+            type: 'blackiya:conversation-ready',
+            detail: {
+                version: 1,
+                platform: 'ChatGPT',
+                conversationId: 'conv-export',
+                attemptId: 'attempt-1',
+                exportMeta: { captureSource: 'canonical_api', fidelity: 'high', completeness: 'complete' },
+            },
+        });
+    });
+
+    it('should attach the conversation and report lifecycle phases when the site allows it', () => {
+        const { deps, dispatched } = createDeps({ ChatGPT: { enabled: true, includeConversation: true } });
+        const pageEvents = createPageEvents(deps);
+
+        pageEvents.publishLifecycle('streaming', 'conv-export', 'attempt-1');
+        pageEvents.publishConversationReady('conv-export', buildSimpleConversation(), 'hash-1');
+
+        expect(dispatched[0]).toEqual({
+            type: 'blackiya:lifecycle',
+            detail: {
+                version: 1,
+                platform: 'ChatGPT',
+                conversationId: 'conv-export',
+                attemptId: 'attempt-1',
+                phase: 'streaming',
+            },
+        });
+        expect(dispatched[1]?.detail.conversation.conversation_id).toBe('conv-export');
+    });
+});
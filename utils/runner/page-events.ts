@@ -0,0 +1,88 @@
+/**
+ * Page Events
+ *
+ * Dispatches the documented in-page `blackiya:*` events
+ * (`utils/protocol/page-events.ts`) for userscripts on sites the user has
+ * opted in. `blackiya:conversation-ready` follows canonical readiness and, like
+ * the archive sync, fires once per conversation content hash.
+ *
+ * @module utils/runner/page-events
+ */
+
+import { setBoundedMapValue } from '@/utils/bounded-collections';
+import { logger } from '@/utils/logger';
+import {
+    PAGE_EVENT_CONVERSATION_READY,
+    PAGE_EVENT_LIFECYCLE,
+    PAGE_EVENTS_VERSION,
+    type PageConversationReadyDetail,
+    type PageEventName,
+    type PageLifecycleDetail,
+} from '@/utils/protocol/page-events';
+import type { PageEventsRule } from '@/utils/settings';
+import type { ExportMeta } from '@/utils/sfe/types';
+import type { ConversationData } from '@/utils/types';
+
+const MAX_TRACKED_CONVERSATIONS = 200;
+
+export type PageEventsDeps = {
+    getPlatformName: () => string | null;
+    getRule: (platform: string) => PageEventsRule;
+    peekAttemptId: (conversationId: string) => string | null;
+    getCaptureMeta: (conversationId: string) => ExportMeta;
+    /** Dispatches a `CustomEvent` with the serialized detail on the page's `window`. */
+    dispatch: (type: PageEventName, detail: string) => void;
+};
+
+export const createPageEvents = (deps: PageEventsDeps) => {
+    const dispatchedHashByConversation = new Map<string, string>();
+
+    /** The platform name when its site is opted in. */
+    const resolveEnabledPlatform = () => {
+        const platform = deps.getPlatformName();
+        return platform && deps.getRule(platform).enabled ? platform : null;
+    };
+
+    const dispatch = (type: PageEventName, detail: PageConversationReadyDetail | PageLifecycleDetail) => {
+        try {
+            deps.dispatch(type, JSON.stringify(detail));
+        } catch (error) {
+            logger.warn('Failed to dispatch page event', { type, error });
+        }
+    };
+
+    const publishConversationReady = (conversationId: string, data: ConversationData, contentHash: string) => {
+        const platform = resolveEnabledPlatform();
+        if (!platform) {
+            return;
+        }
+        if (dispatchedHashByConversation.get(conversationId) === contentHash) {
+            return;
+        }
+        setBoundedMapValue(dispatchedHashByConversation, conversationId, contentHash, MAX_TRACKED_CONVERSATIONS);
+        dispatch(PAGE_EVENT_CONVERSATION_READY, {
+            version: PAGE_EVENTS_VERSION,
+            platform,
+            conversationId,
+            attemptId: deps.peekAttemptId(conversationId),
+            exportMeta: deps.getCaptureMeta(conversationId),
+            ...(deps.getRule(platform).includeConversation ? { conversation: data } : {}),
+        });
+    };
+
+    const publishLifecycle = (
+        phase: PageLifecycleDetail['phase'],
+        conversationId: string | null,
+        attemptId: string | null,
+    ) => {
+        const platform = resolveEnabledPlatform();
+        if (!platform) {
+            return;
+        }
+        dispatch(PAGE_EVENT_LIFECYCLE, { version: PAGE_EVENTS_VERSION, platform, conversationId, attemptId, phase });
+    };
+
+    return { publishConversationReady, publishLifecycle };
+};
+
+export type PageEvents = ReturnType<typeof createPageEvents>;
@@ -35,6 +35,7 @@ export type RunnerCleanupDeps = {
     cleanupWindowBridge: (() => void) | null;
     cleanupCompletionWatcher: (() => void) | null;
     cleanupButtonHealthCheck: (() => void) | null;
+    cleanupAutoExport?: () => void;
     cleanupRuntimeMessageListener: (() => void) | null;
     removeStorageChangeListener: () => void;
 
@@ -76,6 +77,7 @@ export const createCleanupRuntime = (deps: RunnerCleanupDeps) => {
             deps.cleanupWindowBridge?.();
             deps.cleanupCompletionWatcher?.();
             deps.cleanupButtonHealthCheck?.();
+            deps.cleanupAutoExport?.();
             deps.cleanupRuntimeMessageListener?.();
             deps.removeStorageChangeListener();
 
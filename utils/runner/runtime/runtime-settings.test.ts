@@ -1,17 +1,20 @@
 import { afterEach, describe, expect, it, mock } from 'bun:test';
 import {
+    createExportFormatToggleHandler,
     createStorageChangeListener,
     createVisibilityChangeHandler,
+    getNextExportFormat,
     loadStreamProbeVisibilitySetting,
     scheduleButtonInjectionRetries,
 } from '@/utils/runner/runtime/runtime-settings';
-import { STORAGE_KEYS } from '@/utils/settings';
+import { type ExportFormat, STORAGE_KEYS } from '@/utils/settings';
 
 mock.module('wxt/browser', () => ({
     browser: {
         storage: {
             local: {
                 get: mock(async () => ({})),
+                set: mock(async () => {}),
             },
             sync: {
                 get: mock(async () => ({})),
@@ -30,6 +33,8 @@ describe('runtime-settings', () => {
                 setStreamProbeVisible: mock(() => {}),
                 removeStreamProbePanel: mock(() => {}),
                 setSfeEnabled: mock(() => {}),
+                setExportFormat: mock(() => {}),
+                setExportFormatSettings: mock(() => {}),
                 refreshButtonState: mock(() => {}),
                 getCurrentConversationId: mock(() => 'conv-1'),
                 hasAdapter: mock(() => true),
@@ -55,6 +60,173 @@ describe('runtime-settings', () => {
             expect(deps.setSfeEnabled).toHaveBeenCalledWith(false);
             expect(deps.refreshButtonState).toHaveBeenCalledWith('conv-1');
         });
+
+        it('should toggle the archive setting only for an explicit true', () => {
+            const setArchiveEnabled = mock((_enabled: boolean) => {});
+            const listener = createStorageChangeListener({
+                setStreamProbeVisible: mock(() => {}),
+                removeStreamProbePanel: mock(() => {}),
+                setSfeEnabled: mock(() => {}),
+                setExportFormat: mock(() => {}),
+                setExportFormatSettings: mock(() => {}),
+                setArchiveEnabled,
+                refreshButtonState: mock(() => {}),
+                getCurrentConversationId: mock(() => null),
+                hasAdapter: mock(() => true),
+                handleCalibrationProfilesChanged: mock(() => {}),
+            });
+
+            listener({ [STORAGE_KEYS.ARCHIVE_ENABLED]: { newValue: true as any } }, 'local');
+            listener({ [STORAGE_KEYS.ARCHIVE_ENABLED]: { newValue: 'yes' as any } }, 'local');
+
+            expect(setArchiveEnabled.mock.calls).toEqual([[true], [false]]);
+        });
+
+        it('should track whether external API events have subscribers', () => {
+            const setExternalApiSubscribed = mock((_subscribed: boolean) => {});
+            const listener = createStorageChangeListener({
+                setStreamProbeVisible: mock(() => {}),
+                removeStreamProbePanel: mock(() => {}),
+                setSfeEnabled: mock(() => {}),
+                setExportFormat: mock(() => {}),
+                setExportFormatSettings: mock(() => {}),
+                setExternalApiSubscribed,
+                refreshButtonState: mock(() => {}),
+                getCurrentConversationId: mock(() => null),
+                hasAdapter: mock(() => true),
+                handleCalibrationProfilesChanged: mock(() => {}),
+            });
+
+            listener({ [STORAGE_KEYS.EXTERNAL_API_SUBSCRIBED]: { newValue: true as any } }, 'local');
+            listener({ [STORAGE_KEYS.EXTERNAL_API_SUBSCRIBED]: { oldValue: true as any } }, 'local');
+
+            expect(setExternalApiSubscribed.mock.calls).toEqual([[true], [false]]);
+        });
+
+        it('should forward normalized auto-export settings', () => {
+            const setAutoExportSettings = mock((_settings: unknown) => {});
+            const listener = createStorageChangeListener({
+                setStreamProbeVisible: mock(() => {}),
+                removeStreamProbePanel: mock(() => {}),
+                setSfeEnabled: mock(() => {}),
+                setExportFormat: mock(() => {}),
+                setExportFormatSettings: mock(() => {}),
+                setAutoExportSettings,
+                refreshButtonState: mock(() => {}),
+                getCurrentConversationId: mock(() => null),
+                hasAdapter: mock(() => true),
+                handleCalibrationProfilesChanged: mock(() => {}),
+            });
+
+            listener(
+                {
+                    [STORAGE_KEYS.AUTO_EXPORT]: {
+                        newValue: { enabled: true, platforms: { Grok: { enabled: false } } },
+                    },
+                },
+                'local',
+            );
+
+            expect(setAutoExportSettings).toHaveBeenCalledWith({
+                enabled: true,
+                filenameMode: 'same-name',
+                platforms: { Grok: { enabled: false } },
+            });
+        });
+
+        it('should forward normalized page event rules', () => {
+            const setPageEventsSettings = mock((_settings: unknown) => {});
+            const listener = createStorageChangeListener({
+                setStreamProbeVisible: mock(() => {}),
+                removeStreamProbePanel: mock(() => {}),
+                setSfeEnabled: mock(() => {}),
+                setExportFormat: mock(() => {}),
+                setExportFormatSettings: mock(() => {}),
+                setPageEventsSettings,
+                refreshButtonState: mock(() => {}),
+                getCurrentConversationId: mock(() => null),
+                hasAdapter: mock(() => true),
+                handleCalibrationProfilesChanged: mock(() => {}),
+            });
+
+            listener({ [STORAGE_KEYS.PAGE_EVENTS]: { newValue: { Claude: { enabled: true } } } }, 'local');
+
+            expect(setPageEventsSettings).toHaveBeenCalledWith({
+                Claude: { enabled: true, includeConversation: false },
+            });
+        });
+    });
+
+    describe('export format', () => {
+        it('should cycle through export formats', () => {
+            expect(getNextExportFormat('json')).toBe('json-normalized');
+            expect(getNextExportFormat('jsonl')).toBe('json');
+        });
+
+        it('should switch to the next format when toggled', async () => {
+            const state: { format: ExportFormat } = { format: 'json' };
+            const setExportFormat = mock((next: ExportFormat) => {
+                state.format = next;
+            });
+            const toggle = createExportFormatToggleHandler({
+                getExportFormat: () => state.format,
+                setExportFormat,
+                setExportFormatSettings: mock(() => {}),
+            });
+
+            await toggle();
+
+            expect(setExportFormat).toHaveBeenCalledWith('json-normalized');
+            expect(state.format).toBe('json-normalized');
+        });
+
+        it('should apply export format changes from local storage', () => {
+            const deps = {
+                setStreamProbeVisible: mock(() => {}),
+                removeStreamProbePanel: mock(() => {}),
+                setSfeEnabled: mock(() => {}),
+                setExportFormat: mock(() => {}),
+                setExportFormatSettings: mock(() => {}),
+                refreshButtonState: mock(() => {}),
+                getCurrentConversationId: mock(() => null),
+                hasAdapter: mock(() => true),
+                handleCalibrationProfilesChanged: mock(() => {}),
+            };
+
+            const listener = createStorageChangeListener(deps);
+            listener({ [STORAGE_KEYS.EXPORT_FORMAT]: { newValue: 'markdown' as any } }, 'local');
+            listener({ [STORAGE_KEYS.EXPORT_FORMAT]: { newValue: 'docx' as any } }, 'local');
+
+            expect(deps.setExportFormat).toHaveBeenNthCalledWith(1, 'markdown');
+            expect(deps.setExportFormat).toHaveBeenNthCalledWith(2, 'json');
+        });
+
+        it('should apply per-format settings changes from local storage', () => {
+            const deps = {
+                setStreamProbeVisible: mock(() => {}),
+                removeStreamProbePanel: mock(() => {}),
+                setSfeEnabled: mock(() => {}),
+                setExportFormat: mock(() => {}),
+                setExportFormatSettings: mock(() => {}),
+                refreshButtonState: mock(() => {}),
+                getCurrentConversationId: mock(() => null),
+                hasAdapter: mock(() => true),
+                handleCalibrationProfilesChanged: mock(() => {}),
+            };
+
+            const listener = createStorageChangeListener(deps);
+            listener(
+                {
+                    [STORAGE_KEYS.EXPORT_FORMAT_SETTINGS]: {
+                        newValue: { markdown: { includeThoughts: false, bogus: 1 }, docx: {} } as any,
+                    },
+                },
+                'local',
+            );
+
+            expect(deps.setExportFormatSettings).toHaveBeenCalledWith({ markdown: { includeThoughts: false } });
+            expect(deps.setExportFormat).not.toHaveBeenCalled();
+        });
     });
 
     describe('loadStreamProbeVisibilitySetting', () => {
@@ -113,6 +285,8 @@ describe('runtime-settings', () => {
                 setStreamProbeVisible: mock(() => {}),
                 removeStreamProbePanel: mock(() => {}),
                 setSfeEnabled: mock(() => {}),
+                setExportFormat: mock(() => {}),
+                setExportFormatSettings: mock(() => {}),
                 refreshButtonState: mock(() => {}),
                 getCurrentConversationId: mock(() => null),
                 hasAdapter: mock(() => true),
@@ -136,6 +310,8 @@ describe('runtime-settings', () => {
                 setStreamProbeVisible: mock(() => {}),
                 removeStreamProbePanel: mock(() => {}),
                 setSfeEnabled: mock(() => {}),
+                setExportFormat: mock(() => {}),
+                setExportFormatSettings: mock(() => {}),
                 refreshButtonState: mock(() => {}),
                 getCurrentConversationId: mock(() => null),
                 hasAdapter: mock(() => false),
@@ -158,6 +334,8 @@ describe('runtime-settings', () => {
                 setStreamProbeVisible: mock(() => {}),
                 removeStreamProbePanel: mock(() => {}),
                 setSfeEnabled: mock(() => {}),
+                setExportFormat: mock(() => {}),
+                setExportFormatSettings: mock(() => {}),
                 refreshButtonState: mock(() => {}),
                 getCurrentConversationId: mock(() => null),
                 hasAdapter: mock(() => false),
@@ -181,6 +359,8 @@ describe('runtime-settings', () => {
                 setStreamProbeVisible: mock(() => {}),
                 removeStreamProbePanel: mock(() => {}),
                 setSfeEnabled: mock(() => {}),
+                setExportFormat: mock(() => {}),
+                setExportFormatSettings: mock(() => {}),
                 refreshButtonState: mock(() => {}),
                 getCurrentConversationId: mock(() => null),
                 hasAdapter: mock(() => false),
@@ -1,7 +1,24 @@
 import { browser } from 'wxt/browser';
 import { logger } from '@/utils/logger';
 import type { RawCaptureSnapshot } from '@/utils/runner/calibration-capture';
-import { STORAGE_KEYS } from '@/utils/settings';
+import {
+    type AutoExportSettings,
+    EXPORT_FORMATS,
+    type ExportFormat,
+    type ExportFormatSettingsMap,
+    loadExportFormatSetting,
+    loadExportFormatSettingsMap,
+    normalizeAutoExportSettings,
+    normalizeExportFormatSettingsMap,
+    normalizeExportFormatValue,
+    normalizeExternalApiAllowedIds,
+    normalizePageEventsSettings,
+    normalizeRedactionSettings,
+    normalizeWebhookSinks,
+    type PageEventsSettings,
+    type RedactionSettings,
+    STORAGE_KEYS,
+} from '@/utils/settings';
 import type { ReadinessDecision } from '@/utils/sfe/types';
 import type { ConversationData } from '@/utils/types';
 
@@ -24,16 +41,103 @@ export const loadStreamProbeVisibilitySetting = async (deps: StreamProbeVisibili
     }
 };
 
+export type ExportFormatSettingDeps = {
+    getExportFormat: () => ExportFormat;
+    setExportFormat: (format: ExportFormat) => void;
+    setExportFormatSettings: (settings: ExportFormatSettingsMap) => void;
+};
+
+export const loadExportFormatPreference = async (deps: ExportFormatSettingDeps) => {
+    const [format, settings] = await Promise.all([loadExportFormatSetting(), loadExportFormatSettingsMap()]);
+    deps.setExportFormat(format);
+    deps.setExportFormatSettings(settings);
+};
+
+export const getNextExportFormat = (current: ExportFormat): ExportFormat => {
+    const index = EXPORT_FORMATS.indexOf(current);
+    return EXPORT_FORMATS[(index + 1) % EXPORT_FORMATS.length] ?? EXPORT_FORMATS[0];
+};
+
+/**
+ * Builds the in-page format toggle handler. The new format is applied
+ * locally right away and persisted so the popup (and other tabs) follow.
+ */
+export const createExportFormatToggleHandler = (deps: ExportFormatSettingDeps) => async () => {
+    const next = getNextExportFormat(deps.getExportFormat());
+    deps.setExportFormat(next);
+    try {
+        await browser.storage.local.set({ [STORAGE_KEYS.EXPORT_FORMAT]: next });
+    } catch (error) {
+        logger.warn('Failed to persist export format setting', error);
+    }
+};
+
 export type StorageChangeListenerDeps = {
     setStreamProbeVisible: (visible: boolean) => void;
     removeStreamProbePanel: () => void;
     setSfeEnabled: (enabled: boolean) => void;
+    setExportFormat: (format: ExportFormat) => void;
+    setExportFormatSettings: (settings: ExportFormatSettingsMap) => void;
+    setArchiveEnabled?: (enabled: boolean) => void;
+    setAutoExportSettings?: (settings: AutoExportSettings) => void;
+    setExternalApiEnabled?: (enabled: boolean) => void;
+    setExternalApiSubscribed?: (subscribed: boolean) => void;
+    setPageEventsSettings?: (settings: PageEventsSettings) => void;
+    setWebhookSinksEnabled?: (enabled: boolean) => void;
+    setNativeHostEnabled?: (enabled: boolean) => void;
+    setEncryptionEnabled?: (enabled: boolean) => void;
+    setRedactionSettings?: (settings: RedactionSettings) => void;
     refreshButtonState: (conversationId?: string) => void;
     getCurrentConversationId: () => string | null;
     hasAdapter: () => boolean;
     handleCalibrationProfilesChanged: () => void;
 };
 
+type StorageChanges = Parameters<Parameters<typeof browser.storage.onChanged.addListener>[0]>[0];
+
+const applyExportFormatChanges = (changes: StorageChanges, deps: StorageChangeListenerDeps) => {
+    if (changes[STORAGE_KEYS.EXPORT_FORMAT]) {
+        deps.setExportFormat(normalizeExportFormatValue(changes[STORAGE_KEYS.EXPORT_FORMAT]?.newValue));
+    }
+    if (changes[STORAGE_KEYS.EXPORT_FORMAT_SETTINGS]) {
+        deps.setExportFormatSettings(
+            normalizeExportFormatSettingsMap(changes[STORAGE_KEYS.EXPORT_FORMAT_SETTINGS]?.newValue),
+        );
+    }
+};
+
+const applyIntegrationChanges = (changes: StorageChanges, deps: StorageChangeListenerDeps) => {
+    if (changes[STORAGE_KEYS.ARCHIVE_ENABLED]) {
+        deps.setArchiveEnabled?.(changes[STORAGE_KEYS.ARCHIVE_ENABLED]?.newValue === true);
+    }
+    if (changes[STORAGE_KEYS.AUTO_EXPORT]) {
+        deps.setAutoExportSettings?.(normalizeAutoExportSettings(changes[STORAGE_KEYS.AUTO_EXPORT]?.newValue));
+    }
+    if (changes[STORAGE_KEYS.EXTERNAL_API_ALLOWED_IDS]) {
+        const allowedIds = normalizeExternalApiAllowedIds(changes[STORAGE_KEYS.EXTERNAL_API_ALLOWED_IDS]?.newValue);
+        deps.setExternalApiEnabled?.(allowedIds.length > 0);
+    }
+    if (changes[STORAGE_KEYS.EXTERNAL_API_SUBSCRIBED]) {
+        deps.setExternalApiSubscribed?.(changes[STORAGE_KEYS.EXTERNAL_API_SUBSCRIBED]?.newValue === true);
+    }
+    if (changes[STORAGE_KEYS.PAGE_EVENTS]) {
+        deps.setPageEventsSettings?.(normalizePageEventsSettings(changes[STORAGE_KEYS.PAGE_EVENTS]?.newValue));
+    }
+    if (changes[STORAGE_KEYS.WEBHOOK_SINKS]) {
+        const sinks = normalizeWebhookSinks(changes[STORAGE_KEYS.WEBHOOK_SINKS]?.newValue);
+        deps.setWebhookSinksEnabled?.(sinks.some((sink) => sink.enabled));
+    }
+    if (changes[STORAGE_KEYS.NATIVE_HOST_ENABLED]) {
+        deps.setNativeHostEnabled?.(changes[STORAGE_KEYS.NATIVE_HOST_ENABLED]?.newValue === true);
+    }
+    if (changes[STORAGE_KEYS.ENCRYPTION_ENABLED]) {
+        deps.setEncryptionEnabled?.(changes[STORAGE_KEYS.ENCRYPTION_ENABLED]?.newValue === true);
+    }
+    if (changes[STORAGE_KEYS.REDACTION]) {
+        deps.setRedactionSettings?.(normalizeRedactionSettings(changes[STORAGE_KEYS.REDACTION]?.newValue));
+    }
+};
+
 export const createStorageChangeListener = (deps: StorageChangeListenerDeps) => {
     const listener: Parameters<typeof browser.storage.onChanged.addListener>[0] = (changes, areaName) => {
         if (areaName !== 'local') {
@@ -50,6 +154,8 @@ export const createStorageChangeListener = (deps: StorageChangeListenerDeps) =>
             deps.setSfeEnabled(changes[STORAGE_KEYS.SFE_ENABLED]?.newValue !== false);
             deps.refreshButtonState(deps.getCurrentConversationId() ?? undefined);
         }
+        applyExportFormatChanges(changes, deps);
+        applyIntegrationChanges(changes, deps);
         if (changes[STORAGE_KEYS.CALIBRATION_PROFILES] && deps.hasAdapter()) {
             deps.handleCalibrationProfilesChanged();
         }
@@ -1,11 +1,16 @@
 import { beforeEach, describe, expect, it, mock } from 'bun:test';
+import { createExportEncryptor, decryptExportEnvelope, parseExportEnvelope } from '@/utils/encryption/export-envelope';
+import { MISSING_EXPORT_PASSPHRASE_ERROR } from '@/utils/encryption/export-passphrase';
 import { buildLoggerMock, createLoggerCalls } from '@/utils/runner/__tests__/helpers';
 import {
     applyTitleDomFallbackIfNeeded,
+    exportConversationQuietly,
     getConversationData,
     recoverCanonicalBeforeForceSave,
     resolveSaveReadiness,
+    saveConversation,
 } from '@/utils/runner/save-pipeline';
+import { DEFAULT_REDACTION_SETTINGS } from '@/utils/settings';
 
 const logCalls = createLoggerCalls();
 mock.module('@/utils/logger', () => buildLoggerMock(logCalls));
@@ -46,6 +51,8 @@ describe('save-pipeline', () => {
             ingestInterceptedData: mock(() => {}),
             getRawSnapshotReplayUrls: mock((_conversationId: string, snapshot: { url: string }) => [snapshot.url]),
             getPlatformName: mock(() => 'ChatGPT'),
+            getExportFormat: mock(() => 'json'),
+            getExportFormatSettings: mock(() => ({})),
             buttonManagerExists: mock(() => true),
             buttonManagerSetLoading: mock(() => {}),
             buttonManagerSetSuccess: mock(() => {}),
@@ -174,4 +181,137 @@ describe('save-pipeline', () => {
             expect(data.title).toBe('Stream Title');
         });
     });
+
+    describe('local folder writes', () => {
+        const buildData = (): any => ({
+            conversation_id: 'conv-1',
+            title: 'Weekly Plan',
+            create_time: Date.UTC(2026, 2, 14) / 1000,
+            update_time: Date.UTC(2026, 4, 1) / 1000,
+            mapping: {},
+        });
+
+        it('should write through the native host and reflect the path on the Save button', async () => {
+            deps.getAdapter = mock(() => ({ name: 'ChatGPT', formatFilename: () => 'Weekly_Plan_2026-03-14' }));
+            deps.writeToNativeHost = mock(async () => ({ ok: true, path: '/vault/ChatGPT/2026/03/Weekly_Plan.json' }));
+            deps.deliverToSinks = mock(() => {});
+
+            const saved = await saveConversation(buildData(), {}, deps);
+
+            expect(saved).toBe(true);
+            expect(deps.writeToNativeHost).toHaveBeenCalledWith({
+                platform: 'ChatGPT',
+                conversationId: 'conv-1',
+                path: 'ChatGPT/2026/03/Weekly_Plan.json',
+                content: expect.stringContaining('"conversation_id": "conv-1"'),
+            });
+            expect(deps.buttonManagerSetSuccess).toHaveBeenCalledWith('save', {
+                icon: '📁',
+                title: 'Written to /vault/ChatGPT/2026/03/Weekly_Plan.json',
+            });
+            expect(deps.deliverToSinks).toHaveBeenCalledWith(
+                expect.objectContaining({ filename: 'Weekly_Plan_2026-03-14.json', conversationId: 'conv-1' }),
+            );
+        });
+
+        it('should return the written path from quiet exports', async () => {
+            deps.writeToNativeHost = mock(async () => ({ ok: true, path: '/vault/ChatGPT/2026/03/Weekly_Plan.json' }));
+
+            const savedFile = await exportConversationQuietly(buildData(), 'Weekly_Plan', deps);
+
+            expect(savedFile).toBe('/vault/ChatGPT/2026/03/Weekly_Plan.json');
+        });
+    });
+
+    describe('redaction', () => {
+        it('should redact the saved copy and filename and record the summary', async () => {
+            const data: any = {
+                conversation_id: 'conv-1',
+                title: 'Keys for 10.1.2.3',
+                mapping: {},
+            };
+            deps.getAdapter = mock(() => ({ name: 'ChatGPT', formatFilename: (d: any) => d.title }));
+            deps.getRedactionSettings = mock(() => ({ ...DEFAULT_REDACTION_SETTINGS, enabled: true }));
+            deps.deliverToSinks = mock(() => {});
+
+            await saveConversation(data, {}, deps);
+
+            const [payload] = deps.deliverToSinks.mock.calls[0];
+            expect(payload.filename).toBe('Keys for [REDACTED:IP].json');
+            expect(JSON.parse(payload.content).__blackiya.redaction).toEqual({
+                version: 1,
+                total: 1,
+                counts: { ipAddress: 1 },
+            });
+            expect(data.title).toBe('Keys for 10.1.2.3');
+        });
+    });
+
+    describe('encryption', () => {
+        const data: any = { conversation_id: 'conv-1', title: 'Client notes', mapping: {} };
+
+        it('should download an encrypted envelope and deliver one to sinks', async () => {
+            const encrypt = mock(createExportEncryptor('client passphrase', { iterations: 1000 }).encrypt);
+            deps.getExportEncryptor = mock(async () => ({ encrypt }));
+            deps.deliverToSinks = mock(() => {});
+
+            const savedFile = await exportConversationQuietly(data, 'Client_notes', deps);
+
+            expect(savedFile).toBe('Client_notes.json.enc.json');
+            expect(encrypt).toHaveBeenCalledWith(
+                expect.objectContaining({ filename: 'Client_notes.json', mimeType: 'application/json' }),
+            );
+            const [payload] = deps.deliverToSinks.mock.calls[0];
+            expect(payload).toMatchObject({ filename: 'Client_notes.json.enc.json', mimeType: 'application/json' });
+            expect(payload.content).not.toContain('"conversation_id": "conv-1"');
+            const decrypted = await decryptExportEnvelope(parseExportEnvelope(payload.content), 'client passphrase');
+            expect(new TextDecoder().decode(decrypted.content)).toContain('"conversation_id": "conv-1"');
+        });
+
+        it('should write an encrypted envelope to the local folder', async () => {
+            deps.getExportEncryptor = mock(async () =>
+                createExportEncryptor('client passphrase', { iterations: 1000 }),
+            );
+            deps.writeToNativeHost = mock(async () => ({
+                ok: true,
+                path: '/vault/ChatGPT/Client_notes.json.enc.json',
+            }));
+            deps.deliverToSinks = mock(() => {});
+
+            await exportConversationQuietly(data, 'Client_notes', deps);
+
+            const [request] = deps.writeToNativeHost.mock.calls[0];
+            expect(request.path).toEndWith('/Client_notes.json.enc.json');
+            expect(request.content).not.toContain('"conversation_id": "conv-1"');
+            const decrypted = await decryptExportEnvelope(parseExportEnvelope(request.content), 'client passphrase');
+            expect(decrypted.filename).toBe('Client_notes.json');
+            expect(new TextDecoder().decode(decrypted.content)).toContain('"conversation_id": "conv-1"');
+            const [payload] = deps.deliverToSinks.mock.calls[0];
+            expect(payload.content).toBe(request.content);
+        });
+
+        it('should fail the export without a passphrase instead of saving plaintext', async () => {
+            deps.getExportEncryptor = mock(async () => {
+                throw new Error(MISSING_EXPORT_PASSPHRASE_ERROR);
+            });
+            deps.deliverToSinks = mock(() => {});
+
+            await expect(exportConversationQuietly(data, 'Client_notes', deps)).rejects.toThrow(
+                MISSING_EXPORT_PASSPHRASE_ERROR,
+            );
+            expect(deps.deliverToSinks).not.toHaveBeenCalled();
+        });
+
+        it('should not write to the local folder without a passphrase', async () => {
+            deps.getExportEncryptor = mock(async () => {
+                throw new Error(MISSING_EXPORT_PASSPHRASE_ERROR);
+            });
+            deps.writeToNativeHost = mock(async () => ({ ok: true, path: '/vault/x' }));
+
+            await expect(exportConversationQuietly(data, 'Client_notes', deps)).rejects.toThrow(
+                MISSING_EXPORT_PASSPHRASE_ERROR,
+            );
+            expect(deps.writeToNativeHost).not.toHaveBeenCalled();
+        });
+    });
 });
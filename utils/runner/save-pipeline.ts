@@ -2,24 +2,49 @@
  * Save pipeline — orchestrates the full save/export flow.
  *
  * Handles data retrieval, readiness gating, title fallback resolution,
- * force-save recovery, and the final export-to-download step.
+ * force-save recovery, and the final export-to-download (or local folder) step.
  * All runner-state access goes through the injected deps object.
  */
 
 import type { LLMPlatform } from '@/platforms/types';
-import { downloadAsJSON } from '@/utils/download';
+import { downloadAsBlob, downloadAsFile } from '@/utils/download';
+import {
+    type ExportEncryptor,
+    encryptExportForDownload,
+    sealSerializedExport,
+} from '@/utils/encryption/export-envelope';
+import { collectConversationAttachments } from '@/utils/export/attachments';
+import {
+    type ConversationExportInput,
+    type SerializedExport,
+    serializeConversationExport,
+} from '@/utils/export/formats';
 import { logger } from '@/utils/logger';
 import type { StructuredAttemptLogger } from '@/utils/logging/structured-logger';
+import {
+    buildNativeHostExportPath,
+    type NativeHostResult,
+    type NativeHostWriteRequest,
+} from '@/utils/native-host/native-host-contract';
+import type { HeaderRecord } from '@/utils/proactive-fetch-headers';
+import { bundleConversationAttachments, createConversationBundleArchive } from '@/utils/runner/attachment-bundle';
 import type { RawCaptureSnapshot } from '@/utils/runner/calibration-capture';
-import { attachExportMeta } from '@/utils/runner/export-helpers';
-import { applyResolvedExportTitle } from '@/utils/runner/export-pipeline';
+import { applyExportRedaction, applyResolvedExportTitle } from '@/utils/runner/export-pipeline';
 import { buildExportMetaForSave, confirmDegradedForceSave } from '@/utils/runner/save-export';
+import {
+    type ExportFormat,
+    type ExportFormatSettingsMap,
+    type RedactionSettings,
+    resolveExportFormatSettings,
+} from '@/utils/settings';
 import type { ExportMeta, PlatformReadiness, ReadinessDecision } from '@/utils/sfe/types';
+import type { WebhookExportPayload } from '@/utils/sinks/webhook-sink-contract';
 import {
     deriveConversationTitleFromFirstUserMessage,
     resolveConversationTitleByPrecedence,
 } from '@/utils/title-resolver';
 import type { ConversationData } from '@/utils/types';
+import type { SaveSuccessFeedback } from '@/utils/ui/button-manager';
 
 export type SavePipelineDeps = {
     getAdapter: () => LLMPlatform | null;
@@ -43,10 +68,23 @@ export type SavePipelineDeps = {
     ingestInterceptedData: (args: { url: string; data: string; platform: string }) => void;
     getRawSnapshotReplayUrls: (conversationId: string, snapshot: { url: string }) => string[];
     getPlatformName: () => string;
+    getExportFormat: () => ExportFormat;
+    getExportFormatSettings: () => ExportFormatSettingsMap;
     buttonManagerExists: () => boolean;
     buttonManagerSetLoading: (loading: boolean, button: 'save') => void;
-    buttonManagerSetSuccess: (button: 'save') => void;
+    buttonManagerSetSuccess: (button: 'save', feedback?: SaveSuccessFeedback) => void;
     structuredLogger: StructuredAttemptLogger;
+    /** Captured platform auth headers, reused to download attachments. */
+    getAuthHeaders?: () => HeaderRecord | undefined;
+    fetchImpl?: typeof fetch;
+    /** Hands the serialized export to the background webhook outbox; absent while no sink is enabled. */
+    deliverToSinks?: (payload: WebhookExportPayload) => void;
+    /** Writes the export through the native messaging host; absent while the local folder is disabled. */
+    writeToNativeHost?: (request: NativeHostWriteRequest) => Promise<NativeHostResult>;
+    /** Encrypts downloads with the session passphrase; absent while export encryption is off. */
+    getExportEncryptor?: () => Promise<ExportEncryptor>;
+    /** Redaction applied to every export; absent or disabled settings export the conversation as captured. */
+    getRedactionSettings?: () => RedactionSettings;
 };
 
 const resolveConversationIdOrNotify = (silent: boolean | undefined, deps: SavePipelineDeps): string | null => {
@@ -168,6 +206,191 @@ export const getConversationData = async (
     return data;
 };
 
+/**
+ * Sends the transcript to the webhook sinks; callers seal it first when
+ * encryption is on. Bundled attachments stay remote links there.
+ */
+const deliverExportToSinks = (
+    filename: string,
+    input: ConversationExportInput,
+    serialized: SerializedExport,
+    deps: SavePipelineDeps,
+) => {
+    if (!deps.deliverToSinks || !input.platform) {
+        return;
+    }
+    deps.deliverToSinks({
+        platform: input.platform,
+        conversationId: input.data.conversation_id,
+        filename: `${filename}.${serialized.extension}`,
+        format: deps.getExportFormat(),
+        mimeType: serialized.mimeType,
+        content: serialized.content,
+    });
+};
+
+type ExportDownload = { content: string | Blob; filename: string; extension: string; mimeType: string };
+
+/** Downloads one file, as an encrypted envelope when an encryptor is given. Returns the saved file name. */
+const downloadExportFile = async (file: ExportDownload, encryptor: ExportEncryptor | null): Promise<string> => {
+    const { content, filename, extension, mimeType } = file;
+    if (!encryptor) {
+        if (typeof content === 'string') {
+            downloadAsFile(content, filename, extension, mimeType);
+        } else {
+            downloadAsBlob(content, filename, extension);
+        }
+        return `${filename}.${extension}`;
+    }
+    const encrypted = await encryptExportForDownload(encryptor, {
+        filename: `${filename}.${extension}`,
+        mimeType,
+        content,
+    });
+    downloadAsFile(encrypted.content, encrypted.filename, encrypted.extension, encrypted.mimeType);
+    return `${encrypted.filename}.${encrypted.extension}`;
+};
+
+/**
+ * Serializes and downloads the export. When the format bundles attachments and
+ * the conversation has any, they are downloaded and saved with the transcript
+ * as one ZIP. Returns the saved file name.
+ */
+const downloadConversationExport = async (
+    filename: string,
+    input: ConversationExportInput,
+    encryptor: ExportEncryptor | null,
+    deps: SavePipelineDeps,
+): Promise<string> => {
+    const format = deps.getExportFormat();
+    const { bundleAttachments } = resolveExportFormatSettings(input.settingsMap ?? {}, format);
+    if (!bundleAttachments || collectConversationAttachments(input.data).length === 0) {
+        const serialized = serializeConversationExport(format, input);
+        const savedFile = await downloadExportFile({ ...serialized, filename }, encryptor);
+        if (deps.deliverToSinks) {
+            deliverExportToSinks(filename, input, await sealSerializedExport(encryptor, filename, serialized), deps);
+        }
+        return savedFile;
+    }
+    const bundle = await bundleConversationAttachments(input.data, filename, {
+        fetchImpl: deps.fetchImpl ?? fetch,
+        authHeaders: deps.getAuthHeaders?.(),
+        pageUrl: window.location.href,
+    });
+    if (bundle.failures.length > 0) {
+        logger.warn('Some attachments could not be bundled; linking to their remote copies', {
+            conversationId: input.data.conversation_id,
+            failures: bundle.failures,
+        });
+    }
+    const serialized = serializeConversationExport(format, { ...input, attachmentPaths: bundle.paths });
+    const savedFile = await downloadExportFile(
+        {
+            content: createConversationBundleArchive(filename, serialized, bundle),
+            filename,
+            extension: 'zip',
+            mimeType: 'application/zip',
+        },
+        encryptor,
+    );
+    if (deps.deliverToSinks) {
+        const transcript = serializeConversationExport(format, input);
+        deliverExportToSinks(filename, input, await sealSerializedExport(encryptor, filename, transcript), deps);
+    }
+    return savedFile;
+};
+
+type ConversationExportOutcome = {
+    /** Absolute path written by the native host, or the downloaded file name. */
+    savedFile: string;
+    /** Native host result when a local folder write was attempted. */
+    folderWrite: NativeHostResult | null;
+};
+
+/**
+ * Writes the transcript into the local folder through the native host when it
+ * is enabled (attachments stay remote links there), and downloads it otherwise
+ * or when the write fails.
+ */
+const saveConversationExport = async (
+    filename: string,
+    input: ConversationExportInput,
+    deps: SavePipelineDeps,
+): Promise<ConversationExportOutcome> => {
+    // Resolved first so a missing passphrase fails before attachments are fetched or anything is written.
+    const encryptor = deps.getExportEncryptor ? await deps.getExportEncryptor() : null;
+    if (!deps.writeToNativeHost || !input.platform) {
+        return { savedFile: await downloadConversationExport(filename, input, encryptor, deps), folderWrite: null };
+    }
+    const serialized = await sealSerializedExport(
+        encryptor,
+        filename,
+        serializeConversationExport(deps.getExportFormat(), input),
+    );
+    const folderWrite = await deps.writeToNativeHost({
+        platform: input.platform,
+        conversationId: input.data.conversation_id,
+        path: buildNativeHostExportPath(input.platform, input.data, serialized.extension),
+        content: serialized.content,
+    });
+    if (!folderWrite.ok) {
+        logger.warn('Local folder write failed; downloading instead', {
+            conversationId: input.data.conversation_id,
+            error: folderWrite.error,
+        });
+        return { savedFile: await downloadConversationExport(filename, input, encryptor, deps), folderWrite };
+    }
+    deliverExportToSinks(filename, input, serialized, deps);
+    return { savedFile: folderWrite.path, folderWrite };
+};
+
+const resolveSaveSuccessFeedback = (folderWrite: NativeHostResult | null): SaveSuccessFeedback => {
+    if (!folderWrite) {
+        return {};
+    }
+    return folderWrite.ok
+        ? { icon: '📁', title: `Written to ${folderWrite.path}` }
+        : { title: `Downloaded instead; local folder write failed: ${folderWrite.error}` };
+};
+
+/**
+ * Applies the resolved export title and returns the adapter's filename for the
+ * conversation, built from the redacted title when redaction is on.
+ */
+export const resolveExportFilename = (data: ConversationData, deps: SavePipelineDeps): string | null => {
+    const adapter = deps.getAdapter();
+    if (!adapter) {
+        return null;
+    }
+    applyResolvedExportTitle(data);
+    return adapter.formatFilename(applyExportRedaction(data, deps.getRedactionSettings?.()).data);
+};
+
+/**
+ * Exports a canonical conversation under the given filename without touching
+ * the Save button or alerting; errors reach the caller. Used by auto-export.
+ */
+export const exportConversationQuietly = async (
+    data: ConversationData,
+    filename: string,
+    deps: SavePipelineDeps,
+): Promise<string> => {
+    const exportMeta = buildExportMetaForSave(data.conversation_id, false, deps.getCaptureMeta);
+    const { data: exportData, redaction } = applyExportRedaction(data, deps.getRedactionSettings?.());
+    const { savedFile } = await saveConversationExport(
+        filename,
+        {
+            data: exportData,
+            exportMeta,
+            platform: deps.getAdapter()?.name,
+            settingsMap: deps.getExportFormatSettings(),
+            redaction,
+        },
+        deps,
+    );
+    return savedFile;
+};
+
 export const saveConversation = async (
     data: ConversationData,
     options: { allowDegraded?: boolean },
@@ -190,11 +413,21 @@ export const saveConversation = async (
             cachedTitle,
             resolvedTitle: titleDecision.title,
         });
-        const filename = adapter.formatFilename(data);
+        const { data: exportData, redaction } = applyExportRedaction(data, deps.getRedactionSettings?.());
+        const filename = adapter.formatFilename(exportData);
         const exportMeta = buildExportMetaForSave(data.conversation_id, options.allowDegraded, deps.getCaptureMeta);
-        const exportPayload = attachExportMeta(data, exportMeta);
-        downloadAsJSON(exportPayload, filename);
-        logger.info(`Saved conversation: ${filename}.json`);
+        const { savedFile, folderWrite } = await saveConversationExport(
+            filename,
+            {
+                data: exportData,
+                exportMeta,
+                platform: adapter.name,
+                settingsMap: deps.getExportFormatSettings(),
+                redaction,
+            },
+            deps,
+        );
+        logger.info(`Saved conversation: ${savedFile}`);
         if (options.allowDegraded === true) {
             deps.structuredLogger.emit(
                 deps.peekAttemptId(data.conversation_id) ?? 'unknown',
@@ -206,7 +439,7 @@ export const saveConversation = async (
             );
         }
         if (deps.buttonManagerExists()) {
-            deps.buttonManagerSetSuccess('save');
+            deps.buttonManagerSetSuccess('save', resolveSaveSuccessFeedback(folderWrite));
         }
         return true;
     } catch (error) {
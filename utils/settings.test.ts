@@ -1,8 +1,24 @@
 import { describe, expect, it, mock } from 'bun:test';
 import {
+    DEFAULT_AUTO_EXPORT_SETTINGS,
+    DEFAULT_EXPORT_FORMAT,
+    DEFAULT_EXPORT_FORMAT_SETTINGS,
     DEFAULT_EXTENSION_ENABLED,
+    isExportFormat,
     isExtensionEnabledValue,
+    loadAutoExportSettings,
+    loadExportFormatSetting,
     loadExtensionEnabledSetting,
+    normalizeAutoExportSettings,
+    normalizeExportFormatSettingsMap,
+    normalizeExportFormatValue,
+    normalizeExternalApiAllowedIds,
+    normalizePageEventsSettings,
+    normalizeWebhookSinks,
+    parseWebhookHeaderLines,
+    resolveAutoExportRule,
+    resolveExportFormatSettings,
+    resolvePageEventsRule,
     STORAGE_KEYS,
 } from '@/utils/settings';
 
@@ -52,4 +68,140 @@ describe('settings', () => {
             await expect(loadExtensionEnabledSetting()).resolves.toBe(DEFAULT_EXTENSION_ENABLED);
         });
     });
+
+    describe('export format', () => {
+        it('should only accept known export formats', () => {
+            expect(isExportFormat('json')).toBe(true);
+            expect(isExportFormat('markdown')).toBe(true);
+            expect(isExportFormat('pdf')).toBe(false);
+            expect(normalizeExportFormatValue(undefined)).toBe(DEFAULT_EXPORT_FORMAT);
+        });
+
+        it('should read the persisted export format from storage', async () => {
+            const { browser } = await import('wxt/browser');
+            (browser.storage.local.get as ReturnType<typeof mock>).mockImplementationOnce(async () => ({
+                [STORAGE_KEYS.EXPORT_FORMAT]: 'markdown',
+            }));
+
+            await expect(loadExportFormatSetting()).resolves.toBe('markdown');
+        });
+
+        it('should fall back to the default for unknown stored values', async () => {
+            const { browser } = await import('wxt/browser');
+            (browser.storage.local.get as ReturnType<typeof mock>).mockImplementationOnce(async () => ({
+                [STORAGE_KEYS.EXPORT_FORMAT]: 'docx',
+            }));
+
+            await expect(loadExportFormatSetting()).resolves.toBe(DEFAULT_EXPORT_FORMAT);
+        });
+    });
+
+    describe('export format settings', () => {
+        it('should keep only known formats and boolean setting values', () => {
+            expect(
+                normalizeExportFormatSettingsMap({
+                    html: { includeThoughts: false, prettyJson: 'yes', extra: true },
+                    pdf: { includeThoughts: false },
+                }),
+            ).toEqual({ html: { includeThoughts: false } });
+            expect(normalizeExportFormatSettingsMap(null)).toEqual({});
+            expect(normalizeExportFormatSettingsMap([1])).toEqual({});
+        });
+
+        it('should merge per-format overrides over the defaults', () => {
+            expect(resolveExportFormatSettings({ text: { includeTimestamps: false } }, 'text')).toEqual({
+                ...DEFAULT_EXPORT_FORMAT_SETTINGS,
+                includeTimestamps: false,
+            });
+            expect(resolveExportFormatSettings({ text: { includeTimestamps: false } }, 'html')).toEqual(
+                DEFAULT_EXPORT_FORMAT_SETTINGS,
+            );
+        });
+
+        it('should leave attachment bundling off until a format opts in', () => {
+            expect(resolveExportFormatSettings({}, 'markdown').bundleAttachments).toBeFalse();
+            expect(
+                resolveExportFormatSettings({ markdown: { bundleAttachments: true } }, 'markdown').bundleAttachments,
+            ).toBeTrue();
+        });
+    });
+
+    describe('auto export', () => {
+        it('should default to off and drop malformed platform overrides', () => {
+            expect(normalizeAutoExportSettings(undefined)).toEqual(DEFAULT_AUTO_EXPORT_SETTINGS);
+            expect(
+                normalizeAutoExportSettings({
+                    enabled: true,
+                    filenameMode: 'dated',
+                    platforms: { ChatGPT: { enabled: false, filenameMode: 'versioned' }, Gemini: { enabled: 'no' } },
+                }),
+            ).toEqual({
+                enabled: true,
+                filenameMode: 'same-name',
+                platforms: { ChatGPT: { enabled: false, filenameMode: 'versioned' }, Gemini: {} },
+            });
+        });
+
+        it('should apply platform overrides under the master switch', () => {
+            const settings = normalizeAutoExportSettings({
+                enabled: true,
+                filenameMode: 'versioned',
+                platforms: { Grok: { enabled: false }, Claude: { filenameMode: 'same-name' } },
+            });
+            expect(resolveAutoExportRule(settings, 'ChatGPT')).toEqual({ enabled: true, filenameMode: 'versioned' });
+            expect(resolveAutoExportRule(settings, 'Grok').enabled).toBe(false);
+            expect(resolveAutoExportRule(settings, 'Claude').filenameMode).toBe('same-name');
+            expect(resolveAutoExportRule({ ...settings, enabled: false }, 'ChatGPT').enabled).toBe(false);
+        });
+
+        it('should read the persisted settings from storage', async () => {
+            const { browser } = await import('wxt/browser');
+            (browser.storage.local.get as ReturnType<typeof mock>).mockImplementationOnce(async () => ({
+                [STORAGE_KEYS.AUTO_EXPORT]: { enabled: true },
+            }));
+
+            await expect(loadAutoExportSettings()).resolves.toEqual({ ...DEFAULT_AUTO_EXPORT_SETTINGS, enabled: true });
+        });
+    });
+    describe('external API allowlist', () => {
+        it('should keep trimmed, unique extension IDs', () => {
+            expect(normalizeExternalApiAllowedIds(['  abc ', 'abc', '', 'has space', 42, 'def'])).toEqual([
+                'abc',
+                'def',
+            ]);
+            expect(normalizeExternalApiAllowedIds('abc')).toEqual([]);
+        });
+    });
+    describe('page events', () => {
+        it('should keep sites off unless they were opted in', () => {
+            const settings = normalizePageEventsSettings({
+                ChatGPT: { enabled: true, includeConversation: 'yes' },
+                Gemini: 'on',
+            });
+            expect(settings).toEqual({ ChatGPT: { enabled: true, includeConversation: false } });
+            expect(resolvePageEventsRule(settings, 'Gemini')).toEqual({ enabled: false, includeConversation: false });
+            expect(normalizePageEventsSettings(['ChatGPT'])).toEqual({});
+        });
+    });
+    describe('webhook sinks', () => {
+        it('should keep sinks with an ID and only enable http(s) URLs', () => {
+            expect(
+                normalizeWebhookSinks([
+                    { id: 'kb', url: ' http://localhost:8765/ingest ', enabled: true, headers: { 'X-Key': ' abc ' } },
+                    { id: 'ftp', url: 'ftp://example.com', enabled: true, headers: { 'bad header': 'x' } },
+                    { url: 'http://localhost:1' },
+                ]),
+            ).toEqual([
+                { id: 'kb', url: 'http://localhost:8765/ingest', enabled: true, headers: { 'X-Key': 'abc' } },
+                { id: 'ftp', url: 'ftp://example.com', enabled: false, headers: {} },
+            ]);
+        });
+
+        it('should parse header lines and skip malformed ones', () => {
+            expect(parseWebhookHeaderLines('Authorization: Bearer a:b\nno colon\n: empty\nX-Team:  docs ')).toEqual({
+                Authorization: 'Bearer a:b',
+                'X-Team': 'docs',
+            });
+        });
+    });
 });
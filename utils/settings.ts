@@ -1,4 +1,5 @@
 import { browser } from 'wxt/browser';
+import type { BulkExportMode, BulkExportPackaging } from '@/utils/runner/bulk-chat-export-contract';
 
 /**
  * Settings Utilities
@@ -15,12 +16,130 @@ export const STORAGE_KEYS = {
     SFE_ENABLED: 'userSettings.sfe.enabled',
     STREAM_PROBE_VISIBLE: 'userSettings.ui.streamProbeVisible',
     BULK_EXPORT_LIMIT: 'userSettings.bulkExport.limit',
+    BULK_EXPORT_PACKAGING: 'userSettings.bulkExport.packaging',
+    BULK_EXPORT_MODE: 'userSettings.bulkExport.mode',
+    BULK_EXPORT_FILTERS: 'userSettings.bulkExport.filters',
+    EXPORT_FORMAT: 'userSettings.export.format',
+    EXPORT_FORMAT_SETTINGS: 'userSettings.export.formatSettings',
+    ARCHIVE_ENABLED: 'userSettings.archive.enabled',
+    AUTO_EXPORT: 'userSettings.autoExport',
+    EXTERNAL_API_ALLOWED_IDS: 'userSettings.externalApi.allowedExtensionIds',
+    /** Written by the background while any external API port is subscribed to events; not a user setting. */
+    EXTERNAL_API_SUBSCRIBED: 'userSettings.externalApi.subscribed',
+    PAGE_EVENTS: 'userSettings.pageEvents',
+    WEBHOOK_SINKS: 'userSettings.webhookSinks',
+    NATIVE_HOST_ENABLED: 'userSettings.nativeHost.enabled',
+    REDACTION: 'userSettings.redaction',
+    ENCRYPTION_ENABLED: 'userSettings.encryption.enabled',
 } as const;
 
+export const EXPORT_FORMATS = ['json', 'json-normalized', 'markdown', 'html', 'text', 'jsonl'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Options a format may honor. Each format declares which of these apply in the
+ * export format registry (`utils/export/formats.ts`); the rest are ignored.
+ */
+export type ExportFormatSettings = {
+    prettyJson: boolean;
+    includeThoughts: boolean;
+    includeTimestamps: boolean;
+    /** Embed the normalized (schema v1) conversation at `__blackiya.normalized` in raw JSON. */
+    embedNormalized: boolean;
+    /** Emit every regeneration/edit branch instead of only the active path. */
+    includeAllBranches: boolean;
+    /** Download images and files the conversation references and package them next to the export. */
+    bundleAttachments: boolean;
+};
+export type ExportFormatSettingKey = keyof ExportFormatSettings;
+
+/** Per-format overrides as persisted under `STORAGE_KEYS.EXPORT_FORMAT_SETTINGS`. */
+export type ExportFormatSettingsMap = Partial<Record<ExportFormat, Partial<ExportFormatSettings>>>;
+
+export const AUTO_EXPORT_FILENAME_MODES = ['same-name', 'versioned'] as const;
+/**
+ * `same-name` requests the Save filename on every re-export; browser downloads may still
+ * add ` (1)` to avoid overwriting, so only local folder writes replace the file.
+ * `versioned` appends `-v2`, `-v3`, ...
+ */
+export type AutoExportFilenameMode = (typeof AUTO_EXPORT_FILENAME_MODES)[number];
+
+export type AutoExportRule = {
+    enabled: boolean;
+    filenameMode: AutoExportFilenameMode;
+};
+
+/**
+ * Persisted under `STORAGE_KEYS.AUTO_EXPORT`. `enabled` is the opt-in master
+ * switch; `platforms` holds per-platform overrides keyed by adapter name.
+ */
+export type AutoExportSettings = AutoExportRule & {
+    platforms: Record<string, Partial<AutoExportRule>>;
+};
+
+/** Whether a site gets the in-page `blackiya:*` events (`utils/protocol/page-events.ts`). */
+export type PageEventsRule = {
+    enabled: boolean;
+    /** Attach the canonical `ConversationData` to `blackiya:conversation-ready`. */
+    includeConversation: boolean;
+};
+
+/** Persisted under `STORAGE_KEYS.PAGE_EVENTS`, keyed by adapter name; sites without an entry get no events. */
+export type PageEventsSettings = Record<string, PageEventsRule>;
+
+export const REDACTION_DETECTORS = ['email', 'creditCard', 'secret', 'ipAddress'] as const;
+export type RedactionDetector = (typeof REDACTION_DETECTORS)[number];
+
+/** What the redaction stage scrubs from exports before they are serialized. */
+export type RedactionSettings = {
+    enabled: boolean;
+    detectors: Record<RedactionDetector, boolean>;
+    /** Regular expressions, as source text or `/source/flags`. */
+    patterns: string[];
+    /** Strings matched case-insensitively, e.g. internal hostnames or client names. */
+    literals: string[];
+};
+
+/** An HTTP endpoint that receives every saved or bulk-exported conversation. */
+export type WebhookSink = {
+    id: string;
+    /** `http:` or `https:` URL the export is POSTed to. */
+    url: string;
+    enabled: boolean;
+    /** Extra request headers, e.g. an `Authorization` token for the endpoint. */
+    headers: Record<string, string>;
+};
+
 export const DEFAULT_EXTENSION_ENABLED = true;
 export const DEFAULT_BULK_EXPORT_LIMIT = 0;
 export const DEFAULT_BULK_EXPORT_DELAY_MS = 1_200;
 export const DEFAULT_BULK_EXPORT_TIMEOUT_MS = 20_000;
+export const DEFAULT_BULK_EXPORT_PACKAGING: BulkExportPackaging = 'files';
+export const DEFAULT_BULK_EXPORT_MODE: BulkExportMode = 'full';
+export const DEFAULT_EXPORT_FORMAT: ExportFormat = 'json';
+export const DEFAULT_ARCHIVE_ENABLED = false;
+export const DEFAULT_NATIVE_HOST_ENABLED = false;
+export const DEFAULT_ENCRYPTION_ENABLED = false;
+export const DEFAULT_AUTO_EXPORT_SETTINGS: AutoExportSettings = {
+    enabled: false,
+    filenameMode: 'same-name',
+    platforms: {},
+};
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+    enabled: false,
+    detectors: { email: true, creditCard: true, secret: true, ipAddress: true },
+    patterns: [],
+    literals: [],
+};
+export const DEFAULT_PAGE_EVENTS_RULE: PageEventsRule = { enabled: false, includeConversation: false };
+export const DEFAULT_EXPORT_FORMAT_SETTINGS: ExportFormatSettings = {
+    prettyJson: true,
+    includeThoughts: true,
+    includeTimestamps: true,
+    embedNormalized: false,
+    includeAllBranches: false,
+    bundleAttachments: false,
+};
 
 export const isExtensionEnabledValue = (value: unknown) => value !== false;
 
@@ -32,3 +151,322 @@ export const loadExtensionEnabledSetting = async () => {
         return DEFAULT_EXTENSION_ENABLED;
     }
 };
+
+/** The local archive is opt-in: anything other than `true` leaves it off. */
+export const loadArchiveEnabledSetting = async () => {
+    try {
+        const result = await browser.storage.local.get(STORAGE_KEYS.ARCHIVE_ENABLED);
+        return result[STORAGE_KEYS.ARCHIVE_ENABLED] === true;
+    } catch {
+        return DEFAULT_ARCHIVE_ENABLED;
+    }
+};
+
+/** Writing through the native host is opt-in: anything other than `true` leaves it off. */
+export const loadNativeHostEnabledSetting = async () => {
+    try {
+        const result = await browser.storage.local.get(STORAGE_KEYS.NATIVE_HOST_ENABLED);
+        return result[STORAGE_KEYS.NATIVE_HOST_ENABLED] === true;
+    } catch {
+        return DEFAULT_NATIVE_HOST_ENABLED;
+    }
+};
+
+export const loadEncryptionEnabledSetting = async () => {
+    try {
+        const result = await browser.storage.local.get(STORAGE_KEYS.ENCRYPTION_ENABLED);
+        return result[STORAGE_KEYS.ENCRYPTION_ENABLED] === true;
+    } catch {
+        return DEFAULT_ENCRYPTION_ENABLED;
+    }
+};
+
+export const isAutoExportFilenameMode = (value: unknown): value is AutoExportFilenameMode =>
+    typeof value === 'string' && (AUTO_EXPORT_FILENAME_MODES as readonly string[]).includes(value);
+
+const normalizeAutoExportRuleOverride = (value: unknown): Partial<AutoExportRule> => {
+    if (!value || typeof value !== 'object') {
+        return {};
+    }
+    const record = value as Record<string, unknown>;
+    const rule: Partial<AutoExportRule> = {};
+    if (typeof record.enabled === 'boolean') {
+        rule.enabled = record.enabled;
+    }
+    if (isAutoExportFilenameMode(record.filenameMode)) {
+        rule.filenameMode = record.filenameMode;
+    }
+    return rule;
+};
+
+export const normalizeAutoExportSettings = (value: unknown): AutoExportSettings => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { ...DEFAULT_AUTO_EXPORT_SETTINGS, platforms: {} };
+    }
+    const record = value as Record<string, unknown>;
+    const platforms: AutoExportSettings['platforms'] = {};
+    if (record.platforms && typeof record.platforms === 'object' && !Array.isArray(record.platforms)) {
+        for (const [platform, rule] of Object.entries(record.platforms)) {
+            platforms[platform] = normalizeAutoExportRuleOverride(rule);
+        }
+    }
+    return {
+        enabled: record.enabled === true,
+        filenameMode: isAutoExportFilenameMode(record.filenameMode)
+            ? record.filenameMode
+            : DEFAULT_AUTO_EXPORT_SETTINGS.filenameMode,
+        platforms,
+    };
+};
+
+/** The platform's effective rule: its overrides on top of the defaults, gated by the master switch. */
+export const resolveAutoExportRule = (settings: AutoExportSettings, platform: string): AutoExportRule => {
+    const override = settings.platforms[platform];
+    return {
+        enabled: settings.enabled && (override?.enabled ?? true),
+        filenameMode: override?.filenameMode ?? settings.filenameMode,
+    };
+};
+
+export const loadAutoExportSettings = async (): Promise<AutoExportSettings> => {
+    try {
+        const result = await browser.storage.local.get(STORAGE_KEYS.AUTO_EXPORT);
+        return normalizeAutoExportSettings(result[STORAGE_KEYS.AUTO_EXPORT]);
+    } catch {
+        return normalizeAutoExportSettings(undefined);
+    }
+};
+
+/**
+ * Extension IDs allowed to use the external API. Entries are trimmed, blank
+ * or whitespace-containing ones dropped and duplicates removed; an empty list
+ * (the default) keeps the API closed.
+ */
+export const normalizeExternalApiAllowedIds = (value: unknown): string[] => {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+    const ids = value
+        .filter((entry): entry is string => typeof entry === 'string')
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.length > 0 && !/\s/.test(entry));
+    return [...new Set(ids)];
+};
+
+export const loadExternalApiAllowedIds = async (): Promise<string[]> => {
+    try {
+        const result = await browser.storage.local.get(STORAGE_KEYS.EXTERNAL_API_ALLOWED_IDS);
+        return normalizeExternalApiAllowedIds(result[STORAGE_KEYS.EXTERNAL_API_ALLOWED_IDS]);
+    } catch {
+        return [];
+    }
+};
+
+export const loadExternalApiSubscribed = async () => {
+    try {
+        const result = await browser.storage.local.get(STORAGE_KEYS.EXTERNAL_API_SUBSCRIBED);
+        return result[STORAGE_KEYS.EXTERNAL_API_SUBSCRIBED] === true;
+    } catch {
+        return false;
+    }
+};
+
+export const normalizePageEventsSettings = (value: unknown): PageEventsSettings => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return {};
+    }
+    const settings: PageEventsSettings = {};
+    for (const [platform, rule] of Object.entries(value)) {
+        if (rule && typeof rule === 'object' && !Array.isArray(rule)) {
+            const record = rule as Record<string, unknown>;
+            settings[platform] = {
+                enabled: record.enabled === true,
+                includeConversation: record.includeConversation === true,
+            };
+        }
+    }
+    return settings;
+};
+
+/** Page events are opt-in per site: a platform without a stored rule gets none. */
+export const resolvePageEventsRule = (settings: PageEventsSettings, platform: string): PageEventsRule =>
+    settings[platform] ?? DEFAULT_PAGE_EVENTS_RULE;
+
+export const loadPageEventsSettings = async (): Promise<PageEventsSettings> => {
+    try {
+        const result = await browser.storage.local.get(STORAGE_KEYS.PAGE_EVENTS);
+        return normalizePageEventsSettings(result[STORAGE_KEYS.PAGE_EVENTS]);
+    } catch {
+        return {};
+    }
+};
+
+export const isWebhookSinkUrl = (value: unknown): value is string => {
+    if (typeof value !== 'string') {
+        return false;
+    }
+    try {
+        const { protocol } = new URL(value);
+        return protocol === 'http:' || protocol === 'https:';
+    } catch {
+        return false;
+    }
+};
+
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+const normalizeWebhookHeaders = (value: unknown): Record<string, string> => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return {};
+    }
+    const headers: Record<string, string> = {};
+    for (const [name, headerValue] of Object.entries(value)) {
+        if (HEADER_NAME_PATTERN.test(name) && typeof headerValue === 'string') {
+            headers[name] = headerValue.trim();
+        }
+    }
+    return headers;
+};
+
+/** Drops sinks without an ID; a sink whose URL isn't http(s) is kept but forced off. */
+export const normalizeWebhookSinks = (value: unknown): WebhookSink[] => {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+    const sinks: WebhookSink[] = [];
+    for (const entry of value) {
+        if (!entry || typeof entry !== 'object' || typeof entry.id !== 'string' || !entry.id) {
+            continue;
+        }
+        const url = typeof entry.url === 'string' ? entry.url.trim() : '';
+        sinks.push({
+            id: entry.id,
+            url,
+            enabled: entry.enabled === true && isWebhookSinkUrl(url),
+            headers: normalizeWebhookHeaders(entry.headers),
+        });
+    }
+    return sinks;
+};
+
+/** Parses `Name: value` lines; malformed lines are skipped. */
+export const parseWebhookHeaderLines = (text: string): Record<string, string> => {
+    const headers: Record<string, string> = {};
+    for (const line of text.split(/\r?\n/)) {
+        const separator = line.indexOf(':');
+        const name = separator > 0 ? line.slice(0, separator).trim() : '';
+        if (HEADER_NAME_PATTERN.test(name)) {
+            headers[name] = line.slice(separator + 1).trim();
+        }
+    }
+    return headers;
+};
+
+export const formatWebhookHeaderLines = (headers: Record<string, string>) =>
+    Object.entries(headers)
+        .map(([name, value]) => `${name}: ${value}`)
+        .join('\n');
+
+export const loadWebhookSinks = async (): Promise<WebhookSink[]> => {
+    try {
+        const result = await browser.storage.local.get(STORAGE_KEYS.WEBHOOK_SINKS);
+        return normalizeWebhookSinks(result[STORAGE_KEYS.WEBHOOK_SINKS]);
+    } catch {
+        return [];
+    }
+};
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+    typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+
+export const normalizeExportFormatValue = (value: unknown): ExportFormat =>
+    isExportFormat(value) ? value : DEFAULT_EXPORT_FORMAT;
+
+export const loadExportFormatSetting = async (): Promise<ExportFormat> => {
+    try {
+        const result = await browser.storage.local.get(STORAGE_KEYS.EXPORT_FORMAT);
+        return normalizeExportFormatValue(result[STORAGE_KEYS.EXPORT_FORMAT]);
+    } catch {
+        return DEFAULT_EXPORT_FORMAT;
+    }
+};
+
+const pickBooleanSettings = (value: unknown): Partial<ExportFormatSettings> => {
+    if (!value || typeof value !== 'object') {
+        return {};
+    }
+    const record = value as Record<string, unknown>;
+    const picked: Partial<ExportFormatSettings> = {};
+    for (const key of Object.keys(DEFAULT_EXPORT_FORMAT_SETTINGS) as ExportFormatSettingKey[]) {
+        if (typeof record[key] === 'boolean') {
+            picked[key] = record[key];
+        }
+    }
+    return picked;
+};
+
+export const normalizeExportFormatSettingsMap = (value: unknown): ExportFormatSettingsMap => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return {};
+    }
+    const normalized: ExportFormatSettingsMap = {};
+    for (const [format, settings] of Object.entries(value)) {
+        if (isExportFormat(format)) {
+            normalized[format] = pickBooleanSettings(settings);
+        }
+    }
+    return normalized;
+};
+
+export const resolveExportFormatSettings = (
+    settingsMap: ExportFormatSettingsMap,
+    format: ExportFormat,
+): ExportFormatSettings => ({
+    ...DEFAULT_EXPORT_FORMAT_SETTINGS,
+    ...settingsMap[format],
+});
+
+export const loadExportFormatSettingsMap = async (): Promise<ExportFormatSettingsMap> => {
+    try {
+        const result = await browser.storage.local.get(STORAGE_KEYS.EXPORT_FORMAT_SETTINGS);
+        return normalizeExportFormatSettingsMap(result[STORAGE_KEYS.EXPORT_FORMAT_SETTINGS]);
+    } catch {
+        return {};
+    }
+};
+
+const normalizeRedactionList = (value: unknown) =>
+    Array.isArray(value)
+        ? [
+              ...new Set(value.filter((item): item is string => typeof item === 'string').map((item) => item.trim())),
+          ].filter(Boolean)
+        : [];
+
+/** Detectors default to on, so turning redaction on covers the built-ins until one is unticked. */
+export const normalizeRedactionSettings = (value: unknown): RedactionSettings => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return DEFAULT_REDACTION_SETTINGS;
+    }
+    const record = value as Record<string, unknown>;
+    const detectors = (record.detectors && typeof record.detectors === 'object' ? record.detectors : {}) as Record<
+        string,
+        unknown
+    >;
+    return {
+        enabled: record.enabled === true,
+        detectors: Object.fromEntries(
+            REDACTION_DETECTORS.map((detector) => [detector, detectors[detector] !== false]),
+        ) as Record<RedactionDetector, boolean>,
+        patterns: normalizeRedactionList(record.patterns),
+        literals: normalizeRedactionList(record.literals),
+    };
+};
+
+export const loadRedactionSettings = async (): Promise<RedactionSettings> => {
+    try {
+        const result = await browser.storage.local.get(STORAGE_KEYS.REDACTION);
+        return normalizeRedactionSettings(result[STORAGE_KEYS.REDACTION]);
+    } catch {
+        return DEFAULT_REDACTION_SETTINGS;
+    }
+};
@@ -0,0 +1,191 @@
+import { describe, expect, it, mock } from 'bun:test';
+import type { WebhookSink } from '@/utils/settings';
+import {
+    computeWebhookRetryDelayMs,
+    createWebhookOutbox,
+    MAX_OUTBOX_BYTES,
+    MAX_WEBHOOK_ATTEMPTS,
+    type WebhookOutboxEntry,
+} from '@/utils/sinks/webhook-outbox';
+import type { WebhookDeliveryLog, WebhookExportPayload } from '@/utils/sinks/webhook-sink-contract';
+
+const PAYLOAD: WebhookExportPayload = {
+    platform: 'ChatGPT',
+    conversationId: 'conv-1',
+    filename: 'Café notes.md',
+    format: 'markdown',
+    mimeType: 'text/markdown',
+    content: '# Café notes',
+};
+
+const SINK: WebhookSink = {
+    id: 'kb',
+    url: 'http://localhost:8765/ingest',
+    enabled: true,
+    headers: { Authorization: 'Bearer t0ken' },
+};
+
+const createHarness = (
+    options: { sinks?: WebhookSink[]; responses?: Array<number | Error>; writeOutboxError?: Error } = {},
+) => {
+    const state = { now: 1_000, outbox: [] as WebhookOutboxEntry[], log: {} as WebhookDeliveryLog };
+    const responses = [...(options.responses ?? [])];
+    const fetchImpl = mock(async (_url: string, _init: RequestInit) => {
+        const next = responses.shift() ?? 200;
+        if (next instanceof Error) {
+            throw next;
+        }
+        return new Response(null, { status: next });
+    });
+    const scheduled: Array<number | null> = [];
+    let nextId = 0;
+    const outbox = createWebhookOutbox({
+        loadSinks: async () => options.sinks ?? [SINK],
+        store: {
+            readOutbox: async () => state.outbox,
+            writeOutbox: async (entries) => {
+                if (options.writeOutboxError) {
+                    throw options.writeOutboxError;
+                }
+                state.outbox = entries;
+            },
+            readLog: async () => state.log,
+            writeLog: async (log) => {
+                state.log = log;
+            },
+        },
+        logger: { info: () => {}, warn: () => {} },
+        fetchImpl: fetchImpl as unknown as typeof fetch,
+        now: () => state.now,
+        createId: () => `delivery-${++nextId}`,
+        scheduleFlush: (dueAt) => {
+            scheduled.push(dueAt);
+        },
+    });
+    return { state, outbox, fetchImpl, scheduled };
+};
+
+describe('webhook-outbox', () => {
+    it('should POST the export with metadata and custom headers to every enabled sink', async () => {
+        const { state, outbox, fetchImpl } = createHarness({
+            sinks: [SINK, { ...SINK, id: 'off', enabled: false }, { ...SINK, id: 'backup', headers: {} }],
+        });
+
+        await outbox.enqueue(PAYLOAD);
+
+        expect(fetchImpl).toHaveBeenCalledTimes(2);
+        const [url, init] = fetchImpl.mock.calls[0]!;
+        expect(url).toBe('http://localhost:8765/ingest');
+        expect(init.method).toBe('POST');
+        expect(init.body).toBe('# Café notes');
+        expect(init.headers).toMatchObject({
+            'Content-Type': 'text/markdown',
+            'X-Blackiya-Delivery-Id': 'delivery-1',
+            'X-Blackiya-Platform': 'ChatGPT',
+            'X-Blackiya-Conversation-Id': 'conv-1',
+            'X-Blackiya-Format': 'markdown',
+            'X-Blackiya-Filename': 'Caf%C3%A9%20notes.md',
+            Authorization: 'Bearer t0ken',
+        });
+        expect(state.outbox).toEqual([]);
+        expect(state.log.kb?.[0]).toMatchObject({ status: 'delivered', attempt: 1, httpStatus: 200 });
+        expect(state.log.backup).toHaveLength(1);
+        expect(state.log.off).toBeUndefined();
+    });
+
+    it('should keep failed deliveries in the outbox and retry them with backoff', async () => {
+        const { state, outbox, fetchImpl, scheduled } = createHarness({
+            responses: [503, new Error('Failed to fetch'), 200],
+        });
+
+        await outbox.enqueue(PAYLOAD);
+        expect(state.outbox).toHaveLength(1);
+        expect(state.outbox[0]).toMatchObject({ attempts: 1, nextAttemptAt: 1_000 + computeWebhookRetryDelayMs(1) });
+        expect(scheduled).toEqual([1_000 + 5_000]);
+
+        await outbox.flush();
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+
+        state.now += 5_000;
+        await outbox.flush();
+        expect(state.outbox[0]?.nextAttemptAt).toBe(state.now + 10_000);
+
+        state.now += 10_000;
+        await outbox.flush();
+        expect(state.outbox).toEqual([]);
+        expect(
+            fetchImpl.mock.calls.map(([, init]) => (init.headers as Record<string, string>)['X-Blackiya-Delivery-Id']),
+        ).toEqual(['delivery-1', 'delivery-1', 'delivery-1']);
+        expect(state.log.kb?.map((entry) => entry.status)).toEqual(['delivered', 'retrying', 'retrying']);
+        expect(state.log.kb?.[1]?.error).toBe('Failed to fetch');
+    });
+
+    it('should give up on client errors and after the last attempt', async () => {
+        const rejected = createHarness({ responses: [400] });
+        await rejected.outbox.enqueue(PAYLOAD);
+        expect(rejected.state.outbox).toEqual([]);
+        expect(rejected.state.log.kb?.[0]).toMatchObject({ status: 'failed', httpStatus: 400 });
+
+        const down = createHarness({ responses: Array.from({ length: MAX_WEBHOOK_ATTEMPTS }, () => 500) });
+        await down.outbox.enqueue(PAYLOAD);
+        for (let attempt = 1; attempt < MAX_WEBHOOK_ATTEMPTS; attempt += 1) {
+            down.state.now += computeWebhookRetryDelayMs(attempt);
+            await down.outbox.flush();
+        }
+        expect(down.fetchImpl).toHaveBeenCalledTimes(MAX_WEBHOOK_ATTEMPTS);
+        expect(down.state.outbox).toEqual([]);
+        expect(down.state.log.kb?.[0]).toMatchObject({ status: 'failed', attempt: MAX_WEBHOOK_ATTEMPTS });
+        expect(computeWebhookRetryDelayMs(20)).toBe(15 * 60_000);
+    });
+
+    it('should drop pending deliveries for sinks that were removed or switched off', async () => {
+        const sinks = [SINK];
+        const { state, outbox, fetchImpl } = createHarness({ sinks, responses: [503] });
+
+        await outbox.enqueue(PAYLOAD);
+        expect(state.outbox).toHaveLength(1);
+
+        sinks[0] = { ...SINK, enabled: false };
+        state.now += 60_000;
+        await outbox.flush();
+        expect(state.outbox).toEqual([]);
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drop the oldest deliveries beyond the byte cap and log them as failed', async () => {
+        const { state, outbox } = createHarness({ responses: [503, 503] });
+        const large = { ...PAYLOAD, content: 'x'.repeat(MAX_OUTBOX_BYTES / 2 + 1) };
+
+        await outbox.enqueue(large);
+        await outbox.enqueue({ ...large, conversationId: 'conv-2' });
+
+        expect(state.outbox.map((entry) => entry.id)).toEqual(['delivery-2']);
+        expect(state.log.kb?.find((entry) => entry.status === 'failed')).toMatchObject({
+            deliveryId: 'delivery-1',
+            attempt: 1,
+            error: 'Dropped: webhook outbox is full',
+        });
+    });
+
+    it('should log deliveries that could not be stored instead of losing them silently', async () => {
+        const { state, outbox, fetchImpl, scheduled } = createHarness({
+            writeOutboxError: new Error('QUOTA_BYTES quota exceeded'),
+        });
+
+        await outbox.enqueue(PAYLOAD);
+
+        expect(fetchImpl).not.toHaveBeenCalled();
+        expect(scheduled).toEqual([]);
+        expect(state.log.kb).toEqual([
+            {
+                at: 1_000,
+                deliveryId: 'delivery-1',
+                conversationId: 'conv-1',
+                filename: 'Café notes.md',
+                status: 'failed',
+                attempt: 0,
+                error: 'Not queued: QUOTA_BYTES quota exceeded',
+            },
+        ]);
+    });
+});
@@ -0,0 +1,300 @@
+/**
+ * Webhook Outbox
+ *
+ * Background-owned delivery of exports to the user's webhook sinks. Each
+ * export becomes one outbox entry per enabled sink, persisted in
+ * `browser.storage.local` before the first attempt so nothing is lost while
+ * the endpoint is down or the service worker sleeps. Failed attempts on
+ * network errors, timeouts, 408, 429 and 5xx are retried with exponential
+ * backoff; other responses fail the delivery for good. Retries are timed with
+ * a `browser.alarms` alarm, because the service worker is stopped long before
+ * the longer backoffs elapse. Every outcome, including deliveries the outbox
+ * had no room to keep, is recorded in a bounded per-sink delivery log the
+ * popup shows.
+ *
+ * Deliveries are POSTs whose body is the export content. The entry ID is sent
+ * as `X-Blackiya-Delivery-Id` and stays the same across retries, so endpoints
+ * can de-duplicate.
+ *
+ * @module utils/sinks/webhook-outbox
+ */
+
+import { browser } from 'wxt/browser';
+import type { logger } from '@/utils/logger';
+import type { WebhookSink } from '@/utils/settings';
+import type {
+    WebhookDeliveryLog,
+    WebhookDeliveryLogEntry,
+    WebhookExportPayload,
+} from '@/utils/sinks/webhook-sink-contract';
+
+export const WEBHOOK_OUTBOX_KEY = 'userSettings.webhookSinks.outbox.v1';
+export const WEBHOOK_DELIVERY_LOG_KEY = 'userSettings.webhookSinks.log.v1';
+/** Alarm the background routes to `flush`; it also wakes a stopped service worker. */
+export const WEBHOOK_OUTBOX_ALARM = 'blackiya-webhook-outbox';
+
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 5_000;
+const MAX_RETRY_DELAY_MS = 15 * 60_000;
+const REQUEST_TIMEOUT_MS = 30_000;
+/** Oldest entries are dropped beyond either cap, so an endpoint that never returns can't fill storage. */
+const MAX_OUTBOX_ENTRIES = 200;
+/** Content bytes kept in the outbox; `storage.local` holds 10 MB without `unlimitedStorage`. */
+export const MAX_OUTBOX_BYTES = 4 * 1024 * 1024;
+const MAX_LOG_ENTRIES_PER_SINK = 50;
+
+export type WebhookOutboxEntry = {
+    id: string;
+    sinkId: string;
+    payload: WebhookExportPayload;
+    /** Attempts made so far. */
+    attempts: number;
+    /** Epoch milliseconds of the next attempt. */
+    nextAttemptAt: number;
+    createdAt: number;
+};
+
+export type WebhookOutboxStore = {
+    readOutbox: () => Promise<WebhookOutboxEntry[]>;
+    writeOutbox: (entries: WebhookOutboxEntry[]) => Promise<void>;
+    readLog: () => Promise<WebhookDeliveryLog>;
+    writeLog: (log: WebhookDeliveryLog) => Promise<void>;
+};
+
+export type WebhookOutboxDeps = {
+    loadSinks: () => Promise<WebhookSink[]>;
+    store: WebhookOutboxStore;
+    logger: Pick<typeof logger, 'info' | 'warn'>;
+    fetchImpl?: typeof fetch;
+    now?: () => number;
+    createId?: () => string;
+    /**
+     * Arranges the next `flush` at `dueAt` (epoch milliseconds), or cancels it for
+     * `null`; defaults to the `WEBHOOK_OUTBOX_ALARM` alarm.
+     */
+    scheduleFlush?: (dueAt: number | null) => void;
+};
+
+type AttemptResult =
+    | { ok: true; httpStatus: number }
+    | { ok: false; retryable: boolean; httpStatus?: number; error: string };
+
+/** Backoff before attempt `attempt + 1`: 5s, 10s, 20s, ... capped at 15 minutes. */
+export const computeWebhookRetryDelayMs = (attempt: number) =>
+    Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempt - 1), MAX_RETRY_DELAY_MS);
+
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+const buildRequestHeaders = (entry: WebhookOutboxEntry, sink: WebhookSink): Record<string, string> => ({
+    'Content-Type': entry.payload.mimeType,
+    'X-Blackiya-Delivery-Id': entry.id,
+    'X-Blackiya-Platform': entry.payload.platform,
+    'X-Blackiya-Conversation-Id': entry.payload.conversationId,
+    'X-Blackiya-Format': entry.payload.format,
+    // Header values must be ByteStrings; titles in filenames often aren't.
+    'X-Blackiya-Filename': encodeURIComponent(entry.payload.filename),
+    ...sink.headers,
+});
+
+const textEncoder = new TextEncoder();
+
+const measureEntryBytes = (entry: WebhookOutboxEntry) => textEncoder.encode(entry.payload.content).byteLength;
+
+/** Keeps the newest entries within the count and byte caps; returns what was dropped. */
+const capOutboxEntries = (entries: WebhookOutboxEntry[]) => {
+    const kept: WebhookOutboxEntry[] = [];
+    let bytes = 0;
+    for (let index = entries.length - 1; index >= 0 && kept.length < MAX_OUTBOX_ENTRIES; index -= 1) {
+        const entryBytes = measureEntryBytes(entries[index]);
+        if (bytes + entryBytes > MAX_OUTBOX_BYTES) {
+            break;
+        }
+        bytes += entryBytes;
+        kept.unshift(entries[index]);
+    }
+    return { kept, dropped: entries.slice(0, entries.length - kept.length) };
+};
+
+const appendLogEntry = (log: WebhookDeliveryLog, sinkId: string, entry: WebhookDeliveryLogEntry) => {
+    log[sinkId] = [entry, ...(log[sinkId] ?? [])].slice(0, MAX_LOG_ENTRIES_PER_SINK);
+};
+
+export const createStorageWebhookOutboxStore = (): WebhookOutboxStore => ({
+    readOutbox: async () => {
+        const result = await browser.storage.local.get(WEBHOOK_OUTBOX_KEY);
+        const entries = result?.[WEBHOOK_OUTBOX_KEY];
+        return Array.isArray(entries) ? (entries as WebhookOutboxEntry[]) : [];
+    },
+    writeOutbox: async (entries) => {
+        await browser.storage.local.set({ [WEBHOOK_OUTBOX_KEY]: entries });
+    },
+    readLog: async () => {
+        const result = await browser.storage.local.get(WEBHOOK_DELIVERY_LOG_KEY);
+        const log = result?.[WEBHOOK_DELIVERY_LOG_KEY];
+        return log && typeof log === 'object' && !Array.isArray(log) ? (log as WebhookDeliveryLog) : {};
+    },
+    writeLog: async (log) => {
+        await browser.storage.local.set({ [WEBHOOK_DELIVERY_LOG_KEY]: log });
+    },
+});
+
+/** Schedules flushes with `browser.alarms`; the background listens for `WEBHOOK_OUTBOX_ALARM`. */
+export const scheduleWebhookOutboxAlarm = (dueAt: number | null) => {
+    if (dueAt === null) {
+        void browser.alarms.clear(WEBHOOK_OUTBOX_ALARM);
+        return;
+    }
+    void browser.alarms.create(WEBHOOK_OUTBOX_ALARM, { when: dueAt });
+};
+
+export const createWebhookOutbox = (deps: WebhookOutboxDeps) => {
+    const fetchImpl = deps.fetchImpl ?? fetch;
+    const now = deps.now ?? Date.now;
+    const createId = deps.createId ?? (() => crypto.randomUUID());
+    const scheduleFlush = deps.scheduleFlush ?? scheduleWebhookOutboxAlarm;
+    let queue: Promise<void> = Promise.resolve();
+
+    /** Outbox and log writes are read-modify-write, so every task runs one at a time. */
+    const runExclusive = (task: () => Promise<void>) => {
+        queue = queue.then(task).catch((error) => {
+            deps.logger.warn('Webhook outbox task failed', error);
+        });
+        return queue;
+    };
+
+    const attemptDelivery = async (entry: WebhookOutboxEntry, sink: WebhookSink): Promise<AttemptResult> => {
+        try {
+            const response = await fetchImpl(sink.url, {
+                method: 'POST',
+                headers: buildRequestHeaders(entry, sink),
+                body: entry.payload.content,
+                signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+            });
+            if (response.ok) {
+                return { ok: true, httpStatus: response.status };
+            }
+            return {
+                ok: false,
+                retryable: isRetryableStatus(response.status),
+                httpStatus: response.status,
+                error: `HTTP ${response.status}`,
+            };
+        } catch (error) {
+            return { ok: false, retryable: true, error: error instanceof Error ? error.message : String(error) };
+        }
+    };
+
+    /** Returns the entry to keep in the outbox, or `null` once it is delivered or abandoned. */
+    const processEntry = async (
+        entry: WebhookOutboxEntry,
+        sink: WebhookSink,
+        log: WebhookDeliveryLog,
+    ): Promise<WebhookOutboxEntry | null> => {
+        const attempt = entry.attempts + 1;
+        const result = await attemptDelivery(entry, sink);
+        const willRetry = !result.ok && result.retryable && attempt < MAX_WEBHOOK_ATTEMPTS;
+        appendLogEntry(log, sink.id, {
+            at: now(),
+            deliveryId: entry.id,
+            conversationId: entry.payload.conversationId,
+            filename: entry.payload.filename,
+            status: result.ok ? 'delivered' : willRetry ? 'retrying' : 'failed',
+            attempt,
+            httpStatus: result.httpStatus,
+            ...(result.ok ? {} : { error: result.error }),
+        });
+        if (!willRetry) {
+            if (!result.ok) {
+                deps.logger.warn('Webhook delivery failed', { sinkId: sink.id, deliveryId: entry.id, attempt });
+            }
+            return null;
+        }
+        return { ...entry, attempts: attempt, nextAttemptAt: now() + computeWebhookRetryDelayMs(attempt) };
+    };
+
+    const scheduleNextFlush = (entries: WebhookOutboxEntry[]) => {
+        scheduleFlush(entries.length === 0 ? null : Math.min(...entries.map((entry) => entry.nextAttemptAt)));
+    };
+
+    /** Logs deliveries the outbox could not keep as failed, so they don't vanish silently. */
+    const logUnqueuedEntries = async (entries: WebhookOutboxEntry[], error: string) => {
+        const log = await deps.store.readLog();
+        for (const entry of entries) {
+            appendLogEntry(log, entry.sinkId, {
+                at: now(),
+                deliveryId: entry.id,
+                conversationId: entry.payload.conversationId,
+                filename: entry.payload.filename,
+                status: 'failed',
+                attempt: entry.attempts,
+                error,
+            });
+        }
+        await deps.store.writeLog(log);
+    };
+
+    const flushDueEntries = async () => {
+        const sinks = new Map((await deps.loadSinks()).filter((sink) => sink.enabled).map((sink) => [sink.id, sink]));
+        const entries = await deps.store.readOutbox();
+        const log = await deps.store.readLog();
+        const remaining: WebhookOutboxEntry[] = [];
+        for (const entry of entries) {
+            const sink = sinks.get(entry.sinkId);
+            if (!sink) {
+                // The sink was removed or switched off; its pending deliveries go with it.
+                continue;
+            }
+            const kept = entry.nextAttemptAt <= now() ? await processEntry(entry, sink, log) : entry;
+            if (kept) {
+                remaining.push(kept);
+            }
+        }
+        await deps.store.writeOutbox(remaining);
+        await deps.store.writeLog(log);
+        scheduleNextFlush(remaining);
+    };
+
+    /** Attempts every due delivery; pending ones are rescheduled. */
+    const flush = () => runExclusive(flushDueEntries);
+
+    const addEntries = async (payload: WebhookExportPayload) => {
+        const sinks = (await deps.loadSinks()).filter((sink) => sink.enabled);
+        if (sinks.length === 0) {
+            return;
+        }
+        const createdAt = now();
+        const added = sinks.map((sink) => ({
+            id: createId(),
+            sinkId: sink.id,
+            payload,
+            attempts: 0,
+            nextAttemptAt: createdAt,
+            createdAt,
+        }));
+        const { kept, dropped } = capOutboxEntries([...(await deps.store.readOutbox()), ...added]);
+        if (dropped.length > 0) {
+            deps.logger.warn('Webhook outbox is full; dropping the oldest deliveries', { dropped: dropped.length });
+            await logUnqueuedEntries(dropped, 'Dropped: webhook outbox is full');
+        }
+        try {
+            await deps.store.writeOutbox(kept);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            deps.logger.warn('Could not store webhook deliveries', { error: message });
+            await logUnqueuedEntries(
+                added.filter((entry) => kept.includes(entry)),
+                `Not queued: ${message}`,
+            );
+        }
+    };
+
+    /** Queues the export for every enabled sink and attempts delivery right away. */
+    const enqueue = async (payload: WebhookExportPayload) => {
+        await runExclusive(() => addEntries(payload));
+        await flush();
+    };
+
+    return { enqueue, flush };
+};
+
+export type WebhookOutbox = ReturnType<typeof createWebhookOutbox>;
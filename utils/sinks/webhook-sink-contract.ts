@@ -0,0 +1,64 @@
+/**
+ * Webhook Sink Contract
+ *
+ * Messages and records shared by the content script, which hands every saved
+ * or bulk-exported conversation to the background worker, the background
+ * outbox that POSTs it to each enabled sink, and the popup delivery log.
+ *
+ * @module utils/sinks/webhook-sink-contract
+ */
+
+import { type ExportFormat, isExportFormat } from '@/utils/settings';
+
+export const SINK_DELIVER_MESSAGE = 'BLACKIYA_SINK_DELIVER';
+
+/** One serialized export, exactly as the matching download would contain it (attachments stay remote links). */
+export type WebhookExportPayload = {
+    /** Adapter display name (e.g. `ChatGPT`). */
+    platform: string;
+    conversationId: string;
+    /** File name the download would use, including its extension. */
+    filename: string;
+    format: ExportFormat;
+    mimeType: string;
+    content: string;
+};
+
+export type SinkDeliverMessage = {
+    type: typeof SINK_DELIVER_MESSAGE;
+    payload: WebhookExportPayload;
+};
+
+export type WebhookDeliveryStatus = 'delivered' | 'retrying' | 'failed';
+
+export type WebhookDeliveryLogEntry = {
+    /** Epoch milliseconds. */
+    at: number;
+    deliveryId: string;
+    conversationId: string;
+    filename: string;
+    status: WebhookDeliveryStatus;
+    /** 1-based attempt that produced this entry; attempts made so far for a delivery the outbox dropped. */
+    attempt: number;
+    httpStatus?: number;
+    error?: string;
+};
+
+/** Delivery logs keyed by sink ID, newest entry first. */
+export type WebhookDeliveryLog = Record<string, WebhookDeliveryLogEntry[]>;
+
+export const isSinkDeliverMessage = (value: unknown): value is SinkDeliverMessage => {
+    if (!value || typeof value !== 'object' || (value as { type?: unknown }).type !== SINK_DELIVER_MESSAGE) {
+        return false;
+    }
+    const payload = (value as { payload?: Record<string, unknown> }).payload;
+    return (
+        !!payload &&
+        typeof payload.platform === 'string' &&
+        typeof payload.conversationId === 'string' &&
+        typeof payload.filename === 'string' &&
+        isExportFormat(payload.format) &&
+        typeof payload.mimeType === 'string' &&
+        typeof payload.content === 'string'
+    );
+};
@@ -11,7 +11,16 @@ export type Author = {
  * Content of a message - can be text, thoughts, or other content types
  */
 export type MessageContent = {
-    content_type: 'text' | 'thoughts' | 'reasoning_recap' | 'code' | 'execution_output';
+    content_type:
+        | 'text'
+        | 'multimodal_text'
+        | 'thoughts'
+        | 'reasoning_recap'
+        | 'code'
+        | 'execution_output'
+        | 'tether_quote'
+        | 'tether_browsing_display'
+        | 'system_error';
     parts?: string[];
     thoughts?: Array<{
         summary: string;
@@ -20,6 +29,16 @@ export type MessageContent = {
         finished: boolean;
     }>;
     content?: string;
+    /** Body of `code`, `execution_output`, `tether_quote` and `system_error` content. */
+    text?: string;
+    /** Language of `code` content (e.g. `python`, `json`). */
+    language?: string;
+    /** Quoted page of `tether_quote` content. */
+    title?: string;
+    url?: string;
+    domain?: string;
+    /** Rendered search results of `tether_browsing_display` content. */
+    result?: string;
 };
 
 /**
@@ -39,6 +58,48 @@ export type Message = {
     channel: string | null;
 };
 
+/**
+ * A web source cited by an assistant answer, stored as `metadata.sources` on
+ * the assistant message (e.g. Perplexity search results)
+ */
+export type MessageSource = {
+    title: string;
+    url: string;
+    snippet: string;
+    /** Inline markers in the message text that cite this source (e.g. ChatGPT `【11†source】`). */
+    markers?: string[];
+};
+
+/**
+ * A canvas document written by a message, stored as `metadata.canvas_document`
+ * on the assistant tool call that created or rewrote it (ChatGPT canvas)
+ */
+export type MessageCanvasDocument = {
+    /** Platform document ID, when known. */
+    id: string | null;
+    title: string;
+    /** Platform document type, e.g. `document` or `code/python`. */
+    type: string;
+    content: string;
+};
+
+/**
+ * An image or file referenced by a message, stored as `metadata.attachments`
+ * (e.g. ChatGPT uploads and DALL·E outputs, Gemini and Grok generated images)
+ */
+export type MessageAttachment = {
+    /** Platform asset ID, or the asset URL when the platform has none. */
+    id: string;
+    kind: 'image' | 'file';
+    /** `upload` for files the user attached, `generated` for model output. */
+    origin: 'upload' | 'generated';
+    name: string | null;
+    mime_type: string | null;
+    size: number | null;
+    /** Download location; relative URLs resolve against the platform page. */
+    url: string | null;
+};
+
 /**
  * A node in the conversation message tree
  */
@@ -239,4 +239,35 @@ describe('ButtonManager', () => {
         manager.setLifecycleState('completed');
         expect(badge?.textContent).toContain('Completed');
     });
+
+    it('renders the export format toggle only when a format handler is provided', () => {
+        const withoutToggle = new ButtonManager(
+            async () => {},
+            async () => {},
+        );
+        withoutToggle.inject(document.body as any, null);
+        expect(document.getElementById('blackiya-format-btn')).toBeNull();
+        withoutToggle.remove();
+
+        const onFormatClick = mock(async () => {});
+        const manager = new ButtonManager(
+            async () => {},
+            async () => {},
+            onFormatClick,
+        );
+        manager.inject(document.body as any, null);
+
+        const formatBtn = document.getElementById('blackiya-format-btn') as HTMLButtonElement | null;
+        expect(formatBtn?.textContent).toBe('JSON');
+        expect(formatBtn?.title).toBe('Export format: JSON (raw) (click to switch)');
+
+        manager.setExportFormat('markdown');
+        const saveBtn = document.getElementById('blackiya-save-btn') as HTMLButtonElement | null;
+        expect(formatBtn?.textContent).toBe('MD');
+        expect(saveBtn?.title).toBe('Save Markdown');
+        expect(manager.getExportFormat()).toBe('markdown');
+
+        formatBtn?.click();
+        expect(onFormatClick).toHaveBeenCalledTimes(1);
+    });
 });
@@ -3,23 +3,41 @@
  *
  * Handles creation/styling/state for compact in-page controls.
  */
+import { getExportFormatDefinition } from '@/utils/export/formats';
 import { logger } from '@/utils/logger';
+import { DEFAULT_EXPORT_FORMAT, type ExportFormat } from '@/utils/settings';
+
+/** Overrides for the Save button's success state. */
+export type SaveSuccessFeedback = { icon?: string; title?: string };
 
 export class ButtonManager {
-    private readonly controlIds = ['blackiya-lifecycle-badge', 'blackiya-save-btn', 'blackiya-calibrate-btn'];
+    private readonly controlIds = [
+        'blackiya-lifecycle-badge',
+        'blackiya-save-btn',
+        'blackiya-format-btn',
+        'blackiya-calibrate-btn',
+    ];
     private container: HTMLElement | null = null;
     private lifecycleBadge: HTMLElement | null = null;
     private saveStartButton: HTMLButtonElement | null = null;
     private calibrateButton: HTMLButtonElement | null = null;
+    private formatButton: HTMLButtonElement | null = null;
     private saveButtonMode: 'default' | 'force-degraded' = 'default';
+    private exportFormat: ExportFormat = DEFAULT_EXPORT_FORMAT;
     private isFixedPosition = false;
     private dedupeObserver: MutationObserver | null = null;
     private onSaveClick: () => Promise<void>;
     private onCalibrateClick: () => Promise<void>;
+    private onFormatClick: (() => Promise<void>) | null;
 
-    constructor(onSaveClick: () => Promise<void>, onCalibrateClick: () => Promise<void>) {
+    constructor(
+        onSaveClick: () => Promise<void>,
+        onCalibrateClick: () => Promise<void>,
+        onFormatClick?: () => Promise<void>,
+    ) {
         this.onSaveClick = onSaveClick;
         this.onCalibrateClick = onCalibrateClick;
+        this.onFormatClick = onFormatClick ?? null;
         this.injectStyles();
     }
 
@@ -35,10 +53,14 @@ export class ButtonManager {
         this.lifecycleBadge = this.createLifecycleBadge();
         this.saveStartButton = this.createButton('save', '💾', this.onSaveClick);
         this.calibrateButton = this.createButton('calibrate', '🧪', this.onCalibrateClick);
+        this.formatButton = this.onFormatClick ? this.createFormatButton(this.onFormatClick) : null;
 
         if (this.container && this.lifecycleBadge && this.saveStartButton && this.calibrateButton) {
             this.container.appendChild(this.lifecycleBadge);
             this.container.appendChild(this.saveStartButton);
+            if (this.formatButton) {
+                this.container.appendChild(this.formatButton);
+            }
             this.container.appendChild(this.calibrateButton);
 
             // Fixed position fallback logic
@@ -66,6 +88,7 @@ export class ButtonManager {
         this.lifecycleBadge = null;
         this.saveStartButton = null;
         this.calibrateButton = null;
+        this.formatButton = null;
     }
 
     public exists(): boolean {
@@ -124,6 +147,18 @@ export class ButtonManager {
         this.renderDefaultButton('save');
     }
 
+    public setExportFormat(format: ExportFormat) {
+        this.exportFormat = format;
+        this.renderFormatButton();
+        if (this.saveStartButton && !this.saveStartButton.disabled) {
+            this.renderDefaultButton('save');
+        }
+    }
+
+    public getExportFormat(): ExportFormat {
+        return this.exportFormat;
+    }
+
     public setCalibrationState(
         state: 'idle' | 'waiting' | 'capturing' | 'success' | 'error',
         options?: { timestampLabel?: string | null },
@@ -487,7 +522,7 @@ export class ButtonManager {
         const button = document.createElement('button');
         button.id = `blackiya-${type}-btn`;
         button.textContent = label;
-        button.title = type === 'save' ? 'Save JSON' : 'Calibrate';
+        button.title = type === 'save' ? this.getSaveTitle() : 'Calibrate';
         button.setAttribute('aria-label', button.title);
 
         button.style.cssText = this.getButtonDefaultStyles(type);
@@ -511,6 +546,41 @@ export class ButtonManager {
         return button;
     }
 
+    private createFormatButton(onClick: () => Promise<void>): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.id = 'blackiya-format-btn';
+        button.style.cssText = `
+            display: inline-flex;
+            align-items: center;
+            justify-content: center;
+            min-width: 40px;
+            height: 32px;
+            padding: 0 8px;
+            border-radius: 6px;
+            border: 1px solid rgba(16, 163, 127, 0.45);
+            background: rgba(16, 163, 127, 0.12);
+            color: #0d8a6a;
+            font-size: 11px;
+            font-weight: 700;
+            letter-spacing: 0.02em;
+            cursor: pointer;
+        `;
+        button.addEventListener('click', onClick);
+        this.formatButton = button;
+        this.renderFormatButton();
+        return button;
+    }
+
+    private renderFormatButton() {
+        if (!this.formatButton) {
+            return;
+        }
+        const definition = getExportFormatDefinition(this.exportFormat);
+        this.formatButton.textContent = definition.shortLabel;
+        this.formatButton.title = `Export format: ${definition.label} (click to switch)`;
+        this.formatButton.setAttribute('aria-label', this.formatButton.title);
+    }
+
     private updateContainerStyles() {
         if (!this.container) {
             return;
@@ -570,15 +640,16 @@ export class ButtonManager {
         `;
     }
 
-    public setSuccess(_action: 'save') {
+    /** Briefly shows the outcome; `feedback` overrides the default ✅ / "Saved" (e.g. for a local folder write). */
+    public setSuccess(_action: 'save', feedback: SaveSuccessFeedback = {}) {
         const activeBtn = this.saveStartButton;
         if (!activeBtn) {
             return;
         }
 
         activeBtn.disabled = true;
-        activeBtn.textContent = '✅';
-        activeBtn.title = 'Saved';
+        activeBtn.textContent = feedback.icon ?? '✅';
+        activeBtn.title = feedback.title ?? 'Saved';
         activeBtn.style.opacity = '1';
 
         setTimeout(() => {
@@ -589,6 +660,10 @@ export class ButtonManager {
         }, 2000);
     }
 
+    private getSaveTitle(): string {
+        return `Save ${getExportFormatDefinition(this.exportFormat).label}`;
+    }
+
     private getDefaultLabel(_action: 'save'): string {
         return '💾';
     }
@@ -605,7 +680,8 @@ export class ButtonManager {
             this.saveButtonMode === 'force-degraded'
                 ? 'linear-gradient(135deg, #f59e0b 0%, #d97706 100%)'
                 : 'linear-gradient(135deg, #10a37f 0%, #0d8a6a 100%)';
-        button.title = this.saveButtonMode === 'force-degraded' ? 'Force Save (partial data possible)' : 'Save JSON';
+        button.title =
+            this.saveButtonMode === 'force-degraded' ? 'Force Save (partial data possible)' : this.getSaveTitle();
         button.setAttribute('aria-label', button.title);
     }
 
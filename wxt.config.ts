@@ -80,8 +80,13 @@ export default defineConfig({
     manifest: {
         name: MANIFEST_NAME,
         description: 'Capture and save conversation JSON from ChatGPT, Gemini, and other LLMs',
-        permissions: ['storage'],
+        // `alarms` times webhook retries across service worker restarts.
+        permissions: ['storage', 'alarms'],
         host_permissions: [...SUPPORTED_PLATFORM_URLS],
+        // Requested per origin from the popup when a webhook sink is enabled.
+        optional_host_permissions: ['http://*/*', 'https://*/*'],
+        // Requested from the popup when writing exports to a local folder is enabled.
+        optional_permissions: ['nativeMessaging'],
         action: {
             default_icon: {
                 '16': 'icon/16.png',